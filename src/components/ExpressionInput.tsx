@@ -1,12 +1,25 @@
 import { useRef, useEffect, useMemo } from "react";
+import { convertLatexToMarkup } from "mathlive";
 import { MathInput, MathInputRef } from "@/components/MathInput";
 import { X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RuntimeValue } from "@/lib/runtime/value";
-import { MathType, TypeInfo } from "@/lib/types";
+import {
+  MathType,
+  TypeInfo,
+  isLinearAlgebraCommand,
+  isRegression,
+  isRootFindingCommand,
+  isSymbolicCommand,
+} from "@/lib/types";
 import { expressionEngine } from "@/lib/expression";
+import { ASTNode } from "@/lib/parser";
+import { astToLatex } from "@/lib/astToString";
+import { integralArguments } from "@/lib/runtime/evaluator";
+import { integrateFunction } from "@/lib/computation/integration";
+import { distributionMean, distributionVariance } from "@/lib/computation/distributions";
 
 import "@/components/MathInput.css";
 
@@ -56,6 +69,11 @@ interface ExpressionInputProps {
   }>;
 }
 
+interface ScalarDisplay {
+  text?: string;
+  latex?: string;
+}
+
 export const ExpressionInput = ({
   id,
   index,
@@ -106,12 +124,63 @@ export const ExpressionInput = ({
     return null;
   };
 
+  // Closed forms from symbolic commands, matrices, linear algebra results and
+  // distribution moments render as LaTeX
+  const formatSymbolicValue = (val: RuntimeValue): string | null => {
+    if (val.kind === 'expression') {
+      return astToLatex(val.ast);
+    }
+    if (val.kind === 'matrix') {
+      const rows = val.rows.map(row => row.map(formatNumber).join('&'));
+      return `\\begin{bmatrix}${rows.join('\\\\')}\\end{bmatrix}`;
+    }
+    if (val.kind === 'distribution') {
+      return `\\mu=${formatNumber(distributionMean(val))},\\;\\sigma^{2}=${formatNumber(distributionVariance(val))}`;
+    }
+    if (val.kind === 'point' || val.kind === 'point3d') {
+      const coordinates = val.kind === 'point' ? [val.x, val.y] : [val.x, val.y, val.z];
+      return `\\left(${coordinates.map(formatNumber).join(',\\;')}\\right)`;
+    }
+    if (val.kind === 'list') {
+      if (val.elements.length === 0) return '\\varnothing';
+      const items = val.elements.map(element =>
+        element.kind === 'number' || element.kind === 'complex'
+          ? formatRuntimeValue(element)
+          : formatSymbolicValue(element)
+      );
+      return items.every(item => item !== null) ? `\\left\\{${items.join(',\\;')}\\right\\}` : null;
+    }
+    return null;
+  };
+
+  const evaluateScalar = (ast: ASTNode): ScalarDisplay | null => {
+    if (ast.type === 'integral') {
+      // Definite integrals also show their quadrature error estimate
+      const { integrand, lower, upper } = integralArguments(ast, {}, evaluationContext);
+      const { value, error } = integrateFunction(integrand, lower, upper, evaluationContext);
+      return { text: `${formatNumber(value)} ± ${error.toExponential(1)}` };
+    }
+    const result = expressionEngine.evaluate(ast, {}, evaluationContext);
+    const latex = formatSymbolicValue(result);
+    if (latex) return { latex };
+    const text = formatRuntimeValue(result);
+    return text ? { text } : null;
+  };
+
   // Calculate scalar value if applicable
-  const getScalarValue = (): string | null => {
+  const getScalarValue = (): ScalarDisplay | null => {
     if (!normalized) return null;
     const isDefinition = normalized.includes('=') && !normalized.includes('==');
 
-    if (typeInfo.type !== MathType.Number && typeInfo.type !== MathType.Complex) {
+    if (
+      typeInfo.type !== MathType.Number &&
+      typeInfo.type !== MathType.Complex &&
+      typeInfo.type !== MathType.Matrix &&
+      typeInfo.type !== MathType.Distribution &&
+      !isSymbolicCommand(normalized) &&
+      !isLinearAlgebraCommand(normalized) &&
+      !isRootFindingCommand(normalized)
+    ) {
       return null;
     }
 
@@ -122,14 +191,12 @@ export const ExpressionInput = ({
         const rhs = parts[1].trim();
         const ast = expressionEngine.parseNormalized(rhs, evaluationContext);
         if (expressionEngine.hasFreeVariables(ast, evaluationContext)) return null;
-        const result = expressionEngine.evaluate(ast, {}, evaluationContext);
-        return formatRuntimeValue(result);
+        return evaluateScalar(ast);
       }
 
       const ast = expressionEngine.parseNormalized(normalized, evaluationContext);
       if (expressionEngine.hasFreeVariables(ast, evaluationContext)) return null;
-      const result = expressionEngine.evaluate(ast, {}, evaluationContext);
-      return formatRuntimeValue(result);
+      return evaluateScalar(ast);
     } catch {
       return null;
     }
@@ -155,6 +222,17 @@ export const ExpressionInput = ({
 
   const scalarValue = getScalarValue();
 
+  // Regressions report their fitted parameters and goodness of fit
+  const regression = isRegression(normalized) ? evaluationContext.regressions?.[normalized.trim()] : undefined;
+  const regressionSummary = regression
+    ? [
+        ...regression.parameterNames.map(
+          name => `${name.replace(/_(\w+)$/, '_{$1}')}=${formatNumber(regression.values[name])}`
+        ),
+        `R^{2}=${regression.rSquared.toFixed(4)}`,
+      ].join(',\\;')
+    : null;
+
   const handleModuleToggle = (moduleId: string, checked: boolean) => {
     const base = allowedModules === null ? moduleOptions.map(option => option.id) : allowedModules ?? [];
     const next = new Set(base);
@@ -302,7 +380,22 @@ export const ExpressionInput = ({
       {/* Scalar Value Display */}
       {scalarValue && !hasErrors && (
         <div className="absolute bottom-1 right-10 text-xs font-mono text-muted-foreground bg-muted/50 px-2 py-0.5 rounded">
-          = {scalarValue}
+          ={" "}
+          {scalarValue.latex ? (
+            <span dangerouslySetInnerHTML={{ __html: convertLatexToMarkup(scalarValue.latex) }} />
+          ) : (
+            scalarValue.text
+          )}
+        </div>
+      )}
+
+      {/* Regression Fit Display */}
+      {regression && regressionSummary && !hasErrors && (
+        <div
+          className="absolute bottom-1 right-10 text-xs font-mono text-muted-foreground bg-muted/50 px-2 py-0.5 rounded"
+          title={`RMSE ${formatNumber(regression.rmse)}\nResiduals: ${regression.residuals.map(formatNumber).join(', ')}`}
+        >
+          <span dangerouslySetInnerHTML={{ __html: convertLatexToMarkup(regressionSummary) }} />
         </div>
       )}
 
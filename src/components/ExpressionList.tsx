@@ -1,7 +1,10 @@
+import { useMemo } from "react";
 import { Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ParameterSlider, parameterDefinitions } from "@/lib/parameters/sliders";
 import { ExpressionInput } from "./ExpressionInput";
 import { MathInputRef } from "./MathInput";
+import { ParameterSliderList } from "./ParameterSliderList";
 
 interface Expression {
   id: string;
@@ -35,6 +38,8 @@ interface ExpressionListProps {
   onSetActiveMathInput: (ref: MathInputRef | null) => void;
   moduleOptions: ModuleOption[];
   onUpdateModules: (id: string, modules: string[] | null) => void;
+  parameterSliders: ParameterSlider[];
+  onUpdateParameter: (name: string, patch: Partial<Omit<ParameterSlider, "name">>) => void;
 }
 
 export const ExpressionList = ({
@@ -49,7 +54,15 @@ export const ExpressionList = ({
   onSetActiveMathInput,
   moduleOptions,
   onUpdateModules,
+  parameterSliders,
+  onUpdateParameter,
 }: ExpressionListProps) => {
+  // Slider values are visible to scalar previews, e.g. `b = 2a` shows its value
+  const contextExpressions = useMemo(
+    () => [...parameterDefinitions(parameterSliders), ...expressions],
+    [parameterSliders, expressions]
+  );
+
   return (
     <div className="flex flex-col flex-1 overflow-hidden bg-expression-bg">
       <div className="p-4 border-b border-border">
@@ -98,7 +111,7 @@ export const ExpressionList = ({
               isActive={expr.id === activeId}
               onFocus={() => onSetActive(expr.id)}
               onSetActiveMathInput={onSetActiveMathInput}
-              allExpressions={expressions}
+              allExpressions={contextExpressions}
               moduleOptions={moduleOptions}
               allowedModules={expr.allowedModules ?? null}
               onModulesChange={(modules) => onUpdateModules(expr.id, modules)}
@@ -106,6 +119,7 @@ export const ExpressionList = ({
             />
           ))
         )}
+        <ParameterSliderList sliders={parameterSliders} onUpdate={onUpdateParameter} />
       </div>
     </div>
   );
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { ArrowLeftRight, ArrowRightToLine, Pause, Play, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { ParameterSlider, SliderPlaybackMode, formatSliderValue } from "@/lib/parameters/sliders";
+
+const PLAYBACK_MODES: Array<{ mode: SliderPlaybackMode; label: string; icon: typeof Repeat }> = [
+  { mode: "loop", label: "Loop", icon: Repeat },
+  { mode: "bounce", label: "Bounce", icon: ArrowLeftRight },
+  { mode: "once", label: "Play once", icon: ArrowRightToLine },
+];
+
+interface ParameterSliderListProps {
+  sliders: ParameterSlider[];
+  onUpdate: (name: string, patch: Partial<Omit<ParameterSlider, "name">>) => void;
+}
+
+interface BoundInputProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+// Commits on blur/Enter so partially typed numbers ("-", "0.") don't reshape the slider
+const BoundInput = ({ label, value, onCommit }: BoundInputProps) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed)) {
+      onCommit(parsed);
+    } else {
+      setDraft(String(value));
+    }
+  };
+
+  return (
+    <label className="flex min-w-0 flex-1 items-center gap-1 text-[11px] text-muted-foreground">
+      <span>{label}</span>
+      <Input
+        value={draft}
+        inputMode="decimal"
+        onChange={event => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={event => {
+          if (event.key === "Enter") commit();
+        }}
+        className="h-7 px-2 font-mono text-xs"
+      />
+    </label>
+  );
+};
+
+export const ParameterSliderList = ({ sliders, onUpdate }: ParameterSliderListProps) => {
+  if (sliders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="px-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Parameters</p>
+      {sliders.map(slider => {
+        const modeIndex = PLAYBACK_MODES.findIndex(entry => entry.mode === slider.mode);
+        const currentMode = PLAYBACK_MODES[modeIndex] ?? PLAYBACK_MODES[0];
+        const nextMode = PLAYBACK_MODES[(modeIndex + 1) % PLAYBACK_MODES.length];
+        const ModeIcon = currentMode.icon;
+
+        return (
+          <div key={slider.name} className="space-y-2 rounded-lg border border-border/50 p-3">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-sm">
+                {slider.name} = {formatSliderValue(slider)}
+              </span>
+              <div className="ml-auto flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title={`${currentMode.label} (click for ${nextMode.label.toLowerCase()})`}
+                  onClick={() => onUpdate(slider.name, { mode: nextMode.mode })}
+                >
+                  <ModeIcon className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title={slider.playing ? "Pause" : "Play"}
+                  onClick={() => {
+                    if (slider.playing) {
+                      onUpdate(slider.name, { playing: false });
+                      return;
+                    }
+                    // Restart a finished one-shot animation from the opposite bound
+                    const atEnd = slider.direction === 1 ? slider.value >= slider.max : slider.value <= slider.min;
+                    const restart = slider.mode === "once" && atEnd;
+                    onUpdate(slider.name, {
+                      playing: true,
+                      ...(restart ? { value: slider.direction === 1 ? slider.min : slider.max } : {}),
+                    });
+                  }}
+                >
+                  {slider.playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+            <Slider
+              value={[slider.value]}
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              onValueChange={([value]) => onUpdate(slider.name, { value, playing: false })}
+            />
+            <div className="flex items-center gap-2">
+              <BoundInput label="min" value={slider.min} onCommit={min => onUpdate(slider.name, { min })} />
+              <BoundInput label="step" value={slider.step} onCommit={step => onUpdate(slider.name, { step })} />
+              <BoundInput label="max" value={slider.max} onCommit={max => onUpdate(slider.name, { max })} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,6 +1,32 @@
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import { parseExpression } from "@/lib/parser";
 import { parseAndEvaluate } from "@/lib/evaluator";
+import { evaluate } from "@/lib/runtime/evaluator";
+import {
+  MathType,
+  isDifferentialEquation,
+  isDistributionConstructor,
+  isInequality,
+  isInitialCondition,
+  isParametricCurve,
+  isPolarCurve,
+  isRegression,
+} from "@/lib/types";
+import { regressionCurve } from "@/lib/runtime/regression";
+import { hasUnboundVariables } from "@/lib/runtime/variableDetector";
+import { initialCondition, odeSystem, slopeFunction } from "@/lib/runtime/ode";
+import {
+  PointOfInterest,
+  PointOfInterestKind,
+  findPointsOfInterest,
+  implicitFunction,
+} from "@/lib/runtime/pointsOfInterest";
+import { familyMembers, plotPoints } from "@/lib/runtime/families";
+import { Shape, draggablePoint, movePointLatex, plotShape } from "@/lib/runtime/geometry";
+import { ParametricCurve, parametricCurve, polarCurve, sampleCurve } from "@/lib/runtime/curves";
+import { solveODE } from "@/lib/computation/ode";
+import { Distribution, density, intervalProbability, isDiscrete, support } from "@/lib/computation/distributions";
+import { astToString } from "@/lib/astToString";
 import { buildDefinitionContext, isImplicitRelation } from "@/lib/definitionContext";
 import { ToolProps } from "@/lib/tools/types";
 import { useTheme } from "next-themes";
@@ -17,9 +43,30 @@ interface WorkerRequest {
 interface WorkerResponse {
   jobId: string;
   expressionId: string;
-  segments: Array<{ points: Array<{ x: number; y: number }> }>;
+  segments: Array<{ points: Array<{ x: number; y: number }>; dashed?: boolean }>;
+  regions?: Array<Array<{ x: number; y: number }>>;
 }
 
+interface ExplicitWorkerRequest {
+  jobId: string;
+  expressionId: string;
+  ast: ReturnType<typeof parseExpression>;
+  definitions: Array<{ normalized: string }>;
+  bounds: { xMin: number; xMax: number; yMin: number; yMax: number };
+  width: number;
+  height: number;
+}
+
+interface ExplicitWorkerResponse {
+  jobId: string;
+  expressionId: string;
+  paths: Array<Array<{ x: number; y: number }>>;
+}
+
+// The sampled paths of a curve y = f(x) and the job that produced them
+type SampledCurve = { key: string; paths: ExplicitWorkerResponse["paths"] };
+
+// One curve y = f(x); the members of a list-valued entry share its id
 type ParsedExpression = {
   id: string;
   normalized: string;
@@ -27,6 +74,78 @@ type ParsedExpression = {
   ast: ReturnType<typeof parseExpression>;
 };
 
+// A polar r = f(θ) or parametric (x(t), y(t)) curve over its domain
+type ParametricPlot = {
+  id: string;
+  color: string;
+  curve: ParametricCurve;
+};
+
+// A point or list of points, drawn as dots; a named point shows its name
+type PointPlot = {
+  id: string;
+  color: string;
+  points: Array<{ x: number; y: number }>;
+  label?: string;
+};
+
+// A segment, line, circle or polygon built from points
+type ShapePlot = {
+  id: string;
+  color: string;
+  shape: Shape;
+};
+
+// A 2×2 matrix drawn as the grid it warps; columns are the images of the basis vectors
+type LinearMap = {
+  id: string;
+  color: string;
+  columns: [[number, number], [number, number]];
+};
+
+// Data points of a regression and its fitted curve y = f(x)
+type RegressionPlot = {
+  id: string;
+  color: string;
+  points: Array<{ x: number; y: number }>;
+  curve: ReturnType<typeof parseExpression>;
+};
+
+// A distribution drawn as its density (or mass), with P(a ≤ X ≤ b) shaded
+// for probability(X, a, b) entries
+type DistributionPlot = {
+  id: string;
+  color: string;
+  distribution: Distribution;
+  interval?: { a: number; b: number; probability: number };
+};
+
+// y' = f(x, y) drawn as a slope field with the solution through each initial condition
+type SlopeField = {
+  id: string;
+  color: string;
+  slope: (x: number, y: number) => number;
+  initials: Array<{ x: number; y: number }>;
+};
+
+// A solveODE path; autonomous 2D systems also draw their phase-plane vector field
+type ODETrajectory = {
+  id: string;
+  color: string;
+  points: Array<{ x: number; y: number }>;
+  field?: (x: number, y: number) => [number, number];
+};
+
+const POINT_LABELS: Record<PointOfInterestKind, string> = {
+  zero: "Zero",
+  minimum: "Minimum",
+  maximum: "Maximum",
+  intersection: "Intersection",
+};
+
+// Pixel radius within which a click selects a point of interest
+const POINT_HIT_RADIUS = 8;
+
 const DEFAULT_VIEWPORT = {
   xMin: -10,
   xMax: 10,
@@ -36,6 +155,9 @@ const DEFAULT_VIEWPORT = {
 
 const TILE_RESOLUTION_FALLBACK = 64;
 
+// Milliseconds after the last pan, zoom, edit or worker result before points of interest are searched again
+const POINTS_OF_INTEREST_DELAY = 200;
+
 const resolveColor = (color: string, computed: CSSStyleDeclaration): string => {
   if (color.includes("var(--")) {
     const match = color.match(/var\((--[^)]+)\)/);
@@ -57,6 +179,17 @@ const mapY = (y: number, height: number, viewport: typeof DEFAULT_VIEWPORT): num
 
 const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
 
+// Field evaluations fail at singular points; those are simply not drawn
+const orNaN =
+  <Result,>(fn: (x: number, y: number) => Result, fallback: Result) =>
+  (x: number, y: number): Result => {
+    try {
+      return fn(x, y);
+    } catch {
+      return fallback;
+    }
+  };
+
 export const Graph2DTool = ({
   expressions,
   toolkitDefinitions,
@@ -64,6 +197,7 @@ export const Graph2DTool = ({
   onViewportChange,
   isActive,
   toolConfig,
+  onUpdateExpression,
 }: ToolProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gridLayerRef = useRef<HTMLCanvasElement | null>(null);
@@ -73,9 +207,18 @@ export const Graph2DTool = ({
   const workerRef = useRef<Worker | null>(null);
   const pendingJobsRef = useRef<Map<string, string>>(new Map());
   const implicitSegmentsRef = useRef<Record<string, WorkerResponse["segments"]>>({});
+  // The job each expression's segments came from, so a finished job is not posted again
+  const implicitKeysRef = useRef<Record<string, string>>({});
+  const implicitRegionsRef = useRef<Record<string, NonNullable<WorkerResponse["regions"]>>>({});
+  const explicitWorkerRef = useRef<Worker | null>(null);
+  const explicitJobsRef = useRef<Map<string, string>>(new Map());
+  const explicitPathsRef = useRef<Record<string, SampledCurve>>({});
   const pathCacheRef = useRef<Map<string, { key: string; path: Path2D }>>(new Map());
   const labelCacheRef = useRef<Map<string, HTMLCanvasElement>>(new Map());
   const [implicitVersion, setImplicitVersion] = useState(0);
+  // The worker segments again, as state for what derives from them rather than drawing
+  const [implicitSegments, setImplicitSegments] = useState<Record<string, WorkerResponse["segments"]>>({});
+  const [explicitVersion, setExplicitVersion] = useState(0);
   const [hoveredPoint, setHoveredPoint] = useState<{
     x: number;
     y: number;
@@ -83,7 +226,16 @@ export const Graph2DTool = ({
     screenY: number;
     expr: { color: string; latex: string; normalized: string };
   } | null>(null);
+  // A clicked point of interest stays pinned with its coordinates until the next click
+  const [selectedPoint, setSelectedPoint] = useState<{
+    point: PointOfInterest;
+    width: number;
+    height: number;
+  } | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // The point being dragged, and whether the pointer is over one that can be
+  const [draggedPointId, setDraggedPointId] = useState<string | null>(null);
+  const [overDraggable, setOverDraggable] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [dragStartViewport, setDragStartViewport] = useState(externalViewport || DEFAULT_VIEWPORT);
   const [scalingAxis, setScalingAxis] = useState<{
@@ -96,7 +248,10 @@ export const Graph2DTool = ({
   const viewport = externalViewport || DEFAULT_VIEWPORT;
 
   const definitionSources = useMemo(
-    () => [...expressions, ...toolkitDefinitions].filter((expr) => expr.normalized.trim().includes("=")),
+    () =>
+      [...expressions, ...toolkitDefinitions].filter(
+        (expr) => expr.normalized.trim().includes("=") || isRegression(expr.normalized)
+      ),
     [expressions, toolkitDefinitions]
   );
 
@@ -106,7 +261,9 @@ export const Graph2DTool = ({
     () =>
       expressions.filter((expr) => {
         const normalized = expr.normalized.trim();
-        if (!normalized) return false;
+        if (!normalized || isRegression(normalized) || isParametricCurve(normalized) || isInequality(normalized)) {
+          return false;
+        }
         if (!normalized.includes("=")) return true;
         const lhs = normalized.split("=")[0].trim();
         return lhs === "y";
@@ -118,27 +275,313 @@ export const Graph2DTool = ({
     () =>
       expressions.filter((expr) => {
         const normalized = expr.normalized.trim();
+        // Inequalities shade their regions through the same worker
+        if (isInequality(normalized)) return true;
         if (!normalized.includes("=")) return false;
         return isImplicitRelation(normalized);
       }),
     [expressions]
   );
 
+  const linearMaps = useMemo(() => {
+    const maps = new Map<string, LinearMap>();
+    const matrixNames = Object.keys(definitionContext.types).filter(
+      (name) => definitionContext.types[name].type === MathType.Matrix
+    );
+    expressions.forEach((expr) => {
+      const normalized = expr.normalized.trim();
+      if (!normalized || normalized.includes("==")) return;
+      const rhs = normalized.includes("=") ? normalized.split("=")[1].trim() : normalized;
+      const mentionsMatrix =
+        /\b(matrix|identity)\(/.test(rhs) || matrixNames.some((name) => new RegExp(`\\b${name}\\b`).test(rhs));
+      if (!mentionsMatrix) return;
+      try {
+        const value = evaluate(parseExpression(rhs, definitionContext), {}, definitionContext);
+        if (value.kind !== "matrix" || value.rows.length !== 2 || value.rows[0].length !== 2) return;
+        const [[a, b], [c, d]] = value.rows;
+        maps.set(expr.id, { id: expr.id, color: expr.color, columns: [[a, c], [b, d]] });
+      } catch (error) {
+        console.warn("Failed to evaluate matrix:", normalized, error);
+      }
+    });
+    return maps;
+  }, [expressions, definitionContext]);
+
+  // Regressions draw their data and, when the model depends on one data list,
+  // the fitted curve with that list as x
+  const regressionPlots = useMemo(() => {
+    const plots: RegressionPlot[] = [];
+    expressions.forEach((expr) => {
+      const normalized = expr.normalized.trim();
+      const result = isRegression(normalized) ? definitionContext.regressions?.[normalized] : undefined;
+      const curve = result ? regressionCurve(result) : null;
+      if (!result || !curve) return;
+      plots.push({
+        id: expr.id,
+        color: expr.color,
+        points: result.dataColumns[curve.variable].map((x, i) => ({ x, y: result.observed[i] })),
+        curve: curve.ast,
+      });
+    });
+    return plots;
+  }, [expressions, definitionContext]);
+
+  const distributionPlots = useMemo(() => {
+    const plots = new Map<string, DistributionPlot>();
+    const distributionNames = Object.keys(definitionContext.types).filter(
+      (name) => definitionContext.types[name].type === MathType.Distribution
+    );
+    expressions.forEach((expr) => {
+      const normalized = expr.normalized.trim();
+      if (!normalized || normalized.includes("==")) return;
+      const rhs = normalized.includes("=") ? normalized.split("=")[1].trim() : normalized;
+      const mentionsDistribution =
+        isDistributionConstructor(rhs) ||
+        /^probability\(/.test(rhs) ||
+        distributionNames.some((name) => new RegExp(`\\b${name}\\b`).test(rhs));
+      if (!mentionsDistribution) return;
+      try {
+        const ast = parseExpression(rhs, definitionContext);
+        // pdf(X, x) and friends are ordinary curves
+        if (hasUnboundVariables(ast, definitionContext)) return;
+        if (ast.type === "call" && ast.name === "probability" && ast.args?.length === 3) {
+          const [d, a, b] = ast.args.map((arg) => evaluate(arg, {}, definitionContext));
+          if (d.kind !== "distribution" || a.kind !== "number" || b.kind !== "number") return;
+          plots.set(expr.id, {
+            id: expr.id,
+            color: expr.color,
+            distribution: d,
+            interval: { a: a.value, b: b.value, probability: intervalProbability(d, a.value, b.value) },
+          });
+          return;
+        }
+        const value = evaluate(ast, {}, definitionContext);
+        if (value.kind !== "distribution") return;
+        plots.set(expr.id, { id: expr.id, color: expr.color, distribution: value });
+      } catch (error) {
+        console.warn("Failed to evaluate distribution:", normalized, error);
+      }
+    });
+    return plots;
+  }, [expressions, definitionContext]);
+
+  const slopeFields = useMemo(() => {
+    const initials: SlopeField["initials"] = [];
+    expressions.forEach((expr) => {
+      if (!isInitialCondition(expr.normalized)) return;
+      try {
+        const start = initialCondition(expr.normalized, definitionContext);
+        if (Number.isFinite(start.x) && Number.isFinite(start.y)) initials.push(start);
+      } catch (error) {
+        console.warn("Failed to evaluate initial condition:", expr.normalized, error);
+      }
+    });
+    const fields: SlopeField[] = [];
+    expressions.forEach((expr) => {
+      if (!isDifferentialEquation(expr.normalized)) return;
+      try {
+        const slope = slopeFunction(expr.normalized.trim(), definitionContext);
+        fields.push({ id: expr.id, color: expr.color, slope: orNaN(slope, NaN), initials });
+      } catch (error) {
+        console.warn("Failed to parse differential equation:", expr.normalized, error);
+      }
+    });
+    return fields;
+  }, [expressions, definitionContext]);
+
+  const trajectories = useMemo(() => {
+    const paths = new Map<string, ODETrajectory>();
+    expressions.forEach((expr) => {
+      const normalized = expr.normalized.trim();
+      const rhs = normalized.includes("=") ? normalized.split("=")[1].trim() : normalized;
+      if (!/^solveODE\(/.test(rhs)) return;
+      try {
+        const ast = parseExpression(rhs, definitionContext);
+        const value = evaluate(ast, {}, definitionContext);
+        if (value.kind !== "list") return;
+        const points = value.elements.flatMap((point) => (point.kind === "point" ? [{ x: point.x, y: point.y }] : []));
+        const system = ast.args?.[0] ? evaluate(ast.args[0], {}, definitionContext) : null;
+        let field: ODETrajectory["field"];
+        if (system?.kind === "list" && system.elements.length === 2) {
+          const { f, autonomous } = odeSystem(system.elements, definitionContext);
+          if (autonomous) field = orNaN((x, y) => f(0, [x, y]) as [number, number], [NaN, NaN]);
+        }
+        paths.set(expr.id, { id: expr.id, color: expr.color, points, field });
+      } catch (error) {
+        console.warn("Failed to solve ODE:", normalized, error);
+      }
+    });
+    return paths;
+  }, [expressions, definitionContext]);
+
+  const parametricPlots = useMemo(() => {
+    const plots = new Map<string, ParametricPlot>();
+    expressions.forEach((expr) => {
+      const normalized = expr.normalized.trim();
+      try {
+        if (isPolarCurve(normalized)) {
+          plots.set(expr.id, { id: expr.id, color: expr.color, curve: polarCurve(normalized, definitionContext) });
+        } else if (isParametricCurve(normalized)) {
+          plots.set(expr.id, { id: expr.id, color: expr.color, curve: parametricCurve(normalized, definitionContext) });
+        }
+      } catch (error) {
+        console.warn("Failed to parse curve:", normalized, error);
+      }
+    });
+    return plots;
+  }, [expressions, definitionContext]);
+
+  // Bare entries and named definitions (A = (1, 2), c = circle(A, 2), but not
+  // y = ... or x = ...): the candidates for points and constructions
+  const geometrySources = useMemo(() => {
+    const bare = explicitExpressions
+      .filter((expr) => !expr.normalized.includes("=") && !trajectories.has(expr.id))
+      .map((expr) => ({ expr, rhs: expr.normalized.trim(), name: undefined as string | undefined }));
+    const named = expressions.flatMap((expr) => {
+      const definition = expr.normalized.trim().match(/^([a-zA-Z][a-zA-Z0-9_]*)=([^=].*)$/);
+      if (!definition || definition[1] === "x" || definition[1] === "y") return [];
+      return [{ expr, rhs: definition[2], name: definition[1] }];
+    });
+    return [...bare, ...named];
+  }, [explicitExpressions, expressions, trajectories]);
+
+  const pointPlots = useMemo(() => {
+    const plots = new Map<string, PointPlot>();
+    geometrySources.forEach(({ expr, rhs, name }) => {
+      try {
+        const points = plotPoints(parseExpression(rhs, definitionContext), definitionContext);
+        if (points) {
+          plots.set(expr.id, { id: expr.id, color: expr.color, points, label: points.length === 1 ? name : undefined });
+        }
+      } catch {
+        // Not a point; drawn as a curve if anything
+      }
+    });
+    return plots;
+  }, [geometrySources, definitionContext]);
+
+  const shapePlots = useMemo(() => {
+    const plots = new Map<string, ShapePlot>();
+    geometrySources.forEach(({ expr, rhs }) => {
+      try {
+        const shape = plotShape(parseExpression(rhs, definitionContext), definitionContext);
+        if (shape) plots.set(expr.id, { id: expr.id, color: expr.color, shape });
+      } catch {
+        // Not a construction
+      }
+    });
+    return plots;
+  }, [geometrySources, definitionContext]);
+
+  // Points given by literal coordinates, which a drag moves
+  const draggablePoints = useMemo(
+    () =>
+      expressions.flatMap((expr) => {
+        const point = pointPlots.has(expr.id) ? draggablePoint(expr.normalized) : null;
+        return point ? [{ id: expr.id, latex: expr.latex, x: point.x, y: point.y }] : [];
+      }),
+    [expressions, pointPlots]
+  );
+
   const parsedExplicit = useMemo(() => {
     const parsed = new Map<string, ParsedExpression>();
+    regressionPlots.forEach(({ id, color, curve }) => {
+      parsed.set(id, { id, normalized: astToString(curve), color, ast: curve });
+    });
     explicitExpressions.forEach((expr) => {
       const normalized = expr.normalized.trim();
-      if (!normalized) return;
+      if (
+        !normalized ||
+        linearMaps.has(expr.id) ||
+        distributionPlots.has(expr.id) ||
+        trajectories.has(expr.id) ||
+        pointPlots.has(expr.id) ||
+        shapePlots.has(expr.id)
+      ) {
+        return;
+      }
       const rhs = normalized.includes("=") ? normalized.split("=")[1].trim() : normalized;
       try {
         const ast = parseExpression(rhs, definitionContext);
-        parsed.set(expr.id, { id: expr.id, normalized: rhs, color: expr.color, ast });
+        const members = familyMembers(ast, definitionContext);
+        if (!members) {
+          parsed.set(expr.id, { id: expr.id, normalized: rhs, color: expr.color, ast });
+          return;
+        }
+        members.forEach((member, k) => {
+          parsed.set(`${expr.id}[${k + 1}]`, { id: expr.id, normalized: astToString(member), color: expr.color, ast: member });
+        });
       } catch (error) {
         console.warn("Failed to parse expression:", normalized, error);
       }
     });
     return parsed;
-  }, [explicitExpressions, definitionContext]);
+  }, [
+    explicitExpressions,
+    definitionContext,
+    linearMaps,
+    regressionPlots,
+    distributionPlots,
+    trajectories,
+    pointPlots,
+    shapePlots,
+  ]);
+
+  // What points of interest are found on: caught up only once the view, the
+  // curves and the definitions (a playing slider changes them every frame) settle.
+  // The implicit segments change once per finished job, never for a repeat.
+  const latestView = useMemo(
+    () => ({ viewport, implicitSegments, parsedExplicit, implicitExpressions, definitionContext }),
+    [viewport, implicitSegments, parsedExplicit, implicitExpressions, definitionContext]
+  );
+  const [settledView, setSettledView] = useState(latestView);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSettledView(latestView), POINTS_OF_INTEREST_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [latestView]);
+
+  const pointsOfInterest = useMemo(() => {
+    const { parsedExplicit, implicitExpressions, definitionContext } = settledView;
+    const explicit = Array.from(parsedExplicit.values()).map(({ id, normalized, ast }) => ({
+      id,
+      f: (x: number) => {
+        try {
+          return parseAndEvaluate(normalized, x, ast, definitionContext);
+        } catch {
+          return NaN;
+        }
+      },
+    }));
+    const implicit = implicitExpressions.flatMap(({ id, normalized }) => {
+      const segments = settledView.implicitSegments[id];
+      if (!segments || isInequality(normalized)) return [];
+      try {
+        return [{ id, F: implicitFunction(normalized, definitionContext), segments }];
+      } catch {
+        return [];
+      }
+    });
+    try {
+      return findPointsOfInterest(explicit, implicit, settledView.viewport);
+    } catch (error) {
+      console.warn("Failed to find points of interest:", error);
+      return [];
+    }
+  }, [settledView]);
+
+  useEffect(() => {
+    // Drop the pinned point once it is no longer on screen (or its curve changed)
+    setSelectedPoint((current) => {
+      if (!current) return current;
+      const tolerance = 1e-6 * (viewport.xMax - viewport.xMin);
+      const { kind, x, y } = current.point;
+      const match = pointsOfInterest.find(
+        (point) => point.kind === kind && Math.abs(point.x - x) <= tolerance && Math.abs(point.y - y) <= tolerance
+      );
+      return match ? { ...current, point: match } : null;
+    });
+  }, [pointsOfInterest, viewport]);
 
   const drawScene = useCallback(() => {
     const canvas = canvasRef.current;
@@ -171,6 +614,18 @@ export const Graph2DTool = ({
     }
 
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    drawLinearMaps(ctx, rect.width, rect.height, viewport, Array.from(linearMaps.values()));
+    drawDistributions(ctx, rect.width, rect.height, viewport, Array.from(distributionPlots.values()));
+    drawSlopeFields(ctx, rect.width, rect.height, viewport, slopeFields);
+    drawTrajectories(ctx, rect.width, rect.height, viewport, Array.from(trajectories.values()));
+    drawInequalityRegions(
+      ctx,
+      rect.width,
+      rect.height,
+      viewport,
+      implicitRegionsRef.current,
+      implicitExpressions.map(({ id, color }) => ({ id, color }))
+    );
     drawImplicitCurves(
       ctx,
       rect.width,
@@ -186,11 +641,38 @@ export const Graph2DTool = ({
       rect.height,
       viewport,
       parsedExplicit,
+      explicitPathsRef.current,
       pathCacheRef.current,
-      definitionContext,
       dpr
     );
-  }, [viewport, parsedExplicit, definitionContext, implicitExpressions]);
+    drawParametricCurves(ctx, rect.width, rect.height, viewport, parametricPlots, pathCacheRef.current, dpr);
+    drawShapes(ctx, rect.width, rect.height, viewport, Array.from(shapePlots.values()), dpr);
+    drawDots(ctx, rect.width, rect.height, viewport, [...regressionPlots, ...pointPlots.values()]);
+    drawPointsOfInterest(
+      ctx,
+      rect.width,
+      rect.height,
+      viewport,
+      pointsOfInterest,
+      expressions,
+      selectedPoint?.point ?? null
+    );
+  }, [
+    viewport,
+    parsedExplicit,
+    implicitExpressions,
+    linearMaps,
+    regressionPlots,
+    distributionPlots,
+    slopeFields,
+    trajectories,
+    parametricPlots,
+    pointPlots,
+    shapePlots,
+    pointsOfInterest,
+    expressions,
+    selectedPoint,
+  ]);
 
   const scheduleRender = useCallback(() => {
     if (!isActive) return;
@@ -240,13 +722,22 @@ export const Graph2DTool = ({
       type: "module",
     });
     workerRef.current = worker;
+    // Jobs posted to this worker never return once it is gone
+    const pendingJobs = pendingJobsRef.current;
     const handleMessage = (event: MessageEvent<WorkerResponse>) => {
-      const { jobId, segments, expressionId } = event.data;
+      const { jobId, segments, regions, expressionId } = event.data;
       if (pendingJobsRef.current.get(expressionId) !== jobId) {
         return;
       }
       pendingJobsRef.current.delete(expressionId);
+      implicitKeysRef.current[expressionId] = jobId;
       implicitSegmentsRef.current[expressionId] = segments;
+      if (regions) {
+        implicitRegionsRef.current[expressionId] = regions;
+      } else {
+        delete implicitRegionsRef.current[expressionId];
+      }
+      setImplicitSegments({ ...implicitSegmentsRef.current });
       setImplicitVersion((prev) => prev + 1);
       scheduleRender();
     };
@@ -254,6 +745,7 @@ export const Graph2DTool = ({
     return () => {
       worker.removeEventListener("message", handleMessage);
       disposeWorker();
+      pendingJobs.clear();
     };
   }, [disposeWorker, scheduleRender]);
 
@@ -269,6 +761,8 @@ export const Graph2DTool = ({
       typeof toolConfig?.implicitResolution === "number"
         ? Math.max(32, toolConfig.implicitResolution)
         : TILE_RESOLUTION_FALLBACK;
+    const definitions = definitionSources.map((d) => ({ normalized: d.normalized }));
+    const definitionKey = definitions.map((d) => d.normalized).join("|");
 
     implicitExpressions.forEach((expr) => {
       const key = [
@@ -279,16 +773,19 @@ export const Graph2DTool = ({
         bounds.yMax.toFixed(3),
         resolution,
         expr.normalized,
+        definitionKey,
       ].join("|");
 
-      if (pendingJobsRef.current.get(expr.id) === key) return;
+      // One job in flight per expression: a playing slider changes the
+      // definitions every frame, and the latest state is posted once it returns
+      if (pendingJobsRef.current.has(expr.id) || implicitKeysRef.current[expr.id] === key) return;
       pendingJobsRef.current.set(expr.id, key);
 
       const payload: WorkerRequest = {
         jobId: key,
         expressionId: expr.id,
         expression: expr.normalized,
-        definitions: definitionSources.map((d) => ({ normalized: d.normalized })),
+        definitions,
         bounds,
         resolution,
       };
@@ -303,6 +800,8 @@ export const Graph2DTool = ({
     Object.keys(implicitSegmentsRef.current).forEach((key) => {
       if (!activeIds.has(key)) {
         delete implicitSegmentsRef.current[key];
+        delete implicitRegionsRef.current[key];
+        delete implicitKeysRef.current[key];
         removed = true;
       }
     });
@@ -312,10 +811,97 @@ export const Graph2DTool = ({
       }
     }
     if (removed) {
+      setImplicitSegments({ ...implicitSegmentsRef.current });
       setImplicitVersion((prev) => prev + 1);
     }
   }, [implicitExpressions]);
 
+  useEffect(() => {
+    const worker = new Worker(new URL("@/workers/explicitCurve.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    explicitWorkerRef.current = worker;
+    const explicitJobs = explicitJobsRef.current;
+    const handleMessage = (event: MessageEvent<ExplicitWorkerResponse>) => {
+      const { jobId, paths, expressionId } = event.data;
+      if (explicitJobsRef.current.get(expressionId) !== jobId) {
+        return;
+      }
+      explicitJobsRef.current.delete(expressionId);
+      explicitPathsRef.current[expressionId] = { key: jobId, paths };
+      setExplicitVersion((prev) => prev + 1);
+      scheduleRender();
+    };
+    worker.addEventListener("message", handleMessage);
+    return () => {
+      worker.removeEventListener("message", handleMessage);
+      worker.terminate();
+      explicitWorkerRef.current = null;
+      explicitJobs.clear();
+    };
+  }, [scheduleRender]);
+
+  useEffect(() => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!explicitWorkerRef.current || !isActive || !rect?.width || !rect.height) return;
+    const bounds = {
+      xMin: viewport.xMin,
+      xMax: viewport.xMax,
+      yMin: viewport.yMin,
+      yMax: viewport.yMax,
+    };
+    const definitions = definitionSources.map((d) => ({ normalized: d.normalized }));
+    const definitionKey = definitions.map((d) => d.normalized).join("|");
+
+    parsedExplicit.forEach((expr, exprId) => {
+      const key = [
+        exprId,
+        bounds.xMin.toFixed(3),
+        bounds.xMax.toFixed(3),
+        bounds.yMin.toFixed(3),
+        bounds.yMax.toFixed(3),
+        Math.round(rect.width),
+        Math.round(rect.height),
+        expr.normalized,
+        definitionKey,
+      ].join("|");
+
+      // As for implicit curves, one job in flight per expression
+      if (explicitJobsRef.current.has(exprId) || explicitPathsRef.current[exprId]?.key === key) return;
+      explicitJobsRef.current.set(exprId, key);
+
+      const payload: ExplicitWorkerRequest = {
+        jobId: key,
+        expressionId: exprId,
+        ast: expr.ast,
+        definitions,
+        bounds,
+        width: rect.width,
+        height: rect.height,
+      };
+
+      explicitWorkerRef.current?.postMessage(payload);
+    });
+  }, [parsedExplicit, viewport, definitionSources, isActive, explicitVersion]);
+
+  useEffect(() => {
+    let removed = false;
+    Object.keys(explicitPathsRef.current).forEach((key) => {
+      if (!parsedExplicit.has(key)) {
+        delete explicitPathsRef.current[key];
+        removed = true;
+      }
+    });
+    for (const exprId of Array.from(explicitJobsRef.current.keys())) {
+      if (!parsedExplicit.has(exprId)) {
+        explicitJobsRef.current.delete(exprId);
+      }
+    }
+    if (removed) {
+      setExplicitVersion((prev) => prev + 1);
+    }
+  }, [parsedExplicit]);
+
   useEffect(() => {
     staticDirtyRef.current = true;
     scheduleRender();
@@ -325,7 +911,7 @@ export const Graph2DTool = ({
 
   useEffect(() => {
     scheduleRender();
-  }, [scheduleRender, parsedExplicit, implicitVersion]);
+  }, [scheduleRender, parsedExplicit, implicitVersion, explicitVersion, selectedPoint]);
 
   useEffect(
     () => () => {
@@ -337,6 +923,34 @@ export const Graph2DTool = ({
   );
 
   const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (rect && event.button === 0 && onUpdateExpression) {
+      const point = findDraggablePoint(
+        event.clientX - rect.left,
+        event.clientY - rect.top,
+        rect.width,
+        rect.height,
+        viewport,
+        draggablePoints
+      );
+      if (point) {
+        setDraggedPointId(point.id);
+        setHoveredPoint(null);
+        return;
+      }
+    }
+    if (rect && event.button === 0) {
+      const hit = findPointOfInterest(
+        event.clientX - rect.left,
+        event.clientY - rect.top,
+        rect.width,
+        rect.height,
+        viewport,
+        pointsOfInterest
+      );
+      setSelectedPoint(hit ? { point: hit, width: rect.width, height: rect.height } : null);
+      if (hit) return;
+    }
     if (!onViewportChange) return;
     if (event.button === 1 || event.metaKey) {
       const rect = canvasRef.current?.getBoundingClientRect();
@@ -351,9 +965,25 @@ export const Graph2DTool = ({
   };
 
   const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current || !onViewportChange) return;
+    if (!canvasRef.current) return;
     const rect = canvasRef.current.getBoundingClientRect();
 
+    if (draggedPointId) {
+      const dragged = draggablePoints.find((point) => point.id === draggedPointId);
+      if (!dragged || !onUpdateExpression) return;
+      const x = viewport.xMin + ((event.clientX - rect.left) / rect.width) * (viewport.xMax - viewport.xMin);
+      const y = viewport.yMax - ((event.clientY - rect.top) / rect.height) * (viewport.yMax - viewport.yMin);
+      // Round to a pixel's worth of precision
+      const step = {
+        x: (viewport.xMax - viewport.xMin) / rect.width,
+        y: (viewport.yMax - viewport.yMin) / rect.height,
+      };
+      const latex = movePointLatex(dragged.latex, { x, y }, step);
+      if (latex !== dragged.latex) onUpdateExpression(dragged.id, latex);
+      return;
+    }
+    if (!onViewportChange) return;
+
     if (scalingAxis) {
       const delta =
         scalingAxis.axis === "x"
@@ -399,6 +1029,10 @@ export const Graph2DTool = ({
 
     const canvasX = event.clientX - rect.left;
     const canvasY = event.clientY - rect.top;
+    setOverDraggable(
+      Boolean(onUpdateExpression) &&
+        findDraggablePoint(canvasX, canvasY, rect.width, rect.height, viewport, draggablePoints) !== null
+    );
     const nearest = findNearestPoint(
       canvasX,
       canvasY,
@@ -415,6 +1049,7 @@ export const Graph2DTool = ({
   const handleMouseUp = () => {
     setIsDragging(false);
     setScalingAxis(null);
+    setDraggedPointId(null);
   };
 
   const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
@@ -444,7 +1079,17 @@ export const Graph2DTool = ({
         onMouseLeave={handleMouseUp}
         onWheel={handleWheel}
         style={{
-          cursor: scalingAxis ? (scalingAxis.axis === "x" ? "ew-resize" : "ns-resize") : isDragging ? "grabbing" : "grab",
+          cursor: scalingAxis
+            ? scalingAxis.axis === "x"
+              ? "ew-resize"
+              : "ns-resize"
+            : draggedPointId
+              ? "move"
+              : isDragging
+                ? "grabbing"
+                : overDraggable
+                  ? "pointer"
+                  : "grab",
         }}
       />
       {hoveredPoint && (
@@ -466,6 +1111,20 @@ export const Graph2DTool = ({
           </div>
         </div>
       )}
+      {selectedPoint && (
+        <div
+          className="absolute bg-background/95 border border-border text-foreground px-3 py-2 rounded-lg text-sm shadow-lg backdrop-blur-sm z-10 select-text"
+          style={{
+            left: mapX(selectedPoint.point.x, selectedPoint.width, viewport) + 12,
+            top: mapY(selectedPoint.point.y, selectedPoint.height, viewport) + 12,
+          }}
+        >
+          <div className="font-medium text-xs opacity-70 mb-1">{POINT_LABELS[selectedPoint.point.kind]}</div>
+          <div className="font-mono font-semibold">
+            ({formatCoordinate(selectedPoint.point.x)}, {formatCoordinate(selectedPoint.point.y)})
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -697,20 +1356,24 @@ const formatTick = (value: number) => {
   return value.toFixed(0);
 };
 
+// Explicit curves y = f(x) from the paths the worker sampled; the Path2D is
+// rebuilt when the viewport or the sampling changes
 const drawExplicitCurves = (
   ctx: CanvasRenderingContext2D,
   width: number,
   height: number,
   viewport: typeof DEFAULT_VIEWPORT,
   parsedExpressions: Map<string, ParsedExpression>,
+  sampled: Record<string, SampledCurve>,
   cache: Map<string, { key: string; path: Path2D }>,
-  context: ReturnType<typeof buildDefinitionContext>,
   dpr: number
 ) => {
   const computed = getComputedStyle(document.documentElement);
   parsedExpressions.forEach((expr, exprId) => {
+    const curve = sampled[exprId];
+    if (!curve) return;
     const cacheKey = [
-      exprId,
+      curve.key,
       viewport.xMin.toFixed(3),
       viewport.xMax.toFixed(3),
       viewport.yMin.toFixed(3),
@@ -722,39 +1385,19 @@ const drawExplicitCurves = (
     let cached = cache.get(exprId);
     if (!cached || cached.key !== cacheKey) {
       const path = new Path2D();
-      const samplesPerPixel = 1.5;
-      const totalSamples = Math.max(200, Math.floor(width * samplesPerPixel));
-      const xRange = viewport.xMax - viewport.xMin;
-      let started = false;
-      let prevY: number | null = null;
-      for (let i = 0; i <= totalSamples; i++) {
-        const x = viewport.xMin + (i / totalSamples) * xRange;
-        const px = mapX(x, width, viewport);
-        try {
-          const y = parseAndEvaluate(expr.normalized, x, expr.ast, context);
-          if (!Number.isFinite(y)) {
-            started = false;
-            prevY = null;
-            continue;
-          }
-          const py = mapY(y, height, viewport);
-          if (prevY !== null && Math.abs(y - prevY) > (viewport.yMax - viewport.yMin) * 0.9) {
-            started = false;
-          }
-          if (!started) {
+      curve.paths.forEach((points) => {
+        points.forEach((point, index) => {
+          const px = mapX(point.x, width, viewport);
+          const py = mapY(point.y, height, viewport);
+          if (index === 0) {
             path.moveTo(px, py);
-            started = true;
           } else {
             path.lineTo(px, py);
           }
-          prevY = y;
-        } catch {
-          started = false;
-          prevY = null;
-        }
-      }
-      cache.set(exprId, { key: cacheKey, path });
+        });
+      });
       cached = { key: cacheKey, path };
+      cache.set(exprId, cached);
     }
     ctx.save();
     ctx.strokeStyle = resolveColor(expr.color, computed);
@@ -766,6 +1409,467 @@ const drawExplicitCurves = (
   });
 };
 
+// Polar and parametric curves, resampled (and cached) per viewport so the
+// adaptive sampling resolves about a pixel
+const drawParametricCurves = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  plots: Map<string, ParametricPlot>,
+  cache: Map<string, { key: string; path: Path2D }>,
+  dpr: number
+) => {
+  const computed = getComputedStyle(document.documentElement);
+  const tolerance = Math.min((viewport.xMax - viewport.xMin) / width, (viewport.yMax - viewport.yMin) / height);
+  plots.forEach(({ id, color, curve }) => {
+    const key = [
+      viewport.xMin.toFixed(3),
+      viewport.xMax.toFixed(3),
+      viewport.yMin.toFixed(3),
+      viewport.yMax.toFixed(3),
+      width,
+      height,
+    ].join("|");
+    let cached = cache.get(id);
+    if (!cached || cached.key !== key) {
+      const path = new Path2D();
+      sampleCurve(curve, tolerance).forEach((points) => {
+        points.forEach(({ x, y }, i) => {
+          const [px, py] = [mapX(x, width, viewport), mapY(y, height, viewport)];
+          if (i === 0) path.moveTo(px, py);
+          else path.lineTo(px, py);
+        });
+      });
+      cached = { key, path };
+      cache.set(id, cached);
+    }
+    ctx.save();
+    ctx.strokeStyle = resolveColor(color, computed);
+    ctx.lineWidth = Math.max(1.2, 2 / dpr);
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    ctx.stroke(cached.path);
+    ctx.restore();
+  });
+};
+
+/**
+ * Draw each 2×2 matrix as the image of the unit grid: the line x = k maps to
+ * the line through k·a₁ along a₂ (a₁, a₂ the matrix columns), and likewise for
+ * y = k. The basis vectors are drawn on top as arrows.
+ */
+const drawLinearMaps = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  maps: LinearMap[]
+) => {
+  if (maps.length === 0) return;
+  const computed = getComputedStyle(document.documentElement);
+  const pixelsPerUnit = width / (viewport.xMax - viewport.xMin);
+  // Every visible point lies within this distance of the origin
+  const reach = Math.max(
+    ...[viewport.xMin, viewport.xMax].flatMap((x) => [viewport.yMin, viewport.yMax].map((y) => Math.hypot(x, y)))
+  );
+  const toScreen = (x: number, y: number): [number, number] => [mapX(x, width, viewport), mapY(y, height, viewport)];
+
+  maps.forEach(({ color, columns: [a1, a2] }) => {
+    const det = a1[0] * a2[1] - a1[1] * a2[0];
+    ctx.save();
+    ctx.strokeStyle = resolveColor(color, computed);
+    ctx.fillStyle = ctx.strokeStyle;
+
+    const drawFamily = (offset: [number, number], direction: [number, number]) => {
+      const directionLength = Math.hypot(direction[0], direction[1]);
+      if (directionLength < 1e-12) return;
+      // Neighbouring image lines are |det|/|direction| apart; thin them out
+      // by powers of two until they are at least 12px apart on screen
+      const spacing = Math.abs(det) / directionLength;
+      const singular = spacing * pixelsPerUnit < 1e-6;
+      let step = 1;
+      while (!singular && spacing * step * pixelsPerUnit < 12) step *= 2;
+      const kMax = singular ? 0 : Math.ceil(reach / (spacing * step)) * step;
+      for (let k = -kMax; k <= kMax; k += step) {
+        const origin: [number, number] = [k * offset[0], k * offset[1]];
+        const t = (reach + Math.hypot(origin[0], origin[1])) / directionLength;
+        ctx.globalAlpha = k === 0 ? 0.8 : 0.3;
+        ctx.lineWidth = k === 0 ? 1.5 : 1;
+        ctx.beginPath();
+        ctx.moveTo(...toScreen(origin[0] - t * direction[0], origin[1] - t * direction[1]));
+        ctx.lineTo(...toScreen(origin[0] + t * direction[0], origin[1] + t * direction[1]));
+        ctx.stroke();
+      }
+    };
+    drawFamily(a1, a2);
+    drawFamily(a2, a1);
+
+    ctx.globalAlpha = 1;
+    ctx.lineWidth = 2.5;
+    const [ox, oy] = toScreen(0, 0);
+    [a1, a2].forEach(([x, y]) => {
+      const [px, py] = toScreen(x, y);
+      const length = Math.hypot(px - ox, py - oy);
+      if (length < 1) return;
+      const angle = Math.atan2(py - oy, px - ox);
+      ctx.beginPath();
+      ctx.moveTo(ox, oy);
+      ctx.lineTo(px, py);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(px, py);
+      ctx.lineTo(px - 10 * Math.cos(angle - Math.PI / 7), py - 10 * Math.sin(angle - Math.PI / 7));
+      ctx.lineTo(px - 10 * Math.cos(angle + Math.PI / 7), py - 10 * Math.sin(angle + Math.PI / 7));
+      ctx.closePath();
+      ctx.fill();
+    });
+    ctx.restore();
+  });
+};
+
+/**
+ * Continuous distributions draw their density as a lightly filled curve,
+ * discrete ones a stem per value with its mass. An interval probability is
+ * shaded under the curve (or over the stems) and labelled with its value.
+ */
+const drawDistributions = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  plots: DistributionPlot[]
+) => {
+  if (plots.length === 0) return;
+  const computed = getComputedStyle(document.documentElement);
+  // Keep huge densities (chi2(1) near 0) from overflowing the canvas
+  const toY = (y: number) => clamp(mapY(y, height, viewport), -height, 2 * height);
+  const baseline = toY(0);
+
+  plots.forEach(({ distribution, color, interval }) => {
+    const [lo, hi] = support(distribution);
+    const xMin = Math.max(viewport.xMin, lo);
+    const xMax = Math.min(viewport.xMax, hi);
+    if (xMin > xMax) return;
+    ctx.save();
+    ctx.strokeStyle = resolveColor(color, computed);
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.lineWidth = 2;
+    let labelAt: [number, number] | null = null;
+
+    if (isDiscrete(distribution)) {
+      const first = Math.ceil(xMin);
+      const last = Math.floor(xMax);
+      const pixelsPerUnit = width / (viewport.xMax - viewport.xMin);
+      if (last - first > width) {
+        ctx.restore();
+        return;
+      }
+      const barWidth = Math.max(2, pixelsPerUnit * 0.8);
+      for (let k = first; k <= last; k++) {
+        const mass = density(distribution, k);
+        if (!(mass > 0)) continue;
+        const [px, py] = [mapX(k, width, viewport), toY(mass)];
+        if (interval && k >= interval.a && k <= interval.b) {
+          ctx.globalAlpha = 0.3;
+          ctx.fillRect(px - barWidth / 2, py, barWidth, baseline - py);
+          if (!labelAt || py < labelAt[1]) labelAt = [px, py];
+        }
+        ctx.globalAlpha = 1;
+        ctx.beginPath();
+        ctx.moveTo(px, baseline);
+        ctx.lineTo(px, py);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(px, py, 3.5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    } else {
+      const samples = Math.max(200, Math.floor(width));
+      const curve = (from: number, to: number) => {
+        const points: Array<[number, number]> = [];
+        for (let i = 0; i <= samples; i++) {
+          const x = from + ((to - from) * i) / samples;
+          const y = density(distribution, x);
+          if (Number.isFinite(y)) points.push([mapX(x, width, viewport), toY(y)]);
+        }
+        return points;
+      };
+      const fillUnder = (points: Array<[number, number]>) => {
+        if (points.length < 2) return;
+        ctx.beginPath();
+        ctx.moveTo(points[0][0], baseline);
+        points.forEach(([px, py]) => ctx.lineTo(px, py));
+        ctx.lineTo(points[points.length - 1][0], baseline);
+        ctx.closePath();
+        ctx.fill();
+      };
+
+      const points = curve(xMin, xMax);
+      ctx.globalAlpha = 0.08;
+      fillUnder(points);
+      if (interval) {
+        const from = Math.max(xMin, interval.a);
+        const to = Math.min(xMax, interval.b);
+        if (from < to) {
+          const shaded = curve(from, to);
+          ctx.globalAlpha = 0.35;
+          fillUnder(shaded);
+          const peak = shaded.reduce((best, point) => (point[1] < best[1] ? point : best), shaded[0]);
+          if (peak) labelAt = [(shaded[0][0] + shaded[shaded.length - 1][0]) / 2, peak[1]];
+        }
+      }
+      ctx.globalAlpha = 1;
+      ctx.beginPath();
+      points.forEach(([px, py], i) => (i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+      ctx.stroke();
+    }
+
+    if (interval && labelAt) {
+      ctx.globalAlpha = 1;
+      ctx.font = "12px sans-serif";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "bottom";
+      ctx.fillText(`P = ${interval.probability.toFixed(4)}`, labelAt[0], Math.max(14, labelAt[1] - 6));
+    }
+    ctx.restore();
+  });
+};
+
+// Grid of field samples roughly every 32px, covering the viewport
+const fieldGrid = (width: number, height: number, viewport: typeof DEFAULT_VIEWPORT) => {
+  const spacing = 32;
+  const columns = Math.max(1, Math.round(width / spacing));
+  const rows = Math.max(1, Math.round(height / spacing));
+  const cells: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < columns; i++) {
+    for (let j = 0; j < rows; j++) {
+      cells.push({
+        x: viewport.xMin + ((i + 0.5) / columns) * (viewport.xMax - viewport.xMin),
+        y: viewport.yMin + ((j + 0.5) / rows) * (viewport.yMax - viewport.yMin),
+      });
+    }
+  }
+  return { cells, length: spacing * 0.7 };
+};
+
+/**
+ * Slope fields draw a short segment of slope f(x, y) at each grid point, and
+ * the solution through every initial condition integrated out to both edges
+ * of the viewport.
+ */
+const drawSlopeFields = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  fields: SlopeField[]
+) => {
+  if (fields.length === 0) return;
+  const computed = getComputedStyle(document.documentElement);
+  const scaleX = width / (viewport.xMax - viewport.xMin);
+  const scaleY = height / (viewport.yMax - viewport.yMin);
+  const { cells, length } = fieldGrid(width, height, viewport);
+  // Solutions that leave the view far behind are cut off instead of followed to infinity
+  const limit = Math.max(Math.abs(viewport.yMin), Math.abs(viewport.yMax)) + 10 * (viewport.yMax - viewport.yMin);
+
+  fields.forEach(({ color, slope, initials }) => {
+    ctx.save();
+    ctx.strokeStyle = resolveColor(color, computed);
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.globalAlpha = 0.45;
+    ctx.lineWidth = 1.2;
+    ctx.beginPath();
+    cells.forEach(({ x, y }) => {
+      const m = slope(x, y);
+      if (!Number.isFinite(m)) return;
+      // Direction in screen space, so segments keep their length when the axes are scaled differently
+      const [dx, dy] = [scaleX, -m * scaleY];
+      const norm = Math.hypot(dx, dy);
+      const [px, py] = [mapX(x, width, viewport), mapY(y, height, viewport)];
+      ctx.moveTo(px - (dx / norm) * (length / 2), py - (dy / norm) * (length / 2));
+      ctx.lineTo(px + (dx / norm) * (length / 2), py + (dy / norm) * (length / 2));
+    });
+    ctx.stroke();
+
+    ctx.globalAlpha = 1;
+    ctx.lineWidth = 2;
+    const f = (t: number, [y]: number[]) => [slope(t, y)];
+    initials.forEach((start) => {
+      const maxStep = (viewport.xMax - viewport.xMin) / 300;
+      [viewport.xMax, viewport.xMin].forEach((end) => {
+        if (end === start.x) return;
+        const { t, y } = solveODE(f, start.x, [start.y], end, { maxStep, limit });
+        ctx.beginPath();
+        t.forEach((x, i) => {
+          const [px, py] = [mapX(x, width, viewport), mapY(y[i][0], height, viewport)];
+          if (i === 0) ctx.moveTo(px, py);
+          else ctx.lineTo(px, py);
+        });
+        ctx.stroke();
+      });
+      ctx.beginPath();
+      ctx.arc(mapX(start.x, width, viewport), mapY(start.y, height, viewport), 4, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    ctx.restore();
+  });
+};
+
+const drawTrajectories = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  paths: ODETrajectory[]
+) => {
+  if (paths.length === 0) return;
+  const computed = getComputedStyle(document.documentElement);
+  const { cells, length } = fieldGrid(width, height, viewport);
+  const scaleX = width / (viewport.xMax - viewport.xMin);
+  const scaleY = height / (viewport.yMax - viewport.yMin);
+
+  paths.forEach(({ color, points, field }) => {
+    ctx.save();
+    ctx.strokeStyle = resolveColor(color, computed);
+    ctx.fillStyle = ctx.strokeStyle;
+
+    if (field) {
+      // Unit arrows: the direction of motion, not its speed
+      ctx.globalAlpha = 0.4;
+      ctx.lineWidth = 1.2;
+      cells.forEach(({ x, y }) => {
+        const [u, v] = field(x, y);
+        const [dx, dy] = [u * scaleX, -v * scaleY];
+        const norm = Math.hypot(dx, dy);
+        if (!Number.isFinite(norm) || norm === 0) return;
+        const [ux, uy] = [dx / norm, dy / norm];
+        const [px, py] = [mapX(x, width, viewport), mapY(y, height, viewport)];
+        const [tipX, tipY] = [px + (ux * length) / 2, py + (uy * length) / 2];
+        ctx.beginPath();
+        ctx.moveTo(px - (ux * length) / 2, py - (uy * length) / 2);
+        ctx.lineTo(tipX, tipY);
+        ctx.lineTo(tipX - 5 * ux + 3 * uy, tipY - 5 * uy - 3 * ux);
+        ctx.moveTo(tipX, tipY);
+        ctx.lineTo(tipX - 5 * ux - 3 * uy, tipY - 5 * uy + 3 * ux);
+        ctx.stroke();
+      });
+    }
+
+    if (points.length > 0) {
+      ctx.globalAlpha = 1;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      points.forEach(({ x, y }, i) => {
+        const [px, py] = [mapX(x, width, viewport), mapY(y, height, viewport)];
+        if (i === 0) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      });
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(mapX(points[0].x, width, viewport), mapY(points[0].y, height, viewport), 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.restore();
+  });
+};
+
+// Regression data and point-valued entries, as filled dots
+const drawDots = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  plots: Array<{ color: string; points: Array<{ x: number; y: number }>; label?: string }>
+) => {
+  if (plots.length === 0) return;
+  const computed = getComputedStyle(document.documentElement);
+  plots.forEach(({ color, points, label }) => {
+    ctx.save();
+    ctx.fillStyle = resolveColor(color, computed);
+    ctx.strokeStyle = `hsl(${computed.getPropertyValue("--canvas-bg").trim()})`;
+    ctx.lineWidth = 1.5;
+    points.forEach(({ x, y }) => {
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+      ctx.beginPath();
+      ctx.arc(mapX(x, width, viewport), mapY(y, height, viewport), 4, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      if (label) {
+        ctx.font = "12px sans-serif";
+        ctx.fillText(label, mapX(x, width, viewport) + 7, mapY(y, height, viewport) - 7);
+      }
+    });
+    ctx.restore();
+  });
+};
+
+const drawShapes = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  plots: ShapePlot[],
+  dpr: number
+) => {
+  if (plots.length === 0) return;
+  const computed = getComputedStyle(document.documentElement);
+  plots.forEach(({ color, shape }) => {
+    ctx.save();
+    ctx.strokeStyle = resolveColor(color, computed);
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.lineWidth = Math.max(1.2, 2 / dpr);
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    switch (shape.kind) {
+      case "segment":
+        ctx.moveTo(mapX(shape.from.x, width, viewport), mapY(shape.from.y, height, viewport));
+        ctx.lineTo(mapX(shape.to.x, width, viewport), mapY(shape.to.y, height, viewport));
+        break;
+      case "line": {
+        // Far enough either way from the point nearest the view's center to cross the whole view
+        const { through, direction } = shape;
+        const length = Math.hypot(direction.x, direction.y);
+        const [ux, uy] = [direction.x / length, direction.y / length];
+        const [cx, cy] = [(viewport.xMin + viewport.xMax) / 2, (viewport.yMin + viewport.yMax) / 2];
+        const along = (cx - through.x) * ux + (cy - through.y) * uy;
+        const reach = Math.hypot(viewport.xMax - viewport.xMin, viewport.yMax - viewport.yMin);
+        const [mx, my] = [through.x + along * ux, through.y + along * uy];
+        ctx.moveTo(mapX(mx - reach * ux, width, viewport), mapY(my - reach * uy, height, viewport));
+        ctx.lineTo(mapX(mx + reach * ux, width, viewport), mapY(my + reach * uy, height, viewport));
+        break;
+      }
+      case "circle":
+        // An ellipse on screen when the axes are scaled differently
+        ctx.ellipse(
+          mapX(shape.center.x, width, viewport),
+          mapY(shape.center.y, height, viewport),
+          (shape.radius / (viewport.xMax - viewport.xMin)) * width,
+          (shape.radius / (viewport.yMax - viewport.yMin)) * height,
+          0,
+          0,
+          Math.PI * 2
+        );
+        break;
+      case "polygon":
+        shape.points.forEach(({ x, y }, index) => {
+          if (index === 0) {
+            ctx.moveTo(mapX(x, width, viewport), mapY(y, height, viewport));
+          } else {
+            ctx.lineTo(mapX(x, width, viewport), mapY(y, height, viewport));
+          }
+        });
+        ctx.closePath();
+        ctx.globalAlpha = 0.2;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        break;
+    }
+    ctx.stroke();
+    ctx.restore();
+  });
+};
+
 const drawImplicitCurves = (
   ctx: CanvasRenderingContext2D,
   width: number,
@@ -786,6 +1890,8 @@ const drawImplicitCurves = (
     ctx.lineCap = "round";
     data.forEach((segment) => {
       if (!segment.points || segment.points.length < 2) return;
+      // The boundary of a strict inequality is not part of its region
+      ctx.setLineDash(segment.dashed ? [6, 4] : []);
       ctx.beginPath();
       segment.points.forEach((point, index) => {
         const px = mapX(point.x, width, viewport);
@@ -802,6 +1908,40 @@ const drawImplicitCurves = (
   });
 };
 
+const drawInequalityRegions = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  regions: Record<string, NonNullable<WorkerResponse["regions"]>>,
+  expressions: Array<{ id: string; color: string }>
+) => {
+  const computed = getComputedStyle(document.documentElement);
+  expressions.forEach((expr) => {
+    const polygons = regions[expr.id];
+    if (!polygons?.length) return;
+    // One path, so the cells of a region blend without seams
+    const path = new Path2D();
+    polygons.forEach((polygon) => {
+      polygon.forEach((point, index) => {
+        const px = mapX(point.x, width, viewport);
+        const py = mapY(point.y, height, viewport);
+        if (index === 0) {
+          path.moveTo(px, py);
+        } else {
+          path.lineTo(px, py);
+        }
+      });
+      path.closePath();
+    });
+    ctx.save();
+    ctx.fillStyle = resolveColor(expr.color, computed);
+    ctx.globalAlpha = 0.25;
+    ctx.fill(path);
+    ctx.restore();
+  });
+};
+
 const findNearestPoint = (
   canvasX: number,
   canvasY: number,
@@ -823,8 +1963,8 @@ const findNearestPoint = (
       }
     | null = null;
   const threshold = 15;
-  parsedExpressions.forEach((parsed, exprId) => {
-    const exprMeta = expressions.find((expr) => expr.id === exprId);
+  parsedExpressions.forEach((parsed) => {
+    const exprMeta = expressions.find((expr) => expr.id === parsed.id);
     if (!exprMeta) return;
     const xRange = viewport.xMax - viewport.xMin;
     const samples = Math.max(200, width);
@@ -853,3 +1993,79 @@ const findNearestPoint = (
   });
   return nearest;
 };
+
+// Twelve significant digits, without the trailing zeros of toPrecision
+const formatCoordinate = (value: number) => {
+  const rounded = Number(value.toPrecision(12));
+  return String(rounded === 0 ? 0 : rounded);
+};
+
+// The draggable point within a few pixels of the pointer, if any
+const findDraggablePoint = <T extends { x: number; y: number }>(
+  canvasX: number,
+  canvasY: number,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  points: T[]
+): T | null => {
+  let nearest: { point: T; distance: number } | null = null;
+  points.forEach((point) => {
+    const distance = Math.hypot(mapX(point.x, width, viewport) - canvasX, mapY(point.y, height, viewport) - canvasY);
+    if (distance <= POINT_HIT_RADIUS && (!nearest || distance < nearest.distance)) {
+      nearest = { point, distance };
+    }
+  });
+  return nearest?.point ?? null;
+};
+
+const findPointOfInterest = (
+  canvasX: number,
+  canvasY: number,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  points: PointOfInterest[]
+) => {
+  let nearest: { point: PointOfInterest; distance: number } | null = null;
+  points.forEach((point) => {
+    const distance = Math.hypot(mapX(point.x, width, viewport) - canvasX, mapY(point.y, height, viewport) - canvasY);
+    if (distance <= POINT_HIT_RADIUS && (!nearest || distance < nearest.distance)) {
+      nearest = { point, distance };
+    }
+  });
+  return nearest?.point ?? null;
+};
+
+// Hollow dots in the curve's colour; intersections use the foreground colour
+// since they belong to two curves. The selected point is filled.
+const drawPointsOfInterest = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  viewport: typeof DEFAULT_VIEWPORT,
+  points: PointOfInterest[],
+  expressions: ToolProps["expressions"],
+  selected: PointOfInterest | null
+) => {
+  if (points.length === 0) return;
+  const computed = getComputedStyle(document.documentElement);
+  const background = `hsl(${computed.getPropertyValue("--canvas-bg").trim()})`;
+  const foreground = `hsl(${computed.getPropertyValue("--foreground").trim()})`;
+  ctx.save();
+  ctx.lineWidth = 1.5;
+  points.forEach((point) => {
+    const color =
+      point.kind === "intersection"
+        ? foreground
+        : resolveColor(expressions.find((expr) => expr.id === point.curves[0])?.color ?? foreground, computed);
+    const isSelected = point === selected;
+    ctx.beginPath();
+    ctx.arc(mapX(point.x, width, viewport), mapY(point.y, height, viewport), isSelected ? 5 : 3.5, 0, Math.PI * 2);
+    ctx.fillStyle = isSelected ? color : background;
+    ctx.strokeStyle = color;
+    ctx.fill();
+    ctx.stroke();
+  });
+  ctx.restore();
+};
@@ -137,7 +137,7 @@ export const Graph3DTool = ({
     expressions.forEach(expr => {
         try {
           // Infer expression type
-          const typeInfo = inferType(expr.latex, expr.normalized);
+          const typeInfo = inferType(expr.latex, expr.normalized, context);
           const ast = expressionEngine.parseNormalized(expr.normalized, context);
           
           const normalized = expr.normalized.trim();
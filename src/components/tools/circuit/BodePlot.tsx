@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Upload } from "lucide-react";
+import { ACAnalysisResult, ACSweepConfig, toDecibels } from "@/lib/circuits/acAnalysis";
+import { formatWithUnit } from "./utils";
+
+export type BodeExportKind = "magnitude" | "phase";
+
+interface LogChartProps {
+  label: string;
+  unit: string;
+  frequencies: Float64Array;
+  values: Float64Array;
+  color: string;
+}
+
+const LogChart = ({ label, unit, frequencies, values, color }: LogChartProps) => {
+  const width = 260;
+  const height = 90;
+  const logStart = Math.log10(frequencies[0]);
+  const logSpan = Math.log10(frequencies[frequencies.length - 1]) - logStart || 1;
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    if (Number.isFinite(value)) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  });
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min === max) {
+    min = min === Infinity ? 0 : min - 1;
+    max = max === -Infinity ? 1 : max + 1;
+  }
+  const range = max - min || 1;
+  const xAt = (frequency: number) => ((Math.log10(frequency) - logStart) / logSpan) * width;
+  const points: string[] = [];
+  values.forEach((value, index) => {
+    const y = height - ((value - min) / range) * height;
+    points.push(`${xAt(frequencies[index]).toFixed(2)},${y.toFixed(2)}`);
+  });
+  const decades: number[] = [];
+  for (let exponent = Math.ceil(logStart); exponent <= logStart + logSpan; exponent++) {
+    decades.push(Math.pow(10, exponent));
+  }
+
+  return (
+    <div className="rounded border p-3">
+      <p className="mb-2 flex justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span className="font-mono">
+          {min.toFixed(1)} … {max.toFixed(1)} {unit}
+        </span>
+      </p>
+      <svg width={width} height={height + 14} className="overflow-visible">
+        {decades.map(decade => (
+          <g key={decade}>
+            <line
+              x1={xAt(decade)}
+              y1={0}
+              x2={xAt(decade)}
+              y2={height}
+              stroke="rgba(15,23,42,0.12)"
+              strokeWidth={1}
+            />
+            <text x={xAt(decade)} y={height + 12} textAnchor="middle" fontSize={9} fill="currentColor" opacity={0.6}>
+              {formatWithUnit(decade, "Hz").replace(/\.0+ /, " ")}
+            </text>
+          </g>
+        ))}
+        <polyline
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          points={points.join(" ")}
+        />
+      </svg>
+    </div>
+  );
+};
+
+interface SweepFieldProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+const SweepField = ({ label, value, onCommit }: SweepFieldProps) => (
+  <div className="flex items-center gap-2">
+    <Label className="w-24 text-xs">{label}</Label>
+    <Input
+      type="number"
+      value={value}
+      onChange={event => {
+        const parsed = parseFloat(event.target.value);
+        if (Number.isFinite(parsed) && parsed > 0) {
+          onCommit(parsed);
+        }
+      }}
+    />
+  </div>
+);
+
+export interface BodePlotPanelProps {
+  node: string | null;
+  config: ACSweepConfig;
+  result: ACAnalysisResult | null;
+  onConfigChange: (config: ACSweepConfig) => void;
+  onRun: () => void;
+  onExport: (node: string, kind: BodeExportKind) => void;
+}
+
+export const BodePlotPanel = ({ node, config, result, onConfigChange, onRun, onExport }: BodePlotPanelProps) => {
+  const [showPhase, setShowPhase] = useState(true);
+  const magnitudes = node && result ? result.nodeMagnitudes[node] : undefined;
+  const phases = node && result ? result.nodePhases[node] : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-2">
+        <SweepField
+          label="Start (Hz)"
+          value={config.startFrequency}
+          onCommit={startFrequency => onConfigChange({ ...config, startFrequency })}
+        />
+        <SweepField
+          label="Stop (Hz)"
+          value={config.stopFrequency}
+          onCommit={stopFrequency => onConfigChange({ ...config, stopFrequency })}
+        />
+        <SweepField
+          label="Points/decade"
+          value={config.pointsPerDecade}
+          onCommit={pointsPerDecade => onConfigChange({ ...config, pointsPerDecade: Math.round(pointsPerDecade) })}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={onRun}>
+          Run AC sweep
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setShowPhase(prev => !prev)}>
+          {showPhase ? "Hide phase" : "Show phase"}
+        </Button>
+      </div>
+      {node && magnitudes && phases && result ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-xs font-semibold">Node {node}</p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="secondary" onClick={() => onExport(node, "magnitude")}>
+                <Upload className="mr-1 h-3 w-3" />
+                |V(f)| dB
+              </Button>
+              <Button size="sm" variant="secondary" onClick={() => onExport(node, "phase")}>
+                <Upload className="mr-1 h-3 w-3" />
+                ∠V(f)
+              </Button>
+            </div>
+          </div>
+          <LogChart
+            label="Magnitude"
+            unit="dB"
+            frequencies={result.frequencies}
+            values={toDecibels(magnitudes)}
+            color="#111827"
+          />
+          {showPhase && (
+            <LogChart label="Phase" unit="°" frequencies={result.frequencies} values={phases} color="#1f2937" />
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-600">
+          {result ? "Select a node to view its frequency response." : "Run an AC sweep to plot Bode diagrams."}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -14,6 +14,8 @@
 
 } from "react";
 
+import type { DragEvent } from "react";
+
 import type { CircuitComponent } from "@/lib/circuits/simulator";
 
 import type { CircuitKind, NodePosition } from "@/lib/circuits/editorModel";
@@ -44,7 +46,7 @@ import {
 
 } from "./utils";
 
-import { DRAG_DATA_COMPONENT, DRAG_DATA_KIND } from "./constants";
+import { DRAG_DATA_COMPONENT, DRAG_DATA_KIND, DRAG_DATA_SUBCIRCUIT } from "./constants";
 
 import type { SelectionRect, ViewportState } from "./types";
 
@@ -84,6 +86,8 @@ export interface CircuitCanvasProps {
 
   onNodePositionChange: (nodeId: string, position: NodePosition) => void;
 
+  onNodeDragEnd?: (nodeId: string) => void;
+
   onNodeSelect: (nodeId: string, options?: { additive?: boolean }) => void;
 
   onNodeHover?: (nodeId: string | null) => void;
@@ -94,9 +98,9 @@ export interface CircuitCanvasProps {
 
   onComponentSelect?: (componentId: string, options?: { additive?: boolean }) => void;
 
-  onCanvasDropComponentKind?: (kind: CircuitKind, position?: NodePosition) => void;
+  onCanvasDropComponentKind?: (kind: CircuitKind, position?: NodePosition, subcircuit?: string) => void;
 
-  onNodeDropComponentKind?: (kind: CircuitKind, nodeId: string) => void;
+  onNodeDropComponentKind?: (kind: CircuitKind, nodeId: string, subcircuit?: string) => void;
 
   onNodeDropComponentInstance?: (componentId: string, nodeId: string) => void;
 
@@ -130,6 +134,7 @@ export interface CircuitCanvasProps {
 
   liveCurrents?: Record<string, number>;
 
+  voltageScale?: number;
 
   isSpacePressed?: boolean;
 
@@ -389,6 +394,8 @@ export const CircuitCanvas = ({
 
   onNodePositionChange,
 
+  onNodeDragEnd,
+
   onNodeSelect,
 
   onNodeHover,
@@ -430,6 +437,7 @@ export const CircuitCanvas = ({
   voltageScale = 1,
 
   isSpacePressed = false,
+  onContextMenuRequest,
 
 }: CircuitCanvasProps) => {
 
@@ -1283,6 +1291,8 @@ export const CircuitCanvas = ({
 
       onNodeHover?.(null);
 
+      onNodeDragEnd?.(dragState.nodeId);
+
     };
 
     const handlePointerUp = () => {
@@ -1329,7 +1339,7 @@ export const CircuitCanvas = ({
 
     };
 
-  }, [dragState, onNodePositionChange, onNodeFocus, onNodeSelect, viewport]);
+  }, [dragState, onNodePositionChange, onNodeDragEnd, onNodeFocus, onNodeSelect, viewport]);
 
   useEffect(() => {
 
@@ -1441,7 +1451,15 @@ export const CircuitCanvas = ({
 
       const dropPosition = resolveDropPosition(event.clientX, event.clientY);
 
-      onCanvasDropComponentKind(kindData as CircuitKind, dropPosition ?? undefined);
+      onCanvasDropComponentKind(
+
+        kindData as CircuitKind,
+
+        dropPosition ?? undefined,
+
+        dataTransfer.getData(DRAG_DATA_SUBCIRCUIT) || undefined
+
+      );
 
     }
 
@@ -1483,7 +1501,7 @@ export const CircuitCanvas = ({
 
       event.preventDefault();
 
-      onNodeDropComponentKind(kindData as CircuitKind, nodeId);
+      onNodeDropComponentKind(kindData as CircuitKind, nodeId, dataTransfer.getData(DRAG_DATA_SUBCIRCUIT) || undefined);
 
     }
 
@@ -1733,6 +1751,32 @@ export const CircuitCanvas = ({
 
             const labelColor = isSelected ? "hsl(var(--primary))" : "var(--foreground)";
 
+            const controlNodes =
+
+              component.kind === "npn" || component.kind === "pnp"
+
+                ? [component.base]
+
+                : component.kind === "nmos" || component.kind === "pmos"
+
+                ? [component.gate]
+
+                : component.kind === "vcvs" || component.kind === "vccs" || component.kind === "opamp"
+
+                ? [component.controlPos, component.controlNeg]
+
+                : component.kind === "subcircuit"
+
+                ? component.extraPorts
+
+                : [];
+
+            const controlPositions = controlNodes
+
+              .map(node => resolvedPositions[node])
+
+              .filter((position): position is NodePosition => Boolean(position));
+
             return (
 
               <g
@@ -1815,6 +1859,34 @@ export const CircuitCanvas = ({
 
                 })}
 
+                {controlPositions.map((controlPosition, controlIndex) => (
+
+                  <line
+
+                    key={`${component.id}-control-${controlIndex}`}
+
+                    data-component-id={component.id}
+
+                    x1={(symbolStart.x + symbolEnd.x) / 2}
+
+                    y1={(symbolStart.y + symbolEnd.y) / 2}
+
+                    x2={controlPosition.x}
+
+                    y2={controlPosition.y}
+
+                    stroke={accentColor}
+
+                    strokeWidth={strokeWidth}
+
+                    strokeLinecap="round"
+
+                    opacity={groupOpacity}
+
+                  />
+
+                ))}
+
                 <g
 
                   data-component-id={component.id}
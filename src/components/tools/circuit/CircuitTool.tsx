@@ -5,11 +5,15 @@ import {
   CircuitComponent,
   SimulationResult,
   SimulationMetrics,
+  componentTerminals,
+  hasBranchCurrent,
+  isNonlinearKind,
   simulateCircuit,
 } from "@/lib/circuits/simulator";
 import {
   COMPONENT_LIBRARY,
   COMPONENT_LOOKUP,
+  CONTROLLED_SOURCE_DEFAULTS,
   DEFAULT_NEW_COMPONENT,
   NODE_MARGIN,
   CircuitKind,
@@ -31,8 +35,18 @@ import {
   stageComponentFromKind,
   stageComponentForNodeDrop,
   retargetComponentToNode,
+  componentUsesNode,
+  renameCircuitNodes,
 } from "@/lib/circuits/editorModel";
 import { CIRCUIT_PRESETS, DEFAULT_SIM_CONFIG } from "@/lib/circuits/presets";
+import { ACAnalysisResult, DEFAULT_AC_SWEEP, simulateAC, toDecibels } from "@/lib/circuits/acAnalysis";
+import {
+  DCSweepResult,
+  DEFAULT_DC_SWEEP,
+  OperatingPoint,
+  simulateDCSweep,
+  solveOperatingPoint,
+} from "@/lib/circuits/dcAnalysis";
 import {
   buildDifferentialEquations,
   DifferentialEquation,
@@ -58,9 +72,32 @@ import {
 } from "@/components/ui/accordion";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { toast } from "@/components/ui/use-toast";
-import { Pause, Play, Upload, Trash2, ZoomIn, ZoomOut, Scan, RefreshCcw, ChevronDown, Target, MousePointer, PenTool, Eraser } from "lucide-react";
+import { Pause, Play, Upload, Download, Trash2, ZoomIn, ZoomOut, Scan, RefreshCcw, ChevronDown, Target, MousePointer, PenTool, Eraser, Boxes, Undo2, Redo2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { solveSymbolicCircuit } from "@/lib/circuits/symbolic";
+import { parseSpiceNetlist, serializeSpiceNetlist } from "@/lib/circuits/spice";
+import { WAVEFORM_LABELS, defaultWaveformParams, waveformFunctionNames } from "@/lib/circuits/waveforms";
+import type { CircuitWaveform } from "@/lib/circuits/simulator";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { SubcircuitDefinition, collapseToSubcircuit, flattenSubcircuits } from "@/lib/circuits/subcircuits";
+import {
+  CircuitDocument,
+  CircuitProbe,
+  CommandDescriptor,
+  closeGesture,
+  createHistory,
+  recordCommand,
+  redoCommand,
+  sameDocument,
+  undoCommand,
+} from "@/lib/circuits/history";
+import {
+  SchematicFile,
+  loadSchematicDraft,
+  parseSchematic,
+  saveSchematicDraft,
+  serializeSchematic,
+} from "@/lib/circuits/schematicFile";
 import { CircuitCanvas } from "./CircuitCanvas";
 import { ComponentPalette } from "./ComponentPalette";
 import { ComponentInspector } from "./ComponentInspector";
@@ -72,6 +109,8 @@ import {
 } from "./NodeDetailPanel";
 import type { ShortcutHint } from "./NodeDetailPanel";
 import { NodeListEditor } from "./NodeListEditor";
+import { BodeExportKind, BodePlotPanel } from "./BodePlot";
+import { DcAnalysisPanel } from "./DcAnalysisPanel";
 import { CircuitStatusBar } from "./CircuitStatusBar";
 import { DRAG_DATA_COMPONENT, DRAG_DATA_KIND } from "./constants";
 import { buildPiecewiseExpression, describeComponent, componentValueLabel } from "./utils";
@@ -156,8 +195,12 @@ const HOTKEY_HINTS: ShortcutHint[] = [
   { combo: "L", action: "Stage inductor" },
   { combo: "V", action: "Stage voltage source" },
   { combo: "I", action: "Stage current source" },
+  { combo: "D", action: "Stage diode" },
   { combo: "G", action: "Drop ground at selected node" },
   { combo: "Ctrl/Cmd + Enter", action: "Commit staged component" },
+  { combo: "Ctrl/Cmd + G", action: "Collapse selection into a subcircuit" },
+  { combo: "Ctrl/Cmd + Z", action: "Undo" },
+  { combo: "Ctrl/Cmd + Shift + Z", action: "Redo" },
   { combo: "Backspace / Delete", action: "Remove selected component" },
   { combo: "Esc", action: "Clear selections and node picking" },
 ];
@@ -168,19 +211,27 @@ const EDITOR_TIPS = [
   "Rename nodes from the list to annotate probe points and exports.",
 ];
 
-export function CircuitTool({ isActive }: ToolProps) {
-  const [components, setComponents] = useState<CircuitComponent[]>(DEFAULT_COMPONENTS);
+export function CircuitTool({ isActive, expressions, toolkitDefinitions }: ToolProps) {
+  // The last autosaved schematic, read once when the tool mounts
+  const [recoveredDraft] = useState<SchematicFile | null>(loadSchematicDraft);
+  const [components, setComponents] = useState<CircuitComponent[]>(recoveredDraft?.components ?? DEFAULT_COMPONENTS);
+  const [subcircuits, setSubcircuits] = useState<SubcircuitDefinition[]>(recoveredDraft?.subcircuits ?? []);
   const [newComponent, setNewComponent] = useState<NewComponentState>(DEFAULT_NEW_COMPONENT);
-  const [simConfig, setSimConfig] = useState(DEFAULT_SIM_CONFIG);
+  const [simConfig, setSimConfig] = useState(() => ({ ...DEFAULT_SIM_CONFIG, ...recoveredDraft?.simConfig }));
   const [result, setResult] = useState<SimulationResult | null>(null);
   const [metrics, setMetrics] = useState<SimulationMetrics | null>(null);
+  const [acConfig, setAcConfig] = useState(recoveredDraft?.acSweep ?? DEFAULT_AC_SWEEP);
+  const [acResult, setAcResult] = useState<ACAnalysisResult | null>(null);
+  const [operatingPoint, setOperatingPoint] = useState<OperatingPoint | null>(null);
+  const [dcSweepConfig, setDcSweepConfig] = useState(DEFAULT_DC_SWEEP);
+  const [dcSweepResult, setDcSweepResult] = useState<DCSweepResult | null>(null);
   const [status, setStatus] = useState<string>("");
   const [playhead, setPlayhead] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
-  const [extraNodes, setExtraNodes] = useState<string[]>([]);
+  const [extraNodes, setExtraNodes] = useState<string[]>(recoveredDraft?.extraNodes ?? []);
   const [nodePositions, setNodePositions] = useState<Record<string, NodePosition>>(() =>
-    createInitialPositions(DEFAULT_NODE_NAMES)
+    recoveredDraft ? recoveredDraft.nodePositions : createInitialPositions(DEFAULT_NODE_NAMES)
   );
   const [selectingNodeField, setSelectingNodeField] = useState<"from" | "to" | null>(null);
   const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
@@ -188,10 +239,12 @@ export function CircuitTool({ isActive }: ToolProps) {
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
   const [selectedComponentIds, setSelectedComponentIds] = useState<Set<string>>(new Set());
   const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(new Set());
-  const [viewport, setViewport] = useState<ViewportState>({
-    origin: { x: 0, y: 0 },
-    scale: 1,
-  });
+  const [viewport, setViewport] = useState<ViewportState>(
+    recoveredDraft?.viewport ?? {
+      origin: { x: 0, y: 0 },
+      scale: 1,
+    }
+  );
   const [isSpacePressed, setIsSpacePressed] = useState(false);
   const [contextMenu, setContextMenu] = useState<{
     x: number;
@@ -202,10 +255,125 @@ export function CircuitTool({ isActive }: ToolProps) {
   const [activeTool, setActiveTool] = useState<ActiveTool>("select");
   const [wireDraft, setWireDraft] = useState<WireDraft | null>(null);
   const [wirePreview, setWirePreview] = useState<NodePosition | null>(null);
-  const [probes, setProbes] = useState<Array<{ id: string; nodeId: string; offset: { x: number; y: number } }>>([]);
+  const [probes, setProbes] = useState<CircuitProbe[]>(recoveredDraft?.probes ?? []);
   const [showNodePanel, setShowNodePanel] = useState(false);
   const playRef = useRef<number | null>(null);
+  const netlistInputRef = useRef<HTMLInputElement | null>(null);
+  const schematicInputRef = useRef<HTMLInputElement | null>(null);
+  const [history, setHistory] = useState(() => createHistory());
+  const circuitDocument = useMemo<CircuitDocument>(
+    () => ({ components, nodePositions, extraNodes, probes, subcircuits }),
+    [components, nodePositions, extraNodes, probes, subcircuits]
+  );
+  const committedDocumentRef = useRef(circuitDocument);
+  const latestDocumentRef = useRef(circuitDocument);
+  const pendingCommandRef = useRef<CommandDescriptor | null>(null);
+  const closeGestureAfterFlushRef = useRef(false);
+  const historyFlushRef = useRef<number | null>(null);
+
+  // Label the document change the current handler is about to make
+  const describeCommand = useCallback((descriptor: CommandDescriptor) => {
+    pendingCommandRef.current = descriptor;
+  }, []);
+
+  // Handlers update several slices of state and effects normalize node
+  // positions and probes afterwards; record once the burst has settled so it
+  // all lands in one history entry.
+  useEffect(() => {
+    latestDocumentRef.current = circuitDocument;
+    if (historyFlushRef.current !== null) return;
+    historyFlushRef.current = window.setTimeout(() => {
+      historyFlushRef.current = null;
+      const before = committedDocumentRef.current;
+      const after = latestDocumentRef.current;
+      const descriptor = pendingCommandRef.current ?? { kind: "edit", label: "Edit circuit" };
+      pendingCommandRef.current = null;
+      const closeAfter = closeGestureAfterFlushRef.current;
+      closeGestureAfterFlushRef.current = false;
+      if (sameDocument(before, after)) {
+        if (closeAfter) setHistory(closeGesture);
+        return;
+      }
+      committedDocumentRef.current = after;
+      setHistory(prev => {
+        const next = recordCommand(prev, descriptor, before, after);
+        return closeAfter ? closeGesture(next) : next;
+      });
+    }, 0);
+  }, [circuitDocument]);
+
+  useEffect(
+    () => () => {
+      if (historyFlushRef.current !== null) {
+        window.clearTimeout(historyFlushRef.current);
+      }
+    },
+    []
+  );
+
+  const endGesture = useCallback(() => {
+    if (historyFlushRef.current !== null || pendingCommandRef.current) {
+      closeGestureAfterFlushRef.current = true;
+    } else {
+      setHistory(closeGesture);
+    }
+  }, []);
+
+  const restoreDocument = useCallback((document: CircuitDocument) => {
+    committedDocumentRef.current = document;
+    pendingCommandRef.current = null;
+    setComponents(document.components);
+    setNodePositions(document.nodePositions);
+    setExtraNodes(document.extraNodes);
+    setProbes(document.probes);
+    setSubcircuits(document.subcircuits);
+    setResult(null);
+    setMetrics(null);
+    setIsPlaying(false);
+    setPlayhead(0);
+  }, []);
+
+  const undo = useCallback(() => {
+    const step = undoCommand(history);
+    if (!step) return;
+    setHistory(step.history);
+    restoreDocument(step.document);
+    setStatus(`Undid: ${step.command.label}`);
+  }, [history, restoreDocument]);
+
+  const redo = useCallback(() => {
+    const step = redoCommand(history);
+    if (!step) return;
+    setHistory(step.history);
+    restoreDocument(step.document);
+    setStatus(`Redid: ${step.command.label}`);
+  }, [history, restoreDocument]);
+
+  // Autosave shortly after the schematic settles so a refresh can pick up where it left off
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      saveSchematicDraft({ ...circuitDocument, simConfig, acSweep: acConfig, viewport });
+    }, 500);
+    return () => window.clearTimeout(timer);
+  }, [circuitDocument, simConfig, acConfig, viewport]);
+
+  useEffect(() => {
+    if (!recoveredDraft) return;
+    const saved = recoveredDraft.savedAt ? new Date(recoveredDraft.savedAt).toLocaleString() : "the last session";
+    setStatus(`Recovered autosaved schematic from ${saved}.`);
+  }, [recoveredDraft]);
   const circuitNodes = useMemo(() => extractCircuitNodes(components), [components]);
+  // Definitions from the expression list drive `expression` waveform sources
+  const definitionSources = useMemo(
+    () => [...(expressions ?? []), ...(toolkitDefinitions ?? [])].filter(expr => expr.normalized.trim().includes("=")),
+    [expressions, toolkitDefinitions]
+  );
+  const definitionContext = useMemo(() => buildDefinitionContext(definitionSources), [definitionSources]);
+  const waveformFunctions = useMemo(() => waveformFunctionNames(definitionContext), [definitionContext]);
+  const branchIds = useMemo(
+    () => components.filter(hasBranchCurrent).map(component => component.id),
+    [components]
+  );
   const allNodes = useMemo(() => {
     const set = new Set<string>(circuitNodes);
     extraNodes.forEach(node => set.add(node));
@@ -248,25 +416,34 @@ export function CircuitTool({ isActive }: ToolProps) {
       })),
     [probes, liveVoltages, liveCurrents]
   );
+  // Analyses see subcircuit instances expanded into their internal components
+  const flattenCircuit = useCallback(
+    () => flattenSubcircuits(components, subcircuits),
+    [components, subcircuits]
+  );
   const symbolicResult = useMemo(() => {
     try {
-      return solveSymbolicCircuit(components);
+      return solveSymbolicCircuit(flattenCircuit(), definitionContext);
     } catch {
       return { nodeVoltages: {}, branchCurrents: {}, variables: [] };
     }
-  }, [components]);
-  const differentialEquations = useMemo<DifferentialEquation[]>(
-    () => buildDifferentialEquations(components),
-    [components]
-  );
+  }, [flattenCircuit, definitionContext]);
+  const differentialEquations = useMemo<DifferentialEquation[]>(() => {
+    try {
+      return buildDifferentialEquations(flattenCircuit());
+    } catch {
+      return [];
+    }
+  }, [flattenCircuit]);
 
-  const applyPreset = (label: string, componentsToLoad: CircuitComponent[], description?: string) => {
+  const loadCircuit = (componentsToLoad: CircuitComponent[], positions?: Record<string, NodePosition>) => {
     const cloned = componentsToLoad.map(component => ({ ...component }));
+    describeCommand({ kind: "load", label: "Load circuit" });
     setComponents(cloned);
     const nodes = extractCircuitNodes(cloned);
     const baselineNodes = new Set(DEFAULT_NODE_NAMES);
     setExtraNodes(nodes.filter(node => !baselineNodes.has(node)));
-    setNodePositions(createInitialPositions(nodes));
+    setNodePositions(positions ?? createInitialPositions(nodes));
     setViewport({ origin: { x: 0, y: 0 }, scale: 1 });
     setSelectedComponentId(null);
     setSelectedComponentIds(() => new Set());
@@ -284,6 +461,10 @@ export function CircuitTool({ isActive }: ToolProps) {
     setWirePreview(null);
     setActiveTool("select");
     setProbes([]);
+  };
+
+  const applyPreset = (label: string, componentsToLoad: CircuitComponent[], description?: string) => {
+    loadCircuit(componentsToLoad);
     const descriptionText = description ? `${label} - ${description}` : label;
     toast({
       title: "Preset loaded",
@@ -292,6 +473,89 @@ export function CircuitTool({ isActive }: ToolProps) {
     setStatus(`Loaded preset: ${descriptionText}`);
   };
 
+  const importNetlist = async (file: File) => {
+    try {
+      const imported = parseSpiceNetlist(await file.text());
+      loadCircuit(imported.components, imported.nodePositions);
+      setSimConfig(prev => ({ ...prev, ...imported.config }));
+      if (imported.acSweep) {
+        setAcConfig(imported.acSweep);
+      }
+      const label = imported.title || file.name;
+      toast({
+        title: "Netlist imported",
+        description: imported.warnings.length
+          ? `${label} - ${imported.warnings.length} line(s) skipped or approximated: ${imported.warnings[0]}`
+          : label,
+      });
+      setStatus(`Imported ${imported.components.length} components from ${file.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not read netlist";
+      setStatus(message);
+      toast({
+        title: "Netlist import failed",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importSchematic = async (file: File) => {
+    try {
+      const schematic = parseSchematic(await file.text());
+      loadCircuit(schematic.components, schematic.nodePositions);
+      setExtraNodes(prev => [...prev, ...schematic.extraNodes.filter(node => !prev.includes(node))]);
+      setProbes(schematic.probes);
+      setSubcircuits(schematic.subcircuits);
+      setSimConfig(prev => ({ ...prev, ...schematic.simConfig }));
+      if (schematic.acSweep) {
+        setAcConfig(schematic.acSweep);
+      }
+      setViewport(schematic.viewport);
+      toast({ title: "Schematic opened", description: file.name });
+      setStatus(`Opened ${file.name} (${schematic.components.length} components)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not read schematic";
+      setStatus(message);
+      toast({
+        title: "Schematic import failed",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportSchematic = () => {
+    const text = serializeSchematic({ ...circuitDocument, simConfig, acSweep: acConfig, viewport });
+    const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "circuit.json";
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatus("Saved schematic as JSON");
+  };
+
+  const exportNetlist = () => {
+    let flattened: CircuitComponent[];
+    try {
+      flattened = flattenCircuit();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not expand subcircuits";
+      setStatus(message);
+      toast({ title: "Netlist export failed", description: message, variant: "destructive" });
+      return;
+    }
+    const netlist = serializeSpiceNetlist(flattened, simConfig, { title: "Circuit", acSweep: acConfig });
+    const url = URL.createObjectURL(new Blob([netlist], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "circuit.cir";
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatus("Exported SPICE netlist");
+  };
+
   const loadPreset = (presetId: string) => {
     const preset = CIRCUIT_PRESETS.find(entry => entry.id === presetId);
     if (!preset) {
@@ -713,6 +977,7 @@ export function CircuitTool({ isActive }: ToolProps) {
 
   const handleNodePositionChange = (nodeId: string, position: NodePosition) => {
     const nextPosition = applyNodeSnap(position);
+    describeCommand({ kind: "move", label: `Move ${nodeId}`, coalesceKey: `move:${nodeId}` });
     setNodePositions(prev => ({
       ...prev,
       [nodeId]: nextPosition,
@@ -804,13 +1069,8 @@ export function CircuitTool({ isActive }: ToolProps) {
     if (exists) {
       return;
     }
-    setComponents(prev =>
-      prev.map(component => ({
-        ...component,
-        from: component.from === nodeId ? normalizedName : component.from,
-        to: component.to === nodeId ? normalizedName : component.to,
-      }))
-    );
+    describeCommand({ kind: "rename", label: `Rename ${nodeId} to ${normalizedName}` });
+    setComponents(prev => renameCircuitNodes(prev, new Map([[nodeId, normalizedName]])));
     setNodePositions(prev => {
       const next: Record<string, NodePosition> = { ...prev };
       const current = next[nodeId] ?? defaultNodePosition(0);
@@ -829,9 +1089,10 @@ export function CircuitTool({ isActive }: ToolProps) {
 
   const handleRemoveNode = useCallback((nodeId: string) => {
     const removedComponents = new Set<string>();
+    describeCommand({ kind: "remove", label: `Remove node ${nodeId}` });
     setComponents(prev =>
       prev.filter(component => {
-        const matches = component.from === nodeId || component.to === nodeId;
+        const matches = componentUsesNode(component, nodeId);
         if (matches) {
           removedComponents.add(component.id);
         }
@@ -894,7 +1155,7 @@ export function CircuitTool({ isActive }: ToolProps) {
       });
       setStatus(`Removed junction ${nodeId}.`);
     }
-  }, []);
+  }, [describeCommand]);
 
   useEffect(() => {
     const buckets = new Map<string, string[]>();
@@ -937,20 +1198,14 @@ export function CircuitTool({ isActive }: ToolProps) {
           delete next[CANONICAL_GROUND];
           return next;
         });
-        setExtraNodes(prev => prev.filter(node => node !== CANONICAL_GROUND));
+        setExtraNodes(prev => (prev.includes(CANONICAL_GROUND) ? prev.filter(node => node !== CANONICAL_GROUND) : prev));
       }
       return;
     }
 
     const aliasMap = new Map(aliasEntries);
 
-    setComponents(prev =>
-      prev.map(component => ({
-        ...component,
-        from: aliasMap.get(component.from) ?? component.from,
-        to: aliasMap.get(component.to) ?? component.to,
-      }))
-    );
+    setComponents(prev => renameCircuitNodes(prev, aliasMap));
 
     setNodePositions(prev => {
       const next: Record<string, NodePosition> = {};
@@ -1008,7 +1263,7 @@ export function CircuitTool({ isActive }: ToolProps) {
 
   const discardJunction = useCallback(
     (nodeId: string) => {
-      const inUse = components.some(component => component.from === nodeId || component.to === nodeId);
+      const inUse = components.some(component => componentUsesNode(component, nodeId));
       if (inUse) {
         return;
       }
@@ -1087,6 +1342,11 @@ export function CircuitTool({ isActive }: ToolProps) {
       if (!isGround && toId === fromId) {
         toId = ensureNode("");
       }
+      // Transistors get a fresh base/gate node next to the placement, voltage-sensing sources a sense pair
+      const hasControlTerminal = kind === "npn" || kind === "pnp" || kind === "nmos" || kind === "pmos";
+      const sensesVoltage = kind === "vcvs" || kind === "vccs" || kind === "opamp";
+      const controlId = hasControlTerminal || sensesVoltage ? ensureNode("") : null;
+      const controlNegId = sensesVoltage ? ensureNode("") : null;
 
       const baseAnchor = anchor ? applyNodeSnap(anchor) : null;
       const newNodePositions: Record<string, NodePosition> = {};
@@ -1116,11 +1376,80 @@ export function CircuitTool({ isActive }: ToolProps) {
           from: fromId,
           to: toId,
         };
+      } else if (kind === "diode") {
+        component = {
+          id,
+          kind,
+          from: fromId,
+          to: toId,
+        };
+      } else if (kind === "npn" || kind === "pnp") {
+        component = {
+          id,
+          kind,
+          from: fromId,
+          to: toId,
+          base: controlId,
+        };
+      } else if (kind === "nmos" || kind === "pmos") {
+        component = {
+          id,
+          kind,
+          from: fromId,
+          to: toId,
+          gate: controlId,
+        };
+      } else if (kind === "opamp") {
+        component = {
+          id,
+          kind,
+          from: fromId,
+          to: toId,
+          controlPos: controlId,
+          controlNeg: controlNegId,
+        };
+      } else if (kind === "vcvs" || kind === "vccs") {
+        component = {
+          id,
+          kind,
+          from: fromId,
+          to: toId,
+          controlPos: controlId,
+          controlNeg: controlNegId,
+          value: Number.isFinite(placement.value) ? placement.value : CONTROLLED_SOURCE_DEFAULTS[kind],
+        };
+      } else if (kind === "ccvs" || kind === "cccs") {
+        // Sense the first branch element by default; the inspector retargets it
+        const sensed = components.find(comp => hasBranchCurrent(comp));
+        component = {
+          id,
+          kind,
+          from: fromId,
+          to: toId,
+          controlSource: sensed?.id ?? "",
+          value: Number.isFinite(placement.value) ? placement.value : CONTROLLED_SOURCE_DEFAULTS[kind],
+        };
+      } else if (kind === "subcircuit") {
+        const definition = subcircuits.find(entry => entry.id === placement.subcircuit);
+        if (!definition) {
+          setStatus("Pick a subcircuit from the library before placing an instance.");
+          return;
+        }
+        // Ports beyond the first two get fresh nodes, like transistor control terminals
+        component = {
+          id,
+          kind,
+          from: fromId,
+          to: toId,
+          definition: definition.id,
+          extraPorts: definition.ports.slice(2).map(() => ensureNode("")),
+          params: {},
+        };
       } else if (kind === "voltage-source" || kind === "current-source") {
         const waveform = placement.waveform ?? "dc";
         const fallbackMagnitude = kind === "current-source" ? 0.001 : DEFAULT_NEW_COMPONENT.value;
         const amplitude = waveform === "ac" ? placement.amplitude ?? fallbackMagnitude : undefined;
-        const rawMagnitude = waveform === "dc" ? placement.value : amplitude;
+        const rawMagnitude = waveform === "dc" ? placement.value : waveform === "ac" ? amplitude : fallbackMagnitude;
         const safeMagnitude = Math.max(rawMagnitude ?? fallbackMagnitude, 1e-9);
         component = {
           id,
@@ -1133,6 +1462,8 @@ export function CircuitTool({ isActive }: ToolProps) {
           frequency: waveform === "ac" ? placement.frequency ?? DEFAULT_NEW_COMPONENT.frequency : undefined,
           phase: waveform === "ac" ? placement.phase ?? DEFAULT_NEW_COMPONENT.phase : undefined,
           offset: waveform === "ac" ? placement.offset ?? DEFAULT_NEW_COMPONENT.offset : undefined,
+          ...defaultWaveformParams(waveform, safeMagnitude),
+          expression: waveform === "expression" ? waveformFunctions[0] ?? "" : undefined,
         } as CircuitComponent;
       } else {
         const safeValue =
@@ -1148,6 +1479,7 @@ export function CircuitTool({ isActive }: ToolProps) {
         } as CircuitComponent;
       }
 
+      describeCommand({ kind: "add", label: `Add ${component.id}` });
       setComponents(prev => [...prev, component]);
 
       if (createdNodes.length) {
@@ -1196,7 +1528,7 @@ export function CircuitTool({ isActive }: ToolProps) {
         setStatus(`${label} placed between ${fromId} and ${toId}`);
       }
     },
-    [newComponent, allNodes, nodePositions]
+    [newComponent, allNodes, nodePositions, components, waveformFunctions, subcircuits, describeCommand]
   );
 
   const handleWireStart = useCallback(
@@ -1242,6 +1574,7 @@ export function CircuitTool({ isActive }: ToolProps) {
         },
         point.position
       );
+      describeCommand({ kind: "wire", label: `Wire ${fromId} → ${toId}` });
       setStatus(`Wire routed ${fromId} → ${toId}`);
       setWireDraft({
         startNodeId: toId,
@@ -1251,7 +1584,7 @@ export function CircuitTool({ isActive }: ToolProps) {
     setWirePreview(point.position);
     setSelectedNode(toId);
   },
-  [wireDraft, addComponent, discardJunction, setStatus, setSelectedNode]
+  [wireDraft, addComponent, discardJunction, setStatus, setSelectedNode, describeCommand]
 );
 
   const handleWireCancel = useCallback(() => {
@@ -1273,6 +1606,7 @@ export function CircuitTool({ isActive }: ToolProps) {
 
   const addProbe = useCallback(
     (nodeId: string) => {
+      describeCommand({ kind: "add", label: `Probe ${nodeId}` });
       setProbes(prev => {
         if (prev.some(probe => probe.nodeId === nodeId)) {
           return prev;
@@ -1288,11 +1622,12 @@ export function CircuitTool({ isActive }: ToolProps) {
       });
       setStatus(`Probe attached to ${nodeId}`);
     },
-    [setStatus]
+    [setStatus, describeCommand]
   );
 
   const removeProbe = useCallback(
     (probeId: string) => {
+      describeCommand({ kind: "remove", label: "Remove probe" });
       setProbes(prev => {
         const existing = prev.find(probe => probe.id === probeId);
         if (!existing) {
@@ -1302,14 +1637,15 @@ export function CircuitTool({ isActive }: ToolProps) {
         return prev.filter(probe => probe.id !== probeId);
       });
     },
-    [setStatus]
+    [setStatus, describeCommand]
   );
 
   const updateProbeOffset = useCallback((probeId: string, offset: { x: number; y: number }) => {
+    describeCommand({ kind: "move", label: "Move probe", coalesceKey: `probe:${probeId}` });
     setProbes(prev =>
       prev.map(probe => (probe.id === probeId ? { ...probe, offset } : probe))
     );
-  }, []);
+  }, [describeCommand]);
 
   const removeComponents = useCallback(
     (ids: Iterable<string>) => {
@@ -1318,6 +1654,10 @@ export function CircuitTool({ isActive }: ToolProps) {
         return;
       }
 
+      describeCommand({
+        kind: "remove",
+        label: removalSet.size === 1 ? `Remove ${Array.from(removalSet)[0]}` : `Remove ${removalSet.size} components`,
+      });
       setComponents(prev => prev.filter(component => !removalSet.has(component.id)));
 
       setSelectedComponentIds(prev => {
@@ -1344,7 +1684,7 @@ export function CircuitTool({ isActive }: ToolProps) {
       const removedIds = Array.from(removalSet);
       setStatus(removedCount === 1 ? `Removed component ${removedIds[0]}` : `Removed ${removedCount} components`);
     },
-    []
+    [describeCommand]
   );
 
   const removeComponent = useCallback((id: string) => removeComponents([id]), [removeComponents]);
@@ -1379,7 +1719,7 @@ export function CircuitTool({ isActive }: ToolProps) {
     }
 
     try {
-      const res = simulateCircuit(components, simConfig);
+      const res = simulateCircuit(flattenCircuit(), { ...simConfig, context: definitionContext });
       setResult(res);
       setMetrics(res.metrics ?? null);
       setPlayhead(0);
@@ -1400,6 +1740,98 @@ export function CircuitTool({ isActive }: ToolProps) {
     }
   };
 
+  // A sweep describes one topology; drop it as soon as the schematic changes
+  useEffect(() => {
+    setAcResult(null);
+    setOperatingPoint(null);
+    setDcSweepResult(null);
+  }, [components, subcircuits]);
+
+  const runAcAnalysis = () => {
+    try {
+      const res = simulateAC(flattenCircuit(), acConfig, definitionContext);
+      setAcResult(res);
+      const first = res.frequencies[0];
+      const last = res.frequencies[res.frequencies.length - 1];
+      setStatus(`AC sweep: ${res.frequencies.length} points from ${first.toPrecision(3)} Hz to ${last.toPrecision(3)} Hz.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "AC analysis failed";
+      setAcResult(null);
+      setStatus(message);
+      toast({
+        title: "AC analysis failed",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const dcSources = useMemo(
+    () => components.filter(comp => comp.kind === "voltage-source" || comp.kind === "current-source"),
+    [components]
+  );
+  const dcSweepSource = dcSources.some(source => source.id === dcSweepConfig.sourceId)
+    ? dcSweepConfig.sourceId
+    : dcSources[0]?.id ?? "";
+
+  const reportDcFailure = (error: unknown) => {
+    const message = error instanceof Error ? error.message : "DC analysis failed";
+    setStatus(message);
+    toast({
+      title: "DC analysis failed",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const runOperatingPoint = () => {
+    try {
+      const op = solveOperatingPoint(flattenCircuit(), { context: definitionContext });
+      setOperatingPoint(op);
+      setStatus(`DC operating point solved in ${op.iterations} iteration${op.iterations === 1 ? "" : "s"}.`);
+    } catch (error) {
+      setOperatingPoint(null);
+      reportDcFailure(error);
+    }
+  };
+
+  const runDcSweep = () => {
+    try {
+      const res = simulateDCSweep(
+        flattenCircuit(),
+        { ...dcSweepConfig, sourceId: dcSweepSource },
+        { context: definitionContext }
+      );
+      setDcSweepResult(res);
+      setStatus(`DC sweep: ${res.values.length} points of ${res.sourceId}.`);
+    } catch (error) {
+      setDcSweepResult(null);
+      reportDcFailure(error);
+    }
+  };
+
+  const exportFrequencyResponse = (node: string, kind: BodeExportKind) => {
+    if (!acResult) return;
+    const magnitudes = acResult.nodeMagnitudes[node];
+    const phases = acResult.nodePhases[node];
+    if (!magnitudes || !phases) return;
+    const expression = buildPiecewiseExpression(
+      acResult.frequencies,
+      kind === "magnitude" ? toDecibels(magnitudes) : phases,
+      kind === "magnitude" ? `V${node}dB` : `V${node}phase`,
+      "f"
+    );
+    window.dispatchEvent(
+      new CustomEvent("circuit:add-expression", {
+        detail: {
+          latex: expression,
+          normalized: expression,
+        },
+      })
+    );
+    setStatus(`Exported ${kind} response for node ${node}`);
+  };
+
   const exportExpression = (node: string, kind: "voltage" | "current") => {
     if (!result) return;
     const time = result.time;
@@ -1460,6 +1892,53 @@ export function CircuitTool({ isActive }: ToolProps) {
       setHoveredComponentId,
     ]
   );
+  const collapseSelection = useCallback(() => {
+    const selectedIds = selectedComponentIds.size
+      ? selectedComponentIds
+      : new Set(selectedComponentId ? [selectedComponentId] : []);
+    try {
+      const collapsed = collapseToSubcircuit(components, selectedIds, {
+        name: `Subcircuit ${subcircuits.length + 1}`,
+        instanceId: `subcircuit-${Date.now().toString(36)}`,
+        definitions: subcircuits,
+      });
+      const remainingNodes = new Set(extractCircuitNodes(collapsed.components));
+      const hiddenNodes = new Set(
+        components
+          .filter(component => selectedIds.has(component.id))
+          .flatMap(componentTerminals)
+          .filter(node => !remainingNodes.has(node))
+      );
+      describeCommand({ kind: "edit", label: `Make ${collapsed.definition.name}` });
+      setSubcircuits(prev => [...prev, collapsed.definition]);
+      setComponents(collapsed.components);
+      setExtraNodes(prev => prev.filter(node => !hiddenNodes.has(node)));
+      setSelectedComponentIds(() => new Set());
+      setSelectedComponentId(collapsed.instance.id);
+      setStatus(
+        `Collapsed ${collapsed.definition.components.length} components into ${collapsed.definition.name} with ports ${collapsed.definition.ports.join(", ")}.`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Could not create a subcircuit";
+      setStatus(message);
+      toast({ title: "Subcircuit not created", description: message, variant: "destructive" });
+    }
+  }, [components, subcircuits, selectedComponentIds, selectedComponentId, describeCommand]);
+
+  const renameSubcircuit = (definitionId: string, name: string) => {
+    describeCommand({ kind: "rename", label: `Rename ${definitionId}`, coalesceKey: `rename:${definitionId}` });
+    setSubcircuits(prev =>
+      prev.map(definition => (definition.id === definitionId ? { ...definition, name } : definition))
+    );
+  };
+
+  const handleSubcircuitSelect = (definitionId: string) => {
+    cancelWireDraft();
+    setActiveTool("select");
+    setNewComponent(prev => ({ ...stageComponentFromKind(prev, "subcircuit"), subcircuit: definitionId }));
+    setSelectingNodeField(null);
+  };
+
   useEffect(() => {
     if (!isActive) return;
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -1472,6 +1951,20 @@ export function CircuitTool({ isActive }: ToolProps) {
       }
 
       const lower = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      if ((event.ctrlKey || event.metaKey) && (lower === "z" || lower === "y")) {
+        event.preventDefault();
+        if (lower === "y" || event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
+      if ((event.ctrlKey || event.metaKey) && lower === "g") {
+        event.preventDefault();
+        collapseSelection();
+        return;
+      }
       const hotkeyKind = hotkeyToKind[lower];
       if (hotkeyKind) {
         event.preventDefault();
@@ -1532,6 +2025,9 @@ export function CircuitTool({ isActive }: ToolProps) {
     removeComponents,
     handleRemoveNode,
     addComponent,
+    collapseSelection,
+    undo,
+    redo,
     selectingNodeField,
     hoveredComponentId,
     selectedNode,
@@ -1539,15 +2035,15 @@ export function CircuitTool({ isActive }: ToolProps) {
     cancelWireDraft,
   ]);
 
-  const handleCanvasDropKind = (kind: CircuitKind, position?: NodePosition) => {
+  const handleCanvasDropKind = (kind: CircuitKind, position?: NodePosition, subcircuit?: string) => {
     const staged = stageComponentFromKind(newComponent, kind);
-    const placement: NewComponentState = { ...staged, from: "", to: "" };
+    const placement: NewComponentState = { ...staged, from: "", to: "", subcircuit: subcircuit ?? staged.subcircuit };
     addComponent(placement, position);
   };
 
-  const handleNodeDropKind = (kind: CircuitKind, nodeId: string) => {
+  const handleNodeDropKind = (kind: CircuitKind, nodeId: string, subcircuit?: string) => {
     const staged = stageComponentForNodeDrop(newComponent, kind, nodeId);
-    const placement: NewComponentState = { ...staged, to: "" };
+    const placement: NewComponentState = { ...staged, to: "", subcircuit: subcircuit ?? staged.subcircuit };
     const anchor = nodePositions[nodeId];
     addComponent(placement, anchor);
     setSelectedNode(nodeId);
@@ -1558,6 +2054,7 @@ export function CircuitTool({ isActive }: ToolProps) {
   }, []);
 
   const handleNodeDropComponentInstance = (componentId: string, nodeId: string) => {
+    describeCommand({ kind: "retarget", label: `Connect ${componentId} to ${nodeId}` });
     setComponents(prev =>
       prev.map(component => {
         if (component.id !== componentId) {
@@ -1604,6 +2101,86 @@ export function CircuitTool({ isActive }: ToolProps) {
               ))}
             </DropdownMenuContent>
           </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                Schematic
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => schematicInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                Open schematic (.json)
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={exportSchematic}>
+                <Download className="mr-2 h-4 w-4" />
+                Save schematic (.json)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={schematicInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void importSchematic(file);
+              }
+            }}
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                Netlist
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => netlistInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import SPICE (.cir)
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={exportNetlist}>
+                <Download className="mr-2 h-4 w-4" />
+                Export SPICE (.cir)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={netlistInputRef}
+            type="file"
+            accept=".cir,.net,.sp,.spice,.txt"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void importNetlist(file);
+              }
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={undo}
+            disabled={history.past.length === 0}
+            title={history.past.length ? `Undo ${history.past[history.past.length - 1].label}` : "Nothing to undo"}
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={redo}
+            disabled={history.future.length === 0}
+            title={history.future.length ? `Redo ${history.future[0].label}` : "Nothing to redo"}
+          >
+            <Redo2 className="mr-2 h-4 w-4" />
+            Redo
+          </Button>
           <Button variant="outline" size="sm" onClick={clearSelection}>
             <Eraser className="mr-2 h-4 w-4" />
             Clear selection
@@ -1612,6 +2189,15 @@ export function CircuitTool({ isActive }: ToolProps) {
             <Target className="mr-2 h-4 w-4" />
             Zoom selection
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={collapseSelection}
+            disabled={selectedComponentIds.size === 0 && !selectedComponentId}
+          >
+            <Boxes className="mr-2 h-4 w-4" />
+            Make subcircuit
+          </Button>
           <Button variant="outline" size="sm" onClick={handleZoomToFit}>
             <Scan className="mr-2 h-4 w-4" />
             Frame all
@@ -1628,6 +2214,9 @@ export function CircuitTool({ isActive }: ToolProps) {
             <ComponentPalette
               selectedKind={newComponent.kind}
               onSelect={handleComponentKindSelect}
+              subcircuits={subcircuits}
+              selectedSubcircuit={newComponent.subcircuit}
+              onSelectSubcircuit={handleSubcircuitSelect}
             />
             <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-700">
               <div className="flex items-center justify-between gap-3">
@@ -1729,19 +2318,26 @@ export function CircuitTool({ isActive }: ToolProps) {
                       <Select
                         value={newComponent.waveform}
                         onValueChange={value =>
-                          setNewComponent(prev => ({ ...prev, waveform: value as "dc" | "ac" }))
+                          setNewComponent(prev => ({ ...prev, waveform: value as CircuitWaveform }))
                         }
                       >
                         <SelectTrigger className="w-full">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="dc">DC</SelectItem>
-                          <SelectItem value="ac">AC</SelectItem>
+                          {(Object.keys(WAVEFORM_LABELS) as CircuitWaveform[]).map(option => (
+                            <SelectItem key={option} value={option}>
+                              {WAVEFORM_LABELS[option]}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
-                    {newComponent.waveform === "dc" ? (
+                    {newComponent.waveform !== "dc" && newComponent.waveform !== "ac" ? (
+                      <p className="text-xs text-muted-foreground">
+                        {WAVEFORM_LABELS[newComponent.waveform]} parameters are edited in the inspector after placement.
+                      </p>
+                    ) : newComponent.waveform === "dc" ? (
                       <div className="flex items-center gap-2">
                         <Label className="w-24">
                           {newComponent.kind === "current-source" ? "Current (A)" : "Voltage (V)"}
@@ -1818,6 +2414,16 @@ export function CircuitTool({ isActive }: ToolProps) {
                       </>
                     )}
                   </>
+                ) : isNonlinearKind(newComponent.kind) || newComponent.kind === "opamp" ? (
+                  <p className="text-xs text-muted-foreground">
+                    Model parameters and control terminals are edited in the inspector after placement.
+                  </p>
+                ) : newComponent.kind === "subcircuit" ? (
+                  <p className="text-xs text-muted-foreground">
+                    {subcircuits.find(definition => definition.id === newComponent.subcircuit)?.name ??
+                      "Pick a subcircuit from the library"}
+                    : extra ports and parameter overrides are edited in the inspector after placement.
+                  </p>
                 ) : (
                   <div className="flex items-center gap-2">
                     <Label className="w-24">Value</Label>
@@ -1933,6 +2539,7 @@ export function CircuitTool({ isActive }: ToolProps) {
               onViewportZoom={updateViewportZoom}
               hoveredNodeId={hoveredNodeId}
               onNodePositionChange={handleNodePositionChange}
+              onNodeDragEnd={endGesture}
               onNodeSelect={handleNodeSelect}
               onNodeHover={handleNodeHover}
               onNodeFocus={nodeId => {
@@ -2104,7 +2711,7 @@ export function CircuitTool({ isActive }: ToolProps) {
                   onChange={e =>
                     setSimConfig(prev => ({
                       ...prev,
-                      dt: Math.max(parseFloat(e.target.value) || DEFAULT_SIM.dt, 1e-6),
+                      dt: Math.max(parseFloat(e.target.value) || DEFAULT_SIM_CONFIG.dt, 1e-6),
                     }))
                   }
                 />
@@ -2118,7 +2725,7 @@ export function CircuitTool({ isActive }: ToolProps) {
                   onChange={e =>
                     setSimConfig(prev => ({
                       ...prev,
-                      duration: Math.max(parseFloat(e.target.value) || DEFAULT_SIM.duration, prev.dt),
+                      duration: Math.max(parseFloat(e.target.value) || DEFAULT_SIM_CONFIG.duration, prev.dt),
                     }))
                   }
                 />
@@ -2245,11 +2852,26 @@ export function CircuitTool({ isActive }: ToolProps) {
               <ComponentInspector
                 component={selectedComponent}
                 nodes={allNodes}
-                onUpdate={updater =>
+                branchIds={branchIds}
+                functionNames={waveformFunctions}
+                subcircuit={
+                  selectedComponent.kind === "subcircuit"
+                    ? subcircuits.find(definition => definition.id === selectedComponent.definition)
+                    : null
+                }
+                onRenameSubcircuit={name =>
+                  selectedComponent.kind === "subcircuit" && renameSubcircuit(selectedComponent.definition, name)
+                }
+                onUpdate={updater => {
+                  describeCommand({
+                    kind: "edit",
+                    label: `Edit ${selectedComponent.id}`,
+                    coalesceKey: `edit:${selectedComponent.id}`,
+                  });
                   setComponents(prev =>
                     prev.map(comp => (comp.id === selectedComponent.id ? updater(comp) : comp))
-                  )
-                }
+                  );
+                }}
                 onRemove={() => removeComponent(selectedComponent.id)}
               />
             ) : (
@@ -2376,6 +2998,39 @@ export function CircuitTool({ isActive }: ToolProps) {
               <DifferentialEquationList equations={differentialEquations} />
             </div>
           </Card>
+          <Card className="space-y-3 p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Frequency Response</h3>
+              <span className="text-xs text-slate-600">
+                {acResult ? `${acResult.frequencies.length} points` : "AC sources drive the sweep"}
+              </span>
+            </div>
+            <BodePlotPanel
+              node={selectedNode && acResult?.nodeMagnitudes[selectedNode] ? selectedNode : nodeList[0] ?? null}
+              config={acConfig}
+              result={acResult}
+              onConfigChange={setAcConfig}
+              onRun={runAcAnalysis}
+              onExport={exportFrequencyResponse}
+            />
+          </Card>
+          <Card className="space-y-3 p-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">DC Analysis</h3>
+              <span className="text-xs text-slate-600">
+                {dcSweepResult ? `${dcSweepResult.values.length} points` : "Operating point and source sweep"}
+              </span>
+            </div>
+            <DcAnalysisPanel
+              sources={dcSources}
+              config={{ ...dcSweepConfig, sourceId: dcSweepSource }}
+              operatingPoint={operatingPoint}
+              sweep={dcSweepResult}
+              onConfigChange={setDcSweepConfig}
+              onSolveOperatingPoint={runOperatingPoint}
+              onRunSweep={runDcSweep}
+            />
+          </Card>
           <Card className="flex-1 border border-slate-200 bg-white p-4 shadow-sm">
             {selectedNode ? (
               <NodeDetailPanel
@@ -2383,6 +3038,8 @@ export function CircuitTool({ isActive }: ToolProps) {
                 result={result}
                 playhead={playhead}
                 symbolic={symbolicResult.nodeVoltages[selectedNode]}
+                operatingPoint={operatingPoint}
+                dcSweep={dcSweepResult}
                 onExportNumeric={exportExpression}
                 onExportSymbolic={(expression) => {
                   window.dispatchEvent(
@@ -2405,6 +3062,7 @@ export function CircuitTool({ isActive }: ToolProps) {
         </div>
       </div>
     </div>
+    </div>
     <CircuitStatusBar
       mode={activeTool}
       gridSize={SNAP_GRID_SIZE}
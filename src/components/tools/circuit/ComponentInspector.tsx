@@ -12,15 +12,112 @@ import {
 import {
   COMPONENT_LOOKUP,
   DEFAULT_NEW_COMPONENT,
-  CircuitComponent,
   componentGlyph as getComponentGlyph,
 } from "@/lib/circuits/editorModel";
+import {
+  DEFAULT_BJT_MODEL,
+  DEFAULT_DIODE_MODEL,
+  DEFAULT_MOSFET_MODEL,
+} from "@/lib/circuits/devices";
+import { CircuitComponent, CircuitWaveform, isControlledSourceKind } from "@/lib/circuits/simulator";
+import { SourceComponent, WAVEFORM_LABELS, defaultWaveformParams } from "@/lib/circuits/waveforms";
+import type { SubcircuitDefinition } from "@/lib/circuits/subcircuits";
 import { cn } from "@/lib/utils";
+import { SourceWaveformFields } from "./SourceWaveformFields";
 import { componentValueLabel } from "./utils";
 
+interface ModelField {
+  field: string;
+  label: string;
+  fallback: number;
+  positive: boolean;
+}
+
+const DIODE_FIELDS: ModelField[] = [
+  { field: "saturationCurrent", label: "Is (A)", fallback: DEFAULT_DIODE_MODEL.saturationCurrent, positive: true },
+  { field: "emissionCoefficient", label: "n", fallback: DEFAULT_DIODE_MODEL.emissionCoefficient, positive: true },
+];
+
+const BJT_FIELDS: ModelField[] = [
+  { field: "saturationCurrent", label: "Is (A)", fallback: DEFAULT_BJT_MODEL.saturationCurrent, positive: true },
+  { field: "betaF", label: "βF", fallback: DEFAULT_BJT_MODEL.betaF, positive: true },
+  { field: "betaR", label: "βR", fallback: DEFAULT_BJT_MODEL.betaR, positive: true },
+];
+
+const MOSFET_FIELDS: ModelField[] = [
+  { field: "threshold", label: "Vth (V)", fallback: DEFAULT_MOSFET_MODEL.threshold, positive: false },
+  { field: "transconductance", label: "k (A/V²)", fallback: DEFAULT_MOSFET_MODEL.transconductance, positive: true },
+  { field: "lambda", label: "λ (1/V)", fallback: DEFAULT_MOSFET_MODEL.lambda, positive: false },
+];
+
+const modelFieldsFor = (kind: CircuitComponent["kind"]): ModelField[] => {
+  switch (kind) {
+    case "diode":
+      return DIODE_FIELDS;
+    case "npn":
+    case "pnp":
+      return BJT_FIELDS;
+    case "nmos":
+    case "pmos":
+      return MOSFET_FIELDS;
+    default:
+      return [];
+  }
+};
+
+const TERMINAL_HINTS: Partial<Record<CircuitComponent["kind"], string>> = {
+  diode: "From is the anode, to is the cathode.",
+  npn: "From is the collector, to is the emitter.",
+  pnp: "From is the collector, to is the emitter.",
+  nmos: "From is the drain, to is the source (body tied to source).",
+  pmos: "From is the drain, to is the source (body tied to source).",
+  vcvs: "Drives V(from) − V(to) = gain · (V(sense +) − V(sense −)).",
+  vccs: "Injects gm · (V(sense +) − V(sense −)) into from.",
+  ccvs: "Drives V(from) − V(to) = r · I(sensed element).",
+  cccs: "Injects gain · I(sensed element) into from.",
+  opamp: "From is the output, to is the output reference; feedback must hold the inputs equal.",
+};
+
+type ControlField = "base" | "gate" | "controlPos" | "controlNeg";
+
+const controlFieldsFor = (kind: CircuitComponent["kind"]): Array<{ field: ControlField; label: string }> => {
+  switch (kind) {
+    case "npn":
+    case "pnp":
+      return [{ field: "base", label: "Base" }];
+    case "nmos":
+    case "pmos":
+      return [{ field: "gate", label: "Gate" }];
+    case "vcvs":
+    case "vccs":
+      return [
+        { field: "controlPos", label: "Sense +" },
+        { field: "controlNeg", label: "Sense −" },
+      ];
+    case "opamp":
+      return [
+        { field: "controlPos", label: "In +" },
+        { field: "controlNeg", label: "In −" },
+      ];
+    default:
+      return [];
+  }
+};
+
+const CONTROLLED_VALUE_LABELS: Partial<Record<CircuitComponent["kind"], string>> = {
+  vcvs: "Gain (V/V)",
+  vccs: "gm (A/V)",
+  ccvs: "r (ohms)",
+  cccs: "Gain (A/A)",
+};
+
 export interface ComponentInspectorProps {
   component: CircuitComponent;
   nodes: string[];
+  branchIds: string[]; // elements a current-controlled source can sense
+  functionNames: string[]; // expression-list functions that can drive a source
+  subcircuit?: SubcircuitDefinition | null; // definition of a selected subcircuit instance
+  onRenameSubcircuit?: (name: string) => void;
   onUpdate: (updater: (component: CircuitComponent) => CircuitComponent) => void;
   onRemove: () => void;
 }
@@ -28,6 +125,10 @@ export interface ComponentInspectorProps {
 export const ComponentInspector = ({
   component,
   nodes,
+  branchIds,
+  functionNames,
+  subcircuit,
+  onRenameSubcircuit,
   onUpdate,
   onRemove,
 }: ComponentInspectorProps) => {
@@ -37,6 +138,10 @@ export const ComponentInspector = ({
   const isPassive =
     component.kind === "resistor" || component.kind === "capacitor" || component.kind === "inductor";
   const isGround = component.kind === "ground";
+  const modelFields = modelFieldsFor(component.kind);
+  const controlFields = controlFieldsFor(component.kind);
+  const controlledValueLabel = CONTROLLED_VALUE_LABELS[component.kind];
+  const sensedSource = "controlSource" in component ? component.controlSource : null;
   const displayValue = componentValueLabel(component);
   const valueUnit =
     component.kind === "resistor"
@@ -55,6 +160,43 @@ export const ComponentInspector = ({
     onUpdate(prev => ({ ...prev, [field]: value } as CircuitComponent));
   };
 
+  const handleControlNodeChange = (field: ControlField, value: string) => {
+    onUpdate(prev => ({ ...prev, [field]: value } as CircuitComponent));
+  };
+
+  const handleSensedSourceChange = (value: string) => {
+    onUpdate(prev => ({ ...prev, controlSource: value } as CircuitComponent));
+  };
+
+  const handleModelField = (entry: ModelField, value: number) => {
+    let sanitized = Number.isFinite(value) ? value : entry.fallback;
+    if (entry.positive) {
+      sanitized = Math.abs(sanitized) || entry.fallback;
+    }
+    onUpdate(prev => ({ ...prev, [entry.field]: sanitized } as CircuitComponent));
+  };
+
+  const handleExtraPortChange = (index: number, value: string) => {
+    onUpdate(prev =>
+      prev.kind === "subcircuit"
+        ? { ...prev, extraPorts: prev.extraPorts.map((node, position) => (position === index ? value : node)) }
+        : prev
+    );
+  };
+
+  const handleParameterOverride = (name: string, value: number | null) => {
+    onUpdate(prev => {
+      if (prev.kind !== "subcircuit") return prev;
+      const params = { ...(prev.params ?? {}) };
+      if (value === null) {
+        delete params[name];
+      } else {
+        params[name] = value;
+      }
+      return { ...prev, params };
+    });
+  };
+
   const handleSwap = () => {
     onUpdate(prev => ({ ...prev, from: prev.to, to: prev.from } as CircuitComponent));
   };
@@ -67,24 +209,35 @@ export const ComponentInspector = ({
       if (prev.kind === "voltage-source" || prev.kind === "current-source") {
         return { ...prev, value: Math.max(Math.abs(value) || DEFAULT_NEW_COMPONENT.value, 1e-9) } as typeof prev;
       }
+      if (isControlledSourceKind(prev.kind) && prev.kind !== "opamp") {
+        // Negative gains are allowed (inverting stages)
+        return { ...prev, value: Number.isFinite(value) ? value : 0 } as typeof prev;
+      }
       return prev;
     });
   };
 
-  const handleWaveformChange = (waveform: "dc" | "ac") => {
+  const handleWaveformChange = (waveform: CircuitWaveform) => {
     onUpdate(prev => {
       if (prev.kind === "voltage-source" || prev.kind === "current-source") {
         const next = { ...prev, waveform } as typeof prev;
-        if (waveform === "dc") {
-          next.amplitude = undefined;
-          next.frequency = undefined;
-          next.phase = undefined;
-          next.offset = undefined;
-        } else {
+        if (waveform === "ac") {
           next.amplitude = prev.amplitude ?? prev.value;
           next.frequency = prev.frequency ?? DEFAULT_NEW_COMPONENT.frequency;
           next.phase = prev.phase ?? DEFAULT_NEW_COMPONENT.phase;
           next.offset = prev.offset ?? 0;
+        } else {
+          next.amplitude = undefined;
+          next.frequency = undefined;
+          next.phase = undefined;
+          next.offset = undefined;
+        }
+        // Parameters edited earlier are kept, so toggling back restores them
+        if ((waveform === "pulse" || waveform === "pwl" || waveform === "exp") && !prev[waveform]) {
+          Object.assign(next, defaultWaveformParams(waveform, prev.value));
+        }
+        if (waveform === "expression") {
+          next.expression = prev.expression || functionNames[0] || "";
         }
         return next;
       }
@@ -92,6 +245,12 @@ export const ComponentInspector = ({
     });
   };
 
+  const handleWaveformFields = (patch: Partial<SourceComponent>) => {
+    onUpdate(prev =>
+      prev.kind === "voltage-source" || prev.kind === "current-source" ? ({ ...prev, ...patch } as typeof prev) : prev
+    );
+  };
+
   const handleSourceField = (field: "amplitude" | "frequency" | "phase" | "offset", value: number) => {
     onUpdate(prev => {
       if (prev.kind === "voltage-source" || prev.kind === "current-source") {
@@ -112,7 +271,7 @@ export const ComponentInspector = ({
   };
 
   const waveform = isSource ? component.waveform : undefined;
-  const amplitude = isSource && component.waveform === "ac" ? component.amplitude ?? component.value : component.value;
+  const amplitude = isSource && component.waveform === "ac" ? component.amplitude ?? component.value : undefined;
   const frequency = isSource && component.waveform === "ac" ? component.frequency ?? DEFAULT_NEW_COMPONENT.frequency : undefined;
   const phase = isSource && component.waveform === "ac" ? component.phase ?? DEFAULT_NEW_COMPONENT.phase : undefined;
   const offset = isSource && component.waveform === "ac" ? component.offset ?? 0 : undefined;
@@ -169,21 +328,160 @@ export const ComponentInspector = ({
           Ground enforces {component.from || "(unset)"} at 0 V.
         </p>
       )}
+      {TERMINAL_HINTS[component.kind] && (
+        <p className="text-[11px] text-muted-foreground">{TERMINAL_HINTS[component.kind]}</p>
+      )}
+      {component.kind === "subcircuit" &&
+        (subcircuit ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label className="w-12">Name</Label>
+              <Input value={subcircuit.name} onChange={event => onRenameSubcircuit?.(event.target.value)} />
+            </div>
+            <p className="text-[11px] text-muted-foreground">
+              From is port {subcircuit.ports[0]}, to is port {subcircuit.ports[1]}. Renaming updates every instance.
+            </p>
+            {subcircuit.ports.slice(2).map((port, index) => (
+              <div key={port} className="flex items-center gap-2">
+                <Label className="w-12 font-mono">{port}</Label>
+                <Select
+                  value={component.extraPorts[index]}
+                  onValueChange={value => handleExtraPortChange(index, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {nodes.map(node => (
+                      <SelectItem key={node} value={node}>
+                        {node}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            {subcircuit.parameters.length > 0 && (
+              <div className="grid gap-2 md:grid-cols-2">
+                {subcircuit.parameters.map(parameter => {
+                  const override = component.params?.[parameter.name];
+                  const overridden = Number.isFinite(override);
+                  return (
+                    <div key={parameter.name} className="flex items-center gap-2">
+                      <Label className={cn("w-12 font-mono", overridden && "text-primary")}>{parameter.name}</Label>
+                      <Input
+                        type="number"
+                        value={overridden ? override : parameter.defaultValue}
+                        onChange={event => {
+                          const parsed = parseFloat(event.target.value);
+                          if (Number.isFinite(parsed)) handleParameterOverride(parameter.name, parsed);
+                        }}
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={!overridden}
+                        onClick={() => handleParameterOverride(parameter.name, null)}
+                      >
+                        Reset
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-[11px] text-destructive">
+            Definition {component.definition} is missing; this instance cannot be simulated.
+          </p>
+        ))}
+      {controlFields.length > 0 && (
+        <div className="grid gap-2 md:grid-cols-2">
+          {controlFields.map(entry => (
+            <div key={entry.field} className="flex items-center gap-2">
+              <Label className="w-12">{entry.label}</Label>
+              <Select
+                value={(component as Record<string, unknown>)[entry.field] as string}
+                onValueChange={value => handleControlNodeChange(entry.field, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {nodes.map(node => (
+                    <SelectItem key={node} value={node}>
+                      {node}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+      {sensedSource !== null && (
+        <div className="flex items-center gap-2">
+          <Label className="w-12">Senses</Label>
+          <Select value={sensedSource || undefined} onValueChange={handleSensedSourceChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pick a branch" />
+            </SelectTrigger>
+            <SelectContent>
+              {branchIds
+                .filter(id => id !== component.id)
+                .map(id => (
+                  <SelectItem key={id} value={id}>
+                    I({id})
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {modelFields.length > 0 && (
+        <div className="grid gap-2 md:grid-cols-2">
+          {modelFields.map(entry => {
+            const current = (component as Record<string, unknown>)[entry.field];
+            const value = typeof current === "number" ? current : entry.fallback;
+            return (
+              <div key={entry.field} className="flex items-center gap-2">
+                <Label className="w-20">{entry.label}</Label>
+                <Input
+                  type="number"
+                  value={value}
+                  onChange={e => handleModelField(entry, parseFloat(e.target.value))}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
       {isSource ? (
         <div className="space-y-2">
           <div className="flex items-center gap-2">
             <Label className="w-20">Waveform</Label>
-            <Select value={waveform} onValueChange={value => handleWaveformChange(value as "dc" | "ac")}>
+            <Select value={waveform} onValueChange={value => handleWaveformChange(value as CircuitWaveform)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="dc">DC</SelectItem>
-                <SelectItem value="ac">AC</SelectItem>
+                {(Object.keys(WAVEFORM_LABELS) as CircuitWaveform[]).map(option => (
+                  <SelectItem key={option} value={option}>
+                    {WAVEFORM_LABELS[option]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
-          {component.waveform === "dc" ? (
+          {component.waveform !== "dc" && component.waveform !== "ac" ? (
+            <SourceWaveformFields
+              source={component}
+              unit={valueUnit}
+              functionNames={functionNames}
+              onChange={handleWaveformFields}
+            />
+          ) : component.waveform === "dc" ? (
             <div className="flex items-center gap-2">
               <Label className="w-20">
                 {component.kind === "current-source" ? "Current" : "Voltage"} ({valueUnit})
@@ -242,6 +540,15 @@ export const ComponentInspector = ({
             onChange={e => handleValueChange(parseFloat(e.target.value) || component.value)}
           />
         </div>
+      ) : controlledValueLabel && "value" in component ? (
+        <div className="flex items-center gap-2">
+          <Label className="w-20">{controlledValueLabel}</Label>
+          <Input
+            type="number"
+            value={component.value}
+            onChange={e => handleValueChange(parseFloat(e.target.value))}
+          />
+        </div>
       ) : null}
       <div className="flex flex-wrap items-center gap-2">
         <Button size="sm" variant="outline" onClick={handleSwap}>
@@ -7,13 +7,17 @@ import {
   componentGlyph as getComponentGlyph,
   hotkeyToKind,
 } from "@/lib/circuits/editorModel";
+import type { SubcircuitDefinition } from "@/lib/circuits/subcircuits";
 import { cn } from "@/lib/utils";
-import { DRAG_DATA_KIND } from "./constants";
+import { DRAG_DATA_KIND, DRAG_DATA_SUBCIRCUIT } from "./constants";
 import { renderComponentSymbol } from "./utils";
 
 export interface ComponentPaletteProps {
   selectedKind: CircuitKind;
   onSelect: (kind: CircuitKind) => void;
+  subcircuits?: SubcircuitDefinition[];
+  selectedSubcircuit?: string | null;
+  onSelectSubcircuit?: (definitionId: string) => void;
 }
 
 const HOTKEY_BY_KIND: Partial<Record<CircuitKind, string>> = Object.entries(hotkeyToKind).reduce(
@@ -24,7 +28,13 @@ const HOTKEY_BY_KIND: Partial<Record<CircuitKind, string>> = Object.entries(hotk
   {} as Partial<Record<CircuitKind, string>>
 );
 
-export const ComponentPalette = ({ selectedKind, onSelect }: ComponentPaletteProps) => {
+export const ComponentPalette = ({
+  selectedKind,
+  onSelect,
+  subcircuits = [],
+  selectedSubcircuit,
+  onSelectSubcircuit,
+}: ComponentPaletteProps) => {
   const [query, setQuery] = useState("");
   const filtered = useMemo(() => {
     const normalized = query.trim().toLowerCase();
@@ -37,6 +47,14 @@ export const ComponentPalette = ({ selectedKind, onSelect }: ComponentPalettePro
       );
     });
   }, [query]);
+  const filteredSubcircuits = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return subcircuits;
+    return subcircuits.filter(
+      definition =>
+        definition.name.toLowerCase().includes(normalized) || definition.id.toLowerCase().includes(normalized)
+    );
+  }, [query, subcircuits]);
 
   return (
     <div className="flex h-full flex-col gap-3">
@@ -96,7 +114,48 @@ export const ComponentPalette = ({ selectedKind, onSelect }: ComponentPalettePro
             </button>
           );
         })}
-        {filtered.length === 0 && (
+        {filteredSubcircuits.length > 0 && (
+          <h4 className="pt-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Subcircuits</h4>
+        )}
+        {filteredSubcircuits.map(definition => {
+          const isActive = selectedKind === "subcircuit" && definition.id === selectedSubcircuit;
+          return (
+            <button
+              key={`subcircuit-${definition.id}`}
+              type="button"
+              onClick={() => onSelectSubcircuit?.(definition.id)}
+              aria-pressed={isActive}
+              draggable
+              onDragStart={event => {
+                event.dataTransfer.setData(DRAG_DATA_KIND, "subcircuit");
+                event.dataTransfer.setData(DRAG_DATA_SUBCIRCUIT, definition.id);
+                event.dataTransfer.setData("text/plain", definition.id);
+                event.dataTransfer.effectAllowed = "copy";
+              }}
+              className={cn(
+                "group flex items-center justify-between gap-3 rounded-lg border border-slate-300 bg-white px-3 py-2 text-left shadow-sm transition",
+                "hover:border-slate-400 hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-300",
+                isActive && "border-slate-800 bg-slate-100"
+              )}
+            >
+              <div className="flex flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="font-mono text-[11px]">
+                    {getComponentGlyph("subcircuit")}
+                  </Badge>
+                  <span className="text-sm font-semibold">{definition.name}</span>
+                </div>
+                <p className="text-[11px] leading-snug text-muted-foreground">
+                  Ports {definition.ports.join(", ")} · {definition.components.length} components
+                </p>
+              </div>
+              <div className="hidden w-28 shrink-0 sm:block">
+                <ComponentPreview kind="subcircuit" />
+              </div>
+            </button>
+          );
+        })}
+        {filtered.length === 0 && filteredSubcircuits.length === 0 && (
           <p className="rounded border border-dashed border-slate-300 bg-white px-3 py-2 text-xs text-muted-foreground">
             No components match “{query}”.
           </p>
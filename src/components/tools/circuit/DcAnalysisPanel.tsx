@@ -0,0 +1,121 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CircuitComponent } from "@/lib/circuits/simulator";
+import type { DCSweepConfig, DCSweepResult, OperatingPoint } from "@/lib/circuits/dcAnalysis";
+import { CANONICAL_GROUND } from "@/lib/circuits/editorModel";
+
+interface SweepValueFieldProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+const SweepValueField = ({ label, value, onCommit }: SweepValueFieldProps) => (
+  <div className="flex items-center gap-2">
+    <Label className="w-24 text-xs">{label}</Label>
+    <Input
+      type="number"
+      value={value}
+      onChange={event => {
+        const parsed = parseFloat(event.target.value);
+        if (Number.isFinite(parsed)) {
+          onCommit(parsed);
+        }
+      }}
+    />
+  </div>
+);
+
+export interface DcAnalysisPanelProps {
+  sources: CircuitComponent[];
+  config: DCSweepConfig;
+  operatingPoint: OperatingPoint | null;
+  sweep: DCSweepResult | null;
+  onConfigChange: (config: DCSweepConfig) => void;
+  onSolveOperatingPoint: () => void;
+  onRunSweep: () => void;
+}
+
+export const DcAnalysisPanel = ({
+  sources,
+  config,
+  operatingPoint,
+  sweep,
+  onConfigChange,
+  onSolveOperatingPoint,
+  onRunSweep,
+}: DcAnalysisPanelProps) => {
+  const unit = sources.find(source => source.id === config.sourceId)?.kind === "current-source" ? "A" : "V";
+  const biasRows = operatingPoint
+    ? Object.entries(operatingPoint.nodeVoltages).filter(([node]) => node !== CANONICAL_GROUND)
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={onSolveOperatingPoint}>
+          Solve .op
+        </Button>
+        {operatingPoint ? (
+          <span className="text-xs text-slate-600">{operatingPoint.iterations} Newton iterations</span>
+        ) : null}
+      </div>
+      {biasRows.length > 0 ? (
+        <ul className="space-y-1 rounded border px-3 py-2">
+          {biasRows.map(([node, voltage]) => (
+            <li key={node} className="flex justify-between font-mono text-[11px]">
+              <span>{node}</span>
+              <span>{voltage.toFixed(4)} V</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <div className="grid gap-2">
+        <div className="flex items-center gap-2">
+          <Label className="w-24 text-xs">Source</Label>
+          <Select
+            value={config.sourceId || undefined}
+            onValueChange={sourceId => onConfigChange({ ...config, sourceId })}
+            disabled={sources.length === 0}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="No sources" />
+            </SelectTrigger>
+            <SelectContent>
+              {sources.map(source => (
+                <SelectItem key={source.id} value={source.id}>
+                  {source.id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <SweepValueField
+          label={`Start (${unit})`}
+          value={config.start}
+          onCommit={start => onConfigChange({ ...config, start })}
+        />
+        <SweepValueField
+          label={`Stop (${unit})`}
+          value={config.stop}
+          onCommit={stop => onConfigChange({ ...config, stop })}
+        />
+        <SweepValueField
+          label={`Step (${unit})`}
+          value={config.step}
+          onCommit={step => onConfigChange({ ...config, step })}
+        />
+      </div>
+      <Button size="sm" variant="secondary" onClick={onRunSweep} disabled={!config.sourceId}>
+        Run DC sweep
+      </Button>
+      <p className="text-xs text-slate-600">
+        {sweep
+          ? `Swept ${sweep.sourceId} over ${sweep.values.length} points; select a node to view its transfer curve.`
+          : "Capacitors are treated as open circuits and inductors as shorts."}
+      </p>
+    </div>
+  );
+};
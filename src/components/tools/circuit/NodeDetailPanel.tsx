@@ -9,6 +9,7 @@ import {
 import { Copy, Upload } from "lucide-react";
 import type { CircuitComponent, SimulationResult } from "@/lib/circuits/simulator";
 import type { DifferentialEquation } from "@/lib/circuits/differentialEquations";
+import type { DCSweepResult, OperatingPoint } from "@/lib/circuits/dcAnalysis";
 import { CANONICAL_GROUND, sanitizeIdentifier } from "@/lib/circuits/editorModel";
 import { toast } from "@/components/ui/use-toast";
 
@@ -24,6 +25,8 @@ export interface NodeDetailProps {
     current: string;
     currentLatex: string;
   };
+  operatingPoint?: OperatingPoint | null;
+  dcSweep?: DCSweepResult | null;
   onExportNumeric: (node: string, kind: "voltage" | "current") => void;
   onExportSymbolic: (expression: string) => void;
 }
@@ -33,6 +36,8 @@ export const NodeDetailPanel = ({
   result,
   playhead,
   symbolic,
+  operatingPoint,
+  dcSweep,
   onExportNumeric,
   onExportSymbolic,
 }: NodeDetailProps) => {
@@ -45,6 +50,8 @@ export const NodeDetailPanel = ({
   const currentNow = currentSeries ? currentSeries[playhead] ?? 0 : 0;
   const currentPrev = currentSeries ? currentSeries[prevIndex] ?? 0 : 0;
   const timeNow = time ? time[playhead] ?? 0 : 0;
+  const biasVoltage = operatingPoint?.nodeVoltages[node];
+  const biasCurrent = operatingPoint?.nodeCurrents[node];
   const voltageSymbolic = symbolic
     ? `${sanitizeIdentifier(`V${node}`)}(s) = ${symbolic.voltage}`
     : null;
@@ -96,6 +103,21 @@ export const NodeDetailPanel = ({
         <MiniChart label="Voltage over time" time={time} values={voltageSeries} color="#111827" />
         <MiniChart label="Current over time" time={time} values={currentSeries} color="#1f2937" />
       </div>
+      {operatingPoint || dcSweep ? (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="rounded border p-3 text-xs">
+            <p className="text-muted-foreground mb-1 font-semibold">DC bias</p>
+            <p>V: {biasVoltage !== undefined ? biasVoltage.toFixed(6) : "n/a"} V</p>
+            <p>I: {biasCurrent !== undefined ? biasCurrent.toExponential(4) : "n/a"} A</p>
+          </div>
+          <MiniChart
+            label={dcSweep ? `V vs ${dcSweep.sourceId}` : "DC sweep"}
+            time={dcSweep?.values ?? null}
+            values={dcSweep?.nodeVoltages[node]}
+            color="#334155"
+          />
+        </div>
+      ) : null}
       <div className="flex min-h-[160px] flex-col rounded border bg-muted/20 p-3 text-xs">
         <div className="mb-2 flex items-center justify-between gap-2">
           <p className="font-semibold text-muted-foreground">Symbolic nodal analysis</p>
@@ -298,8 +320,8 @@ export const TipsList = ({ tips }: { tips: string[] }) => (
 
 interface MiniChartProps {
   label: string;
-  time: Float32Array | null;
-  values: Float32Array | undefined;
+  time: ArrayLike<number> | null;
+  values: ArrayLike<number> | undefined;
   color: string;
 }
 
@@ -0,0 +1,174 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ExpWaveform, PulseWaveform, PwlPoint } from "@/lib/circuits/simulator";
+import { DEFAULT_EXP, DEFAULT_PULSE, DEFAULT_PWL, SourceComponent } from "@/lib/circuits/waveforms";
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  nonNegative?: boolean;
+  onCommit: (value: number) => void;
+}
+
+const NumberField = ({ label, value, nonNegative, onCommit }: NumberFieldProps) => (
+  <div className="flex items-center gap-2">
+    <Label className="w-20">{label}</Label>
+    <Input
+      type="number"
+      value={value}
+      onChange={event => {
+        const parsed = parseFloat(event.target.value);
+        if (Number.isFinite(parsed)) {
+          onCommit(nonNegative ? Math.abs(parsed) : parsed);
+        }
+      }}
+    />
+  </div>
+);
+
+const PULSE_FIELDS: Array<{ field: keyof PulseWaveform; label: string; time: boolean }> = [
+  { field: "initial", label: "Initial", time: false },
+  { field: "pulsed", label: "Pulsed", time: false },
+  { field: "delay", label: "Delay (s)", time: true },
+  { field: "rise", label: "Rise (s)", time: true },
+  { field: "fall", label: "Fall (s)", time: true },
+  { field: "width", label: "Width (s)", time: true },
+  { field: "period", label: "Period (s)", time: true },
+];
+
+const EXP_FIELDS: Array<{ field: keyof ExpWaveform; label: string; time: boolean }> = [
+  { field: "initial", label: "Initial", time: false },
+  { field: "pulsed", label: "Pulsed", time: false },
+  { field: "riseDelay", label: "Rise delay (s)", time: true },
+  { field: "riseTau", label: "Rise τ (s)", time: true },
+  { field: "fallDelay", label: "Fall delay (s)", time: true },
+  { field: "fallTau", label: "Fall τ (s)", time: true },
+];
+
+export interface SourceWaveformFieldsProps {
+  source: SourceComponent;
+  unit: string;
+  functionNames: string[]; // one-argument functions from the expression list
+  onChange: (patch: Partial<Pick<SourceComponent, "pulse" | "pwl" | "exp" | "expression">>) => void;
+}
+
+/**
+ * Parameter editors for the time-varying source waveforms (pulse, PWL, exp
+ * and expression); DC and sine sources are edited inline by the inspector.
+ */
+export const SourceWaveformFields = ({ source, unit, functionNames, onChange }: SourceWaveformFieldsProps) => {
+  if (source.waveform === "pulse") {
+    const pulse = source.pulse ?? DEFAULT_PULSE;
+    return (
+      <div className="grid gap-2 md:grid-cols-2">
+        {PULSE_FIELDS.map(entry => (
+          <NumberField
+            key={entry.field}
+            label={entry.time ? entry.label : `${entry.label} (${unit})`}
+            value={pulse[entry.field]}
+            nonNegative={entry.time}
+            onCommit={value => onChange({ pulse: { ...pulse, [entry.field]: value } })}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (source.waveform === "exp") {
+    const exp = source.exp ?? DEFAULT_EXP;
+    return (
+      <div className="grid gap-2 md:grid-cols-2">
+        {EXP_FIELDS.map(entry => (
+          <NumberField
+            key={entry.field}
+            label={entry.time ? entry.label : `${entry.label} (${unit})`}
+            value={exp[entry.field]}
+            nonNegative={entry.time}
+            onCommit={value => onChange({ exp: { ...exp, [entry.field]: value } })}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (source.waveform === "pwl") {
+    const points = source.pwl ?? DEFAULT_PWL;
+    const updatePoint = (index: number, patch: Partial<PwlPoint>) =>
+      onChange({ pwl: points.map((point, position) => (position === index ? { ...point, ...patch } : point)) });
+    const last = points[points.length - 1];
+    return (
+      <div className="space-y-2">
+        {points.map((point, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              type="number"
+              aria-label={`Point ${index + 1} time (s)`}
+              value={point.time}
+              onChange={event => {
+                const parsed = parseFloat(event.target.value);
+                if (Number.isFinite(parsed)) updatePoint(index, { time: Math.max(0, parsed) });
+              }}
+            />
+            <Input
+              type="number"
+              aria-label={`Point ${index + 1} value (${unit})`}
+              value={point.value}
+              onChange={event => {
+                const parsed = parseFloat(event.target.value);
+                if (Number.isFinite(parsed)) updatePoint(index, { value: parsed });
+              }}
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={points.length <= 1}
+              onClick={() => onChange({ pwl: points.filter((_, position) => position !== index) })}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <span className="text-[11px] text-muted-foreground">Time (s) → value ({unit}); held after the last point.</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              onChange({ pwl: [...points, { time: (last?.time ?? 0) + 1e-3, value: last?.value ?? 0 }] })
+            }
+          >
+            Add point
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (source.waveform === "expression") {
+    return functionNames.length > 0 ? (
+      <div className="flex items-center gap-2">
+        <Label className="w-20">f(t)</Label>
+        <Select value={source.expression || undefined} onValueChange={expression => onChange({ expression })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Pick a function" />
+          </SelectTrigger>
+          <SelectContent>
+            {functionNames.map(name => (
+              <SelectItem key={name} value={name}>
+                {name}(t)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    ) : (
+      <p className="text-[11px] text-muted-foreground">
+        Define a one-argument function such as f(t) = 5 sin(100πt) in the expression list to drive this source.
+      </p>
+    );
+  }
+
+  return null;
+};
@@ -1,2 +1,3 @@
 export const DRAG_DATA_KIND = "application/x-circuit-kind";
 export const DRAG_DATA_COMPONENT = "application/x-circuit-component";
+export const DRAG_DATA_SUBCIRCUIT = "application/x-circuit-subcircuit";
@@ -1,5 +1,7 @@
 import type { JSX } from "react";
 import type { CircuitComponent } from "@/lib/circuits/simulator";
+import { DEFAULT_BJT_MODEL, DEFAULT_DIODE_MODEL, DEFAULT_MOSFET_MODEL } from "@/lib/circuits/devices";
+import { DEFAULT_EXP, DEFAULT_PULSE, DEFAULT_PWL, SourceComponent } from "@/lib/circuits/waveforms";
 import {
   COMPONENT_COLORS,
   CircuitKind,
@@ -332,6 +334,337 @@ export function renderComponentSymbol(
     );
   }
 
+  if (kind === "diode") {
+    const height = 12;
+    const { start, end } = computeSymbolLayout(length);
+    return (
+      <>
+        <line
+          x1={0}
+          y1={0}
+          x2={start}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <polygon
+          points={`${start},${-height} ${start},${height} ${end},0`}
+          fill={color}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+        />
+        <line
+          x1={end}
+          y1={-height}
+          x2={end}
+          y2={height}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <line
+          x1={end}
+          y1={0}
+          x2={length}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+      </>
+    );
+  }
+
+  // Transistors: collector/drain at x=0, emitter/source at x=length, control terminal toward -y
+  if (kind === "npn" || kind === "pnp" || kind === "nmos" || kind === "pmos") {
+    const center = length / 2;
+    const radius = Math.min(20, Math.max(14, length / 5));
+    const leads = (
+      <>
+        <line
+          x1={0}
+          y1={0}
+          x2={center - radius}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <line
+          x1={center + radius}
+          y1={0}
+          x2={length}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <circle cx={center} cy={0} r={radius} fill="none" stroke={color} strokeWidth={strokeWidth} />
+      </>
+    );
+
+    if (kind === "npn" || kind === "pnp") {
+      const barY = -radius * 0.35;
+      const tip = kind === "npn" ? { x: center + radius, y: 0 } : { x: center + radius * 0.3, y: barY };
+      const tail = kind === "npn" ? { x: center + radius * 0.3, y: barY } : { x: center + radius, y: 0 };
+      const angle = Math.atan2(tip.y - tail.y, tip.x - tail.x);
+      const arrowSize = 6;
+      const barb = (spread: number) =>
+        `${tip.x + arrowSize * Math.cos(angle + Math.PI + spread)},${tip.y + arrowSize * Math.sin(angle + Math.PI + spread)}`;
+      const arrow = `${tip.x},${tip.y} ${barb(0.45)} ${barb(-0.45)}`;
+      return (
+        <>
+          {leads}
+          <line
+            x1={center - radius * 0.55}
+            y1={barY}
+            x2={center + radius * 0.55}
+            y2={barY}
+            stroke={color}
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+          />
+          <line x1={center} y1={barY} x2={center} y2={-radius} stroke={color} strokeWidth={strokeWidth} />
+          <line
+            x1={center - radius * 0.3}
+            y1={barY}
+            x2={center - radius}
+            y2={0}
+            stroke={color}
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+          />
+          <line
+            x1={center + radius * 0.3}
+            y1={barY}
+            x2={center + radius}
+            y2={0}
+            stroke={color}
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+          />
+          <polygon points={arrow} fill={color} stroke={color} strokeWidth={1} />
+        </>
+      );
+    }
+
+    const channelY = -radius * 0.15;
+    const gateY = -radius * 0.45;
+    return (
+      <>
+        {leads}
+        <polyline
+          points={`${center - radius},0 ${center - radius * 0.5},0 ${center - radius * 0.5},${channelY}`}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+        />
+        <polyline
+          points={`${center + radius},0 ${center + radius * 0.5},0 ${center + radius * 0.5},${channelY}`}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+        />
+        <line
+          x1={center - radius * 0.6}
+          y1={channelY}
+          x2={center + radius * 0.6}
+          y2={channelY}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <line
+          x1={center - radius * 0.6}
+          y1={gateY}
+          x2={center + radius * 0.6}
+          y2={gateY}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        {kind === "pmos" ? (
+          <>
+            <circle cx={center} cy={gateY - radius * 0.15} r={radius * 0.15} fill="none" stroke={color} strokeWidth={1.2} />
+            <line x1={center} y1={gateY - radius * 0.3} x2={center} y2={-radius} stroke={color} strokeWidth={strokeWidth} />
+          </>
+        ) : (
+          <line x1={center} y1={gateY} x2={center} y2={-radius} stroke={color} strokeWidth={strokeWidth} />
+        )}
+      </>
+    );
+  }
+
+  // Dependent sources: diamond body with +/− marks (voltage output) or an arrow into `from` (current output)
+  if (kind === "vcvs" || kind === "vccs" || kind === "ccvs" || kind === "cccs") {
+    const center = length / 2;
+    const radius = Math.min(18, Math.max(12, length / 6));
+    const glyphStroke = Math.max(1.2, strokeWidth * 0.7);
+    const mark = radius * 0.45;
+    return (
+      <>
+        <line
+          x1={0}
+          y1={0}
+          x2={center - radius}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <polygon
+          points={`${center - radius},0 ${center},${-radius} ${center + radius},0 ${center},${radius}`}
+          fill="var(--background)"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+        />
+        {kind === "vcvs" || kind === "ccvs" ? (
+          <>
+            <line x1={center - mark - 4} y1={0} x2={center - mark + 4} y2={0} stroke={color} strokeWidth={glyphStroke} />
+            <line x1={center - mark} y1={-4} x2={center - mark} y2={4} stroke={color} strokeWidth={glyphStroke} />
+            <line x1={center + mark - 4} y1={0} x2={center + mark + 4} y2={0} stroke={color} strokeWidth={glyphStroke} />
+          </>
+        ) : (
+          <>
+            <line x1={center + mark} y1={0} x2={center - mark} y2={0} stroke={color} strokeWidth={glyphStroke} />
+            <polyline
+              points={`${center - mark + 5},-4 ${center - mark},0 ${center - mark + 5},4`}
+              fill="none"
+              stroke={color}
+              strokeWidth={glyphStroke}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </>
+        )}
+        <line
+          x1={center + radius}
+          y1={0}
+          x2={length}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+      </>
+    );
+  }
+
+  // Subcircuit: labelled block between its first two ports; further ports attach through leads
+  if (kind === "subcircuit") {
+    const center = length / 2;
+    const halfWidth = Math.min(24, Math.max(14, length / 4));
+    const halfHeight = halfWidth * 0.7;
+    return (
+      <>
+        <line
+          x1={0}
+          y1={0}
+          x2={center - halfWidth}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <rect
+          x={center - halfWidth}
+          y={-halfHeight}
+          width={halfWidth * 2}
+          height={halfHeight * 2}
+          rx={3}
+          fill="var(--background)"
+          stroke={color}
+          strokeWidth={strokeWidth}
+        />
+        <text
+          x={center}
+          y={4}
+          textAnchor="middle"
+          fontSize={12}
+          fontWeight={600}
+          fill={color}
+          style={{ pointerEvents: "none" }}
+        >
+          X
+        </text>
+        <line
+          x1={center + halfWidth}
+          y1={0}
+          x2={length}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+      </>
+    );
+  }
+
+  // Op-amp: triangle pointing at the output (`from`); the inputs attach through control leads
+  if (kind === "opamp") {
+    const center = length / 2;
+    const size = Math.min(22, Math.max(14, length / 5));
+    const glyphStroke = Math.max(1.2, strokeWidth * 0.7);
+    return (
+      <>
+        <line
+          x1={0}
+          y1={0}
+          x2={center - size}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        <polygon
+          points={`${center - size},0 ${center + size},${-size} ${center + size},${size}`}
+          fill="var(--background)"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+        />
+        <line
+          x1={center + size * 0.35}
+          y1={-size * 0.45}
+          x2={center + size * 0.75}
+          y2={-size * 0.45}
+          stroke={color}
+          strokeWidth={glyphStroke}
+        />
+        <line
+          x1={center + size * 0.55}
+          y1={-size * 0.45 - 4}
+          x2={center + size * 0.55}
+          y2={-size * 0.45 + 4}
+          stroke={color}
+          strokeWidth={glyphStroke}
+        />
+        <line
+          x1={center + size * 0.35}
+          y1={size * 0.45}
+          x2={center + size * 0.75}
+          y2={size * 0.45}
+          stroke={color}
+          strokeWidth={glyphStroke}
+        />
+        <line
+          x1={center + size}
+          y1={0}
+          x2={length}
+          y2={0}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+      </>
+    );
+  }
+
   return (
     <line
       x1={0}
@@ -357,7 +690,7 @@ const UNIT_PREFIXES: Array<{ threshold: number; symbol: string; factor: number }
   { threshold: 1e-12, symbol: "p", factor: 1e-12 },
 ];
 
-const formatWithUnit = (value: number, unit: string): string => {
+export const formatWithUnit = (value: number, unit: string): string => {
   if (!Number.isFinite(value)) return `— ${unit}`;
   const absValue = Math.abs(value);
   const prefix =
@@ -375,6 +708,27 @@ const formatWithUnit = (value: number, unit: string): string => {
   return `${scaled.toFixed(precision)} ${prefix.symbol}${unit}`.trim();
 };
 
+const sourceLevelLabel = (source: SourceComponent, unit: string): string => {
+  switch (source.waveform) {
+    case "ac":
+      return `${formatWithUnit(source.amplitude ?? source.value, unit)} AC`;
+    case "pulse": {
+      const pulse = source.pulse ?? DEFAULT_PULSE;
+      return `${formatWithUnit(pulse.initial, unit)}→${formatWithUnit(pulse.pulsed, unit)} pulse`;
+    }
+    case "pwl":
+      return `PWL (${(source.pwl ?? DEFAULT_PWL).length} points)`;
+    case "exp": {
+      const exp = source.exp ?? DEFAULT_EXP;
+      return `${formatWithUnit(exp.initial, unit)}→${formatWithUnit(exp.pulsed, unit)} exp`;
+    }
+    case "expression":
+      return `${source.expression || "f"}(t)`;
+    default:
+      return `${formatWithUnit(source.value, unit)} DC`;
+  }
+};
+
 export function componentValueLabel(component: CircuitComponent): string {
   switch (component.kind) {
     case "resistor":
@@ -384,13 +738,29 @@ export function componentValueLabel(component: CircuitComponent): string {
     case "inductor":
       return formatWithUnit(component.value, "H");
     case "voltage-source":
-      return component.waveform === "ac"
-        ? `${formatWithUnit(component.amplitude ?? component.value, "V")} AC`
-        : `${formatWithUnit(component.value, "V")} DC`;
+      return sourceLevelLabel(component, "V");
     case "current-source":
-      return component.waveform === "ac"
-        ? `${formatWithUnit(component.amplitude ?? component.value, "A")} AC`
-        : `${formatWithUnit(component.value, "A")} DC`;
+      return sourceLevelLabel(component, "A");
+    case "diode":
+      return "diode";
+    case "npn":
+    case "pnp":
+      return `β ${component.betaF ?? DEFAULT_BJT_MODEL.betaF}`;
+    case "nmos":
+    case "pmos":
+      return `Vth ${formatWithUnit(component.threshold ?? DEFAULT_MOSFET_MODEL.threshold, "V")}`;
+    case "vcvs":
+      return `×${component.value}`;
+    case "vccs":
+      return formatWithUnit(component.value, "S");
+    case "ccvs":
+      return formatWithUnit(component.value, "Ω");
+    case "cccs":
+      return `×${component.value} I(${component.controlSource || "?"})`;
+    case "opamp":
+      return "op-amp";
+    case "subcircuit":
+      return component.definition;
     case "wire":
       return "wire";
     case "ground":
@@ -411,13 +781,35 @@ export function describeComponent(component: CircuitComponent): string {
     case "inductor":
       return `${formatWithUnit(component.value, "H")} inductor`;
     case "voltage-source":
-      return component.waveform === "ac"
-        ? `${formatWithUnit(component.amplitude ?? component.value, "V")} AC source`
-        : `${formatWithUnit(component.value, "V")} DC source`;
+      return `${sourceLevelLabel(component, "V")} source`;
     case "current-source":
-      return component.waveform === "ac"
-        ? `${formatWithUnit(component.amplitude ?? component.value, "A")} AC source`
-        : `${formatWithUnit(component.value, "A")} DC source`;
+      return `${sourceLevelLabel(component, "A")} source`;
+    case "diode": {
+      const saturation = component.saturationCurrent ?? DEFAULT_DIODE_MODEL.saturationCurrent;
+      const emission = component.emissionCoefficient ?? DEFAULT_DIODE_MODEL.emissionCoefficient;
+      return `Diode (Is ${saturation.toExponential(1)} A, n ${emission})`;
+    }
+    case "npn":
+    case "pnp":
+      return `${component.kind.toUpperCase()} transistor (β ${component.betaF ?? DEFAULT_BJT_MODEL.betaF}, base ${component.base})`;
+    case "nmos":
+    case "pmos":
+      return `${component.kind.toUpperCase()} transistor (Vth ${formatWithUnit(
+        component.threshold ?? DEFAULT_MOSFET_MODEL.threshold,
+        "V"
+      )}, gate ${component.gate})`;
+    case "vcvs":
+      return `VCVS (gain ${component.value}, senses ${component.controlPos} − ${component.controlNeg})`;
+    case "vccs":
+      return `VCCS (gm ${formatWithUnit(component.value, "S")}, senses ${component.controlPos} − ${component.controlNeg})`;
+    case "ccvs":
+      return `CCVS (${formatWithUnit(component.value, "Ω")} × I(${component.controlSource || "unset"}))`;
+    case "cccs":
+      return `CCCS (gain ${component.value} × I(${component.controlSource || "unset"}))`;
+    case "opamp":
+      return `Ideal op-amp (+ ${component.controlPos}, − ${component.controlNeg})`;
+    case "subcircuit":
+      return `Subcircuit ${component.definition} (${2 + component.extraPorts.length} ports)`;
     case "ground":
       return `Ground reference (${component.from})`;
     default:
@@ -425,7 +817,12 @@ export function describeComponent(component: CircuitComponent): string {
   }
 }
 
-export function buildPiecewiseExpression(time: Float32Array, values: Float32Array, label: string): string {
+export function buildPiecewiseExpression(
+  time: ArrayLike<number>,
+  values: ArrayLike<number>,
+  label: string,
+  variable = "t"
+): string {
   if (!time.length || !values.length) return "0";
   const identifier = sanitizeIdentifier(label);
   const samples = Math.min(40, time.length);
@@ -434,8 +831,8 @@ export function buildPiecewiseExpression(time: Float32Array, values: Float32Arra
   for (let idx = 0; idx < time.length; idx += step) {
     const t = time[idx];
     const v = values[idx];
-    parts.push(`t<=${t.toFixed(6)},${v.toFixed(6)}`);
+    parts.push(`${variable}<=${t.toFixed(6)},${v.toFixed(6)}`);
   }
   parts.push(`1,${values[values.length - 1].toFixed(6)}`);
-  return `${identifier}(t)=piecewise(${parts.join(",")})`;
+  return `${identifier}(${variable})=piecewise(${parts.join(",")})`;
 }
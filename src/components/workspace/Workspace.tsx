@@ -17,6 +17,7 @@ interface WorkspaceProps {
   onLayoutChange: (layout: WorkspaceLayout) => void;
   toolStates: Record<string, any>;
   onToolStateChange: (toolId: string, state: any) => void;
+  onUpdateExpression?: ToolProps["onUpdateExpression"];
 }
 
 interface RenderOptions {
@@ -35,6 +36,7 @@ export function Workspace({
   onLayoutChange,
   toolStates,
   onToolStateChange,
+  onUpdateExpression,
 }: WorkspaceProps) {
   const preparedExpressions = useMemo(() => {
     return expressions.map(expr => {
@@ -112,6 +114,7 @@ export function Workspace({
             isActive={isActive}
             toolConfig={config}
             onConfigChange={handleConfigChange}
+            onUpdateExpression={onUpdateExpression}
           />
 
           {ControlsComponent && isActive && viewport && (
@@ -0,0 +1,36 @@
+import { Dispatch, SetStateAction, useEffect } from 'react';
+import { ParameterSlider, advanceParameterSlider } from '@/lib/parameters/sliders';
+
+/**
+ * Drives playing parameter sliders from a single requestAnimationFrame loop.
+ * The loop only runs while at least one slider is playing.
+ */
+export function useSliderAnimation(
+  sliders: ParameterSlider[],
+  setSliders: Dispatch<SetStateAction<ParameterSlider[]>>
+): void {
+  const isAnimating = sliders.some(slider => slider.playing);
+
+  useEffect(() => {
+    if (!isAnimating || typeof requestAnimationFrame === 'undefined') return;
+
+    let frame: number | null = null;
+    let last: number | null = null;
+
+    const tick = (timestamp: number) => {
+      const elapsed = last === null ? 0 : timestamp - last;
+      last = timestamp;
+      if (elapsed > 0) {
+        setSliders(prev => prev.map(slider => advanceParameterSlider(slider, elapsed)));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, [isAnimating, setSliders]);
+}
@@ -1,4 +1,5 @@
 // Convert AST nodes to string expressions for math.js
+import { parse } from 'mathjs';
 import { ASTNode } from './parser';
 
 export function astToString(node: ASTNode): string {
@@ -51,12 +52,38 @@ export function astToString(node: ASTNode): string {
       // These should have been evaluated already
       throw new Error(`Cannot convert ${node.type} node to string - should be evaluated first`);
     }
+
+    case 'integral':
+      return `int{${node.variable},${astToString(node.lower!)},${astToString(node.upper!)}}(${astToString(node.operand!)})`;
+
+    case 'member': {
+      const operand = astToString(node.operand!);
+      return isAtomNode(node.operand!) ? `${operand}.${node.name}` : `(${operand}).${node.name}`;
+    }
+
+    case 'range': {
+      const terms = node.elements!.map(astToString).join(', ');
+      return `[${terms}, ..., ${astToString(node.upper!)}]`;
+    }
+
+    case 'comprehension':
+      return `[${astToString(node.operand!)} for ${node.variable} ∈ ${astToString(node.right!)}]`;
+
+    case 'index': {
+      const list = astToString(node.left!);
+      return `${isAtomNode(node.left!) ? list : `(${list})`}[${astToString(node.right!)}]`;
+    }
     
     default:
       throw new Error(`Cannot convert AST node type: ${(node as any).type}`);
   }
 }
 
+// Render an AST as LaTeX (via math.js), e.g. for symbolic results
+export function astToLatex(node: ASTNode): string {
+  return parse(astToString(node)).toTex({ parenthesis: 'auto', implicit: 'hide' });
+}
+
 function isAtomNode(node: ASTNode): boolean {
   return node.type === 'number' || node.type === 'variable';
 }
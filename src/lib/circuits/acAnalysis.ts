@@ -0,0 +1,349 @@
+import {
+  CircuitComponent,
+  hasBranchCurrent,
+  isControlledSource,
+  isGroundNode,
+  isNonlinearComponent,
+  prepareCircuit,
+} from "./simulator";
+import { solveOperatingPoint } from "./dcAnalysis";
+import {
+  DeviceLinearization,
+  controlledSourceCurrent,
+  linearizeDevice,
+  stampBranch,
+  stampControlledSource,
+  stampDeviceJacobian,
+} from "./mna";
+import type { DefinitionContext } from "../definitionContext";
+
+// Small-signal frequency-domain analysis (SPICE `.ac dec`). The network is
+// solved as a complex MNA system at each frequency; sources with an AC
+// waveform are the stimulus (amplitude∠phase), every other source is AC-grounded.
+// Nonlinear devices enter as their conductances at the DC operating point.
+
+export interface ACSweepConfig {
+  startFrequency: number; // Hz
+  stopFrequency: number; // Hz
+  pointsPerDecade: number;
+}
+
+export interface ACAnalysisResult {
+  frequencies: Float64Array;
+  nodeMagnitudes: Record<string, Float64Array>; // volts (peak)
+  nodePhases: Record<string, Float64Array>; // degrees
+  componentMagnitudes: Record<string, Float64Array>; // amps (peak)
+  componentPhases: Record<string, Float64Array>; // degrees
+}
+
+export const DEFAULT_AC_SWEEP: ACSweepConfig = {
+  startFrequency: 1,
+  stopFrequency: 1e6,
+  pointsPerDecade: 20,
+};
+
+const MAX_SWEEP_POINTS = 2000;
+const EPS = 1e-18;
+const WIRE_CONDUCTANCE = 1e6;
+
+/**
+ * Log-spaced frequencies from start to stop inclusive.
+ */
+export const logFrequencies = (config: ACSweepConfig): Float64Array => {
+  const start = Math.max(Math.min(config.startFrequency, config.stopFrequency), 1e-6);
+  const stop = Math.max(Math.max(config.startFrequency, config.stopFrequency), start);
+  const perDecade = Math.max(1, Math.floor(config.pointsPerDecade));
+  const decades = Math.log10(stop / start);
+  const count = Math.min(MAX_SWEEP_POINTS, Math.max(1, Math.round(decades * perDecade) + 1));
+  const frequencies = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    frequencies[i] = count === 1 ? start : start * Math.pow(10, (decades * i) / (count - 1));
+  }
+  return frequencies;
+};
+
+export const toDecibels = (magnitudes: Float64Array): Float64Array =>
+  magnitudes.map(value => 20 * Math.log10(Math.max(value, 1e-300)));
+
+type ComplexMatrix = { re: number[][]; im: number[][] };
+
+const createComplexMatrix = (size: number): ComplexMatrix => ({
+  re: Array.from({ length: size }, () => new Array(size).fill(0)),
+  im: Array.from({ length: size }, () => new Array(size).fill(0)),
+});
+
+/**
+ * Gaussian elimination with partial pivoting over complex numbers. Mutates
+ * its arguments.
+ */
+const solveComplex = (A: ComplexMatrix, zRe: number[], zIm: number[]): { re: number[]; im: number[] } => {
+  const n = zRe.length;
+  const { re, im } = A;
+  for (let i = 0; i < n; i++) {
+    let maxRow = i;
+    let maxVal = Math.hypot(re[i][i], im[i][i]);
+    for (let k = i + 1; k < n; k++) {
+      const val = Math.hypot(re[k][i], im[k][i]);
+      if (val > maxVal) {
+        maxVal = val;
+        maxRow = k;
+      }
+    }
+    if (maxVal < EPS) {
+      throw new Error("Circuit matrix is singular");
+    }
+    if (maxRow !== i) {
+      [re[i], re[maxRow]] = [re[maxRow], re[i]];
+      [im[i], im[maxRow]] = [im[maxRow], im[i]];
+      [zRe[i], zRe[maxRow]] = [zRe[maxRow], zRe[i]];
+      [zIm[i], zIm[maxRow]] = [zIm[maxRow], zIm[i]];
+    }
+    const pivotRe = re[i][i];
+    const pivotIm = im[i][i];
+    const pivotNorm = pivotRe * pivotRe + pivotIm * pivotIm;
+    for (let k = i + 1; k < n; k++) {
+      if (re[k][i] === 0 && im[k][i] === 0) continue;
+      // factor = A[k][i] / A[i][i]
+      const fRe = (re[k][i] * pivotRe + im[k][i] * pivotIm) / pivotNorm;
+      const fIm = (im[k][i] * pivotRe - re[k][i] * pivotIm) / pivotNorm;
+      for (let j = i; j < n; j++) {
+        re[k][j] -= fRe * re[i][j] - fIm * im[i][j];
+        im[k][j] -= fRe * im[i][j] + fIm * re[i][j];
+      }
+      zRe[k] -= fRe * zRe[i] - fIm * zIm[i];
+      zIm[k] -= fRe * zIm[i] + fIm * zRe[i];
+    }
+  }
+  const xRe = new Array(n).fill(0);
+  const xIm = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sumRe = zRe[i];
+    let sumIm = zIm[i];
+    for (let j = i + 1; j < n; j++) {
+      sumRe -= re[i][j] * xRe[j] - im[i][j] * xIm[j];
+      sumIm -= re[i][j] * xIm[j] + im[i][j] * xRe[j];
+    }
+    const dRe = re[i][i];
+    const dIm = im[i][i];
+    const norm = dRe * dRe + dIm * dIm;
+    xRe[i] = (sumRe * dRe + sumIm * dIm) / norm;
+    xIm[i] = (sumIm * dRe - sumRe * dIm) / norm;
+  }
+  return { re: xRe, im: xIm };
+};
+
+const phasorOf = (
+  source: Extract<CircuitComponent, { kind: "voltage-source" | "current-source" }>
+): { re: number; im: number } => {
+  if (source.waveform !== "ac") {
+    return { re: 0, im: 0 };
+  }
+  const amplitude = source.amplitude ?? source.value;
+  const phase = source.phase ?? 0;
+  return { re: amplitude * Math.cos(phase), im: amplitude * Math.sin(phase) };
+};
+
+export function simulateAC(
+  components: CircuitComponent[],
+  config: ACSweepConfig,
+  context?: DefinitionContext
+): ACAnalysisResult {
+  const circuit = prepareCircuit(components);
+  const { components: working, nodes, nodeIndex } = circuit;
+
+  const smallSignal = new Map<string, DeviceLinearization>();
+  const nonlinear = working.filter(isNonlinearComponent);
+  if (nonlinear.length > 0) {
+    const bias = solveOperatingPoint(components, { context });
+    const biasVector = nodes.map(node => bias.nodeVoltages[node] ?? 0);
+    nonlinear.forEach(device => {
+      smallSignal.set(device.id, linearizeDevice(circuit, device, biasVector, new Map(), false));
+    });
+  }
+
+  const sources = working.filter(
+    (comp): comp is Extract<CircuitComponent, { kind: "voltage-source" | "current-source" }> =>
+      comp.kind === "voltage-source" || comp.kind === "current-source"
+  );
+  if (!sources.some(source => source.waveform === "ac")) {
+    throw new Error("AC analysis requires at least one AC source to act as the stimulus.");
+  }
+
+  // Voltage sources, inductors and voltage-output controlled sources carry an explicit branch current
+  const branches = working.filter(hasBranchCurrent);
+  const controlled = working.filter(isControlledSource);
+  const branchRow: Record<string, number> = {};
+  branches.forEach((comp, index) => {
+    branchRow[comp.id] = nodes.length + index;
+  });
+  const size = Math.max(1, nodes.length + branches.length);
+
+  const frequencies = logFrequencies(config);
+  const count = frequencies.length;
+  const nodeMagnitudes: Record<string, Float64Array> = {};
+  const nodePhases: Record<string, Float64Array> = {};
+  const componentMagnitudes: Record<string, Float64Array> = {};
+  const componentPhases: Record<string, Float64Array> = {};
+  nodes.forEach(node => {
+    nodeMagnitudes[node] = new Float64Array(count);
+    nodePhases[node] = new Float64Array(count);
+  });
+  working.forEach(comp => {
+    componentMagnitudes[comp.id] = new Float64Array(count);
+    componentPhases[comp.id] = new Float64Array(count);
+  });
+
+  const indexOf = (node: string) => (isGroundNode(node) ? -1 : nodeIndex[node] ?? -1);
+
+  const stampAdmittance = (A: ComplexMatrix, n1: number, n2: number, gRe: number, gIm: number) => {
+    if (n1 >= 0) {
+      A.re[n1][n1] += gRe;
+      A.im[n1][n1] += gIm;
+    }
+    if (n2 >= 0) {
+      A.re[n2][n2] += gRe;
+      A.im[n2][n2] += gIm;
+    }
+    if (n1 >= 0 && n2 >= 0) {
+      A.re[n1][n2] -= gRe;
+      A.im[n1][n2] -= gIm;
+      A.re[n2][n1] -= gRe;
+      A.im[n2][n1] -= gIm;
+    }
+  };
+
+  for (let point = 0; point < count; point++) {
+    const omega = 2 * Math.PI * frequencies[point];
+    const A = createComplexMatrix(size);
+    const zRe = new Array(size).fill(0);
+    const zIm = new Array(size).fill(0);
+
+    smallSignal.forEach(device => {
+      stampDeviceJacobian(circuit, device, (row, col, value) => {
+        A.re[row][col] += value;
+      });
+    });
+    // Controlled sources are frequency independent, so they only touch the real part
+    controlled.forEach(source => {
+      stampControlledSource(circuit, A.re, source, branchRow);
+    });
+
+    working.forEach(comp => {
+      const n1 = indexOf(comp.from);
+      const n2 = indexOf(comp.to);
+      switch (comp.kind) {
+        case "wire":
+          stampAdmittance(A, n1, n2, WIRE_CONDUCTANCE, 0);
+          break;
+        case "resistor":
+          stampAdmittance(A, n1, n2, 1 / Math.max(comp.value, 1e-6), 0);
+          break;
+        case "capacitor":
+          stampAdmittance(A, n1, n2, 0, omega * comp.value);
+          break;
+        case "inductor": {
+          // V(n1) − V(n2) − jωL·I = 0
+          const row = branchRow[comp.id];
+          stampBranch(A.re, row, n1, n2);
+          A.im[row][row] -= omega * comp.value;
+          break;
+        }
+        case "voltage-source": {
+          const row = branchRow[comp.id];
+          stampBranch(A.re, row, n1, n2);
+          const phasor = phasorOf(comp);
+          zRe[row] += phasor.re;
+          zIm[row] += phasor.im;
+          break;
+        }
+        case "current-source": {
+          const phasor = phasorOf(comp);
+          if (n1 >= 0) {
+            zRe[n1] += phasor.re;
+            zIm[n1] += phasor.im;
+          }
+          if (n2 >= 0) {
+            zRe[n2] -= phasor.re;
+            zIm[n2] -= phasor.im;
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    });
+
+    const solution = solveComplex(A, zRe, zIm);
+    const voltageAt = (node: string) => {
+      const idx = indexOf(node);
+      return idx >= 0 ? { re: solution.re[idx], im: solution.im[idx] } : { re: 0, im: 0 };
+    };
+    const record = (
+      magnitudes: Float64Array,
+      phases: Float64Array,
+      value: { re: number; im: number }
+    ) => {
+      magnitudes[point] = Math.hypot(value.re, value.im);
+      phases[point] = (Math.atan2(value.im, value.re) * 180) / Math.PI;
+    };
+
+    nodes.forEach(node => {
+      record(nodeMagnitudes[node], nodePhases[node], voltageAt(node));
+    });
+
+    working.forEach(comp => {
+      const v1 = voltageAt(comp.from);
+      const v2 = voltageAt(comp.to);
+      const dv = { re: v1.re - v2.re, im: v1.im - v2.im };
+      let current = { re: 0, im: 0 };
+      switch (comp.kind) {
+        case "wire":
+          current = { re: dv.re * WIRE_CONDUCTANCE, im: dv.im * WIRE_CONDUCTANCE };
+          break;
+        case "resistor": {
+          const g = 1 / Math.max(comp.value, 1e-6);
+          current = { re: dv.re * g, im: dv.im * g };
+          break;
+        }
+        case "capacitor": {
+          const b = omega * comp.value;
+          current = { re: -dv.im * b, im: dv.re * b };
+          break;
+        }
+        case "inductor":
+        case "voltage-source": {
+          const row = branchRow[comp.id];
+          current = { re: solution.re[row], im: solution.im[row] };
+          break;
+        }
+        case "current-source":
+          current = phasorOf(comp);
+          break;
+        default: {
+          if (isControlledSource(comp)) {
+            current = {
+              re: controlledSourceCurrent(circuit, comp, solution.re, branchRow),
+              im: controlledSourceCurrent(circuit, comp, solution.im, branchRow),
+            };
+            break;
+          }
+          // Small-signal current into the device's `from` terminal: Σ ∂I/∂v · v
+          const device = smallSignal.get(comp.id);
+          const terminal = device ? device.nodes.indexOf(comp.from) : -1;
+          if (device && terminal >= 0) {
+            device.controls.forEach((control, m) => {
+              const g = device.partials[terminal][m] * control.sign;
+              const pos = voltageAt(control.pos);
+              const neg = voltageAt(control.neg);
+              current = { re: current.re + g * (pos.re - neg.re), im: current.im + g * (pos.im - neg.im) };
+            });
+          }
+          break;
+        }
+      }
+      record(componentMagnitudes[comp.id], componentPhases[comp.id], current);
+    });
+  }
+
+  return { frequencies, nodeMagnitudes, nodePhases, componentMagnitudes, componentPhases };
+}
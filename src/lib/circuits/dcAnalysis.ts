@@ -0,0 +1,390 @@
+import {
+  CircuitComponent,
+  PreparedCircuit,
+  componentTerminals,
+  hasBranchCurrent,
+  isControlledSource,
+  isGroundNode,
+  isNonlinearComponent,
+  prepareCircuit,
+} from "./simulator";
+import { SourceComponent, waveformDcValue } from "./waveforms";
+import type { DefinitionContext } from "../definitionContext";
+import {
+  DEFAULT_MAX_NEWTON_ITERATIONS,
+  ControlledSource,
+  DeviceState,
+  NonlinearComponent,
+  controlledSourceCurrent,
+  createMatrix,
+  hasConverged,
+  linearizeDevice,
+  nodeIndexOf,
+  solveLinear,
+  stampBranch,
+  stampConductance,
+  stampControlledSource,
+  stampCurrent,
+  stampLinearized,
+  voltageAt,
+} from "./mna";
+
+// DC analyses (SPICE `.op` and `.dc`): capacitors are open, inductors are
+// shorts and every source contributes its DC value (the offset of an AC source).
+
+export interface OperatingPoint {
+  nodeVoltages: Record<string, number>;
+  nodeCurrents: Record<string, number>;
+  componentCurrents: Record<string, number>;
+  iterations: number;
+}
+
+export interface DCAnalysisOptions {
+  maxNewtonIterations?: number;
+  context?: DefinitionContext; // resolves the user functions behind expression waveforms
+}
+
+export interface DCSweepConfig {
+  sourceId: string;
+  start: number;
+  stop: number;
+  step: number;
+}
+
+export interface DCSweepResult {
+  sourceId: string;
+  values: Float64Array;
+  nodeVoltages: Record<string, Float64Array>;
+  nodeCurrents: Record<string, Float64Array>;
+  componentCurrents: Record<string, Float64Array>;
+}
+
+export const DEFAULT_DC_SWEEP: DCSweepConfig = {
+  sourceId: "",
+  start: 0,
+  stop: 5,
+  step: 0.1,
+};
+
+const MAX_SWEEP_POINTS = 10_000;
+const SOURCE_STEPS = 10;
+// Shunt conductances (S) for gmin stepping, relaxed towards zero one decade at a time
+const GMIN_STEPS = [1e-2, 1e-3, 1e-4, 1e-5, 1e-6, 1e-7, 1e-8, 1e-9, 1e-10, 0];
+const WIRE_RESISTANCE = 1e-6;
+
+interface DCSystem {
+  circuit: PreparedCircuit;
+  branchRow: Record<string, number>;
+  size: number;
+  nonlinear: NonlinearComponent[];
+  controlled: ControlledSource[];
+  floatingRows: number[];
+  maxIterations: number;
+  dcLevels: Record<string, number>;
+}
+
+const buildSystem = (components: CircuitComponent[], options: DCAnalysisOptions): DCSystem => {
+  const circuit = prepareCircuit(components);
+  // Voltage sources, (shorted) inductors and voltage-output controlled sources carry an explicit branch current
+  const branches = circuit.components.filter(hasBranchCurrent);
+  const branchRow: Record<string, number> = {};
+  branches.forEach((comp, index) => {
+    branchRow[comp.id] = circuit.nodes.length + index;
+  });
+  // Nodes with no DC path (only capacitors, FET gates or controlled-source
+  // sense inputs attached) are tied to ground so the solve stays defined
+  const conducting = new Set<string>();
+  circuit.components.forEach(comp => {
+    if (comp.kind === "capacitor") return;
+    const senseOnly = comp.kind === "nmos" || comp.kind === "pmos" || isControlledSource(comp);
+    const terminals = senseOnly ? [comp.from, comp.to] : componentTerminals(comp);
+    terminals.forEach(node => conducting.add(node));
+  });
+  return {
+    circuit,
+    branchRow,
+    size: Math.max(1, circuit.nodes.length + branches.length),
+    nonlinear: circuit.components.filter(isNonlinearComponent),
+    controlled: circuit.components.filter(isControlledSource),
+    floatingRows: circuit.nodes.flatMap((node, row) => (conducting.has(node) ? [] : [row])),
+    maxIterations: Math.max(1, Math.floor(options.maxNewtonIterations ?? DEFAULT_MAX_NEWTON_ITERATIONS)),
+    dcLevels: Object.fromEntries(
+      circuit.components
+        .filter((comp): comp is SourceComponent => comp.kind === "voltage-source" || comp.kind === "current-source")
+        .map(source => [source.id, dcSourceValue(source, options.context)])
+    ),
+  };
+};
+
+/** Sine sources bias at their offset; pulse, PWL, exp and expression sources at their t = 0 value. */
+export const dcSourceValue = (source: SourceComponent, context?: DefinitionContext): number =>
+  waveformDcValue(source, context);
+
+/**
+ * Newton–Raphson solve of the DC network with an optional shunt from every
+ * node to ground. Returns null when the iteration budget runs out or the
+ * matrix is singular so callers can fall back to gmin or source stepping.
+ */
+const solveDC = (
+  system: DCSystem,
+  sourceValue: (source: SourceComponent) => number,
+  initialGuess: number[],
+  state: DeviceState,
+  shunt = 0
+): { solution: number[]; iterations: number } | null => {
+  const { circuit, branchRow, size, nonlinear, controlled } = system;
+  const indexOf = (node: string) => nodeIndexOf(circuit, node);
+  let guess = initialGuess;
+
+  for (let iteration = 0; iteration < system.maxIterations; iteration++) {
+    const G = createMatrix(size);
+    const rhs = new Array(size).fill(0);
+
+    circuit.components.forEach(comp => {
+      const n1 = indexOf(comp.from);
+      const n2 = indexOf(comp.to);
+      switch (comp.kind) {
+        case "wire":
+          stampConductance(G, n1, n2, 1 / WIRE_RESISTANCE);
+          break;
+        case "resistor":
+          stampConductance(G, n1, n2, 1 / Math.max(comp.value, 1e-6));
+          break;
+        case "inductor":
+          stampBranch(G, branchRow[comp.id], n1, n2);
+          break;
+        case "voltage-source":
+          stampBranch(G, branchRow[comp.id], n1, n2);
+          rhs[branchRow[comp.id]] += sourceValue(comp);
+          break;
+        case "current-source":
+          stampCurrent(rhs, n1, n2, sourceValue(comp));
+          break;
+        default:
+          break;
+      }
+    });
+
+    controlled.forEach(source => {
+      stampControlledSource(circuit, G, source, branchRow);
+    });
+
+    let limited = false;
+    nonlinear.forEach(device => {
+      const linearized = linearizeDevice(circuit, device, guess, state, true);
+      limited = limited || linearized.limited;
+      stampLinearized(circuit, G, rhs, linearized);
+    });
+
+    system.floatingRows.forEach(row => {
+      G[row][row] += 1;
+    });
+    if (shunt > 0) {
+      circuit.nodes.forEach((_, row) => {
+        G[row][row] += shunt;
+      });
+    }
+
+    let solution: number[];
+    try {
+      solution = solveLinear(G, rhs);
+    } catch {
+      // Devices biased off at the initial guess can leave nodes without a usable pivot
+      return null;
+    }
+    if (nonlinear.length === 0) {
+      return { solution, iterations: 1 };
+    }
+    if (!limited && hasConverged(solution, guess, circuit.nodes.length)) {
+      return { solution, iterations: iteration + 1 };
+    }
+    guess = solution;
+  }
+  return null;
+};
+
+/**
+ * Solve directly from `guess`. If Newton fails, try gmin stepping (a shunt on
+ * every node, relaxed to zero) and then source stepping (every source ramped
+ * up from zero), reusing each intermediate solution as the next guess.
+ */
+const solveWithSourceStepping = (
+  system: DCSystem,
+  sourceValue: (source: SourceComponent) => number,
+  guess: number[],
+  state: DeviceState
+): { solution: number[]; iterations: number } => {
+  const direct = solveDC(system, sourceValue, guess, state);
+  if (direct) {
+    return direct;
+  }
+
+  state.clear();
+  let gminGuess = guess;
+  let gminIterations = 0;
+  const gminConverged = GMIN_STEPS.every(shunt => {
+    const stepped = solveDC(system, sourceValue, gminGuess, state, shunt);
+    if (!stepped) return false;
+    gminGuess = stepped.solution;
+    gminIterations += stepped.iterations;
+    return true;
+  });
+  if (gminConverged) {
+    return { solution: gminGuess, iterations: gminIterations };
+  }
+
+  state.clear();
+  let current = new Array(system.size).fill(0);
+  let iterations = 0;
+  for (let step = 1; step <= SOURCE_STEPS; step++) {
+    const scale = step / SOURCE_STEPS;
+    const stepped = solveDC(system, source => scale * sourceValue(source), current, state);
+    if (!stepped) {
+      throw new Error(
+        `DC operating point did not converge (source stepping failed at ${(scale * 100).toFixed(0)}%)`
+      );
+    }
+    current = stepped.solution;
+    iterations += stepped.iterations;
+  }
+  return { solution: current, iterations };
+};
+
+const collectOperatingPoint = (
+  system: DCSystem,
+  solution: number[],
+  sourceValue: (source: SourceComponent) => number,
+  state: DeviceState
+): Omit<OperatingPoint, "iterations"> => {
+  const { circuit, branchRow } = system;
+  const nodeVoltages: Record<string, number> = {};
+  const nodeCurrents: Record<string, number> = {};
+  const componentCurrents: Record<string, number> = {};
+  const getVoltage = (node: string) => voltageAt(circuit, solution, node);
+
+  circuit.nodes.forEach(node => {
+    nodeVoltages[node] = getVoltage(node);
+    nodeCurrents[node] = 0;
+  });
+
+  const accumulate = (node: string, current: number) => {
+    if (!isGroundNode(node) && node in nodeCurrents) {
+      nodeCurrents[node] += current;
+    }
+  };
+
+  circuit.components.forEach(comp => {
+    if (isControlledSource(comp)) {
+      const current = controlledSourceCurrent(circuit, comp, solution, branchRow);
+      componentCurrents[comp.id] = current;
+      accumulate(comp.from, current);
+      accumulate(comp.to, -current);
+      return;
+    }
+    if (isNonlinearComponent(comp)) {
+      const evaluated = linearizeDevice(circuit, comp, solution, state, false);
+      componentCurrents[comp.id] = evaluated.current;
+      evaluated.nodes.forEach((node, k) => accumulate(node, evaluated.currents[k]));
+      return;
+    }
+    let current = 0;
+    switch (comp.kind) {
+      case "wire":
+        current = (getVoltage(comp.from) - getVoltage(comp.to)) / WIRE_RESISTANCE;
+        break;
+      case "resistor":
+        current = (getVoltage(comp.from) - getVoltage(comp.to)) / Math.max(comp.value, 1e-6);
+        break;
+      case "inductor":
+      case "voltage-source":
+        current = solution[branchRow[comp.id]] ?? 0;
+        break;
+      case "current-source":
+        current = sourceValue(comp);
+        break;
+      default:
+        break;
+    }
+    componentCurrents[comp.id] = current;
+    accumulate(comp.from, current);
+    accumulate(comp.to, -current);
+  });
+
+  return { nodeVoltages, nodeCurrents, componentCurrents };
+};
+
+/**
+ * DC bias point (`.op`).
+ */
+export function solveOperatingPoint(
+  components: CircuitComponent[],
+  options: DCAnalysisOptions = {}
+): OperatingPoint {
+  const system = buildSystem(components, options);
+  const state: DeviceState = new Map();
+  const sourceValue = (source: SourceComponent) => system.dcLevels[source.id];
+  const { solution, iterations } = solveWithSourceStepping(
+    system,
+    sourceValue,
+    new Array(system.size).fill(0),
+    state
+  );
+  return { ...collectOperatingPoint(system, solution, sourceValue, state), iterations };
+}
+
+/**
+ * Step one source's DC value from start to stop (`.dc`). Each point starts
+ * Newton from the previous solution, which tracks the bias continuously.
+ */
+export function simulateDCSweep(
+  components: CircuitComponent[],
+  config: DCSweepConfig,
+  options: DCAnalysisOptions = {}
+): DCSweepResult {
+  const system = buildSystem(components, options);
+  const swept = system.circuit.components.find(comp => comp.id === config.sourceId);
+  if (!swept || (swept.kind !== "voltage-source" && swept.kind !== "current-source")) {
+    throw new Error(`DC sweep needs a voltage or current source; "${config.sourceId}" is not one.`);
+  }
+  const span = config.stop - config.start;
+  const stepSize = Math.abs(config.step);
+  if (!Number.isFinite(span) || !(stepSize > 0)) {
+    throw new Error("DC sweep requires finite bounds and a non-zero step.");
+  }
+  const count = Math.min(MAX_SWEEP_POINTS, Math.floor(Math.abs(span) / stepSize + 1e-9) + 1);
+  const direction = span >= 0 ? 1 : -1;
+
+  const values = new Float64Array(count);
+  const nodeVoltages: Record<string, Float64Array> = {};
+  const nodeCurrents: Record<string, Float64Array> = {};
+  const componentCurrents: Record<string, Float64Array> = {};
+  system.circuit.nodes.forEach(node => {
+    nodeVoltages[node] = new Float64Array(count);
+    nodeCurrents[node] = new Float64Array(count);
+  });
+  system.circuit.components.forEach(comp => {
+    componentCurrents[comp.id] = new Float64Array(count);
+  });
+
+  const state: DeviceState = new Map();
+  let guess = new Array(system.size).fill(0);
+  for (let index = 0; index < count; index++) {
+    const value = config.start + direction * stepSize * index;
+    values[index] = value;
+    const sourceValue = (source: SourceComponent) => (source.id === swept.id ? value : system.dcLevels[source.id]);
+    const { solution } = solveWithSourceStepping(system, sourceValue, guess, state);
+    guess = solution;
+    const point = collectOperatingPoint(system, solution, sourceValue, state);
+    Object.entries(point.nodeVoltages).forEach(([node, voltage]) => {
+      nodeVoltages[node][index] = voltage;
+    });
+    Object.entries(point.nodeCurrents).forEach(([node, current]) => {
+      nodeCurrents[node][index] = current;
+    });
+    Object.entries(point.componentCurrents).forEach(([id, current]) => {
+      componentCurrents[id][index] = current;
+    });
+  }
+
+  return { sourceId: swept.id, values, nodeVoltages, nodeCurrents, componentCurrents };
+}
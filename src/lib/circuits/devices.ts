@@ -0,0 +1,164 @@
+// Large-signal models for the nonlinear semiconductor devices. Each evaluator
+// returns the terminal currents at an operating point together with their
+// partial derivatives, which the simulator linearizes into Newton–Raphson
+// companion stamps.
+
+/** Thermal voltage kT/q at 300 K. */
+export const THERMAL_VOLTAGE = 0.025852;
+
+/** Conductance placed across every junction so cut-off devices never float a node. */
+export const GMIN = 1e-12;
+
+export interface DiodeModel {
+  saturationCurrent: number; // amps
+  emissionCoefficient: number;
+}
+
+export interface BjtModel {
+  saturationCurrent: number; // amps
+  betaF: number;
+  betaR: number;
+}
+
+export interface MosfetModel {
+  threshold: number; // volts, magnitude for pmos
+  transconductance: number; // k = µCox·W/L in A/V²
+  lambda: number; // channel-length modulation, 1/V
+}
+
+export const DEFAULT_DIODE_MODEL: DiodeModel = {
+  saturationCurrent: 1e-14,
+  emissionCoefficient: 1,
+};
+
+export const DEFAULT_BJT_MODEL: BjtModel = {
+  saturationCurrent: 1e-14,
+  betaF: 100,
+  betaR: 1,
+};
+
+export const DEFAULT_MOSFET_MODEL: MosfetModel = {
+  threshold: 1,
+  transconductance: 2e-3,
+  lambda: 0.01,
+};
+
+// exp() grows without bound; past this argument the junction is extended linearly
+const MAX_EXPONENT = 80;
+
+const limitedExp = (x: number): { value: number; slope: number } => {
+  if (x <= MAX_EXPONENT) {
+    const value = Math.exp(x);
+    return { value, slope: value };
+  }
+  const edge = Math.exp(MAX_EXPONENT);
+  return { value: edge * (1 + x - MAX_EXPONENT), slope: edge };
+};
+
+/**
+ * Critical junction voltage above which the exponential is steep enough that
+ * Newton steps must be limited.
+ */
+export const criticalVoltage = (saturationCurrent: number, vt: number): number =>
+  vt * Math.log(vt / (Math.SQRT2 * saturationCurrent));
+
+/**
+ * SPICE pn-junction limiting: replaces large forward steps with a logarithmic
+ * step so the next exponential evaluation stays representable.
+ */
+export const limitJunctionVoltage = (next: number, previous: number, vt: number, vcrit: number): number => {
+  if (next > vcrit && Math.abs(next - previous) > 2 * vt) {
+    if (previous > 0) {
+      const arg = 1 + (next - previous) / vt;
+      return arg > 0 ? previous + vt * Math.log(arg) : vcrit;
+    }
+    return vt * Math.log(next / vt);
+  }
+  return next;
+};
+
+/**
+ * Gate-drive limiting for FETs: caps the change per iteration so the
+ * square-law region switches cannot make the iteration oscillate.
+ */
+export const limitFetVoltage = (next: number, previous: number, maxStep = 0.5): number => {
+  const delta = next - previous;
+  if (Math.abs(delta) <= maxStep) return next;
+  return previous + Math.sign(delta) * maxStep;
+};
+
+export interface JunctionPoint {
+  current: number;
+  conductance: number;
+}
+
+export const evaluateJunction = (voltage: number, saturationCurrent: number, nvt: number): JunctionPoint => {
+  const { value, slope } = limitedExp(voltage / nvt);
+  return {
+    current: saturationCurrent * (value - 1) + GMIN * voltage,
+    conductance: (saturationCurrent * slope) / nvt + GMIN,
+  };
+};
+
+export interface BjtPoint {
+  collector: number; // current into the collector, polarity-normalized
+  base: number; // current into the base, polarity-normalized
+  // partial derivatives with respect to vbe and vbc
+  dCollector: [number, number];
+  dBase: [number, number];
+}
+
+/**
+ * Transport-form Ebers–Moll model. Voltages and currents are expressed for an
+ * npn; pnp devices flip the sign of both before and after evaluation.
+ */
+export const evaluateBjt = (vbe: number, vbc: number, model: BjtModel): BjtPoint => {
+  const forward = evaluateJunction(vbe, model.saturationCurrent, THERMAL_VOLTAGE);
+  const reverse = evaluateJunction(vbc, model.saturationCurrent, THERMAL_VOLTAGE);
+  const invBetaR = 1 / model.betaR;
+  const invBetaF = 1 / model.betaF;
+  return {
+    collector: forward.current - reverse.current - reverse.current * invBetaR,
+    base: forward.current * invBetaF + reverse.current * invBetaR,
+    dCollector: [forward.conductance, -reverse.conductance * (1 + invBetaR)],
+    dBase: [forward.conductance * invBetaF, reverse.conductance * invBetaR],
+  };
+};
+
+export type MosfetRegion = "cutoff" | "triode" | "saturation";
+
+export interface MosfetPoint {
+  current: number; // drain-to-source current, polarity-normalized, vds >= 0
+  gm: number; // ∂I/∂vgs
+  gds: number; // ∂I/∂vds
+  region: MosfetRegion;
+}
+
+/**
+ * Level-1 (Shichman–Hodges) square-law model. Expects vds >= 0; the simulator
+ * swaps drain and source when the device conducts in reverse.
+ */
+export const evaluateMosfet = (vgs: number, vds: number, model: MosfetModel): MosfetPoint => {
+  const overdrive = vgs - model.threshold;
+  const k = model.transconductance;
+  const clm = 1 + model.lambda * vds;
+  if (overdrive <= 0) {
+    return { current: GMIN * vds, gm: 0, gds: GMIN, region: "cutoff" };
+  }
+  if (vds < overdrive) {
+    const base = overdrive * vds - (vds * vds) / 2;
+    return {
+      current: k * base * clm + GMIN * vds,
+      gm: k * vds * clm,
+      gds: k * (overdrive - vds) * clm + k * base * model.lambda + GMIN,
+      region: "triode",
+    };
+  }
+  const base = (overdrive * overdrive) / 2;
+  return {
+    current: k * base * clm + GMIN * vds,
+    gm: k * overdrive * clm,
+    gds: k * base * model.lambda + GMIN,
+    region: "saturation",
+  };
+};
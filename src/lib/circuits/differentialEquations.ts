@@ -1,5 +1,7 @@
 import { CircuitComponent } from "./simulator";
 import { DEFAULT_NEW_COMPONENT, sanitizeIdentifier } from "./editorModel";
+import { DEFAULT_BJT_MODEL, DEFAULT_DIODE_MODEL, DEFAULT_MOSFET_MODEL, THERMAL_VOLTAGE } from "./devices";
+import { DEFAULT_EXP, DEFAULT_PULSE, DEFAULT_PWL, SourceComponent, normalizePwlPoints } from "./waveforms";
 
 export interface DifferentialEquation {
   id: string;
@@ -17,6 +19,42 @@ const defaultFrequency = DEFAULT_NEW_COMPONENT.frequency;
 const defaultPhase = DEFAULT_NEW_COMPONENT.phase;
 const defaultAmplitude = DEFAULT_NEW_COMPONENT.amplitude;
 
+/** Right-hand side of a source equation as a function of t. */
+const sourceDrive = (source: SourceComponent): { plain: string; latex: string } => {
+  switch (source.waveform) {
+    case "ac": {
+      const amplitude = source.amplitude ?? defaultAmplitude;
+      const frequency = source.frequency ?? defaultFrequency;
+      const phase = source.phase ?? defaultPhase;
+      const offset = source.offset ?? 0;
+      return {
+        plain: `${offset} + ${amplitude} * sin(2*pi * ${frequency} * t + ${phase})`,
+        latex: `${offset} + ${amplitude}\\sin(2\\pi ${frequency} t + ${phase})`,
+      };
+    }
+    case "pulse": {
+      const { initial, pulsed, delay, rise, fall, width, period } = source.pulse ?? DEFAULT_PULSE;
+      const args = [initial, pulsed, delay, rise, fall, width, period].join(", ");
+      return { plain: `pulse(t; ${args})`, latex: `\\operatorname{pulse}(t;\\ ${args})` };
+    }
+    case "pwl": {
+      const corners = normalizePwlPoints(source.pwl ?? DEFAULT_PWL).map(point => `(${point.time}, ${point.value})`);
+      return { plain: `pwl(t; ${corners.join(", ")})`, latex: `\\operatorname{pwl}(t;\\ ${corners.join(",\\ ")})` };
+    }
+    case "exp": {
+      const { initial, pulsed, riseDelay, riseTau, fallDelay, fallTau } = source.exp ?? DEFAULT_EXP;
+      const args = [initial, pulsed, riseDelay, riseTau, fallDelay, fallTau].join(", ");
+      return { plain: `exp(t; ${args})`, latex: `\\operatorname{exp}(t;\\ ${args})` };
+    }
+    case "expression": {
+      const name = source.expression?.trim() || "f";
+      return { plain: `${name}(t)`, latex: `${name}(t)` };
+    }
+    default:
+      return { plain: `${source.value}`, latex: `${source.value}` };
+  }
+};
+
 export const buildDifferentialEquations = (
   components: CircuitComponent[]
 ): DifferentialEquation[] => {
@@ -49,51 +87,122 @@ export const buildDifferentialEquations = (
         });
         break;
       case "voltage-source": {
-        const header = `${component.id} (Voltage Source)`;
-        if (component.waveform === "ac") {
-          const amplitude = component.amplitude ?? defaultAmplitude;
-          const frequency = component.frequency ?? defaultFrequency;
-          const phase = component.phase ?? defaultPhase;
-          const offset = component.offset ?? 0;
-          equations.push({
-            id: `vs-${component.id}`,
-            label: header,
-            plain: `${voltageLabel(component.from)} - ${voltageLabel(component.to)} = ${offset} + ${amplitude} * sin(2*pi * ${frequency} * t + ${phase})`,
-            latex: `${voltageLabelLatex(component.from)} - ${voltageLabelLatex(component.to)} = ${offset} + ${amplitude}\\sin(2\\pi ${frequency} t + ${phase})`,
-          });
-        } else {
-          equations.push({
-            id: `vs-${component.id}`,
-            label: header,
-            plain: `${voltageLabel(component.from)} - ${voltageLabel(component.to)} = ${component.value}`,
-            latex: `${voltageLabelLatex(component.from)} - ${voltageLabelLatex(component.to)} = ${component.value}`,
-          });
-        }
+        const drive = sourceDrive(component);
+        equations.push({
+          id: `vs-${component.id}`,
+          label: `${component.id} (Voltage Source)`,
+          plain: `${voltageLabel(component.from)} - ${voltageLabel(component.to)} = ${drive.plain}`,
+          latex: `${voltageLabelLatex(component.from)} - ${voltageLabelLatex(component.to)} = ${drive.latex}`,
+        });
         break;
       }
       case "current-source": {
-        const header = `${component.id} (Current Source)`;
-        if (component.waveform === "ac") {
-          const amplitude = component.amplitude ?? defaultAmplitude;
-          const frequency = component.frequency ?? defaultFrequency;
-          const phase = component.phase ?? defaultPhase;
-          const offset = component.offset ?? 0;
+        const drive = sourceDrive(component);
+        equations.push({
+          id: `cs-${component.id}`,
+          label: `${component.id} (Current Source)`,
+          plain: `${currentLabel(component.id)} = ${drive.plain}`,
+          latex: `${currentLabelLatex(component.id)} = ${drive.latex}`,
+        });
+        break;
+      }
+      case "diode": {
+        const saturation = component.saturationCurrent ?? DEFAULT_DIODE_MODEL.saturationCurrent;
+        const nvt = (component.emissionCoefficient ?? DEFAULT_DIODE_MODEL.emissionCoefficient) * THERMAL_VOLTAGE;
+        equations.push({
+          id: `diode-${component.id}`,
+          label: `${component.id} (Diode)`,
+          plain: `${currentLabel(component.id)} = ${saturation} * (exp((${voltageLabel(component.from)} - ${voltageLabel(component.to)}) / ${nvt}) - 1)`,
+          latex: `${currentLabelLatex(component.id)} = ${saturation}\\left(e^{\\frac{${voltageLabelLatex(component.from)} - ${voltageLabelLatex(component.to)}}{${nvt}}} - 1\\right)`,
+        });
+        break;
+      }
+      case "npn":
+      case "pnp": {
+        // Forward-active Ebers–Moll relation; the simulator also models saturation and reverse operation
+        const saturation = component.saturationCurrent ?? DEFAULT_BJT_MODEL.saturationCurrent;
+        const sign = component.kind === "npn" ? "" : "-";
+        const vbe = `${voltageLabel(component.base)} - ${voltageLabel(component.to)}`;
+        const vbeLatex = `${voltageLabelLatex(component.base)} - ${voltageLabelLatex(component.to)}`;
+        equations.push({
+          id: `bjt-${component.id}`,
+          label: `${component.id} (${component.kind.toUpperCase()} collector)`,
+          plain: `${currentLabel(component.id)} = ${sign}${saturation} * (exp(${sign}(${vbe}) / ${THERMAL_VOLTAGE}) - 1)`,
+          latex: `${currentLabelLatex(component.id)} = ${sign}${saturation}\\left(e^{\\frac{${sign}(${vbeLatex})}{${THERMAL_VOLTAGE}}} - 1\\right)`,
+        });
+        equations.push({
+          id: `bjt-base-${component.id}`,
+          label: `${component.id} (${component.kind.toUpperCase()} base)`,
+          plain: `I_B = ${currentLabel(component.id)} / ${component.betaF ?? DEFAULT_BJT_MODEL.betaF}`,
+          latex: `I_B = \\frac{${currentLabelLatex(component.id)}}{${component.betaF ?? DEFAULT_BJT_MODEL.betaF}}`,
+        });
+        break;
+      }
+      case "nmos":
+      case "pmos": {
+        // Saturation-region square law
+        const threshold = component.threshold ?? DEFAULT_MOSFET_MODEL.threshold;
+        const k = component.transconductance ?? DEFAULT_MOSFET_MODEL.transconductance;
+        const lambda = component.lambda ?? DEFAULT_MOSFET_MODEL.lambda;
+        const sign = component.kind === "nmos" ? "" : "-";
+        const vgs = `${sign}(${voltageLabel(component.gate)} - ${voltageLabel(component.to)})`;
+        const vds = `${sign}(${voltageLabel(component.from)} - ${voltageLabel(component.to)})`;
+        const vgsLatex = `${sign}(${voltageLabelLatex(component.gate)} - ${voltageLabelLatex(component.to)})`;
+        const vdsLatex = `${sign}(${voltageLabelLatex(component.from)} - ${voltageLabelLatex(component.to)})`;
+        equations.push({
+          id: `mos-${component.id}`,
+          label: `${component.id} (${component.kind.toUpperCase()})`,
+          plain: `${currentLabel(component.id)} = ${sign}${k / 2} * (${vgs} - ${threshold})^2 * (1 + ${lambda} * ${vds})`,
+          latex: `${currentLabelLatex(component.id)} = ${sign}${k / 2}\\left(${vgsLatex} - ${threshold}\\right)^2\\left(1 + ${lambda}\\,${vdsLatex}\\right)`,
+        });
+        break;
+      }
+      case "vcvs":
+      case "vccs": {
+        const sense = `${voltageLabel(component.controlPos)} - ${voltageLabel(component.controlNeg)}`;
+        const senseLatex = `${voltageLabelLatex(component.controlPos)} - ${voltageLabelLatex(component.controlNeg)}`;
+        if (component.kind === "vcvs") {
           equations.push({
-            id: `cs-${component.id}`,
-            label: header,
-            plain: `${currentLabel(component.id)} = ${offset} + ${amplitude} * sin(2*pi * ${frequency} * t + ${phase})`,
-            latex: `${currentLabelLatex(component.id)} = ${offset} + ${amplitude}\\sin(2\\pi ${frequency} t + ${phase})`,
+            id: `vcvs-${component.id}`,
+            label: `${component.id} (VCVS)`,
+            plain: `${voltageLabel(component.from)} - ${voltageLabel(component.to)} = ${component.value} * (${sense})`,
+            latex: `${voltageLabelLatex(component.from)} - ${voltageLabelLatex(component.to)} = ${component.value}\\left(${senseLatex}\\right)`,
           });
         } else {
           equations.push({
-            id: `cs-${component.id}`,
-            label: header,
-            plain: `${currentLabel(component.id)} = ${component.value}`,
-            latex: `${currentLabelLatex(component.id)} = ${component.value}`,
+            id: `vccs-${component.id}`,
+            label: `${component.id} (VCCS)`,
+            plain: `${currentLabel(component.id)} = ${component.value} * (${sense})`,
+            latex: `${currentLabelLatex(component.id)} = ${component.value}\\left(${senseLatex}\\right)`,
           });
         }
         break;
       }
+      case "ccvs":
+        equations.push({
+          id: `ccvs-${component.id}`,
+          label: `${component.id} (CCVS)`,
+          plain: `${voltageLabel(component.from)} - ${voltageLabel(component.to)} = ${component.value} * ${currentLabel(component.controlSource)}`,
+          latex: `${voltageLabelLatex(component.from)} - ${voltageLabelLatex(component.to)} = ${component.value}\\,${currentLabelLatex(component.controlSource)}`,
+        });
+        break;
+      case "cccs":
+        equations.push({
+          id: `cccs-${component.id}`,
+          label: `${component.id} (CCCS)`,
+          plain: `${currentLabel(component.id)} = ${component.value} * ${currentLabel(component.controlSource)}`,
+          latex: `${currentLabelLatex(component.id)} = ${component.value}\\,${currentLabelLatex(component.controlSource)}`,
+        });
+        break;
+      case "opamp":
+        // Ideal op-amp with negative feedback: virtual short between the inputs
+        equations.push({
+          id: `opamp-${component.id}`,
+          label: `${component.id} (Ideal op-amp)`,
+          plain: `${voltageLabel(component.controlPos)} = ${voltageLabel(component.controlNeg)}`,
+          latex: `${voltageLabelLatex(component.controlPos)} = ${voltageLabelLatex(component.controlNeg)}`,
+        });
+        break;
       default:
         break;
     }
@@ -1,4 +1,4 @@
-import { CircuitComponent } from "./simulator";
+import { CircuitComponent, CircuitWaveform, componentTerminals, mapComponentNodes } from "./simulator";
 
 export type CircuitKind = CircuitComponent["kind"];
 
@@ -12,11 +12,12 @@ export interface NewComponentState {
   from: string;
   to: string;
   value: number;
-  waveform: "dc" | "ac";
+  waveform: CircuitWaveform;
   amplitude: number;
   frequency: number;
   phase: number;
   offset: number;
+  subcircuit?: string; // definition placed when kind is "subcircuit"
 }
 
 export const SNAP_GRID_SIZE = 24;
@@ -69,6 +70,56 @@ export const COMPONENT_LIBRARY: ComponentDefinition[] = [
     label: "Inductor",
     description: "Accumulate magnetic energy and resist changes in current.",
   },
+  {
+    kind: "diode",
+    label: "Diode",
+    description: "Conduct in one direction with an exponential (Shockley) characteristic.",
+  },
+  {
+    kind: "npn",
+    label: "NPN transistor",
+    description: "Bipolar transistor (Ebers–Moll); base current steers collector current.",
+  },
+  {
+    kind: "pnp",
+    label: "PNP transistor",
+    description: "Complementary bipolar transistor conducting from emitter to collector.",
+  },
+  {
+    kind: "nmos",
+    label: "NMOS transistor",
+    description: "Square-law MOSFET switched on by positive gate-source voltage.",
+  },
+  {
+    kind: "pmos",
+    label: "PMOS transistor",
+    description: "Square-law MOSFET switched on by negative gate-source voltage.",
+  },
+  {
+    kind: "vcvs",
+    label: "VCVS",
+    description: "Voltage source set by a gain times a sensed node-pair voltage.",
+  },
+  {
+    kind: "vccs",
+    label: "VCCS",
+    description: "Current source set by a transconductance times a sensed voltage.",
+  },
+  {
+    kind: "ccvs",
+    label: "CCVS",
+    description: "Voltage source set by a transresistance times a sensed branch current.",
+  },
+  {
+    kind: "cccs",
+    label: "CCCS",
+    description: "Current source set by a gain times a sensed branch current.",
+  },
+  {
+    kind: "opamp",
+    label: "Ideal op-amp",
+    description: "Infinite-gain amplifier; with feedback it holds its inputs equal.",
+  },
   {
     kind: "wire",
     label: "Wire",
@@ -95,10 +146,29 @@ export const COMPONENT_COLORS: Record<CircuitKind, string> = {
   inductor: "#a855f7",
   "current-source": "#14b8a6",
   "voltage-source": "#22c55e",
+  diode: "#ef4444",
+  npn: "#eab308",
+  pnp: "#f59e0b",
+  nmos: "#6366f1",
+  pmos: "#ec4899",
+  vcvs: "#84cc16",
+  vccs: "#06b6d4",
+  ccvs: "#65a30d",
+  cccs: "#0891b2",
+  opamp: "#8b5cf6",
+  subcircuit: "#0f766e",
   wire: "#94a3b8",
   ground: "#64748b",
 };
 
+// Starting value for a freshly placed controlled source
+export const CONTROLLED_SOURCE_DEFAULTS: Record<"vcvs" | "vccs" | "ccvs" | "cccs", number> = {
+  vcvs: 10, // V/V
+  vccs: 1e-3, // A/V
+  ccvs: 1000, // ohms
+  cccs: 10, // A/A
+};
+
 export const clamp = (value: number, min: number, max: number) =>
   Math.min(Math.max(value, min), max);
 
@@ -124,12 +194,11 @@ export const sanitizeIdentifier = (raw: string): string => {
 export const extractCircuitNodes = (components: CircuitComponent[]): string[] => {
   const nodes = new Set<string>();
   components.forEach(component => {
-    if (component.from) {
-      nodes.add(component.from);
-    }
-    if (component.to) {
-      nodes.add(component.to);
-    }
+    componentTerminals(component).forEach(node => {
+      if (node) {
+        nodes.add(node);
+      }
+    });
     if (component.kind === "ground") {
       nodes.add(component.from);
       nodes.add(CANONICAL_GROUND);
@@ -138,6 +207,16 @@ export const extractCircuitNodes = (components: CircuitComponent[]): string[] =>
   return Array.from(nodes);
 };
 
+/** Whether any terminal of a component (from/to, base, gate, sense pair or port) is on the node */
+export const componentUsesNode = (component: CircuitComponent, node: string): boolean =>
+  componentTerminals(component).includes(node);
+
+/** Move every terminal on a node in `aliases` to the node it maps to, for renames and merges */
+export const renameCircuitNodes = (
+  components: CircuitComponent[],
+  aliases: Map<string, string>
+): CircuitComponent[] => components.map(component => mapComponentNodes(component, node => aliases.get(node) ?? node));
+
 export const createInitialPositions = (nodes: string[]): Record<string, NodePosition> => {
   const positions: Record<string, NodePosition> = {};
   nodes.forEach((node, index) => {
@@ -183,6 +262,14 @@ export const stageComponentFromKind = (
       offset: current.offset ?? DEFAULT_NEW_COMPONENT.offset,
     };
   }
+  if (kind === "vcvs" || kind === "vccs" || kind === "ccvs" || kind === "cccs") {
+    return {
+      ...current,
+      kind,
+      value: CONTROLLED_SOURCE_DEFAULTS[kind],
+      waveform: "dc",
+    };
+  }
   return {
     ...current,
     kind,
@@ -202,6 +289,26 @@ export const componentGlyph = (kind: CircuitKind) => {
       return "I";
     case "voltage-source":
       return "V";
+    case "diode":
+      return "D";
+    case "npn":
+    case "pnp":
+      return "Q";
+    case "nmos":
+    case "pmos":
+      return "M";
+    case "vcvs":
+      return "E";
+    case "vccs":
+      return "G";
+    case "ccvs":
+      return "H";
+    case "cccs":
+      return "F";
+    case "opamp":
+      return "U";
+    case "subcircuit":
+      return "X";
     case "ground":
       return "G";
     case "wire":
@@ -229,6 +336,7 @@ export const hotkeyToKind: Record<string, CircuitKind> = {
   v: "voltage-source",
   i: "current-source",
   g: "ground",
+  d: "diode",
 };
 
 export const stageComponentForNodeDrop = (
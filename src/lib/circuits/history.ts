@@ -0,0 +1,127 @@
+import type { CircuitComponent } from "./simulator";
+import type { NodePosition } from "./editorModel";
+import type { SubcircuitDefinition } from "./subcircuits";
+
+// Undo/redo for the schematic editor. Each command stores the document before
+// and after it ran; documents are immutable React state, so snapshots share
+// structure and stay cheap. Commands with the same coalesce key merge while
+// their gesture is open (a node drag, typing into one inspector field), so a
+// whole drag undoes in one step.
+
+export interface CircuitProbe {
+  id: string;
+  nodeId: string;
+  offset: { x: number; y: number };
+}
+
+export interface CircuitDocument {
+  components: CircuitComponent[];
+  nodePositions: Record<string, NodePosition>;
+  extraNodes: string[];
+  probes: CircuitProbe[];
+  subcircuits: SubcircuitDefinition[];
+}
+
+export type CircuitCommandKind = "add" | "remove" | "move" | "rename" | "retarget" | "wire" | "edit" | "load";
+
+export interface CommandDescriptor {
+  kind: CircuitCommandKind;
+  label: string;
+  coalesceKey?: string;
+}
+
+export interface CircuitCommand<TDocument = CircuitDocument> extends CommandDescriptor {
+  id: string;
+  before: TDocument;
+  after: TDocument;
+}
+
+export interface CommandHistory<TDocument = CircuitDocument> {
+  past: CircuitCommand<TDocument>[];
+  future: CircuitCommand<TDocument>[];
+  openKey: string | null; // coalesce key of the gesture still in progress
+  nextId: number;
+}
+
+export const HISTORY_LIMIT = 200;
+
+export const createHistory = <TDocument = CircuitDocument>(): CommandHistory<TDocument> => ({
+  past: [],
+  future: [],
+  openKey: null,
+  nextId: 1,
+});
+
+// Structural equality of plain document data
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const [left, right] = [a as Record<string, unknown>, b as Record<string, unknown>];
+  const keys = Object.keys(left);
+  return keys.length === Object.keys(right).length && keys.every(key => key in right && sameValue(left[key], right[key]));
+};
+
+/**
+ * True when no top-level field changed, i.e. nothing to record. A field
+ * rebuilt with the same contents (an effect normalizing a restored document)
+ * is unchanged too, so it cannot push an entry that clears the redo stack.
+ */
+export const sameDocument = <TDocument extends object>(a: TDocument, b: TDocument): boolean =>
+  (Object.keys(a) as Array<keyof TDocument>).every(key => sameValue(a[key], b[key]));
+
+/**
+ * Push a command, dropping the redo stack. A command whose coalesce key
+ * matches the open gesture extends the previous entry instead.
+ */
+export function recordCommand<TDocument>(
+  history: CommandHistory<TDocument>,
+  descriptor: CommandDescriptor,
+  before: TDocument,
+  after: TDocument,
+  limit = HISTORY_LIMIT
+): CommandHistory<TDocument> {
+  const previous = history.past[history.past.length - 1];
+  if (previous && descriptor.coalesceKey && descriptor.coalesceKey === history.openKey) {
+    return {
+      ...history,
+      past: [...history.past.slice(0, -1), { ...previous, after }],
+      future: [],
+    };
+  }
+  const command: CircuitCommand<TDocument> = { ...descriptor, id: `cmd-${history.nextId}`, before, after };
+  return {
+    past: [...history.past, command].slice(-limit),
+    future: [],
+    openKey: descriptor.coalesceKey ?? null,
+    nextId: history.nextId + 1,
+  };
+}
+
+/** End the current gesture so the next command starts a new step. */
+export const closeGesture = <TDocument>(history: CommandHistory<TDocument>): CommandHistory<TDocument> =>
+  history.openKey === null ? history : { ...history, openKey: null };
+
+export function undoCommand<TDocument>(
+  history: CommandHistory<TDocument>
+): { history: CommandHistory<TDocument>; document: TDocument; command: CircuitCommand<TDocument> } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    history: { ...history, past: history.past.slice(0, -1), future: [command, ...history.future], openKey: null },
+    document: command.before,
+    command,
+  };
+}
+
+export function redoCommand<TDocument>(
+  history: CommandHistory<TDocument>
+): { history: CommandHistory<TDocument>; document: TDocument; command: CircuitCommand<TDocument> } | null {
+  const [command, ...future] = history.future;
+  if (!command) return null;
+  return {
+    history: { ...history, past: [...history.past, command], future, openKey: null },
+    document: command.after,
+    command,
+  };
+}
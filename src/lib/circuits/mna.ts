@@ -0,0 +1,404 @@
+import type { CircuitComponent, ControlledSourceKind, NonlinearKind, PreparedCircuit } from "./simulator";
+import {
+  BjtModel,
+  DEFAULT_BJT_MODEL,
+  DEFAULT_DIODE_MODEL,
+  DEFAULT_MOSFET_MODEL,
+  DiodeModel,
+  MosfetModel,
+  THERMAL_VOLTAGE,
+  criticalVoltage,
+  evaluateBjt,
+  evaluateJunction,
+  evaluateMosfet,
+  limitFetVoltage,
+  limitJunctionVoltage,
+} from "./devices";
+
+// Modified nodal analysis building blocks shared by the transient, DC and AC
+// solvers: real-valued stamps, the dense linear solve and Newton–Raphson
+// companion models for the nonlinear devices.
+
+export type Matrix = number[][];
+
+export const EPS = 1e-9;
+
+// Newton–Raphson convergence criteria (SPICE defaults)
+export const DEFAULT_MAX_NEWTON_ITERATIONS = 100;
+const RELTOL = 1e-3;
+const VNTOL = 1e-6;
+const ABSTOL = 1e-12;
+
+export type NonlinearComponent = Extract<CircuitComponent, { kind: NonlinearKind }>;
+export type ControlledSource = Extract<CircuitComponent, { kind: ControlledSourceKind }>;
+
+export const createMatrix = (size: number): Matrix =>
+  Array.from({ length: size }, () => new Array(size).fill(0));
+
+export const nodeIndexOf = (circuit: PreparedCircuit, node: string): number => circuit.nodeIndex[node] ?? -1;
+
+export const voltageAt = (circuit: PreparedCircuit, solution: number[], node: string): number => {
+  const idx = circuit.nodeIndex[node];
+  if (idx === undefined) return 0;
+  return solution[idx] ?? 0;
+};
+
+export const stampConductance = (G: Matrix, n1: number, n2: number, value: number) => {
+  if (Math.abs(value) < EPS) return;
+  if (n1 >= 0) {
+    G[n1][n1] += value;
+    if (n2 >= 0) {
+      G[n1][n2] -= value;
+    }
+  }
+  if (n2 >= 0) {
+    G[n2][n2] += value;
+    if (n1 >= 0) {
+      G[n2][n1] -= value;
+    }
+  }
+};
+
+export const stampCurrent = (rhs: number[], n1: number, n2: number, value: number) => {
+  if (n1 >= 0) rhs[n1] += value;
+  if (n2 >= 0) rhs[n2] -= value;
+};
+
+/**
+ * Stamp a branch-current unknown (voltage source, inductor) between two nodes.
+ */
+export const stampBranch = (G: Matrix, row: number, n1: number, n2: number) => {
+  if (n1 >= 0) {
+    G[n1][row] += 1;
+    G[row][n1] += 1;
+  }
+  if (n2 >= 0) {
+    G[n2][row] -= 1;
+    G[row][n2] -= 1;
+  }
+};
+
+/**
+ * Matrix row of the branch current a current-controlled source senses.
+ */
+export const controlBranchRow = (
+  source: Extract<CircuitComponent, { kind: "ccvs" | "cccs" }>,
+  branchRow: Record<string, number>
+): number => {
+  const row = source.controlSource === source.id ? undefined : branchRow[source.controlSource];
+  if (row === undefined) {
+    throw new Error(
+      `${source.id} must sense the current of a voltage source, inductor or voltage-output controlled source; "${source.controlSource}" is not one.`
+    );
+  }
+  return row;
+};
+
+/**
+ * Stamp a linear controlled source. Voltage outputs (vcvs, ccvs, opamp) use
+ * their own row in `branchRow`; current outputs inject into `from` like an
+ * independent current source. The ideal op-amp is a nullor: its row forces
+ * V(controlPos) = V(controlNeg) while the output current is unconstrained.
+ */
+export const stampControlledSource = (
+  circuit: PreparedCircuit,
+  G: Matrix,
+  source: ControlledSource,
+  branchRow: Record<string, number>
+) => {
+  const n1 = nodeIndexOf(circuit, source.from);
+  const n2 = nodeIndexOf(circuit, source.to);
+  const add = (row: number, col: number, value: number) => {
+    if (row >= 0 && col >= 0) G[row][col] += value;
+  };
+
+  switch (source.kind) {
+    case "vcvs": {
+      // V(from) − V(to) − gain·(V(cp) − V(cn)) = 0
+      const row = branchRow[source.id];
+      stampBranch(G, row, n1, n2);
+      add(row, nodeIndexOf(circuit, source.controlPos), -source.value);
+      add(row, nodeIndexOf(circuit, source.controlNeg), source.value);
+      break;
+    }
+    case "opamp": {
+      const row = branchRow[source.id];
+      add(n1, row, 1);
+      add(n2, row, -1);
+      add(row, nodeIndexOf(circuit, source.controlPos), 1);
+      add(row, nodeIndexOf(circuit, source.controlNeg), -1);
+      break;
+    }
+    case "ccvs": {
+      // V(from) − V(to) − r·I(control) = 0
+      const row = branchRow[source.id];
+      stampBranch(G, row, n1, n2);
+      add(row, controlBranchRow(source, branchRow), -source.value);
+      break;
+    }
+    case "vccs": {
+      const cp = nodeIndexOf(circuit, source.controlPos);
+      const cn = nodeIndexOf(circuit, source.controlNeg);
+      add(n1, cp, -source.value);
+      add(n1, cn, source.value);
+      add(n2, cp, source.value);
+      add(n2, cn, -source.value);
+      break;
+    }
+    case "cccs": {
+      const control = controlBranchRow(source, branchRow);
+      add(n1, control, -source.value);
+      add(n2, control, source.value);
+      break;
+    }
+  }
+};
+
+/**
+ * Current through a controlled source after a solve: the branch unknown for
+ * voltage outputs, the injected current for current outputs.
+ */
+export const controlledSourceCurrent = (
+  circuit: PreparedCircuit,
+  source: ControlledSource,
+  solution: number[],
+  branchRow: Record<string, number>
+): number => {
+  switch (source.kind) {
+    case "vccs":
+      return (
+        source.value *
+        (voltageAt(circuit, solution, source.controlPos) - voltageAt(circuit, solution, source.controlNeg))
+      );
+    case "cccs":
+      return source.value * (solution[controlBranchRow(source, branchRow)] ?? 0);
+    default:
+      return solution[branchRow[source.id]] ?? 0;
+  }
+};
+
+export const solveLinear = (A: Matrix, z: number[]): number[] => {
+  const n = z.length;
+  for (let i = 0; i < n; i++) {
+    let maxRow = i;
+    let maxVal = Math.abs(A[i][i]);
+    for (let k = i + 1; k < n; k++) {
+      const val = Math.abs(A[k][i]);
+      if (val > maxVal) {
+        maxVal = val;
+        maxRow = k;
+      }
+    }
+    if (maxVal < EPS) {
+      throw new Error("Circuit matrix is singular");
+    }
+    if (maxRow !== i) {
+      [A[i], A[maxRow]] = [A[maxRow], A[i]];
+      [z[i], z[maxRow]] = [z[maxRow], z[i]];
+    }
+    for (let k = i + 1; k < n; k++) {
+      const factor = A[k][i] / A[i][i];
+      if (Math.abs(factor) < EPS) continue;
+      for (let j = i; j < n; j++) {
+        A[k][j] -= factor * A[i][j];
+      }
+      z[k] -= factor * z[i];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = z[i];
+    for (let j = i + 1; j < n; j++) {
+      sum -= A[i][j] * x[j];
+    }
+    x[i] = sum / A[i][i];
+  }
+  return x;
+};
+
+/**
+ * Newton convergence test: every unknown moved less than the relative
+ * tolerance plus an absolute floor (volts for nodes, amps for branches).
+ */
+export const hasConverged = (next: number[], previous: number[], nodeCount: number): boolean =>
+  next.every((value, index) => {
+    const prior = previous[index] ?? 0;
+    const floor = index < nodeCount ? VNTOL : ABSTOL;
+    return Math.abs(value - prior) <= RELTOL * Math.max(Math.abs(value), Math.abs(prior)) + floor;
+  });
+
+const resolveDiodeModel = (diode: Extract<CircuitComponent, { kind: "diode" }>): DiodeModel => ({
+  saturationCurrent: diode.saturationCurrent ?? DEFAULT_DIODE_MODEL.saturationCurrent,
+  emissionCoefficient: diode.emissionCoefficient ?? DEFAULT_DIODE_MODEL.emissionCoefficient,
+});
+
+const resolveBjtModel = (bjt: Extract<CircuitComponent, { kind: "npn" | "pnp" }>): BjtModel => ({
+  saturationCurrent: bjt.saturationCurrent ?? DEFAULT_BJT_MODEL.saturationCurrent,
+  betaF: bjt.betaF ?? DEFAULT_BJT_MODEL.betaF,
+  betaR: bjt.betaR ?? DEFAULT_BJT_MODEL.betaR,
+});
+
+const resolveMosfetModel = (fet: Extract<CircuitComponent, { kind: "nmos" | "pmos" }>): MosfetModel => ({
+  threshold: fet.threshold ?? DEFAULT_MOSFET_MODEL.threshold,
+  transconductance: fet.transconductance ?? DEFAULT_MOSFET_MODEL.transconductance,
+  lambda: fet.lambda ?? DEFAULT_MOSFET_MODEL.lambda,
+});
+
+// A controlling voltage sign·(V(pos) − V(neg)) and the value the device was evaluated at
+export interface ControlVoltage {
+  pos: string;
+  neg: string;
+  sign: number;
+  value: number;
+}
+
+export interface DeviceLinearization {
+  nodes: string[]; // terminals that carry current
+  currents: number[]; // current flowing into the device at each terminal
+  controls: ControlVoltage[];
+  partials: number[][]; // ∂currents[k] / ∂controls[m]
+  current: number; // reported branch current: diode, collector or drain current
+  limited: boolean;
+}
+
+/** Controlling voltages each device was last evaluated at, for step limiting. */
+export type DeviceState = Map<string, number[]>;
+
+/**
+ * Evaluate a device at the voltages in `solution`. With `limit` set, junction
+ * and gate voltages are clamped relative to the previous evaluation so Newton
+ * steps stay inside the region where the exponential/square law is usable.
+ */
+export const linearizeDevice = (
+  circuit: PreparedCircuit,
+  device: NonlinearComponent,
+  solution: number[],
+  state: DeviceState,
+  limit: boolean
+): DeviceLinearization => {
+  const previous = state.get(device.id) ?? [0, 0];
+  const voltage = (pos: string, neg: string) =>
+    voltageAt(circuit, solution, pos) - voltageAt(circuit, solution, neg);
+
+  if (device.kind === "diode") {
+    const model = resolveDiodeModel(device);
+    const nvt = model.emissionCoefficient * THERMAL_VOLTAGE;
+    const raw = voltage(device.from, device.to);
+    const vd = limit
+      ? limitJunctionVoltage(raw, previous[0], nvt, criticalVoltage(model.saturationCurrent, nvt))
+      : raw;
+    state.set(device.id, [vd]);
+    const point = evaluateJunction(vd, model.saturationCurrent, nvt);
+    return {
+      nodes: [device.from, device.to],
+      currents: [point.current, -point.current],
+      controls: [{ pos: device.from, neg: device.to, sign: 1, value: vd }],
+      partials: [[point.conductance], [-point.conductance]],
+      current: point.current,
+      limited: vd !== raw,
+    };
+  }
+
+  if (device.kind === "npn" || device.kind === "pnp") {
+    const model = resolveBjtModel(device);
+    const polarity = device.kind === "npn" ? 1 : -1;
+    const vcrit = criticalVoltage(model.saturationCurrent, THERMAL_VOLTAGE);
+    const rawVbe = polarity * voltage(device.base, device.to);
+    const rawVbc = polarity * voltage(device.base, device.from);
+    const vbe = limit ? limitJunctionVoltage(rawVbe, previous[0], THERMAL_VOLTAGE, vcrit) : rawVbe;
+    const vbc = limit ? limitJunctionVoltage(rawVbc, previous[1] ?? 0, THERMAL_VOLTAGE, vcrit) : rawVbc;
+    state.set(device.id, [vbe, vbc]);
+    const point = evaluateBjt(vbe, vbc, model);
+    const collector = polarity * point.collector;
+    const base = polarity * point.base;
+    return {
+      nodes: [device.from, device.base, device.to],
+      currents: [collector, base, -(collector + base)],
+      controls: [
+        { pos: device.base, neg: device.to, sign: polarity, value: vbe },
+        { pos: device.base, neg: device.from, sign: polarity, value: vbc },
+      ],
+      partials: [
+        [polarity * point.dCollector[0], polarity * point.dCollector[1]],
+        [polarity * point.dBase[0], polarity * point.dBase[1]],
+        [
+          -polarity * (point.dCollector[0] + point.dBase[0]),
+          -polarity * (point.dCollector[1] + point.dBase[1]),
+        ],
+      ],
+      current: collector,
+      limited: vbe !== rawVbe || vbc !== rawVbc,
+    };
+  }
+
+  const fet = device as Extract<CircuitComponent, { kind: "nmos" | "pmos" }>;
+  const model = resolveMosfetModel(fet);
+  const polarity = fet.kind === "nmos" ? 1 : -1;
+  const rawVgs = polarity * voltage(fet.gate, fet.to);
+  const vds = polarity * voltage(fet.from, fet.to);
+  const vgs = limit ? limitFetVoltage(rawVgs, previous[0]) : rawVgs;
+  state.set(fet.id, [vgs, vds]);
+  // The channel is symmetric: with vds < 0 the terminals swap roles
+  const reversed = vds < 0;
+  const drain = reversed ? fet.to : fet.from;
+  const source = reversed ? fet.from : fet.to;
+  const point = reversed ? evaluateMosfet(vgs - vds, -vds, model) : evaluateMosfet(vgs, vds, model);
+  const current = polarity * point.current;
+  return {
+    nodes: [drain, source],
+    currents: [current, -current],
+    controls: [
+      { pos: fet.gate, neg: source, sign: polarity, value: reversed ? vgs - vds : vgs },
+      { pos: drain, neg: source, sign: polarity, value: reversed ? -vds : vds },
+    ],
+    partials: [
+      [polarity * point.gm, polarity * point.gds],
+      [-polarity * point.gm, -polarity * point.gds],
+    ],
+    current: reversed ? -current : current,
+    limited: vgs !== rawVgs,
+  };
+};
+
+/**
+ * Visit the small-signal conductance entries ∂I/∂V of a linearized device.
+ */
+export const stampDeviceJacobian = (
+  circuit: PreparedCircuit,
+  device: DeviceLinearization,
+  add: (row: number, col: number, value: number) => void
+) => {
+  device.nodes.forEach((node, k) => {
+    const row = nodeIndexOf(circuit, node);
+    if (row < 0) return;
+    device.controls.forEach((control, m) => {
+      const g = device.partials[k][m];
+      if (g === 0) return;
+      const pos = nodeIndexOf(circuit, control.pos);
+      const neg = nodeIndexOf(circuit, control.neg);
+      if (pos >= 0) add(row, pos, g * control.sign);
+      if (neg >= 0) add(row, neg, -g * control.sign);
+    });
+  });
+};
+
+// Companion model of a nonlinear device: I ≈ I0 + Σ ∂I/∂v · (v − v0)
+export const stampLinearized = (
+  circuit: PreparedCircuit,
+  G: Matrix,
+  rhs: number[],
+  device: DeviceLinearization
+) => {
+  stampDeviceJacobian(circuit, device, (row, col, value) => {
+    G[row][col] += value;
+  });
+  device.nodes.forEach((node, k) => {
+    const row = nodeIndexOf(circuit, node);
+    if (row < 0) return;
+    let equivalent = device.currents[k];
+    device.controls.forEach((control, m) => {
+      equivalent -= device.partials[k][m] * control.value;
+    });
+    rhs[row] -= equivalent;
+  });
+};
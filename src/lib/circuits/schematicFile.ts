@@ -0,0 +1,297 @@
+import type { CircuitComponent, SimulationConfig } from "./simulator";
+import type { ACSweepConfig } from "./acAnalysis";
+import { COMPONENT_COLORS, NodePosition, extractCircuitNodes } from "./editorModel";
+import type { CircuitDocument, CircuitProbe } from "./history";
+import type { SubcircuitDefinition, SubcircuitParameter } from "./subcircuits";
+
+// Saved schematics. Files carry a format tag and a version; `migrateSchematic`
+// upgrades older versions one step at a time before validation, so a new
+// version only needs a new entry in MIGRATIONS.
+
+export const SCHEMATIC_FORMAT = "graph-whiz-circuit";
+export const SCHEMATIC_VERSION = 1;
+export const SCHEMATIC_AUTOSAVE_KEY = "circuit-schematic-autosave";
+
+export interface SchematicViewport {
+  origin: { x: number; y: number };
+  scale: number;
+}
+
+export interface SchematicState extends CircuitDocument {
+  simConfig: Pick<SimulationConfig, "dt" | "duration">;
+  acSweep?: ACSweepConfig;
+  viewport: SchematicViewport;
+}
+
+export interface SchematicFile extends SchematicState {
+  format: typeof SCHEMATIC_FORMAT;
+  version: number;
+  savedAt: string;
+}
+
+type RawSchematic = Record<string, unknown> & { version: number };
+
+const DEFAULT_VIEWPORT: SchematicViewport = { origin: { x: 0, y: 0 }, scale: 1 };
+
+/**
+ * Each entry upgrades a document from version `n` to `n + 1`:
+ * - 0 → 1: unversioned exports, either a bare component list (the shape of a
+ *   preset) or an object holding `components` and optionally `nodePositions`.
+ */
+const MIGRATIONS: Record<number, (document: RawSchematic) => RawSchematic> = {
+  0: document => ({
+    format: SCHEMATIC_FORMAT,
+    version: 1,
+    components: document.components,
+    nodePositions: document.nodePositions ?? {},
+    probes: document.probes ?? [],
+    simConfig: document.simConfig,
+    acSweep: document.acSweep,
+    viewport: document.viewport ?? DEFAULT_VIEWPORT,
+    subcircuits: [],
+    extraNodes: [],
+  }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+type FieldKind = "node" | "name" | "number" | "nodes";
+
+const FIELD_CHECKS: Record<FieldKind, { test: (value: unknown) => boolean; description: string }> = {
+  node: { test: value => typeof value === "string", description: "a node name" },
+  name: { test: value => typeof value === "string" && value !== "", description: "an id" },
+  number: { test: isFiniteNumber, description: "a number" },
+  nodes: {
+    test: value => Array.isArray(value) && value.every(node => typeof node === "string"),
+    description: "a list of node names",
+  },
+};
+
+// Reject the file unless every listed field of `entry` passes its check
+const requireFields = (entry: Record<string, unknown>, fields: Record<string, FieldKind>, owner: string) => {
+  Object.entries(fields).forEach(([field, kind]) => {
+    if (!FIELD_CHECKS[kind].test(entry[field])) {
+      throw new Error(`${owner} needs ${field} to be ${FIELD_CHECKS[kind].description}.`);
+    }
+  });
+};
+
+// Fields each kind needs beyond id, kind and from; the simulator and the
+// editor read them without checking, so a file missing one is rejected
+const COMPONENT_FIELDS: Record<CircuitComponent["kind"], Record<string, FieldKind>> = {
+  wire: { to: "node" },
+  ground: {},
+  resistor: { to: "node", value: "number" },
+  capacitor: { to: "node", value: "number" },
+  inductor: { to: "node", value: "number" },
+  "current-source": { to: "node", value: "number" },
+  "voltage-source": { to: "node", value: "number" },
+  diode: { to: "node" },
+  npn: { to: "node", base: "node" },
+  pnp: { to: "node", base: "node" },
+  nmos: { to: "node", gate: "node" },
+  pmos: { to: "node", gate: "node" },
+  vcvs: { to: "node", controlPos: "node", controlNeg: "node", value: "number" },
+  vccs: { to: "node", controlPos: "node", controlNeg: "node", value: "number" },
+  ccvs: { to: "node", controlSource: "name", value: "number" },
+  cccs: { to: "node", controlSource: "name", value: "number" },
+  opamp: { to: "node", controlPos: "node", controlNeg: "node" },
+  subcircuit: { to: "node", definition: "name", extraPorts: "nodes" },
+};
+
+const validateComponents = (value: unknown, where: string): CircuitComponent[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`${where} must be a list of components.`);
+  }
+  const seen = new Set<string>();
+  return value.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== "string" || typeof entry.from !== "string") {
+      throw new Error(`${where} entry ${index + 1} is missing its id or nodes.`);
+    }
+    if (typeof entry.kind !== "string" || !(entry.kind in COMPONENT_COLORS)) {
+      throw new Error(`${entry.id} has an unknown component kind "${String(entry.kind)}".`);
+    }
+    requireFields(entry, COMPONENT_FIELDS[entry.kind as CircuitComponent["kind"]], `${entry.id} (${entry.kind})`);
+    if (seen.has(entry.id)) {
+      throw new Error(`${where} contains ${entry.id} twice.`);
+    }
+    seen.add(entry.id);
+    return entry as unknown as CircuitComponent;
+  });
+};
+
+const validateParameters = (value: unknown, subcircuit: string): SubcircuitParameter[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Subcircuit ${subcircuit} must list its parameters.`);
+  }
+  return value.map((entry, index) => {
+    const owner = `Subcircuit ${subcircuit} parameter ${index + 1}`;
+    if (!isRecord(entry)) throw new Error(`${owner} is not a parameter.`);
+    requireFields(entry, { name: "name", defaultValue: "number" }, owner);
+    return { name: entry.name as string, defaultValue: entry.defaultValue as number };
+  });
+};
+
+const validateACSweep = (value: unknown): ACSweepConfig | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) throw new Error("The AC sweep must be an object.");
+  requireFields(value, { startFrequency: "number", stopFrequency: "number", pointsPerDecade: "number" }, "The AC sweep");
+  return {
+    startFrequency: value.startFrequency as number,
+    stopFrequency: value.stopFrequency as number,
+    pointsPerDecade: value.pointsPerDecade as number,
+  };
+};
+
+const validatePositions = (value: unknown): Record<string, NodePosition> => {
+  if (!isRecord(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      (entry): entry is [string, NodePosition] =>
+        isRecord(entry[1]) && isFiniteNumber(entry[1].x) && isFiniteNumber(entry[1].y)
+    )
+  );
+};
+
+/** Upgrade any supported version to the current one. */
+export function migrateSchematic(raw: unknown): SchematicFile {
+  let document: RawSchematic;
+  if (Array.isArray(raw)) {
+    document = { version: 0, components: raw };
+  } else if (isRecord(raw)) {
+    if (raw.format !== undefined && raw.format !== SCHEMATIC_FORMAT) {
+      throw new Error(`This file is a ${String(raw.format)} document, not a circuit schematic.`);
+    }
+    document = { ...raw, version: isFiniteNumber(raw.version) ? raw.version : 0 };
+  } else {
+    throw new Error("A schematic file must contain a JSON object.");
+  }
+
+  if (document.version > SCHEMATIC_VERSION) {
+    throw new Error(
+      `This schematic was saved by a newer version of the editor (format ${document.version}; this one reads up to ${SCHEMATIC_VERSION}).`
+    );
+  }
+  while (document.version < SCHEMATIC_VERSION) {
+    const migrate = MIGRATIONS[document.version];
+    if (!migrate) {
+      throw new Error(`Schematic format ${document.version} is not supported.`);
+    }
+    document = migrate(document);
+  }
+
+  const components = validateComponents(document.components, "The schematic");
+  const subcircuits = (Array.isArray(document.subcircuits) ? document.subcircuits : []).map(
+    (entry: unknown, index: number): SubcircuitDefinition => {
+      if (!isRecord(entry) || typeof entry.id !== "string" || !Array.isArray(entry.ports)) {
+        throw new Error(`Subcircuit ${index + 1} is missing its id or ports.`);
+      }
+      return {
+        id: entry.id,
+        name: typeof entry.name === "string" ? entry.name : entry.id,
+        ports: entry.ports.map(String),
+        parameters: validateParameters(entry.parameters, entry.id),
+        components: validateComponents(entry.components, `Subcircuit ${entry.id}`),
+      };
+    }
+  );
+  const simConfig = isRecord(document.simConfig) ? document.simConfig : {};
+  const viewport = isRecord(document.viewport) ? document.viewport : {};
+  const origin = isRecord(viewport.origin) ? viewport.origin : {};
+  const nodes = new Set(extractCircuitNodes(components));
+
+  return {
+    format: SCHEMATIC_FORMAT,
+    version: SCHEMATIC_VERSION,
+    savedAt: typeof document.savedAt === "string" ? document.savedAt : "",
+    components,
+    nodePositions: validatePositions(document.nodePositions),
+    extraNodes: Array.isArray(document.extraNodes)
+      ? document.extraNodes.filter((node): node is string => typeof node === "string" && !nodes.has(node))
+      : [],
+    probes: Array.isArray(document.probes)
+      ? document.probes.filter(
+          (probe): probe is CircuitProbe =>
+            isRecord(probe) && typeof probe.id === "string" && typeof probe.nodeId === "string" && isRecord(probe.offset)
+        )
+      : [],
+    subcircuits,
+    simConfig: {
+      dt: isFiniteNumber(simConfig.dt) && simConfig.dt > 0 ? simConfig.dt : 0.0005,
+      duration: isFiniteNumber(simConfig.duration) && simConfig.duration > 0 ? simConfig.duration : 0.1,
+    },
+    acSweep: validateACSweep(document.acSweep),
+    viewport: {
+      origin: {
+        x: isFiniteNumber(origin.x) ? origin.x : 0,
+        y: isFiniteNumber(origin.y) ? origin.y : 0,
+      },
+      scale: isFiniteNumber(viewport.scale) && viewport.scale > 0 ? viewport.scale : 1,
+    },
+  };
+}
+
+export const serializeSchematic = (state: SchematicState): string =>
+  JSON.stringify(
+    {
+      format: SCHEMATIC_FORMAT,
+      version: SCHEMATIC_VERSION,
+      savedAt: new Date().toISOString(),
+      components: state.components,
+      nodePositions: state.nodePositions,
+      extraNodes: state.extraNodes,
+      probes: state.probes,
+      subcircuits: state.subcircuits,
+      simConfig: { dt: state.simConfig.dt, duration: state.simConfig.duration },
+      acSweep: state.acSweep,
+      viewport: state.viewport,
+    } satisfies SchematicFile,
+    null,
+    2
+  );
+
+export const parseSchematic = (text: string): SchematicFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  return migrateSchematic(raw);
+};
+
+/**
+ * Save the working schematic to localStorage
+ */
+export function saveSchematicDraft(state: SchematicState): void {
+  try {
+    localStorage.setItem(SCHEMATIC_AUTOSAVE_KEY, serializeSchematic(state));
+  } catch (error) {
+    console.error("Failed to autosave schematic:", error);
+  }
+}
+
+/**
+ * Load the autosaved schematic, or null when there is none or it cannot be read
+ */
+export function loadSchematicDraft(): SchematicFile | null {
+  try {
+    const saved = localStorage.getItem(SCHEMATIC_AUTOSAVE_KEY);
+    return saved ? parseSchematic(saved) : null;
+  } catch (error) {
+    console.error("Failed to recover autosaved schematic:", error);
+    return null;
+  }
+}
+
+export function clearSchematicDraft(): void {
+  try {
+    localStorage.removeItem(SCHEMATIC_AUTOSAVE_KEY);
+  } catch (error) {
+    console.error("Failed to clear autosaved schematic:", error);
+  }
+}
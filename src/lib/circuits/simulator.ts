@@ -1,6 +1,52 @@
-﻿export type CircuitNode = string;
+﻿import {
+  DEFAULT_MAX_NEWTON_ITERATIONS,
+  Matrix,
+  controlledSourceCurrent,
+  createMatrix,
+  hasConverged,
+  linearizeDevice,
+  nodeIndexOf,
+  solveLinear,
+  stampBranch,
+  stampConductance,
+  stampCurrent,
+  stampControlledSource,
+  stampLinearized,
+  voltageAt,
+} from "./mna";
+import { createWaveform } from "./waveforms";
+import type { DefinitionContext } from "../definitionContext";
+
+export type CircuitNode = string;
+
+export type CircuitWaveform = "dc" | "ac" | "pulse" | "pwl" | "exp" | "expression";
+
+/** SPICE-style trapezoidal pulse train; a zero period produces a single pulse. */
+export interface PulseWaveform {
+  initial: number;
+  pulsed: number;
+  delay: number; // seconds
+  rise: number; // seconds
+  fall: number; // seconds
+  width: number; // seconds at the pulsed level
+  period: number; // seconds
+}
 
-export type CircuitWaveform = "dc" | "ac";
+/** One corner of a piecewise-linear waveform. */
+export interface PwlPoint {
+  time: number; // seconds
+  value: number;
+}
+
+/** SPICE EXP source: exponential rise towards `pulsed`, then decay back to `initial`. */
+export interface ExpWaveform {
+  initial: number;
+  pulsed: number;
+  riseDelay: number; // seconds
+  riseTau: number; // seconds
+  fallDelay: number; // seconds
+  fallTau: number; // seconds
+}
 
 export type CircuitComponent =
   | {
@@ -47,6 +93,10 @@ export type CircuitComponent =
       frequency?: number; // Hz
       phase?: number; // radians
       offset?: number; // optional DC offset for AC
+      pulse?: PulseWaveform;
+      pwl?: PwlPoint[];
+      exp?: ExpWaveform;
+      expression?: string; // name of a one-argument function f(t) from the expression list
     }
   | {
       id: string;
@@ -59,11 +109,156 @@ export type CircuitComponent =
       frequency?: number; // Hz
       phase?: number; // radians
       offset?: number; // optional DC offset for AC
+      pulse?: PulseWaveform;
+      pwl?: PwlPoint[];
+      exp?: ExpWaveform;
+      expression?: string; // name of a one-argument function f(t) from the expression list
+    }
+  | {
+      id: string;
+      kind: "diode";
+      from: CircuitNode; // anode
+      to: CircuitNode; // cathode
+      saturationCurrent?: number; // amps
+      emissionCoefficient?: number;
+    }
+  | {
+      id: string;
+      kind: "npn" | "pnp";
+      from: CircuitNode; // collector
+      to: CircuitNode; // emitter
+      base: CircuitNode;
+      saturationCurrent?: number; // amps
+      betaF?: number; // forward current gain
+      betaR?: number; // reverse current gain
+    }
+  | {
+      id: string;
+      kind: "nmos" | "pmos";
+      from: CircuitNode; // drain
+      to: CircuitNode; // source (body is tied to source)
+      gate: CircuitNode;
+      threshold?: number; // volts, magnitude for pmos
+      transconductance?: number; // A/V², k = µCox·W/L
+      lambda?: number; // 1/V
+    }
+  | {
+      id: string;
+      kind: "vcvs" | "vccs";
+      from: CircuitNode; // output +
+      to: CircuitNode; // output −
+      controlPos: CircuitNode;
+      controlNeg: CircuitNode;
+      value: number; // gain (V/V) for vcvs, transconductance (A/V) for vccs
+    }
+  | {
+      id: string;
+      kind: "ccvs" | "cccs";
+      from: CircuitNode; // output +
+      to: CircuitNode; // output −
+      controlSource: string; // id of the element whose branch current is sensed
+      value: number; // transresistance (ohms) for ccvs, current gain (A/A) for cccs
+    }
+  | {
+      id: string;
+      kind: "opamp";
+      from: CircuitNode; // output
+      to: CircuitNode; // output reference, usually ground
+      controlPos: CircuitNode; // non-inverting input
+      controlNeg: CircuitNode; // inverting input
+    }
+  | {
+      id: string;
+      kind: "subcircuit";
+      from: CircuitNode; // first port of the definition
+      to: CircuitNode; // second port
+      definition: string; // SubcircuitDefinition id
+      extraPorts: CircuitNode[]; // third and later ports, in definition order
+      params?: Record<string, number>; // overrides of the definition's parameter defaults
     };
 
+export type NonlinearKind = "diode" | "npn" | "pnp" | "nmos" | "pmos";
+
+export const NONLINEAR_KINDS: NonlinearKind[] = ["diode", "npn", "pnp", "nmos", "pmos"];
+
+export const isNonlinearKind = (kind: CircuitComponent["kind"]): kind is NonlinearKind =>
+  (NONLINEAR_KINDS as string[]).includes(kind);
+
+export const isNonlinearComponent = (
+  component: CircuitComponent
+): component is Extract<CircuitComponent, { kind: NonlinearKind }> => isNonlinearKind(component.kind);
+
+export type ControlledSourceKind = "vcvs" | "vccs" | "ccvs" | "cccs" | "opamp";
+
+export const CONTROLLED_SOURCE_KINDS: ControlledSourceKind[] = ["vcvs", "vccs", "ccvs", "cccs", "opamp"];
+
+export const isControlledSourceKind = (kind: CircuitComponent["kind"]): kind is ControlledSourceKind =>
+  (CONTROLLED_SOURCE_KINDS as string[]).includes(kind);
+
+export const isControlledSource = (
+  component: CircuitComponent
+): component is Extract<CircuitComponent, { kind: ControlledSourceKind }> =>
+  isControlledSourceKind(component.kind);
+
+/**
+ * Elements whose current is an MNA unknown and can therefore be sensed by a
+ * current-controlled source.
+ */
+export const hasBranchCurrent = (component: CircuitComponent): boolean =>
+  component.kind === "voltage-source" ||
+  component.kind === "inductor" ||
+  component.kind === "vcvs" ||
+  component.kind === "ccvs" ||
+  component.kind === "opamp";
+
+/**
+ * Every node a component connects to. Transistors expose their control
+ * terminal (base or gate) and voltage-controlled sources their sense pair in
+ * addition to from/to.
+ */
+export const componentTerminals = (component: CircuitComponent): CircuitNode[] => {
+  switch (component.kind) {
+    case "ground":
+      return component.to ? [component.from, component.to] : [component.from];
+    case "npn":
+    case "pnp":
+      return [component.from, component.base, component.to];
+    case "nmos":
+    case "pmos":
+      return [component.from, component.gate, component.to];
+    case "vcvs":
+    case "vccs":
+    case "opamp":
+      return [component.from, component.to, component.controlPos, component.controlNeg];
+    case "subcircuit":
+      return [component.from, component.to, ...component.extraPorts];
+    default:
+      return [component.from, component.to];
+  }
+};
+
+/** Rewrite every node reference of a component, including control terminals. */
+export const mapComponentNodes = (component: CircuitComponent, mapNode: (node: string) => string): CircuitComponent => {
+  const next = { ...component, from: mapNode(component.from) } as CircuitComponent;
+  if (component.to !== undefined) next.to = mapNode(component.to);
+  if (next.kind === "npn" || next.kind === "pnp") {
+    next.base = mapNode(next.base);
+  } else if (next.kind === "nmos" || next.kind === "pmos") {
+    next.gate = mapNode(next.gate);
+  } else if (next.kind === "vcvs" || next.kind === "vccs" || next.kind === "opamp") {
+    next.controlPos = mapNode(next.controlPos);
+    next.controlNeg = mapNode(next.controlNeg);
+  } else if (next.kind === "subcircuit") {
+    next.extraPorts = next.extraPorts.map(mapNode);
+  }
+  return next;
+};
+
 export interface SimulationConfig {
   dt: number;
   duration: number;
+  maxNewtonIterations?: number; // per timestep, only used when nonlinear devices are present
+  context?: DefinitionContext; // resolves the user functions behind expression waveforms
 }
 
 export interface SimulationResult {
@@ -76,16 +271,13 @@ export interface SimulationResult {
 
 const GROUND_NAMES = new Set(["0", "gnd", "ground", "GND", "GROUND"]);
 
-type Matrix = number[][];
-
-const EPS = 1e-9;
-
 export interface SimulationMetrics {
   steps: number;
   assemblyMs: number;
   solveMs: number;
   matrixSize: number;
   componentCount: number;
+  newtonIterations?: number; // total across all timesteps
 }
 
 const now = (): number => {
@@ -95,31 +287,21 @@ const now = (): number => {
   return Date.now();
 };
 
-export function simulateCircuit(components: CircuitComponent[], config: SimulationConfig): SimulationResult {
+export type ActiveComponent = Exclude<CircuitComponent, { kind: "ground" }>;
+
+export interface PreparedCircuit {
+  components: ActiveComponent[];
+  nodes: string[]; // sorted, ground excluded
+  nodeIndex: Record<string, number>;
+}
+
+/**
+ * Fold every ground-bound node into the canonical ground, drop the ground
+ * markers and index the remaining nodes. Shared by all analyses so they agree
+ * on node naming and matrix layout.
+ */
+export function prepareCircuit(components: CircuitComponent[]): PreparedCircuit {
   const sanitized = components.filter(Boolean);
-  if (sanitized.length === 0) {
-    const dt = Math.max(config.dt, 1e-6);
-    const steps = Math.max(1, Math.floor(config.duration / dt));
-    const time = new Float32Array(steps);
-    for (let i = 0; i < steps; i++) {
-      time[i] = i * dt;
-    }
-    return {
-      time,
-      nodeVoltages: {},
-      nodeCurrents: {},
-      componentCurrents: {},
-      metrics: {
-        steps,
-        assemblyMs: 0,
-        solveMs: 0,
-        matrixSize: 0,
-        componentCount: 0,
-      },
-    };
-  }
-  const dt = Math.max(config.dt, 1e-6);
-  const steps = Math.max(1, Math.floor(config.duration / dt));
   const canonicalGround = "gnd";
   const groundBindings = new Set<string>();
   sanitized.forEach(component => {
@@ -136,6 +318,10 @@ export function simulateCircuit(components: CircuitComponent[], config: Simulati
   if (groundBindings.size === 0) {
     throw new Error("Circuit requires at least one ground reference. Add a ground component.");
   }
+  const instance = sanitized.find(component => component.kind === "subcircuit");
+  if (instance) {
+    throw new Error(`${instance.id} is a subcircuit instance; flatten subcircuits before simulating.`);
+  }
 
   const normalizeNode = (node: string): string => {
     if (!node) return node;
@@ -145,22 +331,27 @@ export function simulateCircuit(components: CircuitComponent[], config: Simulati
     return node;
   };
 
-  type ActiveComponent = Exclude<CircuitComponent, { kind: "ground" }>;
-
   const workingComponents: ActiveComponent[] = sanitized
     .filter((component): component is ActiveComponent => component.kind !== "ground")
     .map(component => {
       const updated = { ...component } as ActiveComponent;
       updated.from = normalizeNode(component.from);
       updated.to = normalizeNode(component.to);
+      if (updated.kind === "npn" || updated.kind === "pnp") {
+        updated.base = normalizeNode(updated.base);
+      } else if (updated.kind === "nmos" || updated.kind === "pmos") {
+        updated.gate = normalizeNode(updated.gate);
+      } else if (updated.kind === "vcvs" || updated.kind === "vccs" || updated.kind === "opamp") {
+        updated.controlPos = normalizeNode(updated.controlPos);
+        updated.controlNeg = normalizeNode(updated.controlNeg);
+      }
       return updated;
     });
 
   const nodeSet = new Set<string>();
 
   workingComponents.forEach(comp => {
-    nodeSet.add(comp.from);
-    nodeSet.add(comp.to);
+    componentTerminals(comp).forEach(node => nodeSet.add(node));
   });
 
   const nodeList = [...nodeSet].filter(node => !GROUND_NAMES.has(node));
@@ -170,6 +361,39 @@ export function simulateCircuit(components: CircuitComponent[], config: Simulati
     nodeIndex[node] = idx;
   });
 
+  return { components: workingComponents, nodes: nodeList, nodeIndex };
+}
+
+export const isGroundNode = (node: string): boolean => GROUND_NAMES.has(node);
+
+export function simulateCircuit(components: CircuitComponent[], config: SimulationConfig): SimulationResult {
+  const sanitized = components.filter(Boolean);
+  if (sanitized.length === 0) {
+    const dt = Math.max(config.dt, 1e-6);
+    const steps = Math.max(1, Math.floor(config.duration / dt));
+    const time = new Float32Array(steps);
+    for (let i = 0; i < steps; i++) {
+      time[i] = i * dt;
+    }
+    return {
+      time,
+      nodeVoltages: {},
+      nodeCurrents: {},
+      componentCurrents: {},
+      metrics: {
+        steps,
+        assemblyMs: 0,
+        solveMs: 0,
+        matrixSize: 0,
+        componentCount: 0,
+      },
+    };
+  }
+  const dt = Math.max(config.dt, 1e-6);
+  const steps = Math.max(1, Math.floor(config.duration / dt));
+  const circuit = prepareCircuit(sanitized);
+  const { components: workingComponents, nodes: nodeList } = circuit;
+
   const voltageSources = workingComponents.filter(comp => comp.kind === "voltage-source") as Extract<
     CircuitComponent,
     { kind: "voltage-source" }
@@ -189,8 +413,11 @@ export function simulateCircuit(components: CircuitComponent[], config: Simulati
   const resistive = workingComponents.filter(
     comp => comp.kind === "resistor" || comp.kind === "wire"
   ) as Extract<CircuitComponent, { kind: "resistor" | "wire" }>[];
+  const nonlinear = workingComponents.filter(isNonlinearComponent);
+  const controlledSources = workingComponents.filter(isControlledSource);
+  const controlledBranches = controlledSources.filter(hasBranchCurrent);
 
-  const dimension = nodeList.length + voltageSources.length + inductors.length;
+  const dimension = nodeList.length + voltageSources.length + inductors.length + controlledBranches.length;
   const matrixSize = Math.max(1, dimension);
 
   const time = new Float32Array(steps);
@@ -210,89 +437,27 @@ export function simulateCircuit(components: CircuitComponent[], config: Simulati
   const capacitorState = new Map<string, number>();
   const inductorState = new Map<string, number>();
 
-  const getNodeIndex = (node: string): number => {
-    if (GROUND_NAMES.has(node)) return -1;
-    return nodeIndex[node] ?? -1;
-  };
-
-  const stampConductance = (G: Matrix, n1: number, n2: number, value: number) => {
-    if (Math.abs(value) < EPS) return;
-    if (n1 >= 0) {
-      G[n1][n1] += value;
-      if (n2 >= 0) {
-        G[n1][n2] -= value;
-      }
-    }
-    if (n2 >= 0) {
-      G[n2][n2] += value;
-      if (n1 >= 0) {
-        G[n2][n1] -= value;
-      }
-    }
-  };
-
-  const stampCurrent = (rhs: number[], n1: number, n2: number, value: number) => {
-    if (n1 >= 0) rhs[n1] += value;
-    if (n2 >= 0) rhs[n2] -= value;
-  };
-
-  const evaluateSource = (
-    source:
-      | Extract<CircuitComponent, { kind: "voltage-source" }>
-      | Extract<CircuitComponent, { kind: "current-source" }>,
-    t: number
-  ) => {
-    if (source.waveform === "ac") {
-      const amplitude = source.amplitude ?? source.value;
-      const frequency = source.frequency ?? 50;
-      const phase = source.phase ?? 0;
-      const offset = source.offset ?? 0;
-      return offset + amplitude * Math.sin(2 * Math.PI * frequency * t + phase);
-    }
-    return source.value;
-  };
+  const getNodeIndex = (node: string): number => nodeIndexOf(circuit, node);
 
-  const solveLinear = (A: Matrix, z: number[]): number[] => {
-    const n = z.length;
-    for (let i = 0; i < n; i++) {
-      let maxRow = i;
-      let maxVal = Math.abs(A[i][i]);
-      for (let k = i + 1; k < n; k++) {
-        const val = Math.abs(A[k][i]);
-        if (val > maxVal) {
-          maxVal = val;
-          maxRow = k;
-        }
-      }
-      if (maxVal < EPS) {
-        throw new Error("Circuit matrix is singular");
-      }
-      if (maxRow !== i) {
-        [A[i], A[maxRow]] = [A[maxRow], A[i]];
-        [z[i], z[maxRow]] = [z[maxRow], z[i]];
-      }
-      for (let k = i + 1; k < n; k++) {
-        const factor = A[k][i] / A[i][i];
-        if (Math.abs(factor) < EPS) continue;
-        for (let j = i; j < n; j++) {
-          A[k][j] -= factor * A[i][j];
-        }
-        z[k] -= factor * z[i];
-      }
-    }
-    const x = new Array(n).fill(0);
-    for (let i = n - 1; i >= 0; i--) {
-      let sum = z[i];
-      for (let j = i + 1; j < n; j++) {
-        sum -= A[i][j] * x[j];
-      }
-      x[i] = sum / A[i][i];
-    }
-    return x;
-  };
+  const sourceWaveforms = new Map<string, (t: number) => number>();
+  [...voltageSources, ...currentSources].forEach(source => {
+    sourceWaveforms.set(source.id, createWaveform(source, config.context));
+  });
+  const evaluateSource = (source: { id: string }, t: number) => sourceWaveforms.get(source.id)(t);
 
   const voltageSourceOffset = nodeList.length;
   const inductorOffset = nodeList.length + voltageSources.length;
+  const controlledOffset = inductorOffset + inductors.length;
+  const branchRow: Record<string, number> = {};
+  voltageSources.forEach((src, index) => {
+    branchRow[src.id] = voltageSourceOffset + index;
+  });
+  inductors.forEach((ind, index) => {
+    branchRow[ind.id] = inductorOffset + index;
+  });
+  controlledBranches.forEach((source, index) => {
+    branchRow[source.id] = controlledOffset + index;
+  });
 
   const metrics: SimulationMetrics = {
     steps,
@@ -302,104 +467,125 @@ export function simulateCircuit(components: CircuitComponent[], config: Simulati
     componentCount: workingComponents.length,
   };
 
-  const G: Matrix = Array.from({ length: matrixSize }, () => new Array(matrixSize).fill(0));
+  const G: Matrix = createMatrix(matrixSize);
   const rhs = new Array(matrixSize).fill(0);
   const stampedCurrentSources = new Array(currentSources.length).fill(0);
 
-  const getVoltageAt = (node: string, solution: number[]): number => {
-    if (GROUND_NAMES.has(node)) return 0;
-    const idx = nodeIndex[node];
-    if (idx === undefined) return 0;
-    return solution[idx] ?? 0;
-  };
+  const getVoltageAt = (node: string, solution: number[]): number => voltageAt(circuit, solution, node);
+
+  // Controlling voltages each device was last evaluated at, for step limiting
+  const deviceState = new Map<string, number[]>();
+
+  const maxIterations = Math.max(1, Math.floor(config.maxNewtonIterations ?? DEFAULT_MAX_NEWTON_ITERATIONS));
+  let newtonIterations = 0;
+  let previousSolution: number[] = new Array(matrixSize).fill(0);
 
   for (let step = 0; step < steps; step++) {
     const t = step * dt;
     time[step] = t;
 
-    for (let row = 0; row < matrixSize; row++) {
-      rhs[row] = 0;
-      const rowRef = G[row];
-      for (let col = 0; col < matrixSize; col++) {
-        rowRef[col] = 0;
-      }
-    }
-
     nodeList.forEach(node => {
       nodeCurrents[node][step] = 0;
     });
 
-    for (let i = 0; i < stampedCurrentSources.length; i++) {
-      stampedCurrentSources[i] = 0;
-    }
-
-    const assemblyStart = now();
-
-    resistive.forEach(res => {
-      const value = res.kind === "wire" ? 1e-6 : Math.max(res.value, 1e-6);
-      const conductance = 1 / value;
-      const n1 = getNodeIndex(res.from);
-      const n2 = getNodeIndex(res.to);
-      stampConductance(G, n1, n2, conductance);
-    });
-
-    capacitors.forEach(cap => {
-      const Ceq = cap.value / dt;
-      const prevV = capacitorState.get(cap.id) ?? 0;
-      const n1 = getNodeIndex(cap.from);
-      const n2 = getNodeIndex(cap.to);
-      stampConductance(G, n1, n2, Ceq);
-      const history = Ceq * prevV;
-      stampCurrent(rhs, n1, n2, history);
-    });
-
-    inductors.forEach((ind, index) => {
-      const row = inductorOffset + index;
-      const n1 = getNodeIndex(ind.from);
-      const n2 = getNodeIndex(ind.to);
-      if (n1 >= 0) {
-        G[n1][row] += 1;
-        G[row][n1] += 1;
-      }
-      if (n2 >= 0) {
-        G[n2][row] -= 1;
-        G[row][n2] -= 1;
+    // Linear circuits solve once; nonlinear ones iterate from the previous step's solution
+    let guess = previousSolution;
+    let solution = guess;
+    let converged = nonlinear.length === 0;
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      for (let row = 0; row < matrixSize; row++) {
+        rhs[row] = 0;
+        const rowRef = G[row];
+        for (let col = 0; col < matrixSize; col++) {
+          rowRef[col] = 0;
+        }
       }
-      const coeff = -(ind.value / dt);
-      G[row][row] += coeff;
-      const prevCurrent = inductorState.get(ind.id) ?? 0;
-      rhs[row] += coeff * prevCurrent;
-    });
 
-    voltageSources.forEach((src, index) => {
-      const row = voltageSourceOffset + index;
-      const n1 = getNodeIndex(src.from);
-      const n2 = getNodeIndex(src.to);
-      if (n1 >= 0) {
-        G[n1][row] += 1;
-        G[row][n1] += 1;
+      for (let i = 0; i < stampedCurrentSources.length; i++) {
+        stampedCurrentSources[i] = 0;
       }
-      if (n2 >= 0) {
-        G[n2][row] -= 1;
-        G[row][n2] -= 1;
-      }
-      const value = evaluateSource(src, t);
-      rhs[row] += value;
-    });
 
-    currentSources.forEach((src, index) => {
-      const value = evaluateSource(src, t);
-      const n1 = getNodeIndex(src.from);
-      const n2 = getNodeIndex(src.to);
-      stampCurrent(rhs, n1, n2, value);
-      stampedCurrentSources[index] = value;
-    });
-
-    metrics.assemblyMs += now() - assemblyStart;
+      const assemblyStart = now();
+
+      resistive.forEach(res => {
+        const value = res.kind === "wire" ? 1e-6 : Math.max(res.value, 1e-6);
+        const conductance = 1 / value;
+        const n1 = getNodeIndex(res.from);
+        const n2 = getNodeIndex(res.to);
+        stampConductance(G, n1, n2, conductance);
+      });
+
+      capacitors.forEach(cap => {
+        const Ceq = cap.value / dt;
+        const prevV = capacitorState.get(cap.id) ?? 0;
+        const n1 = getNodeIndex(cap.from);
+        const n2 = getNodeIndex(cap.to);
+        stampConductance(G, n1, n2, Ceq);
+        const history = Ceq * prevV;
+        stampCurrent(rhs, n1, n2, history);
+      });
+
+      inductors.forEach((ind, index) => {
+        const row = inductorOffset + index;
+        const n1 = getNodeIndex(ind.from);
+        const n2 = getNodeIndex(ind.to);
+        stampBranch(G, row, n1, n2);
+        const coeff = -(ind.value / dt);
+        G[row][row] += coeff;
+        const prevCurrent = inductorState.get(ind.id) ?? 0;
+        rhs[row] += coeff * prevCurrent;
+      });
+
+      voltageSources.forEach((src, index) => {
+        const row = voltageSourceOffset + index;
+        const n1 = getNodeIndex(src.from);
+        const n2 = getNodeIndex(src.to);
+        stampBranch(G, row, n1, n2);
+        const value = evaluateSource(src, t);
+        rhs[row] += value;
+      });
+
+      currentSources.forEach((src, index) => {
+        const value = evaluateSource(src, t);
+        const n1 = getNodeIndex(src.from);
+        const n2 = getNodeIndex(src.to);
+        stampCurrent(rhs, n1, n2, value);
+        stampedCurrentSources[index] = value;
+      });
+
+      controlledSources.forEach(source => {
+        stampControlledSource(circuit, G, source, branchRow);
+      });
+
+      let limited = false;
+      nonlinear.forEach(device => {
+        const linearized = linearizeDevice(circuit, device, guess, deviceState, true);
+        limited = limited || linearized.limited;
+        stampLinearized(circuit, G, rhs, linearized);
+      });
+
+      metrics.assemblyMs += now() - assemblyStart;
+
+      const solveStart = now();
+      solution = solveLinear(G, rhs);
+      metrics.solveMs += now() - solveStart;
+
+      if (nonlinear.length === 0) break;
+      newtonIterations += 1;
+      if (!limited && hasConverged(solution, guess, nodeList.length)) {
+        converged = true;
+        break;
+      }
+      guess = solution;
+    }
 
-    const solveStart = now();
-    const solution = solveLinear(G, rhs);
-    metrics.solveMs += now() - solveStart;
+    if (!converged) {
+      throw new Error(
+        `Newton-Raphson iteration did not converge at t = ${t.toExponential(3)} s after ${maxIterations} iterations`
+      );
+    }
+    previousSolution = solution;
 
     nodeList.forEach(node => {
       nodeVoltages[node][step] = getVoltageAt(node, solution);
@@ -470,10 +656,34 @@ export function simulateCircuit(components: CircuitComponent[], config: Simulati
         nodeCurrents[src.to][step] -= current;
       }
     });
+
+    controlledSources.forEach(source => {
+      const current = controlledSourceCurrent(circuit, source, solution, branchRow);
+      componentCurrents[source.id][step] = current;
+      if (!GROUND_NAMES.has(source.from)) {
+        nodeCurrents[source.from][step] += current;
+      }
+      if (!GROUND_NAMES.has(source.to)) {
+        nodeCurrents[source.to][step] -= current;
+      }
+    });
+
+    nonlinear.forEach(device => {
+      const evaluated = linearizeDevice(circuit, device, solution, deviceState, false);
+      componentCurrents[device.id][step] = evaluated.current;
+      evaluated.nodes.forEach((node, k) => {
+        if (!GROUND_NAMES.has(node)) {
+          nodeCurrents[node][step] += evaluated.currents[k];
+        }
+      });
+    });
   }
 
   metrics.assemblyMs = Number(metrics.assemblyMs.toFixed(3));
   metrics.solveMs = Number(metrics.solveMs.toFixed(3));
+  if (nonlinear.length > 0) {
+    metrics.newtonIterations = newtonIterations;
+  }
 
   return {
     time,
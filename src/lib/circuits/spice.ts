@@ -0,0 +1,601 @@
+import {
+  CircuitComponent,
+  PulseWaveform,
+  PwlPoint,
+  SimulationConfig,
+  isGroundNode,
+  mapComponentNodes,
+} from "./simulator";
+import type { ACSweepConfig } from "./acAnalysis";
+import { DEFAULT_SIM_CONFIG } from "./presets";
+import {
+  CANONICAL_GROUND,
+  DEFAULT_NEW_COMPONENT,
+  NodePosition,
+  createInitialPositions,
+  extractCircuitNodes,
+  generateNodeName,
+} from "./editorModel";
+import { SourceComponent, normalizePwlPoints } from "./waveforms";
+import { DEFAULT_BJT_MODEL, DEFAULT_DIODE_MODEL, DEFAULT_MOSFET_MODEL } from "./devices";
+
+// SPICE netlist import/export. Covers the passive and independent-source
+// cards (R, C, L, V, I), SIN/PULSE/PWL/EXP source functions and the `.tran`,
+// `.ac` and `.end` control lines; anything else is skipped with a warning.
+// Export also writes diodes and transistors as D/Q/M cards with `.model` lines,
+// and controlled sources as E/G/F/H cards.
+
+export interface SpiceImportResult {
+  title: string;
+  components: CircuitComponent[];
+  config: SimulationConfig;
+  acSweep: ACSweepConfig | null;
+  nodePositions: Record<string, NodePosition>;
+  warnings: string[];
+}
+
+export interface SpiceExportOptions {
+  title?: string;
+  acSweep?: ACSweepConfig | null;
+}
+
+const SCALE_SUFFIXES: Array<[string, number]> = [
+  ["t", 1e12],
+  ["g", 1e9],
+  ["meg", 1e6],
+  ["k", 1e3],
+  ["", 1],
+  ["m", 1e-3],
+  ["u", 1e-6],
+  ["n", 1e-9],
+  ["p", 1e-12],
+  ["f", 1e-15],
+];
+
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(meg|mil|[tgkmunpf])?[a-z]*$/i;
+
+/**
+ * Parse a SPICE number: `4.7k`, `10uF`, `1meg`, `2.5e-3`. Unit letters after
+ * the scale suffix are ignored, as in SPICE. Returns null for non-numbers.
+ */
+export const parseSpiceNumber = (token: string): number | null => {
+  const match = NUMBER_PATTERN.exec(token.trim());
+  if (!match) return null;
+  const mantissa = parseFloat(match[1]);
+  const suffix = match[2]?.toLowerCase() ?? "";
+  const scale = suffix === "mil" ? 25.4e-6 : SCALE_SUFFIXES.find(([name]) => name === suffix)?.[1] ?? 1;
+  // Round away the binary noise of the scaling (100u is 1e-4, not 9.999…e-5)
+  return parseFloat((mantissa * scale).toPrecision(15));
+};
+
+export const formatSpiceNumber = (value: number): string => {
+  if (!Number.isFinite(value) || value === 0) return "0";
+  const magnitude = Math.abs(value);
+  const [suffix, scale] =
+    SCALE_SUFFIXES.find(([, candidate]) => magnitude >= candidate * (1 - 1e-12)) ??
+    SCALE_SUFFIXES[SCALE_SUFFIXES.length - 1];
+  return `${parseFloat((value / scale).toPrecision(12))}${suffix}`;
+};
+
+const radiansToDegrees = (radians: number) => (radians * 180) / Math.PI;
+const degreesToRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Join `+` continuation lines, drop comments and keep the physical line
+ * number of each logical line for error messages.
+ */
+const logicalLines = (text: string): Array<{ line: number; text: string }> => {
+  const lines: Array<{ line: number; text: string }> = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = raw.replace(/;.*$/, "").trim();
+    if (!content || content.startsWith("*")) return;
+    if (content.startsWith("+") && lines.length > 0) {
+      lines[lines.length - 1].text += ` ${content.slice(1).trim()}`;
+      return;
+    }
+    lines.push({ line: index + 1, text: content });
+  });
+  return lines;
+};
+
+interface SourceSpec {
+  dc: number | null;
+  acMagnitude: number | null;
+  acPhase: number; // degrees
+  sin: number[] | null;
+  pulse: number[] | null;
+  pwl: number[] | null;
+  exp: number[] | null;
+  unsupported: string | null;
+}
+
+const parseSourceSpec = (tokens: string[]): SourceSpec => {
+  const spec: SourceSpec = {
+    dc: null,
+    acMagnitude: null,
+    acPhase: 0,
+    sin: null,
+    pulse: null,
+    pwl: null,
+    exp: null,
+    unsupported: null,
+  };
+  const takeNumbers = (start: number, limit: number): number[] => {
+    const values: number[] = [];
+    for (let i = start; i < tokens.length && values.length < limit; i++) {
+      const value = parseSpiceNumber(tokens[i]);
+      if (value === null) break;
+      values.push(value);
+    }
+    return values;
+  };
+
+  let index = 0;
+  while (index < tokens.length) {
+    const token = tokens[index].toLowerCase();
+    if (token === "dc") {
+      spec.dc = parseSpiceNumber(tokens[index + 1] ?? "") ?? 0;
+      index += 2;
+    } else if (token === "ac") {
+      const values = takeNumbers(index + 1, 2);
+      spec.acMagnitude = values[0] ?? 1;
+      spec.acPhase = values[1] ?? 0;
+      index += 1 + values.length;
+    } else if (token === "sin") {
+      spec.sin = takeNumbers(index + 1, 6);
+      index += 1 + spec.sin.length;
+    } else if (token === "pulse") {
+      spec.pulse = takeNumbers(index + 1, 7);
+      index += 1 + spec.pulse.length;
+    } else if (token === "pwl") {
+      spec.pwl = takeNumbers(index + 1, Infinity);
+      index += 1 + spec.pwl.length;
+    } else if (token === "exp") {
+      spec.exp = takeNumbers(index + 1, 6);
+      index += 1 + spec.exp.length;
+    } else {
+      const value = parseSpiceNumber(token);
+      if (value !== null && spec.dc === null) {
+        spec.dc = value;
+        index += 1;
+      } else {
+        spec.unsupported = spec.unsupported ?? token;
+        index += 1 + takeNumbers(index + 1, Infinity).length;
+      }
+    }
+  }
+  return spec;
+};
+
+/**
+ * Convert a SPICE netlist into editor components. The first line is the
+ * title, node `0` (or `gnd`) becomes a ground symbol, and `.tran` / `.ac`
+ * fill the transient and AC sweep settings.
+ */
+export function parseSpiceNetlist(text: string): SpiceImportResult {
+  const rawLines = text.split(/\r?\n/);
+  const titleIndex = rawLines.findIndex(line => line.trim().length > 0);
+  const title = titleIndex >= 0 ? rawLines[titleIndex].trim().replace(/^\*\s*/, "") : "";
+  const body = titleIndex >= 0 ? ["", ...rawLines.slice(titleIndex + 1)] : [];
+  const lines = logicalLines(body.join("\n")).map(entry => ({ ...entry, line: entry.line + titleIndex }));
+
+  const components: CircuitComponent[] = [];
+  const warnings: string[] = [];
+  const usedIds = new Set<string>();
+  let config: SimulationConfig = { ...DEFAULT_SIM_CONFIG };
+  let hasTran = false;
+  let acSweep: ACSweepConfig | null = null;
+  const pendingSinFrequency: SourceComponent[] = [];
+  // PULSE/EXP timing omitted from the card defaults to the .tran step and stop time
+  const pendingTiming: Array<(step: number, stop: number) => void> = [];
+  let touchesGround = false;
+
+  const nodeName = (raw: string) => {
+    const name = raw.toLowerCase();
+    if (name === "0" || isGroundNode(name)) {
+      touchesGround = true;
+      return "0";
+    }
+    return name;
+  };
+
+  for (const { line, text: content } of lines) {
+    const tokens = content.split(/[\s,()=]+/).filter(Boolean);
+    const head = tokens[0].toLowerCase();
+
+    if (head.startsWith(".")) {
+      if (head === ".end") break;
+      if (head === ".tran") {
+        const [step, stop] = tokens.slice(1, 3).map(parseSpiceNumber);
+        if (!(step > 0) || !(stop > 0)) {
+          throw new Error(`Line ${line}: .tran needs a positive step and stop time.`);
+        }
+        config = { ...config, dt: step, duration: stop };
+        hasTran = true;
+      } else if (head === ".ac") {
+        const variation = tokens[1]?.toLowerCase();
+        const [points, start, stop] = tokens.slice(2, 5).map(parseSpiceNumber);
+        if (!(points > 0) || !(start > 0) || !(stop > start)) {
+          throw new Error(`Line ${line}: .ac needs a point count and 0 < fstart < fstop.`);
+        }
+        let pointsPerDecade = points;
+        if (variation === "oct") {
+          pointsPerDecade = Math.round(points * Math.log2(10));
+        } else if (variation === "lin") {
+          pointsPerDecade = Math.max(1, Math.round(points / Math.max(Math.log10(stop / start), 1)));
+          warnings.push(`Line ${line}: linear .ac sweeps are imported as ${pointsPerDecade} points per decade.`);
+        } else if (variation !== "dec") {
+          throw new Error(`Line ${line}: unknown .ac variation "${tokens[1] ?? ""}".`);
+        }
+        acSweep = { startFrequency: start, stopFrequency: stop, pointsPerDecade };
+      } else {
+        warnings.push(`Line ${line}: ${head} is not supported and was skipped.`);
+      }
+      continue;
+    }
+
+    const letter = head[0];
+    if (!"rclvi".includes(letter)) {
+      warnings.push(`Line ${line}: ${tokens[0]} is not an R, C, L, V or I card and was skipped.`);
+      continue;
+    }
+    if (tokens.length < 3) {
+      throw new Error(`Line ${line}: ${tokens[0]} needs two nodes.`);
+    }
+    if (usedIds.has(head)) {
+      throw new Error(`Line ${line}: duplicate element name ${tokens[0]}.`);
+    }
+    usedIds.add(head);
+    const [n1, n2] = [nodeName(tokens[1]), nodeName(tokens[2])];
+
+    if (letter === "r" || letter === "c" || letter === "l") {
+      const value = parseSpiceNumber(tokens[3] ?? "");
+      if (value === null) {
+        throw new Error(`Line ${line}: ${tokens[0]} needs a numeric value.`);
+      }
+      const kind = letter === "r" ? "resistor" : letter === "c" ? "capacitor" : "inductor";
+      components.push({ id: head, kind, from: n1, to: n2, value });
+      continue;
+    }
+
+    const spec = parseSourceSpec(tokens.slice(3));
+    if (spec.unsupported) {
+      warnings.push(
+        `Line ${line}: ${tokens[0]} uses unsupported "${spec.unsupported}"; only DC, AC, SIN, PULSE, PWL and EXP are read.`
+      );
+    }
+    // SPICE current sources push current from n+ through the source to n-,
+    // i.e. into n-; ours inject into `from`
+    const kind = letter === "v" ? "voltage-source" : "current-source";
+    const [from, to] = letter === "v" ? [n1, n2] : [n2, n1];
+    const dc = spec.dc ?? 0;
+    let source: SourceComponent;
+
+    if (spec.sin) {
+      const [offset = 0, amplitude = 0, frequency = 0, delay = 0, damping = 0, phase = 0] = spec.sin;
+      source = {
+        id: head,
+        kind,
+        from,
+        to,
+        waveform: "ac",
+        value: amplitude,
+        amplitude,
+        frequency,
+        phase: degreesToRadians(phase),
+        offset,
+      };
+      if (frequency === 0) pendingSinFrequency.push(source);
+      if (delay !== 0 || damping !== 0) {
+        warnings.push(`Line ${line}: ${tokens[0]} SIN delay and damping are ignored.`);
+      }
+      if (spec.acMagnitude !== null && spec.acMagnitude !== amplitude) {
+        warnings.push(`Line ${line}: ${tokens[0]} AC magnitude is replaced by the SIN amplitude.`);
+      }
+    } else if (spec.pulse) {
+      const [initial = 0, pulsed = 0, delay = 0, rise, fall, width, period] = spec.pulse;
+      const pulse: PulseWaveform = { initial, pulsed, delay, rise: 0, fall: 0, width: 0, period: 0 };
+      pendingTiming.push((step, stop) => {
+        pulse.rise = rise ?? step;
+        pulse.fall = fall ?? step;
+        pulse.width = width ?? stop;
+        pulse.period = period ?? stop;
+      });
+      source = { id: head, kind, from, to, waveform: "pulse", value: initial, pulse };
+    } else if (spec.pwl) {
+      if (spec.pwl.length < 2 || spec.pwl.length % 2 !== 0) {
+        throw new Error(`Line ${line}: ${tokens[0]} PWL needs time-value pairs.`);
+      }
+      const points: PwlPoint[] = [];
+      for (let index = 0; index < spec.pwl.length; index += 2) {
+        points.push({ time: spec.pwl[index], value: spec.pwl[index + 1] });
+      }
+      const pwl = normalizePwlPoints(points);
+      source = { id: head, kind, from, to, waveform: "pwl", value: pwl[0].value, pwl };
+    } else if (spec.exp) {
+      const [initial = 0, pulsed = 0, riseDelay = 0, riseTau, fallDelay, fallTau] = spec.exp;
+      const exp = { initial, pulsed, riseDelay, riseTau: 0, fallDelay: 0, fallTau: 0 };
+      pendingTiming.push(step => {
+        exp.riseTau = riseTau ?? step;
+        exp.fallDelay = fallDelay ?? riseDelay + step;
+        exp.fallTau = fallTau ?? step;
+      });
+      source = { id: head, kind, from, to, waveform: "exp", value: initial, exp };
+    } else if (spec.acMagnitude !== null) {
+      source = {
+        id: head,
+        kind,
+        from,
+        to,
+        waveform: "ac",
+        value: spec.acMagnitude,
+        amplitude: spec.acMagnitude,
+        frequency: DEFAULT_NEW_COMPONENT.frequency,
+        phase: degreesToRadians(spec.acPhase),
+        offset: dc,
+      };
+      warnings.push(
+        `Line ${line}: ${tokens[0]} is AC-only; transient runs drive it at ${DEFAULT_NEW_COMPONENT.frequency} Hz.`
+      );
+    } else {
+      source = { id: head, kind, from, to, waveform: "dc", value: dc };
+    }
+    components.push(source);
+  }
+
+  // SIN without a frequency defaults to one period over the transient run
+  pendingSinFrequency.forEach(source => {
+    source.frequency = hasTran ? 1 / config.duration : DEFAULT_NEW_COMPONENT.frequency;
+  });
+  pendingTiming.forEach(applyDefaults => applyDefaults(config.dt, config.duration));
+
+  // SPICE ground becomes the editor's grounded node plus a ground symbol; every
+  // terminal on `0` moves there, not only from/to
+  let imported = components;
+  if (touchesGround) {
+    const nodes = extractCircuitNodes(components);
+    const groundNode = nodes.includes("n0") ? generateNodeName(nodes) : "n0";
+    let groundId = "g1";
+    for (let index = 2; usedIds.has(groundId); index++) groundId = `g${index}`;
+    imported = [
+      { id: groundId, kind: "ground", from: groundNode, to: CANONICAL_GROUND },
+      ...components.map(component => mapComponentNodes(component, node => (node === "0" ? groundNode : node))),
+    ];
+  }
+
+  return {
+    title,
+    components: imported,
+    config,
+    acSweep,
+    nodePositions: createInitialPositions(extractCircuitNodes(imported)),
+    warnings,
+  };
+}
+
+/**
+ * Merge nodes joined by wires or tied to ground and name each group for the
+ * netlist; grounded groups become node `0`.
+ */
+const netlistNodeNames = (components: CircuitComponent[]): ((node: string) => string) => {
+  const parent = new Map<string, string>();
+  const find = (node: string): string => {
+    const next = parent.get(node) ?? node;
+    if (next === node) return node;
+    const root = find(next);
+    parent.set(node, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  };
+  const GROUND = "\u0000ground";
+
+  components.forEach(component => {
+    if (component.kind === "wire") {
+      union(component.from, component.to);
+    } else if (component.kind === "ground") {
+      union(GROUND, component.from);
+      if (component.to) union(GROUND, component.to);
+    }
+  });
+  extractCircuitNodes(components).forEach(node => {
+    if (isGroundNode(node)) union(GROUND, node);
+  });
+
+  const names = new Map<string, string>();
+  return (node: string) => {
+    const root = find(node);
+    if (root === find(GROUND)) return "0";
+    if (!names.has(root)) {
+      names.set(root, node.replace(/\s+/g, "_"));
+    }
+    return names.get(root)!;
+  };
+};
+
+const elementName = (letter: string, id: string) => {
+  const cleaned = id.replace(/\s+/g, "_");
+  return cleaned.toLowerCase().startsWith(letter.toLowerCase())
+    ? `${letter}${cleaned.slice(1)}`
+    : `${letter}${cleaned}`;
+};
+
+const OPAMP_GAIN = 1e6;
+
+const spiceFunction = (name: string, values: number[]) => `${name}(${values.map(formatSpiceNumber).join(" ")})`;
+
+const sourceSpec = (source: SourceComponent): string => {
+  if (source.waveform === "pulse" && source.pulse) {
+    const { initial, pulsed, delay, rise, fall, width, period } = source.pulse;
+    return spiceFunction("PULSE", [initial, pulsed, delay, rise, fall, width, period]);
+  }
+  if (source.waveform === "pwl" && source.pwl?.length) {
+    return spiceFunction(
+      "PWL",
+      normalizePwlPoints(source.pwl).flatMap(point => [point.time, point.value])
+    );
+  }
+  if (source.waveform === "exp" && source.exp) {
+    const { initial, pulsed, riseDelay, riseTau, fallDelay, fallTau } = source.exp;
+    return spiceFunction("EXP", [initial, pulsed, riseDelay, riseTau, fallDelay, fallTau]);
+  }
+  if (source.waveform !== "ac") {
+    return `DC ${formatSpiceNumber(source.value)}`;
+  }
+  const amplitude = source.amplitude ?? source.value;
+  const offset = source.offset ?? 0;
+  const frequency = source.frequency ?? DEFAULT_NEW_COMPONENT.frequency;
+  const phase = parseFloat(radiansToDegrees(source.phase ?? 0).toPrecision(12));
+  return [
+    `DC ${formatSpiceNumber(offset)}`,
+    `AC ${formatSpiceNumber(amplitude)} ${phase}`,
+    `SIN(${[offset, amplitude, frequency].map(formatSpiceNumber).join(" ")} 0 0 ${phase})`,
+  ].join(" ");
+};
+
+/**
+ * Write editor components as a SPICE netlist. Wires are merged into their
+ * nodes; semiconductors share one `.model` line per distinct set of
+ * parameters, level 1 for MOSFETs with W = L so KP is the editor's k. SPICE
+ * F and H cards sense only voltage sources, so any other element whose current
+ * they sense gets a 0 V source in series, and the ideal op-amp is written as
+ * an E card with a gain of OPAMP_GAIN.
+ */
+export function serializeSpiceNetlist(
+  components: CircuitComponent[],
+  config: SimulationConfig,
+  options: SpiceExportOptions = {}
+): string {
+  const nodeFor = netlistNodeNames(components);
+  const lines: string[] = [options.title?.trim() || "Circuit"];
+  // Model parameters as written (D(IS=10f N=1)) → model name
+  const models = new Map<string, string>();
+  const modelFor = (type: string, parameters: Record<string, number>) => {
+    const spec = `${type}(${Object.entries(parameters)
+      .map(([name, value]) => `${name}=${formatSpiceNumber(value)}`)
+      .join(" ")})`;
+    if (!models.has(spec)) {
+      const count = Array.from(models.keys()).filter(key => key.startsWith(`${type}(`)).length;
+      models.set(spec, `${type}MOD${count + 1}`);
+    }
+    return models.get(spec)!;
+  };
+
+  const byId = new Map(components.map(component => [component.id, component]));
+  const sensed = new Set(
+    components.flatMap(component =>
+      component.kind === "ccvs" || component.kind === "cccs" ? [component.controlSource] : []
+    )
+  );
+  const needsAmmeter = (id: string) => sensed.has(id) && byId.get(id)?.kind !== "voltage-source";
+  const senseNode = (id: string) => `${id.replace(/\s+/g, "_")}_sense`;
+  const senseSource = (id: string) => elementName("V", needsAmmeter(id) ? senseNode(id) : id);
+
+  components.forEach(component => {
+    // Wires and grounds only merge nodes, and a ground need not have a `to`
+    if (component.kind === "wire" || component.kind === "ground") return;
+    const to = needsAmmeter(component.id) ? senseNode(component.id) : nodeFor(component.to);
+    const nodes = `${nodeFor(component.from)} ${to}`;
+    switch (component.kind) {
+      case "resistor":
+        lines.push(`${elementName("R", component.id)} ${nodes} ${formatSpiceNumber(component.value)}`);
+        break;
+      case "capacitor":
+        lines.push(`${elementName("C", component.id)} ${nodes} ${formatSpiceNumber(component.value)}`);
+        break;
+      case "inductor":
+        lines.push(`${elementName("L", component.id)} ${nodes} ${formatSpiceNumber(component.value)}`);
+        break;
+      case "voltage-source":
+        if (component.waveform === "expression") {
+          lines.push(`* ${component.id} is driven by ${component.expression || "f"}(t) and is written at its DC value`);
+        }
+        lines.push(`${elementName("V", component.id)} ${nodes} ${sourceSpec(component)}`);
+        break;
+      case "current-source":
+        if (component.waveform === "expression") {
+          lines.push(`* ${component.id} is driven by ${component.expression || "f"}(t) and is written at its DC value`);
+        }
+        lines.push(
+          `${elementName("I", component.id)} ${nodeFor(component.to)} ${nodeFor(component.from)} ${sourceSpec(component)}`
+        );
+        break;
+      case "diode": {
+        const model = modelFor("D", {
+          IS: component.saturationCurrent ?? DEFAULT_DIODE_MODEL.saturationCurrent,
+          N: component.emissionCoefficient ?? DEFAULT_DIODE_MODEL.emissionCoefficient,
+        });
+        lines.push(`${elementName("D", component.id)} ${nodes} ${model}`);
+        break;
+      }
+      case "npn":
+      case "pnp": {
+        const model = modelFor(component.kind.toUpperCase(), {
+          IS: component.saturationCurrent ?? DEFAULT_BJT_MODEL.saturationCurrent,
+          BF: component.betaF ?? DEFAULT_BJT_MODEL.betaF,
+          BR: component.betaR ?? DEFAULT_BJT_MODEL.betaR,
+        });
+        const terminals = [component.from, component.base, component.to].map(nodeFor).join(" ");
+        lines.push(`${elementName("Q", component.id)} ${terminals} ${model}`);
+        break;
+      }
+      case "nmos":
+      case "pmos": {
+        const threshold = component.threshold ?? DEFAULT_MOSFET_MODEL.threshold;
+        const model = modelFor(component.kind.toUpperCase(), {
+          LEVEL: 1,
+          VTO: component.kind === "pmos" ? -threshold : threshold,
+          KP: component.transconductance ?? DEFAULT_MOSFET_MODEL.transconductance,
+          LAMBDA: component.lambda ?? DEFAULT_MOSFET_MODEL.lambda,
+        });
+        // Drain, gate, source and the body, tied to the source
+        const terminals = [component.from, component.gate, component.to, component.to].map(nodeFor).join(" ");
+        lines.push(`${elementName("M", component.id)} ${terminals} ${model}`);
+        break;
+      }
+      case "vcvs":
+      case "vccs": {
+        const control = `${nodeFor(component.controlPos)} ${nodeFor(component.controlNeg)}`;
+        // G injects into its second node, the editor's vccs into `from`
+        const outputs = component.kind === "vcvs" ? nodes : `${nodeFor(component.to)} ${nodeFor(component.from)}`;
+        const letter = component.kind === "vcvs" ? "E" : "G";
+        lines.push(`${elementName(letter, component.id)} ${outputs} ${control} ${formatSpiceNumber(component.value)}`);
+        break;
+      }
+      case "ccvs":
+        lines.push(
+          `${elementName("H", component.id)} ${nodes} ${senseSource(component.controlSource)} ${formatSpiceNumber(component.value)}`
+        );
+        break;
+      case "cccs":
+        lines.push(
+          `${elementName("F", component.id)} ${nodeFor(component.to)} ${nodeFor(component.from)} ${senseSource(component.controlSource)} ${formatSpiceNumber(component.value)}`
+        );
+        break;
+      case "opamp":
+        lines.push(`* ${component.id} is an ideal op-amp, written with a gain of ${formatSpiceNumber(OPAMP_GAIN)}`);
+        lines.push(
+          `${elementName("E", component.id)} ${nodes} ${nodeFor(component.controlPos)} ${nodeFor(component.controlNeg)} ${formatSpiceNumber(OPAMP_GAIN)}`
+        );
+        break;
+      default:
+        lines.push(`* ${component.id} (${component.kind}) has no netlist card and was skipped`);
+        break;
+    }
+    if (needsAmmeter(component.id)) {
+      lines.push(`${senseSource(component.id)} ${to} ${nodeFor(component.to)} DC 0`);
+    }
+  });
+  models.forEach((name, spec) => lines.push(`.model ${name} ${spec}`));
+
+  lines.push(`.tran ${formatSpiceNumber(config.dt)} ${formatSpiceNumber(config.duration)}`);
+  if (options.acSweep) {
+    const { pointsPerDecade, startFrequency, stopFrequency } = options.acSweep;
+    lines.push(`.ac dec ${pointsPerDecade} ${formatSpiceNumber(startFrequency)} ${formatSpiceNumber(stopFrequency)}`);
+  }
+  lines.push(".end");
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,219 @@
+import { CircuitComponent, componentTerminals, isGroundNode, mapComponentNodes } from "./simulator";
+import { componentGlyph } from "./editorModel";
+
+// Reusable subcircuits. A definition owns its components on local node names;
+// some of those nodes are exposed as ports. Instances wire each port to an
+// outer node and may override the numeric parameters. Every analysis runs on
+// the flattened circuit, where instance-local nodes and component ids are
+// prefixed with the instance id (`x1.r1`, `x1.mid`).
+
+export interface SubcircuitParameter {
+  name: string; // id of the internal component whose value it sets
+  defaultValue: number;
+}
+
+export interface SubcircuitDefinition {
+  id: string;
+  name: string;
+  ports: string[]; // internal node names, in instance terminal order
+  parameters: SubcircuitParameter[];
+  components: CircuitComponent[];
+}
+
+export type SubcircuitInstance = Extract<CircuitComponent, { kind: "subcircuit" }>;
+
+export interface CollapseResult {
+  definition: SubcircuitDefinition;
+  instance: SubcircuitInstance;
+  components: CircuitComponent[]; // the circuit with the selection replaced by the instance
+}
+
+const MAX_NESTING_DEPTH = 16;
+const GROUND = "gnd";
+
+/** Outer nodes of an instance in port order. */
+export const instancePorts = (instance: SubcircuitInstance): string[] => [
+  instance.from,
+  instance.to,
+  ...instance.extraPorts,
+];
+
+const slugify = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "") || "subcircuit";
+
+export const uniqueSubcircuitId = (name: string, definitions: SubcircuitDefinition[]): string => {
+  const base = slugify(name);
+  const taken = new Set(definitions.map(definition => definition.id));
+  if (!taken.has(base)) return base;
+  let index = 2;
+  while (taken.has(`${base}_${index}`)) index++;
+  return `${base}_${index}`;
+};
+
+/** Components whose `value` is their defining quantity: passives, controlled-source gains and DC levels. */
+const hasNumericValue = (component: CircuitComponent): component is CircuitComponent & { value: number } => {
+  if (!("value" in component) || typeof component.value !== "number") return false;
+  if (component.kind === "voltage-source" || component.kind === "current-source") {
+    return component.waveform === "dc";
+  }
+  return true;
+};
+
+/**
+ * Replace the selected components with one instance of a new definition.
+ * Nodes shared with the rest of the circuit become ports; every numeric value
+ * inside becomes a parameter whose default is its current value. Ground
+ * symbols stay in the outer circuit and grounded nodes become the global ground.
+ */
+export function collapseToSubcircuit(
+  components: CircuitComponent[],
+  selectedIds: ReadonlySet<string>,
+  options: { name: string; instanceId: string; definitions: SubcircuitDefinition[] }
+): CollapseResult {
+  const inside = (component: CircuitComponent) => selectedIds.has(component.id) && component.kind !== "ground";
+  const selected = components.filter(inside);
+  const remaining = components.filter(component => !inside(component));
+  if (selected.length === 0) {
+    throw new Error("Select the components to collapse into a subcircuit.");
+  }
+
+  // Current-controlled sources must keep their sensed element on the same side of the boundary
+  components.forEach(component => {
+    if ("controlSource" in component && component.controlSource) {
+      if (selectedIds.has(component.id) !== selectedIds.has(component.controlSource)) {
+        throw new Error(`${component.id} senses ${component.controlSource} across the subcircuit boundary.`);
+      }
+    }
+  });
+
+  const grounded = new Set(
+    components.filter(component => component.kind === "ground").flatMap(component => [component.from, component.to])
+  );
+  const isGrounded = (node: string) => isGroundNode(node) || grounded.has(node);
+  const outsideNodes = new Set(remaining.flatMap(componentTerminals));
+  const ports: string[] = [];
+  selected.forEach(component => {
+    componentTerminals(component).forEach(node => {
+      if (node && outsideNodes.has(node) && !isGrounded(node) && !ports.includes(node)) {
+        ports.push(node);
+      }
+    });
+  });
+  if (ports.length < 2) {
+    throw new Error("A subcircuit needs at least two nodes shared with the rest of the circuit to expose as ports.");
+  }
+
+  // Give internal components short, readable ids: R1, R2, C1…
+  const counters = new Map<string, number>();
+  const renamed = new Map<string, string>();
+  selected.forEach(component => {
+    const glyph = componentGlyph(component.kind).toLowerCase();
+    const count = (counters.get(glyph) ?? 0) + 1;
+    counters.set(glyph, count);
+    renamed.set(component.id, `${glyph}${count}`);
+  });
+  const internal = selected.map(component => {
+    const next = mapComponentNodes(component, node => (node && isGrounded(node) ? GROUND : node));
+    next.id = renamed.get(component.id)!;
+    if ("controlSource" in next && next.controlSource) {
+      next.controlSource = renamed.get(next.controlSource) ?? next.controlSource;
+    }
+    return next;
+  });
+
+  const name = options.name.trim() || "Subcircuit";
+  const definition: SubcircuitDefinition = {
+    id: uniqueSubcircuitId(name, options.definitions),
+    name,
+    ports,
+    parameters: internal.filter(hasNumericValue).map(component => ({
+      name: component.id,
+      defaultValue: component.value,
+    })),
+    components: internal,
+  };
+  const instance: SubcircuitInstance = {
+    id: options.instanceId,
+    kind: "subcircuit",
+    from: ports[0],
+    to: ports[1],
+    definition: definition.id,
+    extraPorts: ports.slice(2),
+    params: {},
+  };
+
+  return { definition, instance, components: [...remaining, instance] };
+}
+
+/** Effective parameter values of an instance: overrides where finite, defaults otherwise. */
+export const instanceParameters = (
+  instance: SubcircuitInstance,
+  definition: SubcircuitDefinition
+): Record<string, number> =>
+  Object.fromEntries(
+    definition.parameters.map(parameter => {
+      const override = instance.params?.[parameter.name];
+      return [parameter.name, Number.isFinite(override) ? override : parameter.defaultValue];
+    })
+  );
+
+const expandInstance = (
+  instance: SubcircuitInstance,
+  lookup: Map<string, SubcircuitDefinition>,
+  stack: string[]
+): CircuitComponent[] => {
+  const definition = lookup.get(instance.definition);
+  if (!definition) {
+    throw new Error(`${instance.id} uses an unknown subcircuit "${instance.definition}".`);
+  }
+  if (stack.includes(definition.id) || stack.length >= MAX_NESTING_DEPTH) {
+    throw new Error(`Subcircuit ${definition.name} contains itself (${[...stack, definition.id].join(" → ")}).`);
+  }
+  const outer = instancePorts(instance);
+  if (outer.length !== definition.ports.length) {
+    throw new Error(
+      `${instance.id} connects ${outer.length} ports but ${definition.name} exposes ${definition.ports.length}.`
+    );
+  }
+
+  const portMap = new Map(definition.ports.map((port, index) => [port, outer[index]]));
+  const mapNode = (node: string) =>
+    !node || isGroundNode(node) ? node : portMap.get(node) ?? `${instance.id}.${node}`;
+  const values = instanceParameters(instance, definition);
+
+  return definition.components.flatMap(component => {
+    const next = mapComponentNodes(component, mapNode);
+    next.id = `${instance.id}.${component.id}`;
+    if ("controlSource" in next && next.controlSource) {
+      next.controlSource = `${instance.id}.${next.controlSource}`;
+    }
+    if (hasNumericValue(next) && component.id in values) {
+      next.value = values[component.id];
+    }
+    if (next.kind === "subcircuit") {
+      return expandInstance(next, lookup, [...stack, definition.id]);
+    }
+    return [next];
+  });
+};
+
+/**
+ * Expand every subcircuit instance (recursively) into plain components. The
+ * result is what the simulator, DC/AC analyses and netlist export consume.
+ */
+export function flattenSubcircuits(
+  components: CircuitComponent[],
+  definitions: SubcircuitDefinition[]
+): CircuitComponent[] {
+  if (!components.some(component => component.kind === "subcircuit")) {
+    return components;
+  }
+  const lookup = new Map(definitions.map(definition => [definition.id, definition]));
+  return components.flatMap(component =>
+    component.kind === "subcircuit" ? expandInstance(component, lookup, []) : [component]
+  );
+}
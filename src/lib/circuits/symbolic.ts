@@ -1,5 +1,7 @@
-import { CircuitComponent } from "./simulator";
+import { CircuitComponent, componentTerminals, hasBranchCurrent, isControlledSource } from "./simulator";
 import { create, all } from "mathjs";
+import { waveformDcValue } from "./waveforms";
+import type { DefinitionContext } from "../definitionContext";
 
 const math = create(all, {});
 
@@ -146,7 +148,10 @@ function solveLinearSystem(matrix: Sym[][], rhs: Sym[]): Sym[] {
 
 const GROUND_NAMES = new Set(["0", "gnd", "GND", "ground", "GROUND"]);
 
-export function solveSymbolicCircuit(components: CircuitComponent[]): SymbolicCircuitResult {
+export function solveSymbolicCircuit(
+  components: CircuitComponent[],
+  context?: DefinitionContext
+): SymbolicCircuitResult {
   resetSimplifyCache();
   const sanitized = components.filter(Boolean);
   const canonicalGround = "gnd";
@@ -182,13 +187,21 @@ export function solveSymbolicCircuit(components: CircuitComponent[]): SymbolicCi
       const updated = { ...component } as ActiveComponent;
       updated.from = normalizeNode(component.from);
       updated.to = normalizeNode(component.to);
+      if (updated.kind === "vcvs" || updated.kind === "vccs" || updated.kind === "opamp") {
+        updated.controlPos = normalizeNode(updated.controlPos);
+        updated.controlNeg = normalizeNode(updated.controlNeg);
+      }
       return updated;
     });
 
   const nodeSet = new Set<string>();
   workingComponents.forEach(component => {
-    if (!GROUND_NAMES.has(component.from)) nodeSet.add(component.from);
-    if (!GROUND_NAMES.has(component.to)) nodeSet.add(component.to);
+    const terminals = isControlledSource(component)
+      ? componentTerminals(component)
+      : [component.from, component.to];
+    terminals.forEach(node => {
+      if (!GROUND_NAMES.has(node)) nodeSet.add(node);
+    });
   });
   const nodeList = Array.from(nodeSet).sort();
   const nodeIndex: Record<string, number> = {};
@@ -204,7 +217,11 @@ export function solveSymbolicCircuit(components: CircuitComponent[]): SymbolicCi
     { kind: "inductor" }
   >[];
 
-  const dimension = nodeList.length + voltageSources.length + inductors.length;
+  const controlledSources = workingComponents.filter(isControlledSource);
+  const controlledBranches = controlledSources.filter(hasBranchCurrent);
+  const controlledOffset = nodeList.length + voltageSources.length + inductors.length;
+
+  const dimension = controlledOffset + controlledBranches.length;
   if (dimension === 0) {
     return { nodeVoltages: {}, branchCurrents: {}, variables: [] };
   }
@@ -274,7 +291,7 @@ export function solveSymbolicCircuit(components: CircuitComponent[]): SymbolicCi
               source.amplitude ?? source.value
             )})`
           )
-        : valueToSymbol(source.value);
+        : valueToSymbol(waveformDcValue(source, context));
     rhs[row] = add(rhs[row], expr);
   });
 
@@ -294,6 +311,77 @@ export function solveSymbolicCircuit(components: CircuitComponent[]): SymbolicCi
     matrix[row][row] = sub(matrix[row][row], coeff);
   });
 
+  const branchRow: Record<string, number> = {};
+  voltageSources.forEach((source, index) => {
+    branchRow[source.id] = nodeList.length + index;
+  });
+  inductors.forEach((inductor, index) => {
+    branchRow[inductor.id] = nodeList.length + voltageSources.length + index;
+  });
+  controlledBranches.forEach((source, index) => {
+    branchRow[source.id] = controlledOffset + index;
+  });
+
+  const addEntry = (row: number, col: number, value: Sym) => {
+    if (row >= 0 && col >= 0) {
+      matrix[row][col] = add(matrix[row][col], value);
+    }
+  };
+  const senseRow = (source: Extract<CircuitComponent, { kind: "ccvs" | "cccs" }>) => {
+    const row = source.controlSource === source.id ? undefined : branchRow[source.controlSource];
+    if (row === undefined) {
+      throw new Error(`${source.id} must sense the current of a branch element; "${source.controlSource}" is not one.`);
+    }
+    return row;
+  };
+
+  // Same stamps as the numeric MNA (see stampControlledSource)
+  controlledSources.forEach(source => {
+    const n1 = getNodeIdx(source.from);
+    const n2 = getNodeIdx(source.to);
+    const row = branchRow[source.id] ?? -1;
+    if (source.kind === "vcvs" || source.kind === "ccvs" || source.kind === "opamp") {
+      addEntry(n1, row, ONE);
+      addEntry(n2, row, normalize("-1"));
+    }
+    if (source.kind === "vcvs" || source.kind === "ccvs") {
+      addEntry(row, n1, ONE);
+      addEntry(row, n2, normalize("-1"));
+    }
+    switch (source.kind) {
+      case "vcvs": {
+        const gain = valueToSymbol(source.value);
+        addEntry(row, getNodeIdx(source.controlPos), normalize(`-(${gain})`));
+        addEntry(row, getNodeIdx(source.controlNeg), gain);
+        break;
+      }
+      case "opamp":
+        addEntry(row, getNodeIdx(source.controlPos), ONE);
+        addEntry(row, getNodeIdx(source.controlNeg), normalize("-1"));
+        break;
+      case "ccvs":
+        addEntry(row, senseRow(source), normalize(`-(${valueToSymbol(source.value)})`));
+        break;
+      case "vccs": {
+        const gm = valueToSymbol(source.value);
+        const cp = getNodeIdx(source.controlPos);
+        const cn = getNodeIdx(source.controlNeg);
+        addEntry(n1, cp, normalize(`-(${gm})`));
+        addEntry(n1, cn, gm);
+        addEntry(n2, cp, gm);
+        addEntry(n2, cn, normalize(`-(${gm})`));
+        break;
+      }
+      case "cccs": {
+        const gain = valueToSymbol(source.value);
+        const control = senseRow(source);
+        addEntry(n1, control, normalize(`-(${gain})`));
+        addEntry(n2, control, gain);
+        break;
+      }
+    }
+  });
+
   const solution = solveLinearSystem(matrix, rhs);
   const nodeResults: Record<string, SymbolicNodeData> = {};
 
@@ -322,6 +410,18 @@ export function solveSymbolicCircuit(components: CircuitComponent[]): SymbolicCi
     return nodeResults[node]?.voltage ?? ZERO;
   };
 
+  controlledSources.forEach(source => {
+    let expr: Sym;
+    if (source.kind === "vccs") {
+      expr = mul(valueToSymbol(source.value), sub(getVoltageExpr(source.controlPos), getVoltageExpr(source.controlNeg)));
+    } else if (source.kind === "cccs") {
+      expr = mul(valueToSymbol(source.value), solution[senseRow(source)] || ZERO);
+    } else {
+      expr = solution[branchRow[source.id]] || ZERO;
+    }
+    branchCurrents[source.id] = expr;
+  });
+
   nodeList.forEach(node => {
     let totalCurrent = ZERO;
     workingComponents.forEach(component => {
@@ -338,7 +438,7 @@ export function solveSymbolicCircuit(components: CircuitComponent[]): SymbolicCi
             totalCurrent = sub(totalCurrent, current);
           }
         }
-      } else if (component.kind === "voltage-source") {
+      } else if (component.kind === "voltage-source" || isControlledSource(component)) {
         const branchCurrent = branchCurrents[component.id] ?? ZERO;
         if (component.from === node) {
           totalCurrent = add(totalCurrent, branchCurrent);
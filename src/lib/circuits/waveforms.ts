@@ -0,0 +1,179 @@
+import type { ASTNode } from "../parser";
+import type { DefinitionContext } from "../definitionContext";
+import { evaluateToNumber } from "../runtime/evaluator";
+import type { CircuitComponent, CircuitWaveform, ExpWaveform, PulseWaveform, PwlPoint } from "./simulator";
+
+// Time-domain source functions. `createWaveform` resolves a source once into
+// a function of time so the transient loop does not re-inspect the source (or
+// look up user functions) at every step.
+
+export type SourceComponent = Extract<CircuitComponent, { kind: "voltage-source" | "current-source" }>;
+
+export const WAVEFORM_LABELS: Record<CircuitWaveform, string> = {
+  dc: "DC",
+  ac: "Sine",
+  pulse: "Pulse",
+  pwl: "Piecewise linear",
+  exp: "Exponential",
+  expression: "Expression f(t)",
+};
+
+export const DEFAULT_PULSE: PulseWaveform = {
+  initial: 0,
+  pulsed: 5,
+  delay: 0,
+  rise: 1e-4,
+  fall: 1e-4,
+  width: 5e-3,
+  period: 1e-2,
+};
+
+export const DEFAULT_PWL: PwlPoint[] = [
+  { time: 0, value: 0 },
+  { time: 5e-3, value: 5 },
+  { time: 1e-2, value: 0 },
+];
+
+export const DEFAULT_EXP: ExpWaveform = {
+  initial: 0,
+  pulsed: 5,
+  riseDelay: 0,
+  riseTau: 1e-3,
+  fallDelay: 1e-2,
+  fallTau: 1e-3,
+};
+
+/**
+ * Fresh parameters for a newly selected waveform, scaled so `level` is the
+ * pulsed or peak value (e.g. volts for a voltage source, amps for a current source).
+ */
+export const defaultWaveformParams = (
+  waveform: CircuitWaveform,
+  level: number
+): Pick<SourceComponent, "pulse" | "pwl" | "exp"> => {
+  switch (waveform) {
+    case "pulse":
+      return { pulse: { ...DEFAULT_PULSE, pulsed: level } };
+    case "pwl":
+      return { pwl: DEFAULT_PWL.map(point => ({ ...point, value: (point.value / 5) * level })) };
+    case "exp":
+      return { exp: { ...DEFAULT_EXP, pulsed: level } };
+    default:
+      return {};
+  }
+};
+
+export const pulseValue = (pulse: PulseWaveform, t: number): number => {
+  const { initial, pulsed, delay, rise, fall, width, period } = pulse;
+  if (t < delay) return initial;
+  const local = period > 0 ? (t - delay) % period : t - delay;
+  if (local < rise) return initial + ((pulsed - initial) * local) / rise;
+  if (local < rise + width) return pulsed;
+  if (local < rise + width + fall) return pulsed + ((initial - pulsed) * (local - rise - width)) / fall;
+  return initial;
+};
+
+/** Linear interpolation between corners, holding the first and last values outside the table. */
+export const pwlValue = (points: PwlPoint[], t: number): number => {
+  if (points.length === 0) return 0;
+  if (t <= points[0].time) return points[0].value;
+  for (let index = 1; index < points.length; index++) {
+    const next = points[index];
+    if (t <= next.time) {
+      const previous = points[index - 1];
+      const span = next.time - previous.time;
+      return span > 0 ? previous.value + ((next.value - previous.value) * (t - previous.time)) / span : next.value;
+    }
+  }
+  return points[points.length - 1].value;
+};
+
+export const expValue = (exp: ExpWaveform, t: number): number => {
+  const { initial, pulsed, riseDelay, riseTau, fallDelay, fallTau } = exp;
+  if (t < riseDelay) return initial;
+  const approach = (elapsed: number, tau: number) => (tau > 0 ? 1 - Math.exp(-elapsed / tau) : 1);
+  let value = initial + (pulsed - initial) * approach(t - riseDelay, riseTau);
+  if (t >= fallDelay) {
+    value += (initial - pulsed) * approach(t - fallDelay, fallTau);
+  }
+  return value;
+};
+
+/**
+ * Sort PWL corners by time and drop non-finite entries so the table can be
+ * edited freely in the inspector.
+ */
+export const normalizePwlPoints = (points: PwlPoint[]): PwlPoint[] =>
+  points
+    .filter(point => Number.isFinite(point.time) && Number.isFinite(point.value))
+    .sort((a, b) => a.time - b.time);
+
+/**
+ * Resolve the user function behind an `expression` source. The function must
+ * be defined in the expression list with a single argument, e.g. `f(t) = …`.
+ */
+const expressionWaveform = (source: SourceComponent, context?: DefinitionContext): ((t: number) => number) => {
+  const name = source.expression?.trim() ?? "";
+  const definition = name ? context?.functions[name] : undefined;
+  if (!definition) {
+    throw new Error(
+      name
+        ? `${source.id} uses f(t) = ${name}(t), but ${name} is not defined in the expression list.`
+        : `${source.id} needs a function from the expression list to drive its expression waveform.`
+    );
+  }
+  if (definition.params.length !== 1) {
+    throw new Error(`${source.id} drives with ${name}, which must take exactly one argument (time).`);
+  }
+  // evaluateToNumber binds `x`, so call the definition with x standing in for t
+  const call: ASTNode = { type: "call", name, args: [{ type: "variable", value: "x" }] };
+  return t => {
+    const value = evaluateToNumber(call, t, context);
+    if (!Number.isFinite(value)) {
+      throw new Error(`${source.id}: ${name}(${t}) is not a finite number.`);
+    }
+    return value;
+  };
+};
+
+export const createWaveform = (source: SourceComponent, context?: DefinitionContext): ((t: number) => number) => {
+  switch (source.waveform) {
+    case "ac": {
+      const amplitude = source.amplitude ?? source.value;
+      const frequency = source.frequency ?? 50;
+      const phase = source.phase ?? 0;
+      const offset = source.offset ?? 0;
+      return t => offset + amplitude * Math.sin(2 * Math.PI * frequency * t + phase);
+    }
+    case "pulse": {
+      const pulse = source.pulse ?? DEFAULT_PULSE;
+      return t => pulseValue(pulse, t);
+    }
+    case "pwl": {
+      const points = normalizePwlPoints(source.pwl ?? DEFAULT_PWL);
+      return t => pwlValue(points, t);
+    }
+    case "exp": {
+      const exp = source.exp ?? DEFAULT_EXP;
+      return t => expValue(exp, t);
+    }
+    case "expression":
+      return expressionWaveform(source, context);
+    default:
+      return () => source.value;
+  }
+};
+
+/**
+ * DC level of a source: sine sources contribute their offset, time-varying
+ * sources their value at t = 0.
+ */
+export const waveformDcValue = (source: SourceComponent, context?: DefinitionContext): number =>
+  source.waveform === "ac" ? source.offset ?? 0 : createWaveform(source, context)(0);
+
+/** User functions that can drive an expression source: those taking a single argument. */
+export const waveformFunctionNames = (context?: DefinitionContext): string[] =>
+  Object.values(context?.functions ?? {})
+    .filter(definition => definition.params.length === 1)
+    .map(definition => definition.name)
+    .sort();
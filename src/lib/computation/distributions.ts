@@ -0,0 +1,203 @@
+// Probability distributions: densities, CDFs and quantiles from @stdlib,
+// moments in closed form, and seeded inverse-transform sampling.
+import binomialCdf from '@stdlib/stats/base/dists/binomial/cdf';
+import binomialPmf from '@stdlib/stats/base/dists/binomial/pmf';
+import binomialQuantile from '@stdlib/stats/base/dists/binomial/quantile';
+import chisquareCdf from '@stdlib/stats/base/dists/chisquare/cdf';
+import chisquarePdf from '@stdlib/stats/base/dists/chisquare/pdf';
+import chisquareQuantile from '@stdlib/stats/base/dists/chisquare/quantile';
+import exponentialCdf from '@stdlib/stats/base/dists/exponential/cdf';
+import exponentialPdf from '@stdlib/stats/base/dists/exponential/pdf';
+import exponentialQuantile from '@stdlib/stats/base/dists/exponential/quantile';
+import normalCdf from '@stdlib/stats/base/dists/normal/cdf';
+import normalPdf from '@stdlib/stats/base/dists/normal/pdf';
+import normalQuantile from '@stdlib/stats/base/dists/normal/quantile';
+import poissonCdf from '@stdlib/stats/base/dists/poisson/cdf';
+import poissonPmf from '@stdlib/stats/base/dists/poisson/pmf';
+import poissonQuantile from '@stdlib/stats/base/dists/poisson/quantile';
+import tCdf from '@stdlib/stats/base/dists/t/cdf';
+import tPdf from '@stdlib/stats/base/dists/t/pdf';
+import tQuantile from '@stdlib/stats/base/dists/t/quantile';
+import uniformCdf from '@stdlib/stats/base/dists/uniform/cdf';
+import uniformPdf from '@stdlib/stats/base/dists/uniform/pdf';
+import uniformQuantile from '@stdlib/stats/base/dists/uniform/quantile';
+
+export type DistributionFamily = 'normal' | 'uniform' | 'binomial' | 'poisson' | 'exponential' | 'studentt' | 'chi2';
+
+export interface Distribution {
+  family: DistributionFamily;
+  params: Record<string, number>;
+}
+
+interface FamilySpec {
+  params: string[]; // constructor argument order
+  discrete: boolean;
+  validate: (p: Record<string, number>) => string | null;
+  support: (p: Record<string, number>) => [number, number];
+  density: (x: number, p: Record<string, number>) => number; // pmf for discrete families
+  cdf: (x: number, p: Record<string, number>) => number;
+  quantile: (q: number, p: Record<string, number>) => number;
+  mean: (p: Record<string, number>) => number;
+  variance: (p: Record<string, number>) => number;
+}
+
+const positive = (name: string, value: number) => (value > 0 ? null : `${name} must be positive`);
+
+const FAMILIES: Record<DistributionFamily, FamilySpec> = {
+  normal: {
+    params: ['mu', 'sigma'],
+    discrete: false,
+    validate: p => positive('σ', p.sigma),
+    support: () => [-Infinity, Infinity],
+    density: (x, p) => normalPdf(x, p.mu, p.sigma),
+    cdf: (x, p) => normalCdf(x, p.mu, p.sigma),
+    quantile: (q, p) => normalQuantile(q, p.mu, p.sigma),
+    mean: p => p.mu,
+    variance: p => p.sigma * p.sigma,
+  },
+  uniform: {
+    params: ['a', 'b'],
+    discrete: false,
+    validate: p => (p.a < p.b ? null : 'uniform(a, b) needs a < b'),
+    support: p => [p.a, p.b],
+    density: (x, p) => uniformPdf(x, p.a, p.b),
+    cdf: (x, p) => uniformCdf(x, p.a, p.b),
+    quantile: (q, p) => uniformQuantile(q, p.a, p.b),
+    mean: p => (p.a + p.b) / 2,
+    variance: p => (p.b - p.a) ** 2 / 12,
+  },
+  binomial: {
+    params: ['n', 'p'],
+    discrete: true,
+    validate: p =>
+      !Number.isInteger(p.n) || p.n < 0
+        ? 'binomial(n, p) needs a whole number of trials n'
+        : p.p < 0 || p.p > 1
+          ? 'binomial(n, p) needs 0 ≤ p ≤ 1'
+          : null,
+    support: p => [0, p.n],
+    density: (x, p) => binomialPmf(x, p.n, p.p),
+    cdf: (x, p) => binomialCdf(x, p.n, p.p),
+    quantile: (q, p) => binomialQuantile(q, p.n, p.p),
+    mean: p => p.n * p.p,
+    variance: p => p.n * p.p * (1 - p.p),
+  },
+  poisson: {
+    params: ['lambda'],
+    discrete: true,
+    validate: p => positive('λ', p.lambda),
+    support: () => [0, Infinity],
+    density: (x, p) => poissonPmf(x, p.lambda),
+    cdf: (x, p) => poissonCdf(x, p.lambda),
+    quantile: (q, p) => poissonQuantile(q, p.lambda),
+    mean: p => p.lambda,
+    variance: p => p.lambda,
+  },
+  exponential: {
+    params: ['lambda'],
+    discrete: false,
+    validate: p => positive('λ', p.lambda),
+    support: () => [0, Infinity],
+    density: (x, p) => exponentialPdf(x, p.lambda),
+    cdf: (x, p) => exponentialCdf(x, p.lambda),
+    quantile: (q, p) => exponentialQuantile(q, p.lambda),
+    mean: p => 1 / p.lambda,
+    variance: p => 1 / (p.lambda * p.lambda),
+  },
+  studentt: {
+    params: ['nu'],
+    discrete: false,
+    validate: p => positive('ν', p.nu),
+    support: () => [-Infinity, Infinity],
+    density: (x, p) => tPdf(x, p.nu),
+    cdf: (x, p) => tCdf(x, p.nu),
+    quantile: (q, p) => tQuantile(q, p.nu),
+    // The mean only exists for ν > 1 and the variance is infinite for 1 < ν ≤ 2
+    mean: p => (p.nu > 1 ? 0 : NaN),
+    variance: p => (p.nu > 2 ? p.nu / (p.nu - 2) : p.nu > 1 ? Infinity : NaN),
+  },
+  chi2: {
+    params: ['k'],
+    discrete: false,
+    validate: p => positive('k', p.k),
+    support: () => [0, Infinity],
+    density: (x, p) => chisquarePdf(x, p.k),
+    cdf: (x, p) => chisquareCdf(x, p.k),
+    quantile: (q, p) => chisquareQuantile(q, p.k),
+    mean: p => p.k,
+    variance: p => 2 * p.k,
+  },
+};
+
+export const DISTRIBUTION_FAMILIES = Object.keys(FAMILIES) as DistributionFamily[];
+
+/** Constructor parameter names of a family, in argument order */
+export const familyParameters = (family: DistributionFamily): string[] => FAMILIES[family].params;
+
+/** Build a distribution from its constructor arguments, validating them */
+export function buildDistribution(family: DistributionFamily, args: number[]): Distribution {
+  const spec = FAMILIES[family];
+  if (args.length !== spec.params.length) {
+    throw new Error(`${family} expects ${spec.params.length} parameter(s), got ${args.length}`);
+  }
+  if (!args.every(Number.isFinite)) throw new Error(`${family} parameters must be finite numbers`);
+  const params = Object.fromEntries(spec.params.map((name, i) => [name, args[i]]));
+  const problem = spec.validate(params);
+  if (problem) throw new Error(problem);
+  return { family, params };
+}
+
+export const isDiscrete = (d: Distribution): boolean => FAMILIES[d.family].discrete;
+
+/** Smallest and largest values with nonzero probability */
+export const support = (d: Distribution): [number, number] => FAMILIES[d.family].support(d.params);
+
+/** Probability density, or probability mass for discrete families */
+export const density = (d: Distribution, x: number): number => FAMILIES[d.family].density(x, d.params);
+
+export const cdf = (d: Distribution, x: number): number => FAMILIES[d.family].cdf(x, d.params);
+
+export function quantile(d: Distribution, q: number): number {
+  if (!(q >= 0 && q <= 1)) throw new Error('quantile expects a probability between 0 and 1');
+  return FAMILIES[d.family].quantile(q, d.params);
+}
+
+export const distributionMean = (d: Distribution): number => FAMILIES[d.family].mean(d.params);
+
+export const distributionVariance = (d: Distribution): number => FAMILIES[d.family].variance(d.params);
+
+/**
+ * P(a ≤ X ≤ b). For discrete families both endpoints are included, so the
+ * bounds are rounded inwards to the nearest integers.
+ */
+export function intervalProbability(d: Distribution, a: number, b: number): number {
+  if (b < a) return 0;
+  if (isDiscrete(d)) {
+    const [lo, hi] = [Math.ceil(a), Math.floor(b)];
+    return hi < lo ? 0 : cdf(d, hi) - cdf(d, lo - 1);
+  }
+  return cdf(d, b) - cdf(d, a);
+}
+
+// mulberry32: a small, fast 32-bit generator; plenty for plotting samples
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    // Centre each draw in its 2^-32 bucket so the quantile never sees 0 or 1
+    return (((t ^ (t >>> 14)) >>> 0) + 0.5) / 4294967296;
+  };
+}
+
+/**
+ * `count` draws by inverse-transform sampling. The same seed always gives the
+ * same samples, so graphs don't reshuffle on every redraw.
+ */
+export function sample(d: Distribution, count: number, seed = 0): number[] {
+  if (!Number.isInteger(count) || count < 0) throw new Error('random expects a whole number of samples');
+  const next = mulberry32(Math.round(seed));
+  return Array.from({ length: count }, () => FAMILIES[d.family].quantile(next(), d.params));
+}
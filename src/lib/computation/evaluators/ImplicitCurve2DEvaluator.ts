@@ -2,6 +2,9 @@ import { ASTNode } from '@/lib/parser';
 import { evaluate } from '@/lib/runtime/evaluator';
 import { DefinitionContext } from '@/lib/definitionContext';
 import { isNumber } from '@/lib/runtime/value';
+import { Interval, evaluateInterval } from '@/lib/runtime/intervals';
+
+type CurvePoint = { x: number; y: number };
 
 export interface ImplicitCurve2DData {
   segments: Array<{
@@ -14,9 +17,27 @@ export interface ImplicitCurve2DOptions {
   resolution: number;
 }
 
+// Quadtree leaves are this many times finer than the grid `resolution` asks for
+const LEAF_REFINEMENT = 4;
+// Extra levels below a leaf where the curve may touch zero without crossing it
+const TOUCH_DEPTH = 3;
+// Boxes the quadtree may visit per smallest box along a side before it gives
+// up on intervals too loose to rule anything out, and uses the grid instead
+const BOXES_PER_SIDE = 64;
+
 /**
  * Evaluates implicit 2D curves using Marching Squares algorithm
  * Handles expressions like: x^2 + y^2 = 1, x^2 - y^2 = 1, etc.
+ *
+ * When interval arithmetic covers the expression (runtime/intervals.ts) the
+ * bounds are refined as a quadtree: boxes where F provably has no zero are
+ * dropped, so leaves end up only along the curve, however thin its features.
+ * Leaves where F changes sign are contoured (saddles split by the sign at the
+ * centre); leaves where it may touch zero without changing sign, such as
+ * tangencies (x^2+y^2-1)^2 = 0 and isolated points x^2+y^2 = 0, are refined
+ * further and drawn through the boxes where a sample confirms F is near zero.
+ * Expressions without interval rules, and bounds so loose the quadtree would
+ * visit too many boxes, use the plain grid.
  */
 export class ImplicitCurve2DEvaluator {
   constructor(
@@ -26,6 +47,202 @@ export class ImplicitCurve2DEvaluator {
 
   evaluateCurve(options: ImplicitCurve2DOptions): ImplicitCurve2DData {
     const implicitFn = this.createImplicitFunction();
+    const bound = this.createIntervalFunction();
+    try {
+      bound(options.bounds);
+    } catch (e) {
+      return this.evaluateGrid(implicitFn, options);
+    }
+    return this.evaluateQuadtree(implicitFn, bound, options) ?? this.evaluateGrid(implicitFn, options);
+  }
+
+  private evaluateQuadtree(
+    implicitFn: (x: number, y: number) => number,
+    bound: (box: ImplicitCurve2DOptions['bounds']) => Interval | null,
+    options: ImplicitCurve2DOptions
+  ): ImplicitCurve2DData | null {
+    const { xMin, xMax, yMin, yMax } = options.bounds;
+    // Positions are integers on the grid of the finest boxes; leaves span `leaf` of them
+    const cells = 2 ** Math.ceil(Math.log2(Math.max(1, options.resolution * LEAF_REFINEMENT)));
+    const leaf = 2 ** TOUCH_DEPTH;
+    const fine = cells * leaf;
+    const stepX = (xMax - xMin) / fine;
+    const stepY = (yMax - yMin) / fine;
+    const xAt = (i: number) => (i === fine ? xMax : xMin + i * stepX);
+    const yAt = (j: number) => (j === fine ? yMax : yMin + j * stepY);
+
+    // The grid takes over once the quadtree visits more than `budget` boxes
+    const budget = BOXES_PER_SIDE * fine;
+    let visited = 0;
+
+    // Whether F may vanish in the box; boxes it cannot bound are kept
+    const mayVanish = (i: number, j: number, size: number) => {
+      visited++;
+      let range: Interval | null;
+      try {
+        range = bound({ xMin: xAt(i), xMax: xAt(i + size), yMin: yAt(j), yMax: yAt(j + size) });
+      } catch (e) {
+        return true;
+      }
+      return range !== null && range.lo <= 0 && range.hi >= 0;
+    };
+
+    // Corners are shared by neighbouring boxes, so their crossings coincide
+    const corners = new Map<number, number>();
+    const valueAt = (i: number, j: number) => {
+      const key = i * (fine + 1) + j;
+      let value = corners.get(key);
+      if (value === undefined) {
+        value = implicitFn(xAt(i), yAt(j));
+        corners.set(key, value);
+      }
+      return value;
+    };
+    const zero = (a: [number, number], b: [number, number]): CurvePoint => {
+      const [va, vb] = [valueAt(...a), valueAt(...b)];
+      const t = Math.abs(va) / (Math.abs(va) + Math.abs(vb));
+      return { x: xAt(a[0]) + t * (xAt(b[0]) - xAt(a[0])), y: yAt(a[1]) + t * (yAt(b[1]) - yAt(a[1])) };
+    };
+
+    const segments: Array<[CurvePoint, CurvePoint]> = [];
+
+    // Marching squares on one box; false when F changes sign on none of its edges
+    const contour = (i: number, j: number, size: number) => {
+      // Bottom, right, top and left edges, each from its lower corner
+      const edges: Array<[[number, number], [number, number]]> = [
+        [[i, j], [i + size, j]],
+        [[i + size, j], [i + size, j + size]],
+        [[i, j + size], [i + size, j + size]],
+        [[i, j], [i, j + size]],
+      ];
+      const found = edges.flatMap(([a, b]) => {
+        const [va, vb] = [valueAt(...a), valueAt(...b)];
+        return Number.isFinite(va) && Number.isFinite(vb) && va > 0 !== vb > 0 ? [zero(a, b)] : [];
+      });
+      if (found.length === 0) return false;
+      if (found.length === 4) {
+        // A saddle: the centre decides which corners the region joins
+        const [bottom, right, top, left] = found;
+        const centre = implicitFn(xAt(i) + (size * stepX) / 2, yAt(j) + (size * stepY) / 2);
+        if (centre > 0 === valueAt(i, j) > 0) {
+          segments.push([bottom, right], [top, left]);
+        } else {
+          segments.push([bottom, left], [right, top]);
+        }
+      } else if (found.length === 2) {
+        segments.push([found[0], found[1]]);
+      }
+      return true;
+    };
+
+    // Whether a sample in the smallest box puts a zero of F within the box, to
+    // first order: |F| at a corner or the centre no more than the box diagonal
+    // times the slope across it. Intervals that cannot rule a box out do not
+    // mean the curve is there, as with x*y - x*y + 0.001(x - 0.5).
+    const nearZero = (i: number, j: number) => {
+      const [v00, v10, v01, v11] = [valueAt(i, j), valueAt(i + 1, j), valueAt(i, j + 1), valueAt(i + 1, j + 1)];
+      const centre = implicitFn(xAt(i) + stepX / 2, yAt(j) + stepY / 2);
+      const slope = Math.hypot((v10 - v00 + v11 - v01) / (2 * stepX), (v01 - v00 + v11 - v10) / (2 * stepY));
+      const reach = slope * Math.hypot(stepX, stepY);
+      return [v00, v10, v01, v11, centre].some(value => Math.abs(value) <= reach);
+    };
+
+    // Leaves (by leaf index) the curve crosses, and where it may only touch zero
+    const crossed = new Set<number>();
+    const touching = new Map<number, CurvePoint>();
+
+    // A leaf without a sign change at its corners is split further: a thin
+    // feature shows up as crossings of the smaller boxes, a tangency or an
+    // isolated point as the boxes intervals cannot rule out
+    const refineLeaf = (i: number, j: number) => {
+      const survivors: CurvePoint[] = [];
+      let crossing = false;
+      const descend = (bi: number, bj: number, size: number) => {
+        if (contour(bi, bj, size)) {
+          crossing = true;
+          return;
+        }
+        if (size === 1) {
+          if (nearZero(bi, bj)) survivors.push({ x: xAt(bi) + stepX / 2, y: yAt(bj) + stepY / 2 });
+          return;
+        }
+        const half = size / 2;
+        [
+          [bi, bj],
+          [bi + half, bj],
+          [bi, bj + half],
+          [bi + half, bj + half],
+        ].forEach(([ci, cj]) => {
+          if (mayVanish(ci, cj, half)) descend(ci, cj, half);
+        });
+      };
+      descend(i, j, leaf);
+      const key = (i / leaf) * cells + j / leaf;
+      if (crossing) {
+        crossed.add(key);
+      } else if (survivors.length > 0) {
+        touching.set(key, {
+          x: survivors.reduce((sum, p) => sum + p.x, 0) / survivors.length,
+          y: survivors.reduce((sum, p) => sum + p.y, 0) / survivors.length,
+        });
+      }
+    };
+
+    const visit = (i: number, j: number, size: number) => {
+      if (visited > budget || !mayVanish(i, j, size)) return;
+      if (size === leaf) {
+        refineLeaf(i, j);
+        return;
+      }
+      const half = size / 2;
+      visit(i, j, half);
+      visit(i + half, j, half);
+      visit(i, j + half, half);
+      visit(i + half, j + half, half);
+    };
+    visit(0, 0, fine);
+    if (visited > budget) return null;
+
+    // Touching leaves beside a crossing are where the contour passes by; the
+    // rest are joined to their touching neighbours
+    const near = (i: number, j: number, leaves: { has: (key: number) => boolean }) =>
+      [-1, 0, 1].some(di =>
+        [-1, 0, 1].some(
+          dj =>
+            (di !== 0 || dj !== 0) &&
+            i + di >= 0 &&
+            i + di < cells &&
+            leaves.has((i + di) * cells + j + dj)
+        )
+      );
+    const touchPoints = new Map(
+      [...touching].filter(([key]) => !near(Math.floor(key / cells), key % cells, crossed))
+    );
+    touchPoints.forEach((p, key) => {
+      const [i, j] = [Math.floor(key / cells), key % cells];
+      [
+        [i + 1, j],
+        [i, j + 1],
+        [i + 1, j + 1],
+        [i - 1, j + 1],
+      ].forEach(([ni, nj]) => {
+        const q = ni >= 0 && ni < cells ? touchPoints.get(ni * cells + nj) : undefined;
+        if (q) segments.push([p, q]);
+      });
+      // A lone point: a stub short enough to draw as a dot
+      if (!near(i, j, touchPoints)) {
+        const stub = (leaf * stepX) / 4;
+        segments.push([{ x: p.x - stub, y: p.y }, { x: p.x + stub, y: p.y }]);
+      }
+    });
+
+    return { segments: stitchSegments(segments).map(points => ({ points })) };
+  }
+
+  private evaluateGrid(
+    implicitFn: (x: number, y: number) => number,
+    options: ImplicitCurve2DOptions
+  ): ImplicitCurve2DData {
     const { xMin, xMax, yMin, yMax } = options.bounds;
     const resolution = options.resolution;
     
@@ -121,6 +338,16 @@ export class ImplicitCurve2DEvaluator {
     };
   }
 
+  // Bounds on F over a box; throws when the expression has no interval rule
+  private createIntervalFunction(): (box: ImplicitCurve2DOptions['bounds']) => Interval | null {
+    const F: ASTNode =
+      this.ast.type === 'binary' && this.ast.operator === '='
+        ? { type: 'binary', operator: '-', left: this.ast.left, right: this.ast.right }
+        : this.ast;
+    return ({ xMin, xMax, yMin, yMax }) =>
+      evaluateInterval(F, { x: { lo: xMin, hi: xMax }, y: { lo: yMin, hi: yMax } }, this.context);
+  }
+
   private evaluateNode(node: ASTNode, vars: Record<string, number>): number {
     const result = evaluate(node, vars, this.context);
     if (isNumber(result)) {
@@ -129,3 +356,42 @@ export class ImplicitCurve2DEvaluator {
     return NaN;
   }
 }
+
+/**
+ * Join segments that share endpoints into polylines. Marching squares computes
+ * a crossing from the two corners of its edge alone, so neighbouring cells
+ * produce identical endpoints.
+ */
+export function stitchSegments(segments: Array<[CurvePoint, CurvePoint]>): CurvePoint[][] {
+  const key = ({ x, y }: CurvePoint) => `${x},${y}`;
+  const byEnd = new Map<string, number[]>();
+  segments.forEach(([a, b], index) => {
+    [a, b].forEach(point => byEnd.set(key(point), [...(byEnd.get(key(point)) ?? []), index]));
+  });
+  const used = new Array<boolean>(segments.length).fill(false);
+
+  // Follow unused segments away from `point`, appending what they reach
+  const extend = (line: CurvePoint[], point: CurvePoint) => {
+    let current = point;
+    for (;;) {
+      const next = (byEnd.get(key(current)) ?? []).find(index => !used[index]);
+      if (next === undefined) return;
+      used[next] = true;
+      const [a, b] = segments[next];
+      current = key(a) === key(current) ? b : a;
+      line.push(current);
+    }
+  };
+
+  const lines: CurvePoint[][] = [];
+  segments.forEach(([a, b], index) => {
+    if (used[index]) return;
+    used[index] = true;
+    const forward = [b];
+    extend(forward, b);
+    const backward: CurvePoint[] = [];
+    extend(backward, a);
+    lines.push([...backward.reverse(), a, ...forward]);
+  });
+  return lines;
+}
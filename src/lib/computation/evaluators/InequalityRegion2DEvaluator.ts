@@ -0,0 +1,232 @@
+import { ASTNode } from '@/lib/parser';
+import { evaluate } from '@/lib/runtime/evaluator';
+import { DefinitionContext } from '@/lib/definitionContext';
+import { isNumber } from '@/lib/runtime/value';
+import { stitchSegments } from './ImplicitCurve2DEvaluator';
+
+type RegionPoint = { x: number; y: number };
+
+export interface InequalityRegion2DData {
+  /** Polygons covering the part of the bounds where the condition holds */
+  fills: RegionPoint[][];
+  /** The edges of the region; strict comparisons (<, >) leave them out of it */
+  boundaries: Array<{ points: RegionPoint[]; strict: boolean }>;
+}
+
+export interface InequalityRegion2DOptions {
+  bounds: { xMin: number; xMax: number; yMin: number; yMax: number };
+  resolution: number;
+}
+
+// One comparison lhs < rhs, held as F = lhs − rhs and the side of F = 0 it keeps
+interface Comparison {
+  F: (x: number, y: number) => number;
+  sign: 1 | -1;
+  strict: boolean;
+}
+
+type Condition =
+  | { kind: 'compare'; index: number }
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'not'; operand: Condition };
+
+const COMPARISONS: Record<string, { sign: 1 | -1; strict: boolean }> = {
+  '<': { sign: -1, strict: true },
+  '<=': { sign: -1, strict: false },
+  '>': { sign: 1, strict: true },
+  '>=': { sign: 1, strict: false },
+};
+
+const isComparison = (node?: ASTNode) => node?.type === 'binary' && node.operator! in COMPARISONS;
+
+/**
+ * Shades regions where inequalities in x and y hold: y < x^2, x^2 + y^2 <= 4,
+ * chains 0 < y < 1 and conditions joined by and / or / not.
+ *
+ * Each comparison is sampled on the grid; cells entirely inside the region are
+ * merged into row-long rectangles and cells it crosses are cut along the
+ * interpolated crossings of their edges. A comparison's zero contour is part
+ * of the boundary only where flipping that comparison changes the outcome, so
+ * x > 0 and y < sin(x) outlines just the shaded piece.
+ */
+export class InequalityRegion2DEvaluator {
+  private comparisons: Comparison[] = [];
+  private condition: Condition;
+
+  constructor(
+    ast: ASTNode,
+    private context: DefinitionContext
+  ) {
+    this.condition = this.buildCondition(ast);
+  }
+
+  evaluateRegion(options: InequalityRegion2DOptions): InequalityRegion2DData {
+    const { xMin, xMax, yMin, yMax } = options.bounds;
+    const resolution = options.resolution;
+    const stepX = (xMax - xMin) / resolution;
+    const stepY = (yMax - yMin) / resolution;
+    const xAt = (i: number) => (i === resolution ? xMax : xMin + i * stepX);
+    const yAt = (j: number) => (j === resolution ? yMax : yMin + j * stepY);
+
+    // values[k][i][j]: comparison k at grid corner (i, j)
+    const values = this.comparisons.map(({ F }) =>
+      Array.from({ length: resolution + 1 }, (_, i) =>
+        Array.from({ length: resolution + 1 }, (_, j) => F(xAt(i), yAt(j)))
+      )
+    );
+    const truthsAt = (i: number, j: number) => this.comparisons.map((_, k) => this.holds(k, values[k][i][j]));
+    const inside = Array.from({ length: resolution + 1 }, (_, i) =>
+      Array.from({ length: resolution + 1 }, (_, j) => this.satisfies(this.condition, truthsAt(i, j)))
+    );
+
+    // Where the region's edge crosses from corner a to corner b
+    const crossing = (a: [number, number], b: [number, number]): RegionPoint => {
+      const [ta, tb] = [truthsAt(...a), truthsAt(...b)];
+      const k = ta.findIndex((truth, index) => truth !== tb[index]);
+      const [va, vb] = k >= 0 ? [values[k][a[0]][a[1]], values[k][b[0]][b[1]]] : [NaN, NaN];
+      const t = Number.isFinite(va) && Number.isFinite(vb) && va !== vb ? va / (va - vb) : 0.5;
+      return {
+        x: xAt(a[0]) + t * (xAt(b[0]) - xAt(a[0])),
+        y: yAt(a[1]) + t * (yAt(b[1]) - yAt(a[1])),
+      };
+    };
+
+    const fills: RegionPoint[][] = [];
+    for (let j = 0; j < resolution; j++) {
+      let runStart = -1;
+      const closeRun = (end: number) => {
+        if (runStart < 0) return;
+        fills.push(rectangle(xAt(runStart), xAt(end), yAt(j), yAt(j + 1)));
+        runStart = -1;
+      };
+      for (let i = 0; i < resolution; i++) {
+        // Counter-clockwise around the cell
+        const corners: Array<[number, number]> = [[i, j], [i + 1, j], [i + 1, j + 1], [i, j + 1]];
+        const count = corners.filter(([ci, cj]) => inside[ci][cj]).length;
+        if (count === 4) {
+          if (runStart < 0) runStart = i;
+          continue;
+        }
+        closeRun(i);
+        if (count === 0) continue;
+        const polygon: RegionPoint[] = [];
+        corners.forEach((corner, c) => {
+          const next = corners[(c + 1) % 4];
+          if (inside[corner[0]][corner[1]]) polygon.push({ x: xAt(corner[0]), y: yAt(corner[1]) });
+          if (inside[corner[0]][corner[1]] !== inside[next[0]][next[1]]) polygon.push(crossing(corner, next));
+        });
+        fills.push(polygon);
+      }
+      closeRun(resolution);
+    }
+
+    const boundaries = this.comparisons.flatMap((comparison, k) => {
+      const segments: Array<[RegionPoint, RegionPoint]> = [];
+      // The zero of F on the edge from corner a to corner b, the same from either cell
+      const zero = (a: [number, number], b: [number, number]): RegionPoint => {
+        const [va, vb] = [values[k][a[0]][a[1]], values[k][b[0]][b[1]]];
+        const t = Math.abs(va) / (Math.abs(va) + Math.abs(vb));
+        return {
+          x: xAt(a[0]) + t * (xAt(b[0]) - xAt(a[0])),
+          y: yAt(a[1]) + t * (yAt(b[1]) - yAt(a[1])),
+        };
+      };
+      for (let i = 0; i < resolution; i++) {
+        for (let j = 0; j < resolution; j++) {
+          const edges: Array<[[number, number], [number, number]]> = [
+            [[i, j], [i + 1, j]],
+            [[i + 1, j], [i + 1, j + 1]],
+            [[i, j + 1], [i + 1, j + 1]],
+            [[i, j], [i, j + 1]],
+          ];
+          const points = edges.flatMap(([a, b]) => {
+            const [va, vb] = [values[k][a[0]][a[1]], values[k][b[0]][b[1]]];
+            return Number.isFinite(va) && Number.isFinite(vb) && va > 0 !== vb > 0 ? [zero(a, b)] : [];
+          });
+          for (let p = 0; p + 1 < points.length; p += 2) {
+            if (this.onBoundary(k, points[p], points[p + 1])) segments.push([points[p], points[p + 1]]);
+          }
+        }
+      }
+      // Joined into polylines so dashes run along the whole edge
+      return stitchSegments(segments).map(points => ({ points, strict: comparison.strict }));
+    });
+
+    return { fills, boundaries };
+  }
+
+  private buildCondition(node: ASTNode): Condition {
+    if (node.type === 'binary' && (node.operator === 'and' || node.operator === 'or')) {
+      return { kind: node.operator, left: this.buildCondition(node.left!), right: this.buildCondition(node.right!) };
+    }
+    if (node.type === 'unary' && node.operator === 'not') {
+      return { kind: 'not', operand: this.buildCondition(node.right!) };
+    }
+    if (isComparison(node)) {
+      // 0 < y < 1 parses as (0 < y) < 1: both comparisons must hold
+      if (isComparison(node.left)) {
+        return {
+          kind: 'and',
+          left: this.buildCondition(node.left!),
+          right: this.compare(node.left!.right!, node.operator!, node.right!),
+        };
+      }
+      return this.compare(node.left!, node.operator!, node.right!);
+    }
+    throw new Error('A shaded region is made of comparisons (<, ≤, >, ≥) joined by and, or and not');
+  }
+
+  private compare(lhs: ASTNode, operator: string, rhs: ASTNode): Condition {
+    const F = (x: number, y: number) => {
+      try {
+        return this.evaluateNode(lhs, { x, y }) - this.evaluateNode(rhs, { x, y });
+      } catch (e) {
+        return NaN;
+      }
+    };
+    this.comparisons.push({ F, ...COMPARISONS[operator] });
+    return { kind: 'compare', index: this.comparisons.length - 1 };
+  }
+
+  // Undefined values are outside every region
+  private holds(index: number, value: number): boolean {
+    const { sign, strict } = this.comparisons[index];
+    return strict ? sign * value > 0 : sign * value >= 0;
+  }
+
+  private satisfies(condition: Condition, truths: boolean[]): boolean {
+    switch (condition.kind) {
+      case 'compare':
+        return truths[condition.index];
+      case 'and':
+        return this.satisfies(condition.left, truths) && this.satisfies(condition.right, truths);
+      case 'or':
+        return this.satisfies(condition.left, truths) || this.satisfies(condition.right, truths);
+      case 'not':
+        return !this.satisfies(condition.operand, truths);
+    }
+  }
+
+  // Whether the zero contour of comparison k between a and b separates inside from outside
+  private onBoundary(k: number, a: RegionPoint, b: RegionPoint): boolean {
+    const [x, y] = [(a.x + b.x) / 2, (a.y + b.y) / 2];
+    const truths = this.comparisons.map((comparison, index) => this.holds(index, comparison.F(x, y)));
+    const withK = (value: boolean) => this.satisfies(this.condition, truths.map((truth, index) => (index === k ? value : truth)));
+    return withK(true) !== withK(false);
+  }
+
+  private evaluateNode(node: ASTNode, vars: Record<string, number>): number {
+    const result = evaluate(node, vars, this.context);
+    if (isNumber(result)) {
+      return result.value;
+    }
+    return NaN;
+  }
+}
+
+const rectangle = (x0: number, x1: number, y0: number, y1: number): RegionPoint[] => [
+  { x: x0, y: y0 },
+  { x: x1, y: y0 },
+  { x: x1, y: y1 },
+  { x: x0, y: y1 },
+];
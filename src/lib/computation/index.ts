@@ -4,6 +4,12 @@ export * from './numerical';
 export * from './signal';
 export * from './integration';
 export * from './derivatives';
+export * from './special';
+export * from './linearAlgebra';
+export * from './regression';
+export * from './distributions';
+export * from './ode';
+export * from './roots';
 
 // Re-export key functions
 export {
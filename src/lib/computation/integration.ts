@@ -1,22 +1,174 @@
 // Integration methods (symbolic + numerical)
-import { symbolicDerivative } from './symbolic';
-import { numericalIntegrate } from './numerical';
-import { MathType } from '../types';
-import { RuntimeValue, createNumber, isNumber, isFunction } from '../runtime/value';
-import { registerCallable } from '../runtime/functions';
-import { ASTNode } from '../parser';
-import { evaluateToNumber } from '../runtime/evaluator';
-
-// Initialize integration capabilities
-export function registerIntegrationFunctions() {
-  // Definite integral: integrate(function, lower, upper)
-  // This will need multi-argument support
-  registerCallable('integrate', MathType.Function, MathType.Number, (arg) => {
-    if (!isFunction(arg)) throw new Error('integrate expects Function');
-    
-    // For now, placeholder - needs bounds
-    return createNumber(0);
-  });
+import { DefinitionContext } from '../definitionContext';
+import { RuntimeValue, isFunction, isNumber } from '../runtime/value';
+import { evaluate } from '../runtime/evaluator';
+
+export interface QuadratureResult {
+  value: number;
+  error: number;       // Estimated absolute error
+  evaluations: number;
+  converged: boolean;  // False when the subdivision limit was hit first
+}
+
+export interface AdaptiveIntegrationOptions {
+  tolerance?: number;       // Absolute and relative tolerance
+  maxSubdivisions?: number;
+}
+
+// Gauss–Kronrod 7/15 nodes on [-1, 1] (non-negative half) and their weights.
+// Odd-indexed Kronrod nodes are the Gauss nodes; the last entry is the centre.
+const KRONROD_NODES = [
+  0.9914553711208126, 0.9491079123427585, 0.8648644233597691, 0.7415311855993945,
+  0.5860872354676911, 0.4058451513773972, 0.20778495500789848, 0,
+];
+const KRONROD_WEIGHTS = [
+  0.022935322010529224, 0.06309209262997856, 0.10479001032225019, 0.14065325971552592,
+  0.1690047266392679, 0.19035057806478542, 0.20443294007529889, 0.20948214108472782,
+];
+const GAUSS_WEIGHTS = [0.1294849661688697, 0.27970539148927664, 0.3818300505051189, 0.4179591836734694];
+
+interface Segment {
+  a: number;
+  b: number;
+  value: number;
+  error: number;
+}
+
+function gaussKronrod(f: (x: number) => number, a: number, b: number): Segment {
+  const centre = (a + b) / 2;
+  const half = (b - a) / 2;
+  const sample = (x: number) => {
+    const y = f(x);
+    if (!Number.isFinite(y)) {
+      throw new Error(`Integrand is not finite at ${x}`);
+    }
+    return y;
+  };
+
+  const fc = sample(centre);
+  let kronrod = KRONROD_WEIGHTS[7] * fc;
+  let gauss = GAUSS_WEIGHTS[3] * fc;
+  for (let j = 0; j < 7; j++) {
+    const offset = half * KRONROD_NODES[j];
+    const pair = sample(centre - offset) + sample(centre + offset);
+    kronrod += KRONROD_WEIGHTS[j] * pair;
+    if (j % 2 === 1) {
+      gauss += GAUSS_WEIGHTS[(j - 1) / 2] * pair;
+    }
+  }
+  return { a, b, value: kronrod * half, error: Math.abs((kronrod - gauss) * half) };
+}
+
+/**
+ * An integral over an infinite range as one over a finite range:
+ * x = a + t/(1 - t) maps [0, 1) onto [a, ∞), x = b - t/(1 - t) onto (-∞, b]
+ * and x = t/(1 - t²) maps (-1, 1) onto the whole line. The nodes never reach
+ * the ends of the new range, where the substitution blows up.
+ */
+function toFiniteRange(
+  f: (x: number) => number,
+  a: number,
+  b: number
+): { g: (t: number) => number; a: number; b: number } {
+  // Where f vanishes the weight 1/(1 - t)² may overflow; the product is still 0
+  const weighted = (x: number, weight: number) => {
+    const y = f(x);
+    return y === 0 ? 0 : y * weight;
+  };
+  if (Number.isFinite(a)) {
+    return { g: t => weighted(a + t / (1 - t), 1 / (1 - t) ** 2), a: 0, b: 1 };
+  }
+  if (Number.isFinite(b)) {
+    return { g: t => weighted(b - t / (1 - t), 1 / (1 - t) ** 2), a: 0, b: 1 };
+  }
+  return { g: t => weighted(t / (1 - t * t), (1 + t * t) / (1 - t * t) ** 2), a: -1, b: 1 };
+}
+
+/**
+ * Globally adaptive Gauss–Kronrod quadrature: the segment with the largest
+ * error estimate is bisected until the total estimate meets the tolerance
+ * (absolute or relative to the result) or the subdivision limit is reached.
+ * Infinite bounds are mapped onto a finite range first.
+ */
+export function adaptiveIntegrate(
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  options: AdaptiveIntegrationOptions = {}
+): QuadratureResult {
+  const { tolerance = 1e-10, maxSubdivisions = 200 } = options;
+  if (Number.isNaN(a) || Number.isNaN(b)) {
+    throw new Error('Integration bounds must be numbers');
+  }
+  if (a === b) {
+    return { value: 0, error: 0, evaluations: 0, converged: true };
+  }
+  if (a > b) {
+    const flipped = adaptiveIntegrate(f, b, a, options);
+    return { ...flipped, value: -flipped.value };
+  }
+  if (!Number.isFinite(a) || !Number.isFinite(b)) {
+    const finite = toFiniteRange(f, a, b);
+    return adaptiveIntegrate(finite.g, finite.a, finite.b, options);
+  }
+
+  const segments = [gaussKronrod(f, a, b)];
+  let subdivisions = 0;
+  let value = segments[0].value;
+  let error = segments[0].error;
+
+  while (error > Math.max(tolerance, tolerance * Math.abs(value)) && subdivisions < maxSubdivisions) {
+    let worst = 0;
+    for (let i = 1; i < segments.length; i++) {
+      if (segments[i].error > segments[worst].error) worst = i;
+    }
+    const { a: left, b: right } = segments[worst];
+    const middle = (left + right) / 2;
+    if (middle <= left || middle >= right) break; // Segment can no longer be split in floating point
+
+    const halves = [gaussKronrod(f, left, middle), gaussKronrod(f, middle, right)];
+    segments.splice(worst, 1, ...halves);
+    subdivisions++;
+    value = segments.reduce((sum, segment) => sum + segment.value, 0);
+    error = segments.reduce((sum, segment) => sum + segment.error, 0);
+  }
+
+  return {
+    value,
+    error,
+    evaluations: 15 * (2 * subdivisions + 1),
+    converged: error <= Math.max(tolerance, tolerance * Math.abs(value)),
+  };
+}
+
+/**
+ * Integrate a function value over its first parameter. Parameters captured
+ * when the function was created (outer integration variables, bound
+ * arguments) stay fixed, which is how nested integrals see their outer variable.
+ */
+export function integrateFunction(
+  fn: RuntimeValue,
+  lower: number,
+  upper: number,
+  context?: DefinitionContext,
+  options?: AdaptiveIntegrationOptions
+): QuadratureResult {
+  if (!isFunction(fn)) {
+    throw new Error('integrate expects a Function');
+  }
+  const [param = 'x'] = fn.def.params;
+  return adaptiveIntegrate(
+    t => {
+      const result = evaluate(fn.def.body, { ...fn.boundParams, [param]: t }, context);
+      if (!isNumber(result)) {
+        throw new Error(`Integrand must return a number, got ${result.kind}`);
+      }
+      return result.value;
+    },
+    lower,
+    upper,
+    options
+  );
 }
 
 // Numerical integration using adaptive quadrature
@@ -32,9 +184,8 @@ export function integrate(
     case 'trapezoid':
       return trapezoidRule(f, a, b);
     case 'adaptive':
-      return numericalIntegrate(f, a, b);
     default:
-      return numericalIntegrate(f, a, b);
+      return adaptiveIntegrate(f, a, b).value;
   }
 }
 
@@ -66,7 +217,7 @@ function trapezoidRule(f: (x: number) => number, a: number, b: number, n: number
   return h * sum;
 }
 
-// Double integral (for future)
+// Double integral over a rectangle
 export function doubleIntegral(
   f: (x: number, y: number) => number,
   x0: number,
@@ -109,6 +260,3 @@ export function symbolicIntegral(expr: string, variable: string): string {
   // Fall back to placeholder
   return `∫(${expr})d${variable}`;
 }
-
-// Initialize on module load
-registerIntegrationFunctions();
@@ -0,0 +1,317 @@
+// Dense linear algebra on row-major number[][] matrices. Factorizations are
+// computed here; general eigenproblems go through math.js.
+import * as math from 'mathjs';
+
+export type Matrix = number[][];
+
+/** A real or complex scalar; eigenvalues of real matrices may be complex */
+export type Scalar = number | { re: number; im: number };
+
+export interface LUDecomposition {
+  L: Matrix;
+  U: Matrix;
+  P: Matrix; // PA = LU
+  swaps: number;
+}
+
+export interface QRDecomposition {
+  Q: Matrix;
+  R: Matrix;
+}
+
+export interface SVDecomposition {
+  U: Matrix;
+  S: number[]; // singular values, largest first
+  V: Matrix; // A = U diag(S) Vᵀ
+}
+
+export interface EigenDecomposition {
+  values: Scalar[];
+  vectors: Scalar[][]; // unit eigenvectors; defective matrices have fewer
+}
+
+const EPSILON = 2.220446049250313e-16;
+
+export const rows = (A: Matrix): number => A.length;
+export const columns = (A: Matrix): number => (A.length ? A[0].length : 0);
+
+export function assertRectangular(A: Matrix): void {
+  if (A.length === 0 || A[0].length === 0) throw new Error('A matrix needs at least one row and one column');
+  const width = A[0].length;
+  if (A.some(row => row.length !== width)) throw new Error('Matrix rows must all have the same length');
+}
+
+function assertSquare(A: Matrix, operation: string): void {
+  if (rows(A) !== columns(A)) {
+    throw new Error(`${operation} needs a square matrix, got ${rows(A)}×${columns(A)}`);
+  }
+}
+
+export const identityMatrix = (n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+export const transpose = (A: Matrix): Matrix =>
+  Array.from({ length: columns(A) }, (_, j) => A.map(row => row[j]));
+
+export const scaleMatrix = (A: Matrix, factor: number): Matrix => A.map(row => row.map(value => value * factor));
+
+export function addMatrices(A: Matrix, B: Matrix, sign = 1): Matrix {
+  if (rows(A) !== rows(B) || columns(A) !== columns(B)) {
+    throw new Error(`Cannot add a ${rows(A)}×${columns(A)} matrix to a ${rows(B)}×${columns(B)} matrix`);
+  }
+  return A.map((row, i) => row.map((value, j) => value + sign * B[i][j]));
+}
+
+export function multiplyMatrices(A: Matrix, B: Matrix): Matrix {
+  if (columns(A) !== rows(B)) {
+    throw new Error(`Cannot multiply a ${rows(A)}×${columns(A)} matrix by a ${rows(B)}×${columns(B)} matrix`);
+  }
+  return A.map(row =>
+    Array.from({ length: columns(B) }, (_, j) => row.reduce((sum, value, k) => sum + value * B[k][j], 0))
+  );
+}
+
+export function multiplyVector(A: Matrix, v: number[]): number[] {
+  if (columns(A) !== v.length) {
+    throw new Error(`Cannot multiply a ${rows(A)}×${columns(A)} matrix by a vector of length ${v.length}`);
+  }
+  return A.map(row => row.reduce((sum, value, k) => sum + value * v[k], 0));
+}
+
+export const trace = (A: Matrix): number => {
+  assertSquare(A, 'trace');
+  return A.reduce((sum, row, i) => sum + row[i], 0);
+};
+
+// Pivots smaller than this count as zero
+const pivotTolerance = (A: Matrix): number =>
+  Math.max(rows(A), columns(A)) * EPSILON * Math.max(...A.map(row => Math.max(...row.map(Math.abs))), 1e-300);
+
+/** LU factorization with partial pivoting, PA = LU */
+export function luDecompose(A: Matrix): LUDecomposition {
+  assertSquare(A, 'LU decomposition');
+  const n = rows(A);
+  const U = A.map(row => [...row]);
+  const L = identityMatrix(n);
+  const order = Array.from({ length: n }, (_, i) => i);
+  const tolerance = pivotTolerance(A);
+  let swaps = 0;
+
+  for (let k = 0; k < n; k++) {
+    let pivot = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(U[i][k]) > Math.abs(U[pivot][k])) pivot = i;
+    }
+    if (pivot !== k) {
+      [U[k], U[pivot]] = [U[pivot], U[k]];
+      [order[k], order[pivot]] = [order[pivot], order[k]];
+      for (let j = 0; j < k; j++) {
+        [L[k][j], L[pivot][j]] = [L[pivot][j], L[k][j]];
+      }
+      swaps++;
+    }
+    if (Math.abs(U[k][k]) <= tolerance) continue; // singular column: nothing to eliminate
+    for (let i = k + 1; i < n; i++) {
+      const factor = U[i][k] / U[k][k];
+      L[i][k] = factor;
+      for (let j = k; j < n; j++) {
+        U[i][j] -= factor * U[k][j];
+      }
+    }
+  }
+
+  const P = order.map(source => Array.from({ length: n }, (_, j) => (j === source ? 1 : 0)));
+  return { L, U, P, swaps };
+}
+
+export function determinant(A: Matrix): number {
+  const { U, swaps } = luDecompose(A);
+  return U.reduce((product, row, i) => product * row[i], swaps % 2 === 0 ? 1 : -1);
+}
+
+function solveWithLU(lu: LUDecomposition, b: number[], tolerance: number): number[] {
+  const { L, U, P } = lu;
+  const n = b.length;
+  const permuted = multiplyVector(P, b);
+  const y = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    y[i] = permuted[i] - L[i].slice(0, i).reduce((sum, value, j) => sum + value * y[j], 0);
+  }
+  const x = new Array<number>(n);
+  for (let i = n - 1; i >= 0; i--) {
+    if (Math.abs(U[i][i]) <= tolerance) throw new Error('Matrix is singular');
+    let sum = y[i];
+    for (let j = i + 1; j < n; j++) sum -= U[i][j] * x[j];
+    x[i] = sum / U[i][i];
+  }
+  return x;
+}
+
+export function inverse(A: Matrix): Matrix {
+  const lu = luDecompose(A);
+  const tolerance = pivotTolerance(A);
+  const n = rows(A);
+  const inverseColumns = identityMatrix(n).map(column => solveWithLU(lu, column, tolerance));
+  return transpose(inverseColumns);
+}
+
+/** Householder QR: A (m×n) = Q (m×m orthogonal) R (m×n upper triangular) */
+export function qrDecompose(A: Matrix): QRDecomposition {
+  const m = rows(A);
+  const n = columns(A);
+  const R = A.map(row => [...row]);
+  const Q = identityMatrix(m);
+
+  for (let k = 0; k < Math.min(m - 1, n); k++) {
+    const norm = Math.hypot(...R.slice(k).map(row => row[k]));
+    if (norm === 0) continue;
+    const alpha = R[k][k] > 0 ? -norm : norm;
+    const v = R.map((row, i) => (i < k ? 0 : row[k]));
+    v[k] -= alpha;
+    const vNormSquared = v.reduce((sum, value) => sum + value * value, 0);
+    if (vNormSquared === 0) continue;
+
+    // Apply H = I - 2vvᵀ/(vᵀv) to R from the left and accumulate Q = Q H
+    for (let j = 0; j < n; j++) {
+      const dot = v.reduce((sum, value, i) => sum + value * R[i][j], 0);
+      const factor = (2 * dot) / vNormSquared;
+      for (let i = k; i < m; i++) R[i][j] -= factor * v[i];
+    }
+    for (let i = 0; i < m; i++) {
+      const dot = v.reduce((sum, value, j) => sum + Q[i][j] * value, 0);
+      const factor = (2 * dot) / vNormSquared;
+      for (let j = k; j < m; j++) Q[i][j] -= factor * v[j];
+    }
+  }
+  // Clean the entries below the diagonal that rounding left behind
+  R.forEach((row, i) => row.forEach((_, j) => {
+    if (i > j) row[j] = 0;
+  }));
+  return { Q, R };
+}
+
+/** Thin SVD by one-sided Jacobi rotations (Hestenes' method) */
+export function singularValueDecomposition(A: Matrix): SVDecomposition {
+  if (rows(A) < columns(A)) {
+    const { U, S, V } = singularValueDecomposition(transpose(A));
+    return { U: V, S, V: U };
+  }
+  const m = rows(A);
+  const n = columns(A);
+  const W = A.map(row => [...row]);
+  const V = identityMatrix(n);
+
+  for (let sweep = 0; sweep < 60; sweep++) {
+    let rotated = false;
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        let alpha = 0;
+        let beta = 0;
+        let gamma = 0;
+        for (let i = 0; i < m; i++) {
+          alpha += W[i][p] * W[i][p];
+          beta += W[i][q] * W[i][q];
+          gamma += W[i][p] * W[i][q];
+        }
+        if (Math.abs(gamma) <= EPSILON * Math.sqrt(alpha * beta)) continue;
+        rotated = true;
+        const zeta = (beta - alpha) / (2 * gamma);
+        const t = Math.sign(zeta || 1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+        const c = 1 / Math.sqrt(1 + t * t);
+        const s = c * t;
+        for (const target of [W, V]) {
+          for (const row of target) {
+            const [left, right] = [row[p], row[q]];
+            row[p] = c * left - s * right;
+            row[q] = s * left + c * right;
+          }
+        }
+      }
+    }
+    if (!rotated) break;
+  }
+
+  const order = Array.from({ length: n }, (_, j) => j);
+  const norms = order.map(j => Math.hypot(...W.map(row => row[j])));
+  order.sort((a, b) => norms[b] - norms[a]);
+  return {
+    U: W.map(row => order.map(j => (norms[j] > 0 ? row[j] / norms[j] : 0))),
+    S: order.map(j => norms[j]),
+    V: V.map(row => order.map(j => row[j])),
+  };
+}
+
+export function rank(A: Matrix): number {
+  const { S } = singularValueDecomposition(A);
+  const tolerance = Math.max(rows(A), columns(A)) * EPSILON * (S[0] ?? 0);
+  return S.filter(value => value > tolerance).length;
+}
+
+/**
+ * Solve A x = b. Square systems use LU; overdetermined ones return the
+ * least-squares solution from QR.
+ */
+export function solveLinearSystem(A: Matrix, b: number[]): number[] {
+  if (rows(A) !== b.length) {
+    throw new Error(`The right-hand side needs ${rows(A)} entries, got ${b.length}`);
+  }
+  if (rows(A) === columns(A)) {
+    return solveWithLU(luDecompose(A), b, pivotTolerance(A));
+  }
+  if (rows(A) < columns(A)) {
+    throw new Error('The system is underdetermined: more unknowns than equations');
+  }
+  const { Q, R } = qrDecompose(A);
+  const n = columns(A);
+  const qtb = multiplyVector(transpose(Q), b);
+  const x = new Array<number>(n);
+  const tolerance = pivotTolerance(A);
+  for (let i = n - 1; i >= 0; i--) {
+    if (Math.abs(R[i][i]) <= tolerance) throw new Error('Matrix columns are linearly dependent');
+    let sum = qtb[i];
+    for (let j = i + 1; j < n; j++) sum -= R[i][j] * x[j];
+    x[i] = sum / R[i][i];
+  }
+  return x;
+}
+
+export function matrixPower(A: Matrix, exponent: number): Matrix {
+  assertSquare(A, 'Matrix powers');
+  if (!Number.isInteger(exponent)) throw new Error('Matrix powers need an integer exponent');
+  let base = exponent < 0 ? inverse(A) : A;
+  let remaining = Math.abs(exponent);
+  let result = identityMatrix(rows(A));
+  while (remaining > 0) {
+    if (remaining % 2 === 1) result = multiplyMatrices(result, base);
+    base = multiplyMatrices(base, base);
+    remaining = Math.floor(remaining / 2);
+  }
+  return result;
+}
+
+const toScalar = (value: unknown): Scalar =>
+  typeof value === 'number'
+    ? value
+    : Math.abs((value as math.Complex).im) < 1e-14
+      ? (value as math.Complex).re
+      : { re: (value as math.Complex).re, im: (value as math.Complex).im };
+
+const magnitude = (value: Scalar): number => (typeof value === 'number' ? Math.abs(value) : Math.hypot(value.re, value.im));
+
+export function eigenDecomposition(A: Matrix): EigenDecomposition {
+  assertSquare(A, 'Eigenvalues');
+  const result = math.eigs(A) as unknown as {
+    values: unknown[];
+    eigenvectors: Array<{ value: unknown; vector: unknown[] }>;
+  };
+  return {
+    values: result.values.map(toScalar),
+    vectors: result.eigenvectors.map(({ vector }) => {
+      const entries = vector.map(toScalar);
+      const norm = Math.hypot(...entries.map(magnitude));
+      return entries.map(entry =>
+        typeof entry === 'number' ? entry / norm : { re: entry.re / norm, im: entry.im / norm }
+      );
+    }),
+  };
+}
@@ -0,0 +1,269 @@
+// Initial value problems y' = f(t, y): classic fixed-step RK4, adaptive
+// Dormand–Prince RK45 and a variable-step BDF2 for stiff systems.
+import { solveLinearSystem } from './linearAlgebra';
+
+/** Right-hand side of y' = f(t, y) for a state vector y */
+export type ODEFunction = (t: number, y: number[]) => number[];
+
+export type ODEMethod = 'rk4' | 'rk45' | 'bdf';
+
+export interface ODEOptions {
+  method?: ODEMethod | 'auto'; // auto: RK45, switching to BDF when the problem turns out stiff
+  step?: number; // fixed step for RK4, first step for the adaptive methods
+  maxStep?: number;
+  rtol?: number;
+  atol?: number;
+  maxSteps?: number;
+  limit?: number; // stop once any component exceeds this magnitude
+}
+
+export interface ODESolution {
+  t: number[];
+  y: number[][];
+  method: ODEMethod;
+  steps: number;
+  success: boolean; // false when the solution blew up or the solver gave up before t1
+  message?: string;
+}
+
+interface Settings {
+  direction: number;
+  step: number;
+  maxStep: number;
+  rtol: number;
+  atol: number;
+  maxSteps: number;
+  limit: number;
+}
+
+const add = (y: number[], h: number, ...terms: Array<[number, number[]]>): number[] =>
+  y.map((value, i) => value + h * terms.reduce((sum, [c, k]) => sum + c * k[i], 0));
+
+// Weighted RMS norm: below 1 means within tolerance
+const errorNorm = (error: number[], y: number[], yNew: number[], { atol, rtol }: Settings): number =>
+  Math.sqrt(
+    error.reduce((sum, e, i) => {
+      const scale = atol + rtol * Math.max(Math.abs(y[i]), Math.abs(yNew[i]));
+      return sum + (e / scale) ** 2;
+    }, 0) / error.length
+  );
+
+class Trajectory {
+  t: number[];
+  y: number[][];
+  steps = 0;
+  constructor(t0: number, y0: number[], private limit: number) {
+    this.t = [t0];
+    this.y = [y0];
+  }
+  /** Record a step; false when the state is no longer finite or within the limit */
+  push(t: number, y: number[]): boolean {
+    this.steps++;
+    if (!y.every(value => Number.isFinite(value) && Math.abs(value) <= this.limit)) return false;
+    this.t.push(t);
+    this.y.push(y);
+    return true;
+  }
+  result(method: ODEMethod, success: boolean, message?: string): ODESolution {
+    return { t: this.t, y: this.y, method, steps: this.steps, success, message };
+  }
+}
+
+const BLOW_UP = 'The solution left the finite range';
+
+function rk4(f: ODEFunction, t0: number, y0: number[], t1: number, settings: Settings): ODESolution {
+  const trajectory = new Trajectory(t0, y0, settings.limit);
+  const count = Math.max(1, Math.ceil(Math.abs(t1 - t0) / settings.step));
+  const h = (t1 - t0) / count;
+  let y = y0;
+  for (let n = 0; n < count; n++) {
+    const t = t0 + n * h;
+    const k1 = f(t, y);
+    const k2 = f(t + h / 2, add(y, h / 2, [1, k1]));
+    const k3 = f(t + h / 2, add(y, h / 2, [1, k2]));
+    const k4 = f(t + h, add(y, h, [1, k3]));
+    y = add(y, h / 6, [1, k1], [2, k2], [2, k3], [1, k4]);
+    if (!trajectory.push(t + h, y)) return trajectory.result('rk4', false, BLOW_UP);
+  }
+  return trajectory.result('rk4', true);
+}
+
+// Dormand–Prince 5(4) tableau; the fifth-order solution is propagated
+const C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+// Fifth- minus fourth-order weights
+const E = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40];
+
+function rk45(f: ODEFunction, t0: number, y0: number[], t1: number, settings: Settings): ODESolution {
+  const trajectory = new Trajectory(t0, y0, settings.limit);
+  const { direction, maxStep } = settings;
+  let [t, y, h] = [t0, y0, Math.min(settings.step, maxStep)];
+  let k1 = f(t, y); // first-same-as-last: reused from the previous step's k7
+
+  while (direction * (t1 - t) > 1e-12 * Math.max(1, Math.abs(t1))) {
+    if (trajectory.steps >= settings.maxSteps) {
+      return trajectory.result('rk45', false, `Stopped after ${settings.maxSteps} steps`);
+    }
+    h = Math.min(h, Math.abs(t1 - t));
+    if (h < 1e-14 * Math.max(1, Math.abs(t))) return trajectory.result('rk45', false, 'The step size underflowed');
+
+    const signed = direction * h;
+    const k = [k1];
+    for (let stage = 1; stage < 7; stage++) {
+      const state = add(y, signed, ...A[stage].map((a, j): [number, number[]] => [a, k[j]]));
+      k.push(f(t + C[stage] * signed, state));
+    }
+    const yNew = add(y, signed, ...A[6].map((a, j): [number, number[]] => [a, k[j]]));
+    const error = y.map((_, i) => signed * E.reduce((sum, e, s) => sum + e * k[s][i], 0));
+    const norm = errorNorm(error, y, yNew, settings);
+
+    if (!Number.isFinite(norm) || norm > 1) {
+      h *= Number.isFinite(norm) ? Math.max(0.2, 0.9 * norm ** -0.2) : 0.2;
+      continue;
+    }
+    t += signed;
+    y = yNew;
+    k1 = k[6];
+    if (!trajectory.push(t, y)) return trajectory.result('rk45', false, BLOW_UP);
+    h = Math.min(maxStep, h * Math.min(5, norm === 0 ? 5 : 0.9 * norm ** -0.2));
+  }
+  return trajectory.result('rk45', true);
+}
+
+// Forward-difference Jacobian of f with respect to y
+function jacobian(f: ODEFunction, t: number, y: number[], fy: number[]): number[][] {
+  const columns = y.map((value, j) => {
+    const h = 1e-7 * Math.max(1, Math.abs(value));
+    const shifted = f(t, y.map((v, k) => (k === j ? v + h : v)));
+    return shifted.map((value, i) => (value - fy[i]) / h);
+  });
+  return fy.map((_, i) => columns.map(column => column[i]));
+}
+
+/**
+ * Variable-step BDF2 (backward Euler for the first step). Each step solves
+ * the implicit formula by Newton's method; the local error is estimated from
+ * the gap between an explicit extrapolation and the implicit solution.
+ */
+function bdf(f: ODEFunction, t0: number, y0: number[], t1: number, settings: Settings): ODESolution {
+  const trajectory = new Trajectory(t0, y0, settings.limit);
+  const { direction, maxStep } = settings;
+  const history: Array<{ t: number; y: number[] }> = [{ t: t0, y: y0 }];
+  let h = Math.min(settings.step, maxStep);
+
+  while (direction * (t1 - history[history.length - 1].t) > 1e-12 * Math.max(1, Math.abs(t1))) {
+    if (trajectory.steps >= settings.maxSteps) {
+      return trajectory.result('bdf', false, `Stopped after ${settings.maxSteps} steps`);
+    }
+    const { t, y } = history[history.length - 1];
+    h = Math.min(h, Math.abs(t1 - t));
+    if (h < 1e-14 * Math.max(1, Math.abs(t))) return trajectory.result('bdf', false, 'The step size underflowed');
+    const signed = direction * h;
+    const tNew = t + signed;
+    const previous = history.length > 1 ? history[history.length - 2] : null;
+
+    // y_{n+1} - α₁yₙ - α₂yₙ₋₁ = βh f(t_{n+1}, y_{n+1}) with ω = hₙ/hₙ₋₁
+    const omega = previous ? signed / (t - previous.t) : 0;
+    const [alpha1, alpha2, beta] = previous
+      ? [(1 + omega) ** 2 / (1 + 2 * omega), -(omega ** 2) / (1 + 2 * omega), (1 + omega) / (1 + 2 * omega)]
+      : [1, 0, 1];
+    const base = y.map((value, i) => alpha1 * value + (previous ? alpha2 * previous.y[i] : 0));
+
+    // Predictor: Lagrange extrapolation through the last (up to) three points
+    const points = history.slice(-3);
+    const predicted =
+      points.length === 1
+        ? add(y, signed, [1, f(t, y)])
+        : y.map((_, i) =>
+            points.reduce((sum, point, a) => {
+              const weight = points.reduce(
+                (w, other, b) => (a === b ? w : (w * (tNew - other.t)) / (point.t - other.t)),
+                1
+              );
+              return sum + weight * point.y[i];
+            }, 0)
+          );
+
+    let candidate = predicted;
+    let converged = false;
+    const fy = f(tNew, predicted);
+    const J = jacobian(f, tNew, predicted, fy);
+    const newton = J.map((row, i) => row.map((value, j) => (i === j ? 1 : 0) - beta * signed * value));
+    for (let iteration = 0; iteration < 8 && !converged; iteration++) {
+      const fc = iteration === 0 ? fy : f(tNew, candidate);
+      const residual = candidate.map((value, i) => value - base[i] - beta * signed * fc[i]);
+      let delta: number[];
+      try {
+        delta = solveLinearSystem(newton, residual.map(r => -r));
+      } catch {
+        break;
+      }
+      candidate = candidate.map((value, i) => value + delta[i]);
+      if (!candidate.every(Number.isFinite)) break;
+      converged = errorNorm(delta, y, candidate, settings) < 1e-2;
+    }
+    if (!converged) {
+      h /= 4;
+      continue;
+    }
+
+    // Error constants relative to the predictor gap: 1/2 for backward Euler
+    // against explicit Euler, 2/11 for BDF2 against quadratic extrapolation
+    const constant = points.length === 1 ? 1 / 2 : points.length === 2 ? 1 / 3 : 2 / 11;
+    const error = candidate.map((value, i) => constant * (value - predicted[i]));
+    const norm = errorNorm(error, y, candidate, settings);
+    if (norm > 1) {
+      h *= Math.max(0.2, 0.9 * norm ** (-1 / 3));
+      continue;
+    }
+    history.push({ t: tNew, y: candidate });
+    if (history.length > 3) history.shift();
+    if (!trajectory.push(tNew, candidate)) return trajectory.result('bdf', false, BLOW_UP);
+    h = Math.min(maxStep, h * Math.min(2, norm === 0 ? 2 : 0.9 * norm ** (-1 / 3)));
+  }
+  return trajectory.result('bdf', true);
+}
+
+const SOLVERS: Record<ODEMethod, typeof rk4> = { rk4, rk45, bdf };
+
+/**
+ * Integrate y' = f(t, y) from (t0, y0) to t1, which may lie before t0. The
+ * default `auto` method runs RK45 and retries with BDF when RK45 runs out of
+ * steps, the signature of a stiff problem.
+ */
+export function solveODE(
+  f: ODEFunction,
+  t0: number,
+  y0: number[],
+  t1: number,
+  options: ODEOptions = {}
+): ODESolution {
+  if (y0.length === 0) throw new Error('An ODE needs at least one state variable');
+  if (!y0.every(Number.isFinite) || !Number.isFinite(t0) || !Number.isFinite(t1)) {
+    throw new Error('ODE initial values must be finite numbers');
+  }
+  const span = Math.abs(t1 - t0);
+  const settings: Settings = {
+    direction: t1 >= t0 ? 1 : -1,
+    step: options.step ?? (span / 100 || 1),
+    maxStep: options.maxStep ?? (span || 1),
+    rtol: options.rtol ?? 1e-6,
+    atol: options.atol ?? 1e-9,
+    maxSteps: options.maxSteps ?? 20000,
+    limit: options.limit ?? Infinity,
+  };
+  const method = options.method ?? 'auto';
+  if (method !== 'auto') return SOLVERS[method](f, t0, y0, t1, settings);
+
+  const explicit = rk45(f, t0, y0, t1, { ...settings, maxSteps: Math.min(settings.maxSteps, 2000) });
+  if (explicit.success || explicit.message === BLOW_UP) return explicit;
+  return bdf(f, t0, y0, t1, settings);
+}
@@ -0,0 +1,181 @@
+// Least-squares model fitting. Models that are linear in their parameters
+// (lines, polynomials, sums of basis functions) are solved in closed form;
+// anything else goes through Levenberg–Marquardt.
+import { solveLinearSystem } from './linearAlgebra';
+
+/** Predictions for every data row given a parameter vector */
+export type Model = (parameters: number[]) => number[];
+
+export interface FitOptions {
+  initial?: number[]; // starting point for nonlinear fits (defaults to all ones)
+  maxIterations?: number;
+  tolerance?: number; // relative change in the residual sum of squares
+}
+
+export interface FitResult {
+  parameters: number[];
+  predicted: number[];
+  residuals: number[]; // observed - predicted
+  rSquared: number;
+  rmse: number;
+  method: 'linear' | 'levenberg-marquardt';
+  iterations: number;
+  converged: boolean;
+}
+
+const sumOfSquares = (values: number[]): number => values.reduce((sum, value) => sum + value * value, 0);
+
+const residualsOf = (observed: number[], predicted: number[]): number[] =>
+  observed.map((value, i) => value - predicted[i]);
+
+function summarize(
+  observed: number[],
+  parameters: number[],
+  predicted: number[],
+  details: Pick<FitResult, 'method' | 'iterations' | 'converged'>
+): FitResult {
+  const residuals = residualsOf(observed, predicted);
+  const mean = observed.reduce((sum, value) => sum + value, 0) / observed.length;
+  const totalSquares = sumOfSquares(observed.map(value => value - mean));
+  const residualSquares = sumOfSquares(residuals);
+  return {
+    parameters,
+    predicted,
+    residuals,
+    // Constant data has no variance to explain: a perfect fit still scores 1
+    rSquared: totalSquares === 0 ? (residualSquares === 0 ? 1 : 0) : 1 - residualSquares / totalSquares,
+    rmse: Math.sqrt(residualSquares / observed.length),
+    ...details,
+  };
+}
+
+/**
+ * Design matrix columns when the model is affine in its parameters, found by
+ * probing: f(p) must equal f(0) + Σ pⱼ (f(eⱼ) - f(0)) at two generic points.
+ * Returns null for nonlinear models.
+ */
+export function linearDesign(model: Model, parameterCount: number): { offset: number[]; columns: number[][] } | null {
+  const offset = model(new Array(parameterCount).fill(0));
+  const columns = Array.from({ length: parameterCount }, (_, j) =>
+    model(Array.from({ length: parameterCount }, (_, k) => (k === j ? 1 : 0))).map((value, i) => value - offset[i])
+  );
+  if (![offset, ...columns].every(values => values.every(Number.isFinite))) return null;
+
+  const probes = [
+    Array.from({ length: parameterCount }, (_, j) => 0.7 + 0.37 * j * (j % 2 === 0 ? 1 : -1)),
+    Array.from({ length: parameterCount }, (_, j) => -2.3 + 1.1 * j),
+  ];
+  const affine = probes.every(probe => {
+    const actual = model(probe);
+    return actual.every((value, i) => {
+      const expected = offset[i] + probe.reduce((sum, p, j) => sum + p * columns[j][i], 0);
+      return Math.abs(value - expected) <= 1e-9 * (1 + Math.abs(value));
+    });
+  });
+  return affine ? { offset, columns } : null;
+}
+
+// Central-difference Jacobian of the predictions, one column per parameter
+function jacobian(model: Model, parameters: number[]): number[][] {
+  const columns = parameters.map((value, j) => {
+    const h = 6e-6 * Math.max(1, Math.abs(value));
+    const shifted = (delta: number) => model(parameters.map((p, k) => (k === j ? p + delta : p)));
+    const [forward, backward] = [shifted(h), shifted(-h)];
+    return forward.map((f, i) => (f - backward[i]) / (2 * h));
+  });
+  return columns[0].map((_, i) => columns.map(column => column[i]));
+}
+
+/**
+ * Levenberg–Marquardt with Marquardt's diagonal scaling: each step solves
+ * (JᵀJ + λ diag(JᵀJ)) δ = Jᵀr, shrinking λ after an accepted step and
+ * growing it after a rejected one.
+ */
+export function levenbergMarquardt(
+  model: Model,
+  observed: number[],
+  initial: number[],
+  { maxIterations = 200, tolerance = 1e-12 }: FitOptions = {}
+): FitResult {
+  let parameters = [...initial];
+  let predicted = model(parameters);
+  let cost = sumOfSquares(residualsOf(observed, predicted));
+  if (!Number.isFinite(cost)) throw new Error('The model cannot be evaluated at the starting parameters');
+
+  // Start well damped: from a poor guess a pure Gauss–Newton step can leap
+  // into a flat region (a saturated sigmoid) it never leaves
+  let lambda = 1;
+  let converged = cost === 0;
+  let iterations = 0;
+  while (!converged && iterations < maxIterations) {
+    iterations++;
+    const J = jacobian(model, parameters);
+    const residuals = residualsOf(observed, predicted);
+    const normal = parameters.map((_, a) => parameters.map((_, b) => J.reduce((sum, row) => sum + row[a] * row[b], 0)));
+    const gradient = parameters.map((_, a) => J.reduce((sum, row, i) => sum + row[a] * residuals[i], 0));
+
+    let accepted = false;
+    while (!accepted && lambda < 1e16) {
+      const damped = normal.map((row, a) => row.map((value, b) => (a === b ? value + lambda * Math.max(value, 1e-12) : value)));
+      let step: number[];
+      try {
+        step = solveLinearSystem(damped, gradient);
+      } catch {
+        lambda *= 10;
+        continue;
+      }
+      const candidate = parameters.map((value, j) => value + step[j]);
+      const candidatePredicted = model(candidate);
+      const candidateCost = sumOfSquares(residualsOf(observed, candidatePredicted));
+      if (!Number.isFinite(candidateCost) || candidateCost >= cost) {
+        lambda *= 10;
+        continue;
+      }
+      accepted = true;
+      const relativeStep = Math.hypot(...step) / (Math.hypot(...parameters) + 1e-12);
+      converged = relativeStep < 1e-10 || (cost - candidateCost) / cost < tolerance;
+      parameters = candidate;
+      predicted = candidatePredicted;
+      cost = candidateCost;
+      lambda = Math.max(lambda / 10, 1e-15);
+    }
+    // No damping improves the fit: we are at a (local) minimum
+    if (!accepted) converged = true;
+  }
+
+  return summarize(observed, parameters, predicted, { method: 'levenberg-marquardt', iterations, converged });
+}
+
+/**
+ * Least-squares fit of `model` to `observed`. Linear models are solved
+ * exactly; nonlinear ones run Levenberg–Marquardt from a few starting points
+ * and keep the best fit.
+ */
+export function fitModel(model: Model, observed: number[], parameterCount: number, options: FitOptions = {}): FitResult {
+  if (observed.length < parameterCount) {
+    throw new Error(`Fitting ${parameterCount} parameters needs at least ${parameterCount} data points`);
+  }
+
+  const design = linearDesign(model, parameterCount);
+  if (design) {
+    const { offset, columns } = design;
+    const rows = observed.map((_, i) => columns.map(column => column[i]));
+    const parameters = solveLinearSystem(rows, observed.map((value, i) => value - offset[i]));
+    return summarize(observed, parameters, model(parameters), { method: 'linear', iterations: 1, converged: true });
+  }
+
+  const ones = new Array(parameterCount).fill(1);
+  const starts = [options.initial ?? ones, ones.map(() => 0.1), ones.map(() => -1)];
+  let best: FitResult | null = null;
+  let lastError: unknown = null;
+  for (const start of starts) {
+    try {
+      const fit = levenbergMarquardt(model, observed, start, options);
+      if (!best || sumOfSquares(fit.residuals) < sumOfSquares(best.residuals)) best = fit;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  if (!best) throw lastError instanceof Error ? lastError : new Error('The model could not be fitted');
+  return best;
+}
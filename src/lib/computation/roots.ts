@@ -0,0 +1,297 @@
+// Zeros, extrema and intersections of real functions on an interval: a
+// sampling pass brackets every feature, then Brent's method (for roots and
+// minima) and Newton's method (for tangencies and 2D systems) refine it.
+
+export type RealFunction = (x: number) => number;
+
+export interface Extremum {
+  x: number;
+  y: number;
+  kind: 'min' | 'max';
+}
+
+export interface Intersection {
+  x: number;
+  y: number;
+}
+
+const EPSILON = 2.220446049250313e-16;
+const DEFAULT_SAMPLES = 400;
+const MAX_ITERATIONS = 200;
+
+/**
+ * Brent's method for a root of f on [a, b], where f(a) and f(b) differ in
+ * sign: inverse quadratic interpolation with bisection as the fallback.
+ */
+export function brentRoot(f: RealFunction, a: number, b: number, tolerance = 1e-15): number {
+  let [fa, fb] = [f(a), f(b)];
+  if (fa === 0) return a;
+  if (fb === 0) return b;
+  if (!(fa * fb < 0)) throw new Error('brentRoot needs f(a) and f(b) of opposite signs');
+  let [c, fc] = [a, fa];
+  let d = b - a;
+  let e = d;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    if (fb > 0 === fc > 0) {
+      [c, fc] = [a, fa];
+      d = e = b - a;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      [a, b, c] = [b, c, b];
+      [fa, fb, fc] = [fb, fc, fb];
+    }
+    const tol = 2 * EPSILON * Math.abs(b) + tolerance / 2;
+    const m = (c - b) / 2;
+    if (Math.abs(m) <= tol || fb === 0) return b;
+
+    if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+      // Secant step when only two points are distinct, otherwise inverse quadratic
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * m * s;
+        q = 1 - s;
+      } else {
+        const r = fb / fc;
+        const t = fa / fc;
+        p = s * (2 * m * t * (t - r) - (b - a) * (r - 1));
+        q = (t - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      else p = -p;
+      if (2 * p < Math.min(3 * m * q - Math.abs(tol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = e = m;
+      }
+    } else {
+      d = e = m;
+    }
+    [a, fa] = [b, fb];
+    b += Math.abs(d) > tol ? d : m > 0 ? tol : -tol;
+    fb = f(b);
+  }
+  return b;
+}
+
+/**
+ * Brent's minimization on [a, b]: golden-section search accelerated by
+ * parabolic interpolation. Finds a local minimum to about √ε relative
+ * accuracy, the limit for a flat bottom.
+ */
+export function brentMinimize(f: RealFunction, a: number, b: number, tolerance = 1e-12): number {
+  const golden = (3 - Math.sqrt(5)) / 2;
+  let x = a + golden * (b - a);
+  let [w, v] = [x, x];
+  let fx = f(x);
+  let [fw, fv] = [fx, fx];
+  let d = 0;
+  let e = 0;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const m = (a + b) / 2;
+    const tol = Math.sqrt(EPSILON) * Math.abs(x) + tolerance / 3;
+    if (Math.abs(x - m) <= 2 * tol - (b - a) / 2) break;
+
+    let parabolic = false;
+    if (Math.abs(e) > tol) {
+      const r = (x - w) * (fx - fv);
+      let q = (x - v) * (fx - fw);
+      let p = (x - v) * q - (x - w) * r;
+      q = 2 * (q - r);
+      if (q > 0) p = -p;
+      else q = -q;
+      const previous = e;
+      e = d;
+      if (Math.abs(p) < Math.abs((q * previous) / 2) && p > q * (a - x) && p < q * (b - x)) {
+        d = p / q;
+        parabolic = true;
+        // Never evaluate right next to the bracket ends
+        if (x + d - a < 2 * tol || b - (x + d) < 2 * tol) d = x < m ? tol : -tol;
+      }
+    }
+    if (!parabolic) {
+      e = (x < m ? b : a) - x;
+      d = golden * e;
+    }
+    const u = x + (Math.abs(d) >= tol ? d : d > 0 ? tol : -tol);
+    const fu = f(u);
+    if (fu <= fx) {
+      if (u < x) b = x;
+      else a = x;
+      [v, fv, w, fw, x, fx] = [w, fw, x, fx, u, fu];
+    } else {
+      if (u < x) a = u;
+      else b = u;
+      if (fu <= fw || w === x) {
+        [v, fv, w, fw] = [w, fw, u, fu];
+      } else if (fu <= fv || v === x || v === w) {
+        [v, fv] = [u, fu];
+      }
+    }
+  }
+  return x;
+}
+
+/**
+ * Newton's method on f' with central differences. Polishes a stationary
+ * point (an extremum, or a root where the graph touches the axis) past the
+ * √ε accuracy of minimization; gives up if it leaves [lo, hi].
+ */
+function polishStationary(f: RealFunction, x: number, lo: number, hi: number): number {
+  for (let iteration = 0; iteration < 8; iteration++) {
+    // ∛ε balances the truncation and rounding errors of central differences
+    const h = 6e-6 * Math.max(1, Math.abs(x));
+    const [left, mid, right] = [f(x - h), f(x), f(x + h)];
+    const slope = (right - left) / (2 * h);
+    const curvature = (right - 2 * mid + left) / (h * h);
+    if (!Number.isFinite(slope) || !Number.isFinite(curvature) || curvature === 0) break;
+    const next = x - slope / curvature;
+    if (!(next > lo && next < hi)) break;
+    const converged = Math.abs(next - x) <= 4 * EPSILON * Math.max(1, Math.abs(x));
+    x = next;
+    if (converged) break;
+  }
+  return x;
+}
+
+// Minimize f near an interior sample, then polish unless that climbs out of
+// the minimum (values within rounding of each other count as equal)
+function refineMinimum(f: RealFunction, lo: number, hi: number): number {
+  const x = brentMinimize(f, lo, hi);
+  const polished = polishStationary(f, x, lo, hi);
+  return f(polished) <= f(x) + 8 * EPSILON * Math.abs(f(x)) ? polished : x;
+}
+
+function sampleGrid(f: RealFunction, a: number, b: number, samples: number) {
+  const xs = Array.from({ length: samples + 1 }, (_, i) => a + ((b - a) * i) / samples);
+  const ys = xs.map(x => f(x));
+  const scale = ys.reduce((max, y) => (Number.isFinite(y) ? Math.max(max, Math.abs(y)) : max), 1);
+  return { xs, ys, scale };
+}
+
+// Merge points closer than a tiny fraction of the interval (a root can be
+// found from both of the sample intervals that share it)
+function dedupe<T extends { x: number }>(points: T[], span: number): T[] {
+  const sorted = [...points].sort((p, q) => p.x - q.x);
+  return sorted.filter((point, i) => i === 0 || point.x - sorted[i - 1].x > 1e-9 * span);
+}
+
+/**
+ * All zeros of f on [a, b]. Sign changes are refined with Brent's method
+ * (rejecting poles and jumps, where |f| stays large); dips of |f| that touch
+ * zero without crossing are found by minimizing |f|.
+ */
+export function findRoots(f: RealFunction, a: number, b: number, samples = DEFAULT_SAMPLES): number[] {
+  if (!(b > a)) throw new Error('The interval must satisfy a < b');
+  const { xs, ys, scale } = sampleGrid(f, a, b, samples);
+  const roots: Array<{ x: number }> = [];
+  const isZero = (x: number) => Math.abs(f(x)) <= 1e-9 * scale;
+
+  for (let i = 0; i < samples; i++) {
+    const [y0, y1] = [ys[i], ys[i + 1]];
+    if (!Number.isFinite(y0) || !Number.isFinite(y1)) continue;
+    if (y0 === 0) roots.push({ x: xs[i] });
+    if (y0 * y1 < 0) {
+      const root = brentRoot(f, xs[i], xs[i + 1]);
+      if (isZero(root)) roots.push({ x: root });
+    }
+  }
+  if (ys[samples] === 0) roots.push({ x: xs[samples] });
+
+  // Touching roots: |f| has a local minimum between samples of one sign
+  for (let i = 1; i < samples; i++) {
+    const [left, mid, right] = [ys[i - 1], ys[i], ys[i + 1]];
+    if (!(left * mid > 0 && mid * right > 0)) continue;
+    if (Math.abs(mid) > Math.abs(left) || Math.abs(mid) > Math.abs(right)) continue;
+    const root = refineMinimum(x => Math.abs(f(x)), xs[i - 1], xs[i + 1]);
+    if (isZero(root)) roots.push({ x: root });
+  }
+  return dedupe(roots, b - a).map(root => root.x);
+}
+
+/** Interior local minima and maxima of f on [a, b] */
+export function findExtrema(f: RealFunction, a: number, b: number, samples = DEFAULT_SAMPLES): Extremum[] {
+  if (!(b > a)) throw new Error('The interval must satisfy a < b');
+  const { xs, ys } = sampleGrid(f, a, b, samples);
+  const extrema: Extremum[] = [];
+
+  for (let i = 1; i < samples; i++) {
+    const [left, mid, right] = [ys[i - 1], ys[i], ys[i + 1]];
+    if (![left, mid, right].every(Number.isFinite)) continue;
+    // One strict side, so a flat stretch is reported once at most
+    const kind = mid <= left && mid < right ? 'min' : mid >= left && mid > right ? 'max' : null;
+    if (!kind) continue;
+    const g = kind === 'min' ? f : (x: number) => -f(x);
+    const x = refineMinimum(g, xs[i - 1], xs[i + 1]);
+    extrema.push({ x, y: f(x), kind });
+  }
+  return dedupe(extrema, b - a);
+}
+
+/** Where f attains its smallest value on [a, b], endpoints included */
+export function argmin(f: RealFunction, a: number, b: number, samples = DEFAULT_SAMPLES): number {
+  const candidates = [
+    a,
+    b,
+    ...findExtrema(f, a, b, samples)
+      .filter(extremum => extremum.kind === 'min')
+      .map(extremum => extremum.x),
+  ].filter(x => Number.isFinite(f(x)));
+  if (candidates.length === 0) throw new Error('The function has no finite values on the interval');
+  return candidates.reduce((best, x) => (f(x) < f(best) ? x : best));
+}
+
+/** Where f attains its largest value on [a, b], endpoints included */
+export function argmax(f: RealFunction, a: number, b: number, samples = DEFAULT_SAMPLES): number {
+  return argmin(x => -f(x), a, b, samples);
+}
+
+/** Points where the graphs of f and g cross or touch on [a, b] */
+export function intersections(
+  f: RealFunction,
+  g: RealFunction,
+  a: number,
+  b: number,
+  samples = DEFAULT_SAMPLES
+): Intersection[] {
+  return findRoots(x => f(x) - g(x), a, b, samples).map(x => ({ x, y: f(x) }));
+}
+
+/**
+ * Newton's method for two equations F(x, y) = G(x, y) = 0 with a
+ * finite-difference Jacobian. Converges once a step is below `tolerance`
+ * relative to the point; returns null when that does not happen within
+ * `radius` of the starting point.
+ */
+export function newtonSystem(
+  equations: (x: number, y: number) => [number, number],
+  x0: number,
+  y0: number,
+  radius: number,
+  tolerance = 1e-12
+): Intersection | null {
+  let [x, y] = [x0, y0];
+  for (let iteration = 0; iteration < 30; iteration++) {
+    const [F, G] = equations(x, y);
+    if (!Number.isFinite(F) || !Number.isFinite(G)) return null;
+    const hx = 1e-7 * Math.max(1, Math.abs(x));
+    const hy = 1e-7 * Math.max(1, Math.abs(y));
+    const [Fx, Gx] = equations(x + hx, y).map((value, i) => (value - [F, G][i]) / hx);
+    const [Fy, Gy] = equations(x, y + hy).map((value, i) => (value - [F, G][i]) / hy);
+    const det = Fx * Gy - Fy * Gx;
+    if (!Number.isFinite(det) || det === 0) return null;
+    const dx = (F * Gy - G * Fy) / det;
+    const dy = (G * Fx - F * Gx) / det;
+    x -= dx;
+    y -= dy;
+    if (Math.hypot(x - x0, y - y0) > radius) return null;
+    if (Math.abs(dx) <= tolerance * Math.max(1, Math.abs(x)) && Math.abs(dy) <= tolerance * Math.max(1, Math.abs(y))) {
+      return { x, y };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,471 @@
+// Special functions. Real arguments use @stdlib's implementations where it has
+// them; integer-order Bessel functions beyond J0/J1/Y0/Y1, the modified Bessel
+// functions, Airy functions, Lambert W, incomplete elliptic integrals and the
+// complex variants are computed here. Complex arithmetic uses math.js' Complex.
+import * as math from 'mathjs';
+import besselj0 from '@stdlib/math/base/special/besselj0';
+import besselj1 from '@stdlib/math/base/special/besselj1';
+import bessely0 from '@stdlib/math/base/special/bessely0';
+import bessely1 from '@stdlib/math/base/special/bessely1';
+import stdlibBeta from '@stdlib/math/base/special/beta';
+import stdlibDigamma from '@stdlib/math/base/special/digamma';
+import stdlibEllipe from '@stdlib/math/base/special/ellipe';
+import stdlibEllipk from '@stdlib/math/base/special/ellipk';
+import stdlibErf from '@stdlib/math/base/special/erf';
+import stdlibErfc from '@stdlib/math/base/special/erfc';
+import stdlibErfinv from '@stdlib/math/base/special/erfinv';
+import stdlibGamma from '@stdlib/math/base/special/gamma';
+import gammaln from '@stdlib/math/base/special/gammaln';
+import riemannZeta from '@stdlib/math/base/special/riemann-zeta';
+
+// math.js types its Complex as a bare record; at runtime it is a complex.js
+// instance, whose arithmetic is used directly here
+export interface Complex extends math.Complex {
+  add(z: Complex | number): Complex;
+  sub(z: Complex | number): Complex;
+  mul(z: Complex | number): Complex;
+  div(z: Complex | number): Complex;
+  neg(): Complex;
+  inverse(): Complex;
+  exp(): Complex;
+  log(): Complex;
+  sqrt(): Complex;
+  sin(): Complex;
+  cos(): Complex;
+  abs(): number;
+}
+
+export const complexNumber = (re: number, im = 0): Complex => math.complex(re, im) as Complex;
+
+const SQRT_PI = Math.sqrt(Math.PI);
+const EPSILON = 1e-17;
+
+// ============= Error function =============
+
+export const erf = (x: number): number => stdlibErf(x);
+export const erfc = (x: number): number => stdlibErfc(x);
+export const erfinv = (x: number): number => stdlibErfinv(x);
+
+// Maclaurin series; used for |Re z| < 2, where it loses at most e^(2 Re(z)^2)
+function erfSeries(z: Complex): Complex {
+  const z2 = z.mul(z);
+  let term = z;
+  let sum = z;
+  for (let n = 1; n < 5000; n++) {
+    term = term.mul(z2).mul(-1 / n);
+    const contribution = term.div(2 * n + 1);
+    sum = sum.add(contribution);
+    if (contribution.abs() < EPSILON * sum.abs()) break;
+  }
+  return sum.mul(2 / SQRT_PI);
+}
+
+// Laplace's continued fraction for erfc, valid for Re z > 0:
+// erfc z = e^(-z^2)/√π · 1/(z + (1/2)/(z + 1/(z + (3/2)/(z + ...))))
+function erfcContinuedFraction(z: Complex): Complex {
+  let tail = z;
+  for (let k = 120; k >= 1; k--) {
+    tail = z.add(complexNumber(k / 2, 0).div(tail));
+  }
+  return z.mul(z).neg().exp().div(tail.mul(SQRT_PI));
+}
+
+export function complexErf(z: Complex): Complex {
+  if (Math.abs(z.re) < 2) return erfSeries(z);
+  return z.re > 0
+    ? complexNumber(1, 0).sub(erfcContinuedFraction(z))
+    : erfcContinuedFraction(z.neg()).sub(1);
+}
+
+export function complexErfc(z: Complex): Complex {
+  if (z.re >= 2) return erfcContinuedFraction(z);
+  if (z.re <= -2) return complexNumber(2, 0).sub(erfcContinuedFraction(z.neg()));
+  return complexNumber(1, 0).sub(erfSeries(z));
+}
+
+// ============= Gamma family =============
+
+export const gamma = (x: number): number => stdlibGamma(x);
+/** log|Γ(x)| for real x */
+export const lgamma = (x: number): number => gammaln(x);
+export const digamma = (x: number): number => stdlibDigamma(x);
+export const beta = (a: number, b: number): number => stdlibBeta(a, b);
+
+export const complexGamma = (z: Complex): Complex => math.gamma(z) as Complex;
+/** Principal branch of log Γ(z) */
+export const complexLgamma = (z: Complex): Complex => math.lgamma(z) as Complex;
+
+export function complexDigamma(z: Complex): Complex {
+  // Reflection: ψ(z) = ψ(1 - z) - π cot(πz)
+  if (z.re < 0.5) {
+    const piZ = z.mul(Math.PI);
+    return complexDigamma(complexNumber(1, 0).sub(z)).sub(piZ.cos().div(piZ.sin()).mul(Math.PI));
+  }
+  // Recur upward with ψ(z) = ψ(z + 1) - 1/z, then use the asymptotic series
+  let shifted = z;
+  let correction = complexNumber(0, 0);
+  while (shifted.re < 10) {
+    correction = correction.sub(shifted.inverse());
+    shifted = shifted.add(1);
+  }
+  const inv2 = shifted.mul(shifted).inverse();
+  const tail = inv2.mul(
+    complexNumber(1 / 12, 0).sub(inv2.mul(
+      complexNumber(1 / 120, 0).sub(inv2.mul(
+        complexNumber(1 / 252, 0).sub(inv2.mul(
+          complexNumber(1 / 240, 0).sub(inv2.mul(
+            complexNumber(1 / 132, 0).sub(inv2.mul(691 / 32760))
+          ))
+        ))
+      ))
+    ))
+  );
+  return shifted.log().sub(shifted.mul(2).inverse()).sub(tail).add(correction);
+}
+
+export const complexBeta = (a: Complex, b: Complex): Complex =>
+  complexLgamma(a).add(complexLgamma(b)).sub(complexLgamma(a.add(b))).exp();
+
+// ============= Riemann zeta =============
+
+export const zeta = (s: number): number => riemannZeta(s);
+export const complexZeta = (s: Complex): Complex => math.zeta(s) as unknown as Complex;
+
+// ============= Bessel functions =============
+
+function requireIntegerOrder(name: string, n: number): void {
+  if (!Number.isInteger(n)) throw new Error(`${name} expects an integer order`);
+}
+
+const parity = (n: number): number => (n % 2 === 0 ? 1 : -1);
+
+/** Bessel function of the first kind J_n(x), integer order */
+export function besselJ(n: number, x: number): number {
+  requireIntegerOrder('besselj', n);
+  if (n < 0) return parity(n) * besselJ(-n, x);
+  if (x < 0) return parity(n) * besselJ(n, -x);
+  if (n === 0) return besselj0(x);
+  if (n === 1) return besselj1(x);
+  if (x === 0) return 0;
+
+  if (x > n) {
+    // Upward recurrence is stable while the order stays below x
+    let previous = besselj0(x);
+    let current = besselj1(x);
+    for (let k = 1; k < n; k++) {
+      [previous, current] = [current, (2 * k / x) * current - previous];
+    }
+    return current;
+  }
+
+  // Miller's algorithm: recur downward from a high order and normalize with
+  // J0 + 2(J2 + J4 + ...) = 1
+  const start = 2 * Math.floor((n + Math.floor(Math.sqrt(160 * n))) / 2);
+  let above = 0;
+  let current = 1;
+  let evenSum = 0;
+  let result = 0;
+  for (let k = start; k > 0; k--) {
+    const below = (2 * k / x) * current - above;
+    above = current;
+    current = below;
+    if (Math.abs(current) > 1e250) {
+      current *= 1e-250;
+      above *= 1e-250;
+      evenSum *= 1e-250;
+      result *= 1e-250;
+    }
+    if (k - 1 === n) result = current;
+    if ((k - 1) % 2 === 0 && k > 1) evenSum += current;
+  }
+  return result / (current + 2 * evenSum);
+}
+
+/** Bessel function of the second kind Y_n(x), integer order, x > 0 */
+export function besselY(n: number, x: number): number {
+  requireIntegerOrder('bessely', n);
+  if (n < 0) return parity(n) * besselY(-n, x);
+  if (x < 0 || Number.isNaN(x)) return NaN;
+  if (x === 0) return -Infinity;
+  if (n === 0) return bessely0(x);
+
+  // Upward recurrence is stable for Y at every order
+  let previous = bessely0(x);
+  let current = bessely1(x);
+  for (let k = 1; k < n; k++) {
+    [previous, current] = [current, (2 * k / x) * current - previous];
+  }
+  return current;
+}
+
+// Power series; every term is positive, so it is accurate for all x >= 0
+function besselISeries(nu: number, x: number): number {
+  if (x === 0) return nu === 0 ? 1 : 0;
+  const quarterSquare = (x * x) / 4;
+  let term = Math.exp(nu * Math.log(x / 2) - gammaln(nu + 1));
+  let sum = term;
+  for (let k = 1; k < 10000; k++) {
+    term *= quarterSquare / (k * (k + nu));
+    sum += term;
+    if (term < EPSILON * sum) break;
+  }
+  return sum;
+}
+
+// K_ν(x) = ∫₀^∞ e^(-x cosh t) cosh(νt) dt. The integrand is analytic and
+// decays double-exponentially, so the trapezoid rule converges geometrically.
+function besselKIntegral(nu: number, x: number): number {
+  const step = 0.05;
+  let sum = 0.5 * Math.exp(-x);
+  for (let k = 1; k < 100000; k++) {
+    const t = k * step;
+    // cosh(νt) e^(-x cosh t), written to avoid overflowing cosh(νt)
+    const term = 0.5 * (Math.exp(nu * t - x * Math.cosh(t)) + Math.exp(-nu * t - x * Math.cosh(t)));
+    sum += term;
+    if (term < EPSILON * sum) break;
+  }
+  return step * sum;
+}
+
+/** Modified Bessel function of the first kind I_n(x), integer order */
+export function besselI(n: number, x: number): number {
+  requireIntegerOrder('besseli', n);
+  const order = Math.abs(n);
+  if (x < 0) return parity(order) * besselISeries(order, -x);
+  return besselISeries(order, x);
+}
+
+/** Modified Bessel function of the second kind K_n(x), integer order, x > 0 */
+export function besselK(n: number, x: number): number {
+  requireIntegerOrder('besselk', n);
+  const order = Math.abs(n);
+  if (x < 0 || Number.isNaN(x)) return NaN;
+  if (x === 0) return Infinity;
+  if (order === 0) return besselKIntegral(0, x);
+
+  // Upward recurrence K_{k+1} = K_{k-1} + (2k/x) K_k is stable
+  let previous = besselKIntegral(0, x);
+  let current = besselKIntegral(1, x);
+  for (let k = 1; k < order; k++) {
+    [previous, current] = [current, previous + (2 * k / x) * current];
+  }
+  return current;
+}
+
+// ============= Airy functions =============
+
+const AIRY_AI0 = 0.3550280538878172; // Ai(0)
+const AIRY_AIP0 = 0.2588194037928068; // -Ai'(0)
+
+// Ai = c1 f - c2 g and Bi = √3 (c1 f + c2 g) for the two Maclaurin series
+function airyMaclaurin(x: number): { ai: number; bi: number } {
+  const cube = x * x * x;
+  let fTerm = 1;
+  let gTerm = x;
+  let f = fTerm;
+  let g = gTerm;
+  for (let k = 0; k < 500; k++) {
+    fTerm *= cube / ((3 * k + 2) * (3 * k + 3));
+    gTerm *= cube / ((3 * k + 3) * (3 * k + 4));
+    f += fTerm;
+    g += gTerm;
+    if (Math.abs(fTerm) < EPSILON * Math.abs(f) && Math.abs(gTerm) < EPSILON * Math.max(Math.abs(g), 1e-300)) break;
+  }
+  return {
+    ai: AIRY_AI0 * f - AIRY_AIP0 * g,
+    bi: Math.sqrt(3) * (AIRY_AI0 * f + AIRY_AIP0 * g),
+  };
+}
+
+// Oscillatory asymptotics for large negative arguments (A&S 10.4.60, 10.4.64)
+function airyNegativeAsymptotic(x: number): { ai: number; bi: number } {
+  const z = -x;
+  const zeta = (2 / 3) * Math.pow(z, 1.5);
+  let u = 1;
+  let even = 1;
+  let odd = 0;
+  let power = 1;
+  let previous = Infinity;
+  for (let k = 1; k < 40; k++) {
+    u *= ((6 * k - 5) * (6 * k - 3) * (6 * k - 1)) / (216 * k * (2 * k - 1));
+    power /= zeta;
+    const term = u * power;
+    if (term > previous || term < EPSILON) break;
+    previous = term;
+    // u_k ζ^-k alternates in sign within each of the even and odd sums
+    const sign = Math.floor(k / 2) % 2 === 0 ? 1 : -1;
+    if (k % 2 === 0) even += sign * term;
+    else odd += sign * term;
+  }
+  const phase = zeta + Math.PI / 4;
+  const scale = 1 / (SQRT_PI * Math.pow(z, 0.25));
+  return {
+    ai: scale * (Math.sin(phase) * even - Math.cos(phase) * odd),
+    bi: scale * (Math.cos(phase) * even + Math.sin(phase) * odd),
+  };
+}
+
+function airy(x: number): { ai: number; bi: number } {
+  if (Number.isNaN(x)) return { ai: NaN, bi: NaN };
+  if (x < -7) return airyNegativeAsymptotic(x);
+  if (x <= 1) return airyMaclaurin(x);
+  // Ai(x) = √(x/3) K_{1/3}(ζ) / π and Bi(x) = √(x/3) (I_{-1/3}(ζ) + I_{1/3}(ζ))
+  const zeta = (2 / 3) * Math.pow(x, 1.5);
+  const root = Math.sqrt(x / 3);
+  return {
+    ai: (root * besselKIntegral(1 / 3, zeta)) / Math.PI,
+    bi: root * (besselISeries(-1 / 3, zeta) + besselISeries(1 / 3, zeta)),
+  };
+}
+
+export const airyAi = (x: number): number => airy(x).ai;
+export const airyBi = (x: number): number => airy(x).bi;
+
+// ============= Lambert W =============
+
+const INV_E = Math.exp(-1);
+
+/** Branch k of the Lambert W function, the solution of w e^w = z */
+export function complexLambertW(z: Complex, branch = 0): Complex {
+  if (!Number.isInteger(branch)) throw new Error('lambertw expects an integer branch');
+  if (z.re === 0 && z.im === 0) return complexNumber(branch === 0 ? 0 : -Infinity, 0);
+  if (branch === 0 && z.im === 0 && z.re === -INV_E) return complexNumber(-1, 0);
+
+  let w: Complex;
+  const nearBranchPoint = z.add(INV_E).abs() < 0.3;
+  if (nearBranchPoint && (branch === 0 || (branch === -1 && z.im === 0))) {
+    // Series about the branch point in p = √(2(ez + 1))
+    const p = z.mul(Math.E).add(1).mul(2).sqrt();
+    const sign = branch === 0 ? 1 : -1;
+    w = p.mul(sign).sub(p.mul(p).div(3)).sub(1);
+  } else if (branch === 0 && z.abs() < 0.5) {
+    w = z;
+  } else if (branch === 0 && z.re > 0 && z.abs() < 3) {
+    w = z.add(1).log();
+  } else {
+    const logZ = z.log().add(complexNumber(0, 2 * Math.PI * branch));
+    w = logZ.sub(logZ.log());
+  }
+
+  // Halley's iteration
+  for (let i = 0; i < 100; i++) {
+    const ew = w.exp();
+    const residual = w.mul(ew).sub(z);
+    const wPlusOne = w.add(1);
+    const denominator = ew.mul(wPlusOne).sub(w.add(2).mul(residual).div(wPlusOne.mul(2)));
+    const delta = residual.div(denominator);
+    w = w.sub(delta);
+    if (delta.abs() <= 1e-15 * Math.max(w.abs(), 1e-300)) break;
+  }
+  return w;
+}
+
+/** True when branch k of W is real at x */
+export const lambertWIsReal = (x: number, branch = 0): boolean =>
+  branch === 0 ? x >= -INV_E : branch === -1 && x >= -INV_E && x < 0;
+
+/** Real branches 0 and -1 of the Lambert W function; NaN where W is complex */
+export function lambertW(x: number, branch = 0): number {
+  if (!lambertWIsReal(x, branch)) return NaN;
+  if (branch === -1 && x === 0) return -Infinity;
+  if (x === Infinity) return Infinity;
+  return complexLambertW(complexNumber(x, 0), branch).re;
+}
+
+// ============= Elliptic integrals =============
+
+/** Complete elliptic integral of the first kind K(m), parameter m = k² */
+export const ellipticK = (m: number): number => stdlibEllipk(m);
+
+/** Complete elliptic integral of the second kind E(m), parameter m = k² */
+export const ellipticE = (m: number): number => stdlibEllipe(m);
+
+// Carlson's symmetric integrals by duplication (Numerical Recipes rf/rd)
+function carlsonRF(x: number, y: number, z: number): number {
+  let delX: number;
+  let delY: number;
+  let delZ: number;
+  let average: number;
+  do {
+    const sx = Math.sqrt(x);
+    const sy = Math.sqrt(y);
+    const sz = Math.sqrt(z);
+    const lambda = sx * (sy + sz) + sy * sz;
+    x = 0.25 * (x + lambda);
+    y = 0.25 * (y + lambda);
+    z = 0.25 * (z + lambda);
+    average = (x + y + z) / 3;
+    delX = (average - x) / average;
+    delY = (average - y) / average;
+    delZ = (average - z) / average;
+  } while (Math.max(Math.abs(delX), Math.abs(delY), Math.abs(delZ)) > 0.0025);
+  const e2 = delX * delY - delZ * delZ;
+  const e3 = delX * delY * delZ;
+  return (1 + (e2 / 24 - 0.1 - (3 / 44) * e3) * e2 + e3 / 14) / Math.sqrt(average);
+}
+
+function carlsonRD(x: number, y: number, z: number): number {
+  let sum = 0;
+  let factor = 1;
+  let delX: number;
+  let delY: number;
+  let delZ: number;
+  let average: number;
+  do {
+    const sx = Math.sqrt(x);
+    const sy = Math.sqrt(y);
+    const sz = Math.sqrt(z);
+    const lambda = sx * (sy + sz) + sy * sz;
+    sum += factor / (sz * (z + lambda));
+    factor *= 0.25;
+    x = 0.25 * (x + lambda);
+    y = 0.25 * (y + lambda);
+    z = 0.25 * (z + lambda);
+    average = 0.2 * (x + y + 3 * z);
+    delX = (average - x) / average;
+    delY = (average - y) / average;
+    delZ = (average - z) / average;
+  } while (Math.max(Math.abs(delX), Math.abs(delY), Math.abs(delZ)) > 0.0015);
+  const ea = delX * delY;
+  const eb = delZ * delZ;
+  const ec = ea - eb;
+  const ed = ea - 6 * eb;
+  const ee = ed + ec + ec;
+  const c1 = 3 / 14;
+  const c2 = 1 / 6;
+  const c3 = 9 / 22;
+  const c4 = 3 / 26;
+  return (
+    3 * sum +
+    (factor *
+      (1 +
+        ed * (-c1 + 0.25 * c3 * ed - 1.5 * c4 * delZ * ee) +
+        delZ * (c2 * ee + delZ * (-c3 * ec + delZ * c4 * ea)))) /
+      (average * Math.sqrt(average))
+  );
+}
+
+// Reduce φ to [-π/2, π/2]; each half-turn adds two complete integrals
+function reduceAmplitude(phi: number): { turns: number; phi: number } {
+  const turns = Math.round(phi / Math.PI);
+  return { turns, phi: phi - turns * Math.PI };
+}
+
+/** Incomplete elliptic integral of the first kind F(φ | m) */
+export function ellipticF(phi: number, m: number): number {
+  const reduced = reduceAmplitude(phi);
+  const s = Math.sin(reduced.phi);
+  const c = Math.cos(reduced.phi);
+  const partial = s * carlsonRF(c * c, 1 - m * s * s, 1);
+  return reduced.turns === 0 ? partial : partial + 2 * reduced.turns * ellipticK(m);
+}
+
+/** Incomplete elliptic integral of the second kind E(φ | m) */
+export function ellipticEIncomplete(phi: number, m: number): number {
+  const reduced = reduceAmplitude(phi);
+  const s = Math.sin(reduced.phi);
+  const c = Math.cos(reduced.phi);
+  const q = 1 - m * s * s;
+  const partial = s * carlsonRF(c * c, q, 1) - (m / 3) * s * s * s * carlsonRD(c * c, q, 1);
+  return reduced.turns === 0 ? partial : partial + 2 * reduced.turns * ellipticE(m);
+}
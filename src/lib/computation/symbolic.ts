@@ -1,26 +1,8 @@
 // Symbolic computation using math.js
 import * as math from 'mathjs';
-import { MathType } from '../types';
-import { RuntimeValue, createNumber, createFunction } from '../runtime/value';
-import { registerCallable } from '../runtime/functions';
-import { FunctionDefinition } from '../definitionContext';
 import { ASTNode, parseExpression } from '../parser';
 import { astToString } from '../astToString';
 
-// Initialize symbolic computation capabilities
-export function registerSymbolicFunctions() {
-  // Symbolic derivative: D_symbolic(expression_string) → derivative_string
-  // This is for symbolic computation, distinct from numerical D
-  registerCallable('simplify', MathType.Number, MathType.Number, (arg) => {
-    // For now, pass through - will enhance with expression strings
-    return arg;
-  });
-
-  registerCallable('expand', MathType.Number, MathType.Number, (arg) => {
-    return arg;
-  });
-}
-
 // Symbolic derivative using math.js
 export function symbolicDerivative(expr: string, variable: string): string {
   try {
@@ -87,5 +69,370 @@ export function symbolicPartialAST(
   return symbolicDerivativeAST(bodyAST, variable);
 }
 
-// Initialize on module load
-registerSymbolicFunctions();
+
+// === Symbolic algebra on expression ASTs ===
+// simplify/expand/factor/solve/diff round-trip through math.js nodes and come
+// back as our ASTs, so their results can be displayed, reused and plotted.
+
+type MathNode = math.MathNode;
+
+const CONSTANT_SYMBOLS = new Set(['pi', 'e', 'i']);
+
+const toMathNode = (ast: ASTNode): MathNode => math.parse(astToString(ast));
+const fromMathNode = (node: MathNode): ASTNode => parseExpression(node.toString({ implicit: 'show' }));
+const isZero = (node: MathNode) => math.isConstantNode(node) && Number(node.value) === 0;
+
+/** Free variable names of an expression, excluding constants and function names. */
+export function expressionVariables(ast: ASTNode): string[] {
+  const names = new Set<string>();
+  const walk = (node?: ASTNode) => {
+    if (!node) return;
+    if (node.type === 'variable' && !CONSTANT_SYMBOLS.has(String(node.value))) {
+      names.add(String(node.value));
+    }
+    [node.left, node.right, node.operand, node.lower, node.upper, ...(node.args ?? []), ...(node.elements ?? [])].forEach(walk);
+  };
+  walk(ast);
+  return Array.from(names).sort();
+}
+
+// sqrt(12) → 2*sqrt(3): pull the largest square factor out of an integer radicand
+function extractSquareFactor(radicand: number): MathNode | null {
+  if (!Number.isInteger(radicand) || radicand <= 0) return null;
+  let outside = 1;
+  let inside = radicand;
+  for (let k = Math.floor(Math.sqrt(inside)); k > 1; k--) {
+    if (inside % (k * k) === 0) {
+      outside *= k;
+      inside /= k * k;
+      break;
+    }
+  }
+  if (outside === 1) return null;
+  return inside === 1 ? math.parse(String(outside)) : math.parse(`${outside} * sqrt(${inside})`);
+}
+
+/**
+ * math.simplify folds every constant, turning sqrt(2) into 1.414…. Function
+ * calls on constants that do not come out as integers are set aside as
+ * placeholder symbols during simplification so results stay exact.
+ */
+function simplifyExact(node: MathNode): MathNode {
+  const held: MathNode[] = [];
+  const hold = (value: MathNode) => {
+    held.push(value);
+    return new math.SymbolNode(`__held${held.length - 1}`);
+  };
+
+  const prepared = node.transform(child => {
+    if (!math.isFunctionNode(child)) return child;
+    const call = child as math.FunctionNode;
+    const constantArgs = call.args.every(arg =>
+      arg.filter(part => math.isSymbolNode(part)).every(symbol => CONSTANT_SYMBOLS.has((symbol as math.SymbolNode).name))
+    );
+    if (!constantArgs) return child;
+    const args = call.args.map(arg => math.simplify(arg));
+    const value = new math.FunctionNode(call.fn, args);
+    const evaluated = value.evaluate();
+    if (typeof evaluated === 'number' && Number.isInteger(evaluated)) return new math.ConstantNode(evaluated);
+    if (call.fn.name === 'sqrt' && math.isConstantNode(args[0])) {
+      const extracted = extractSquareFactor(Number((args[0] as math.ConstantNode).value));
+      if (extracted) {
+        return extracted.transform(part => (math.isFunctionNode(part) ? hold(part) : part));
+      }
+    }
+    return hold(value);
+  });
+
+  return math
+    .simplify(prepared)
+    .transform(child =>
+      math.isSymbolNode(child) && child.name.startsWith('__held')
+        ? held[Number((child as math.SymbolNode).name.slice('__held'.length))]
+        : child
+    );
+}
+
+export function simplifyAST(ast: ASTNode): ASTNode {
+  return fromMathNode(simplifyExact(toMathNode(ast)));
+}
+
+const DISTRIBUTION_RULES = ['n1*(n2+n3) -> n1*n2+n1*n3', '(n1+n2)*n3 -> n1*n3+n2*n3'];
+
+/**
+ * Combine like terms of an expanded polynomial (a*b + b*a → 2*a*b) and order
+ * them by degree. math.simplify would factor the sum back together instead.
+ * Returns null when a term is not a monomial.
+ */
+function collectLikeTerms(node: MathNode): MathNode | null {
+  const terms = new Map<string, { coefficient: number; powers: [string, number][] }>();
+
+  const addTerm = (term: MathNode, sign: number): boolean => {
+    let coefficient = sign;
+    const powers = new Map<string, number>();
+    const addFactor = (factor: MathNode): boolean => {
+      if (math.isParenthesisNode(factor)) return addFactor(factor.content);
+      if (math.isConstantNode(factor)) {
+        coefficient *= Number(factor.value);
+        return true;
+      }
+      if (math.isSymbolNode(factor)) {
+        powers.set(factor.name, (powers.get(factor.name) ?? 0) + 1);
+        return true;
+      }
+      if (math.isOperatorNode(factor)) {
+        if (factor.fn === 'unaryMinus') {
+          coefficient = -coefficient;
+          return addFactor(factor.args[0]);
+        }
+        if (factor.fn === 'multiply') return factor.args.every(addFactor);
+        const [base, exponent] = factor.args;
+        if (factor.fn === 'pow' && math.isSymbolNode(base) && math.isConstantNode(exponent)) {
+          powers.set(base.name, (powers.get(base.name) ?? 0) + Number(exponent.value));
+          return true;
+        }
+      }
+      return false;
+    };
+    if (!addFactor(term)) return false;
+    const sorted = Array.from(powers).sort(([a], [b]) => a.localeCompare(b));
+    const key = sorted.map(([name, power]) => `${name}^${power}`).join('*');
+    const existing = terms.get(key);
+    terms.set(key, { coefficient: (existing?.coefficient ?? 0) + coefficient, powers: sorted });
+    return true;
+  };
+
+  const addSum = (sum: MathNode, sign: number): boolean => {
+    if (math.isParenthesisNode(sum)) return addSum(sum.content, sign);
+    if (math.isOperatorNode(sum)) {
+      if (sum.fn === 'add') return sum.args.every(arg => addSum(arg, sign));
+      if (sum.fn === 'subtract') return addSum(sum.args[0], sign) && addSum(sum.args[1], -sign);
+    }
+    return addTerm(sum, sign);
+  };
+  if (!addSum(node, 1)) return null;
+
+  const degree = (powers: [string, number][]) => powers.reduce((sum, [, power]) => sum + power, 0);
+  const text = Array.from(terms.values())
+    .filter(term => term.coefficient !== 0)
+    .sort((a, b) => degree(b.powers) - degree(a.powers))
+    .map(({ coefficient, powers }) => {
+      const factors = powers.map(([name, power]) => (power === 1 ? name : `${name}^${power}`));
+      if (factors.length === 0) return `${coefficient}`;
+      if (Math.abs(coefficient) === 1) return `${coefficient < 0 ? '-' : ''}${factors.join('*')}`;
+      return `${coefficient}*${factors.join('*')}`;
+    })
+    .join(' + ')
+    .replace(/\+ -/g, '- ');
+  return math.parse(text || '0');
+}
+
+/** Multiply out products and integer powers of sums. */
+export function expandAST(ast: ASTNode): ASTNode {
+  const node = toMathNode(ast);
+  let expanded: MathNode;
+  try {
+    // Polynomials expand fully; rationalize rejects other function calls
+    expanded = math.rationalize(node);
+  } catch {
+    expanded = math.simplifyCore(math.simplify(node, [...math.simplify.rules, ...DISTRIBUTION_RULES]));
+  }
+  return fromMathNode(collectLikeTerms(expanded) ?? expanded);
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+const divisors = (n: number): number[] => {
+  const result: number[] = [];
+  const limit = Math.abs(n);
+  for (let d = 1; d <= limit && d <= 10_000; d++) {
+    if (limit % d === 0) result.push(d);
+  }
+  return result;
+};
+
+// Evaluate a polynomial with ascending coefficients
+const evaluatePolynomial = (coefficients: number[], x: number) =>
+  coefficients.reduceRight((sum, coefficient) => sum * x + coefficient, 0);
+
+// Divide by (x - root); coefficients are ascending
+const deflate = (coefficients: number[], root: number): number[] => {
+  const quotient = new Array(coefficients.length - 1).fill(0);
+  let carry = 0;
+  for (let i = coefficients.length - 1; i > 0; i--) {
+    carry = coefficients[i] + carry * root;
+    quotient[i - 1] = carry;
+  }
+  return quotient;
+};
+
+const polynomialToString = (coefficients: number[], variable: string) =>
+  coefficients
+    .map((coefficient, power) => ({ coefficient, power }))
+    .filter(term => term.coefficient !== 0)
+    .reverse()
+    .map(({ coefficient, power }) => {
+      const monomial = power === 1 ? variable : `${variable}^${power}`;
+      if (power === 0) return `${coefficient}`;
+      return coefficient === 1 ? monomial : `${coefficient}*${monomial}`;
+    })
+    .join(' + ') || '0';
+
+/**
+ * Factor a single-variable polynomial with integer coefficients into its
+ * content, rational-root linear factors and whatever does not split over the
+ * rationals. Anything else is simplified instead.
+ */
+export function factorAST(ast: ASTNode): ASTNode {
+  let detailed: { coefficients: number[]; variables: string[]; denominator: MathNode | null };
+  try {
+    detailed = math.rationalize(toMathNode(ast), {}, true) as unknown as typeof detailed;
+  } catch {
+    return simplifyAST(ast);
+  }
+  const { variables, denominator } = detailed;
+  let coefficients = detailed.coefficients.map(Number);
+  if (variables.length !== 1 || denominator || coefficients.length < 3 || !coefficients.every(Number.isInteger)) {
+    return simplifyAST(ast);
+  }
+  const [variable] = variables;
+
+  let content = coefficients.reduce((result, coefficient) => gcd(result, coefficient), 0);
+  if (coefficients[coefficients.length - 1] < 0) content = -content;
+  coefficients = coefficients.map(coefficient => coefficient / content);
+
+  const factors = new Map<string, number>();
+  const addFactor = (factor: string) => factors.set(factor, (factors.get(factor) ?? 0) + 1);
+
+  while (coefficients.length > 1 && coefficients[0] === 0) {
+    coefficients = coefficients.slice(1);
+    addFactor(variable);
+  }
+
+  // Rational root theorem: candidates ±p/q with p | a0 and q | an
+  let searching = true;
+  while (searching && coefficients.length > 2) {
+    searching = false;
+    const leading = coefficients[coefficients.length - 1];
+    for (const p of divisors(coefficients[0])) {
+      for (const q of divisors(leading)) {
+        if (gcd(p, q) !== 1) continue;
+        for (const root of [p / q, -p / q]) {
+          const scale = coefficients.reduce((sum, coefficient) => sum + Math.abs(coefficient), 0);
+          if (Math.abs(evaluatePolynomial(coefficients, root)) > 1e-9 * scale) continue;
+          const numerator = root < 0 ? p : -p;
+          addFactor(q === 1 ? `(${variable} ${numerator < 0 ? '-' : '+'} ${Math.abs(numerator)})` : `(${q}*${variable} ${numerator < 0 ? '-' : '+'} ${Math.abs(numerator)})`);
+          coefficients = deflate(coefficients, root).map(coefficient => Math.round(coefficient / q * 1e9) / 1e9);
+          searching = true;
+          break;
+        }
+        if (searching) break;
+      }
+      if (searching) break;
+    }
+  }
+
+  if (coefficients.length === 2) {
+    const [c0, c1] = coefficients;
+    addFactor(c1 === 1 ? `(${variable} ${c0 < 0 ? '-' : '+'} ${Math.abs(c0)})` : `(${c1}*${variable} ${c0 < 0 ? '-' : '+'} ${Math.abs(c0)})`);
+    coefficients = [1];
+  }
+
+  const parts = Array.from(factors, ([factor, power]) => (power === 1 ? factor : `${factor}^${power}`));
+  if (coefficients.length > 1) parts.push(`(${polynomialToString(coefficients, variable)})`);
+  else content *= coefficients[0];
+  if (content !== 1 || parts.length === 0) parts.unshift(String(content));
+  return parseExpression(parts.join('*').replace(/\s+/g, '').replace(/\+-/g, '-'));
+}
+
+/** Differentiate and simplify: diff(x^3) → 3*x^2. */
+export function diffAST(ast: ASTNode, variable: string): ASTNode {
+  return fromMathNode(simplifyExact(math.derivative(toMathNode(ast), variable)));
+}
+
+const substitute = (node: MathNode, variable: string, value: number): MathNode =>
+  node.transform(child =>
+    math.isSymbolNode(child) && child.name === variable ? new math.ConstantNode(value) : child
+  );
+
+// Real roots of a one-variable function on [-range, range] by sign changes and bisection
+function numericRoots(f: (x: number) => number, range = 10, samples = 2000): number[] {
+  const roots: number[] = [];
+  const step = (2 * range) / samples;
+  let previousX = -range;
+  let previousY = f(previousX);
+  for (let i = 1; i <= samples; i++) {
+    const x = -range + i * step;
+    const y = f(x);
+    if (Number.isFinite(previousY) && Number.isFinite(y)) {
+      if (previousY === 0) {
+        roots.push(previousX);
+      } else if (previousY * y < 0) {
+        let lo = previousX;
+        let hi = x;
+        for (let k = 0; k < 60; k++) {
+          const mid = (lo + hi) / 2;
+          if (Math.sign(f(mid)) === Math.sign(f(lo))) lo = mid;
+          else hi = mid;
+        }
+        const root = (lo + hi) / 2;
+        // Discard poles where the sign flips through infinity
+        if (Math.abs(f(root)) < 1e-6) roots.push(root);
+      }
+    }
+    previousX = x;
+    previousY = y;
+  }
+  if (previousY === 0) roots.push(previousX);
+  return roots.map(root => Math.round(root * 1e12) / 1e12);
+}
+
+/**
+ * Solve `equation` (an `a = b` relation or an expression equal to zero) for
+ * `variable`. Linear and quadratic equations, including ones with symbolic
+ * coefficients, are solved in closed form; other equations in one variable
+ * fall back to numeric real roots in [-10, 10].
+ */
+export function solveAST(equation: ASTNode, variable: string): ASTNode[] {
+  const difference: ASTNode =
+    equation.type === 'binary' && (equation.operator === '=' || equation.operator === '==')
+      ? { type: 'binary', operator: '-', left: equation.left, right: equation.right }
+      : equation;
+  const f = toMathNode(difference);
+
+  const d1 = math.simplify(math.derivative(f, variable));
+  const d2 = math.simplify(math.derivative(d1, variable));
+  const d3 = math.simplify(math.derivative(d2, variable));
+  const atZero = (node: MathNode) => substitute(node, variable, 0).toString();
+
+  if (isZero(d2)) {
+    if (isZero(d1)) return [];
+    return [fromMathNode(simplifyExact(math.parse(`-(${atZero(f)}) / (${d1.toString()})`)))];
+  }
+
+  if (isZero(d3)) {
+    const a = `(${simplifyExact(math.parse(`(${d2.toString()}) / 2`)).toString()})`;
+    const b = `(${simplifyExact(math.parse(atZero(d1))).toString()})`;
+    const c = `(${simplifyExact(math.parse(atZero(f))).toString()})`;
+    const discriminant = simplifyExact(math.parse(`${b}^2 - 4 * ${a} * ${c}`));
+    const numeric = discriminant.filter(node => math.isSymbolNode(node)).length === 0;
+    if (numeric) {
+      const value = Number(discriminant.evaluate());
+      if (value < 0) return [];
+      if (value === 0) return [fromMathNode(simplifyExact(math.parse(`-${b} / (2 * ${a})`)))];
+    }
+    const root = (sign: string) => {
+      const formula = `(-${b} ${sign} sqrt(${discriminant.toString()})) / (2 * ${a})`;
+      // Simplifying symbolic roots scatters the quadratic formula, so only tidy them
+      return fromMathNode(numeric ? simplifyExact(math.parse(formula)) : math.simplifyCore(math.parse(formula)));
+    };
+    return [root('-'), root('+')];
+  }
+
+  const others = expressionVariables(difference).filter(name => name !== variable);
+  if (others.length > 0) {
+    throw new Error(`Cannot isolate ${variable}: the equation is not linear or quadratic in it`);
+  }
+  const compiled = f.compile();
+  return numericRoots(x => Number(compiled.evaluate({ [variable]: x }))).map(root => ({ type: 'number', value: root }));
+}
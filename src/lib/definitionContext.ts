@@ -1,7 +1,21 @@
 // Manages cross-expression definitions and reserved variables
 
 import { ASTNode, parseExpression } from './parser';
-import { MathType, TypeInfo, inferType } from './types';
+import {
+  MathType,
+  TypeInfo,
+  inferType,
+  isDifferentialEquation,
+  isDistributionConstructor,
+  isInitialCondition,
+  isLinearAlgebraCommand,
+  isPolarCurve,
+  isRegression,
+} from './types';
+import { RegressionResult, fitRegression } from './runtime/regression';
+import { functionType, inferParameterTypes } from './runtime/functionTypes';
+import { evaluate } from './runtime/evaluator';
+import { isNumber, kindToMathType } from './runtime/value';
 
 const DEBUG_DEFINITION_CONTEXT = false;
 const debug = (...args: unknown[]) => {
@@ -21,14 +35,19 @@ const error = (...args: unknown[]) => {
 
 export const RESERVED_NAMES = ['x', 'y', 'z', 'pi', 'e', 'i'];
 
+// Names the normalizer spells Greek letters as; one symbol each, never a product of letters
+export const GREEK_NAMES = ['theta', 'alpha', 'beta', 'gamma'];
+
 export const CONSTANTS: Record<string, number> = {
   pi: Math.PI,
   e: Math.E,
+  infinity: Infinity, // \infty, for improper integrals
 };
 
 export interface FunctionDefinition {
   name: string;
   params: string[]; // Support multiple parameters
+  paramTypes?: MathType[]; // Inferred from the body (runtime/functionTypes.ts); Number when absent
   body: ASTNode;
 }
 
@@ -36,6 +55,7 @@ export interface DefinitionContext {
   variables: Record<string, number | ASTNode>; // Support both numbers and AST nodes (for lists)
   functions: Record<string, FunctionDefinition>;
   types: Record<string, import('./types').TypeInfo>; // Track type of each identifier
+  regressions?: Record<string, RegressionResult>; // Fits keyed by the normalized `observed ~ model` entry
 }
 
 export function getIdentifierType(
@@ -68,6 +88,7 @@ export function buildDefinitionContext(expressions: Array<{ normalized: string }
     types: {
       pi: { type: MathType.Number },
       e: { type: MathType.Number },
+      infinity: { type: MathType.Number },
       x: { type: MathType.Number },
       y: { type: MathType.Number },
       z: { type: MathType.Number },
@@ -80,6 +101,34 @@ export function buildDefinitionContext(expressions: Array<{ normalized: string }
   expressions.forEach((expr, idx) => {
     const normalized = expr.normalized.trim();
     debug(`[${idx}] Processing expression:`, normalized);
+    // Regression: fitted parameters become variables for later expressions
+    if (isRegression(normalized)) {
+      try {
+        const result = fitRegression(normalized, context);
+        result.parameterNames.forEach(name => {
+          context.variables[name] = result.values[name];
+          context.types[name] = { type: MathType.Number };
+        });
+        context.regressions = { ...context.regressions, [normalized]: result };
+        debug(`[${idx}] ✅ Fitted regression`, result.values);
+      } catch (e) {
+        debug(`[${idx}] ⚠️  Regression failed: ${e}`);
+      }
+      return;
+    }
+
+    // y' = f(x, y) and y(x0) = y0 describe solution curves, not definitions
+    if (isDifferentialEquation(normalized) || isInitialCondition(normalized)) {
+      debug(`[${idx}] Skipped: differential equation`);
+      return;
+    }
+
+    // r = f(θ) is a polar curve, not a definition of r
+    if (isPolarCurve(normalized)) {
+      debug(`[${idx}] Skipped: polar curve`);
+      return;
+    }
+
     if (!normalized || !normalized.includes('=')) {
       debug(`[${idx}] Skipped: ${!normalized ? 'empty' : 'no equals sign'}`);
       return;
@@ -108,7 +157,8 @@ export function buildDefinitionContext(expressions: Array<{ normalized: string }
       
       debug(`[${idx}] Function detected: ${funcName}, params:`, params);
       
-      if (RESERVED_NAMES.includes(funcName)) {
+      // y may still name a function, y(t) = t^2, beside y(0) = 1 and y' = ...
+      if (RESERVED_NAMES.includes(funcName) && funcName !== 'y') {
         warn(`[${idx}] ❌ Cannot define function with reserved name: ${funcName}`);
         return;
       }
@@ -124,11 +174,13 @@ export function buildDefinitionContext(expressions: Array<{ normalized: string }
       try {
         debug(`[${idx}] Parsing function body:`, rhs);
         const body = parseExpression(rhs, context);
-        context.functions[funcName] = { name: funcName, params, body };
+        const paramTypes = inferParameterTypes(params, body, context);
+        context.functions[funcName] = { name: funcName, params, paramTypes, body };
         
-        // Infer function type
+        // Infer function type: typed parameters, and the return type found
+        // by evaluating the body
         const typeInfo = inferType(normalized, normalized);
-        context.types[funcName] = typeInfo;
+        context.types[funcName] = functionType(context.functions[funcName], typeInfo, context);
         
         debug(`[${idx}] ✅ Successfully added function '${funcName}' with params`, params);
         debug(`[${idx}] Current functions in context:`, Object.keys(context.functions));
@@ -161,12 +213,12 @@ export function buildDefinitionContext(expressions: Array<{ normalized: string }
 
       processing.add(varName);
 
-      // Check if RHS is a list literal
+      // Check if RHS is a list literal, range or comprehension
       const listMatch = rhs.match(/^\[.*\]$/);
       if (listMatch) {
         try {
           const ast = parseExpression(rhs, context);
-          if (ast.type === 'list') {
+          if (ast.type === 'list' || ast.type === 'range' || ast.type === 'comprehension') {
             // Store list as AST node for runtime evaluation
             context.variables[varName] = ast;
             context.types[varName] = { type: MathType.List };
@@ -181,6 +233,83 @@ export function buildDefinitionContext(expressions: Array<{ normalized: string }
         }
       }
 
+      // Matrix-valued definitions (A = matrix(...), B = A^2, d = det(A)) are
+      // stored as AST like lists and evaluated at runtime
+      const matrixNames = Object.keys(context.types).filter(name => context.types[name].type === MathType.Matrix);
+      const mentionsMatrix =
+        /\b(matrix|identity)\(/.test(rhs) ||
+        matrixNames.some(name => new RegExp(`\\b${name}\\b`).test(rhs));
+      if (mentionsMatrix) {
+        try {
+          const ast = parseExpression(rhs, context);
+          context.variables[varName] = ast;
+          context.types[varName] = { type: matrixResultType(ast, rhs, context) };
+          debug(`[${idx}] ✅ Added matrix-valued variable ${varName}`);
+        } catch (e) {
+          debug(`[${idx}] ⚠️  Failed to parse matrix ${varName}: ${e}`);
+        } finally {
+          processing.delete(varName);
+        }
+        return;
+      }
+
+      // Distributions (X = normal(0, 1)) and what is computed from them
+      // (S = random(X, 100), m = mean(X)) are stored as AST the same way
+      const distributionNames = Object.keys(context.types).filter(
+        name => context.types[name].type === MathType.Distribution
+      );
+      const mentionsDistribution =
+        /\b(normal|uniform|binomial|poisson|exponential|studentt|chi2)\(/.test(rhs) ||
+        distributionNames.some(name => new RegExp(`\\b${name}\\b`).test(rhs));
+      if (mentionsDistribution) {
+        try {
+          context.variables[varName] = parseExpression(rhs, context);
+          context.types[varName] = { type: distributionResultType(rhs, distributionNames) };
+          debug(`[${idx}] ✅ Added distribution-valued variable ${varName}`);
+        } catch (e) {
+          debug(`[${idx}] ⚠️  Failed to parse distribution ${varName}: ${e}`);
+        } finally {
+          processing.delete(varName);
+        }
+        return;
+      }
+
+      // Points and constructions (A = (1, 2), M = midpoint(A, B), c = circle(A, 2))
+      // and what is measured from them (d = distance(A, B)) are stored as AST
+      // and typed by evaluation, so they follow when a point they use moves
+      if (mentionsGeometry(rhs, context)) {
+        try {
+          const ast = parseExpression(rhs, context);
+          const value = evaluate(ast, {}, context);
+          context.variables[varName] = isNumber(value) ? value.value : ast;
+          context.types[varName] = { type: kindToMathType(value.kind) };
+          debug(`[${idx}] ✅ Added ${value.kind}-valued variable ${varName}`);
+        } catch (e) {
+          debug(`[${idx}] ⚠️  Skipped variable ${varName}: ${e}`);
+        } finally {
+          processing.delete(varName);
+        }
+        return;
+      }
+
+      // Values returned by user functions (P = f(2), L = g(3)) or computed
+      // from lists (M = L[L > 0], D = 2L) can have any type; non-numbers are
+      // stored as AST like lists and typed by evaluation
+      if (isEvaluatedDefinition(rhs, context)) {
+        try {
+          const ast = parseExpression(rhs, context);
+          const value = evaluate(ast, {}, context);
+          context.variables[varName] = isNumber(value) ? value.value : ast;
+          context.types[varName] = { type: kindToMathType(value.kind) };
+          debug(`[${idx}] ✅ Added ${value.kind}-valued variable ${varName}`);
+        } catch (e) {
+          debug(`[${idx}] ⚠️  Skipped variable ${varName}: ${e}`);
+        } finally {
+          processing.delete(varName);
+        }
+        return;
+      }
+
       // Only allow constant definitions (no variables in RHS)
       try {
         const ast = parseExpression(rhs, context);
@@ -215,6 +344,60 @@ export function buildDefinitionContext(expressions: Array<{ normalized: string }
   return context;
 }
 
+function isEvaluatedDefinition(rhs: string, context: DefinitionContext): boolean {
+  const listNames = Object.keys(context.types).filter(name => context.types[name].type === MathType.List);
+  return (
+    Object.keys(context.functions).some(name => new RegExp(`\\b${name}\\(`).test(rhs)) ||
+    listNames.some(name => new RegExp(`\\b${name}\\b`).test(rhs))
+  );
+}
+
+const GEOMETRY_TYPES = [MathType.Point, MathType.Segment, MathType.Line, MathType.Circle, MathType.Polygon];
+
+// A point literal (a, b), a construction, or a name bound to either
+function mentionsGeometry(rhs: string, context: DefinitionContext): boolean {
+  const geometryNames = Object.keys(context.types).filter(name => GEOMETRY_TYPES.includes(context.types[name].type));
+  return (
+    /^\(.*,.*\)$/.test(rhs) ||
+    /\b(segment|line|circle|midpoint|perpendicular|polygon)\(/.test(rhs) ||
+    geometryNames.some(name => new RegExp(`\\b${name}\\b`).test(rhs))
+  );
+}
+
+/**
+ * The type buildDefinitionContext settled on for a definition, where it knows
+ * more than inferType: the signature of a user function, or the type of a
+ * value computed by one or from lists. Undefined for everything else.
+ */
+export function definitionType(normalized: string, context: DefinitionContext): TypeInfo | undefined {
+  const match = normalized.match(/^([a-zA-Z][a-zA-Z0-9_]*)(\([^)]+\))?\s*=([^=].*)$/);
+  if (!match) return undefined;
+  const [, name, params, rhs] = match;
+  if (params) return context.functions[name] ? context.types[name] : undefined;
+  return isEvaluatedDefinition(rhs, context) || mentionsGeometry(rhs, context) ? context.types[name] : undefined;
+}
+
+// Type of a definition built from matrices, from its value: a number
+// (det(A) + 1), lists of factors or eigen-data, or another matrix. Entries
+// that cannot be evaluated yet fall back to the shape of the call.
+function matrixResultType(ast: ASTNode, rhs: string, context: DefinitionContext): MathType {
+  try {
+    return kindToMathType(evaluate(ast, {}, context).kind);
+  } catch {
+    if (/^(det|rank|trace)\(.*\)$/.test(rhs)) return MathType.Number;
+    if (isLinearAlgebraCommand(rhs)) return MathType.List;
+    return MathType.Matrix;
+  }
+}
+
+// Type of a definition built from distributions: another distribution,
+// a list of samples, or a number (a probability, moment or quantile)
+function distributionResultType(rhs: string, distributionNames: string[]): MathType {
+  if (isDistributionConstructor(rhs) || distributionNames.includes(rhs)) return MathType.Distribution;
+  if (/^random\(.*\)$/.test(rhs)) return MathType.List;
+  return MathType.Number;
+}
+
 function evaluateConstant(node: ASTNode, constants: Record<string, number>): number {
   switch (node.type) {
     case 'number':
@@ -8,6 +8,10 @@ export enum KeyboardCategory {
   Conditional = 'Conditional',
   Signal = 'Signal Processing',
   Calculus = 'Calculus',
+  Algebra = 'Algebra',
+  Special = 'Special Functions',
+  Matrices = 'Linear Algebra',
+  Probability = 'Probability',
   Constants = 'Constants',
   Variables = 'Variables',
   DataTypes = 'Data Types'
@@ -75,6 +79,30 @@ export const CATEGORY_INFO: KeyboardCategoryInfo[] = [
     icon: 'TrendingUp',
     description: 'Derivatives and integration'
   },
+  {
+    id: KeyboardCategory.Algebra,
+    name: 'Algebra',
+    icon: 'Sigma',
+    description: 'Symbolic simplification, factoring and solving'
+  },
+  {
+    id: KeyboardCategory.Special,
+    name: 'Special',
+    icon: 'Sparkles',
+    description: 'Error, gamma, Bessel, Airy, zeta, Lambert W and elliptic functions'
+  },
+  {
+    id: KeyboardCategory.Matrices,
+    name: 'Matrices',
+    icon: 'Grid3x3',
+    description: 'Matrix arithmetic, determinants, eigenvalues and decompositions'
+  },
+  {
+    id: KeyboardCategory.Probability,
+    name: 'Probability',
+    icon: 'BarChart3',
+    description: 'Distributions, densities, quantiles and random samples'
+  },
   {
     id: KeyboardCategory.Constants,
     name: 'Constants',
@@ -1,4 +1,4 @@
-import { tokenize, Token, TokenType } from './parser/tokenizer';
+import { tokenize, Token, TokenType, CONNECTIVES, COMPREHENSION_FOR } from './parser/tokenizer';
 
 /**
  * Normalization Layer: LaTeX → Calculator Shorthand
@@ -10,9 +10,14 @@ import { tokenize, Token, TokenType } from './parser/tokenizer';
 export function normalizeExpression(latex: string): string {
   if (!latex) return '';
   
-  let normalized = latex;
+  let normalized = normalizeIntegrals(latex);
   
   // === DERIVATIVE OPERATORS (must come first) ===
+
+  // Differential equations: \frac{dy}{dx} = ... and y^{\prime} = ... → y' = ...
+  normalized = normalized
+    .replace(/^\s*\\frac\{dy\}\{dx\}(?=\s*=)/, "y'")
+    .replace(/\^\{?\\prime\}?/g, "'");
   
   // Ordinary derivatives: \frac{d}{dx} → d/d{x}
   // Also handles \frac{df}{dx} (ignores the f in numerator)
@@ -74,9 +79,42 @@ export function normalizeExpression(latex: string): string {
     normalized = normalized.replace(piecewiseMatch[0], `piecewise(${args.join(',')})`);
   }
   
+  // Matrix environments: \begin{bmatrix}1&2\\3&4\end{bmatrix} → matrix([[1,2],[3,4]])
+  normalized = normalizeMatrices(normalized);
+
+  // Regression: y_1 \sim m x_1 + b → y_1 ~ m*x_1 + b
+  normalized = normalized.replace(/\\sim(?![a-zA-Z])/g, '~');
+
+  // Ranges and comprehensions: [1,\ldots,n] → [1,...,n], \operatorname{for} k \in L → for k ∈ L
+  normalized = normalized.replace(/\\[lc]?dots(?![a-zA-Z])/g, '...');
+  normalized = normalized.replace(/\\(?:operatorname|mathrm|text)\{\s*for\s*\}/g, ' for ');
+  normalized = normalized.replace(/\\in(?![a-zA-Z])/g, '∈');
+
+  // Comparisons and connectives: \le → <=, \geq → >=, \land / \text{and} → and
+  normalized = normalized.replace(/\\le(?:q|qslant)?(?![a-zA-Z])/g, '<=');
+  normalized = normalized.replace(/\\ge(?:q|qslant)?(?![a-zA-Z])/g, '>=');
+  normalized = normalized.replace(/\\ne(?:q)?(?![a-zA-Z])/g, '!=');
+  normalized = normalized.replace(/\\lt(?![a-zA-Z])/g, '<');
+  normalized = normalized.replace(/\\gt(?![a-zA-Z])/g, '>');
+  normalized = normalized.replace(/\\(?:land|wedge)(?![a-zA-Z])|\\(?:operatorname|mathrm|text)\{\s*and\s*\}/g, ' and ');
+  normalized = normalized.replace(/\\(?:lor|vee)(?![a-zA-Z])|\\(?:operatorname|mathrm|text)\{\s*or\s*\}/g, ' or ');
+
+  // Special functions: \operatorname{erf}, \Gamma, \psi, J_{n}(x), ...
+  normalized = normalizeSpecialFunctions(normalized);
+
   // Note: LaTeX normalization is now handled by the operations registry
   // But we keep some common patterns here for bootstrap/compatibility
-  // Trig functions
+  // A function written after a name multiplies it: a\sin(x) → a*\sin(x), not asin(x)
+  normalized = normalized.replace(
+    /(\\[a-zA-Z]+|[a-zA-Z0-9_]+)(?=\\(?:(?:arc)?(?:sin|cos|tan|sec|csc|cot)h?|ln|log|exp)(?![a-zA-Z]))/g,
+    (run: string) => (run.startsWith('\\') ? run : `${run}*`)
+  );
+  // Trig functions; a bare argument, with its power, gets its parentheses:
+  // \cos\theta → \cos(\theta), \sin x^2 → \sin(x^2)
+  normalized = normalized.replace(
+    /\\((?:sin|cos|tan)h?|sec|csc|cot)(?![a-zA-Z])\s*((?:\d+(?:\.\d+)?)?(?:\\(?:theta|phi|alpha|beta|pi)(?![a-zA-Z])|[a-zA-Z](?![a-zA-Z]))(?:\^(?:\{[^{}]*\}|\d|[a-zA-Z]))?)/g,
+    '\\$1($2)'
+  );
   normalized = normalized.replace(/\\sin/g, 'sin');
   normalized = normalized.replace(/\\cos/g, 'cos');
   normalized = normalized.replace(/\\tan/g, 'tan');
@@ -95,6 +133,8 @@ export function normalizeExpression(latex: string): string {
   normalized = normalized.replace(/\\alpha/g, 'alpha');
   normalized = normalized.replace(/\\beta/g, 'beta');
   normalized = normalized.replace(/\\gamma/g, 'gamma');
+  // \infty → infinity, a constant for the bounds of improper integrals
+  normalized = normalized.replace(/\\infty(?![a-zA-Z])/g, 'infinity');
   
   // Exponents: x^{2} → x^2
   normalized = normalized.replace(/\^\{([^}]+)\}/g, '^($1)');
@@ -116,23 +156,263 @@ export function normalizeExpression(latex: string): string {
   normalized = normalized.replace(/\\times/g, '*');
   normalized = normalized.replace(/\\bmod/g, '%');
   normalized = normalized.replace(/\\mod/g, '%');
+  // Spacing commands: \, \; \: \! and the "\ " MathQuill puts after commas
+  normalized = normalized.replace(/(?<!\\)\\[,;:! ]/g, ' ');
   
   // Clean up whitespace
   normalized = normalized.trim();
   
   // Final pass: re-tokenize to enforce explicit multiplication (e.g., i*z) and emit a canonical form.
-  let finalExpr = tokensToExpression(tokenize(normalized));
+  let finalExpr = tokensToExpression(markComprehensions(tokenize(normalized)));
   finalExpr = finalExpr.replace(/(^|[^a-zA-Z0-9_])i(?=[xyztrXYZTR])/g, '$1i*');
-  return finalExpr;
+  return markSolveEquations(finalExpr);
+}
+
+/**
+ * bmatrix, pmatrix and plain matrix environments become matrix([[row], ...]);
+ * a vmatrix is the determinant of its entries. \det and the transpose
+ * superscripts ^{\top} / ^{\intercal} map to det() and transpose(), on a
+ * name (A^{\top}, A_{12}^{\top}) or a parenthesized group.
+ */
+function normalizeMatrices(latex: string): string {
+  const normalized = latex
+    .replace(/\\begin\{([bpv]?matrix)\}(.*?)\\end\{\1\}/gs, (_, environment: string, body: string) => {
+      const rows = body
+        .split('\\\\')
+        .map(row => row.trim())
+        .filter(Boolean)
+        .map(row => `[${row.split('&').map(entry => entry.trim()).join(',')}]`);
+      const matrix = `matrix([${rows.join(',')}])`;
+      return environment === 'vmatrix' ? `det(${matrix})` : matrix;
+    })
+    .replace(/\\det(?![a-zA-Z])/g, 'det')
+    .replace(/([a-zA-Z0-9_]+(?:\{[a-zA-Z0-9]+\})?)\^\{?\\(?:top|intercal)\}?/g, 'transpose($1)');
+  return transposeGroups(normalized);
+}
+
+/**
+ * (A B)^{\top} → transpose((A B)): the whole parenthesized group, found by
+ * scanning back from its closing parenthesis, together with its \left.
+ */
+function transposeGroups(latex: string): string {
+  let result = latex;
+  let match = result.match(/\)\^\{?\\(?:top|intercal)\}?/);
+  while (match && match.index !== undefined) {
+    const close = match.index;
+    let depth = 0;
+    let start = close;
+    for (; start >= 0; start--) {
+      if (result[start] === ')') depth++;
+      else if (result[start] === '(' && --depth === 0) break;
+    }
+    if (start < 0) break;
+    if (result.slice(start - 5, start) === '\\left') start -= 5;
+    const group = result.slice(start, close + 1);
+    result = `${result.slice(0, start)}transpose(${group})${result.slice(close + match[0].length)}`;
+    match = result.match(/\)\^\{?\\(?:top|intercal)\}?/);
+  }
+  return result;
+}
+
+// Upright symbols whose function is registered under a longer name
+const OPERATOR_NAMES: Record<string, string> = {
+  Ai: 'airyai',
+  Bi: 'airybi',
+  B: 'beta',
+  W: 'lambertw',
+  K: 'ellipk',
+  E: 'ellipe',
+  F: 'ellipf',
+};
+
+const BESSEL_SYMBOLS: Record<string, string> = { J: 'besselj', Y: 'bessely', I: 'besseli', K: 'besselk' };
+
+/**
+ * Special-function notation: \operatorname{erf}(x) → erf(x), \Gamma(x) →
+ * gamma(x), \psi(x) → digamma(x) and \operatorname{J}_{n}(x) → besselj(n,x).
+ * A Bessel function is written upright (\operatorname or \mathrm) or with a
+ * Greek order, J_{\nu}(x); a plain K_1(x) stays free for user functions.
+ */
+function normalizeSpecialFunctions(latex: string): string {
+  const bessel = (symbol: string, order: string, left: string | undefined) =>
+    `${BESSEL_SYMBOLS[symbol]}${left ?? ''}(${order},`;
+  return latex
+    .replace(
+      /\\(?:operatorname|mathrm)\{([JYIK])\}_(?:\{([^{}]+)\}|([0-9a-zA-Z]))\s*(\\left)?\(/g,
+      (_, symbol: string, braced: string, bare: string, left: string) => bessel(symbol, braced ?? bare, left)
+    )
+    .replace(
+      /(^|[^a-zA-Z\\])([JYIK])_(?:\{\s*\\([a-zA-Z]+)\s*\}|\\([a-zA-Z]+))\s*(\\left)?\(/g,
+      (_, before: string, symbol: string, braced: string, bare: string, left: string) =>
+        `${before}${bessel(symbol, braced ?? bare, left)}`
+    )
+    .replace(/\\operatorname\{([a-zA-Z][a-zA-Z0-9]*)\}/g, (_, name: string) => OPERATOR_NAMES[name] ?? name)
+    .replace(/\\mathrm\{([a-zA-Z]{2,})\}/g, '$1')
+    .replace(/\\Gamma/g, 'gamma')
+    .replace(/\\zeta/g, 'zeta')
+    .replace(/\\psi(?=\s*(?:\\left)?\()/g, 'digamma')
+    .replace(/\\psi/g, 'psi');
+}
+
+/**
+ * [k^2 for k = L]: the comprehension's `=` becomes `∈` so the entry is not
+ * mistaken for a definition of whatever precedes it. The `for` itself is
+ * joined back as COMPREHENSION_FOR by tokensToExpression.
+ */
+function markComprehensions(tokens: Token[]): Token[] {
+  return tokens.map((token, i) => {
+    const [keyword, variable] = [tokens[i - 2], tokens[i - 1]];
+    const binds =
+      token.value === '=' &&
+      keyword?.type === TokenType.Operator &&
+      (keyword.value === 'for' || keyword.value === COMPREHENSION_FOR) &&
+      variable?.type === TokenType.Identifier;
+    return binds ? { ...token, value: '∈' } : token;
+  });
+}
+
+/**
+ * solve(x^2 = 2, x): the equation's `=` becomes `==` so the whole entry is not
+ * mistaken for a definition or an implicit relation.
+ */
+function markSolveEquations(expr: string): string {
+  let result = expr;
+  let start = result.indexOf('solve(');
+  while (start >= 0) {
+    let depth = 0;
+    for (let i = start + 'solve'.length; i < result.length; i++) {
+      const char = result[i];
+      if (char === '(') depth++;
+      else if (char === ')' && --depth === 0) break;
+      else if (
+        char === '=' &&
+        depth === 1 &&
+        !'<>=!'.includes(result[i - 1]) &&
+        result[i + 1] !== '='
+      ) {
+        result = `${result.slice(0, i)}==${result.slice(i + 1)}`;
+        i++;
+      }
+    }
+    start = result.indexOf('solve(', start + 1);
+  }
+  return result;
+}
+
+/**
+ * Definite integrals: \int_{a}^{b} f(x)\,dx → int{x,a,b}(f(x))
+ * Rewrites the innermost (last) integral first so nested integrals end up
+ * inside their outer integrand. Integrals without both bounds are left alone.
+ */
+function normalizeIntegrals(latex: string): string {
+  let result = latex;
+  let searchFrom = result.length;
+
+  while (searchFrom >= 0) {
+    const start = result.lastIndexOf('\\int', searchFrom);
+    if (start < 0) break;
+    searchFrom = start - 1;
+
+    let pos = start + '\\int'.length;
+    if (/[a-zA-Z]/.test(result[pos] ?? '')) continue; // \integral, \intercal, ...
+
+    const bounds: Record<string, string> = {};
+    for (let i = 0; i < 2; i++) {
+      while (result[pos] === ' ') pos++;
+      const marker = result[pos];
+      if ((marker !== '_' && marker !== '^') || marker in bounds) break;
+      const group = readLatexGroup(result, pos + 1);
+      if (!group) break;
+      bounds[marker] = group.content;
+      pos = group.end;
+    }
+    if (!('_' in bounds) || !('^' in bounds)) continue;
+
+    const differential = findDifferential(result, pos);
+    if (!differential) continue;
+
+    const body = result
+      .slice(pos, differential.start)
+      .replace(/^(?:\s|\\[,;:! ])+|(?:\s|\\[,;:! ])+$/g, '');
+    const replacement = `int{${differential.variable},${bounds._},${bounds['^']}}(${body || '1'})`;
+    result = result.slice(0, start) + replacement + result.slice(differential.end);
+  }
+
+  // Products of the integration variables run together, \int\int xy\,dy\,dx → x*y
+  const variables = new Set(Array.from(result.matchAll(/int\{([a-zA-Z]),/g), match => match[1]));
+  if (variables.size === 0) return result;
+  return result.replace(/(?<![a-zA-Z_\\])[a-zA-Z]{2,}(?![a-zA-Z0-9_{(])/g, run =>
+    Array.from(run).every(char => variables.has(char)) ? Array.from(run).join('*') : run
+  );
+}
+
+// Read a LaTeX argument: {group}, \command or a single character
+function readLatexGroup(source: string, pos: number): { content: string; end: number } | null {
+  while (source[pos] === ' ') pos++;
+  const char = source[pos];
+  if (!char) return null;
+  if (char === '{') {
+    let depth = 0;
+    for (let i = pos; i < source.length; i++) {
+      if (source[i] === '{') depth++;
+      else if (source[i] === '}' && --depth === 0) {
+        return { content: source.slice(pos + 1, i), end: i + 1 };
+      }
+    }
+    return null;
+  }
+  if (char === '\\') {
+    const command = source.slice(pos).match(/^\\[a-zA-Z]+/);
+    if (command) return { content: command[0], end: pos + command[0].length };
+  }
+  return { content: char, end: pos + 1 };
+}
+
+// Find the closing dx (or \mathrm{d}x) of an integrand, outside any group
+function findDifferential(
+  source: string,
+  from: number
+): { variable: string; start: number; end: number } | null {
+  let depth = 0;
+  for (let i = from; i < source.length; i++) {
+    const char = source[i];
+    if (char === '{' || char === '(' || char === '[') {
+      depth++;
+      continue;
+    }
+    if (char === '}' || char === ')' || char === ']') {
+      if (depth === 0) return null;
+      depth--;
+      continue;
+    }
+    if (depth > 0) continue;
+
+    const upright = source.slice(i).match(/^\\mathrm\{d\}\s*([a-zA-Z])(?![a-zA-Z])/);
+    if (upright) {
+      return { variable: upright[1], start: i, end: i + upright[0].length };
+    }
+    if (char === '\\') {
+      // Skip whole commands so the d in \cdot or \,d is not misread
+      const command = source.slice(i).match(/^\\(?:[a-zA-Z]+|.)/);
+      i += command[0].length - 1;
+      continue;
+    }
+    if (char === 'd' && /[a-zA-Z]/.test(source[i + 1] ?? '') && !/[a-zA-Z]/.test(source[i + 2] ?? '')) {
+      return { variable: source[i + 1], start: i, end: i + 2 };
+    }
+  }
+  return null;
 }
 
 function tokensToExpression(tokens: Token[]): string {
   return tokens
     .map(token => {
       switch (token.type) {
+        case TokenType.Operator:
+          if (token.value === 'for') return COMPREHENSION_FOR;
+          return token.value === 'and' || token.value === 'or' ? CONNECTIVES[token.value] : token.value;
         case TokenType.Number:
         case TokenType.Identifier:
-        case TokenType.Operator:
         case TokenType.Imaginary:
           return token.value;
         case TokenType.ParenthesisOpen:
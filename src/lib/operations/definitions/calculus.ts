@@ -1,12 +1,13 @@
 /**
- * Calculus operations: D (derivative), if (conditional), piecewise
+ * Calculus operations: D (derivative), integrate (definite integral), if (conditional), piecewise
  */
 
 import { registry } from '../registry';
 import { MathType } from '../../types';
-import { isFunction, isBoolean, createFunction } from '../../runtime/value';
+import { isFunction, isBoolean, isNumber, createFunction, createNumber } from '../../runtime/value';
 import { KeyboardCategory } from '../../keyboard/categories';
 import { symbolicDerivativeAST, symbolicPartialAST } from '../../computation/symbolic';
+import { integrateFunction } from '../../computation/integration';
 
 // Derivative operator D
 registry.register({
@@ -55,6 +56,44 @@ registry.register({
   }
 });
 
+// Definite integral. \int_a^b f\,dx and integrate(...) parse to 'integral'
+// nodes; the evaluator wraps the integrand as a function of the integration
+// variable (closing over any outer variables) and dispatches here.
+registry.register({
+  id: 'integrate',
+  name: 'integrate',
+  syntax: {
+    latex: '\\int_{#1}^{#2} #0 \\,dx',
+    normalized: 'int{x,#1,#2}(#0)',
+    insertTemplate: '\\int_{#0}^{#1} #2 \\,dx'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Function, MathType.Number, MathType.Number], output: MathType.Number }
+    ]
+  },
+  runtime: {
+    evaluate: (args, context) => {
+      const [integrand, lower, upper] = args;
+      if (!isFunction(integrand) || !isNumber(lower) || !isNumber(upper)) {
+        throw new Error('integrate expects (Function, Number, Number)');
+      }
+      return createNumber(integrateFunction(integrand, lower.value, upper.value, context).value);
+    }
+  },
+  variables: {
+    bindsVariables: true
+  },
+  ui: {
+    description: 'Definite integral',
+    category: KeyboardCategory.Calculus,
+    example: '\\int_0^1 x^2\\,dx'
+  }
+});
+
 // Conditional if
 registry.register({
   id: 'if',
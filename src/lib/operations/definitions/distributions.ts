@@ -0,0 +1,283 @@
+/**
+ * Probability distributions: constructors, pdf, cdf, quantile, var,
+ * interval probabilities and seeded random samples
+ *
+ * mean(X) lives with the list mean in list.ts. Calling a distribution-valued
+ * variable, X(x), evaluates its density (see runtime/evaluator.ts).
+ */
+
+import { registry } from '../registry';
+import { MathType } from '../../types';
+import {
+  RuntimeValue,
+  createDistribution,
+  createList,
+  createNumber,
+  isDistribution,
+  isNumber,
+} from '../../runtime/value';
+import { KeyboardCategory } from '../../keyboard/categories';
+import {
+  Distribution,
+  DistributionFamily,
+  buildDistribution,
+  cdf,
+  density,
+  distributionVariance,
+  familyParameters,
+  intervalProbability,
+  quantile,
+  sample,
+} from '../../computation/distributions';
+
+function distributionArg(name: string, value: RuntimeValue): Distribution {
+  if (!isDistribution(value)) throw new Error(`${name} expects a Distribution`);
+  return value;
+}
+
+function numberArg(name: string, value: RuntimeValue): number {
+  if (!isNumber(value)) throw new Error(`${name} expects Number arguments`);
+  return value.value;
+}
+
+interface Constructor {
+  family: DistributionFamily;
+  latex: string;
+  description: string;
+  example: string;
+}
+
+// Constructors differ only in their family and parameter count
+function registerConstructor({ family, latex, description, example }: Constructor) {
+  const arity = familyParameters(family).length;
+  const placeholders = Array.from({ length: arity }, (_, i) => `#${i}`).join(', ');
+  registry.register({
+    id: family,
+    name: family,
+    syntax: {
+      latex: `${latex}(${placeholders})`,
+      normalized: `${family}(${placeholders})`
+    },
+    parse: {
+      type: 'function'
+    },
+    types: {
+      signatures: [
+        { input: new Array(arity).fill(MathType.Number), output: MathType.Distribution }
+      ]
+    },
+    runtime: {
+      evaluate: (args) => {
+        const { params } = buildDistribution(family, args.map(arg => numberArg(family, arg)));
+        return createDistribution(family, params);
+      }
+    },
+    ui: {
+      description,
+      category: KeyboardCategory.Probability,
+      example
+    }
+  });
+}
+
+registerConstructor({
+  family: 'normal',
+  latex: '\\operatorname{normal}',
+  description: 'Normal distribution with mean μ and standard deviation σ',
+  example: 'normal(0, 1)'
+});
+
+registerConstructor({
+  family: 'uniform',
+  latex: '\\operatorname{uniform}',
+  description: 'Continuous uniform distribution on [a, b]',
+  example: 'uniform(0, 1)'
+});
+
+registerConstructor({
+  family: 'binomial',
+  latex: '\\operatorname{binomial}',
+  description: 'Number of successes in n trials with success probability p',
+  example: 'binomial(10, 0.5)'
+});
+
+registerConstructor({
+  family: 'poisson',
+  latex: '\\operatorname{poisson}',
+  description: 'Poisson distribution with rate λ',
+  example: 'poisson(3)'
+});
+
+registerConstructor({
+  family: 'exponential',
+  latex: '\\operatorname{exponential}',
+  description: 'Exponential distribution with rate λ',
+  example: 'exponential(2)'
+});
+
+// Not plain t: builtin names parse as calls even without parentheses, which
+// would break every use of t as a parameter
+registerConstructor({
+  family: 'studentt',
+  latex: '\\operatorname{studentt}',
+  description: "Student's t distribution with ν degrees of freedom (written studentt, since t is the curve parameter)",
+  example: 'studentt(5)'
+});
+
+registerConstructor({
+  family: 'chi2',
+  latex: '\\operatorname{chi2}',
+  description: 'Chi-squared distribution with k degrees of freedom',
+  example: 'chi2(3)'
+});
+
+interface DistributionFunction {
+  id: string;
+  description: string;
+  example: string;
+  evaluate: (d: Distribution, value: number) => number;
+}
+
+// pdf, cdf and quantile: a distribution and one number in, one number out
+function registerDistributionFunction({ id, description, example, evaluate }: DistributionFunction) {
+  registry.register({
+    id,
+    name: id,
+    syntax: {
+      latex: `\\operatorname{${id}}(#0, #1)`,
+      normalized: `${id}(#0, #1)`
+    },
+    parse: {
+      type: 'function'
+    },
+    types: {
+      signatures: [
+        { input: [MathType.Distribution, MathType.Number], output: MathType.Number }
+      ]
+    },
+    runtime: {
+      evaluate: (args) => createNumber(evaluate(distributionArg(id, args[0]), numberArg(id, args[1])))
+    },
+    ui: {
+      description,
+      category: KeyboardCategory.Probability,
+      example
+    }
+  });
+}
+
+registerDistributionFunction({
+  id: 'pdf',
+  description: 'Probability density at x; probability mass for discrete distributions',
+  example: 'pdf(normal(0, 1), 0) ≈ 0.399',
+  evaluate: density
+});
+
+registerDistributionFunction({
+  id: 'cdf',
+  description: 'Cumulative probability P(X ≤ x)',
+  example: 'cdf(normal(0, 1), 1.96) ≈ 0.975',
+  evaluate: cdf
+});
+
+registerDistributionFunction({
+  id: 'quantile',
+  description: 'Inverse CDF: the smallest x with P(X ≤ x) ≥ p',
+  example: 'quantile(normal(0, 1), 0.975) ≈ 1.96',
+  evaluate: quantile
+});
+
+// var(L) on a list matches variance(L)
+registry.register({
+  id: 'var',
+  name: 'var',
+  syntax: {
+    latex: '\\operatorname{Var}(#0)',
+    normalized: 'var(#0)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Distribution], output: MathType.Number },
+      { input: [MathType.List], output: MathType.Number }
+    ]
+  },
+  runtime: {
+    evaluate: (args, context) => {
+      const [arg] = args;
+      if (isDistribution(arg)) return createNumber(distributionVariance(arg));
+      return registry.execute('variance', args, context);
+    }
+  },
+  ui: {
+    description: 'Variance of a distribution or a list',
+    category: KeyboardCategory.Probability,
+    example: 'var(binomial(10, 0.5)) = 2.5'
+  }
+});
+
+// Graph2D shades the area this probability covers under the density
+registry.register({
+  id: 'probability',
+  name: 'probability',
+  syntax: {
+    latex: '\\operatorname{probability}(#0, #1, #2)',
+    normalized: 'probability(#0, #1, #2)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Distribution, MathType.Number, MathType.Number], output: MathType.Number }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [d, a, b] = args;
+      const name = 'probability';
+      return createNumber(intervalProbability(distributionArg(name, d), numberArg(name, a), numberArg(name, b)));
+    }
+  },
+  ui: {
+    description: 'P(a ≤ X ≤ b), shaded under the density on the graph',
+    category: KeyboardCategory.Probability,
+    example: 'probability(normal(0, 1), -1, 1) ≈ 0.683'
+  }
+});
+
+registry.register({
+  id: 'random',
+  name: 'random',
+  syntax: {
+    latex: '\\operatorname{random}(#0, #1)',
+    normalized: 'random(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Distribution, MathType.Number], output: MathType.List },
+      { input: [MathType.Distribution, MathType.Number, MathType.Number], output: MathType.List }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [d, count, seed] = args;
+      const samples = sample(
+        distributionArg('random', d),
+        numberArg('random', count),
+        seed ? numberArg('random', seed) : undefined
+      );
+      return createList(samples.map(createNumber), MathType.Number);
+    }
+  },
+  ui: {
+    description: 'n random samples; the optional seed makes them reproducible (default 0)',
+    category: KeyboardCategory.Probability,
+    example: 'random(normal(0, 1), 100, 42)'
+  }
+});
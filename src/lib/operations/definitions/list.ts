@@ -1,10 +1,13 @@
 /**
  * List operations: length, sum, mean, min, max, variance, stdev
+ *
+ * mean also accepts a distribution (its expected value).
  */
 
 import { registry } from '../registry';
 import { MathType } from '../../types';
-import { isList, createNumber, isNumber } from '../../runtime/value';
+import { isList, createNumber, isNumber, isDistribution } from '../../runtime/value';
+import { distributionMean } from '../../computation/distributions';
 import { KeyboardCategory } from '../../keyboard/categories';
 
 // Sum
@@ -56,12 +59,14 @@ registry.register({
   },
   types: {
     signatures: [
-      { input: [MathType.List], output: MathType.Number }
+      { input: [MathType.List], output: MathType.Number },
+      { input: [MathType.Distribution], output: MathType.Number }
     ]
   },
   runtime: {
     evaluate: (args) => {
       const [arg] = args;
+      if (isDistribution(arg)) return createNumber(distributionMean(arg));
       if (isList(arg)) {
         if (arg.elements.length === 0) throw new Error('Cannot compute mean of empty list');
         const sum = arg.elements.reduce((acc, el) => {
@@ -70,11 +75,11 @@ registry.register({
         }, 0);
         return createNumber(sum / arg.elements.length);
       }
-      throw new Error('mean expects List');
+      throw new Error('mean expects List or Distribution');
     }
   },
   ui: {
-    description: 'Average of list elements',
+    description: 'Average of list elements, or the expected value of a distribution',
     category: KeyboardCategory.Lists,
     example: 'mean([1,2,3]) = 2'
   }
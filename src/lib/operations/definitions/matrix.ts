@@ -0,0 +1,285 @@
+/**
+ * Matrix operations: construction, transpose, determinant, inverse, rank,
+ * trace, linear solves, eigenvalues/eigenvectors and LU/QR/SVD
+ *
+ * Matrix arithmetic (+, -, *, ^) is overloaded in runtime/operators.ts.
+ * Vector results follow the list literal rules: length 2 is a Point,
+ * length 3 a Point3D, anything else a List.
+ */
+
+import { registry } from '../registry';
+import { MathType } from '../../types';
+import {
+  RuntimeValue,
+  createComplex,
+  createList,
+  createMatrix,
+  createNumber,
+  createVector,
+  isList,
+  isMatrix,
+  isNumber,
+  vectorEntries,
+} from '../../runtime/value';
+import { KeyboardCategory } from '../../keyboard/categories';
+import {
+  Scalar,
+  assertRectangular,
+  determinant,
+  eigenDecomposition,
+  identityMatrix,
+  inverse,
+  luDecompose,
+  qrDecompose,
+  rank,
+  singularValueDecomposition,
+  solveLinearSystem,
+  trace,
+  transpose,
+} from '../../computation/linearAlgebra';
+
+function matrixArg(name: string, value: RuntimeValue): number[][] {
+  if (!isMatrix(value)) throw new Error(`${name} expects a Matrix`);
+  return value.rows;
+}
+
+const fromScalar = (value: Scalar): RuntimeValue =>
+  typeof value === 'number' ? createNumber(value) : createComplex(value.re, value.im);
+
+interface MatrixFunction {
+  id: string;
+  description: string;
+  example: string;
+  latex?: string;
+  output: MathType;
+  evaluate: (rows: number[][]) => RuntimeValue;
+}
+
+// Single-matrix operations share everything but the computation
+function registerMatrixFunction({ id, description, example, latex, output, evaluate }: MatrixFunction) {
+  registry.register({
+    id,
+    name: id,
+    syntax: {
+      latex: latex ?? `\\operatorname{${id}}(#0)`,
+      normalized: `${id}(#0)`
+    },
+    parse: {
+      type: 'function'
+    },
+    types: {
+      signatures: [
+        { input: [MathType.Matrix], output }
+      ]
+    },
+    runtime: {
+      evaluate: (args) => evaluate(matrixArg(id, args[0]))
+    },
+    ui: {
+      description,
+      category: KeyboardCategory.Matrices,
+      example
+    }
+  });
+}
+
+// Matrix from a list of rows; bmatrix LaTeX normalizes to this
+registry.register({
+  id: 'matrix',
+  name: 'matrix',
+  syntax: {
+    latex: '\\begin{bmatrix}#0&#1\\\\#2&#3\\end{bmatrix}',
+    normalized: 'matrix([[#0, #1], [#2, #3]])'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.List], output: MathType.Matrix }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [list] = args;
+      if (!isList(list)) throw new Error('matrix expects a list of rows');
+      const rows = list.elements.map(row => {
+        const entries = vectorEntries(row);
+        if (!entries) throw new Error('Matrix rows must be lists of numbers');
+        return entries;
+      });
+      assertRectangular(rows);
+      return createMatrix(rows);
+    }
+  },
+  ui: {
+    description: 'Matrix from a list of rows',
+    category: KeyboardCategory.Matrices,
+    example: 'matrix([[1, 2], [3, 4]])'
+  }
+});
+
+registry.register({
+  id: 'identity',
+  name: 'identity',
+  syntax: {
+    latex: '\\operatorname{identity}(#0)',
+    normalized: 'identity(#0)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Number], output: MathType.Matrix }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [size] = args;
+      if (!isNumber(size) || !Number.isInteger(size.value) || size.value < 1) {
+        throw new Error('identity expects a positive integer size');
+      }
+      return createMatrix(identityMatrix(size.value));
+    }
+  },
+  ui: {
+    description: 'n×n identity matrix',
+    category: KeyboardCategory.Matrices,
+    example: 'identity(3)'
+  }
+});
+
+registerMatrixFunction({
+  id: 'transpose',
+  description: 'Transpose Aᵀ',
+  example: 'transpose(A)',
+  output: MathType.Matrix,
+  evaluate: rows => createMatrix(transpose(rows))
+});
+
+registerMatrixFunction({
+  id: 'det',
+  description: 'Determinant of a square matrix',
+  example: 'det(matrix([[1, 2], [3, 4]])) = -2',
+  latex: '\\det(#0)',
+  output: MathType.Number,
+  evaluate: rows => createNumber(determinant(rows))
+});
+
+registerMatrixFunction({
+  id: 'inv',
+  description: 'Inverse of a square matrix',
+  example: 'inv(A)',
+  output: MathType.Matrix,
+  evaluate: rows => createMatrix(inverse(rows))
+});
+
+registerMatrixFunction({
+  id: 'rank',
+  description: 'Rank: the number of nonzero singular values',
+  example: 'rank(matrix([[1, 2], [2, 4]])) = 1',
+  output: MathType.Number,
+  evaluate: rows => createNumber(rank(rows))
+});
+
+registerMatrixFunction({
+  id: 'trace',
+  description: 'Trace: the sum of the diagonal entries',
+  example: 'trace(identity(3)) = 3',
+  output: MathType.Number,
+  evaluate: rows => createNumber(trace(rows))
+});
+
+registerMatrixFunction({
+  id: 'eigenvalues',
+  description: 'Eigenvalues, complex where the matrix has rotation',
+  example: 'eigenvalues(matrix([[2, 0], [0, 3]])) = {2, 3}',
+  output: MathType.List,
+  evaluate: rows => createList(eigenDecomposition(rows).values.map(fromScalar))
+});
+
+registerMatrixFunction({
+  id: 'eigenvectors',
+  description: 'Unit eigenvectors, in the order of eigenvalues(A)',
+  example: 'eigenvectors(A)',
+  output: MathType.List,
+  evaluate: rows => createList(
+    eigenDecomposition(rows).vectors.map(vector =>
+      vector.every(entry => typeof entry === 'number')
+        ? createVector(vector as number[])
+        : createList(vector.map(fromScalar), MathType.Complex)
+    )
+  )
+});
+
+registerMatrixFunction({
+  id: 'lu',
+  description: 'LU decomposition with partial pivoting: {L, U, P} with PA = LU',
+  example: 'lu(A)',
+  output: MathType.List,
+  evaluate: rows => {
+    const { L, U, P } = luDecompose(rows);
+    return createList([L, U, P].map(createMatrix), MathType.Matrix);
+  }
+});
+
+registerMatrixFunction({
+  id: 'qr',
+  description: 'QR decomposition: {Q, R} with Q orthogonal and R upper triangular',
+  example: 'qr(A)',
+  output: MathType.List,
+  evaluate: rows => {
+    const { Q, R } = qrDecompose(rows);
+    return createList([Q, R].map(createMatrix), MathType.Matrix);
+  }
+});
+
+registerMatrixFunction({
+  id: 'svd',
+  description: 'Singular value decomposition: {U, Σ, V} with A = UΣVᵀ',
+  example: 'svd(A)',
+  output: MathType.List,
+  evaluate: rows => {
+    const { U, S, V } = singularValueDecomposition(rows);
+    const sigma = S.map((value, i) => S.map((_, j) => (i === j ? value : 0)));
+    return createList([U, sigma, V].map(createMatrix), MathType.Matrix);
+  }
+});
+
+// Named linsolve because solve() is the symbolic equation solver
+registry.register({
+  id: 'linsolve',
+  name: 'linsolve',
+  syntax: {
+    latex: '\\operatorname{linsolve}(#0, #1)',
+    normalized: 'linsolve(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Matrix, MathType.List], output: MathType.List },
+      { input: [MathType.Matrix, MathType.Point], output: MathType.List },
+      { input: [MathType.Matrix, MathType.Vector3D], output: MathType.List },
+      { input: [MathType.Matrix, MathType.Matrix], output: MathType.List }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [a, b] = args;
+      // A column, written as an n×1 bmatrix, is a vector too
+      const column = isMatrix(b) && b.rows.every(row => row.length === 1);
+      const entries = column ? b.rows.map(([entry]) => entry) : vectorEntries(b);
+      if (!entries) throw new Error('linsolve expects a vector of numbers or a column on the right-hand side');
+      // A list, as declared, whatever the number of unknowns
+      return createList(solveLinearSystem(matrixArg('linsolve', a), entries).map(createNumber), MathType.Number);
+    }
+  },
+  ui: {
+    description: 'Solve Ax = b; least squares when A has more rows than columns',
+    category: KeyboardCategory.Matrices,
+    example: 'linsolve(matrix([[2, 0], [0, 4]]), (2, 8)) = [1, 2]'
+  }
+});
@@ -0,0 +1,62 @@
+/**
+ * Ordinary differential equations: solveODE integrates an initial value
+ * problem and returns the trajectory as a list of points
+ *
+ * `y' = f(x, y)` entries with `y(x0) = y0` initial conditions are drawn by
+ * Graph2D directly (see runtime/ode.ts).
+ */
+
+import { registry } from '../registry';
+import { MathType } from '../../types';
+import { createList, createPoint, createVector, isList, isNumber, vectorEntries } from '../../runtime/value';
+import { KeyboardCategory } from '../../keyboard/categories';
+import { solveODE } from '../../computation/ode';
+import { odeSystem } from '../../runtime/ode';
+
+// Keep enough output points for the trajectory to plot as a smooth curve
+const OUTPUT_POINTS = 200;
+
+registry.register({
+  id: 'solveODE',
+  name: 'solveODE',
+  syntax: {
+    latex: '\\operatorname{solveODE}(#0, #1, #2)',
+    normalized: 'solveODE(#0, #1, #2)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.List, MathType.List, MathType.Number], output: MathType.List },
+      { input: [MathType.Function, MathType.Number, MathType.Number], output: MathType.List }
+    ]
+  },
+  runtime: {
+    evaluate: (args, context) => {
+      const [functions, initial, end] = args;
+      if (!isNumber(end)) throw new Error('solveODE expects the end time as a Number');
+      const scalar = !isList(functions);
+      const y0 = scalar ? (isNumber(initial) ? [initial.value] : null) : vectorEntries(initial);
+      if (!y0) throw new Error('solveODE expects numeric initial values');
+      const equations = scalar ? [functions] : functions.elements;
+      if (y0.length !== equations.length) throw new Error('solveODE needs one initial value per function');
+      const { f } = odeSystem(equations, context);
+
+      const solution = solveODE(f, 0, y0, end.value, { maxStep: Math.abs(end.value) / OUTPUT_POINTS || undefined });
+      if (!solution.success && solution.t.length < 2) {
+        throw new Error(solution.message ?? 'The ODE could not be solved');
+      }
+      // A single equation traces (t, y(t)); a system traces its state
+      const points = scalar
+        ? solution.t.map((t, i) => createPoint(t, solution.y[i][0]))
+        : solution.y.map(state => createVector(state));
+      return createList(points);
+    }
+  },
+  ui: {
+    description: "Solve y' = f(t, y) from t = 0: a list of points (t, y), or the state path for a system",
+    category: KeyboardCategory.Calculus,
+    example: 'solveODE([f, g], [1, 0], 10)'
+  }
+});
@@ -1,10 +1,30 @@
 /**
  * Point/Vector operations: dot, cross, distance
+ * Constructions in the plane: segment, line, circle, midpoint, perpendicular,
+ * polygon, and the measurements area and angle
  */
 
 import { registry } from '../registry';
 import { MathType } from '../../types';
-import { isPoint, isPoint3D, isVector3D, createNumber, createPoint, createVector3D } from '../../runtime/value';
+import {
+  PlanePoint,
+  RuntimeValue,
+  isPoint,
+  isPoint3D,
+  isVector3D,
+  isList,
+  isSegment,
+  isLine,
+  isCircle,
+  isPolygon,
+  createNumber,
+  createPoint,
+  createVector3D,
+  createSegment,
+  createLine,
+  createCircle,
+  createPolygon
+} from '../../runtime/value';
 import { KeyboardCategory } from '../../keyboard/categories';
 
 // Dot product
@@ -134,3 +154,309 @@ registry.register({
     example: 'distance((0,0), (3,4)) = 5'
   }
 });
+
+// The coordinates of a Point argument
+function planePoint(name: string, value: RuntimeValue): PlanePoint {
+  if (!isPoint(value)) {
+    throw new Error(`${name} expects Points`);
+  }
+  return { x: value.x, y: value.y };
+}
+
+// Two points a construction needs to be apart
+function distinctPoints(name: string, a: RuntimeValue, b: RuntimeValue): [PlanePoint, PlanePoint] {
+  const [p, q] = [planePoint(name, a), planePoint(name, b)];
+  if (p.x === q.x && p.y === q.y) {
+    throw new Error(`${name} needs two different points`);
+  }
+  return [p, q];
+}
+
+// Segment between two points
+registry.register({
+  id: 'segment',
+  name: 'segment',
+  syntax: {
+    latex: 'segment(#0, #1)',
+    normalized: 'segment(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Point, MathType.Point], output: MathType.Segment }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => createSegment(planePoint('segment', args[0]), planePoint('segment', args[1]))
+  },
+  ui: {
+    description: 'Segment between two points',
+    category: KeyboardCategory.Points,
+    example: 'segment((0,0), (3,4))'
+  }
+});
+
+function lineThrough(a: RuntimeValue, b: RuntimeValue): RuntimeValue {
+  const [p, q] = distinctPoints('line', a, b);
+  return createLine(p, { x: q.x - p.x, y: q.y - p.y });
+}
+
+// Line through two points
+registry.register({
+  id: 'line',
+  name: 'line',
+  syntax: {
+    latex: 'line(#0, #1)',
+    normalized: 'line(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Point, MathType.Point], output: MathType.Line },
+      { input: MathType.Segment, output: MathType.Line }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [a, b] = args;
+      if (isSegment(a)) {
+        // The line a segment lies on
+        return lineThrough(createPoint(a.from.x, a.from.y), createPoint(a.to.x, a.to.y));
+      }
+      return lineThrough(a, b);
+    }
+  },
+  ui: {
+    description: 'Line through two points, or along a segment',
+    category: KeyboardCategory.Points,
+    example: 'line((0,0), (1,1))'
+  }
+});
+
+// Circle from its center and a radius or a point on it
+registry.register({
+  id: 'circle',
+  name: 'circle',
+  syntax: {
+    latex: 'circle(#0, #1)',
+    normalized: 'circle(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Point, MathType.Number], output: MathType.Circle },
+      { input: [MathType.Point, MathType.Point], output: MathType.Circle }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [center, through] = args;
+      const c = planePoint('circle', center);
+      if (isPoint(through)) {
+        return createCircle(c, Math.hypot(through.x - c.x, through.y - c.y));
+      }
+      if (through.kind !== 'number' || !(through.value >= 0)) {
+        throw new Error('circle expects a radius of at least 0');
+      }
+      return createCircle(c, through.value);
+    }
+  },
+  ui: {
+    description: 'Circle from its center and a radius or a point on it',
+    category: KeyboardCategory.Points,
+    example: 'circle((0,0), 2)'
+  }
+});
+
+// Midpoint of two points or of a segment
+registry.register({
+  id: 'midpoint',
+  name: 'midpoint',
+  syntax: {
+    latex: 'midpoint(#0, #1)',
+    normalized: 'midpoint(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Point, MathType.Point], output: MathType.Point },
+      { input: MathType.Segment, output: MathType.Point }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [a, b] = args;
+      const [p, q] = isSegment(a) ? [a.from, a.to] : [planePoint('midpoint', a), planePoint('midpoint', b)];
+      return createPoint((p.x + q.x) / 2, (p.y + q.y) / 2);
+    }
+  },
+  ui: {
+    description: 'Midpoint of two points or of a segment',
+    category: KeyboardCategory.Points,
+    example: 'midpoint((0,0), (4,2)) = (2, 1)'
+  }
+});
+
+// Perpendicular to a line or segment through a point
+registry.register({
+  id: 'perpendicular',
+  name: 'perpendicular',
+  syntax: {
+    latex: 'perpendicular(#0, #1)',
+    normalized: 'perpendicular(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Line, MathType.Point], output: MathType.Line },
+      { input: [MathType.Segment, MathType.Point], output: MathType.Line }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [base, through] = args;
+      let direction: PlanePoint;
+      if (isLine(base)) {
+        direction = base.direction;
+      } else if (isSegment(base)) {
+        direction = { x: base.to.x - base.from.x, y: base.to.y - base.from.y };
+      } else {
+        throw new Error('perpendicular expects a Line or Segment and a Point');
+      }
+      if (direction.x === 0 && direction.y === 0) {
+        throw new Error('perpendicular needs a segment of non-zero length');
+      }
+      return createLine(planePoint('perpendicular', through), { x: -direction.y, y: direction.x });
+    }
+  },
+  ui: {
+    description: 'Line through a point, perpendicular to a line or segment',
+    category: KeyboardCategory.Points,
+    example: 'perpendicular(line((0,0), (1,0)), (2,3))'
+  }
+});
+
+// Polygon through its vertices in order: polygon(A, B, C, ...) or polygon([A, B, C])
+const MAX_VERTICES = 12;
+
+registry.register({
+  id: 'polygon',
+  name: 'polygon',
+  syntax: {
+    latex: 'polygon(#0, #1, #2)',
+    normalized: 'polygon(#0, #1, #2)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      ...Array.from({ length: MAX_VERTICES - 2 }, (_, k) => ({
+        input: new Array(k + 3).fill(MathType.Point),
+        output: MathType.Polygon
+      })),
+      { input: MathType.List, output: MathType.Polygon }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const vertices = args.length === 1 && isList(args[0]) ? args[0].elements : args;
+      if (vertices.length < 3) {
+        throw new Error('polygon needs at least 3 vertices');
+      }
+      return createPolygon(vertices.map(vertex => planePoint('polygon', vertex)));
+    }
+  },
+  ui: {
+    description: 'Polygon through its vertices in order',
+    category: KeyboardCategory.Points,
+    example: 'polygon((0,0), (4,0), (0,3))'
+  }
+});
+
+// Area enclosed by a polygon or circle
+registry.register({
+  id: 'area',
+  name: 'area',
+  syntax: {
+    latex: 'area(#0)',
+    normalized: 'area(#0)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: MathType.Polygon, output: MathType.Number },
+      { input: MathType.Circle, output: MathType.Number }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [shape] = args;
+      if (isCircle(shape)) {
+        return createNumber(Math.PI * shape.radius * shape.radius);
+      }
+      if (isPolygon(shape)) {
+        // Shoelace formula; either orientation gives the same area
+        const points = shape.points.map(point => planePoint('area', point));
+        const twice = points.reduce((sum, p, i) => {
+          const q = points[(i + 1) % points.length];
+          return sum + p.x * q.y - q.x * p.y;
+        }, 0);
+        return createNumber(Math.abs(twice) / 2);
+      }
+      throw new Error('area expects a Polygon or Circle');
+    }
+  },
+  ui: {
+    description: 'Area enclosed by a polygon or circle',
+    category: KeyboardCategory.Points,
+    example: 'area(polygon((0,0), (4,0), (0,3))) = 6'
+  }
+});
+
+// Angle ABC at the vertex B, in radians
+registry.register({
+  id: 'angle',
+  name: 'angle',
+  syntax: {
+    latex: 'angle(#0, #1, #2)',
+    normalized: 'angle(#0, #1, #2)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Point, MathType.Point, MathType.Point], output: MathType.Number }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [a, b, c] = args.map(arg => planePoint('angle', arg));
+      const u = { x: a.x - b.x, y: a.y - b.y };
+      const v = { x: c.x - b.x, y: c.y - b.y };
+      if ((u.x === 0 && u.y === 0) || (v.x === 0 && v.y === 0)) {
+        throw new Error('angle needs both arms to have non-zero length');
+      }
+      // atan2 of the cross and dot products stays accurate near 0 and π
+      return createNumber(Math.abs(Math.atan2(u.x * v.y - u.y * v.x, u.x * v.x + u.y * v.y)));
+    }
+  },
+  ui: {
+    description: 'Angle ABC at the vertex B, in radians',
+    category: KeyboardCategory.Points,
+    example: 'angle((1,0), (0,0), (0,1)) = π/2'
+  }
+});
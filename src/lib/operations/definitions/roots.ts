@@ -0,0 +1,180 @@
+/**
+ * Numerical root finding: roots, argmin, argmax, intersect
+ *
+ * Like the symbolic commands, every signature takes Expression arguments so
+ * the curves arrive unevaluated: `roots(x^2 - 2, 0, 2)` binds x rather than
+ * failing on it. A curve is an expression in one free variable or the bare
+ * name of a one-argument function, `intersect(f, g)`. Graph2D marks the same
+ * points on every visible curve (see runtime/pointsOfInterest.ts).
+ */
+
+import { registry } from '../registry';
+import { MathType } from '../../types';
+import { RuntimeValue, createList, createNumber, createPoint, isExpression, isNumber } from '../../runtime/value';
+import { KeyboardCategory } from '../../keyboard/categories';
+import { ASTNode } from '../../parser';
+import { DefinitionContext } from '../../definitionContext';
+import { evaluate } from '../../runtime/evaluator';
+import { hasUnboundVariables } from '../../runtime/variableDetector';
+import { expressionVariables } from '../../computation/symbolic';
+import { RealFunction, argmax, argmin, findRoots, intersections } from '../../computation/roots';
+
+// intersect(f, g) without bounds searches this interval
+const DEFAULT_RANGE: [number, number] = [-10, 10];
+
+function expressionArg(name: string, arg: RuntimeValue): { ast: ASTNode; variables: string[] } {
+  if (!isExpression(arg)) throw new Error(`${name} expects expressions`);
+  return arg;
+}
+
+function curveArg(name: string, arg: RuntimeValue, context?: DefinitionContext): RealFunction {
+  const { ast, variables } = expressionArg(name, arg);
+  const valueAt = (node: ASTNode, bindings: Record<string, number>) => {
+    try {
+      const result = evaluate(node, bindings, context);
+      return isNumber(result) ? result.value : NaN;
+    } catch {
+      return NaN;
+    }
+  };
+
+  const definition = ast.type === 'variable' ? context?.functions?.[String(ast.value)] : undefined;
+  if (definition) {
+    if (definition.params.length !== 1) throw new Error(`${name} needs functions of one variable`);
+    const [param] = definition.params;
+    return x => valueAt(definition.body, { [param]: x });
+  }
+  if (variables.length > 1) {
+    throw new Error(`${name} needs an expression in one variable, got ${variables.join(', ')}`);
+  }
+  const variable = variables[0] ?? 'x';
+  return x => valueAt(ast, { [variable]: x });
+}
+
+function boundArg(name: string, arg: RuntimeValue, context?: DefinitionContext): number {
+  const value = evaluate(expressionArg(name, arg).ast, {}, context);
+  if (!isNumber(value) || !Number.isFinite(value.value)) throw new Error(`${name} expects numeric bounds`);
+  return value.value;
+}
+
+/**
+ * The curve arguments bind their one free variable, so the call only has
+ * unbound variables when a bound does or a curve has several free names.
+ */
+function curveDetector(curves: number) {
+  return (node: ASTNode, context?: DefinitionContext) =>
+    (node.args ?? []).some((arg, i) => {
+      if (i >= curves) return hasUnboundVariables(arg, context);
+      const free = expressionVariables(arg).filter(name =>
+        hasUnboundVariables({ type: 'variable', value: name }, context)
+      );
+      return free.length > 1;
+    });
+}
+
+interface IntervalCommand {
+  id: string;
+  output: MathType;
+  description: string;
+  example: string;
+  evaluate: (f: RealFunction, a: number, b: number) => RuntimeValue;
+}
+
+// roots, argmin and argmax: one curve searched on [a, b]
+function registerIntervalCommand({ id, output, description, example, evaluate }: IntervalCommand) {
+  registry.register({
+    id,
+    name: id,
+    syntax: {
+      latex: `\\operatorname{${id}}(#0, #1, #2)`,
+      normalized: `${id}(#0, #1, #2)`
+    },
+    parse: {
+      type: 'function'
+    },
+    types: {
+      signatures: [
+        { input: [MathType.Expression, MathType.Expression, MathType.Expression], output }
+      ]
+    },
+    runtime: {
+      evaluate: (args, context) => {
+        const [a, b] = [boundArg(id, args[1], context), boundArg(id, args[2], context)];
+        if (!(a < b)) throw new Error(`${id} expects an interval with a < b`);
+        return evaluate(curveArg(id, args[0], context), a, b);
+      }
+    },
+    variables: {
+      customDetector: curveDetector(1)
+    },
+    ui: {
+      description,
+      category: KeyboardCategory.Calculus,
+      example
+    }
+  });
+}
+
+registerIntervalCommand({
+  id: 'roots',
+  output: MathType.List,
+  description: 'All zeros of f on [a, b], found by bracketing and Brent’s method',
+  example: 'roots(x^2 - 2, -2, 2) = [-1.414, 1.414]',
+  evaluate: (f, a, b) => createList(findRoots(f, a, b).map(createNumber), MathType.Number)
+});
+
+registerIntervalCommand({
+  id: 'argmin',
+  output: MathType.Number,
+  description: 'Where f is smallest on [a, b], endpoints included',
+  example: 'argmin((x - 1)^2, -5, 5) = 1',
+  evaluate: (f, a, b) => createNumber(argmin(f, a, b))
+});
+
+registerIntervalCommand({
+  id: 'argmax',
+  output: MathType.Number,
+  description: 'Where f is largest on [a, b], endpoints included',
+  example: 'argmax(sin(x), 0, 3) ≈ 1.571',
+  evaluate: (f, a, b) => createNumber(argmax(f, a, b))
+});
+
+registry.register({
+  id: 'intersect',
+  name: 'intersect',
+  syntax: {
+    latex: '\\operatorname{intersect}(#0, #1)',
+    normalized: 'intersect(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Expression, MathType.Expression], output: MathType.List },
+      {
+        input: [MathType.Expression, MathType.Expression, MathType.Expression, MathType.Expression],
+        output: MathType.List
+      }
+    ]
+  },
+  runtime: {
+    evaluate: (args, context) => {
+      const name = 'intersect';
+      const [a, b] = args.length === 4
+        ? [boundArg(name, args[2], context), boundArg(name, args[3], context)]
+        : DEFAULT_RANGE;
+      if (!(a < b)) throw new Error('intersect expects an interval with a < b');
+      const points = intersections(curveArg(name, args[0], context), curveArg(name, args[1], context), a, b);
+      return createList(points.map(({ x, y }) => createPoint(x, y)), MathType.Point);
+    }
+  },
+  variables: {
+    customDetector: curveDetector(2)
+  },
+  ui: {
+    description: 'Points where the graphs of f and g meet, on [a, b] (default [-10, 10])',
+    category: KeyboardCategory.Calculus,
+    example: 'intersect(x^2, x + 2) = [(-1, 1), (2, 4)]'
+  }
+});
@@ -0,0 +1,361 @@
+/**
+ * Special functions: erf, erfc, erfinv, gamma, lgamma, digamma, beta, zeta,
+ * Bessel J/Y/I/K, Airy Ai/Bi, Lambert W and elliptic integrals
+ *
+ * Functions with a meaningful continuation accept Complex arguments, and a
+ * real argument outside the real domain (lambertw(-1)) returns the complex
+ * value instead of NaN.
+ */
+
+import { registry } from '../registry';
+import { MathType } from '../../types';
+import { RuntimeValue, createComplex, createNumber, isComplex, isNumber } from '../../runtime/value';
+import { KeyboardCategory } from '../../keyboard/categories';
+import {
+  Complex,
+  airyAi,
+  airyBi,
+  besselI,
+  besselJ,
+  besselK,
+  besselY,
+  beta,
+  complexBeta,
+  complexDigamma,
+  complexErf,
+  complexErfc,
+  complexGamma,
+  complexLambertW,
+  complexLgamma,
+  complexNumber,
+  complexZeta,
+  digamma,
+  ellipticE,
+  ellipticEIncomplete,
+  ellipticF,
+  ellipticK,
+  erf,
+  erfc,
+  erfinv,
+  gamma,
+  lambertW,
+  lambertWIsReal,
+  lgamma,
+  zeta,
+} from '../../computation/special';
+
+const toComplex = (value: RuntimeValue): Complex =>
+  isComplex(value) ? complexNumber(value.real, value.imag) : complexNumber((value as { value: number }).value);
+
+const fromComplex = (z: Complex): RuntimeValue => createComplex(z.re, z.im);
+
+function numberArg(name: string, value: RuntimeValue): number {
+  if (!isNumber(value)) throw new Error(`${name} expects Number arguments`);
+  return value.value;
+}
+
+interface UnarySpecialFunction {
+  id: string;
+  description: string;
+  example: string;
+  latex?: string;
+  real: (x: number) => number;
+  complex?: (z: Complex) => Complex;
+}
+
+function registerUnary({ id, description, example, latex, real, complex }: UnarySpecialFunction) {
+  registry.register({
+    id,
+    name: id,
+    syntax: {
+      latex: latex ?? `\\operatorname{${id}}(#0)`,
+      normalized: `${id}(#0)`
+    },
+    parse: {
+      type: 'function'
+    },
+    types: {
+      signatures: [
+        { input: [MathType.Number], output: MathType.Number, symbolic: true },
+        ...(complex ? [{ input: [MathType.Complex], output: MathType.Complex, symbolic: true }] : [])
+      ]
+    },
+    runtime: {
+      evaluate: (args) => {
+        const [arg] = args;
+        if (isNumber(arg)) {
+          return createNumber(real(arg.value));
+        }
+        if (isComplex(arg) && complex) {
+          return fromComplex(complex(toComplex(arg)));
+        }
+        throw new Error(`${id} expects ${complex ? 'Number or Complex' : 'Number'}`);
+      }
+    },
+    ui: {
+      description,
+      category: KeyboardCategory.Special,
+      example
+    }
+  });
+}
+
+// Bessel functions take an integer order and a real argument; complex
+// arguments, and the complex values of Y and K at x < 0, are rejected
+function registerBessel(id: string, symbol: string, description: string, evaluate: (n: number, x: number) => number) {
+  registry.register({
+    id,
+    name: id,
+    syntax: {
+      latex: `\\operatorname{${symbol}}_{#0}(#1)`,
+      normalized: `${id}(#0, #1)`,
+      insertTemplate: `\\operatorname{${symbol}}_{#0}(x)`
+    },
+    parse: {
+      type: 'function'
+    },
+    types: {
+      signatures: [
+        { input: [MathType.Number, MathType.Number], output: MathType.Number },
+        // Accepted only to be rejected with a clear message below
+        { input: [MathType.Number, MathType.Complex], output: MathType.Number }
+      ]
+    },
+    runtime: {
+      evaluate: (args) => {
+        const [order, x] = args;
+        if (isComplex(x)) {
+          throw new Error(`${id} takes a real argument, not a complex number`);
+        }
+        const argument = numberArg(id, x);
+        const value = evaluate(numberArg(id, order), argument);
+        if (Number.isNaN(value) && argument < 0) {
+          throw new Error(`${id} is complex for x < 0; only real values are supported`);
+        }
+        return createNumber(value);
+      }
+    },
+    ui: {
+      description,
+      category: KeyboardCategory.Special,
+      example: `${id}(2, x)`
+    }
+  });
+}
+
+registerUnary({
+  id: 'erf',
+  description: 'Error function',
+  example: 'erf(1) ≈ 0.8427',
+  real: erf,
+  complex: complexErf
+});
+
+registerUnary({
+  id: 'erfc',
+  description: 'Complementary error function 1 - erf(x)',
+  example: 'erfc(1) ≈ 0.1573',
+  real: erfc,
+  complex: complexErfc
+});
+
+registerUnary({
+  id: 'erfinv',
+  description: 'Inverse error function on (-1, 1)',
+  example: 'erfinv(0.5) ≈ 0.4769',
+  real: erfinv
+});
+
+registerUnary({
+  id: 'gamma',
+  description: 'Gamma function Γ(x)',
+  example: 'gamma(5) = 24',
+  latex: '\\Gamma(#0)',
+  real: gamma,
+  complex: complexGamma
+});
+
+registerUnary({
+  id: 'lgamma',
+  description: 'Log-gamma: ln|Γ(x)| for real x, principal ln Γ(z) for complex z',
+  example: 'lgamma(100) ≈ 359.13',
+  real: lgamma,
+  complex: complexLgamma
+});
+
+registerUnary({
+  id: 'digamma',
+  description: 'Digamma function ψ(x) = Γ\'(x)/Γ(x)',
+  example: 'digamma(1) = -0.5772',
+  latex: '\\psi(#0)',
+  real: digamma,
+  complex: complexDigamma
+});
+
+registerUnary({
+  id: 'zeta',
+  description: 'Riemann zeta function',
+  example: 'zeta(2) = π²/6',
+  latex: '\\zeta(#0)',
+  real: zeta,
+  complex: complexZeta
+});
+
+registerUnary({
+  id: 'airyai',
+  description: 'Airy function Ai(x)',
+  example: 'airyai(0) ≈ 0.3550',
+  latex: '\\operatorname{Ai}(#0)',
+  real: airyAi
+});
+
+registerUnary({
+  id: 'airybi',
+  description: 'Airy function Bi(x)',
+  example: 'airybi(0) ≈ 0.6149',
+  latex: '\\operatorname{Bi}(#0)',
+  real: airyBi
+});
+
+registerUnary({
+  id: 'ellipk',
+  description: 'Complete elliptic integral of the first kind K(m), m = k²',
+  example: 'ellipk(0.5) ≈ 1.8541',
+  latex: '\\operatorname{K}(#0)',
+  real: ellipticK
+});
+
+registerBessel('besselj', 'J', 'Bessel function of the first kind J_n(x)', besselJ);
+registerBessel('bessely', 'Y', 'Bessel function of the second kind Y_n(x)', besselY);
+registerBessel('besseli', 'I', 'Modified Bessel function of the first kind I_n(x)', besselI);
+registerBessel('besselk', 'K', 'Modified Bessel function of the second kind K_n(x)', besselK);
+
+// Beta function
+registry.register({
+  id: 'beta',
+  name: 'beta',
+  syntax: {
+    latex: '\\operatorname{B}(#0, #1)',
+    normalized: 'beta(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Number, MathType.Number], output: MathType.Number },
+      { input: [MathType.Complex, MathType.Complex], output: MathType.Complex }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [a, b] = args;
+      if (isNumber(a) && isNumber(b)) {
+        return createNumber(beta(a.value, b.value));
+      }
+      return fromComplex(complexBeta(toComplex(a), toComplex(b)));
+    }
+  },
+  ui: {
+    description: 'Beta function B(a, b) = Γ(a)Γ(b)/Γ(a+b)',
+    category: KeyboardCategory.Special,
+    example: 'beta(2, 3) = 1/12'
+  }
+});
+
+// Lambert W, optionally on branch k
+registry.register({
+  id: 'lambertw',
+  name: 'lambertw',
+  syntax: {
+    latex: '\\operatorname{W}(#0)',
+    normalized: 'lambertw(#0)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Number], output: MathType.Number, symbolic: true },
+      { input: [MathType.Complex], output: MathType.Complex, symbolic: true },
+      { input: [MathType.Number, MathType.Number], output: MathType.Number },
+      { input: [MathType.Complex, MathType.Number], output: MathType.Complex }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [z, branchArg] = args;
+      const branch = branchArg ? numberArg('lambertw', branchArg) : 0;
+      if (isNumber(z) && Number.isInteger(branch) && lambertWIsReal(z.value, branch)) {
+        return createNumber(lambertW(z.value, branch));
+      }
+      return fromComplex(complexLambertW(toComplex(z), branch));
+    }
+  },
+  ui: {
+    description: 'Lambert W: the solution w of w·e^w = x; lambertw(x, k) selects branch k',
+    category: KeyboardCategory.Special,
+    example: 'lambertw(1) ≈ 0.5671'
+  }
+});
+
+// Elliptic integral of the second kind: complete E(m) or incomplete E(φ, m)
+registry.register({
+  id: 'ellipe',
+  name: 'ellipe',
+  syntax: {
+    latex: '\\operatorname{E}(#0)',
+    normalized: 'ellipe(#0)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Number], output: MathType.Number, symbolic: true },
+      { input: [MathType.Number, MathType.Number], output: MathType.Number }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      if (args.length === 1) {
+        return createNumber(ellipticE(numberArg('ellipe', args[0])));
+      }
+      return createNumber(ellipticEIncomplete(numberArg('ellipe', args[0]), numberArg('ellipe', args[1])));
+    }
+  },
+  ui: {
+    description: 'Elliptic integral of the second kind: E(m) complete, E(φ, m) incomplete',
+    category: KeyboardCategory.Special,
+    example: 'ellipe(0.5) ≈ 1.3506'
+  }
+});
+
+// Incomplete elliptic integral of the first kind
+registry.register({
+  id: 'ellipf',
+  name: 'ellipf',
+  syntax: {
+    latex: '\\operatorname{F}(#0, #1)',
+    normalized: 'ellipf(#0, #1)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Number, MathType.Number], output: MathType.Number }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [phi, m] = args;
+      return createNumber(ellipticF(numberArg('ellipf', phi), numberArg('ellipf', m)));
+    }
+  },
+  ui: {
+    description: 'Incomplete elliptic integral of the first kind F(φ, m)',
+    category: KeyboardCategory.Special,
+    example: 'ellipf(pi/2, 0.5) = ellipk(0.5)'
+  }
+});
@@ -0,0 +1,153 @@
+/**
+ * Symbolic algebra: simplify, expand, factor, solve, diff
+ *
+ * Every signature takes Expression arguments, which tells the evaluator to
+ * pass the argument ASTs unevaluated. Results are Expression values (solve
+ * returns a List of them) holding closed forms that can be displayed,
+ * nested in other commands or plotted.
+ */
+
+import { registry } from '../registry';
+import { MathType } from '../../types';
+import { RuntimeValue, createExpression, createList, isExpression } from '../../runtime/value';
+import { KeyboardCategory } from '../../keyboard/categories';
+import { ASTNode } from '../../parser';
+import { astToString } from '../../astToString';
+import { diffAST, expandAST, expressionVariables, factorAST, simplifyAST, solveAST } from '../../computation/symbolic';
+
+// Plotting re-evaluates a symbolic command at every sample; cache the closed forms
+const RESULT_CACHE_SIZE = 100;
+const resultCache = new Map<string, ASTNode | ASTNode[]>();
+
+function cached<T extends ASTNode | ASTNode[]>(key: string, compute: () => T): T {
+  const hit = resultCache.get(key);
+  if (hit) return hit as T;
+  const result = compute();
+  resultCache.set(key, result);
+  if (resultCache.size > RESULT_CACHE_SIZE) {
+    resultCache.delete(resultCache.keys().next().value);
+  }
+  return result;
+}
+
+const toExpression = (ast: ASTNode): RuntimeValue => createExpression(ast, expressionVariables(ast));
+
+function expressionArgs(name: string, args: RuntimeValue[]): ASTNode[] {
+  return args.map(arg => {
+    if (!isExpression(arg)) throw new Error(`${name} expects expressions`);
+    return arg.ast;
+  });
+}
+
+// The variable argument must be a bare name; without one, prefer x
+function variableArg(name: string, expression: ASTNode, variable?: ASTNode): string {
+  if (variable) {
+    if (variable.type !== 'variable') throw new Error(`${name} expects a variable name as its second argument`);
+    return String(variable.value);
+  }
+  const free = expressionVariables(expression);
+  return free.includes('x') || free.length === 0 ? 'x' : free[0];
+}
+
+function registerTransform(
+  id: string,
+  description: string,
+  example: string,
+  transform: (ast: ASTNode) => ASTNode
+) {
+  registry.register({
+    id,
+    name: id,
+    syntax: {
+      latex: `\\operatorname{${id}}(#0)`,
+      normalized: `${id}(#0)`,
+      insertTemplate: `${id}(#0)`
+    },
+    parse: {
+      type: 'function'
+    },
+    types: {
+      signatures: [
+        { input: [MathType.Expression], output: MathType.Expression }
+      ]
+    },
+    runtime: {
+      evaluate: (args) => {
+        const [ast] = expressionArgs(id, args);
+        return toExpression(cached(`${id}:${astToString(ast)}`, () => transform(ast)));
+      }
+    },
+    ui: {
+      description,
+      category: KeyboardCategory.Algebra,
+      example
+    }
+  });
+}
+
+registerTransform('simplify', 'Simplify an expression', 'simplify(x^2 + 2x + x^2)', simplifyAST);
+registerTransform('expand', 'Multiply out products and powers', 'expand((x+1)^3)', expandAST);
+registerTransform('factor', 'Factor a polynomial over the rationals', 'factor(x^3 - x)', factorAST);
+
+registry.register({
+  id: 'diff',
+  name: 'diff',
+  syntax: {
+    latex: '\\operatorname{diff}(#0, #1)',
+    normalized: 'diff(#0, #1)',
+    insertTemplate: 'diff(#0, x)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Expression], output: MathType.Expression },
+      { input: [MathType.Expression, MathType.Expression], output: MathType.Expression }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [ast, variableNode] = expressionArgs('diff', args);
+      const variable = variableArg('diff', ast, variableNode);
+      return toExpression(cached(`diff:${variable}:${astToString(ast)}`, () => diffAST(ast, variable)));
+    }
+  },
+  ui: {
+    description: 'Symbolic derivative as an expression',
+    category: KeyboardCategory.Algebra,
+    example: 'diff(x^3 sin(x), x)'
+  }
+});
+
+registry.register({
+  id: 'solve',
+  name: 'solve',
+  syntax: {
+    latex: '\\operatorname{solve}(#0, #1)',
+    normalized: 'solve(#0, #1)',
+    insertTemplate: 'solve(#0, x)'
+  },
+  parse: {
+    type: 'function'
+  },
+  types: {
+    signatures: [
+      { input: [MathType.Expression], output: MathType.List },
+      { input: [MathType.Expression, MathType.Expression], output: MathType.List }
+    ]
+  },
+  runtime: {
+    evaluate: (args) => {
+      const [equation, variableNode] = expressionArgs('solve', args);
+      const variable = variableArg('solve', equation, variableNode);
+      const roots = cached(`solve:${variable}:${astToString(equation)}`, () => solveAST(equation, variable));
+      return createList(roots.map(toExpression), MathType.Expression);
+    }
+  },
+  ui: {
+    description: 'Solve an equation for a variable',
+    category: KeyboardCategory.Algebra,
+    example: 'solve(x^2 - 2 = 0, x)'
+  }
+});
@@ -20,3 +20,9 @@ import './definitions/complex';
 import './definitions/point';
 import './definitions/signal';
 import './definitions/calculus';
+import './definitions/symbolic';
+import './definitions/special';
+import './definitions/matrix';
+import './definitions/distributions';
+import './definitions/ode';
+import './definitions/roots';
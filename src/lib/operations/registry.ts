@@ -47,7 +47,7 @@ import { DefinitionContext } from '../definitionContext';
  *   • Number ⊂ Complex: Any real number r can be represented as r + 0i (ℝ ⊂ ℂ)
  *   • Unknown matches anything: For flexibility during type inference
  */
-function isTypeCompatible(provided: MathType, expected: MathType): boolean {
+export function isTypeCompatible(provided: MathType, expected: MathType): boolean {
   if (provided === expected) return true;
   
   // Real numbers are a subset of complex numbers
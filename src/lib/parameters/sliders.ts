@@ -0,0 +1,237 @@
+// Interactive parameter sliders for free constants in the expression list
+
+import { DefinitionContext, RESERVED_NAMES, CONSTANTS, GREEK_NAMES, isImplicitRelation } from '../definitionContext';
+import { getBuiltinFunctions } from '../runtime/callables';
+import { validateExpression, ValidationError } from '../validation/expressionValidator';
+
+export type SliderPlaybackMode = 'loop' | 'bounce' | 'once';
+
+export interface ParameterSlider {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  playing: boolean;
+  mode: SliderPlaybackMode;
+  direction: 1 | -1;
+}
+
+export const DEFAULT_SLIDER: Omit<ParameterSlider, 'name'> = {
+  value: 1,
+  min: -10,
+  max: 10,
+  step: 0.1,
+  playing: false,
+  mode: 'loop',
+  direction: 1,
+};
+
+/** Time (ms) an animated slider takes to sweep its full range once. */
+export const SLIDER_SWEEP_MS = 4000;
+
+// Identifiers bound by samplers (e.g. parametric curves) never become sliders
+const SAMPLER_VARIABLES = new Set(['t']);
+
+const IDENTIFIER_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+const DEFINITION_LHS_PATTERN = /^([a-zA-Z][a-zA-Z0-9_]*)\s*(?:\([^)]*\))?\s*=/;
+
+export function isSliderCandidate(identifier: string): boolean {
+  if (!IDENTIFIER_PATTERN.test(identifier)) return false;
+  if (RESERVED_NAMES.includes(identifier) || identifier in CONSTANTS) return false;
+  if (SAMPLER_VARIABLES.has(identifier)) return false;
+  return !getBuiltinFunctions().has(identifier);
+}
+
+/**
+ * True when a validation error only reports a constant that a slider binds.
+ */
+export function isSliderBindableError(error: ValidationError): boolean {
+  return error.type === 'undefined_identifier' && !!error.identifier && isSliderCandidate(error.identifier);
+}
+
+function definedIdentifier(normalized: string): string | null {
+  const trimmed = normalized.trim();
+  if (!trimmed.includes('=') || isImplicitRelation(trimmed)) return null;
+  const match = trimmed.match(DEFINITION_LHS_PATTERN);
+  return match ? match[1] : null;
+}
+
+/**
+ * Collect the undefined constants referenced across the expression list, in
+ * order of first appearance. Identifiers that some expression defines (even
+ * if the definition is not a plain number) are skipped. An undefined run of
+ * letters is an implicit product, as the parser reads it once the sliders
+ * exist: mx gives the slider m, ab the sliders a and b.
+ */
+export function findFreeParameters(
+  expressions: Array<{ normalized: string }>,
+  context: DefinitionContext
+): string[] {
+  const defined = new Set<string>();
+  expressions.forEach(expr => {
+    const name = definedIdentifier(expr.normalized);
+    if (name) defined.add(name);
+  });
+
+  const found: string[] = [];
+  expressions.forEach(expr => {
+    validateExpression(expr.normalized, context).forEach(error => {
+      if (!isSliderBindableError(error)) return;
+      const identifier = error.identifier!;
+      const isProduct = /^[a-zA-Z]{2,}$/.test(identifier) && !GREEK_NAMES.includes(identifier) && !defined.has(identifier);
+      const names = isProduct ? Array.from(identifier) : [identifier];
+      names.forEach(name => {
+        if (!isSliderCandidate(name) || name in context.variables || defined.has(name) || found.includes(name)) return;
+        found.push(name);
+      });
+    });
+  });
+  return found;
+}
+
+export function createParameterSlider(
+  name: string,
+  overrides: Partial<Omit<ParameterSlider, 'name'>> = {}
+): ParameterSlider {
+  return normalizeSlider({ ...DEFAULT_SLIDER, ...overrides, name });
+}
+
+/**
+ * Keep bounds ordered, the step positive and the value inside [min, max].
+ */
+export function normalizeSlider(slider: ParameterSlider): ParameterSlider {
+  let min = Number.isFinite(slider.min) ? slider.min : DEFAULT_SLIDER.min;
+  let max = Number.isFinite(slider.max) ? slider.max : DEFAULT_SLIDER.max;
+  if (min > max) [min, max] = [max, min];
+  if (min === max) max = min + 1;
+  const step = Number.isFinite(slider.step) && slider.step > 0 ? slider.step : DEFAULT_SLIDER.step;
+  const raw = Number.isFinite(slider.value) ? slider.value : min;
+  return {
+    ...slider,
+    min,
+    max,
+    step,
+    value: Math.min(max, Math.max(min, raw)),
+  };
+}
+
+export function updateParameterSlider(
+  slider: ParameterSlider,
+  patch: Partial<Omit<ParameterSlider, 'name'>>
+): ParameterSlider {
+  return normalizeSlider({ ...slider, ...patch });
+}
+
+/**
+ * Sliders as saved between sessions, without `playing`: a reload never starts
+ * an animation by itself.
+ */
+export function serializeParameterSliders(sliders: ParameterSlider[]): string {
+  return JSON.stringify(sliders.map(({ playing: _playing, ...saved }) => saved));
+}
+
+/** Saved sliders, stopped and normalized; [] for anything unreadable. */
+export function parseParameterSliders(saved: string): ParameterSlider[] {
+  try {
+    const entries: unknown = JSON.parse(saved);
+    if (!Array.isArray(entries)) return [];
+    return entries
+      .filter((entry): entry is ParameterSlider => typeof entry?.name === 'string')
+      .map(entry => createParameterSlider(entry.name, { ...entry, playing: false }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add sliders for newly referenced parameters and drop the ones nothing
+ * references any more. Returns the input array when nothing changed so React
+ * state updates can bail out.
+ */
+export function syncParameterSliders(sliders: ParameterSlider[], names: string[]): ParameterSlider[] {
+  const wanted = new Set(names);
+  const kept = sliders.filter(slider => wanted.has(slider.name));
+  const existing = new Set(kept.map(slider => slider.name));
+  const added = names.filter(name => !existing.has(name)).map(name => createParameterSlider(name));
+  if (added.length === 0 && kept.length === sliders.length) {
+    return sliders;
+  }
+  return [...kept, ...added];
+}
+
+/**
+ * Advance a playing slider by the elapsed wall-clock time.
+ * - loop: wraps around to the opposite bound
+ * - bounce: reflects off the bounds and reverses direction
+ * - once: stops at the far bound
+ */
+export function advanceParameterSlider(slider: ParameterSlider, elapsedMs: number): ParameterSlider {
+  if (!slider.playing || elapsedMs <= 0) return slider;
+  const span = slider.max - slider.min;
+  const delta = (span * elapsedMs * slider.direction) / SLIDER_SWEEP_MS;
+  const next = slider.value + delta;
+
+  if (next >= slider.min && next <= slider.max) {
+    return { ...slider, value: next };
+  }
+
+  switch (slider.mode) {
+    case 'loop': {
+      const offset = (((next - slider.min) % span) + span) % span;
+      return { ...slider, value: slider.min + offset };
+    }
+    case 'bounce': {
+      const overshoot = next > slider.max ? next - slider.max : slider.min - next;
+      const reflected = Math.min(overshoot, span);
+      const direction = slider.direction === 1 ? -1 : 1;
+      const value = next > slider.max ? slider.max - reflected : slider.min + reflected;
+      return { ...slider, value, direction };
+    }
+    case 'once':
+    default:
+      return {
+        ...slider,
+        value: next > slider.max ? slider.max : slider.min,
+        playing: false,
+      };
+  }
+}
+
+function stepDecimals(step: number): number {
+  const text = String(step);
+  if (text.includes('e-')) {
+    return Number(text.split('e-')[1]);
+  }
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : text.length - dot - 1;
+}
+
+/**
+ * Format a slider value for the synthesized definition. Two digits finer than
+ * the step keeps animation smooth without emitting exponent notation, which
+ * the parser does not accept.
+ */
+export function formatSliderValue(slider: ParameterSlider): string {
+  const digits = Math.min(stepDecimals(slider.step) + 2, 10);
+  const fixed = slider.value.toFixed(digits);
+  const trimmed = fixed.includes('.') ? fixed.replace(/0+$/, '').replace(/\.$/, '') : fixed;
+  return trimmed === '-0' ? '0' : trimmed;
+}
+
+/**
+ * Definitions (`a = 1.5`) that bind each slider in the DefinitionContext. They
+ * are injected ahead of user expressions, the same way toolkit definitions are.
+ */
+export function parameterDefinitions(
+  sliders: ParameterSlider[]
+): Array<{ id: string; latex: string; normalized: string }> {
+  return sliders.map(slider => {
+    const definition = `${slider.name}=${formatSliderValue(slider)}`;
+    return {
+      id: `parameter-${slider.name}`,
+      latex: definition,
+      normalized: definition,
+    };
+  });
+}
@@ -1,24 +1,32 @@
 // Basic math expression parser for MVP
 // Supports: numbers, variables, basic operators, trig functions
 
-import { DefinitionContext } from './definitionContext';
+import { DefinitionContext, GREEK_NAMES } from './definitionContext';
 import { canCall } from './runtime/callables';
 import { registry } from './operations/registry';
+import { MathType } from './types';
+import { COMPREHENSION_FOR, CONNECTIVES } from './parser/tokenizer';
 
 export interface ASTNode {
-  type: 'number' | 'variable' | 'binary' | 'unary' | 'call' | 'list' | 'derivative' | 'partial';
+  type:
+    | 'number' | 'variable' | 'binary' | 'unary' | 'call' | 'list' | 'derivative' | 'partial' | 'integral' | 'member'
+    | 'range' | 'comprehension' | 'index';
   value?: number | string;
   operator?: string;
-  left?: ASTNode;
-  right?: ASTNode;
-  name?: string;
+  left?: ASTNode;       // For index: the list
+  right?: ASTNode;      // For index: the position, positions or mask; for comprehension: the list iterated over
+  name?: string;        // For call: function name; for member: the coordinate (x, y or z)
   args?: ASTNode[];
-  elements?: ASTNode[]; // For list type
-  variable?: string;    // For derivative/partial: variable name
-  operand?: ASTNode;    // For derivative/partial: expression to differentiate
+  elements?: ASTNode[]; // For list type; for range: the terms before the ellipsis
+  tuple?: boolean;      // For list: written in parentheses, so (x, y) is a point and [x, y] a list
+  variable?: string;    // For derivative/partial/integral/comprehension: variable name
+  operand?: ASTNode;    // For derivative/partial: expression to differentiate; for integral: integrand; for member: the point; for comprehension: the element
+  lower?: ASTNode;      // For integral: lower bound
+  upper?: ASTNode;      // For integral: upper bound; for range: the last term
 }
 
 const FUNCTIONS = Array.from(registry.getBuiltinFunctions());
+const AXIS_VARIABLES = ['x', 'y', 'z'];
 
 class Parser {
   private input: string;
@@ -42,7 +50,7 @@ class Parser {
   private parseLogicalOr(): ASTNode {
     let left = this.parseLogicalAnd();
 
-    while (this.matchKeyword("or")) {
+    while (this.matchConnective("or")) {
       const right = this.parseLogicalAnd();
       left = { type: "binary", operator: "or", left, right };
     }
@@ -53,7 +61,7 @@ class Parser {
   private parseLogicalAnd(): ASTNode {
     let left = this.parseComparison();
 
-    while (this.matchKeyword("and")) {
+    while (this.matchConnective("and")) {
       const right = this.parseComparison();
       left = { type: "binary", operator: "and", left, right };
     }
@@ -129,6 +137,24 @@ class Parser {
     return true;
   }
 
+  // `and` / `or`, or the ∧ / ∨ they normalize to
+  private matchConnective(keyword: 'and' | 'or'): boolean {
+    if (this.startsWith(CONNECTIVES[keyword])) {
+      this.pos += 1;
+      return true;
+    }
+    return this.matchKeyword(keyword);
+  }
+
+  private atConnective(): boolean {
+    return (
+      this.startsWith(CONNECTIVES.and) ||
+      this.startsWith(CONNECTIVES.or) ||
+      this.isKeywordAtPosition('and') ||
+      this.isKeywordAtPosition('or')
+    );
+  }
+
   private parseAddSub(): ASTNode {
     let left = this.parseMulDiv();
 
@@ -152,7 +178,7 @@ class Parser {
         const right = this.parsePower();
         left = { type: 'binary', operator, left, right };
       }
-      else if (this.isKeywordAtPosition('and') || this.isKeywordAtPosition('or')) {
+      else if (this.atConnective()) {
         break;
       }
       else if (this.startsImplicitMultiplication()) {
@@ -173,6 +199,10 @@ class Parser {
     if (this.peek() === '^') {
       this.consume();
       const right = this.parsePower(); // Right associative
+      // A^T is the transpose of a matrix name, unless T is itself defined
+      if (this.isMatrixName(left) && right.type === 'variable' && right.value === 'T' && !('T' in this.context!.variables)) {
+        return { type: 'call', name: 'transpose', args: [left] };
+      }
       return { type: 'binary', operator: '^', left, right };
     }
 
@@ -195,6 +225,24 @@ class Parser {
   }
 
   private parsePrimary(): ASTNode {
+    let node = this.parseAtom();
+    // Coordinate access p.x, f(t).y and indexing L[2], L[2...5], L[L > 0];
+    // a bracket after a number is still a product, 2[1, 2]
+    while (true) {
+      if (this.startsMemberAccess()) {
+        this.consume(); // '.'
+        node = { type: 'member', operand: node, name: this.consume() };
+      } else if (this.peek() === '[' && node.type !== 'number') {
+        const index = this.parseBrackets();
+        const single = index.type === 'list' && index.elements!.length === 1;
+        node = { type: 'index', left: node, right: single ? index.elements![0] : index };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseAtom(): ASTNode {
     // === DERIVATIVE OPERATORS ===
     const derivativePrefix = this.matchPrefix(['d/d{']);
     if (derivativePrefix) {
@@ -205,29 +253,20 @@ class Parser {
     if (partialPrefix) {
       return this.parseDerivativeOperator('partial', partialPrefix);
     }
-    
+
+    // === DEFINITE INTEGRAL: int{x,a,b}(body) ===
+    if (this.startsWith('int{')) {
+      return this.parseIntegral();
+    }
     
     // Number
     if (this.isDigit(this.peek()) || this.peek() === '.') {
       return this.parseNumber();
     }
 
-    // List literals: [1, 2, 3]
+    // List literals, ranges and comprehensions
     if (this.peek() === '[') {
-      this.consume(); // '['
-      const elements: ASTNode[] = [];
-      
-      if (this.peek() !== ']') {
-        elements.push(this.parseExpression());
-        while (this.peek() === ',') {
-          this.consume(); // ','
-          if (this.peek() === ']') break; // Allow trailing comma
-          elements.push(this.parseExpression());
-        }
-      }
-      
-      this.expect(']');
-      return { type: 'list', elements };
+      return this.parseBrackets();
     }
 
     // Parentheses or Point literals
@@ -250,7 +289,7 @@ class Parser {
         
         // Convert to list-like representation for points
         // 2D point: 2 components, 3D point: 3 components
-        return { type: 'list', elements: components };
+        return { type: 'list', elements: components, tuple: true };
       }
       
       // Just a parenthesized expression
@@ -266,9 +305,59 @@ class Parser {
     throw new Error(`Unexpected character: ${this.peek()}`);
   }
 
+  /**
+   * [1, 2, 3], the ranges [1...10] and [a, a+h, ..., b], and the
+   * comprehension [f(k) for k ∈ L] (written `for k = L` in the editor)
+   */
+  private parseBrackets(): ASTNode {
+    this.expect('[');
+    const elements: ASTNode[] = [];
+    if (this.peek() === ']') {
+      this.consume();
+      return { type: 'list', elements };
+    }
+
+    elements.push(this.parseExpression());
+    const variable = this.comprehensionVariable();
+    if (variable) {
+      this.pos += variable.clause.length;
+      const source = this.parseExpression();
+      this.expect(']');
+      return { type: 'comprehension', operand: elements[0], variable: variable.name, right: source };
+    }
+
+    while (this.peek() === ',' || this.startsWith('...')) {
+      if (this.peek() === ',') this.consume();
+      if (this.startsWith('...')) {
+        this.pos += 3;
+        if (this.peek() === ',') this.consume();
+        if (elements.length > 2) {
+          throw new Error('A range takes one or two terms before the ellipsis');
+        }
+        const upper = this.parseExpression();
+        this.expect(']');
+        return { type: 'range', elements, upper };
+      }
+      if (this.peek() === ']') break; // Allow trailing comma
+      elements.push(this.parseExpression());
+    }
+
+    this.expect(']');
+    return { type: 'list', elements };
+  }
+
+  // 'for' (or the | it normalizes to), the variable and ∈ (or a single =): the clause of [k^2 for k ∈ L]
+  private comprehensionVariable(): { name: string; clause: string } | null {
+    const rest = this.input.slice(this.pos);
+    const keyword = rest.startsWith(COMPREHENSION_FOR) ? COMPREHENSION_FOR : 'for';
+    const match = rest.slice(keyword.length).match(/^([a-zA-Z_][a-zA-Z0-9_]*)(?:∈|=(?!=))/);
+    return rest.startsWith(keyword) && match ? { name: match[1], clause: keyword + match[0] } : null;
+  }
+
   private parseNumber(): ASTNode {
     let num = '';
-    while (this.isDigit(this.peek()) || this.peek() === '.') {
+    // A second dot starts an ellipsis: [1...10]
+    while (this.isDigit(this.peek()) || (this.peek() === '.' && this.input[this.pos + 1] !== '.')) {
       num += this.consume();
     }
     return { type: 'number', value: parseFloat(num) };
@@ -280,6 +369,14 @@ class Parser {
       name += this.consume();
     }
 
+    // An undefined run of single-letter names is an implicit product: with
+    // sliders m and c, mx + c is m*x + c. Only its first letter is taken here;
+    // the rest parses as the following factors, so ax^2 is a*x^2.
+    if (this.isImplicitProduct(name)) {
+      this.pos -= name.length - 1;
+      name = name[0];
+    }
+
     // Handle imaginary unit 'i'
     if (name === 'i') {
       return { type: 'variable', value: 'i' };
@@ -302,6 +399,9 @@ class Parser {
         }
         
         this.expect(')');
+        if (name === 'integrate') {
+          return this.integrateCallToIntegral(args);
+        }
         return { type: 'call', name, args };
       } else {
         // Non-callable type: return variable, let parseMulDiv handle '(' as multiplication
@@ -358,6 +458,22 @@ class Parser {
     return this.input.startsWith(sequence, this.pos);
   }
 
+  // '.' then a lone x, y or z; anything longer is a number or a product
+  private startsMemberAccess(): boolean {
+    const [dot, coordinate, next] = [this.peek(), this.input[this.pos + 1] ?? '', this.input[this.pos + 2] ?? ''];
+    return dot === '.' && /^[xyz]$/.test(coordinate) && !this.isIdentifierStart(next) && !this.isDigit(next);
+  }
+
+  private isMatrixName(node: ASTNode): boolean {
+    return node.type === 'variable' && this.context?.types[String(node.value)]?.type === MathType.Matrix;
+  }
+
+  private isImplicitProduct(name: string): boolean {
+    if (!this.context || name.length < 2 || !/^[a-zA-Z]+$/.test(name) || GREEK_NAMES.includes(name)) return false;
+    if (name in this.context.variables || canCall(name, this.context) || FUNCTIONS.includes(name)) return false;
+    return Array.from(name).every(letter => letter in this.context!.variables || AXIS_VARIABLES.includes(letter));
+  }
+
   private startsImplicitMultiplication(): boolean {
     const ch = this.peek();
     if (!ch) return false;
@@ -370,6 +486,7 @@ class Parser {
     }
     if (remaining.startsWith('or') && this.isKeywordAtPosition('or')) return false;
     if (remaining.startsWith('not') && this.isKeywordAtPosition('not')) return false;
+    if (this.startsWith('..') || this.comprehensionVariable()) return false;
 
     if (ch === '(' || ch === '[') return true;
     if (this.isIdentifierStart(ch)) return true;
@@ -415,6 +532,55 @@ class Parser {
       operand
     };
   }
+
+  private parseIntegral(): ASTNode {
+    this.pos += 'int{'.length;
+
+    let variable = '';
+    while (this.isIdentifierStart(this.peek()) || this.isDigit(this.peek())) {
+      variable += this.consume();
+    }
+    if (!variable) {
+      throw new Error('integral missing variable name');
+    }
+
+    this.expect(',');
+    const lower = this.parseExpression();
+    this.expect(',');
+    const upper = this.parseExpression();
+    this.expect('}');
+
+    let operand: ASTNode;
+    if (this.peek() === '(') {
+      this.consume();
+      operand = this.parseExpression();
+      this.expect(')');
+    } else {
+      operand = this.parsePower();
+    }
+
+    return { type: 'integral', variable, lower, upper, operand };
+  }
+
+  /**
+   * integrate(f, a, b) integrates over x (a bare function name f means f(x));
+   * integrate(expr, t, a, b) names the variable explicitly.
+   */
+  private integrateCallToIntegral(args: ASTNode[]): ASTNode {
+    if (args.length === 3) {
+      const [integrand, lower, upper] = args;
+      const name = integrand.type === 'variable' ? String(integrand.value) : '';
+      const operand: ASTNode = this.context?.functions && name in this.context.functions
+        ? { type: 'call', name, args: [{ type: 'variable', value: 'x' }] }
+        : integrand;
+      return { type: 'integral', variable: 'x', lower, upper, operand };
+    }
+    if (args.length === 4 && args[1].type === 'variable') {
+      const [operand, variable, lower, upper] = args;
+      return { type: 'integral', variable: String(variable.value), lower, upper, operand };
+    }
+    throw new Error('integrate expects (f, a, b) or (expression, variable, a, b)');
+  }
 }
 
 export function parseExpression(input: string, context?: DefinitionContext): ASTNode {
@@ -69,7 +69,16 @@ class DefaultTokenizerState implements TokenizerState {
   }
 }
 
-const MULTI_CHAR_OPERATORS = ['<=', '>=', '==', '!='];
+const MULTI_CHAR_OPERATORS = ['<=', '>=', '==', '!=', '...'];
+
+/**
+ * The symbols `and` / `or` are written as once tokens are joined back into
+ * text: x > 0 and y < 1 would otherwise run together as x>0andy<1.
+ */
+export const CONNECTIVES = { and: '∧', or: '∨' } as const;
+
+/** Likewise the `for` of a comprehension: [k for k ∈ L] is written [k|k∈L], not [kfork∈L] */
+export const COMPREHENSION_FOR = '|';
 
 export function tokenize(source: string): Token[] {
   const state = new DefaultTokenizerState(source);
@@ -174,7 +183,8 @@ function readNumber(state: DefaultTokenizerState): Token {
 
   while (state.position < state.length) {
     const char = state.peek();
-    if (char === '.' && !hasDot) {
+    // A second dot starts an ellipsis: 1...10
+    if (char === '.' && !hasDot && state.peek(1) !== '.') {
       hasDot = true;
       state.advance();
       continue;
@@ -209,7 +219,7 @@ function readIdentifier(state: DefaultTokenizerState): Token {
       end: state.position,
     };
   }
-  if (value === 'and' || value === 'or' || value === 'not') {
+  if (value === 'and' || value === 'or' || value === 'not' || value === 'for') {
     return {
       type: TokenType.Operator,
       value,
@@ -288,10 +298,18 @@ function insertImplicitMultiplication(tokens: Token[]): Token[] {
       current.type === TokenType.Identifier && next.type === TokenType.ParenthesisOpen;
     const consecutiveIdentifiers =
       current.type === TokenType.Identifier && next.type === TokenType.Identifier;
+    // Braces only appear in operator prefixes such as d/d{x}(...) and int{x,a,b}(...)
+    const operatorBraces =
+      (current.type === TokenType.Identifier && next.type === TokenType.BraceOpen) ||
+      current.type === TokenType.BraceClose;
+    // L[2], f(x)[1] and [1, 2][1] index; only a number before a bracket multiplies
+    const indexing = next.type === TokenType.BracketOpen && current.type !== TokenType.Number;
 
     if (
       !identifierBeforeCall &&
       !consecutiveIdentifiers &&
+      !operatorBraces &&
+      !indexing &&
       isAtomToken(current) &&
       startsAtom(next)
     ) {
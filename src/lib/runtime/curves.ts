@@ -0,0 +1,149 @@
+// Polar curves r = f(θ) and parametric curves (x(t), y(t)) on the 2D graph.
+// Either may end in a domain, `θ ∈ [a, b]` or `t ∈ [a, b]` (normalized to
+// `,theta∈[a,b]` / `,t∈[a,b]`); both default to one turn, [0, 2π].
+
+import { parseExpression } from '../parser';
+import { DefinitionContext } from '../definitionContext';
+import { polarSpace } from '../computation/spaces';
+import { isNumber, isPoint, vectorEntries } from './value';
+import { evaluate } from './evaluator';
+
+export type CurvePoint = { x: number; y: number };
+
+/** A point of the curve for each parameter value; null where it is undefined */
+export type ParametricFunction = (t: number) => CurvePoint | null;
+
+export interface ParametricCurve {
+  f: ParametricFunction;
+  domain: [number, number];
+}
+
+const { min: THETA_MIN, max: THETA_MAX } = polarSpace.defaultBounds.theta;
+
+// Subdivisions of the domain before any refinement, and how often a segment may be halved
+const INITIAL_SEGMENTS = 96;
+const MAX_DEPTH = 12;
+// A segment is split while the curve turns by more than this at its midpoint (radians)
+const MAX_TURN = 0.08;
+// Never produce more points than this, however wild the curve
+const MAX_POINTS = 20000;
+
+// Split the domain suffix off an entry
+function splitDomain(
+  normalized: string,
+  variable: string,
+  context?: DefinitionContext
+): { body: string; domain: [number, number] } {
+  const match = normalized.trim().match(new RegExp(`^(.*),${variable}∈(\\[.*\\])$`));
+  if (!match) return { body: normalized.trim(), domain: [THETA_MIN, THETA_MAX] };
+  const bounds = vectorEntries(evaluate(parseExpression(match[2], context), {}, context));
+  if (!bounds || bounds.length !== 2 || !(bounds[0] < bounds[1])) {
+    throw new Error(`The domain of ${variable} must be an interval [a, b] with a < b`);
+  }
+  return { body: match[1], domain: [bounds[0], bounds[1]] };
+}
+
+/** r = f(θ), traced through polarSpace as θ runs over its domain */
+export function polarCurve(normalized: string, context?: DefinitionContext): ParametricCurve {
+  const { body, domain } = splitDomain(normalized, 'theta', context);
+  const radius = parseExpression(body.slice(body.indexOf('=') + 1).trim(), context);
+  const f: ParametricFunction = theta => {
+    try {
+      const r = evaluate(radius, { theta }, context);
+      if (!isNumber(r)) return null;
+      const { x, y } = polarSpace.toCartesian({ r: r.value, theta });
+      return { x, y };
+    } catch {
+      return null;
+    }
+  };
+  return { f, domain };
+}
+
+/** (x(t), y(t)) as t runs over its domain */
+export function parametricCurve(normalized: string, context?: DefinitionContext): ParametricCurve {
+  const { body, domain } = splitDomain(normalized, 't', context);
+  const ast = parseExpression(body, context);
+  if (ast.type !== 'list' || !ast.tuple || ast.elements!.length !== 2) {
+    throw new Error('A parametric curve is a pair (x(t), y(t))');
+  }
+  const f: ParametricFunction = t => {
+    try {
+      const point = evaluate(ast, { t }, context);
+      return isPoint(point) ? { x: point.x, y: point.y } : null;
+    } catch {
+      return null;
+    }
+  };
+  return { f, domain };
+}
+
+const usable = (point: CurvePoint | null): point is CurvePoint =>
+  point !== null && Number.isFinite(point.x) && Number.isFinite(point.y);
+
+/**
+ * Sample a curve as polylines, subdividing segments where it bends: the
+ * turn at a segment's midpoint grows with curvature × length, so tight
+ * loops and cusps get more points than straight runs. Segments shorter than
+ * `tolerance` are left alone. Undefined stretches and jumps (a segment still
+ * longer than 64 × tolerance after every halving) break the polyline.
+ */
+export function sampleCurve(
+  { f, domain: [a, b] }: ParametricCurve,
+  tolerance: number
+): CurvePoint[][] {
+  const paths: CurvePoint[][] = [];
+  let current: CurvePoint[] = [];
+  let count = 0;
+  const emit = (point: CurvePoint | null) => {
+    if (usable(point)) {
+      current.push(point);
+      count++;
+      return;
+    }
+    if (current.length > 1) paths.push(current);
+    current = [];
+  };
+  const at = (t: number) => {
+    const point = f(t);
+    return usable(point) ? point : null;
+  };
+  const smooth = (p0: CurvePoint, pm: CurvePoint, p1: CurvePoint) => {
+    if (Math.hypot(p1.x - p0.x, p1.y - p0.y) < tolerance) return true;
+    const turn = Math.abs(
+      Math.atan2(
+        (pm.x - p0.x) * (p1.y - pm.y) - (pm.y - p0.y) * (p1.x - pm.x),
+        (pm.x - p0.x) * (p1.x - pm.x) + (pm.y - p0.y) * (p1.y - pm.y)
+      )
+    );
+    return turn <= MAX_TURN;
+  };
+
+  // Emit the points strictly between (t0, p0) and (t1, p1)
+  const refine = (t0: number, p0: CurvePoint | null, t1: number, p1: CurvePoint | null, depth: number) => {
+    if (depth >= MAX_DEPTH || count >= MAX_POINTS) {
+      if (p0 && p1 && Math.hypot(p1.x - p0.x, p1.y - p0.y) > 64 * tolerance) emit(null);
+      return;
+    }
+    const tm = (t0 + t1) / 2;
+    const pm = at(tm);
+    if (p0 && pm && p1 && smooth(p0, pm, p1)) return;
+    if (!p0 && !pm && !p1) return;
+    refine(t0, p0, tm, pm, depth + 1);
+    emit(pm);
+    refine(tm, pm, t1, p1, depth + 1);
+  };
+
+  let t0 = a;
+  let p0 = at(a);
+  emit(p0);
+  for (let i = 1; i <= INITIAL_SEGMENTS; i++) {
+    const t1 = a + ((b - a) * i) / INITIAL_SEGMENTS;
+    const p1 = at(t1);
+    refine(t0, p0, t1, p1, 0);
+    emit(p1);
+    [t0, p0] = [t1, p1];
+  }
+  emit(null);
+  return paths;
+}
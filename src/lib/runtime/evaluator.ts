@@ -1,14 +1,15 @@
 // Type-aware expression evaluator using operator overloading
 
 import { ASTNode } from '../parser';
-import { DefinitionContext, FunctionDefinition } from '../definitionContext';
-import { RuntimeValue, createNumber, createComplex, createFunction, kindToMathType, isNumber, isBoolean, createBoolean, createList, createPoint, createPoint3D } from './value';
+import { CONSTANTS, DefinitionContext, FunctionDefinition } from '../definitionContext';
+import { Bindings, RuntimeValue, createNumber, createComplex, createFunction, createExpression, kindToMathType, isNumber, isBoolean, isExpression, isList, createBoolean, createList, createPoint, createPoint3D, createMatrix, isDistribution } from './value';
 import { getOperator } from './operators';
-import { registry } from '../operations/registry';
+import { isTypeCompatible, registry } from '../operations/registry';
 import { evaluateConditional } from './functions';
 import './higherOrderFunctions'; // Initialize higher-order functions
 import { symbolicDerivativeAST, symbolicPartialAST } from '../computation/symbolic';
 import { hasUnboundVariables } from './variableDetector';
+import { createRange, indexList } from './lists';
 import { MathType } from '../types';
 
 // Helper to extract variable names from an AST node
@@ -45,6 +46,32 @@ function extractVariables(node: ASTNode, context?: DefinitionContext): string[]
         // Don't include the differentiation variable
         if (n.operand) walk(n.operand);
         break;
+      case 'member':
+        walk(n.operand!);
+        break;
+      case 'range':
+        n.elements?.forEach(walk);
+        walk(n.upper!);
+        break;
+      case 'index':
+        walk(n.left!);
+        walk(n.right!);
+        break;
+      case 'comprehension': {
+        // The comprehension variable is bound inside the element only
+        walk(n.right!);
+        const inner = extractVariables(n.operand!, context).filter(name => name !== n.variable);
+        inner.forEach(name => vars.add(name));
+        break;
+      }
+      case 'integral': {
+        // The integration variable is bound inside the integrand only
+        walk(n.lower!);
+        walk(n.upper!);
+        const inner = extractVariables(n.operand!, context).filter(name => name !== n.variable);
+        inner.forEach(name => vars.add(name));
+        break;
+      }
     }
   }
   
@@ -55,7 +82,7 @@ function extractVariables(node: ASTNode, context?: DefinitionContext): string[]
 
 export function evaluate(
   node: ASTNode,
-  variables: Record<string, number>,
+  variables: Bindings,
   context?: DefinitionContext
 ): RuntimeValue {
   switch (node.type) {
@@ -66,21 +93,46 @@ export function evaluate(
       const elements = node.elements!.map(elem => evaluate(elem, variables, context));
       
       // Check if this is a point literal (tuple of numbers)
-      if (elements.length === 2 && elements.every(isNumber)) {
+      if (node.tuple && elements.length === 2 && elements.every(isNumber)) {
         return createPoint(elements[0].value, elements[1].value);
       }
-      if (elements.length === 3 && elements.every(isNumber)) {
+      if (node.tuple && elements.length === 3 && elements.every(isNumber)) {
         return createPoint3D(elements[0].value, elements[1].value, elements[2].value);
       }
       
       return createList(elements);
 
+    case 'range': {
+      const terms = [...node.elements!, node.upper!].map(term => {
+        const value = evaluate(term, variables, context);
+        if (!isNumber(value)) throw new Error(`Range terms must be numbers, got ${value.kind}`);
+        return value.value;
+      });
+      return createRange(terms.slice(0, -1), terms[terms.length - 1]);
+    }
+
+    case 'comprehension': {
+      const source = evaluate(node.right!, variables, context);
+      if (!isList(source)) {
+        throw new Error(`${node.variable} must run over a List, got ${source.kind}`);
+      }
+      return createList(
+        source.elements.map(element =>
+          evaluate(node.operand!, { ...variables, [node.variable!]: isNumber(element) ? element.value : element }, context)
+        )
+      );
+    }
+
+    case 'index':
+      return indexList(evaluate(node.left!, variables, context), evaluate(node.right!, variables, context));
+
     case 'variable':
       const varName = node.value as string;
       
       // Check local variables first (e.g., x, y in function evaluation)
       if (varName in variables) {
-        return createNumber(variables[varName]);
+        const bound = variables[varName];
+        return typeof bound === 'number' ? createNumber(bound) : bound;
       }
       
       // Check context variables (defined constants or list ASTs)
@@ -126,13 +178,7 @@ export function evaluate(
       const operand = evaluate(node.right!, variables, context);
 
       if (node.operator === '-') {
-        if (operand.kind === 'number') {
-          return createNumber(-operand.value);
-        }
-        if (operand.kind === 'complex') {
-          return createComplex(-operand.real, -operand.imag);
-        }
-        throw new Error(`Unary minus not supported for ${operand.kind}`);
+        return negate(operand);
       }
 
       if (node.operator === 'not') {
@@ -154,6 +200,20 @@ export function evaluate(
     case 'partial':
       return evaluatePartial(node, variables, context);
 
+    case 'member': {
+      const value = evaluate(node.operand!, variables, context);
+      const coordinate = node.name as 'x' | 'y' | 'z';
+      if ((value.kind === 'point' && coordinate !== 'z') || value.kind === 'point3d' || value.kind === 'vector3d') {
+        return createNumber(value[coordinate]);
+      }
+      throw new Error(`.${coordinate} needs a ${coordinate === 'z' ? 'Point3D' : 'Point'}, got ${value.kind}`);
+    }
+
+    case 'integral': {
+      const { integrand, lower, upper } = integralArguments(node, variables, context);
+      return registry.execute('integrate', [integrand, createNumber(lower), createNumber(upper)], context);
+    }
+
     case 'call':
       // Special handling for if(condition, trueValue, falseValue)
       if (node.name === 'if' && node.args && node.args.length === 3) {
@@ -222,15 +282,7 @@ export function evaluate(
         if (node.args.length === funcDef.params.length) {
           // Full application - all parameters provided
           const argValues = node.args.map(arg => evaluate(arg, variables, context));
-          
-          // Check all arguments are numbers
-          const paramBindings: Record<string, number> = {};
-          funcDef.params.forEach((param, i) => {
-            if (!isNumber(argValues[i])) {
-              throw new Error(`Function ${node.name} expects Number arguments`);
-            }
-            paramBindings[param] = argValues[i].value;
-          });
+          const paramBindings = bindParameters(funcDef, argValues);
           
           // Evaluate function body with all parameters bound
           const result = evaluate(funcDef.body, paramBindings, context);
@@ -242,14 +294,7 @@ export function evaluate(
           const argValues = node.args.map(arg => evaluate(arg, variables, context));
           
           // Bind provided arguments
-          const boundParams: Record<string, number> = {};
-          for (let i = 0; i < node.args.length; i++) {
-            const argVal = argValues[i];
-            if (!isNumber(argVal)) {
-              throw new Error(`Function ${node.name} expects Number arguments`);
-            }
-            boundParams[funcDef.params[i]] = argVal.value;
-          }
+          const boundParams = bindParameters(funcDef, argValues);
           
           // Return a partially applied function
           // For now, evaluate with bound params and remaining params from variables
@@ -260,10 +305,23 @@ export function evaluate(
         throw new Error(`Function ${node.name} expects ${funcDef.params.length} argument(s), got ${node.args.length}`);
       }
       
+      // Distribution-valued variable: X(x) is its density (mass) at x
+      if (context?.types[node.name!]?.type === MathType.Distribution && node.name! in context.variables) {
+        const distribution = evaluate({ type: 'variable', value: node.name }, variables, context);
+        if (node.args?.length !== 1 || !isDistribution(distribution)) {
+          throw new Error(`${node.name} expects one argument`);
+        }
+        return registry.execute('pdf', [distribution, evaluate(node.args[0], variables, context)], context);
+      }
+
       // Built-in function
       if (!node.args || node.args.length === 0) {
         throw new Error(`Function ${node.name} requires arguments`);
       }
+
+      if (isSymbolicCall(node)) {
+        return evaluateSymbolicCall(node, variables, context);
+      }
       
       if (node.args.length === 1) {
         const argNode = node.args[0];
@@ -298,6 +356,23 @@ export function evaluate(
   }
 }
 
+// Unary minus; lists negate element-wise
+function negate(operand: RuntimeValue): RuntimeValue {
+  if (operand.kind === 'number') {
+    return createNumber(-operand.value);
+  }
+  if (operand.kind === 'complex') {
+    return createComplex(-operand.real, -operand.imag);
+  }
+  if (operand.kind === 'matrix') {
+    return createMatrix(operand.rows.map(row => row.map(value => -value)));
+  }
+  if (operand.kind === 'list') {
+    return createList(operand.elements.map(negate));
+  }
+  throw new Error(`Unary minus not supported for ${operand.kind}`);
+}
+
 // Helper to evaluate and extract number (for backward compatibility with graphing)
 export function evaluateToNumber(
   node: ASTNode,
@@ -313,9 +388,133 @@ export function evaluateToNumber(
   return result.value;
 }
 
+/**
+ * Resolve an integral node's bounds and wrap its integrand as a function of
+ * the integration variable that closes over the current variables.
+ */
+export function integralArguments(
+  node: ASTNode,
+  variables: Bindings,
+  context?: DefinitionContext
+): { integrand: RuntimeValue; lower: number; upper: number } {
+  const bound = (bound: ASTNode, which: string) => {
+    const value = evaluate(bound, variables, context);
+    if (!isNumber(value)) {
+      throw new Error(`Integral ${which} bound must be a number, got ${value.kind}`);
+    }
+    return value.value;
+  };
+  const integrand = createFunction({ name: `∫d${node.variable}`, params: [node.variable], body: node.operand! }, { ...variables });
+  return { integrand, lower: bound(node.lower!, 'lower'), upper: bound(node.upper!, 'upper') };
+}
+
+/**
+ * Bind arguments to a user function's parameters, checking each against the
+ * parameter's inferred type (Number when the definition doesn't say).
+ */
+function bindParameters(def: FunctionDefinition, args: RuntimeValue[]): Bindings {
+  const bindings: Bindings = {};
+  args.forEach((arg, i) => {
+    const param = def.params[i];
+    const expected = def.paramTypes?.[i] ?? MathType.Number;
+    const provided = kindToMathType(arg.kind);
+    if (!isTypeCompatible(provided, expected)) {
+      throw new Error(`Function ${def.name} expects a ${expected} for ${param}, got ${provided}`);
+    }
+    bindings[param] = isNumber(arg) ? arg.value : arg;
+  });
+  return bindings;
+}
+
+// Symbolic commands (simplify, solve, ...) declare Expression parameters
+function isSymbolicCall(node: ASTNode): boolean {
+  return node.type === 'call' && !!node.args?.length &&
+    !!registry.findSignature(node.name!, node.args.map(() => MathType.Expression));
+}
+
+/**
+ * Run a symbolic command on its unevaluated arguments. When every free
+ * variable of the resulting expression is bound (x while plotting), the
+ * closed form is evaluated so the command plots like any other function.
+ */
+function evaluateSymbolicCall(
+  node: ASTNode,
+  variables: Bindings,
+  context?: DefinitionContext
+): RuntimeValue {
+  const args = node.args!.map(arg => {
+    const ast = quoteExpression(arg, context);
+    return createExpression(ast, extractVariables(ast, context));
+  });
+  const result = registry.execute(node.name!, args, context);
+  if (isExpression(result) && result.variables.length > 0 && result.variables.every(name => name in variables)) {
+    return evaluate(result.ast, variables, context);
+  }
+  return result;
+}
+
+/**
+ * Prepare an argument of a symbolic command: nested symbolic commands are
+ * run, user functions are inlined and defined constants substituted, so the
+ * expression only refers to its free variables.
+ */
+function quoteExpression(node: ASTNode, context?: DefinitionContext): ASTNode {
+  switch (node.type) {
+    case 'variable': {
+      const name = String(node.value);
+      const value = context?.variables?.[name];
+      return typeof value === 'number' && !(name in CONSTANTS) ? { type: 'number', value } : node;
+    }
+    case 'binary':
+      return { ...node, left: quoteExpression(node.left!, context), right: quoteExpression(node.right!, context) };
+    case 'unary':
+      return { ...node, right: quoteExpression(node.right!, context) };
+    case 'list':
+      return { ...node, elements: node.elements!.map(element => quoteExpression(element, context)) };
+    case 'derivative':
+    case 'partial':
+      return symbolicDerivativeAST(quoteExpression(node.operand!, context), node.variable!);
+    case 'member':
+      return { ...node, operand: quoteExpression(node.operand!, context) };
+    case 'call': {
+      if (isSymbolicCall(node)) {
+        const result = evaluateSymbolicCall(node, {}, context);
+        if (isExpression(result)) return result.ast;
+        if (isNumber(result)) return { type: 'number', value: result.value };
+        throw new Error(`${node.name}(...) cannot be used inside another expression`);
+      }
+      const args = node.args!.map(arg => quoteExpression(arg, context));
+      const definition = context?.functions?.[node.name!];
+      if (definition && definition.params.length === args.length) {
+        const bindings = Object.fromEntries(definition.params.map((param, i) => [param, args[i]]));
+        return quoteExpression(substituteVariables(definition.body, bindings), context);
+      }
+      return { ...node, args };
+    }
+    default:
+      return node;
+  }
+}
+
+function substituteVariables(node: ASTNode, bindings: Record<string, ASTNode>): ASTNode {
+  if (node.type === 'variable' && String(node.value) in bindings) {
+    return bindings[String(node.value)];
+  }
+  return {
+    ...node,
+    left: node.left && substituteVariables(node.left, bindings),
+    right: node.right && substituteVariables(node.right, bindings),
+    operand: node.operand && substituteVariables(node.operand, bindings),
+    lower: node.lower && substituteVariables(node.lower, bindings),
+    upper: node.upper && substituteVariables(node.upper, bindings),
+    args: node.args?.map(arg => substituteVariables(arg, bindings)),
+    elements: node.elements?.map(element => substituteVariables(element, bindings)),
+  };
+}
+
 function evaluateDerivative(
   node: ASTNode,
-  variables: Record<string, number>,
+  variables: Bindings,
   context?: DefinitionContext
 ): RuntimeValue {
   const variable = node.variable!;
@@ -336,7 +535,7 @@ function evaluateDerivative(
 
 function evaluatePartial(
   node: ASTNode,
-  variables: Record<string, number>,
+  variables: Bindings,
   context?: DefinitionContext
 ): RuntimeValue {
   const variable = node.variable!;
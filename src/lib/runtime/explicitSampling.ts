@@ -0,0 +1,113 @@
+// Explicit curves y = f(x), sampled for the screen. Segments are halved until
+// they look straight at pixel scale, and the path breaks at jumps, poles and
+// wherever f is undefined, so tan(x), 1/x and floor(x) draw no vertical lines.
+
+import type { CurvePoint } from './curves';
+
+export interface SampleViewport {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// Spacing of the samples before any refinement, in pixels
+const INITIAL_SPACING = 2;
+// How often a segment may be halved; the last halvings only chase jumps
+const MAX_DEPTH = 14;
+const DETAIL_DEPTH = 4;
+// A segment is halved while its midpoint is further than this from the chord (pixels)
+const FLATNESS = 0.35;
+// A rise of more than this (pixels) across the narrowest segment is a jump
+const JUMP = 2;
+// Never produce more points than this, however wild the curve
+const MAX_POINTS = 40000;
+
+/**
+ * Sample f across `domain` (by default the viewport's width) as polylines in
+ * graph coordinates. `size` is the viewport in pixels: it sets how fine the
+ * sampling needs to be, and stretches of the curve entirely above or below
+ * the view are not refined at all.
+ */
+export function sampleFunction(
+  f: (x: number) => number,
+  viewport: SampleViewport,
+  size: { width: number; height: number },
+  domain: [number, number] = [viewport.xMin, viewport.xMax]
+): CurvePoint[][] {
+  const scaleX = size.width / (viewport.xMax - viewport.xMin);
+  const scaleY = size.height / (viewport.yMax - viewport.yMin);
+  const paths: CurvePoint[][] = [];
+  let current: CurvePoint[] = [];
+  let count = 0;
+  const emit = (x: number, y: number | null) => {
+    if (y !== null) {
+      current.push({ x, y });
+      count++;
+      return;
+    }
+    if (current.length > 1) paths.push(current);
+    current = [];
+  };
+  const at = (x: number) => {
+    try {
+      const y = f(x);
+      return Number.isFinite(y) ? y : null;
+    } catch {
+      return null;
+    }
+  };
+  const steepness = (ya: number | null, yb: number | null) =>
+    ya === null || yb === null ? (ya === yb ? 0 : Infinity) : Math.abs(yb - ya);
+  // -1 below the view, 1 above it, 0 within
+  const side = (y: number) => (y < viewport.yMin ? -1 : y > viewport.yMax ? 1 : 0);
+
+  // Emit the points strictly between (x0, y0) and (x1, y1)
+  const refine = (x0: number, y0: number | null, x1: number, y1: number | null, depth: number) => {
+    const rise = y0 !== null && y1 !== null ? Math.abs(y1 - y0) * scaleY : 0;
+    if (depth >= MAX_DEPTH || count >= MAX_POINTS) {
+      if (rise > JUMP) emit(x1, null);
+      return;
+    }
+    // Past DETAIL_DEPTH the segment is a fraction of a pixel wide: only a jump is worth finding
+    const detail = depth >= DETAIL_DEPTH;
+    if (detail && y0 !== null && y1 !== null && rise <= JUMP) return;
+    const xm = (x0 + x1) / 2;
+    const ym = at(xm);
+    if (y0 === null && ym === null && y1 === null) return;
+    if (y0 !== null && ym !== null && y1 !== null) {
+      const offscreen = side(y0);
+      if (offscreen !== 0 && side(ym) === offscreen && side(y1) === offscreen) return;
+      if (!detail && Math.abs(ym - (y0 + y1) / 2) * scaleY <= FLATNESS) return;
+    }
+    if (detail) {
+      // The jump (or the edge of the domain) lies in one half; follow that half alone
+      if (steepness(y0, ym) >= steepness(ym, y1)) {
+        refine(x0, y0, xm, ym, depth + 1);
+        emit(xm, ym);
+      } else {
+        emit(xm, ym);
+        refine(xm, ym, x1, y1, depth + 1);
+      }
+      return;
+    }
+    refine(x0, y0, xm, ym, depth + 1);
+    emit(xm, ym);
+    refine(xm, ym, x1, y1, depth + 1);
+  };
+
+  const [a, b] = domain;
+  const segments = Math.max(16, Math.ceil(((b - a) * scaleX) / INITIAL_SPACING));
+  let x0 = a;
+  let y0 = at(a);
+  emit(x0, y0);
+  for (let i = 1; i <= segments; i++) {
+    const x1 = a + ((b - a) * i) / segments;
+    const y1 = at(x1);
+    refine(x0, y0, x1, y1, 0);
+    emit(x1, y1);
+    [x0, y0] = [x1, y1];
+  }
+  emit(b, null);
+  return paths;
+}
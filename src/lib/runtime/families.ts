@@ -0,0 +1,47 @@
+// Lists on the 2D graph. A list-valued curve y = f(x) is drawn as a family,
+// one curve per element; a point or a list of points is drawn as dots.
+
+import { ASTNode } from '../parser';
+import { DefinitionContext } from '../definitionContext';
+import { RuntimeValue, isList, isNumber, isPoint } from './value';
+import { evaluate } from './evaluator';
+import { hasUnboundVariables } from './variableDetector';
+
+// Where to look at a curve to learn its shape; later ones cover bodies
+// undefined at the first (log x, sqrt x)
+const PROBE_XS = [0.5, 1.5, -0.5, 2.5, -1.5];
+
+/**
+ * The members of a list-valued curve: the elements of a literal
+ * [sin(x), cos(x)], otherwise `ast[1]`, `ast[2]`, ... for a curve such as
+ * [1...3]x. Null when the curve is not a list of numbers.
+ */
+export function familyMembers(ast: ASTNode, context?: DefinitionContext): ASTNode[] | null {
+  if (ast.type === 'list' && !ast.tuple && ast.elements!.length > 0) return ast.elements!;
+  for (const x of PROBE_XS) {
+    let value: RuntimeValue;
+    try {
+      value = evaluate(ast, { x }, context);
+    } catch {
+      continue;
+    }
+    if (!isList(value) || value.elements.length === 0 || !value.elements.every(isNumber)) return null;
+    return value.elements.map((_, k) => ({ type: 'index', left: ast, right: { type: 'number', value: k + 1 } }));
+  }
+  return null;
+}
+
+/** The dots of a point or list of points with no free variables; null for anything else */
+export function plotPoints(ast: ASTNode, context?: DefinitionContext): Array<{ x: number; y: number }> | null {
+  if (hasUnboundVariables(ast, context)) return null;
+  let value: RuntimeValue;
+  try {
+    value = evaluate(ast, {}, context);
+  } catch {
+    return null;
+  }
+  if (isPoint(value)) return [{ x: value.x, y: value.y }];
+  if (!isList(value) || value.elements.length === 0) return null;
+  const points = value.elements.flatMap(element => (isPoint(element) ? [{ x: element.x, y: element.y }] : []));
+  return points.length === value.elements.length ? points : null;
+}
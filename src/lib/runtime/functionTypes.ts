@@ -0,0 +1,110 @@
+// Types of user function definitions. A parameter's type comes from how the
+// body uses it: `p.x` makes p a Point, `sum(L)` makes L a List. The return
+// type comes from evaluating the body once on sample arguments.
+
+import { ASTNode } from '../parser';
+import { DefinitionContext, FunctionDefinition } from '../definitionContext';
+import { MathType, TypeInfo } from '../types';
+import { registry } from '../operations/registry';
+import {
+  Bindings,
+  RuntimeValue,
+  createComplex,
+  createList,
+  createNumber,
+  createPoint,
+  createPoint3D,
+  kindToMathType,
+} from './value';
+import { evaluate } from './evaluator';
+
+// Arguments for the trial evaluation; 0.5 avoids the poles and zeros of
+// typical bodies at 0 and 1
+const SAMPLE_ARGUMENTS: Partial<Record<MathType, RuntimeValue>> = {
+  [MathType.Number]: createNumber(0.5),
+  [MathType.Complex]: createComplex(0.5, 0.5),
+  [MathType.Point]: createPoint(0.5, 0.5),
+  [MathType.Point3D]: createPoint3D(0.5, 0.5, 0.5),
+  [MathType.List]: createList([1, 2, 3].map(createNumber), MathType.Number),
+};
+
+/**
+ * The type a call expects for its argument at `index`: the operation's first
+ * signature of that arity is its primary one (sin is for numbers, real for
+ * complex numbers). Number says nothing beyond the default.
+ */
+function argumentType(name: string, index: number, arity: number, context?: DefinitionContext): MathType | null {
+  const definition = context?.functions?.[name];
+  if (definition) {
+    const type = definition.paramTypes?.[index] ?? MathType.Number;
+    return type === MathType.Number ? null : type;
+  }
+  const primary = (registry.get(name)?.types.signatures ?? [])
+    .map(signature => (Array.isArray(signature.input) ? signature.input : [signature.input]))
+    .find(input => input.length === arity);
+  const type = primary?.[index];
+  return !type || [MathType.Number, MathType.Expression, MathType.Unknown].includes(type) ? null : type;
+}
+
+// Every type the body's uses of `param` call for
+function usageTypes(node: ASTNode, param: string, context?: DefinitionContext): MathType[] {
+  const isParam = (child?: ASTNode) => child?.type === 'variable' && child.value === param;
+  const found: MathType[] = [];
+  if (node.type === 'member' && isParam(node.operand)) {
+    found.push(node.name === 'z' ? MathType.Point3D : MathType.Point);
+  }
+  if ((node.type === 'index' && isParam(node.left)) || (node.type === 'comprehension' && isParam(node.right))) {
+    found.push(MathType.List);
+  }
+  if (node.type === 'call') {
+    node.args?.forEach((arg, i) => {
+      const type = isParam(arg) ? argumentType(node.name!, i, node.args!.length, context) : null;
+      if (type) found.push(type);
+    });
+  }
+  const children = [node.left, node.right, node.operand, node.lower, node.upper, ...(node.args ?? []), ...(node.elements ?? [])];
+  children.forEach(child => {
+    if (child) found.push(...usageTypes(child, param, context));
+  });
+  return found;
+}
+
+/** Parameter types of a definition; a z coordinate anywhere makes a point 3D */
+export function inferParameterTypes(params: string[], body: ASTNode, context?: DefinitionContext): MathType[] {
+  return params.map(param => {
+    const uses = usageTypes(body, param, context);
+    if (uses.includes(MathType.Point3D)) return MathType.Point3D;
+    return uses[0] ?? MathType.Number;
+  });
+}
+
+/**
+ * Evaluate a definition on sample arguments to learn what it returns. Null
+ * when a parameter type has no sample or the body fails on them.
+ */
+export function inferReturnType(definition: FunctionDefinition, context?: DefinitionContext): MathType | null {
+  const bindings: Bindings = {};
+  for (const [i, param] of definition.params.entries()) {
+    const sample = SAMPLE_ARGUMENTS[definition.paramTypes?.[i] ?? MathType.Number];
+    if (!sample) return null;
+    bindings[param] = sample.kind === 'number' ? sample.value : sample;
+  }
+  try {
+    return kindToMathType(evaluate(definition.body, bindings, context).kind);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signature of a user function: its parameter types as the domain and
+ * the inferred return type as the codomain, defaulting to `fallback`'s.
+ */
+export function functionType(definition: FunctionDefinition, fallback: TypeInfo, context?: DefinitionContext): TypeInfo {
+  const paramTypes = definition.paramTypes ?? definition.params.map(() => MathType.Number);
+  return {
+    type: MathType.Function,
+    domain: paramTypes.length === 1 ? paramTypes[0] : paramTypes,
+    codomain: inferReturnType(definition, context) ?? fallback.codomain ?? MathType.Number,
+  };
+}
@@ -0,0 +1,65 @@
+// Geometric constructions on the 2D graph: segments, lines, circles and
+// polygons are drawn as shapes, and points defined by coordinates (A = (1, 2))
+// can be dragged, which rewrites their definition.
+
+import { ASTNode } from '../parser';
+import { DefinitionContext } from '../definitionContext';
+import { PlanePoint, RuntimeValue, isCircle, isLine, isPoint, isPolygon, isSegment } from './value';
+import { evaluate } from './evaluator';
+import { hasUnboundVariables } from './variableDetector';
+
+export type Shape =
+  | { kind: 'segment'; from: PlanePoint; to: PlanePoint }
+  | { kind: 'line'; through: PlanePoint; direction: PlanePoint }
+  | { kind: 'circle'; center: PlanePoint; radius: number }
+  | { kind: 'polygon'; points: PlanePoint[] };
+
+/** The shape a construction with no free variables evaluates to; null for anything else */
+export function plotShape(ast: ASTNode, context?: DefinitionContext): Shape | null {
+  if (hasUnboundVariables(ast, context)) return null;
+  let value: RuntimeValue;
+  try {
+    value = evaluate(ast, {}, context);
+  } catch {
+    return null;
+  }
+  if (isSegment(value)) return { kind: 'segment', from: value.from, to: value.to };
+  if (isLine(value)) return { kind: 'line', through: value.through, direction: value.direction };
+  if (isCircle(value)) return { kind: 'circle', center: value.center, radius: value.radius };
+  if (isPolygon(value)) {
+    return { kind: 'polygon', points: value.points.flatMap(point => (isPoint(point) ? [{ x: point.x, y: point.y }] : [])) };
+  }
+  return null;
+}
+
+const NUMBER = '-?(?:\\d+\\.?\\d*|\\.\\d+)';
+const LITERAL_POINT = new RegExp(`^(?:([a-zA-Z][a-zA-Z0-9_]*)=)?\\((${NUMBER}),(${NUMBER})\\)$`);
+
+/**
+ * The position and name of a point given by literal coordinates, A = (1, 2)
+ * or a bare (1, 2): the points a drag can move. Null for points computed from
+ * anything else, which follow what they depend on instead.
+ */
+export function draggablePoint(normalized: string): (PlanePoint & { name: string | null }) | null {
+  const match = normalized.replace(/\s+/g, '').match(LITERAL_POINT);
+  if (!match || match[1] === 'y') return null;
+  return { name: match[1] ?? null, x: Number(match[2]), y: Number(match[3]) };
+}
+
+/**
+ * The LaTeX of a dragged point at its new position. Coordinates are rounded
+ * to the precision of `step` (the size of a pixel in graph units), so a drag
+ * writes 1.25 rather than 1.2500000000000002; whatever precedes the = stays.
+ */
+export function movePointLatex(latex: string, to: PlanePoint, step: { x: number; y: number }): string {
+  const equals = latex.indexOf('=');
+  const lhs = equals >= 0 ? latex.slice(0, equals + 1) : '';
+  return `${lhs}\\left(${snap(to.x, step.x)},${snap(to.y, step.y)}\\right)`;
+}
+
+// value rounded to the decimal digit at which `step` starts
+function snap(value: number, step: number): string {
+  const digits = Math.max(0, -Math.floor(Math.log10(step)));
+  const rounded = Number(value.toFixed(Math.min(digits, 12)));
+  return String(rounded === 0 ? 0 : rounded);
+}
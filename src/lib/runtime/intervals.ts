@@ -0,0 +1,203 @@
+// Interval arithmetic over the AST: bounds on a real expression across a box
+// of variable values. Every value the expression takes in the box lies inside
+// the interval (up to floating-point rounding), so an interval without 0 proves
+// the expression has no zero there. Parts of the box where the expression is
+// undefined (sqrt of negatives, log of non-positives) are left out; null means
+// it is undefined throughout.
+
+import { ASTNode } from '../parser';
+import { CONSTANTS, DefinitionContext } from '../definitionContext';
+
+export interface Interval {
+  lo: number;
+  hi: number;
+}
+
+export type IntervalBindings = Record<string, Interval>;
+
+export const point = (value: number): Interval => ({ lo: value, hi: value });
+
+export const containsZero = ({ lo, hi }: Interval) => lo <= 0 && hi >= 0;
+
+const ALL: Interval = { lo: -Infinity, hi: Infinity };
+
+// 0 × ∞ is 0 here: the bound is on finite values approaching the ends
+const times = (a: number, b: number) => (a === 0 || b === 0 ? 0 : a * b);
+
+const hull = (...values: number[]): Interval => ({ lo: Math.min(...values), hi: Math.max(...values) });
+
+const add = (a: Interval, b: Interval): Interval => ({ lo: a.lo + b.lo, hi: a.hi + b.hi });
+
+const subtract = (a: Interval, b: Interval): Interval => ({ lo: a.lo - b.hi, hi: a.hi - b.lo });
+
+const multiply = (a: Interval, b: Interval): Interval =>
+  hull(times(a.lo, b.lo), times(a.lo, b.hi), times(a.hi, b.lo), times(a.hi, b.hi));
+
+const negate = ({ lo, hi }: Interval): Interval => ({ lo: -hi, hi: -lo });
+
+function reciprocal({ lo, hi }: Interval): Interval | null {
+  if (lo === 0 && hi === 0) return null;
+  if (lo > 0 || hi < 0) return { lo: 1 / hi, hi: 1 / lo };
+  if (lo === 0) return { lo: 1 / hi, hi: Infinity };
+  if (hi === 0) return { lo: -Infinity, hi: 1 / lo };
+  return ALL;
+}
+
+// Images of a non-decreasing function
+const increasing = (f: (value: number) => number, { lo, hi }: Interval): Interval => ({ lo: f(lo), hi: f(hi) });
+
+// The part of a that lies in [min, max]; null when none does
+function restrict(a: Interval, min: number, max: number): Interval | null {
+  const lo = Math.max(a.lo, min);
+  const hi = Math.min(a.hi, max);
+  return lo <= hi ? { lo, hi } : null;
+}
+
+function integerPower(a: Interval, n: number): Interval | null {
+  if (n < 0) {
+    const positive = integerPower(a, -n);
+    return positive && reciprocal(positive);
+  }
+  if (n === 0) return point(1);
+  if (n % 2 === 1) return increasing(value => value ** n, a);
+  // Even powers fold the negative half onto the positive
+  const magnitude = FUNCTIONS.abs(a)!;
+  return { lo: magnitude.lo ** n, hi: magnitude.hi ** n };
+}
+
+function power(base: Interval, exponent: Interval): Interval | null {
+  if (exponent.lo === exponent.hi && Number.isInteger(exponent.lo)) return integerPower(base, exponent.lo);
+  // Otherwise only positive bases give real values: b^p = exp(p ln b)
+  const positive = restrict(base, 0, Infinity);
+  if (!positive) return null;
+  if (exponent.lo === exponent.hi) {
+    const p = exponent.lo;
+    const image = increasing(value => value ** p, positive);
+    return p >= 0 ? image : { lo: image.hi, hi: image.lo };
+  }
+  const logarithm = ln(positive);
+  return logarithm && increasing(Math.exp, multiply(exponent, logarithm));
+}
+
+function ln(a: Interval): Interval | null {
+  const positive = restrict(a, 0, Infinity);
+  if (!positive || positive.hi === 0) return null;
+  return increasing(Math.log, positive);
+}
+
+// sin over [lo, hi]: the ends, plus ±1 wherever a peak or trough falls inside
+function sine({ lo, hi }: Interval): Interval {
+  if (hi - lo >= 2 * Math.PI) return { lo: -1, hi: 1 };
+  const reaches = (phase: number) => Math.ceil((lo - phase) / (2 * Math.PI)) * 2 * Math.PI + phase <= hi;
+  const ends = hull(Math.sin(lo), Math.sin(hi));
+  return { lo: reaches(-Math.PI / 2) ? -1 : ends.lo, hi: reaches(Math.PI / 2) ? 1 : ends.hi };
+}
+
+function tangent(a: Interval): Interval {
+  // Poles at π/2 + kπ
+  const pole = Math.ceil((a.lo - Math.PI / 2) / Math.PI) * Math.PI + Math.PI / 2;
+  return pole <= a.hi ? ALL : increasing(Math.tan, a);
+}
+
+const FUNCTIONS: Record<string, (a: Interval) => Interval | null> = {
+  sin: sine,
+  cos: a => sine(add(a, point(Math.PI / 2))),
+  tan: tangent,
+  asin: a => {
+    const domain = restrict(a, -1, 1);
+    return domain && increasing(Math.asin, domain);
+  },
+  acos: a => {
+    const domain = restrict(a, -1, 1);
+    return domain && { lo: Math.acos(domain.hi), hi: Math.acos(domain.lo) };
+  },
+  atan: a => increasing(Math.atan, a),
+  sinh: a => increasing(Math.sinh, a),
+  cosh: a => increasing(Math.cosh, FUNCTIONS.abs(a)!),
+  tanh: a => increasing(Math.tanh, a),
+  exp: a => increasing(Math.exp, a),
+  ln,
+  log: a => {
+    const natural = ln(a);
+    return natural && multiply(natural, point(1 / Math.LN10));
+  },
+  sqrt: a => {
+    const domain = restrict(a, 0, Infinity);
+    return domain && increasing(Math.sqrt, domain);
+  },
+  abs: a => (containsZero(a) ? { lo: 0, hi: Math.max(-a.lo, a.hi) } : hull(Math.abs(a.lo), Math.abs(a.hi))),
+  floor: a => increasing(Math.floor, a),
+  ceil: a => increasing(Math.ceil, a),
+  round: a => increasing(Math.round, a),
+};
+
+/**
+ * Bound a real-valued expression over the box `variables`. Throws for
+ * anything it has no interval rule for (lists, comparisons, if, ...): callers
+ * fall back to sampling.
+ */
+export function evaluateInterval(
+  node: ASTNode,
+  variables: IntervalBindings,
+  context?: DefinitionContext
+): Interval | null {
+  const bound = (child: ASTNode) => evaluateInterval(child, variables, context);
+  switch (node.type) {
+    case 'number':
+      return point(node.value as number);
+
+    case 'variable': {
+      const name = node.value as string;
+      if (name in variables) return variables[name];
+      const defined = context?.variables?.[name];
+      if (typeof defined === 'number') return point(defined);
+      if (defined) return bound(defined);
+      if (name in CONSTANTS) return point(CONSTANTS[name]);
+      throw new Error(`No interval bound for ${name}`);
+    }
+
+    case 'unary': {
+      if (node.operator !== '-' && node.operator !== '+') break;
+      const operand = bound(node.right!);
+      return operand && (node.operator === '-' ? negate(operand) : operand);
+    }
+
+    case 'binary': {
+      if (!['+', '-', '*', '/', '^'].includes(node.operator!)) break;
+      const left = bound(node.left!);
+      const right = bound(node.right!);
+      if (!left || !right) return null;
+      switch (node.operator) {
+        case '+':
+          return add(left, right);
+        case '-':
+          return subtract(left, right);
+        case '*':
+          return multiply(left, right);
+        case '/': {
+          const inverse = reciprocal(right);
+          return inverse && multiply(left, inverse);
+        }
+        default:
+          return power(left, right);
+      }
+    }
+
+    case 'call': {
+      const definition = context?.functions?.[node.name!];
+      if (definition && node.args?.length === definition.params.length) {
+        const args = node.args.map(bound);
+        if (args.some(arg => arg === null)) return null;
+        const bindings = Object.fromEntries(definition.params.map((param, i) => [param, args[i]!]));
+        return evaluateInterval(definition.body, bindings, context);
+      }
+      const f = FUNCTIONS[node.name!];
+      if (f && node.args?.length === 1) {
+        const arg = bound(node.args[0]);
+        return arg && f(arg);
+      }
+      break;
+    }
+  }
+  throw new Error(`No interval bound for ${node.type} ${node.operator ?? node.name ?? ''}`.trim());
+}
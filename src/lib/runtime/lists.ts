@@ -0,0 +1,58 @@
+// Ranges and list indexing. Positions count from 1: L[1] is the first element.
+
+import { MathType } from '../types';
+import { RuntimeValue, createList, createNumber, isBoolean, isList, isNumber, vectorEntries } from './value';
+
+// Longest list a range may produce
+export const MAX_RANGE_LENGTH = 10000;
+
+/**
+ * [a...b] counts by 1 towards b; [a, a2, ..., b] steps by a2 − a. The last
+ * term is included when the steps land on it.
+ */
+export function rangeValues(starts: number[], end: number): number[] {
+  const [first, second] = starts;
+  const step = second === undefined ? (end >= first ? 1 : -1) : second - first;
+  if (!Number.isFinite(step) || step === 0) {
+    throw new Error('A range needs distinct, finite terms');
+  }
+  // Tolerate rounding in the last step: [0, 0.1, ..., 1] ends at 1
+  const count = Math.floor((end - first) / step + 1e-9) + 1;
+  if (count < 1) throw new Error(`A range stepping by ${step} never reaches ${end}`);
+  if (count > MAX_RANGE_LENGTH) throw new Error(`Ranges are limited to ${MAX_RANGE_LENGTH} elements`);
+  return Array.from({ length: count }, (_, k) => first + k * step);
+}
+
+export function createRange(starts: number[], end: number): RuntimeValue {
+  return createList(rangeValues(starts, end).map(createNumber), MathType.Number);
+}
+
+/**
+ * L[i] is one element; a list of positions picks those elements (a slice,
+ * L[2...5]) and a list of booleans keeps the elements where it is true (a
+ * filter, L[L > 0]). Points index their coordinates.
+ */
+export function indexList(target: RuntimeValue, index: RuntimeValue): RuntimeValue {
+  const elements = isList(target) ? target.elements : vectorEntries(target)?.map(createNumber);
+  if (!elements) throw new Error(`Cannot index a ${target.kind}`);
+
+  const at = (position: RuntimeValue) => {
+    if (!isNumber(position) || !Number.isInteger(position.value)) {
+      throw new Error(`List positions are whole numbers, got ${isNumber(position) ? position.value : position.kind}`);
+    }
+    if (position.value < 1 || position.value > elements.length) {
+      throw new Error(`Position ${position.value} is outside a list of ${elements.length}`);
+    }
+    return elements[position.value - 1];
+  };
+
+  if (!isList(index)) return at(index);
+  if (index.elements.length > 0 && index.elements.every(isBoolean)) {
+    const keep = index.elements.map(condition => isBoolean(condition) && condition.value);
+    if (keep.length !== elements.length) {
+      throw new Error(`A filter of ${keep.length} conditions cannot select from a list of ${elements.length}`);
+    }
+    return createList(elements.filter((_, i) => keep[i]));
+  }
+  return createList(index.elements.map(at));
+}
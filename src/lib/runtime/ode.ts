@@ -0,0 +1,59 @@
+// Differential equation entries: `y' = f(x, y)` with initial conditions
+// `y(x0) = y0`, and systems solved by solveODE([f, g], [x0, y0], t).
+
+import { ASTNode, parseExpression } from '../parser';
+import { DefinitionContext } from '../definitionContext';
+import { ODEFunction } from '../computation/ode';
+import { RuntimeValue, isFunction, isNumber } from './value';
+import { evaluate } from './evaluator';
+
+const toNumber = (value: RuntimeValue, what: string): number => {
+  if (!isNumber(value)) throw new Error(`${what} must be a number, got ${value.kind}`);
+  return value.value;
+};
+
+/**
+ * The right-hand side of a system from one user function per state variable.
+ * A function taking one argument per state variable is autonomous; one
+ * taking an extra leading argument also receives the time.
+ */
+export function odeSystem(
+  functions: RuntimeValue[],
+  context?: DefinitionContext
+): { f: ODEFunction; autonomous: boolean } {
+  const dimension = functions.length;
+  const defs = functions.map(fn => {
+    if (!isFunction(fn)) throw new Error('solveODE expects a list of functions, one per state variable');
+    const { params } = fn.def;
+    if (params.length !== dimension && params.length !== dimension + 1) {
+      throw new Error(
+        `${fn.def.name} must take ${dimension} argument(s), or ${dimension + 1} with the time first`
+      );
+    }
+    return fn;
+  });
+  const autonomous = defs.every(fn => fn.def.params.length === dimension);
+  const f: ODEFunction = (t, y) =>
+    defs.map(({ def, boundParams }) => {
+      const args = def.params.length === dimension ? y : [t, ...y];
+      const bindings = Object.fromEntries(def.params.map((param, i) => [param, args[i]]));
+      return toNumber(evaluate(def.body, { ...boundParams, ...bindings }, context), `${def.name}'s value`);
+    });
+  return { f, autonomous };
+}
+
+/** Slope y' = f(x, y) of a `y' = ...` entry */
+export function slopeFunction(normalized: string, context?: DefinitionContext): (x: number, y: number) => number {
+  const rhs: ASTNode = parseExpression(normalized.slice(normalized.indexOf('=') + 1).trim(), context);
+  return (x, y) => toNumber(evaluate(rhs, { x, y }, context), 'The slope');
+}
+
+/** The point (x0, y0) of an initial condition `y(x0) = y0` */
+export function initialCondition(normalized: string, context?: DefinitionContext): { x: number; y: number } {
+  const match = normalized.trim().match(/^y\((.+)\)\s*=(.+)$/);
+  if (!match) throw new Error('An initial condition looks like y(x0) = y0');
+  const [x, y] = [match[1], match[2]].map(side =>
+    toNumber(evaluate(parseExpression(side.trim(), context), {}, context), 'An initial condition')
+  );
+  return { x, y };
+}
@@ -1,7 +1,8 @@
 // Operator overloading registry
 
 import { MathType } from '../types';
-import { RuntimeValue, createNumber, createBoolean, createPoint, createList, createComplex, isNumber, isPoint, isList, isComplex } from './value';
+import { RuntimeValue, createNumber, createBoolean, createPoint, createList, createComplex, createMatrix, createVector, isNumber, isPoint, isList, isComplex, isMatrix, kindToMathType, vectorEntries } from './value';
+import { addMatrices, matrixPower, multiplyMatrices, multiplyVector, scaleMatrix } from '../computation/linearAlgebra';
 
 type OperatorSignature = `${MathType}_${string}_${MathType}`;
 
@@ -201,49 +202,42 @@ registerOperator(MathType.Point, '==', MathType.Point, MathType.Boolean,
 
 // ============= LIST OPERATORS =============
 
-// List + List (concatenation)
-registerOperator(MathType.List, '+', MathType.List, MathType.List,
-  (l, r) => {
-    if (!isList(l) || !isList(r)) throw new Error('Type mismatch');
-    return createList([...l.elements, ...r.elements]);
-  });
+// Arithmetic, comparisons and logic apply element by element: [1, 2] + [10, 20],
+// 2[1, 2, 3], [1...5]^2 and L > 0 (a list of booleans, as used by L[L > 0])
+const BROADCAST_OPERATORS = ['+', '-', '*', '/', '^', '%', '<', '>', '<=', '>=', '==', '!=', 'and', 'or'];
+const BROADCAST_SCALARS = [MathType.Number, MathType.Complex, MathType.Boolean, MathType.Point, MathType.Point3D];
 
-// Number * List (broadcast scalar multiplication)
-registerOperator(MathType.Number, '*', MathType.List, MathType.List,
-  (l, r) => {
-    if (!isNumber(l) || !isList(r)) throw new Error('Type mismatch');
-    return createList(
-      r.elements.map(el => {
-        if (isNumber(el)) {
-          return createNumber(l.value * el.value);
-        }
-        // Try to find operator for this element type
-        const op = getOperator(MathType.Number, '*', el.kind as any);
-        if (op) {
-          return op.execute(l, el);
-        }
-        throw new Error(`Cannot multiply Number with ${el.kind}`);
-      })
-    );
-  });
+const elementwise = (operator: string, left: RuntimeValue, right: RuntimeValue): RuntimeValue => {
+  const op = getOperator(kindToMathType(left.kind), operator, kindToMathType(right.kind));
+  if (!op) {
+    throw new Error(`No operator '${operator}' for ${kindToMathType(left.kind)} and ${kindToMathType(right.kind)}`);
+  }
+  return op.execute(left, right);
+};
 
-// List * Number (commutative)
-registerOperator(MathType.List, '*', MathType.Number, MathType.List,
-  (l, r) => {
-    if (!isList(l) || !isNumber(r)) throw new Error('Type mismatch');
-    return createList(
-      l.elements.map(el => {
-        if (isNumber(el)) {
-          return createNumber(el.value * r.value);
-        }
-        const op = getOperator(el.kind as any, '*', MathType.Number);
-        if (op) {
-          return op.execute(el, r);
-        }
-        throw new Error(`Cannot multiply ${el.kind} with Number`);
-      })
-    );
+BROADCAST_OPERATORS.forEach(operator => {
+  registerOperator(MathType.List, operator, MathType.List, MathType.List,
+    (l, r) => {
+      if (!isList(l) || !isList(r)) throw new Error('Type mismatch');
+      if (l.elements.length !== r.elements.length) {
+        throw new Error(`Cannot combine lists of ${l.elements.length} and ${r.elements.length} elements`);
+      }
+      return createList(l.elements.map((el, i) => elementwise(operator, el, r.elements[i])));
+    });
+
+  BROADCAST_SCALARS.forEach(scalarType => {
+    registerOperator(scalarType, operator, MathType.List, MathType.List,
+      (l, r) => {
+        if (!isList(r)) throw new Error('Type mismatch');
+        return createList(r.elements.map(el => elementwise(operator, l, el)));
+      });
+    registerOperator(MathType.List, operator, scalarType, MathType.List,
+      (l, r) => {
+        if (!isList(l)) throw new Error('Type mismatch');
+        return createList(l.elements.map(el => elementwise(operator, el, r)));
+      });
   });
+});
 
 // ============= BOOLEAN OPERATORS =============
 
@@ -337,3 +331,62 @@ registerComplexBinaryOperator('==', MathType.Boolean, (l, r) =>
 registerComplexBinaryOperator('!=', MathType.Boolean, (l, r) =>
   createBoolean(l.real !== r.real || l.imag !== r.imag));
 
+
+// ============= MATRIX OPERATORS =============
+
+const matrixRows = (value: RuntimeValue): number[][] => {
+  if (!isMatrix(value)) throw new Error('Type mismatch');
+  return value.rows;
+};
+
+const scalar = (value: RuntimeValue): number => {
+  if (!isNumber(value)) throw new Error('Type mismatch');
+  return value.value;
+};
+
+registerOperator(MathType.Matrix, '+', MathType.Matrix, MathType.Matrix,
+  (l, r) => createMatrix(addMatrices(matrixRows(l), matrixRows(r))));
+
+registerOperator(MathType.Matrix, '-', MathType.Matrix, MathType.Matrix,
+  (l, r) => createMatrix(addMatrices(matrixRows(l), matrixRows(r), -1)));
+
+registerOperator(MathType.Matrix, '*', MathType.Matrix, MathType.Matrix,
+  (l, r) => createMatrix(multiplyMatrices(matrixRows(l), matrixRows(r))));
+
+registerOperator(MathType.Number, '*', MathType.Matrix, MathType.Matrix,
+  (l, r) => createMatrix(scaleMatrix(matrixRows(r), scalar(l))));
+
+registerOperator(MathType.Matrix, '*', MathType.Number, MathType.Matrix,
+  (l, r) => createMatrix(scaleMatrix(matrixRows(l), scalar(r))));
+
+registerOperator(MathType.Matrix, '/', MathType.Number, MathType.Matrix,
+  (l, r) => createMatrix(scaleMatrix(matrixRows(l), 1 / scalar(r))));
+
+// Matrix ^ integer power; negative powers go through the inverse
+registerOperator(MathType.Matrix, '^', MathType.Number, MathType.Matrix,
+  (l, r) => createMatrix(matrixPower(matrixRows(l), scalar(r))));
+
+registerOperator(MathType.Matrix, '==', MathType.Matrix, MathType.Boolean,
+  (l, r) => {
+    const [a, b] = [matrixRows(l), matrixRows(r)];
+    return createBoolean(
+      a.length === b.length && a.every((row, i) => row.length === b[i].length && row.every((v, j) => v === b[i][j]))
+    );
+  });
+
+// Matrix * vector: the result has the same shape rules as a list literal
+const MATRIX_VECTOR_PRODUCTS: Array<[MathType, MathType]> = [
+  [MathType.Point, MathType.Point],
+  [MathType.Point3D, MathType.Point3D],
+  [MathType.Vector3D, MathType.Point3D],
+  [MathType.List, MathType.List],
+];
+
+MATRIX_VECTOR_PRODUCTS.forEach(([vectorType, resultType]) => {
+  registerOperator(MathType.Matrix, '*', vectorType, resultType,
+    (l, r) => {
+      const entries = vectorEntries(r);
+      if (!entries) throw new Error('A matrix can only multiply a vector of numbers');
+      return createVector(multiplyVector(matrixRows(l), entries));
+    });
+});
@@ -0,0 +1,166 @@
+// Points of interest on the 2D graph: zeros, turning points and
+// intersections of the visible explicit curves y = f(x) and implicit curves
+// F(x, y) = 0. Explicit curves are searched with the interval solvers;
+// implicit curves start from the edges of their traced polylines and are
+// refined by Newton's method on the defining equations.
+
+import { parseExpression } from '../parser';
+import { DefinitionContext } from '../definitionContext';
+import { RealFunction, findExtrema, findRoots, intersections, newtonSystem } from '../computation/roots';
+import { isNumber } from './value';
+import { evaluate } from './evaluator';
+
+export type PointOfInterestKind = 'zero' | 'minimum' | 'maximum' | 'intersection';
+
+export interface PointOfInterest {
+  x: number;
+  y: number;
+  kind: PointOfInterestKind;
+  curves: string[]; // ids of the curves through the point
+}
+
+type Bounds = { xMin: number; xMax: number; yMin: number; yMax: number };
+type Point = { x: number; y: number };
+type ImplicitFunction = (x: number, y: number) => number;
+
+export interface ExplicitCurve {
+  id: string;
+  f: RealFunction;
+}
+
+export interface ImplicitCurve {
+  id: string;
+  F: ImplicitFunction;
+  segments: Array<{ points: Point[] }>;
+}
+
+/** F(x, y) = lhs − rhs of an implicit relation `lhs = rhs`; NaN where undefined */
+export function implicitFunction(normalized: string, context?: DefinitionContext): ImplicitFunction {
+  const split = normalized.indexOf('=');
+  const [lhs, rhs] = [normalized.slice(0, split), normalized.slice(split + 1)].map(side =>
+    parseExpression(side.trim(), context)
+  );
+  return (x, y) => {
+    try {
+      const [left, right] = [evaluate(lhs, { x, y }, context), evaluate(rhs, { x, y }, context)];
+      return isNumber(left) && isNumber(right) ? left.value - right.value : NaN;
+    } catch {
+      return NaN;
+    }
+  };
+}
+
+// Central differences of F; h ≈ ∛ε (first) and ∜ε (second derivative) scaled to the point
+const partialX = (F: ImplicitFunction, x: number, y: number) => {
+  const h = 6e-6 * Math.max(1, Math.abs(x));
+  return (F(x + h, y) - F(x - h, y)) / (2 * h);
+};
+const partialY = (F: ImplicitFunction, x: number, y: number) => {
+  const h = 6e-6 * Math.max(1, Math.abs(y));
+  return (F(x, y + h) - F(x, y - h)) / (2 * h);
+};
+const partialXX = (F: ImplicitFunction, x: number, y: number) => {
+  const h = 1e-4 * Math.max(1, Math.abs(x));
+  return (F(x + h, y) - 2 * F(x, y) + F(x - h, y)) / (h * h);
+};
+
+// Consecutive point pairs along the polylines of an implicit curve
+const edgesOf = (curve: ImplicitCurve): Array<[Point, Point]> =>
+  curve.segments.flatMap(({ points }) => points.slice(1).map((q, k): [Point, Point] => [points[k], q]));
+
+// The point along segment p→q where a quantity g changes sign, if it does
+function signChange(p: Point, q: Point, g: (point: Point) => number): Point | null {
+  const [gp, gq] = [g(p), g(q)];
+  if (!Number.isFinite(gp) || !Number.isFinite(gq) || gp * gq > 0 || (gp === 0 && gq === 0)) return null;
+  const t = gp / (gp - gq);
+  return { x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) };
+}
+
+/**
+ * Every zero, local extremum and pairwise intersection of the curves within
+ * the bounds. Implicit curves report where they cross the x-axis, their
+ * horizontal tangents (as extrema of y along the curve) and their
+ * intersections with all other curves.
+ */
+export function findPointsOfInterest(
+  explicit: ExplicitCurve[],
+  implicit: ImplicitCurve[],
+  bounds: Bounds
+): PointOfInterest[] {
+  const { xMin, xMax, yMin, yMax } = bounds;
+  const span = Math.max(xMax - xMin, yMax - yMin);
+  const radius = 0.05 * span;
+  const points: PointOfInterest[] = [];
+  const add = (point: Point | null, kind: PointOfInterestKind, curves: string[]) => {
+    if (point && Number.isFinite(point.x) && Number.isFinite(point.y)) points.push({ ...point, kind, curves });
+  };
+  // Starting points along an implicit curve where g changes sign, refined on F = g = 0
+  const refineAlong = (
+    curve: ImplicitCurve,
+    g: ImplicitFunction,
+    kind: PointOfInterestKind,
+    curves: string[],
+    tolerance?: number
+  ) => {
+    edgesOf(curve).forEach(([p, q]) => {
+      const start = signChange(p, q, ({ x, y }) => g(x, y));
+      if (!start) return;
+      add(newtonSystem((x, y) => [curve.F(x, y), g(x, y)], start.x, start.y, radius, tolerance), kind, curves);
+    });
+  };
+
+  explicit.forEach(({ id, f }, i) => {
+    findRoots(f, xMin, xMax).forEach(x => add({ x, y: 0 }, 'zero', [id]));
+    findExtrema(f, xMin, xMax).forEach(({ x, y, kind }) => add({ x, y }, kind === 'min' ? 'minimum' : 'maximum', [id]));
+    explicit.slice(i + 1).forEach(other => {
+      intersections(f, other.f, xMin, xMax).forEach(point => add(point, 'intersection', [id, other.id]));
+    });
+  });
+
+  implicit.forEach((curve, i) => {
+    refineAlong(curve, (_x, y) => y, 'zero', [curve.id]);
+    // Horizontal tangents: F_x = 0 on the curve, y'' = −F_xx / F_y tells a peak from a trough.
+    // The nested differences leave F_x noisier, hence the looser tolerance.
+    edgesOf(curve).forEach(([p, q]) => {
+      const start = signChange(p, q, ({ x, y }) => partialX(curve.F, x, y));
+      if (!start) return;
+      const point = newtonSystem(
+        (x, y) => [curve.F(x, y), partialX(curve.F, x, y)],
+        start.x,
+        start.y,
+        radius,
+        1e-9
+      );
+      if (!point) return;
+      const curvature = -partialXX(curve.F, point.x, point.y) / partialY(curve.F, point.x, point.y);
+      if (curvature !== 0 && Number.isFinite(curvature)) {
+        add(point, curvature < 0 ? 'maximum' : 'minimum', [curve.id]);
+      }
+    });
+    explicit.forEach(({ id, f }) => {
+      refineAlong(curve, (x, y) => y - f(x), 'intersection', [curve.id, id]);
+    });
+    implicit.slice(i + 1).forEach(other => {
+      refineAlong(curve, other.F, 'intersection', [curve.id, other.id]);
+    });
+  });
+
+  // Neighbouring segments refine to the same point; keep one of each
+  const tolerance = 1e-7 * span;
+  return points.filter(
+    (point, i) =>
+      point.x >= xMin &&
+      point.x <= xMax &&
+      point.y >= yMin &&
+      point.y <= yMax &&
+      !points
+        .slice(0, i)
+        .some(
+          other =>
+            other.kind === point.kind &&
+            other.curves.join() === point.curves.join() &&
+            Math.abs(other.x - point.x) <= tolerance &&
+            Math.abs(other.y - point.y) <= tolerance
+        )
+  );
+}
@@ -0,0 +1,150 @@
+// Regression entries: `observed ~ model` fits the model's free parameters to
+// list data by least squares, e.g. y_1 ~ m*x_1 + b or y_1 ~ a*exp(k*x_1).
+
+import { ASTNode, parseExpression } from '../parser';
+import { DefinitionContext, RESERVED_NAMES } from '../definitionContext';
+import { MathType } from '../types';
+import { evaluate } from './evaluator';
+import { expressionVariables } from '../computation/symbolic';
+import { FitResult, fitModel } from '../computation/regression';
+
+export interface RegressionResult extends FitResult {
+  observed: number[]; // left-hand side, one value per data row
+  parameterNames: string[];
+  values: Record<string, number>; // fitted parameters by name
+  dataColumns: Record<string, number[]>; // list variables bound row by row
+  model: ASTNode; // right-hand side
+}
+
+function toNumber(value: ReturnType<typeof evaluate>): number {
+  if (value.kind !== 'number') throw new Error(`Regression terms must be numbers, got ${value.kind}`);
+  return value.value;
+}
+
+function listColumn(name: string, context: DefinitionContext): number[] {
+  const value = evaluate(context.variables[name] as ASTNode, {}, context);
+  if (value.kind !== 'list' || !value.elements.every(element => element.kind === 'number')) {
+    throw new Error(`${name} must be a list of numbers`);
+  }
+  return value.elements.map(element => (element as { value: number }).value);
+}
+
+/**
+ * Normalization keeps adjacent identifiers together, so `m x_1` arrives as
+ * mx_1. An undefined identifier that ends in a known name (a data list, a
+ * defined variable or constant) is read as a product: mx_1 → m*x_1,
+ * ae^x → a*e^x.
+ */
+function splitProducts(node: ASTNode, known: string[]): ASTNode {
+  if (node.type === 'variable') {
+    const name = String(node.value);
+    if (known.includes(name)) return node;
+    const suffix = known
+      .filter(candidate => name.length > candidate.length && name.endsWith(candidate))
+      .sort((a, b) => b.length - a.length)
+      .find(candidate => /^[a-zA-Z][a-zA-Z0-9_]*$/.test(name.slice(0, -candidate.length)));
+    if (!suffix) return node;
+    return {
+      type: 'binary',
+      operator: '*',
+      left: splitProducts({ type: 'variable', value: name.slice(0, -suffix.length) }, known),
+      right: { type: 'variable', value: suffix },
+    };
+  }
+  // The exponent binds to the last factor only: c_2x_1^2 → c_2*x_1^2
+  if (node.type === 'binary' && node.operator === '^' && node.left?.type === 'variable') {
+    const base = splitProducts(node.left, known);
+    if (base.type === 'binary') {
+      return { ...base, right: { ...node, left: base.right, right: splitProducts(node.right!, known) } };
+    }
+  }
+  return mapChildren(node, child => splitProducts(child, known));
+}
+
+const mapChildren = (node: ASTNode, map: (child: ASTNode) => ASTNode): ASTNode => {
+  const visit = (child?: ASTNode) => (child ? map(child) : child);
+  return {
+    ...node,
+    left: visit(node.left),
+    right: visit(node.right),
+    operand: visit(node.operand),
+    lower: visit(node.lower),
+    upper: visit(node.upper),
+    args: node.args?.map(map),
+    elements: node.elements?.map(map),
+  };
+};
+
+/**
+ * Fit a regression entry. List variables on either side are the data, bound
+ * to one element per row; every other undefined identifier in the model is
+ * a parameter.
+ */
+export function fitRegression(normalized: string, context: DefinitionContext): RegressionResult {
+  const [lhs, rhs] = normalized.split('~').map(part => part.trim());
+  const isList = (name: string) => context.types[name]?.type === MathType.List && name in context.variables;
+  const known = Object.keys(context.variables);
+  const observedAst = splitProducts(parseExpression(lhs, context), known);
+  const model = splitProducts(parseExpression(rhs, context), known);
+
+  const dataNames = Array.from(new Set([...expressionVariables(observedAst), ...expressionVariables(model)])).filter(isList);
+  if (dataNames.length === 0) {
+    throw new Error('A regression needs list data, e.g. y_1 ~ m x_1 + b');
+  }
+  const parameterNames = expressionVariables(model).filter(
+    name => !isList(name) && !(name in context.variables) && !(name in context.functions) && !RESERVED_NAMES.includes(name)
+  );
+  if (parameterNames.length === 0) {
+    throw new Error('A regression needs at least one free parameter');
+  }
+
+  const dataColumns = Object.fromEntries(dataNames.map(name => [name, listColumn(name, context)]));
+  const rowCount = dataColumns[dataNames[0]].length;
+  if (dataNames.some(name => dataColumns[name].length !== rowCount)) {
+    throw new Error('Regression lists must have the same length');
+  }
+  const rows = Array.from({ length: rowCount }, (_, i) =>
+    Object.fromEntries(dataNames.map(name => [name, dataColumns[name][i]]))
+  );
+
+  const observed = rows.map(row => toNumber(evaluate(observedAst, row, context)));
+  const predict = (parameters: number[]) => {
+    const bound = Object.fromEntries(parameterNames.map((name, j) => [name, parameters[j]]));
+    return rows.map(row => {
+      try {
+        return toNumber(evaluate(model, { ...row, ...bound }, context));
+      } catch {
+        return NaN;
+      }
+    });
+  };
+
+  const fit = fitModel(predict, observed, parameterNames.length);
+  return {
+    ...fit,
+    observed,
+    parameterNames,
+    values: Object.fromEntries(parameterNames.map((name, j) => [name, fit.parameters[j]])),
+    dataColumns,
+    model,
+  };
+}
+
+const substitute = (node: ASTNode, replacements: Record<string, ASTNode>): ASTNode =>
+  node.type === 'variable' && String(node.value) in replacements
+    ? replacements[String(node.value)]
+    : mapChildren(node, child => substitute(child, replacements));
+
+/**
+ * The fitted model as a curve y = f(x) when it depends on a single data
+ * list: that list becomes x and the parameters their fitted values.
+ */
+export function regressionCurve(result: RegressionResult): { variable: string; ast: ASTNode } | null {
+  const modelData = expressionVariables(result.model).filter(name => name in result.dataColumns);
+  if (modelData.length !== 1) return null;
+  const replacements: Record<string, ASTNode> = { [modelData[0]]: { type: 'variable', value: 'x' } };
+  result.parameterNames.forEach(name => {
+    replacements[name] = { type: 'number', value: result.values[name] };
+  });
+  return { variable: modelData[0], ast: substitute(result.model, replacements) };
+}
@@ -2,6 +2,8 @@
 
 import { FunctionDefinition } from '../definitionContext';
 import { MathType } from '../types';
+import { ASTNode } from '../parser';
+import { DistributionFamily } from '../computation/distributions';
 
 export type RuntimeValue = 
   | { kind: 'number'; value: number }
@@ -12,10 +14,24 @@ export type RuntimeValue =
   | { kind: 'vector3d'; x: number; y: number; z: number }
   | { kind: 'curve3d'; parameterName: string; components: [RuntimeValue, RuntimeValue, RuntimeValue] }
   | { kind: 'list'; elements: RuntimeValue[]; elementType?: MathType }
-  | { kind: 'function'; def: FunctionDefinition; boundParams?: Record<string, number> }
+  | { kind: 'matrix'; rows: number[][] }
+  | { kind: 'function'; def: FunctionDefinition; boundParams?: Bindings }
   | { kind: 'polygon'; points: RuntimeValue[] }
-  | { kind: 'distribution'; params: Record<string, number> }
-  | { kind: 'action'; name: string; handler: () => void };
+  | { kind: 'segment'; from: PlanePoint; to: PlanePoint }
+  | { kind: 'line'; through: PlanePoint; direction: PlanePoint }
+  | { kind: 'circle'; center: PlanePoint; radius: number }
+  | { kind: 'distribution'; family: DistributionFamily; params: Record<string, number> }
+  | { kind: 'action'; name: string; handler: () => void }
+  | { kind: 'expression'; ast: ASTNode; variables: string[] };
+
+/** Coordinates of a point in the plane, as held by the geometric constructions */
+export type PlanePoint = { x: number; y: number };
+
+/**
+ * Names bound while evaluating an expression: numbers for the plotting
+ * variables, any value for the typed parameters of a user function.
+ */
+export type Bindings = Record<string, number | RuntimeValue>;
 
 // Helper functions to create runtime values
 export function createNumber(value: number): RuntimeValue {
@@ -30,14 +46,43 @@ export function createPoint(x: number, y: number): RuntimeValue {
   return { kind: 'point', x, y };
 }
 
+export function createPolygon(points: PlanePoint[]): RuntimeValue {
+  return { kind: 'polygon', points: points.map(({ x, y }) => createPoint(x, y)) };
+}
+
+export function createSegment(from: PlanePoint, to: PlanePoint): RuntimeValue {
+  return { kind: 'segment', from, to };
+}
+
+/** The line through `through` along `direction` (not necessarily a unit vector) */
+export function createLine(through: PlanePoint, direction: PlanePoint): RuntimeValue {
+  return { kind: 'line', through, direction };
+}
+
+export function createCircle(center: PlanePoint, radius: number): RuntimeValue {
+  return { kind: 'circle', center, radius };
+}
+
 export function createList(elements: RuntimeValue[], elementType?: MathType): RuntimeValue {
   return { kind: 'list', elements, elementType };
 }
 
-export function createFunction(def: FunctionDefinition, boundParams?: Record<string, number>): RuntimeValue {
+export function createMatrix(rows: number[][]): RuntimeValue {
+  return { kind: 'matrix', rows };
+}
+
+export function createDistribution(family: DistributionFamily, params: Record<string, number>): RuntimeValue {
+  return { kind: 'distribution', family, params };
+}
+
+export function createFunction(def: FunctionDefinition, boundParams?: Bindings): RuntimeValue {
   return { kind: 'function', def, boundParams };
 }
 
+export function createExpression(ast: ASTNode, variables: string[]): RuntimeValue {
+  return { kind: 'expression', ast, variables };
+}
+
 export function createComplex(real: number, imag: number): RuntimeValue {
   return { kind: 'complex', real, imag };
 }
@@ -60,6 +105,31 @@ export function promoteToComplex(value: RuntimeValue): RuntimeValue {
   throw new Error(`Cannot promote ${value.kind} to Complex`);
 }
 
+/**
+ * Build the vector value for a list of coordinates: two entries make a Point,
+ * three a Point3D and any other length a List, the same as list literals.
+ */
+export function createVector(entries: number[]): RuntimeValue {
+  if (entries.length === 2) return createPoint(entries[0], entries[1]);
+  if (entries.length === 3) return createPoint3D(entries[0], entries[1], entries[2]);
+  return createList(entries.map(createNumber), MathType.Number);
+}
+
+/** Coordinates of a Point, Point3D, Vector3D or List of Numbers; null for anything else */
+export function vectorEntries(value: RuntimeValue): number[] | null {
+  switch (value.kind) {
+    case 'point':
+      return [value.x, value.y];
+    case 'point3d':
+    case 'vector3d':
+      return [value.x, value.y, value.z];
+    case 'list':
+      return value.elements.every(isNumber) ? value.elements.map(el => (el as { value: number }).value) : null;
+    default:
+      return null;
+  }
+}
+
 // Type guards
 export function isNumber(value: RuntimeValue): value is { kind: 'number'; value: number } {
   return value.kind === 'number';
@@ -73,11 +143,37 @@ export function isPoint(value: RuntimeValue): value is { kind: 'point'; x: numbe
   return value.kind === 'point';
 }
 
+export function isPolygon(value: RuntimeValue): value is { kind: 'polygon'; points: RuntimeValue[] } {
+  return value.kind === 'polygon';
+}
+
+export function isSegment(value: RuntimeValue): value is { kind: 'segment'; from: PlanePoint; to: PlanePoint } {
+  return value.kind === 'segment';
+}
+
+export function isLine(value: RuntimeValue): value is { kind: 'line'; through: PlanePoint; direction: PlanePoint } {
+  return value.kind === 'line';
+}
+
+export function isCircle(value: RuntimeValue): value is { kind: 'circle'; center: PlanePoint; radius: number } {
+  return value.kind === 'circle';
+}
+
 export function isList(value: RuntimeValue): value is { kind: 'list'; elements: RuntimeValue[]; elementType?: MathType } {
   return value.kind === 'list';
 }
 
-export function isFunction(value: RuntimeValue): value is { kind: 'function'; def: FunctionDefinition; boundParams?: Record<string, number> } {
+export function isMatrix(value: RuntimeValue): value is { kind: 'matrix'; rows: number[][] } {
+  return value.kind === 'matrix';
+}
+
+export function isDistribution(
+  value: RuntimeValue
+): value is { kind: 'distribution'; family: DistributionFamily; params: Record<string, number> } {
+  return value.kind === 'distribution';
+}
+
+export function isFunction(value: RuntimeValue): value is { kind: 'function'; def: FunctionDefinition; boundParams?: Bindings } {
   return value.kind === 'function';
 }
 
@@ -97,6 +193,10 @@ export function isCurve3D(value: RuntimeValue): value is { kind: 'curve3d'; para
   return value.kind === 'curve3d';
 }
 
+export function isExpression(value: RuntimeValue): value is { kind: 'expression'; ast: ASTNode; variables: string[] } {
+  return value.kind === 'expression';
+}
+
 // Convert RuntimeValue kind to MathType
 export function kindToMathType(kind: string): MathType {
   switch (kind) {
@@ -108,10 +208,15 @@ export function kindToMathType(kind: string): MathType {
     case 'vector3d': return MathType.Vector3D;
     case 'curve3d': return MathType.Curve3D;
     case 'list': return MathType.List;
+    case 'matrix': return MathType.Matrix;
     case 'function': return MathType.Function;
     case 'polygon': return MathType.Polygon;
+    case 'segment': return MathType.Segment;
+    case 'line': return MathType.Line;
+    case 'circle': return MathType.Circle;
     case 'distribution': return MathType.Distribution;
     case 'action': return MathType.Action;
+    case 'expression': return MathType.Expression;
     default: return MathType.Unknown;
   }
 }
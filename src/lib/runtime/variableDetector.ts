@@ -61,6 +61,38 @@ export function hasUnboundVariables(
       if (!node.operand) return false;
       return hasUnboundVariables(node.operand, context);
 
+    case 'member':
+      return hasUnboundVariables(node.operand!, context);
+
+    case 'range':
+      return node.elements.some(term => hasUnboundVariables(term, context)) || hasUnboundVariables(node.upper, context);
+
+    case 'index':
+      return hasUnboundVariables(node.left, context) || hasUnboundVariables(node.right, context);
+
+    case 'comprehension': {
+      // The comprehension variable is bound inside the element
+      if (hasUnboundVariables(node.right, context)) return true;
+      const inner: DefinitionContext = {
+        variables: { ...context?.variables, [node.variable]: 0 },
+        functions: context?.functions ?? {},
+        types: context?.types ?? {},
+      };
+      return hasUnboundVariables(node.operand, inner);
+    }
+
+    case 'integral': {
+      // The integration variable is bound inside the integrand, but the bounds
+      // may depend on outer variables
+      if (hasUnboundVariables(node.lower, context) || hasUnboundVariables(node.upper, context)) return true;
+      const inner: DefinitionContext = {
+        variables: { ...context?.variables, [node.variable]: 0 },
+        functions: context?.functions ?? {},
+        types: context?.types ?? {},
+      };
+      return hasUnboundVariables(node.operand, inner);
+    }
+
     default:
       return false;
   }
@@ -9,8 +9,15 @@ import { toolRegistry } from '../registry';
  * Visualizes mathematical functions and expressions on a 2D Cartesian plane.
  * Supports:
  * - Functions of x (e.g., sin(x), x^2)
- * - Points and point lists
+ * - Polar curves r = f(θ) and parametric curves (x(t), y(t)) with a domain t ∈ [a, b]
+ * - Points and point lists; points given by coordinates (A = (1, 2)) can be dragged
+ * - Constructions: segment, line, circle, midpoint, perpendicular and polygon
+ * - Inequalities such as y < x^2 or x > 0 and y < sin(x), shaded with dashed edges when strict
  * - Numeric constants
+ * - 2×2 matrices, drawn as the grid they warp
+ * - Probability distributions, drawn as density or mass plots
+ * - Differential equations: slope fields, solution curves and phase planes
+ * - Zeros, extrema and intersections of the curves as clickable points
  */
 export const graph2DTool: VisualizationTool = {
   id: 'graph-2d',
@@ -23,6 +30,8 @@ export const graph2DTool: VisualizationTool = {
     MathType.Number,
     MathType.Point,
     MathType.List,
+    MathType.Matrix,
+    MathType.Distribution,
     MathType.Boolean  // For implicit 2D curves
   ],
   component: Graph2DTool,
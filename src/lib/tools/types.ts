@@ -19,6 +19,7 @@ export interface ToolProps {
   isActive: boolean; // For optimization - tool can skip updates when inactive
   toolConfig?: Record<string, any>; // Tool-specific configuration
   onConfigChange?: (config: Record<string, any>) => void;
+  onUpdateExpression?: (id: string, latex: string) => void; // Rewrite an expression, e.g. a dragged point
 }
 
 /**
@@ -1,5 +1,7 @@
 // Type system for mathematical expressions
 
+import type { DefinitionContext } from './definitionContext';
+
 export enum MathType {
   Number = 'Number',
   Complex = 'Complex',
@@ -10,10 +12,15 @@ export enum MathType {
   Curve3D = 'Curve3D',
   Surface3D = 'Surface3D',
   List = 'List',
+  Matrix = 'Matrix',
   Function = 'Function',
   Polygon = 'Polygon',
+  Segment = 'Segment',
+  Line = 'Line',
+  Circle = 'Circle',
   Distribution = 'Distribution',
   Action = 'Action',
+  Expression = 'Expression', // Symbolic expression (closed-form results of simplify, solve, ...)
   Unknown = 'Unknown',
   Error = 'Error'
 }
@@ -32,9 +39,161 @@ const debugType = (...args: unknown[]): void => {
   console.log(...args);
 };
 
-export function inferType(expr: string, normalized: string): TypeInfo {
+/** True when a normalized expression is a call to a symbolic algebra command. */
+export function isSymbolicCommand(normalized: string): boolean {
+  return /^(simplify|expand|factor|diff|solve)\(.*\)$/.test(normalized.trim());
+}
+
+/**
+ * True for linear algebra commands that return a list of results (the
+ * factors of a decomposition, eigenvalues, the solution vector).
+ */
+export function isLinearAlgebraCommand(normalized: string): boolean {
+  return /^(lu|qr|svd|eigenvalues|eigenvectors|linsolve)\(.*\)$/.test(normalized.trim());
+}
+
+/** True for the numerical solvers roots, argmin, argmax and intersect */
+export function isRootFindingCommand(normalized: string): boolean {
+  return /^(roots|argmin|argmax|intersect)\(.*\)$/.test(normalized.trim());
+}
+
+/** Distribution constructors such as normal(0, 1) or binomial(10, 0.5) */
+export function isDistributionConstructor(normalized: string): boolean {
+  return /^(normal|uniform|binomial|poisson|exponential|studentt|chi2)\(.*\)$/.test(normalized.trim());
+}
+
+/**
+ * True for a regression entry `observed ~ model`, e.g. y_1 ~ m*x_1 + b.
+ */
+export function isRegression(normalized: string): boolean {
+  const trimmed = normalized.trim();
+  return trimmed.split('~').length === 2 && !trimmed.includes('=');
+}
+
+/** True for a first-order differential equation entry `y' = f(x, y)` */
+export function isDifferentialEquation(normalized: string): boolean {
+  return /^y'\s*=[^=]/.test(normalized.trim());
+}
+
+/**
+ * True for an initial condition `y(x0) = y0` of the differential equation
+ * entries. x0 is a number or a constant (y(0), y(-1.5), y(pi/2)); y(t) = t^2
+ * defines a function.
+ */
+export function isInitialCondition(normalized: string): boolean {
+  return /^y\((?:[\d.\s+\-*/^]|pi|e)+\)\s*=[^=]/.test(normalized.trim());
+}
+
+/**
+ * True for a polar curve `r = f(θ)`, optionally ending in a domain `θ ∈ [a, b]`.
+ * The right-hand side must use θ; r = 2 defines the constant r (or its slider).
+ */
+export function isPolarCurve(normalized: string): boolean {
+  const trimmed = normalized.trim();
+  return /^r\s*=[^=]/.test(trimmed) && /\btheta\b/.test(trimmed.slice(trimmed.indexOf('=') + 1));
+}
+
+/** True for a parametric curve `(x(t), y(t))`, optionally ending in a domain `t ∈ [a, b]` */
+export function isParametricCurve(normalized: string): boolean {
+  const body = normalized.trim().replace(/,t∈\[[^\]]*\]$/, '');
+  return !body.includes('=') && /^\(.*,.*\)$/.test(body) && /\bt\b/.test(body);
+}
+
+/**
+ * True for an inequality in x and y to shade, such as y < x^2 or
+ * x > 0 ∧ y < sin(x). Comparisons inside calls and brackets (if(x < 0, ...),
+ * L[L > 0]) do not count.
+ */
+export function isInequality(normalized: string): boolean {
+  let outer = normalized.trim();
+  for (let previous = ''; previous !== outer; ) {
+    previous = outer;
+    outer = outer.replace(/\([^()[\]]*\)|\[[^()[\]]*\]/g, '()');
+  }
+  return (
+    /[<>]/.test(outer) &&
+    !outer.replace(/[<>]=/g, '').includes('=') &&
+    /(?<![a-zA-Z_])[xy](?![a-zA-Z0-9_])/.test(normalized)
+  );
+}
+
+/**
+ * Types what the definition context knows about: list names, indexed
+ * (L[2] is a number, L[L > 0] and L[2...4] are lists) or combined by
+ * arithmetic, which broadcasts (L*2 + 1 and L + L are lists), and matrix
+ * names in arithmetic (A*A, 2A - B). Returns the type when a list or matrix
+ * is left outside every call, otherwise the expression with each single
+ * index standing for a number, to be typed as usual.
+ */
+function resolveContextNames(normalized: string, context: DefinitionContext): TypeInfo | string {
+  const namesOf = (type: MathType) => Object.keys(context.types).filter(name => context.types[name].type === type);
+  const listNames = namesOf(MathType.List);
+  const matrixNames = namesOf(MathType.Matrix);
+  let resolved = normalized;
+  if (listNames.length > 0) {
+    const names = listNames.join('|');
+    const indexing = new RegExp(`\\b(${names})\\[([^[\\]]*)\\]`, 'g');
+    const listIndex = new RegExp(`[<>,]|\\.\\.\\.|\\b(${names})\\b`);
+    for (let previous = ''; previous !== resolved; ) {
+      previous = resolved;
+      resolved = resolved.replace(indexing, (_, name: string, index: string) => (listIndex.test(index) ? name : '1'));
+    }
+  }
+
+  // Calls (sum(L), det(A)) decide their own type
+  let outside = resolved;
+  for (let previous = ''; previous !== outside; ) {
+    previous = outside;
+    outside = outside.replace(/[a-zA-Z_]\w*\([^()]*\)/g, '1');
+  }
+  const mentions = (names: string[]) => names.length > 0 && new RegExp(`\\b(${names.join('|')})\\b`).test(outside);
+  if (mentions(listNames)) return { type: MathType.List };
+  // A matrix times a point (A*(1, 1)) is a point; only matrix arithmetic stays a matrix
+  if (mentions(matrixNames) && !outside.includes(',')) return { type: MathType.Matrix };
+  return resolved;
+}
+
+export function inferType(expr: string, normalized: string, context?: DefinitionContext): TypeInfo {
   debugType('[inferType] expr:', expr, 'normalized:', normalized);
   
+  // Symbolic commands (operations/definitions/symbolic.ts): solve lists its
+  // roots; the others return expressions, which plot when they involve x
+  if (isSymbolicCommand(normalized)) {
+    if (normalized.startsWith('solve(')) {
+      return { type: MathType.List, elementType: MathType.Expression };
+    }
+    return /\bx\b/.test(normalized)
+      ? { type: MathType.Function, domain: MathType.Number, codomain: MathType.Number }
+      : { type: MathType.Expression };
+  }
+  
+  // Regressions plot their fitted model as a function of the data variable
+  if (isRegression(normalized)) {
+    return { type: MathType.Function, domain: MathType.Number, codomain: MathType.Number };
+  }
+
+  // y' = f(x, y) plots as a slope field with its solution curves
+  if (isDifferentialEquation(normalized)) {
+    return { type: MathType.Function, domain: MathType.Number, codomain: MathType.Number };
+  }
+
+  // Polar and parametric curves map their parameter to points of the plane
+  if (isPolarCurve(normalized) || isParametricCurve(normalized)) {
+    return { type: MathType.Function, domain: MathType.Number, codomain: MathType.Point };
+  }
+
+  // Expressions on lists and matrices the context defines (definitions are typed by the context itself)
+  if (context && !normalized.replace(/[<>!=]=/g, '').includes('=')) {
+    const resolved = resolveContextNames(normalized, context);
+    if (typeof resolved !== 'string') return resolved;
+    normalized = resolved;
+  }
+
+  // Inequalities hold or fail at each point (x, y); the plane shades where they hold
+  if (isInequality(normalized)) {
+    return { type: MathType.Function, domain: [MathType.Number, MathType.Number], codomain: MathType.Boolean };
+  }
+  
   // Check for equations (expressions with = that aren't ==)
   if (normalized.includes('=') && !normalized.includes('==')) {
     const parts = normalized.split('=');
@@ -184,9 +343,80 @@ function inferReturnType(expr: string): MathType {
   return MathType.Number;
 }
 
+/**
+ * Calls to integrate written as the integrals they parse to (see
+ * integrateCallToIntegral in parser.ts): integrate(t^2, t, 0, 3) →
+ * int{t,0,3}(t^2), and integrate(f, 0, 1) integrates over x.
+ */
+function integrateCallsAsIntegrals(expr: string): string {
+  let result = expr;
+  let start = result.lastIndexOf('integrate(');
+  for (; start >= 0; start = start > 0 ? result.lastIndexOf('integrate(', start - 1) : -1) {
+    if (/\w/.test(result[start - 1] ?? '')) continue;
+    const args: string[] = [];
+    let depth = 0;
+    let from = start + 'integrate('.length;
+    let close = -1;
+    for (let i = from - 1; i < result.length && close < 0; i++) {
+      const char = result[i];
+      if ('([{'.includes(char)) depth++;
+      else if (')]}'.includes(char) && --depth === 0) close = i;
+      else if (char === ',' && depth === 1) {
+        args.push(result.slice(from, i));
+        from = i + 1;
+      }
+    }
+    if (close < 0) continue;
+    args.push(result.slice(from, close));
+    if (args.length !== 3 && args.length !== 4) continue;
+    const [body, variable, lower, upper] = args.length === 4 ? args : [args[0], 'x', args[1], args[2]];
+    result = `${result.slice(0, start)}int{${variable.trim()},${lower},${upper}}(${body})${result.slice(close + 1)}`;
+  }
+  return result;
+}
+
+/**
+ * The expression with each integral's variable replaced by 0 where it binds,
+ * int{x,0,1}(x^2) → int{0,0,1}(0^2), so what remains of x, y or z
+ * is free. Innermost integrals come last and are rewritten first.
+ */
+function withoutBoundVariables(expr: string): string {
+  const starts = Array.from(expr.matchAll(/int\{([a-zA-Z_]\w*),[^{}]*\}\(/g));
+  return starts.reverse().reduce((rest, match) => {
+    const open = match.index! + match[0].length - 1;
+    let depth = 0;
+    let close = open;
+    for (; close < rest.length; close++) {
+      if (rest[close] === '(') depth++;
+      else if (rest[close] === ')' && --depth === 0) break;
+    }
+    const variable = new RegExp(`\\b${match[1]}\\b`, 'g');
+    const header = `int{0${match[0].slice(match[1].length + 4)}`;
+    return rest.slice(0, match.index!) + header + rest.slice(open + 1, close).replace(variable, '0') + rest.slice(close);
+  }, expr);
+}
+
 function inferExpressionType(expr: string): TypeInfo {
   expr = expr.trim();
   
+  // Matrix constructors and matrix-valued operations (bmatrix normalizes to matrix(...))
+  if (/^(matrix|identity|transpose|inv)\(/.test(expr)) {
+    return { type: MathType.Matrix };
+  }
+  if (isLinearAlgebraCommand(expr)) {
+    return { type: MathType.List };
+  }
+  if (isDistributionConstructor(expr)) {
+    return { type: MathType.Distribution };
+  }
+  // Seeded samples from a distribution; solveODE's trajectory points
+  if (/^(random|solveODE)\(/.test(expr)) {
+    return { type: MathType.List };
+  }
+  if (isRootFindingCommand(expr)) {
+    return { type: /^arg(min|max)\(/.test(expr) ? MathType.Number : MathType.List };
+  }
+  
   // Point literal: (x, y) or (x, y, z)
   if (expr.startsWith('(') && expr.includes(',') && !expr.includes(';')) {
     // Count commas to determine dimensionality
@@ -202,6 +432,13 @@ function inferExpressionType(expr: string): TypeInfo {
   // IMPORTANT: Check for variables BEFORE checking for pure numbers
   // This ensures cos(x) is typed as Function, not Number
   
+  // Definite integrals bind their variable: int{x,0,1}(x^2) and
+  // integrate(t^2, t, 0, 3) are numbers, int{t,0,x}(t^2) a function of x
+  const integrals = integrateCallsAsIntegrals(expr);
+  if (integrals.includes('int{') && !/\b[xyz]\b/.test(withoutBoundVariables(integrals))) {
+    return { type: MathType.Number };
+  }
+  
   // Check if expression contains x, y, or z variables
   const hasX = /\bx\b/.test(expr);
   const hasY = /\by\b/.test(expr);
@@ -290,6 +527,8 @@ export function getTypeLabel(typeInfo: TypeInfo): string {
       return 'Surface3D';
     case MathType.List:
       return typeInfo.elementType ? `List<${typeInfo.elementType}>` : 'List';
+    case MathType.Matrix:
+      return 'Matrix';
     case MathType.Function:
       if (typeInfo.domain && typeInfo.codomain) {
         // Handle tuple domain for multi-parameter functions
@@ -304,6 +543,12 @@ export function getTypeLabel(typeInfo: TypeInfo): string {
       return 'Number → Number';
     case MathType.Polygon:
       return 'Polygon';
+    case MathType.Segment:
+      return 'Segment';
+    case MathType.Line:
+      return 'Line';
+    case MathType.Circle:
+      return 'Circle';
     case MathType.Distribution:
       return 'Distribution';
     case MathType.Action:
@@ -335,9 +580,14 @@ export function getTypeColor(type: MathType): string {
       return 'text-indigo-600';
     case MathType.List:
       return 'text-orange-500';
+    case MathType.Matrix:
+      return 'text-amber-600';
     case MathType.Function:
       return 'text-pink-500';
     case MathType.Polygon:
+    case MathType.Segment:
+    case MathType.Line:
+    case MathType.Circle:
       return 'text-indigo-500';
     case MathType.Distribution:
       return 'text-yellow-500';
@@ -2,6 +2,7 @@
 
 import { DefinitionContext, RESERVED_NAMES, CONSTANTS, isImplicitRelation } from '../definitionContext';
 import { getBuiltinFunctions } from '../runtime/callables';
+import { isParametricCurve, isPolarCurve, MathType } from '../types';
 import { UndefinedIdentifierError, CircularDependencyError } from '../errors/RuntimeError';
 import { getSuggestions } from './suggestions';
 
@@ -30,6 +31,11 @@ export function validateExpression(
     return errors;
   }
 
+  // A fitted regression has resolved its identifiers into data lists and parameters
+  if (context.regressions?.[normalized.trim()]) {
+    return errors;
+  }
+
   // For definitions, only validate the RHS and extract the LHS identifier
   let expressionToValidate = normalized;
   let lhsIdentifier: string | undefined;
@@ -65,6 +71,18 @@ export function validateExpression(
     }
   }
 
+  // θ and t are the parameters of polar and parametric curves
+  if (isPolarCurve(normalized)) localParameters.add('theta');
+  if (isParametricCurve(normalized)) localParameters.add('t');
+
+  // The T of a matrix transpose A^T is not an identifier, unless T is defined
+  if (!('T' in context.variables)) {
+    expressionToValidate = expressionToValidate.replace(
+      /\b([a-zA-Z][a-zA-Z0-9_]*)\^(?:T|\(T\))(?![a-zA-Z0-9_])/g,
+      (transpose: string, name: string) => (context.types[name]?.type === MathType.Matrix ? name : transpose)
+    );
+  }
+
   // Extract all identifiers from the expression (RHS only for definitions)
   const identifierRegex = /\b([a-zA-Z][a-zA-Z0-9_]*)\b/g;
   const matches = expressionToValidate.matchAll(identifierRegex);
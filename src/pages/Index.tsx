@@ -8,6 +8,7 @@ import { ToolkitDefinitionsPanel } from "@/components/ToolkitDefinitionsPanel";
 import { MathKeyboard } from "@/components/MathKeyboard";
 import { inferType, TypeInfo, MathType } from "@/lib/types";
 import { validateExpression, detectCircularDependency } from "@/lib/validation/expressionValidator";
+import { definitionType } from "@/lib/definitionContext";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { ChevronLeft, ChevronRight, Keyboard } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -21,6 +22,17 @@ import { getDefaultLayout, WORKSPACE_LAYOUTS } from "@/lib/workspace/layouts";
 import { loadWorkspaceState, saveWorkspaceState, updateToolState, getToolState } from "@/lib/workspace/manager";
 import { expressionEngine } from "@/lib/expression";
 import { toolRegistry } from "@/lib/tools";
+import {
+  ParameterSlider,
+  findFreeParameters,
+  isSliderBindableError,
+  parameterDefinitions,
+  parseParameterSliders,
+  serializeParameterSliders,
+  syncParameterSliders,
+  updateParameterSlider,
+} from "@/lib/parameters/sliders";
+import { useSliderAnimation } from "@/hooks/useSliderAnimation";
 
 const GRAPH_COLORS = [
   "hsl(var(--graph-1))",
@@ -126,6 +138,12 @@ const Index = () => {
     return [];
   });
   
+  // Sliders for undefined constants referenced by expressions
+  const [parameterSliders, setParameterSliders] = useState<ParameterSlider[]>(() => {
+    const saved = localStorage.getItem('graph-parameter-sliders');
+    return saved ? parseParameterSliders(saved) : [];
+  });
+
   const [activeId, setActiveId] = useState<string | null>(null);
   const [isPanelCollapsed, setIsPanelCollapsed] = useState(false);
   const [isKeyboardVisible, setIsKeyboardVisible] = useState(false);
@@ -183,6 +201,30 @@ const Index = () => {
     localStorage.setItem('graph-expressions', JSON.stringify(expressions));
   }, [expressions]);
 
+  // Persist parameter sliders; a playing slider changes every frame, so its
+  // position is saved once the animation stops
+  useEffect(() => {
+    if (parameterSliders.some(slider => slider.playing)) return;
+    localStorage.setItem('graph-parameter-sliders', serializeParameterSliders(parameterSliders));
+  }, [parameterSliders]);
+
+  // Create sliders for newly referenced constants and drop unused ones
+  useEffect(() => {
+    const context = expressionEngine.buildContext([
+      ...toolkitDefinitions.map(td => ({ normalized: td.normalized })),
+      ...expressions.map(expr => ({ normalized: expr.normalized })),
+    ]);
+    const names = findFreeParameters(expressions, context);
+    setParameterSliders(prev => syncParameterSliders(prev, names));
+  }, [expressions, toolkitDefinitions]);
+
+  useSliderAnimation(parameterSliders, setParameterSliders);
+
+  const parameterExpressions = useMemo(
+    () => parameterDefinitions(parameterSliders),
+    [parameterSliders]
+  );
+
   // Persist workspace state
   useEffect(() => {
     saveWorkspaceState(workspaceState);
@@ -262,7 +304,10 @@ const Index = () => {
         const context = expressionEngine.buildContext(allContextExpressions);
         
         
-        const errors = validateExpression(expr.normalized, context, expr.id, index);
+        // Undefined constants get a parameter slider instead of an error
+        const errors = validateExpression(expr.normalized, context, expr.id, index).filter(
+          error => !isSliderBindableError(error)
+        );
         
         
         // Check for circular dependencies
@@ -275,7 +320,11 @@ const Index = () => {
           });
         }
         
-        return { ...expr, errors };
+        // Definitions take the types the context inferred (typed function
+        // signatures), which can change when what they depend on does
+        const typeInfo = definitionType(expr.normalized, context) ?? inferType(expr.latex, expr.normalized, context);
+
+        return { ...expr, typeInfo, errors };
       });
     });
   };
@@ -360,6 +409,12 @@ const Index = () => {
     }
   };
 
+  const updateParameter = (name: string, patch: Partial<Omit<ParameterSlider, "name">>) => {
+    setParameterSliders(prev =>
+      prev.map(slider => (slider.name === name ? updateParameterSlider(slider, patch) : slider))
+    );
+  };
+
   const updateExpressionModules = (id: string, modules: string[] | null) => {
     setExpressions(prev =>
       prev.map(expr => (expr.id === id ? { ...expr, allowedModules: modules } : expr))
@@ -408,6 +463,8 @@ const Index = () => {
                       onSetActiveMathInput={setActiveMathInput}
                       moduleOptions={moduleInstances}
                       onUpdateModules={updateExpressionModules}
+                      parameterSliders={parameterSliders}
+                      onUpdateParameter={updateParameter}
                     />
                     <div className="border-t border-border">
                       <TypeTable 
@@ -447,6 +504,12 @@ const Index = () => {
                     color: 'hsl(var(--muted-foreground))',
                     typeInfo: td as any,
                   })),
+                  // Slider-bound parameters next, so user definitions can override them
+                  ...parameterExpressions.map(param => ({
+                    ...param,
+                    color: 'hsl(var(--muted-foreground))',
+                    typeInfo: { type: MathType.Number },
+                  })),
                   // Then user expressions
                   ...expressions
                 ]}
@@ -455,6 +518,7 @@ const Index = () => {
                 onLayoutChange={handleLayoutChange}
                 toolStates={workspaceState.toolStates}
                 onToolStateChange={handleToolStateChange}
+                onUpdateExpression={updateExpression}
               />
               
               {/* Keyboard Toggle Button */}
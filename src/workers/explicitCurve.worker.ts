@@ -0,0 +1,57 @@
+/// <reference lib="webworker" />
+
+import { ASTNode } from "@/lib/parser";
+import { buildDefinitionContext, DefinitionContext } from "@/lib/definitionContext";
+import { evaluateToNumber } from "@/lib/runtime/evaluator";
+import { sampleFunction } from "@/lib/runtime/explicitSampling";
+
+interface WorkerRequest {
+  jobId: string;
+  expressionId: string;
+  ast: ASTNode;
+  definitions: Array<{ normalized: string }>;
+  bounds: { xMin: number; xMax: number; yMin: number; yMax: number };
+  width: number;
+  height: number;
+}
+
+interface WorkerResponse {
+  jobId: string;
+  expressionId: string;
+  paths: Array<Array<{ x: number; y: number }>>;
+}
+
+// Every curve of a graph shares the definitions, so keep the last context
+let cachedContext: { key: string; context: DefinitionContext } | null = null;
+
+const contextFor = (definitions: WorkerRequest["definitions"]) => {
+  const key = definitions.map((d) => d.normalized).join("\n");
+  if (cachedContext?.key !== key) {
+    cachedContext = { key, context: buildDefinitionContext(definitions) };
+  }
+  return cachedContext.context;
+};
+
+const postResult = (message: WorkerResponse) => {
+  (self as unknown as DedicatedWorkerGlobalScope).postMessage(message);
+};
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const payload = event.data;
+  try {
+    const context = contextFor(payload.definitions);
+    const { bounds } = payload;
+    // Reach half a screen past either side, so panning shows curve while the next job runs
+    const overscan = (bounds.xMax - bounds.xMin) / 2;
+    const paths = sampleFunction(
+      (x) => evaluateToNumber(payload.ast, x, context),
+      bounds,
+      { width: payload.width, height: payload.height },
+      [bounds.xMin - overscan, bounds.xMax + overscan]
+    );
+    postResult({ jobId: payload.jobId, expressionId: payload.expressionId, paths });
+  } catch (error) {
+    console.error("[explicitCurve.worker] Failed to sample explicit curve", error);
+    postResult({ jobId: payload.jobId, expressionId: payload.expressionId, paths: [] });
+  }
+});
@@ -3,6 +3,8 @@
 import { parseExpression } from "@/lib/parser";
 import { buildDefinitionContext } from "@/lib/definitionContext";
 import { ImplicitCurve2DEvaluator } from "@/lib/computation/evaluators/ImplicitCurve2DEvaluator";
+import { InequalityRegion2DEvaluator } from "@/lib/computation/evaluators/InequalityRegion2DEvaluator";
+import { isInequality } from "@/lib/types";
 
 interface WorkerRequest {
   jobId: string;
@@ -16,12 +18,16 @@ interface WorkerRequest {
 interface WorkerResponse {
   jobId: string;
   expressionId: string;
-  segments: Array<{ points: Array<{ x: number; y: number }> }>;
+  // Strict inequalities draw their boundary dashed
+  segments: Array<{ points: Array<{ x: number; y: number }>; dashed?: boolean }>;
+  // Inequalities only: polygons covering the shaded region
+  regions?: Array<Array<{ x: number; y: number }>>;
 }
 
-type SegmentBatch = Array<{ points: Array<{ x: number; y: number }> }>;
+type SegmentBatch = WorkerResponse["segments"];
+type TileResult = Pick<WorkerResponse, "segments" | "regions">;
 
-const tileCache = new Map<string, SegmentBatch>();
+const tileCache = new Map<string, TileResult>();
 const cacheOrder: string[] = [];
 const MAX_CACHE_ENTRIES = 400;
 
@@ -29,8 +35,8 @@ const postResult = (message: WorkerResponse) => {
   (self as unknown as DedicatedWorkerGlobalScope).postMessage(message);
 };
 
-const addToCache = (key: string, segments: SegmentBatch) => {
-  tileCache.set(key, segments);
+const addToCache = (key: string, result: TileResult) => {
+  tileCache.set(key, result);
   cacheOrder.push(key);
   if (cacheOrder.length > MAX_CACHE_ENTRIES) {
     const oldest = cacheOrder.shift();
@@ -40,8 +46,34 @@ const addToCache = (key: string, segments: SegmentBatch) => {
   }
 };
 
-const buildTileSegments = (
-  evaluator: ImplicitCurve2DEvaluator,
+const evaluateTile = (
+  evaluator: ImplicitCurve2DEvaluator | InequalityRegion2DEvaluator,
+  tileBounds: WorkerRequest["bounds"],
+  tileResolution: number
+): TileResult => {
+  const options = { bounds: tileBounds, resolution: tileResolution };
+  if (evaluator instanceof InequalityRegion2DEvaluator) {
+    const { fills, boundaries } = evaluator.evaluateRegion(options);
+    return { segments: boundaries.map(({ points, strict }) => ({ points, dashed: strict })), regions: fills };
+  }
+  return { segments: evaluator.evaluateCurve(options).segments };
+};
+
+// The runs of a polyline inside the bounds; dropping the points outside would join its ends with a chord
+const clipPolyline = (points: Array<{ x: number; y: number }>, inside: (point: { x: number; y: number }) => boolean) => {
+  const runs: Array<Array<{ x: number; y: number }>> = [[]];
+  points.forEach((point) => {
+    if (inside(point)) {
+      runs[runs.length - 1].push(point);
+    } else if (runs[runs.length - 1].length > 0) {
+      runs.push([]);
+    }
+  });
+  return runs.filter((run) => run.length >= 2);
+};
+
+const buildTile = (
+  evaluator: ImplicitCurve2DEvaluator | InequalityRegion2DEvaluator,
   baseKey: string,
   tileBounds: WorkerRequest["bounds"],
   tileResolution: number
@@ -51,12 +83,9 @@ const buildTileSegments = (
   if (cached) {
     return cached;
   }
-  const result = evaluator.evaluateCurve({
-    bounds: tileBounds,
-    resolution: tileResolution,
-  });
-  addToCache(cacheKey, result.segments);
-  return result.segments;
+  const result = evaluateTile(evaluator, tileBounds, tileResolution);
+  addToCache(cacheKey, result);
+  return result;
 };
 
 self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
@@ -64,7 +93,9 @@ self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
   try {
     const context = buildDefinitionContext(payload.definitions);
     const ast = parseExpression(payload.expression, context);
-    const evaluator = new ImplicitCurve2DEvaluator(ast, context);
+    const evaluator = isInequality(payload.expression)
+      ? new InequalityRegion2DEvaluator(ast, context)
+      : new ImplicitCurve2DEvaluator(ast, context);
 
     const bounds = payload.bounds;
     const definitionKey = payload.definitions.map((d) => d.normalized).sort().join("|");
@@ -82,7 +113,13 @@ self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
     const tileResolution = Math.max(12, Math.floor(payload.resolution / Math.max(tilesAcross, tilesDown)));
 
     const aggregated: SegmentBatch = [];
+    const regions: NonNullable<WorkerResponse["regions"]> = [];
     const margin = tileSize * 0.05;
+    const inBounds = (point: { x: number; y: number }) =>
+      point.x >= bounds.xMin - margin &&
+      point.x <= bounds.xMax + margin &&
+      point.y >= bounds.yMin - margin &&
+      point.y <= bounds.yMax + margin;
 
     for (let ix = xStart; ix <= xEnd; ix++) {
       for (let iy = yStart; iy <= yEnd; iy++) {
@@ -92,19 +129,14 @@ self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
           yMin: iy * tileSize,
           yMax: (iy + 1) * tileSize,
         };
-        const segments = buildTileSegments(evaluator, baseKey, tileBounds, tileResolution);
-        segments.forEach((segment) => {
-          const clippedPoints = segment.points.filter(
-            (point) =>
-              point.x >= bounds.xMin - margin &&
-              point.x <= bounds.xMax + margin &&
-              point.y >= bounds.yMin - margin &&
-              point.y <= bounds.yMax + margin
-          );
-          if (clippedPoints.length >= 2) {
-            aggregated.push({ points: clippedPoints });
-          }
+        const tile = buildTile(evaluator, baseKey, tileBounds, tileResolution);
+        tile.segments.forEach((segment) => {
+          clipPolyline(segment.points, inBounds).forEach((points) => {
+            aggregated.push(segment.dashed ? { points, dashed: true } : { points });
+          });
         });
+        // Region polygons stay whole: the canvas cuts off whatever lies past the bounds
+        tile.regions?.forEach((polygon) => regions.push(polygon));
       }
     }
 
@@ -112,6 +144,7 @@ self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
       jobId: payload.jobId,
       expressionId: payload.expressionId,
       segments: aggregated,
+      ...(evaluator instanceof InequalityRegion2DEvaluator ? { regions } : {}),
     });
   } catch (error) {
     console.error("[implicitCurve.worker] Failed to evaluate implicit curve", error);
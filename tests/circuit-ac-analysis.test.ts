@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { CircuitComponent } from "@/lib/circuits/simulator";
+import { logFrequencies, simulateAC, toDecibels } from "@/lib/circuits/acAnalysis";
+
+const acSource = (id: string, from: string, to: string): CircuitComponent => ({
+  id,
+  kind: "voltage-source",
+  from,
+  to,
+  waveform: "ac",
+  value: 1,
+  amplitude: 1,
+  frequency: 50,
+  phase: 0,
+  offset: 0,
+});
+
+const nearestIndex = (frequencies: Float64Array, target: number) => {
+  let best = 0;
+  frequencies.forEach((frequency, index) => {
+    if (Math.abs(Math.log(frequency / target)) < Math.abs(Math.log(frequencies[best] / target))) {
+      best = index;
+    }
+  });
+  return best;
+};
+
+describe("AC small-signal analysis", () => {
+  it("log-spaces the sweep with the requested density", () => {
+    const frequencies = logFrequencies({ startFrequency: 10, stopFrequency: 10_000, pointsPerDecade: 10 });
+    expect(frequencies.length).toBe(31);
+    expect(frequencies[0]).toBeCloseTo(10, 6);
+    expect(frequencies[10]).toBeCloseTo(100, 6);
+    expect(frequencies[30]).toBeCloseTo(10_000, 3);
+  });
+
+  it("reproduces the -3 dB corner and -45° phase of an RC low-pass", () => {
+    const resistance = 1_000;
+    const capacitance = 1e-6;
+    const corner = 1 / (2 * Math.PI * resistance * capacitance);
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      acSource("vs1", "vin", "n0"),
+      { id: "r1", kind: "resistor", from: "vin", to: "vout", value: resistance },
+      { id: "c1", kind: "capacitor", from: "vout", to: "n0", value: capacitance },
+    ];
+    const result = simulateAC(components, {
+      startFrequency: corner / 100,
+      stopFrequency: corner * 100,
+      pointsPerDecade: 10,
+    });
+    const cornerIndex = nearestIndex(result.frequencies, corner);
+    const gain = toDecibels(result.nodeMagnitudes.vout);
+    expect(gain[0]).toBeCloseTo(0, 2);
+    expect(gain[cornerIndex]).toBeCloseTo(-3.01, 1);
+    expect(result.nodePhases.vout[cornerIndex]).toBeCloseTo(-45, 0);
+    // 20 dB/decade roll-off above the corner
+    expect(gain[gain.length - 1] - gain[gain.length - 11]).toBeCloseTo(-20, 0);
+    expect(result.nodeMagnitudes.vin[cornerIndex]).toBeCloseTo(1, 6);
+  });
+
+  it("peaks a series RLC at its resonant frequency", () => {
+    const inductance = 1e-3;
+    const capacitance = 1e-6;
+    const resonance = 1 / (2 * Math.PI * Math.sqrt(inductance * capacitance));
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      acSource("vs1", "vin", "n0"),
+      { id: "l1", kind: "inductor", from: "vin", to: "mid", value: inductance },
+      { id: "c1", kind: "capacitor", from: "mid", to: "out", value: capacitance },
+      { id: "r1", kind: "resistor", from: "out", to: "n0", value: 10 },
+    ];
+    const result = simulateAC(components, {
+      startFrequency: resonance / 10,
+      stopFrequency: resonance * 10,
+      pointsPerDecade: 50,
+    });
+    const peakIndex = result.nodeMagnitudes.out.reduce(
+      (best, value, index, series) => (value > series[best] ? index : best),
+      0
+    );
+    expect(result.frequencies[peakIndex] / resonance).toBeCloseTo(1, 1);
+    expect(result.nodeMagnitudes.out[peakIndex]).toBeCloseTo(1, 2);
+    expect(result.componentMagnitudes.l1[peakIndex]).toBeCloseTo(0.1, 3);
+  });
+
+  it("requires an AC stimulus", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 5 },
+      { id: "r1", kind: "resistor", from: "vin", to: "n0", value: 1_000 },
+    ];
+    expect(() => simulateAC(components, { startFrequency: 1, stopFrequency: 1_000, pointsPerDecade: 5 })).toThrow(
+      /AC source/
+    );
+  });
+});
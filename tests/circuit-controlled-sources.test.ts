@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { evaluate } from "mathjs";
+import { CircuitComponent, simulateCircuit } from "@/lib/circuits/simulator";
+import { solveOperatingPoint } from "@/lib/circuits/dcAnalysis";
+import { simulateAC } from "@/lib/circuits/acAnalysis";
+import { solveSymbolicCircuit } from "@/lib/circuits/symbolic";
+import { componentUsesNode, renameCircuitNodes } from "@/lib/circuits/editorModel";
+
+const GROUND: CircuitComponent = { id: "g1", kind: "ground", from: "n0", to: "gnd" };
+
+const lastSample = (samples: ArrayLike<number>) => samples[samples.length - 1];
+
+describe("controlled sources", () => {
+  it("amplifies with a non-inverting op-amp stage", () => {
+    /*
+      vin --(+)
+              opamp ---- out
+      fb  --(-)       |
+       |            [9k]
+       +--------------+
+       |
+      [1k]
+       |
+      gnd
+    */
+    const components: CircuitComponent[] = [
+      GROUND,
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 0.5 },
+      { id: "u1", kind: "opamp", from: "out", to: "n0", controlPos: "vin", controlNeg: "fb" },
+      { id: "rf", kind: "resistor", from: "out", to: "fb", value: 9_000 },
+      { id: "rg", kind: "resistor", from: "fb", to: "n0", value: 1_000 },
+    ];
+    const op = solveOperatingPoint(components);
+    expect(op.nodeVoltages.out).toBeCloseTo(5, 9);
+    expect(op.nodeVoltages.fb).toBeCloseTo(0.5, 9);
+
+    const transient = simulateCircuit(components, { dt: 1e-4, duration: 1e-3 });
+    expect(lastSample(transient.nodeVoltages.out)).toBeCloseTo(5, 9);
+    // Branch currents follow the voltage-source convention, so a sourcing output reads negative
+    expect(lastSample(transient.componentCurrents.u1)).toBeCloseTo(-5e-4, 9);
+  });
+
+  it("inverts through an ideal op-amp with a virtual ground", () => {
+    const components: CircuitComponent[] = [
+      GROUND,
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 1 },
+      { id: "rin", kind: "resistor", from: "vin", to: "sum", value: 1_000 },
+      { id: "rf", kind: "resistor", from: "sum", to: "out", value: 4_700 },
+      { id: "u1", kind: "opamp", from: "out", to: "n0", controlPos: "n0", controlNeg: "sum" },
+    ];
+    const op = solveOperatingPoint(components);
+    expect(op.nodeVoltages.sum).toBeCloseTo(0, 9);
+    expect(op.nodeVoltages.out).toBeCloseTo(-4.7, 9);
+  });
+
+  it("drives voltage- and current-controlled outputs from the sensed quantity", () => {
+    const components: CircuitComponent[] = [
+      GROUND,
+      { id: "vs1", kind: "voltage-source", from: "a", to: "n0", waveform: "dc", value: 2 },
+      { id: "r1", kind: "resistor", from: "a", to: "n0", value: 1_000 },
+      { id: "e1", kind: "vcvs", from: "e", to: "n0", controlPos: "a", controlNeg: "n0", value: 3 },
+      { id: "re", kind: "resistor", from: "e", to: "n0", value: 1_000 },
+      { id: "gm1", kind: "vccs", from: "g", to: "n0", controlPos: "a", controlNeg: "n0", value: 1e-3 },
+      { id: "rgm", kind: "resistor", from: "g", to: "n0", value: 500 },
+      // 0 V source used as an ammeter for the current-controlled sources
+      { id: "vsense", kind: "voltage-source", from: "a", to: "s", waveform: "dc", value: 0 },
+      { id: "rs", kind: "resistor", from: "s", to: "n0", value: 2_000 },
+      { id: "h1", kind: "ccvs", from: "h", to: "n0", controlSource: "vsense", value: 1_000 },
+      { id: "rh", kind: "resistor", from: "h", to: "n0", value: 1_000 },
+      { id: "f1", kind: "cccs", from: "f", to: "n0", controlSource: "vsense", value: 5 },
+      { id: "rfc", kind: "resistor", from: "f", to: "n0", value: 100 },
+    ];
+    const op = solveOperatingPoint(components);
+    expect(op.nodeVoltages.e).toBeCloseTo(6, 9);
+    expect(op.nodeVoltages.g).toBeCloseTo(1, 9);
+    // 1 mA flows through the sense source
+    expect(op.nodeVoltages.h).toBeCloseTo(1, 9);
+    expect(op.nodeVoltages.f).toBeCloseTo(0.5, 9);
+    expect(op.componentCurrents.f1).toBeCloseTo(5e-3, 12);
+
+    const transient = simulateCircuit(components, { dt: 1e-4, duration: 5e-4 });
+    expect(lastSample(transient.nodeVoltages.e)).toBeCloseTo(6, 9);
+    expect(lastSample(transient.nodeVoltages.f)).toBeCloseTo(0.5, 9);
+  });
+
+  it("rejects current-controlled sources without a current-carrying reference", () => {
+    const components: CircuitComponent[] = [
+      GROUND,
+      { id: "vs1", kind: "voltage-source", from: "a", to: "n0", waveform: "dc", value: 1 },
+      { id: "r1", kind: "resistor", from: "a", to: "n0", value: 1_000 },
+      { id: "f1", kind: "cccs", from: "f", to: "n0", controlSource: "r1", value: 2 },
+      { id: "rf", kind: "resistor", from: "f", to: "n0", value: 1_000 },
+    ];
+    expect(() => solveOperatingPoint(components)).toThrow(/must sense the current/);
+  });
+
+  it("places the pole of an inverting active low-pass", () => {
+    // Inverting stage with Rf || C: gain -Rf/Rin, corner at 1 / (2π Rf C)
+    const components: CircuitComponent[] = [
+      GROUND,
+      {
+        id: "vs1",
+        kind: "voltage-source",
+        from: "vin",
+        to: "n0",
+        waveform: "ac",
+        value: 1,
+        amplitude: 1,
+        frequency: 1_000,
+        phase: 0,
+        offset: 0,
+      },
+      { id: "rin", kind: "resistor", from: "vin", to: "sum", value: 1_000 },
+      { id: "rf", kind: "resistor", from: "sum", to: "out", value: 10_000 },
+      { id: "cf", kind: "capacitor", from: "sum", to: "out", value: 1e-8 },
+      { id: "u1", kind: "opamp", from: "out", to: "n0", controlPos: "n0", controlNeg: "sum" },
+    ];
+    const corner = 1 / (2 * Math.PI * 10_000 * 1e-8);
+    const result = simulateAC(components, { startFrequency: 10, stopFrequency: corner, pointsPerDecade: 1 });
+    expect(result.nodeMagnitudes.out[0]).toBeCloseTo(10, 3);
+    expect(Math.abs(result.nodePhases.out[0])).toBeCloseTo(180, 0);
+    const atCorner = result.nodeMagnitudes.out[result.frequencies.length - 1];
+    expect(atCorner).toBeCloseTo(10 / Math.SQRT2, 3);
+  });
+
+  it("solves op-amp stages symbolically", () => {
+    const components: CircuitComponent[] = [
+      GROUND,
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 2 },
+      { id: "u1", kind: "opamp", from: "out", to: "n0", controlPos: "vin", controlNeg: "fb" },
+      { id: "rf", kind: "resistor", from: "out", to: "fb", value: 3_000 },
+      { id: "rg", kind: "resistor", from: "fb", to: "n0", value: 1_000 },
+    ];
+    const result = solveSymbolicCircuit(components);
+    expect(evaluate(result.nodeVoltages.out.voltage, { s: 2 })).toBeCloseTo(8, 9);
+    expect(evaluate(result.nodeVoltages.fb.voltage, { s: 2 })).toBeCloseTo(2, 9);
+  });
+
+  it("follows renamed and merged sense nodes in the editor", () => {
+    const sources: CircuitComponent[] = [
+      { id: "e1", kind: "vcvs", from: "out", to: "gnd", controlPos: "sp", controlNeg: "sn", value: 2 },
+      { id: "u1", kind: "opamp", from: "out2", to: "gnd", controlPos: "sp", controlNeg: "fb" },
+    ];
+    const [vcvs, opamp] = renameCircuitNodes(sources, new Map([["sp", "in"], ["sn", "gnd"]]));
+    expect(vcvs).toMatchObject({ controlPos: "in", controlNeg: "gnd" });
+    expect(opamp).toMatchObject({ controlPos: "in", controlNeg: "fb" });
+    // Sensing a node keeps it in use, so it is not discarded or removed silently
+    expect(componentUsesNode(sources[1], "fb")).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { CircuitComponent, simulateCircuit } from "@/lib/circuits/simulator";
+import { simulateDCSweep, solveOperatingPoint } from "@/lib/circuits/dcAnalysis";
+import { simulateAC } from "@/lib/circuits/acAnalysis";
+import { THERMAL_VOLTAGE } from "@/lib/circuits/devices";
+
+describe("DC analysis", () => {
+  it("opens capacitors and shorts inductors at the operating point", () => {
+    /*
+          vin o--[1k]--o a --L-- o b
+            |                    |  \
+          [10 V]               [1k] [C]
+            |                    |  /
+          gnd ------------------ gnd
+    */
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 10 },
+      { id: "r1", kind: "resistor", from: "vin", to: "a", value: 1_000 },
+      { id: "l1", kind: "inductor", from: "a", to: "b", value: 0.01 },
+      { id: "r2", kind: "resistor", from: "b", to: "n0", value: 1_000 },
+      { id: "c1", kind: "capacitor", from: "b", to: "n0", value: 1e-6 },
+    ];
+    const op = solveOperatingPoint(components);
+    expect(op.nodeVoltages.a).toBeCloseTo(5, 6);
+    expect(op.nodeVoltages.b).toBeCloseTo(5, 6);
+    expect(op.componentCurrents.l1).toBeCloseTo(0.005, 9);
+    expect(op.componentCurrents.c1).toBe(0);
+  });
+
+  it("uses the offset of AC sources and ties capacitor-only nodes to ground", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      {
+        id: "vs1",
+        kind: "voltage-source",
+        from: "vin",
+        to: "n0",
+        waveform: "ac",
+        value: 1,
+        amplitude: 1,
+        frequency: 50,
+        offset: 2,
+      },
+      { id: "c1", kind: "capacitor", from: "vin", to: "x", value: 1e-6 },
+      { id: "c2", kind: "capacitor", from: "x", to: "n0", value: 1e-6 },
+    ];
+    const op = solveOperatingPoint(components);
+    expect(op.nodeVoltages.vin).toBeCloseTo(2, 9);
+    expect(op.nodeVoltages.x).toBe(0);
+  });
+
+  it("matches the settled transient bias of a diode clamp", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 5 },
+      { id: "r1", kind: "resistor", from: "vin", to: "a", value: 1_000 },
+      { id: "d1", kind: "diode", from: "a", to: "n0" },
+    ];
+    const op = solveOperatingPoint(components);
+    const transient = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    const settled = transient.nodeVoltages.a[transient.nodeVoltages.a.length - 1];
+    expect(op.nodeVoltages.a).toBeCloseTo(settled, 4);
+    expect(op.nodeCurrents.a).toBeCloseTo(op.componentCurrents.d1 - op.componentCurrents.r1, 9);
+    expect(op.iterations).toBeGreaterThan(1);
+  });
+
+  it("sweeps a source and records node voltages and branch currents", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 10 },
+      { id: "r1", kind: "resistor", from: "vin", to: "vout", value: 1_000 },
+      { id: "r2", kind: "resistor", from: "vout", to: "n0", value: 1_000 },
+    ];
+    const sweep = simulateDCSweep(components, { sourceId: "vs1", start: 0, stop: 5, step: 1 });
+    expect(Array.from(sweep.values)).toEqual([0, 1, 2, 3, 4, 5]);
+    sweep.values.forEach((value, index) => {
+      expect(sweep.nodeVoltages.vout[index]).toBeCloseTo(value / 2, 9);
+      expect(sweep.componentCurrents.r1[index]).toBeCloseTo(value / 2_000, 12);
+    });
+  });
+
+  it("traces a diode's exponential I-V curve", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 0 },
+      { id: "d1", kind: "diode", from: "vin", to: "n0" },
+    ];
+    const sweep = simulateDCSweep(components, { sourceId: "vs1", start: 0.5, stop: 0.7, step: 0.1 });
+    const currents = Array.from(sweep.componentCurrents.d1);
+    expect(currents).toHaveLength(3);
+    // 100 mV steps multiply the current by e^(0.1 / Vt)
+    const ratio = Math.exp(0.1 / THERMAL_VOLTAGE);
+    expect(currents[1] / currents[0]).toBeCloseTo(ratio, 0);
+    expect(currents[2] / currents[1]).toBeCloseTo(ratio, 0);
+  });
+
+  it("rejects sweeps over components that are not sources", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "r1", kind: "resistor", from: "a", to: "n0", value: 1_000 },
+    ];
+    expect(() => simulateDCSweep(components, { sourceId: "r1", start: 0, stop: 1, step: 0.1 })).toThrow(
+      /voltage or current source/
+    );
+  });
+
+  it("linearizes nonlinear devices at the bias point for AC analysis", () => {
+    const bias = 0.001;
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "ibias", kind: "current-source", from: "a", to: "n0", waveform: "dc", value: bias },
+      {
+        id: "isig",
+        kind: "current-source",
+        from: "a",
+        to: "n0",
+        waveform: "ac",
+        value: 1e-6,
+        amplitude: 1e-6,
+        frequency: 1_000,
+        phase: 0,
+        offset: 0,
+      },
+      { id: "d1", kind: "diode", from: "a", to: "n0" },
+    ];
+    const result = simulateAC(components, { startFrequency: 10, stopFrequency: 1_000, pointsPerDecade: 1 });
+    // Small-signal resistance r_d = Vt / Id
+    expect(result.nodeMagnitudes.a[0]).toBeCloseTo(1e-6 * (THERMAL_VOLTAGE / bias), 8);
+    expect(result.componentMagnitudes.d1[0]).toBeCloseTo(1e-6, 9);
+  });
+});
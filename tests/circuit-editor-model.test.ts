@@ -5,9 +5,11 @@ import {
   CANONICAL_GROUND,
   applyNodeSnap,
   componentGlyph,
+  componentUsesNode,
   extractCircuitNodes,
   generateNodeName,
   hotkeyToKind,
+  renameCircuitNodes,
   retargetComponentToNode,
   sanitizeIdentifier,
   stageComponentForNodeDrop,
@@ -125,8 +127,30 @@ describe("Circuit editor model helpers", () => {
     expect(componentGlyph("current-source")).toBe("I");
     expect(componentGlyph("wire")).toBe("W");
     expect(componentGlyph("ground")).toBe("G");
+    expect(componentGlyph("diode")).toBe("D");
+    expect(componentGlyph("npn")).toBe("Q");
+    expect(componentGlyph("nmos")).toBe("M");
   });
-});
-
 
+  it("includes transistor control terminals in the node list", () => {
+    const nodes = extractCircuitNodes([
+      { id: "q1", kind: "npn", from: "c", to: "e", base: "b" },
+      { id: "m1", kind: "pmos", from: "d", to: "s", gate: "g" },
+    ]);
+    expect(nodes).toEqual(["c", "b", "e", "d", "g", "s"]);
+  });
 
+  it("renames and finds nodes on transistor control terminals", () => {
+    const transistors: CircuitComponent[] = [
+      { id: "q1", kind: "npn", from: "c", to: "e", base: "b" },
+      { id: "m1", kind: "nmos", from: "d", to: "s", gate: "b" },
+    ];
+    expect(renameCircuitNodes(transistors, new Map([["b", "in"]]))).toEqual([
+      { id: "q1", kind: "npn", from: "c", to: "e", base: "in" },
+      { id: "m1", kind: "nmos", from: "d", to: "s", gate: "in" },
+    ]);
+    // A node used only as a base or gate is still in use
+    expect(transistors.every(component => componentUsesNode(component, "b"))).toBe(true);
+    expect(componentUsesNode(transistors[0], "d")).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  closeGesture,
+  createHistory,
+  recordCommand,
+  redoCommand,
+  sameDocument,
+  undoCommand,
+} from "@/lib/circuits/history";
+
+type Sketch = { nodes: Record<string, number>; parts: string[] };
+
+const start: Sketch = { nodes: { a: 0 }, parts: [] };
+const move = (document: Sketch, x: number): Sketch => ({ ...document, nodes: { ...document.nodes, a: x } });
+
+describe("circuit editor history", () => {
+  it("undoes and redoes commands with stable ids", () => {
+    const added: Sketch = { ...start, parts: ["r1"] };
+    const removed: Sketch = { ...start, parts: [] };
+    let history = createHistory<Sketch>();
+    history = recordCommand(history, { kind: "add", label: "Add r1" }, start, added);
+    history = recordCommand(history, { kind: "remove", label: "Remove r1" }, added, removed);
+    expect(history.past.map(command => command.id)).toEqual(["cmd-1", "cmd-2"]);
+
+    const undone = undoCommand(history);
+    expect(undone.document).toBe(added);
+    expect(undone.command.label).toBe("Remove r1");
+
+    const redone = redoCommand(undone.history);
+    expect(redone.document).toBe(removed);
+    expect(redone.history.past.map(command => command.id)).toEqual(["cmd-1", "cmd-2"]);
+    expect(redoCommand(redone.history)).toBeNull();
+
+    // A new command after undo discards the redo branch
+    const branched = recordCommand(undone.history, { kind: "edit", label: "Edit r1" }, added, { ...added, parts: ["r2"] });
+    expect(branched.future).toEqual([]);
+    expect(branched.past.map(command => command.id)).toEqual(["cmd-1", "cmd-3"]);
+  });
+
+  it("coalesces a drag into one step until the gesture closes", () => {
+    const drag = { kind: "move" as const, label: "Move a", coalesceKey: "move:a" };
+    let history = createHistory<Sketch>();
+    let document = start;
+    for (let x = 1; x <= 5; x++) {
+      const next = move(document, x);
+      history = recordCommand(history, drag, document, next);
+      document = next;
+    }
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].before).toBe(start);
+    expect(history.past[0].after.nodes.a).toBe(5);
+
+    // A second drag of the same node is its own step
+    history = closeGesture(history);
+    history = recordCommand(history, drag, document, move(document, 9));
+    expect(history.past).toHaveLength(2);
+    expect(undoCommand(history).document.nodes.a).toBe(5);
+    expect(undoCommand(undoCommand(history).history).document).toBe(start);
+  });
+
+  it("caps the undo stack and ignores unchanged documents", () => {
+    let history = createHistory<Sketch>();
+    let document = start;
+    for (let x = 1; x <= 10; x++) {
+      const next = move(document, x);
+      history = recordCommand(history, { kind: "move", label: `Move ${x}` }, document, next, 4);
+      document = next;
+    }
+    expect(history.past.map(command => command.label)).toEqual(["Move 7", "Move 8", "Move 9", "Move 10"]);
+    expect(sameDocument(document, { ...document })).toBe(true);
+    expect(sameDocument(document, move(document, 0))).toBe(false);
+    expect(undoCommand(createHistory())).toBeNull();
+  });
+
+  it("keeps redo when a restored document is rebuilt with the same contents", () => {
+    const added: Sketch = { ...start, parts: ["r1"] };
+    let history = recordCommand(createHistory<Sketch>(), { kind: "add", label: "Add r1" }, start, added);
+    const undone = undoCommand(history);
+    history = undone.history;
+
+    // Editor effects filter and copy fields after a restore without changing them
+    const normalized: Sketch = { nodes: { ...undone.document.nodes }, parts: undone.document.parts.filter(() => true) };
+    expect(sameDocument(undone.document, normalized)).toBe(true);
+    expect(sameDocument(normalized, { ...normalized, nodes: { a: 0, b: 1 } })).toBe(false);
+
+    const redone = redoCommand(history);
+    expect(redone.document).toBe(added);
+    expect(undoCommand(redone.history).document).toBe(start);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { simulateCircuit, CircuitComponent } from "@/lib/circuits/simulator";
+
+const last = (series: Float32Array | undefined) => (series && series.length ? series[series.length - 1] : 0);
+
+const seriesMax = (series: Float32Array | undefined) => (series ? Math.max(...series) : 0);
+
+const seriesMin = (series: Float32Array | undefined) => (series ? Math.min(...series) : 0);
+
+describe("Nonlinear circuit simulation", () => {
+  it("settles a forward-biased diode at a silicon junction drop", () => {
+    /*
+          vin o----[1k]----o a
+            |              |
+          [5 V]           [D]
+            |              |
+          gnd ------------ gnd
+    */
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 5 },
+      { id: "r1", kind: "resistor", from: "vin", to: "a", value: 1_000 },
+      { id: "d1", kind: "diode", from: "a", to: "n0" },
+    ];
+    const result = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    const drop = last(result.nodeVoltages.a);
+    expect(drop).toBeGreaterThan(0.6);
+    expect(drop).toBeLessThan(0.75);
+    expect(last(result.componentCurrents.d1)).toBeCloseTo(last(result.componentCurrents.r1), 6);
+    expect(result.metrics?.newtonIterations).toBeGreaterThan(0);
+  });
+
+  it("blocks current when the diode is reverse biased", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 5 },
+      { id: "r1", kind: "resistor", from: "vin", to: "k", value: 1_000 },
+      { id: "d1", kind: "diode", from: "n0", to: "k" },
+    ];
+    const result = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    expect(last(result.nodeVoltages.k)).toBeCloseTo(5, 3);
+    expect(Math.abs(last(result.componentCurrents.d1))).toBeLessThan(1e-9);
+  });
+
+  it("half-wave rectifies a sinusoidal source", () => {
+    const frequency = 50;
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      {
+        id: "vs1",
+        kind: "voltage-source",
+        from: "vin",
+        to: "n0",
+        waveform: "ac",
+        value: 5,
+        amplitude: 5,
+        frequency,
+        phase: 0,
+        offset: 0,
+      },
+      { id: "d1", kind: "diode", from: "vin", to: "out" },
+      { id: "rload", kind: "resistor", from: "out", to: "n0", value: 1_000 },
+    ];
+    const result = simulateCircuit(components, { dt: 1 / (frequency * 200), duration: 2 / frequency });
+    const peak = seriesMax(result.nodeVoltages.out);
+    expect(peak).toBeGreaterThan(4.2);
+    expect(peak).toBeLessThan(4.5);
+    expect(seriesMin(result.nodeVoltages.out)).toBeGreaterThan(-1e-6);
+  });
+
+  it("biases an npn common-emitter stage in the active region", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vcc", kind: "voltage-source", from: "vcc", to: "n0", waveform: "dc", value: 10 },
+      { id: "rb", kind: "resistor", from: "vcc", to: "b", value: 1_000_000 },
+      { id: "rc", kind: "resistor", from: "vcc", to: "c", value: 1_000 },
+      { id: "q1", kind: "npn", from: "c", to: "n0", base: "b", betaF: 100 },
+    ];
+    const result = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    const baseCurrent = last(result.componentCurrents.rb);
+    const collectorCurrent = last(result.componentCurrents.q1);
+    expect(last(result.nodeVoltages.b)).toBeGreaterThan(0.5);
+    expect(last(result.nodeVoltages.b)).toBeLessThan(0.7);
+    expect(collectorCurrent / baseCurrent).toBeCloseTo(100, 0);
+    expect(last(result.nodeVoltages.c)).toBeCloseTo(10 - collectorCurrent * 1_000, 3);
+  });
+
+  it("sources collector current out of a pnp stage", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vcc", kind: "voltage-source", from: "vcc", to: "n0", waveform: "dc", value: 10 },
+      { id: "rb", kind: "resistor", from: "b", to: "n0", value: 1_000_000 },
+      { id: "rc", kind: "resistor", from: "c", to: "n0", value: 1_000 },
+      { id: "q1", kind: "pnp", from: "c", to: "vcc", base: "b", betaF: 100 },
+    ];
+    const result = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    const collectorCurrent = last(result.componentCurrents.q1);
+    expect(collectorCurrent).toBeLessThan(0);
+    expect(last(result.nodeVoltages.c)).toBeCloseTo(-collectorCurrent * 1_000, 3);
+    expect(last(result.nodeVoltages.c)).toBeGreaterThan(0.8);
+    expect(last(result.nodeVoltages.c)).toBeLessThan(1);
+  });
+
+  it("follows the square law for an nmos in saturation", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vdd", kind: "voltage-source", from: "vdd", to: "n0", waveform: "dc", value: 10 },
+      { id: "vg", kind: "voltage-source", from: "g", to: "n0", waveform: "dc", value: 3 },
+      { id: "rd", kind: "resistor", from: "vdd", to: "d", value: 1_000 },
+      { id: "m1", kind: "nmos", from: "d", to: "n0", gate: "g", threshold: 1, transconductance: 2e-3, lambda: 0 },
+    ];
+    const result = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    // Id = k/2 · (Vgs − Vth)² = 1e-3 · 4
+    expect(last(result.componentCurrents.m1)).toBeCloseTo(0.004, 6);
+    expect(last(result.nodeVoltages.d)).toBeCloseTo(6, 3);
+  });
+
+  it("conducts through a pmos when the gate is pulled below the source", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vdd", kind: "voltage-source", from: "vdd", to: "n0", waveform: "dc", value: 10 },
+      { id: "vg", kind: "voltage-source", from: "g", to: "n0", waveform: "dc", value: 7 },
+      { id: "rd", kind: "resistor", from: "d", to: "n0", value: 1_000 },
+      { id: "m1", kind: "pmos", from: "d", to: "vdd", gate: "g", threshold: 1, transconductance: 2e-3, lambda: 0 },
+    ];
+    const result = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    expect(last(result.componentCurrents.m1)).toBeCloseTo(-0.004, 6);
+    expect(last(result.nodeVoltages.d)).toBeCloseTo(4, 3);
+  });
+
+  it("keeps an nmos switched off below threshold", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vdd", kind: "voltage-source", from: "vdd", to: "n0", waveform: "dc", value: 5 },
+      { id: "vg", kind: "voltage-source", from: "g", to: "n0", waveform: "dc", value: 0.5 },
+      { id: "rd", kind: "resistor", from: "vdd", to: "d", value: 1_000 },
+      { id: "m1", kind: "nmos", from: "d", to: "n0", gate: "g" },
+    ];
+    const result = simulateCircuit(components, { dt: 0.001, duration: 0.005 });
+    expect(last(result.nodeVoltages.d)).toBeCloseTo(5, 3);
+  });
+
+  it("reports Newton-Raphson failure when the iteration budget is exhausted", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+      { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 5 },
+      { id: "r1", kind: "resistor", from: "vin", to: "a", value: 1_000 },
+      { id: "d1", kind: "diode", from: "a", to: "n0" },
+    ];
+    expect(() => simulateCircuit(components, { dt: 0.001, duration: 0.005, maxNewtonIterations: 2 })).toThrow(
+      /did not converge/
+    );
+  });
+});
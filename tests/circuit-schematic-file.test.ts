@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CircuitComponent } from "@/lib/circuits/simulator";
+import {
+  SCHEMATIC_AUTOSAVE_KEY,
+  SCHEMATIC_VERSION,
+  SchematicState,
+  loadSchematicDraft,
+  migrateSchematic,
+  parseSchematic,
+  saveSchematicDraft,
+  serializeSchematic,
+} from "@/lib/circuits/schematicFile";
+
+const COMPONENTS: CircuitComponent[] = [
+  { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+  { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 5 },
+  { id: "r1", kind: "resistor", from: "vin", to: "n0", value: 1_000 },
+];
+
+const STATE: SchematicState = {
+  components: COMPONENTS,
+  nodePositions: { vin: { x: 120, y: 80 }, n0: { x: 120, y: 240 } },
+  extraNodes: ["spare"],
+  probes: [{ id: "probe-vin", nodeId: "vin", offset: { x: 36, y: -52 } }],
+  subcircuits: [
+    {
+      id: "load",
+      name: "Load",
+      ports: ["a", "b"],
+      parameters: [{ name: "r1", defaultValue: 100 }],
+      components: [{ id: "r1", kind: "resistor", from: "a", to: "b", value: 100 }],
+    },
+  ],
+  simConfig: { dt: 1e-4, duration: 0.02 },
+  acSweep: { startFrequency: 10, stopFrequency: 1e5, pointsPerDecade: 20 },
+  viewport: { origin: { x: -40, y: 12 }, scale: 1.5 },
+};
+
+describe("schematic files", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips the editor state through the current format", () => {
+    const text = serializeSchematic(STATE);
+    expect(JSON.parse(text)).toMatchObject({ format: "graph-whiz-circuit", version: SCHEMATIC_VERSION });
+    const loaded = parseSchematic(text);
+    expect(loaded.components).toEqual(COMPONENTS);
+    expect(loaded.nodePositions).toEqual(STATE.nodePositions);
+    expect(loaded.extraNodes).toEqual(["spare"]);
+    expect(loaded.probes).toEqual(STATE.probes);
+    expect(loaded.subcircuits).toEqual(STATE.subcircuits);
+    expect(loaded.simConfig).toEqual(STATE.simConfig);
+    expect(loaded.acSweep).toEqual(STATE.acSweep);
+    expect(loaded.viewport).toEqual(STATE.viewport);
+  });
+
+  it("migrates unversioned component lists and documents", () => {
+    const fromList = migrateSchematic(COMPONENTS);
+    expect(fromList.version).toBe(SCHEMATIC_VERSION);
+    expect(fromList.components).toEqual(COMPONENTS);
+    expect(fromList.simConfig).toEqual({ dt: 0.0005, duration: 0.1 });
+    expect(fromList.subcircuits).toEqual([]);
+
+    const fromObject = migrateSchematic({
+      components: COMPONENTS,
+      nodePositions: { vin: { x: 1, y: 2 }, broken: { x: "left" } },
+    });
+    expect(fromObject.nodePositions).toEqual({ vin: { x: 1, y: 2 } });
+    expect(fromObject.viewport).toEqual({ origin: { x: 0, y: 0 }, scale: 1 });
+  });
+
+  it("rejects files it cannot read", () => {
+    expect(() => parseSchematic("{ not json")).toThrow(/not valid JSON/);
+    expect(() => migrateSchematic({ format: "graph-whiz-workspace", components: [] })).toThrow(/not a circuit schematic/);
+    expect(() => migrateSchematic({ version: SCHEMATIC_VERSION + 1, components: [] })).toThrow(/newer version/);
+    expect(() => migrateSchematic([{ id: "x1", kind: "flux-capacitor", from: "a", to: "b" }])).toThrow(
+      /unknown component kind/
+    );
+    expect(() => migrateSchematic([COMPONENTS[2], COMPONENTS[2]])).toThrow(/r1 twice/);
+
+    // Each kind's own fields are checked rather than assumed
+    expect(() => migrateSchematic([{ id: "x1", kind: "subcircuit", from: "a", to: "b", definition: "load" }])).toThrow(
+      "x1 (subcircuit) needs extraPorts to be a list of node names."
+    );
+    expect(() => migrateSchematic([{ id: "r2", kind: "resistor", from: "a", to: "b", value: "1k" }])).toThrow(
+      /r2 \(resistor\) needs value to be a number/
+    );
+    expect(() => migrateSchematic([{ id: "q1", kind: "npn", from: "c", to: "e" }])).toThrow(/q1 \(npn\) needs base/);
+    expect(() => migrateSchematic([{ id: "m1", kind: "nmos", from: "d", to: "s", gate: 3 }])).toThrow(/needs gate/);
+    expect(() =>
+      migrateSchematic([{ id: "e1", kind: "vcvs", from: "o", to: "gnd", controlPos: "p", value: 2 }])
+    ).toThrow(/needs controlNeg/);
+    expect(() => migrateSchematic([{ id: "f1", kind: "cccs", from: "o", to: "gnd", value: 2 }])).toThrow(
+      /needs controlSource to be an id/
+    );
+    expect(() => migrateSchematic([{ id: "w1", kind: "wire", from: "a" }])).toThrow(/w1 \(wire\) needs to/);
+    expect(() => migrateSchematic({ ...STATE, version: SCHEMATIC_VERSION, acSweep: { startFrequency: 10 } })).toThrow(
+      "The AC sweep needs stopFrequency to be a number."
+    );
+    const loose = { ...STATE.subcircuits[0], parameters: [{ name: "r1", defaultValue: "100" }] };
+    expect(() => migrateSchematic({ ...STATE, version: SCHEMATIC_VERSION, subcircuits: [loose] })).toThrow(
+      "Subcircuit load parameter 1 needs defaultValue to be a number."
+    );
+  });
+
+  it("autosaves to localStorage and recovers the draft", () => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    expect(loadSchematicDraft()).toBeNull();
+    saveSchematicDraft(STATE);
+    expect(storage.has(SCHEMATIC_AUTOSAVE_KEY)).toBe(true);
+    expect(loadSchematicDraft()?.components).toEqual(COMPONENTS);
+
+    // A corrupted draft is ignored rather than breaking the editor
+    storage.set(SCHEMATIC_AUTOSAVE_KEY, "{");
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    expect(loadSchematicDraft()).toBeNull();
+    consoleError.mockRestore();
+  });
+});
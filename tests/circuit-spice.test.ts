@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatSpiceNumber,
+  parseSpiceNetlist,
+  parseSpiceNumber,
+  serializeSpiceNetlist,
+} from "@/lib/circuits/spice";
+import { CircuitComponent, simulateCircuit } from "@/lib/circuits/simulator";
+import { solveOperatingPoint } from "@/lib/circuits/dcAnalysis";
+import { CANONICAL_GROUND } from "@/lib/circuits/editorModel";
+
+const RC_NETLIST = `RC low-pass
+* source and filter
+V1 in 0 DC 0 AC 1 SIN(0 5 100)
+R1 in out 10k ; series resistor
+C1 out 0 1u
++
+.tran 0.1m 20m
+.ac dec 10 1 100k
+.end
+R2 out 0 1
+`;
+
+describe("SPICE netlists", () => {
+  it("parses engineering suffixes and trailing units", () => {
+    expect(parseSpiceNumber("4.7k")).toBeCloseTo(4700);
+    expect(parseSpiceNumber("10uF")).toBeCloseTo(1e-5);
+    expect(parseSpiceNumber("1MEG")).toBeCloseTo(1e6);
+    expect(parseSpiceNumber("2m")).toBeCloseTo(2e-3);
+    expect(parseSpiceNumber("1e-3")).toBeCloseTo(1e-3);
+    expect(parseSpiceNumber("sin")).toBeNull();
+    expect(formatSpiceNumber(4700)).toBe("4.7k");
+    expect(formatSpiceNumber(1e-6)).toBe("1u");
+    expect(formatSpiceNumber(2.5e6)).toBe("2.5meg");
+  });
+
+  it("imports components, analyses and a grounded node layout", () => {
+    const imported = parseSpiceNetlist(RC_NETLIST);
+    expect(imported.title).toBe("RC low-pass");
+    expect(imported.config).toMatchObject({ dt: 1e-4, duration: 0.02 });
+    expect(imported.acSweep).toEqual({ startFrequency: 1, stopFrequency: 1e5, pointsPerDecade: 10 });
+    expect(imported.warnings).toEqual(["Line 3: V1 AC magnitude is replaced by the SIN amplitude."]);
+
+    const byId = Object.fromEntries(imported.components.map(component => [component.id, component]));
+    expect(byId.g1).toEqual({ id: "g1", kind: "ground", from: "n0", to: CANONICAL_GROUND });
+    expect(byId.r1).toEqual({ id: "r1", kind: "resistor", from: "in", to: "out", value: 10_000 });
+    expect(byId.c1).toMatchObject({ kind: "capacitor", from: "out", to: "n0" });
+    expect(byId.v1).toMatchObject({ waveform: "ac", amplitude: 5, frequency: 100, offset: 0 });
+    // Cards after .end are ignored
+    expect(byId.r2).toBeUndefined();
+    expect(Object.keys(imported.nodePositions).sort()).toEqual([CANONICAL_GROUND, "in", "n0", "out"].sort());
+  });
+
+  it("maps SPICE current-source polarity onto the simulator convention", () => {
+    const imported = parseSpiceNetlist(`bias\nI1 0 a 1m\nR1 a 0 1k\n.end`);
+    const op = solveOperatingPoint(imported.components);
+    expect(op.nodeVoltages.a).toBeCloseTo(1, 9);
+  });
+
+  it("reports unsupported cards and reads PULSE, PWL and EXP sources", () => {
+    const imported = parseSpiceNetlist(
+      `title\nV1 a 0 PULSE(0 5 1u 1n 1n 1m)\nV2 b 0 PWL(0 0 1m 5 2m 0)\nI1 0 c EXP(0 1m 0 1u)\nD1 a 0 dmod\n.model dmod D\n.tran 1u 10m\n.end`
+    );
+    const byId = Object.fromEntries(imported.components.map(component => [component.id, component]));
+    expect(byId.v1).toMatchObject({
+      waveform: "pulse",
+      pulse: { initial: 0, pulsed: 5, delay: 1e-6, rise: 1e-9, fall: 1e-9, width: 1e-3, period: 0.01 },
+    });
+    expect(byId.v2).toMatchObject({
+      waveform: "pwl",
+      pwl: [
+        { time: 0, value: 0 },
+        { time: 1e-3, value: 5 },
+        { time: 2e-3, value: 0 },
+      ],
+    });
+    // Missing EXP timing defaults to the .tran step
+    expect(byId.i1).toMatchObject({
+      waveform: "exp",
+      exp: { initial: 0, pulsed: 1e-3, riseDelay: 0, riseTau: 1e-6, fallDelay: 1e-6, fallTau: 1e-6 },
+    });
+    expect(imported.warnings).toHaveLength(2);
+    expect(() => parseSpiceNetlist("title\nR1 a 0\n")).toThrow(/Line 2/);
+    expect(() => parseSpiceNetlist("title\nV1 a 0 PWL(0 1 2)\n")).toThrow(/time-value pairs/);
+  });
+
+  it("writes time-varying sources back as SPICE source functions", () => {
+    const pulse = { initial: 0, pulsed: 5, delay: 0, rise: 1e-6, fall: 1e-6, width: 1e-3, period: 2e-3 };
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: CANONICAL_GROUND },
+      {
+        id: "vs1",
+        kind: "voltage-source",
+        from: "a",
+        to: "n0",
+        waveform: "pulse",
+        value: 0,
+        pulse,
+      },
+      { id: "r1", kind: "resistor", from: "a", to: "n0", value: 1_000 },
+      { id: "vs2", kind: "voltage-source", from: "b", to: "n0", waveform: "expression", value: 0, expression: "f" },
+      { id: "r2", kind: "resistor", from: "b", to: "n0", value: 1_000 },
+    ];
+    const text = serializeSpiceNetlist(components, { dt: 1e-5, duration: 5e-3 });
+    expect(text).toContain("Vs1 a 0 PULSE(0 5 0 1u 1u 1m 2m)");
+    expect(text).toContain("* vs2 is driven by f(t)");
+    const restored = parseSpiceNetlist(text).components.find(component => component.id === "vs1");
+    expect(restored).toMatchObject({ waveform: "pulse", pulse });
+  });
+
+  it("writes diodes and transistors with their models", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: CANONICAL_GROUND },
+      { id: "d1", kind: "diode", from: "a", to: "n0" },
+      { id: "d2", kind: "diode", from: "b", to: "n0" },
+      { id: "q1", kind: "npn", from: "c", to: "n0", base: "b", betaF: 200 },
+      { id: "m1", kind: "pmos", from: "d", to: "vdd", gate: "a" },
+    ];
+    const lines = serializeSpiceNetlist(components, { dt: 1e-5, duration: 1e-3 }).split("\n");
+    // Diodes with the same parameters share a model
+    expect(lines).toContain("D1 a 0 DMOD1");
+    expect(lines).toContain("D2 b 0 DMOD1");
+    expect(lines).toContain(".model DMOD1 D(IS=10f N=1)");
+    expect(lines).toContain("Q1 c b 0 NPNMOD1");
+    expect(lines).toContain(".model NPNMOD1 NPN(IS=10f BF=200 BR=1)");
+    expect(lines).toContain("M1 d a vdd vdd PMOSMOD1");
+    expect(lines).toContain(".model PMOSMOD1 PMOS(LEVEL=1 VTO=-1 KP=2m LAMBDA=10m)");
+    expect(lines.some(line => line.includes("skipped"))).toBe(false);
+    expect(lines.indexOf(".model DMOD1 D(IS=10f N=1)")).toBeLessThan(lines.findIndex(line => line.startsWith(".tran")));
+  });
+
+  it("writes controlled sources, sensing currents through voltage sources", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: CANONICAL_GROUND },
+      { id: "vs1", kind: "voltage-source", from: "in", to: "n0", waveform: "dc", value: 1 },
+      { id: "l1", kind: "inductor", from: "in", to: "mid", value: 1e-3 },
+      { id: "e1", kind: "vcvs", from: "a", to: "n0", controlPos: "in", controlNeg: "mid", value: 10 },
+      { id: "g2", kind: "vccs", from: "b", to: "n0", controlPos: "in", controlNeg: "n0", value: 1e-3 },
+      { id: "f1", kind: "cccs", from: "c", to: "n0", controlSource: "vs1", value: 2 },
+      { id: "h1", kind: "ccvs", from: "d", to: "n0", controlSource: "l1", value: 50 },
+      { id: "u1", kind: "opamp", from: "out", to: "n0", controlPos: "a", controlNeg: "out" },
+    ];
+    const lines = serializeSpiceNetlist(components, { dt: 1e-5, duration: 1e-3 }).split("\n");
+    expect(lines).toContain("E1 a 0 in mid 10");
+    // Current outputs inject into `from`, which SPICE writes second
+    expect(lines).toContain("G2 0 b in 0 1m");
+    expect(lines).toContain("F1 0 c Vs1 2");
+    // The inductor's current is sensed through a 0 V source in series
+    expect(lines).toContain("L1 in l1_sense 1m");
+    expect(lines).toContain("Vl1_sense l1_sense mid DC 0");
+    expect(lines).toContain("H1 d 0 Vl1_sense 50");
+    expect(lines).toContain("Eu1 out 0 a out 1meg");
+    expect(lines.some(line => line.includes("skipped"))).toBe(false);
+  });
+
+  it("writes every terminal tied to ground as node 0", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: CANONICAL_GROUND },
+      { id: "w1", kind: "wire", from: "n0", to: "tied" },
+      { id: "vs1", kind: "voltage-source", from: "in", to: "n0", waveform: "dc", value: 1 },
+      { id: "e1", kind: "vcvs", from: "a", to: "n0", controlPos: "in", controlNeg: "tied", value: 10 },
+      { id: "g2", kind: "vccs", from: "b", to: "n0", controlPos: "gnd", controlNeg: "in", value: 1e-3 },
+      { id: "q1", kind: "npn", from: "a", base: "tied", to: "n0" },
+      { id: "m1", kind: "nmos", from: "b", gate: "GND", to: "n0" },
+    ];
+    const lines = serializeSpiceNetlist(components, { dt: 1e-5, duration: 1e-3 }).split("\n");
+    expect(lines).toContain("E1 a 0 in 0 10");
+    expect(lines).toContain("G2 0 b 0 in 1m");
+    expect(lines).toContain("Q1 a 0 0 NPNMOD1");
+    expect(lines).toContain("M1 b 0 0 0 NMOSMOD1");
+    expect(lines.some(line => /\b(tied|gnd|GND|n0)\b/.test(line))).toBe(false);
+  });
+
+  it("writes a one-terminal ground", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0" },
+      { id: "vs1", kind: "voltage-source", from: "in", to: "n0", waveform: "dc", value: 5 },
+      { id: "r1", kind: "resistor", from: "in", to: "n0", value: 1000 },
+    ];
+    const lines = serializeSpiceNetlist(components, { dt: 1e-5, duration: 1e-3 }).split("\n");
+    expect(lines).toContain("R1 in 0 1k");
+    expect(lines.some(line => /^G1\b|undefined/.test(line))).toBe(false);
+  });
+
+  it("round-trips the editor model through netlist text", () => {
+    const components: CircuitComponent[] = [
+      { id: "g1", kind: "ground", from: "n0", to: CANONICAL_GROUND },
+      {
+        id: "vs1",
+        kind: "voltage-source",
+        from: "vin",
+        to: "n0",
+        waveform: "ac",
+        value: 2,
+        amplitude: 2,
+        frequency: 50,
+        phase: Math.PI / 2,
+        offset: 1,
+      },
+      { id: "r1", kind: "resistor", from: "vin", to: "mid", value: 1_000 },
+      { id: "w1", kind: "wire", from: "mid", to: "vout" },
+      { id: "l1", kind: "inductor", from: "vout", to: "n0", value: 0.1 },
+      { id: "is1", kind: "current-source", from: "vout", to: "n0", waveform: "dc", value: 0.002 },
+    ];
+    const config = { dt: 1e-4, duration: 0.05 };
+    const text = serializeSpiceNetlist(components, config);
+    expect(text).toContain("R1 vin mid 1k");
+    expect(text).toContain("Is1 0 mid DC 2m");
+
+    const imported = parseSpiceNetlist(text);
+    expect(imported.warnings).toEqual([]);
+    expect(imported.config).toMatchObject(config);
+    const source = imported.components.find(component => component.id === "vs1");
+    expect(source).toMatchObject({ waveform: "ac", amplitude: 2, frequency: 50, offset: 1 });
+    expect(source && "phase" in source ? source.phase : 0).toBeCloseTo(Math.PI / 2, 12);
+
+    const original = simulateCircuit(components, config);
+    const restored = simulateCircuit(imported.components, imported.config);
+    const last = original.time.length - 1;
+    expect(restored.nodeVoltages.vin[last]).toBeCloseTo(original.nodeVoltages.vin[last], 4);
+    expect(restored.nodeVoltages.mid[last]).toBeCloseTo(original.nodeVoltages.vout[last], 3);
+  });
+});
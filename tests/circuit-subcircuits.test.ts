@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { CircuitComponent, simulateCircuit } from "@/lib/circuits/simulator";
+import { solveOperatingPoint } from "@/lib/circuits/dcAnalysis";
+import { simulateAC } from "@/lib/circuits/acAnalysis";
+import { SubcircuitDefinition, collapseToSubcircuit, flattenSubcircuits } from "@/lib/circuits/subcircuits";
+import { componentUsesNode, renameCircuitNodes } from "@/lib/circuits/editorModel";
+
+const GROUND: CircuitComponent = { id: "g1", kind: "ground", from: "n0", to: "gnd" };
+
+// Divider stage: in -[rTop]- mid -[rBottom]- n0, loaded by rLoad
+const DIVIDER: CircuitComponent[] = [
+  GROUND,
+  { id: "vs1", kind: "voltage-source", from: "in", to: "n0", waveform: "dc", value: 10 },
+  { id: "rTop", kind: "resistor", from: "in", to: "mid", value: 1_000 },
+  { id: "rBottom", kind: "resistor", from: "mid", to: "n0", value: 1_000 },
+  { id: "rLoad", kind: "resistor", from: "mid", to: "n0", value: 1e9 },
+];
+
+const RC_LOWPASS: SubcircuitDefinition = {
+  id: "rc",
+  name: "RC low-pass",
+  ports: ["a", "b"],
+  parameters: [
+    { name: "r1", defaultValue: 1_000 },
+    { name: "c1", defaultValue: 1e-6 },
+  ],
+  components: [
+    { id: "r1", kind: "resistor", from: "a", to: "b", value: 1_000 },
+    { id: "c1", kind: "capacitor", from: "b", to: "gnd", value: 1e-6 },
+  ],
+};
+
+describe("subcircuits", () => {
+  it("collapses a selection into a definition with ports and parameters", () => {
+    const collapsed = collapseToSubcircuit(DIVIDER, new Set(["rTop", "rBottom"]), {
+      name: "Divider",
+      instanceId: "x1",
+      definitions: [],
+    });
+    expect(collapsed.definition.id).toBe("divider");
+    // n0 is ground and stays global, so in and mid are the ports
+    expect(collapsed.definition.ports).toEqual(["in", "mid"]);
+    expect(collapsed.definition.parameters).toEqual([
+      { name: "r1", defaultValue: 1_000 },
+      { name: "r2", defaultValue: 1_000 },
+    ]);
+    expect(collapsed.components.map(component => component.id)).toEqual(["g1", "vs1", "rLoad", "x1"]);
+
+    const flattened = flattenSubcircuits(collapsed.components, [collapsed.definition]);
+    expect(flattened.map(component => component.id)).toContain("x1.r2");
+    expect(solveOperatingPoint(flattened).nodeVoltages.mid).toBeCloseTo(
+      solveOperatingPoint(DIVIDER).nodeVoltages.mid,
+      9
+    );
+  });
+
+  it("requires two ports and keeps sensed branches on one side of the boundary", () => {
+    expect(() =>
+      collapseToSubcircuit(DIVIDER, new Set(["rLoad"]), { name: "Load", instanceId: "x1", definitions: [] })
+    ).toThrow(/at least two nodes/);
+
+    const sensed: CircuitComponent[] = [
+      ...DIVIDER,
+      { id: "f1", kind: "cccs", from: "f", to: "n0", controlSource: "vs1", value: 2 },
+      { id: "rf", kind: "resistor", from: "f", to: "n0", value: 100 },
+    ];
+    expect(() =>
+      collapseToSubcircuit(sensed, new Set(["f1", "rf", "rTop"]), { name: "Mirror", instanceId: "x1", definitions: [] })
+    ).toThrow(/across the subcircuit boundary/);
+  });
+
+  it("simulates several instances with their own parameter overrides", () => {
+    const components: CircuitComponent[] = [
+      GROUND,
+      { id: "vs1", kind: "voltage-source", from: "in", to: "n0", waveform: "dc", value: 1 },
+      { id: "x1", kind: "subcircuit", from: "in", to: "out1", definition: "rc", extraPorts: [], params: {} },
+      { id: "x2", kind: "subcircuit", from: "in", to: "out2", definition: "rc", extraPorts: [], params: { r1: 10_000 } },
+    ];
+    const flattened = flattenSubcircuits(components, [RC_LOWPASS]);
+    expect(flattened.find(component => component.id === "x2.r1")).toMatchObject({ from: "in", to: "out2", value: 10_000 });
+
+    const transient = simulateCircuit(flattened, { dt: 1e-5, duration: 1e-3 });
+    const last = transient.time.length - 1;
+    // One time constant in: the first stage is at 63 %, the slower second stage at about 10 %
+    expect(transient.nodeVoltages.out1[last]).toBeCloseTo(1 - Math.exp(-1), 2);
+    expect(transient.nodeVoltages.out2[last]).toBeCloseTo(1 - Math.exp(-0.1), 2);
+
+    const corner = 1 / (2 * Math.PI * 1_000 * 1e-6);
+    const ac = simulateAC(
+      flattenSubcircuits(
+        [{ ...components[0] }, { ...components[1], waveform: "ac", amplitude: 1, frequency: 1, phase: 0, offset: 0 } as CircuitComponent, components[2]],
+        [RC_LOWPASS]
+      ),
+      { startFrequency: corner, stopFrequency: corner, pointsPerDecade: 1 }
+    );
+    expect(ac.nodeMagnitudes.out1[0]).toBeCloseTo(Math.SQRT1_2, 3);
+  });
+
+  it("expands nested definitions and rejects recursive or unknown ones", () => {
+    const twoStage: SubcircuitDefinition = {
+      id: "two_stage",
+      name: "Two stages",
+      ports: ["i", "o"],
+      parameters: [],
+      components: [
+        { id: "x1", kind: "subcircuit", from: "i", to: "m", definition: "rc", extraPorts: [], params: {} },
+        { id: "x2", kind: "subcircuit", from: "m", to: "o", definition: "rc", extraPorts: [], params: {} },
+      ],
+    };
+    const instance: CircuitComponent = {
+      id: "u1",
+      kind: "subcircuit",
+      from: "in",
+      to: "out",
+      definition: "two_stage",
+      extraPorts: [],
+      params: {},
+    };
+    const flattened = flattenSubcircuits([instance], [RC_LOWPASS, twoStage]);
+    expect(flattened.map(component => component.id)).toEqual(["u1.x1.r1", "u1.x1.c1", "u1.x2.r1", "u1.x2.c1"]);
+    expect(flattened[2]).toMatchObject({ from: "u1.m", to: "out" });
+
+    const looped: SubcircuitDefinition = { ...twoStage, components: [{ ...instance, id: "x1", from: "i", to: "o" }] };
+    expect(() => flattenSubcircuits([instance], [looped])).toThrow(/contains itself/);
+    expect(() => flattenSubcircuits([instance], [])).toThrow(/unknown subcircuit/);
+    expect(() => simulateCircuit([GROUND, instance], { dt: 1e-3, duration: 1e-2 })).toThrow(/flatten subcircuits/);
+  });
+
+  it("renames and keeps the extra ports of instances in the editor", () => {
+    const instance: CircuitComponent = {
+      id: "x1",
+      kind: "subcircuit",
+      from: "a",
+      to: "b",
+      definition: "amp",
+      extraPorts: ["vcc", "bias"],
+    };
+    const [renamed] = renameCircuitNodes([instance], new Map([["bias", "vb"], ["a", "in"]]));
+    expect(renamed).toMatchObject({ from: "in", to: "b", extraPorts: ["vcc", "vb"] });
+    expect(componentUsesNode(instance, "vcc")).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { CircuitComponent, simulateCircuit } from "@/lib/circuits/simulator";
+import { solveOperatingPoint } from "@/lib/circuits/dcAnalysis";
+import { createWaveform, expValue, pulseValue, pwlValue, waveformFunctionNames } from "@/lib/circuits/waveforms";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+
+const sourceAcrossLoad = (source: Partial<Extract<CircuitComponent, { kind: "voltage-source" }>>): CircuitComponent[] => [
+  { id: "g1", kind: "ground", from: "n0", to: "gnd" },
+  { id: "vs1", kind: "voltage-source", from: "vin", to: "n0", waveform: "dc", value: 0, ...source },
+  { id: "r1", kind: "resistor", from: "vin", to: "n0", value: 1_000 },
+];
+
+describe("source waveforms", () => {
+  it("traces the edges and plateaus of a repeating pulse", () => {
+    const pulse = { initial: 0, pulsed: 4, delay: 1, rise: 1, fall: 2, width: 3, period: 10 };
+    expect(pulseValue(pulse, 0.5)).toBe(0);
+    expect(pulseValue(pulse, 1.5)).toBeCloseTo(2);
+    expect(pulseValue(pulse, 4)).toBe(4);
+    expect(pulseValue(pulse, 6)).toBeCloseTo(2);
+    expect(pulseValue(pulse, 8)).toBe(0);
+    // Second period
+    expect(pulseValue(pulse, 14)).toBe(4);
+    // A zero period fires once
+    expect(pulseValue({ ...pulse, period: 0 }, 14)).toBe(0);
+  });
+
+  it("interpolates piecewise-linear tables and exponential edges", () => {
+    const points = [
+      { time: 0, value: 1 },
+      { time: 2, value: 5 },
+      { time: 4, value: 5 },
+    ];
+    expect(pwlValue(points, -1)).toBe(1);
+    expect(pwlValue(points, 1)).toBeCloseTo(3);
+    expect(pwlValue(points, 10)).toBe(5);
+
+    const exp = { initial: 0, pulsed: 1, riseDelay: 0, riseTau: 1, fallDelay: 5, fallTau: 1 };
+    expect(expValue(exp, 1)).toBeCloseTo(1 - Math.exp(-1), 12);
+    expect(expValue(exp, 6)).toBeCloseTo(1 - Math.exp(-6) - (1 - Math.exp(-1)), 12);
+  });
+
+  it("drives transient runs and biases DC analysis at t = 0", () => {
+    const components = sourceAcrossLoad({
+      waveform: "pwl",
+      pwl: [
+        { time: 0, value: 2 },
+        { time: 0.01, value: 7 },
+      ],
+    });
+    const result = simulateCircuit(components, { dt: 1e-4, duration: 0.02 });
+    const halfway = Array.from(result.time).findIndex(t => t >= 0.005);
+    expect(result.nodeVoltages.vin[halfway]).toBeCloseTo(2 + 500 * result.time[halfway], 4);
+    expect(result.nodeVoltages.vin[result.time.length - 1]).toBeCloseTo(7, 4);
+    expect(solveOperatingPoint(components).nodeVoltages.vin).toBeCloseTo(2, 9);
+  });
+
+  it("evaluates user functions from the expression list", () => {
+    const context = buildDefinitionContext([
+      { normalized: "gain = 3" },
+      { normalized: "drive(t) = gain * t + 1" },
+      { normalized: "surface(a, b) = a + b" },
+    ]);
+    expect(waveformFunctionNames(context)).toEqual(["drive"]);
+
+    const components = sourceAcrossLoad({ waveform: "expression", expression: "drive" });
+    const result = simulateCircuit(components, { dt: 0.01, duration: 0.5, context });
+    result.time.forEach((t, index) => {
+      expect(result.nodeVoltages.vin[index]).toBeCloseTo(3 * t + 1, 4);
+    });
+    expect(solveOperatingPoint(components, { context }).nodeVoltages.vin).toBeCloseTo(1, 9);
+  });
+
+  it("reports expression sources without a usable function", () => {
+    const [, source] = sourceAcrossLoad({ waveform: "expression", expression: "missing" });
+    const context = buildDefinitionContext([{ normalized: "surface(a, b) = a + b" }]);
+    expect(() => createWaveform(source as never, context)).toThrow(/missing is not defined/);
+    expect(() => createWaveform({ ...(source as never), expression: "surface" }, context)).toThrow(
+      /exactly one argument/
+    );
+  });
+});
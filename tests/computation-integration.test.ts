@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { adaptiveIntegrate, doubleIntegral } from "@/lib/computation/integration";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { inferType, MathType } from "@/lib/types";
+
+const evaluateLatex = (latex: string, variables: Record<string, number> = {}, context = buildDefinitionContext([])) => {
+  const result = expressionEngine.evaluateExpression(latex, variables, context);
+  expect(result.kind).toBe("number");
+  return result.kind === "number" ? result.value : NaN;
+};
+
+describe("definite integration", () => {
+  it("integrates adaptively with an error estimate", () => {
+    const smooth = adaptiveIntegrate(Math.sin, 0, Math.PI);
+    expect(smooth.value).toBeCloseTo(2, 12);
+    expect(smooth.converged).toBe(true);
+    expect(smooth.error).toBeLessThan(1e-10);
+
+    // The endpoint singularity forces subdivision but is never sampled
+    const singular = adaptiveIntegrate(x => 1 / Math.sqrt(x), 0, 1, { tolerance: 1e-8, maxSubdivisions: 500 });
+    expect(singular.value).toBeCloseTo(2, 6);
+    expect(singular.evaluations).toBeGreaterThan(15);
+
+    expect(adaptiveIntegrate(x => x, 1, 0).value).toBeCloseTo(-0.5, 12);
+    expect(() => adaptiveIntegrate(x => x, 0, NaN)).toThrow(/numbers/);
+    // Infinite ranges are mapped onto finite ones
+    expect(adaptiveIntegrate(x => Math.exp(-x), 0, Infinity).value).toBeCloseTo(1, 10);
+    expect(adaptiveIntegrate(x => 1 / (1 + x * x), -Infinity, Infinity).value).toBeCloseTo(Math.PI, 8);
+    expect(adaptiveIntegrate(x => Math.exp(x), 0, -Infinity).value).toBeCloseTo(-1, 10);
+    expect(doubleIntegral((x, y) => x * y, 0, 1, 0, 2)).toBeCloseTo(1, 10);
+  });
+
+  it("normalizes \\int LaTeX, innermost integral first", () => {
+    expect(normalizeExpression("\\int_{0}^{1}x^{2}\\,dx")).toBe("int{x,0,1}(x^(2))");
+    expect(normalizeExpression("\\int_0^{\\pi}\\sin(t)dt")).toBe("int{t,0,pi}(sin(t))");
+    expect(normalizeExpression("\\int_{0}^{1}\\int_{0}^{x}x\\cdot y\\,dy\\,dx")).toBe("int{x,0,1}(int{y,0,x}(x*y))");
+    expect(normalizeExpression("\\frac{d}{dx}x^{2}")).toBe("d/d{x}x^(2)");
+    // Implicit products of the integration variables
+    expect(normalizeExpression("\\int_0^1\\int_0^x xy\\,dy\\,dx")).toBe("int{x,0,1}(int{y,0,x}(x*y))");
+    expect(normalizeExpression("\\int_0^{\\infty}e^{-t}\\,dt")).toBe("int{t,0,infinity}(e^(-t))");
+  });
+
+  it("evaluates integrals written in LaTeX or with integrate()", () => {
+    expect(evaluateLatex("\\int_{0}^{1}x^{2}\\,dx")).toBeCloseTo(1 / 3, 10);
+    expect(evaluateLatex("\\int_{0}^{1}\\int_{0}^{x}x\\cdot y\\,dy\\,dx")).toBeCloseTo(1 / 8, 10);
+    expect(evaluateLatex("\\int_0^1\\int_0^x xy\\,dy\\,dx")).toBeCloseTo(1 / 8, 10);
+    expect(evaluateLatex("\\int_0^{\\infty}e^{-x}\\,dx")).toBeCloseTo(1, 10);
+    expect(evaluateLatex("\\int_{-\\infty}^{\\infty}\\frac{1}{1+x^{2}}\\,dx")).toBeCloseTo(Math.PI, 8);
+
+    const context = buildDefinitionContext([{ normalized: "f(t) = t^3" }, { normalized: "a = 2" }]);
+    expect(evaluateLatex("integrate(f, 0, a)", {}, context)).toBeCloseTo(4, 10);
+    expect(evaluateLatex("integrate(exp(s), s, 0, 1)", {}, context)).toBeCloseTo(Math.E - 1, 10);
+    expect(() => expressionEngine.evaluateExpression("integrate(f, 0)", {}, context)).toThrow(/integrate expects/);
+  });
+
+  it("treats variable upper bounds as functions of x", () => {
+    const latex = "\\int_{0}^{x}\\cos(t)\\,dt";
+    expect(inferType(latex, normalizeExpression(latex)).type).toBe(MathType.Function);
+    expect(inferType("I", "int{x,0,1}(x^2)").type).toBe(MathType.Number);
+    // Only the integrand binds x; the x outside it is still free
+    expect(inferType("F", "x+int{x,0,1}(x)").type).toBe(MathType.Function);
+    expect(inferType("G", "int{x,0,1}(int{y,0,x}(x*y))").type).toBe(MathType.Number);
+    // The call form binds its variable too
+    expect(inferType("integrate(t^2, t, 0, 3)", "integrate(t^2,t,0,3)").type).toBe(MathType.Number);
+    expect(inferType("integrate(x^2, 0, 1)", "integrate(x^2,0,1)").type).toBe(MathType.Number);
+    expect(inferType("integrate(t, t, 0, x)", "integrate(t,t,0,x)").type).toBe(MathType.Function);
+    expect(evaluateLatex(latex, { x: Math.PI / 2 })).toBeCloseTo(1, 10);
+
+    const context = buildDefinitionContext([]);
+    const ast = expressionEngine.parse(latex, context);
+    expect(expressionEngine.hasFreeVariables(ast, context)).toBe(true);
+    expect(expressionEngine.hasFreeVariables(expressionEngine.parse("\\int_0^1 t\\,dt", context), context)).toBe(false);
+  });
+});
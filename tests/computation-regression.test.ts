@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { fitModel, linearDesign } from "@/lib/computation/regression";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { regressionCurve } from "@/lib/runtime/regression";
+import { validateExpression } from "@/lib/validation/expressionValidator";
+
+const xs = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+const listLatex = (name: string, values: number[]) => `${name}=[${values.join(",")}]`;
+
+const buildContext = (latex: string[]) =>
+  buildDefinitionContext(latex.map(entry => ({ normalized: normalizeExpression(entry) })));
+
+describe("regression", () => {
+  it("solves linear-in-parameter models exactly and others by Levenberg–Marquardt", () => {
+    const line = (p: number[]) => xs.map(x => p[0] * x + p[1]);
+    expect(linearDesign(line, 2)).not.toBeNull();
+    const noisy = xs.map(x => 2 * x + 1 + (x % 2 === 0 ? 0.1 : -0.1));
+    const fit = fitModel(line, noisy, 2);
+    expect(fit.method).toBe("linear");
+    expect(fit.parameters[0]).toBeCloseTo(2, 1);
+    expect(fit.rSquared).toBeGreaterThan(0.999);
+    // Least-squares residuals are orthogonal to every design column
+    expect(fit.residuals.reduce((sum, r) => sum + r, 0)).toBeCloseTo(0, 10);
+    expect(fit.residuals.reduce((sum, r, i) => sum + r * xs[i], 0)).toBeCloseTo(0, 10);
+
+    const decay = (p: number[]) => xs.map(x => p[0] * Math.exp(-p[1] * x));
+    expect(linearDesign(decay, 2)).toBeNull();
+    const exact = fitModel(decay, xs.map(x => 5 * Math.exp(-0.3 * x)), 2);
+    expect(exact.method).toBe("levenberg-marquardt");
+    expect(exact.converged).toBe(true);
+    expect(exact.parameters[0]).toBeCloseTo(5, 8);
+    expect(exact.parameters[1]).toBeCloseTo(0.3, 8);
+
+    expect(() => fitModel(line, [1], 2)).toThrow(/at least 2 data points/);
+  });
+
+  it("fits `observed ~ model` entries and writes the parameters into the context", () => {
+    const context = buildContext([
+      listLatex("x_1", xs),
+      listLatex("y_1", xs.map(x => 3 - 0.5 * x)),
+      listLatex("y_2", xs.map(x => 10 / (1 + Math.exp(-1.5 * (x - 4))))),
+      "y_1\\sim m x_1+b",
+      "y_2\\sim\\frac{L}{1+e^{-r(x_1-h)}}",
+      "y_1\\sim c_2x_1^{2}+c_1x_1+c_0",
+      "f(x)=m\\cdot x+b",
+    ]);
+
+    expect(context.variables.m).toBeCloseTo(-0.5, 12);
+    expect(context.variables.b).toBeCloseTo(3, 12);
+    expect(context.variables.L).toBeCloseTo(10, 8);
+    expect(context.variables.r).toBeCloseTo(1.5, 8);
+    expect(context.variables.h).toBeCloseTo(4, 8);
+    // A quadratic term fitted to a line vanishes
+    expect(context.variables.c_2).toBeCloseTo(0, 10);
+
+    const line = context.regressions!["y_1~mx_1+b"];
+    expect(line.rSquared).toBe(1);
+    expect(line.parameterNames).toEqual(["b", "m"]);
+    expect(expressionEngine.evaluateExpression("f(2)", {}, context)).toMatchObject({ kind: "number", value: expect.closeTo(2, 12) });
+    expect(validateExpression("y_1~mx_1+b", context)).toEqual([]);
+
+    const curve = regressionCurve(line)!;
+    expect(curve.variable).toBe("x_1");
+    expect(expressionEngine.evaluate(curve.ast, { x: 4 })).toMatchObject({ value: expect.closeTo(1, 12) });
+  });
+
+  it("fits both parameters of a model written with a LaTeX function after a name", () => {
+    const context = buildContext([
+      listLatex("x_1", xs),
+      listLatex("y_1", xs.map(x => 2 * Math.sin(0.5 * x))),
+      "y_1\\sim a\\sin(bx_1)",
+    ]);
+    const fit = context.regressions!["y_1~a*sin(bx_1)"];
+    expect(fit.parameterNames).toEqual(["a", "b"]);
+    expect(context.variables.a).toBeCloseTo(2, 6);
+    expect(context.variables.b).toBeCloseTo(0.5, 6);
+  });
+
+  it("skips regressions that have no data or parameters", () => {
+    const context = buildContext([listLatex("x_1", xs), "y_1\\sim m x_1", "x_1\\sim 2x_1"]);
+    expect(context.regressions).toBeUndefined();
+    expect(context.variables.m).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  airyAi,
+  airyBi,
+  besselI,
+  besselJ,
+  besselK,
+  besselY,
+  complexDigamma,
+  complexErf,
+  complexLambertW,
+  complexNumber,
+  ellipticEIncomplete,
+  ellipticF,
+  lambertW,
+} from "@/lib/computation/special";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { inferType, MathType } from "@/lib/types";
+
+const evaluateLatex = (latex: string, variables: Record<string, number> = {}) =>
+  expressionEngine.evaluateExpression(latex, variables, buildDefinitionContext([]));
+
+const expectRelative = (actual: number, expected: number, tolerance = 1e-12) =>
+  expect(Math.abs(actual - expected)).toBeLessThanOrEqual(tolerance * Math.abs(expected));
+
+describe("special functions", () => {
+  it("evaluates Bessel functions of integer order", () => {
+    expectRelative(besselJ(2, 1), 0.11490348493190047);
+    expectRelative(besselJ(5, 10), -0.2340615281867936);
+    // Miller recurrence keeps full relative accuracy far below the turning point
+    expectRelative(besselJ(20, 1), 3.873503008524658e-25);
+    expectRelative(besselJ(-3, 2.5), -0.2166003910391135);
+    expectRelative(besselY(5, 10), 0.1354030476893623);
+    expect(besselY(1, -1)).toBeNaN();
+    expectRelative(besselI(0, 1), 1.2660658777520082);
+    expectRelative(besselK(1, 1), 0.6019072301972346);
+    expectRelative(besselK(5, 2), 9.431049100596466);
+    expect(() => besselJ(0.5, 1)).toThrow(/integer order/);
+  });
+
+  it("evaluates Airy functions across the oscillatory and decaying regions", () => {
+    expectRelative(airyAi(0), 0.3550280538878172);
+    expectRelative(airyBi(1), 1.207423594952871);
+    expectRelative(airyAi(5), 1.083444281360744e-4);
+    expectRelative(airyAi(-2), 0.2274074282016855);
+    expectRelative(airyAi(-10), 0.04024123848644319, 1e-10);
+    expectRelative(airyBi(-10), -0.3146798296438386, 1e-10);
+  });
+
+  it("solves w e^w = z on the real and complex branches of Lambert W", () => {
+    expectRelative(lambertW(1), 0.5671432904097838);
+    expectRelative(lambertW(-0.2, -1), -2.542641357773527);
+    expect(lambertW(-1)).toBeNaN();
+    for (const [z, branch] of [[complexNumber(-1, 0), 0], [complexNumber(1, 1), 1], [complexNumber(-3, 2), -1]] as const) {
+      const w = complexLambertW(z, branch);
+      const residual = w.mul(w.exp()).sub(z);
+      expect(residual.abs()).toBeLessThan(1e-13);
+    }
+  });
+
+  it("continues erf and digamma into the complex plane", () => {
+    const erf = complexErf(complexNumber(1, 1));
+    expect(erf.re).toBeCloseTo(1.3161512816979477, 14);
+    expect(erf.im).toBeCloseTo(0.19045346923783471, 14);
+    // Past |Re z| = 2 the continued fraction takes over from the series
+    expect(complexErf(complexNumber(2.5, 0)).re).toBeCloseTo(0.999593047982555, 14);
+
+    const z = complexNumber(-2.5, 0.5);
+    const recurrence = complexDigamma(z.add(1)).sub(complexDigamma(z)).sub(z.inverse());
+    expect(recurrence.abs()).toBeLessThan(1e-13);
+    expect(complexDigamma(complexNumber(1, 1)).im).toBeCloseTo(1.0766740474685812, 12);
+  });
+
+  it("evaluates incomplete elliptic integrals through Carlson's forms", () => {
+    expectRelative(ellipticF(Math.PI / 2, 0.5), 1.854074677301372);
+    expectRelative(ellipticEIncomplete(Math.PI / 2, 0.5), 1.3506438810476755);
+    // Each half turn of the amplitude adds 2K(m)
+    expectRelative(ellipticF(Math.PI / 2 + Math.PI, 0.3), 3 * ellipticF(Math.PI / 2, 0.3));
+  });
+
+  it("normalizes LaTeX notation and evaluates through the registry", () => {
+    expect(normalizeExpression("\\operatorname{erf}\\left(x\\right)")).toBe("erf(x)");
+    expect(normalizeExpression("\\Gamma(x)+\\psi(x)")).toBe("gamma(x)+digamma(x)");
+    expect(normalizeExpression("\\operatorname{J}_{2}(x)")).toBe("besselj(2,x)");
+    expect(normalizeExpression("\\mathrm{K}_1\\left(x\\right)")).toBe("besselk(1,x)");
+    expect(normalizeExpression("Y_{\\nu}(x)")).toBe("bessely(nu,x)");
+    expect(normalizeExpression("\\operatorname{Ai}(x)")).toBe("airyai(x)");
+
+    const value = (latex: string) => {
+      const result = evaluateLatex(latex);
+      return result.kind === "number" ? result.value : NaN;
+    };
+    expectRelative(value("\\Gamma(5)"), 24);
+    expectRelative(value("\\zeta(2)"), Math.PI ** 2 / 6);
+    expectRelative(value("\\operatorname{B}(2,3)"), 1 / 12);
+    expectRelative(value("\\operatorname{J}_{1}(2)"), 0.5767248077568734);
+    expectRelative(value("\\operatorname{K}(0.5)"), 1.854074677301372);
+
+    const gamma = evaluateLatex("gamma(1+i)");
+    expect(gamma).toMatchObject({ kind: "complex" });
+    expect(gamma.kind === "complex" && gamma.real).toBeCloseTo(0.498015668118356, 12);
+    expect(evaluateLatex("lambertw(-1)")).toMatchObject({ kind: "complex" });
+    expect(inferType("\\operatorname{erf}(x)", "erf(x)").type).toBe(MathType.Function);
+  });
+
+  it("leaves subscripted user functions alone and rejects complex Bessel arguments", () => {
+    const definition = normalizeExpression("K_1(x)=x^2");
+    expect(definition).toBe("K_1(x)=x^2");
+    const context = buildDefinitionContext([{ normalized: definition }]);
+    expect(expressionEngine.evaluateExpression("K_1(3)", {}, context)).toEqual({ kind: "number", value: 9 });
+
+    expect(() => evaluateLatex("besselj(1, 2i)")).toThrow(/not a complex number/);
+    expect(() => evaluateLatex("bessely(1, -1)")).toThrow(/complex for x < 0/);
+  });
+});
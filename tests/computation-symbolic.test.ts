@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { expressionEngine } from "@/lib/expression";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { astToLatex } from "@/lib/astToString";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { RuntimeValue } from "@/lib/runtime/value";
+import { inferType, MathType } from "@/lib/types";
+
+const context = buildDefinitionContext([{ normalized: "f(t) = t^2 - 1" }, { normalized: "a = 3" }]);
+
+const run = (expression: string, variables: Record<string, number> = {}) =>
+  expressionEngine.evaluate(expressionEngine.parseNormalized(expression, context), variables, context);
+
+const latexOf = (value: RuntimeValue): string => {
+  if (value.kind === "expression") return astToLatex(value.ast).replace(/\s+/g, "");
+  if (value.kind === "list") return value.elements.map(latexOf).join(";");
+  throw new Error(`Expected an expression, got ${value.kind}`);
+};
+
+describe("symbolic algebra commands", () => {
+  it("returns closed-form expressions", () => {
+    const expanded = run("expand((x+1)^3)");
+    expect(expanded).toMatchObject({ kind: "expression", variables: ["x"] });
+    expect(latexOf(expanded)).toBe("{x}^{3}+3\\cdot{x}^{2}+3\\cdotx+1");
+    expect(latexOf(run("expand((x+y)*(x-y))"))).toBe("{x}^{2}-{y}^{2}");
+    expect(latexOf(run("factor(x^3 - x)"))).toBe("x\\cdot\\left(x-1\\right)\\cdot\\left(x+1\\right)");
+    expect(latexOf(run("factor(6x^2 - 12)"))).toBe("6\\cdot\\left({x}^{2}-2\\right)");
+    // Results stay exact instead of folding sqrt(12) into a decimal
+    expect(latexOf(run("simplify(sqrt(12)*x)"))).toBe("2\\cdot\\sqrt{3}\\cdotx");
+    // User functions are inlined and commands nest
+    expect(latexOf(run("diff(f(x))"))).toBe("2\\cdotx");
+    expect(latexOf(run("simplify(expand((x+1)^2) - x^2)"))).toBe("2\\cdotx+1");
+  });
+
+  it("solves linear, quadratic and numeric equations", () => {
+    expect(latexOf(run("solve(x^2 - 2, x)"))).toBe("-\\sqrt{2};\\sqrt{2}");
+    expect(latexOf(run(normalizeExpression("solve(x^{2}=4,x)")))).toBe("-2;2");
+    // Defined constants are substituted before solving
+    expect(latexOf(run("solve(a*x + 1, x)"))).toBe("\\frac{-1}{3}");
+    expect(latexOf(run("solve(p*x^2 + q*x + r, x)"))).toContain("\\sqrt{{q}^{2}-4\\cdotp\\cdotr}");
+    expect(run("solve(x^2 + 1, x)")).toMatchObject({ kind: "list", elements: [] });
+
+    const [root] = (run("solve(cos(x) - x, x)") as Extract<RuntimeValue, { kind: "list" }>).elements;
+    expect(root.kind === "expression" && root.ast.value).toBeCloseTo(0.739085, 6);
+  });
+
+  it("evaluates closed forms when plotted and types them by their variables", () => {
+    expect(run("simplify(x^2 + 2x + x^2)", { x: 3 })).toEqual({ kind: "number", value: 24 });
+    expect(run("diff(x^3, x)", { x: 2 })).toEqual({ kind: "number", value: 12 });
+
+    expect(normalizeExpression("solve(x^{2}=2,x)")).toBe("solve(x^(2)==2,x)");
+    expect(inferType("", "diff(x^3, x)").type).toBe(MathType.Function);
+    expect(inferType("", "expand((t+1)^2)").type).toBe(MathType.Expression);
+    expect(inferType("", "solve(x^(2)==2,x)").type).toBe(MathType.List);
+  });
+});
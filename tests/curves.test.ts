@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { parametricCurve, polarCurve, sampleCurve } from "@/lib/runtime/curves";
+import { validateExpression } from "@/lib/validation/expressionValidator";
+import { getTypeLabel, inferType, isParametricCurve, isPolarCurve } from "@/lib/types";
+
+describe("polar and parametric curves", () => {
+  it("recognizes curve entries and their domains", () => {
+    const parametric = normalizeExpression("\\left(\\cos(t),\\sin(t)\\right),t\\in\\left[0,\\pi\\right]");
+    expect(parametric).toBe("(cos(t),sin(t)),t∈[0,pi]");
+    expect(isParametricCurve(parametric)).toBe(true);
+    expect(isParametricCurve("(1, 2)")).toBe(false);
+    expect(isPolarCurve(normalizeExpression("r=1+\\cos(\\theta)"))).toBe(true);
+    expect(isPolarCurve("r = 3")).toBe(false);
+    expect(isPolarCurve("x^2+y^2=r^2")).toBe(false);
+    // Textbook notation without parentheses
+    expect(normalizeExpression("r=1+\\cos\\theta")).toBe("r=1+cos(theta)");
+    expect(normalizeExpression("r=\\sin 2\\theta+\\sinh x")).toBe("r=sin(2*theta)+sinh(x)");
+    // The power belongs to the bare argument: \sin x^2 is sin(x^2)
+    expect(normalizeExpression("\\sin x^2")).toBe("sin(x^2)");
+    expect(normalizeExpression("\\cos\\theta^{2}+1")).toBe("cos(theta^(2))+1");
+    expect(getTypeLabel(inferType("r=2\\theta", "r=2*theta"))).toBe("Number → Point");
+
+    const context = buildDefinitionContext([{ normalized: "r=1+cos(theta)" }, { normalized: "a = 2" }]);
+    expect(context.variables.r).toBeUndefined();
+    expect(validateExpression("r=a*cos(theta),theta∈[0,pi]", context)).toEqual([]);
+    expect(validateExpression("(cos(t),a*sin(t))", context)).toEqual([]);
+
+    expect(parametricCurve(parametric, context).domain).toEqual([0, Math.PI]);
+    expect(polarCurve("r=theta", context).domain).toEqual([0, 2 * Math.PI]);
+    expect(() => parametricCurve("(t,t),t∈[1,0]", context)).toThrow(/a < b/);
+  });
+
+  it("keeps r = 2 a constant for relations that use r", () => {
+    const context = buildDefinitionContext([{ normalized: "r=2" }, { normalized: "x^2+y^2=r^2" }]);
+    expect(context.variables.r).toBe(2);
+    expect(getTypeLabel(inferType("r=2", "r=2"))).toBe("Number");
+    expect(validateExpression("x^2+y^2=r^2", context)).toEqual([]);
+  });
+
+  it("traces polar curves through polar coordinates", () => {
+    const context = buildDefinitionContext([]);
+    const cardioid = polarCurve("r=1+cos(theta)", context);
+    expect(cardioid.f(0)).toEqual({ x: 2, y: 0 });
+    const [path] = sampleCurve(cardioid, 1e-3);
+    path.forEach(({ x, y }) => {
+      const theta = Math.atan2(y, x);
+      expect(Math.hypot(x, y)).toBeCloseTo(1 + Math.cos(theta), 9);
+    });
+    // Closed: the last point returns to the first
+    expect(path[path.length - 1].x).toBeCloseTo(2, 12);
+  });
+
+  it("samples adaptively where the curve bends and breaks where it is undefined", () => {
+    const context = buildDefinitionContext([]);
+    // A narrow ellipse turns sharply at its ends (t = 0, π) and hardly at all in between
+    const [ellipse] = sampleCurve(parametricCurve("(10cos(t),0.2sin(t))", context), 1e-3);
+    const near = (target: number) =>
+      ellipse.filter(({ x, y }) => Math.abs(Math.atan2(y / 0.2, x / 10) - target) < 0.2).length;
+    expect(near(0)).toBeGreaterThan(3 * near(Math.PI / 2));
+
+    // Only defined for 0 ≤ t ≤ 4; the sampling finds both ends
+    const pieces = sampleCurve(parametricCurve("(t,sqrt(t)+sqrt(4-t)),t∈[-2,6]", context), 1e-3);
+    expect(pieces).toHaveLength(1);
+    expect(pieces[0][0].x).toBeLessThan(1e-3);
+    expect(pieces[0][pieces[0].length - 1].x).toBeGreaterThan(4 - 1e-3);
+
+    const tangent = sampleCurve(parametricCurve("(t,tan(t)),t∈[0,3]", context), 1e-3);
+    expect(tangent).toHaveLength(2);
+  });
+});
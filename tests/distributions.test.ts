@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDistribution,
+  cdf,
+  density,
+  distributionMean,
+  distributionVariance,
+  intervalProbability,
+  quantile,
+  sample,
+} from "@/lib/computation/distributions";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { registry } from "@/lib/operations/registry";
+import { inferType, MathType } from "@/lib/types";
+
+describe("probability distributions", () => {
+  it("evaluates densities, CDFs, quantiles and moments", () => {
+    const normal = buildDistribution("normal", [0, 1]);
+    expect(density(normal, 0)).toBeCloseTo(1 / Math.sqrt(2 * Math.PI), 12);
+    expect(cdf(normal, 1.959963984540054)).toBeCloseTo(0.975, 12);
+    expect(quantile(normal, 0.975)).toBeCloseTo(1.959963984540054, 10);
+    expect(intervalProbability(normal, -1, 1)).toBeCloseTo(0.6826894921370859, 12);
+
+    const binomial = buildDistribution("binomial", [10, 0.5]);
+    expect(density(binomial, 5)).toBeCloseTo(252 / 1024, 12);
+    expect(distributionMean(binomial)).toBe(5);
+    expect(distributionVariance(binomial)).toBe(2.5);
+    // Discrete intervals include both endpoints
+    expect(intervalProbability(binomial, 4, 6)).toBeCloseTo((210 + 252 + 210) / 1024, 12);
+
+    expect(distributionVariance(buildDistribution("studentt", [2]))).toBe(Infinity);
+    expect(distributionMean(buildDistribution("exponential", [4]))).toBe(0.25);
+    expect(cdf(buildDistribution("chi2", [2]), 2)).toBeCloseTo(1 - Math.exp(-1), 12);
+    expect(() => buildDistribution("uniform", [1, 1])).toThrow(/a < b/);
+    expect(() => buildDistribution("binomial", [2.5, 0.5])).toThrow(/whole number/);
+  });
+
+  it("draws reproducible samples from a seed", () => {
+    const poisson = buildDistribution("poisson", [3]);
+    expect(sample(poisson, 50, 7)).toEqual(sample(poisson, 50, 7));
+    expect(sample(poisson, 50, 7)).not.toEqual(sample(poisson, 50, 8));
+    expect(sample(poisson, 50, 7).every(Number.isInteger)).toBe(true);
+
+    const draws = sample(buildDistribution("uniform", [2, 4]), 2000);
+    expect(draws.every(x => x > 2 && x < 4)).toBe(true);
+    expect(draws.reduce((sum, x) => sum + x, 0) / draws.length).toBeCloseTo(3, 1);
+  });
+
+  it("treats distributions as values in expressions", () => {
+    const context = buildDefinitionContext([
+      { normalized: "X = normal(10, 2)" },
+      { normalized: "S = random(X, 500, 1)" },
+      { normalized: "p = probability(X, 8, 12)" },
+    ]);
+    expect(context.types.X.type).toBe(MathType.Distribution);
+    expect(context.types.S.type).toBe(MathType.List);
+    expect(context.types.p.type).toBe(MathType.Number);
+
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+    expect(evaluate("X")).toEqual({ kind: "distribution", family: "normal", params: { mu: 10, sigma: 2 } });
+    expect(evaluate("mean(X)")).toEqual({ kind: "number", value: 10 });
+    expect(evaluate("var(X)")).toEqual({ kind: "number", value: 4 });
+    expect(evaluate("var([1,2,3,4])")).toEqual({ kind: "number", value: 1.25 });
+    expect(evaluate("p")).toMatchObject({ value: expect.closeTo(0.6826894921370859, 12) });
+    expect(evaluate("X(10)")).toMatchObject({ value: expect.closeTo(1 / (2 * Math.sqrt(2 * Math.PI)), 12) });
+    expect(evaluate("cdf(X, 10)")).toMatchObject({ value: expect.closeTo(0.5, 12) });
+    expect((evaluate("mean(S)") as { value: number }).value).toBeCloseTo(10, 0);
+    expect(() => evaluate("normal(0, -1)")).toThrow(/positive/);
+
+    expect(inferType("binomial(10, 0.5)", "binomial(10, 0.5)").type).toBe(MathType.Distribution);
+  });
+
+  it("evaluates every distribution keyboard template", () => {
+    const constructors = registry
+      .getKeyboardItems()
+      .filter(item => registry.get(item.id)?.types.signatures[0].output === MathType.Distribution);
+    expect(constructors.map(item => item.id)).toContain("chi2");
+    constructors.forEach(item => {
+      // Fill the placeholders with the arguments of the documented example
+      const args = item.example!.slice(item.example!.indexOf("(") + 1, -1).split(",").map(arg => arg.trim());
+      const latex = item.insertTemplate!.replace(/#(\d)/g, (_, i: string) => args[Number(i)]);
+      const normalized = normalizeExpression(latex);
+      expect(normalized, latex).toBe(item.example!.replace(/\s/g, ""));
+      expect(expressionEngine.evaluateExpression(normalized, {}, buildDefinitionContext([]))).toMatchObject({
+        kind: "distribution",
+        family: item.id,
+      });
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { sampleFunction } from "@/lib/runtime/explicitSampling";
+
+const viewport = { xMin: -10, xMax: 10, yMin: -6, yMax: 6 };
+const size = { width: 800, height: 480 };
+
+describe("explicit curve sampling", () => {
+  it("breaks the path at poles and jumps", () => {
+    // tan(x) has poles at ±π/2, ±3π/2, ±5π/2 within [-10, 10]: seven branches
+    const tangent = sampleFunction(Math.tan, viewport, size);
+    expect(tangent).toHaveLength(7);
+    tangent.forEach((path) => {
+      const [first, last] = [path[0].x, path[path.length - 1].x];
+      const pole = Math.PI / 2 + Math.PI * Math.ceil((first - Math.PI / 2) / Math.PI);
+      expect(last).toBeLessThan(pole);
+    });
+
+    expect(sampleFunction((x) => 1 / x, viewport, size)).toHaveLength(2);
+
+    // floor(x / 2) steps at every even integer; no path joins two steps
+    const steps = sampleFunction((x) => Math.floor(x / 2), viewport, size);
+    expect(steps).toHaveLength(10);
+    steps.forEach((path) => expect(new Set(path.map(({ y }) => y)).size).toBe(1));
+  });
+
+  it("runs up to the edge of where the curve is defined", () => {
+    const [root] = sampleFunction(Math.sqrt, viewport, size);
+    expect(root[0].x).toBeGreaterThanOrEqual(0);
+    expect(root[0].x).toBeLessThan(1e-3);
+
+    const pieces = sampleFunction((x) => Math.sqrt(4 - x * x), viewport, size);
+    expect(pieces).toHaveLength(1);
+    expect(pieces[0][0].x).toBeLessThan(-2 + 1e-3);
+    expect(pieces[0][pieces[0].length - 1].x).toBeGreaterThan(2 - 1e-3);
+  });
+
+  it("refines where the curve bends and keeps steep curves whole", () => {
+    const close = { xMin: -1, xMax: 1, yMin: -1.5, yMax: 1.5 };
+    const points = sampleFunction((x) => Math.sin(1 / x), close, size).flat();
+    // Peaks of the oscillation are reached even where it is a few pixels wide
+    const near = points.filter(({ x }) => x > 0.05 && x < 0.1);
+    expect(Math.max(...near.map(({ y }) => y))).toBeGreaterThan(0.99);
+    expect(Math.min(...near.map(({ y }) => y))).toBeLessThan(-0.99);
+    // ... and the samples there are ten times as dense as along the slow tail
+    const tail = points.filter(({ x }) => x > 0.5);
+    expect(near.length / 0.05).toBeGreaterThan(10 * (tail.length / 0.5));
+
+    // A curve crossing the whole view within a fraction of a pixel is steep, not broken
+    const steep = sampleFunction((x) => 50 * Math.atan(40 * x), viewport, size);
+    expect(steep).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { buildDefinitionContext, definitionType } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { getTypeLabel, MathType } from "@/lib/types";
+
+describe("typed user functions", () => {
+  it("infers parameter types from how the body uses them", () => {
+    const context = buildDefinitionContext([
+      { normalized: "f(p) = p.x + p.y" },
+      { normalized: "g(L) = sum(L)" },
+      { normalized: "h(q, k) = q.z * k" },
+      { normalized: "w(z) = real(z)" },
+      { normalized: "u(p) = f(p) + 1" },
+    ]);
+    expect(context.functions.f.paramTypes).toEqual([MathType.Point]);
+    expect(context.functions.g.paramTypes).toEqual([MathType.List]);
+    expect(context.functions.h.paramTypes).toEqual([MathType.Point3D, MathType.Number]);
+    expect(context.functions.w.paramTypes).toEqual([MathType.Complex]);
+    // A parameter passed on to a typed function takes that function's type
+    expect(context.functions.u.paramTypes).toEqual([MathType.Point]);
+
+    expect(getTypeLabel(context.types.f)).toBe("Point → Number");
+    expect(getTypeLabel(context.types.h)).toBe("(Point3D, Number) → Number");
+  });
+
+  it("calls functions with and returning points, lists and complex numbers", () => {
+    const context = buildDefinitionContext([
+      { normalized: "f(p) = p.x + p.y" },
+      { normalized: "g(L) = sum(L)/length(L)" },
+      { normalized: "r(p) = (p.y, p.x)" },
+      { normalized: "c(t) = t + i" },
+      { normalized: "P = r((1, 2))" },
+      { normalized: "m = g([2, 4, 9, 5])" },
+    ]);
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+
+    expect(evaluate("f((3, 4))")).toEqual({ kind: "number", value: 7 });
+    expect(evaluate("g([1, 2, 3, 4])")).toEqual({ kind: "number", value: 2.5 });
+    expect(evaluate("r((1, 2)).x")).toEqual({ kind: "number", value: 2 });
+    expect(evaluate("c(2)")).toEqual({ kind: "complex", real: 2, imag: 1 });
+    expect(evaluate("P")).toEqual({ kind: "point", x: 2, y: 1 });
+    expect(evaluate("m")).toEqual({ kind: "number", value: 5 });
+    expect(() => evaluate("f(3)")).toThrow(/expects a Point for p, got Number/);
+
+    expect(context.types.r).toMatchObject({ domain: MathType.Point, codomain: MathType.Point });
+    expect(context.types.c).toMatchObject({ domain: MathType.Number, codomain: MathType.Complex });
+    expect(context.types.P.type).toBe(MathType.Point);
+  });
+
+  it("reports inferred definition types for the type table", () => {
+    const context = buildDefinitionContext([
+      { normalized: "f(p) = p.x" },
+      { normalized: "P = f((1, 2))" },
+      { normalized: "a = 2" },
+    ]);
+    expect(getTypeLabel(definitionType("f(p) = p.x", context)!)).toBe("Point → Number");
+    expect(definitionType("P = f((1, 2))", context)).toEqual({ type: MathType.Number });
+    expect(definitionType("a = 2", context)).toBeUndefined();
+    expect(definitionType("x^2 + y^2 = 1", context)).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildDefinitionContext, definitionType } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { parseExpression } from "@/lib/parser";
+import { draggablePoint, movePointLatex, plotShape } from "@/lib/runtime/geometry";
+import { MathType } from "@/lib/types";
+
+const evaluate = (source: string, definitions: string[] = []) => {
+  const context = buildDefinitionContext(definitions.map((normalized) => ({ normalized })));
+  return expressionEngine.evaluate(parseExpression(source, context), {}, context);
+};
+
+describe("geometric constructions", () => {
+  it("constructs and measures from points", () => {
+    expect(evaluate("midpoint((0,0),(4,2))")).toEqual({ kind: "point", x: 2, y: 1 });
+    expect(evaluate("midpoint(segment((1,1),(3,5)))")).toEqual({ kind: "point", x: 2, y: 3 });
+    expect(evaluate("circle((1,1),(4,5))")).toEqual({ kind: "circle", center: { x: 1, y: 1 }, radius: 5 });
+    // The perpendicular to the x-axis through (2, 3) is vertical
+    expect(evaluate("perpendicular(line((0,0),(1,0)),(2,3))")).toEqual({
+      kind: "line",
+      through: { x: 2, y: 3 },
+      direction: { x: -0, y: 1 },
+    });
+
+    expect(evaluate("area(polygon((0,0),(4,0),(0,3)))")).toEqual({ kind: "number", value: 6 });
+    // Clockwise vertices enclose the same area
+    expect(evaluate("area(polygon([(0,0),(0,2),(2,2),(2,0)]))")).toEqual({ kind: "number", value: 4 });
+    expect((evaluate("area(circle((0,0),2))") as { value: number }).value).toBeCloseTo(4 * Math.PI, 12);
+    expect((evaluate("angle((1,0),(0,0),(0,1))") as { value: number }).value).toBeCloseTo(Math.PI / 2, 12);
+    expect((evaluate("angle((1,0),(0,0),(-1,0.000000001))") as { value: number }).value).toBeCloseTo(Math.PI, 8);
+
+    expect(() => evaluate("line((1,1),(1,1))")).toThrow("line needs two different points");
+    expect(() => evaluate("angle((0,0),(0,0),(1,1))")).toThrow();
+  });
+
+  it("keeps constructions defined in terms of named points", () => {
+    const definitions = ["A=(1,2)", "B=(3,-1)", "M=midpoint(A,B)", "P=polygon(A,B,(0,0))", "a=area(P)"];
+    const context = buildDefinitionContext(definitions.map((normalized) => ({ normalized })));
+    expect(context.types.A).toEqual({ type: MathType.Point });
+    expect(context.types.P).toEqual({ type: MathType.Polygon });
+    expect(definitionType("a=area(P)", context)).toEqual({ type: MathType.Number });
+    expect(evaluate("M", definitions)).toEqual({ kind: "point", x: 2, y: 0.5 });
+    expect(evaluate("a", definitions)).toEqual({ kind: "number", value: 3.5 });
+
+    // Moving A moves everything built from it
+    const moved = ["A=(3,3)", ...definitions.slice(1)];
+    expect(evaluate("M", moved)).toEqual({ kind: "point", x: 3, y: 1 });
+    expect(evaluate("a", moved)).toEqual({ kind: "number", value: 6 });
+
+    // MathQuill writes a spacing command after commas
+    expect(normalizeExpression("A=\\left(1,\\ 2\\right)")).toBe("A=(1,2)");
+  });
+
+  it("drags points given by coordinates", () => {
+    expect(draggablePoint("A=(1,-2.5)")).toEqual({ name: "A", x: 1, y: -2.5 });
+    expect(draggablePoint("(0.5,3)")).toEqual({ name: null, x: 0.5, y: 3 });
+    // Computed points follow what they are built from instead
+    expect(draggablePoint("M=midpoint(A,B)")).toBeNull();
+    expect(draggablePoint("A=(1,2a)")).toBeNull();
+
+    const step = { x: 0.025, y: 0.025 };
+    expect(movePointLatex("A=\\left(1,\\ 2\\right)", { x: 1.2345678, y: -0.0001 }, step)).toBe("A=\\left(1.23,0\\right)");
+    expect(movePointLatex("\\left(1,2\\right)", { x: 7.00000001, y: 2.5 }, { x: 1, y: 1 })).toBe("\\left(7,3\\right)");
+
+    const context = buildDefinitionContext([{ normalized: "A=(1,2)" }]);
+    expect(plotShape(parseExpression("segment(A,(4,6))", context), context)).toEqual({
+      kind: "segment",
+      from: { x: 1, y: 2 },
+      to: { x: 4, y: 6 },
+    });
+    expect(plotShape(parseExpression("A", context), context)).toBeNull();
+  });
+});
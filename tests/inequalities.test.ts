@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { InequalityRegion2DEvaluator } from "@/lib/computation/evaluators/InequalityRegion2DEvaluator";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { parseExpression } from "@/lib/parser";
+import { isInequality } from "@/lib/types";
+
+type Point = { x: number; y: number };
+
+// Shoelace area of the fill polygons
+const area = (polygons: Point[][]) =>
+  polygons.reduce(
+    (total, polygon) =>
+      total +
+      polygon.reduce((sum, p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        return sum + (p.x * q.y - q.x * p.y) / 2;
+      }, 0),
+    0
+  );
+
+const region = (normalized: string, resolution = 64) => {
+  const context = buildDefinitionContext([]);
+  return new InequalityRegion2DEvaluator(parseExpression(normalized, context), context).evaluateRegion({
+    bounds: { xMin: -3, xMax: 3, yMin: -3, yMax: 3 },
+    resolution,
+  });
+};
+
+describe("inequality regions", () => {
+  it("reads inequalities from the editor", () => {
+    expect(normalizeExpression("x^2+y^2\\le 4")).toBe("x^2+y^2<=4");
+    expect(normalizeExpression("x>0\\text{ and }y<\\sin(x)")).toBe("x>0∧y<sin(x)");
+    expect(normalizeExpression("y \\geq x \\lor y \\lt -x")).toBe("y>=x∨y<-x");
+    expect(expressionEngine.evaluateExpression("x > 0 \\land y < 1", { x: 1, y: 0 }, buildDefinitionContext([]))).toEqual({
+      kind: "boolean",
+      value: true,
+    });
+
+    expect(isInequality("y<x^2")).toBe(true);
+    expect(isInequality("x^2+y^2<=4")).toBe(true);
+    expect(isInequality("x>0∧y<sin(x)")).toBe(true);
+    expect(isInequality("y=if(x<0,-x,x)")).toBe(false);
+    expect(isInequality("L[L>0]")).toBe(false);
+    expect(isInequality("a<3")).toBe(false);
+  });
+
+  it("fills the region and marks strict boundaries", () => {
+    const disk = region("x^2+y^2<=4");
+    expect(area(disk.fills)).toBeCloseTo(4 * Math.PI, 1);
+    expect(disk.boundaries.every(({ strict }) => !strict)).toBe(true);
+    // The grid cells join into one closed circle of radius 2
+    expect(disk.boundaries).toHaveLength(1);
+    disk.boundaries[0].points.forEach(({ x, y }) => expect(Math.hypot(x, y)).toBeCloseTo(2, 1));
+
+    const below = region("y<x^2");
+    expect(below.boundaries.every(({ strict }) => strict)).toBe(true);
+    // ∫ from -3 to 3 of min(x², 3) + 3: the parabola leaves the bounds at |x| = √3
+    const exact = 2 * (Math.sqrt(3) ** 3 / 3 + 3 * (3 - Math.sqrt(3))) + 18;
+    expect(area(below.fills)).toBeCloseTo(exact, 1);
+  });
+
+  it("shades the intersection of compound conditions and outlines only its edge", () => {
+    const { fills, boundaries } = region("x>0∧y<sin(x)");
+    // Below y = sin(x) for 0 < x < 3, down to y = -3
+    const exact = 3 * 3 + (1 - Math.cos(3));
+    expect(area(fills)).toBeCloseTo(exact, 1);
+    // Neither the axis above the sine nor the sine left of the axis is an edge
+    expect(boundaries.length).toBeGreaterThan(0);
+    boundaries.forEach(({ points }) =>
+      points.forEach(({ x, y }) => {
+        if (Math.abs(x) < 1e-9) expect(y).toBeLessThanOrEqual(1e-9);
+        else expect(x).toBeGreaterThan(0);
+      })
+    );
+
+    const band = region("0<y<1∨x<-2", 48);
+    expect(area(band.fills)).toBeCloseTo(6 + 6 - 1, 1);
+  });
+});
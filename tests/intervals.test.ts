@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { ImplicitCurve2DEvaluator } from "@/lib/computation/evaluators/ImplicitCurve2DEvaluator";
+import { parseExpression } from "@/lib/parser";
+import { evaluateInterval } from "@/lib/runtime/intervals";
+
+type Point = { x: number; y: number };
+
+const curve = (normalized: string, bounds = { xMin: -3, xMax: 3, yMin: -3, yMax: 3 }) => {
+  const context = buildDefinitionContext([]);
+  return new ImplicitCurve2DEvaluator(parseExpression(normalized, context), context)
+    .evaluateCurve({ bounds, resolution: 16 })
+    .segments.map(({ points }) => points);
+};
+
+const length = (line: Point[]) =>
+  line.slice(1).reduce((sum, q, k) => sum + Math.hypot(q.x - line[k].x, q.y - line[k].y), 0);
+
+describe("interval arithmetic", () => {
+  it("bounds every value an expression takes over a box", () => {
+    const context = buildDefinitionContext([]);
+    const cases = ["x^2-2*x*y+sin(3*y)", "sqrt(x)/(y+5)", "exp(x)*cos(y)-abs(x-y)", "tan(x)+ln(y+4)"];
+    const box = { x: { lo: 0.2, hi: 1.3 }, y: { lo: -1.1, hi: 0.4 } };
+    cases.forEach((source) => {
+      const ast = parseExpression(source, context);
+      const range = evaluateInterval(ast, box, context)!;
+      for (let i = 0; i <= 20; i++) {
+        for (let j = 0; j <= 20; j++) {
+          const x = box.x.lo + ((box.x.hi - box.x.lo) * i) / 20;
+          const y = box.y.lo + ((box.y.hi - box.y.lo) * j) / 20;
+          const value = evaluateInterval(ast, { x: { lo: x, hi: x }, y: { lo: y, hi: y } }, context)!;
+          expect(value.lo).toBeGreaterThanOrEqual(range.lo - 1e-9);
+          expect(value.hi).toBeLessThanOrEqual(range.hi + 1e-9);
+        }
+      }
+    });
+    // Undefined across the whole box, and no rule for a comparison
+    expect(evaluateInterval(parseExpression("sqrt(x-5)", context), box, context)).toBeNull();
+    expect(() => evaluateInterval(parseExpression("x<y", context), box, context)).toThrow();
+  });
+
+  it("draws curves that touch zero without crossing it", () => {
+    // A double root: F never changes sign, yet the whole unit circle is on the curve
+    const tangent = curve("(x^2+y^2-1)^2=0").flat();
+    expect(tangent.length).toBeGreaterThan(40);
+    tangent.forEach(({ x, y }) => expect(Math.abs(Math.hypot(x, y) - 1)).toBeLessThan(0.1));
+    const angles = new Set(tangent.map(({ x, y }) => Math.round((Math.atan2(y, x) / Math.PI) * 8)));
+    expect(angles.size).toBeGreaterThanOrEqual(16);
+
+    // An isolated point is drawn as a dot at the origin, and nothing else
+    const isolated = curve("x^2+y^2=0");
+    expect(isolated.length).toBeGreaterThan(0);
+    isolated.flat().forEach(({ x, y }) => expect(Math.hypot(x, y)).toBeLessThan(0.1));
+  });
+
+  it("keeps thin features and crossings a coarse grid would miss", () => {
+    // Two circles 0.02 apart: between grid samples F never changes sign along the gap
+    const ring = curve("(x^2+y^2-1)(x^2+y^2-1.02^2)=0");
+    const radii = ring.flat().map(({ x, y }) => Math.hypot(x, y));
+    expect(radii.some((r) => Math.abs(r - 1) < 0.005)).toBe(true);
+    expect(radii.some((r) => Math.abs(r - 1.02) < 0.005)).toBe(true);
+
+    // The crossing lines of xy = 0 run through the origin unbroken
+    const axes = curve("x*y=0", { xMin: -2.9, xMax: 3.1, yMin: -3.1, yMax: 2.9 });
+    expect(axes.reduce((sum, line) => sum + length(line), 0)).toBeGreaterThan(11.5);
+
+    // Expressions intervals cannot bound still fall back to the grid
+    expect(curve("if(x>0,y-x,y+x)=0").length).toBeGreaterThan(0);
+  });
+
+  it("draws only where F is near zero when intervals are loose", () => {
+    // x*y - x*y bounds to a wide interval everywhere, but the curve is the line x = 0.5
+    const line = curve("x*y-x*y+0.001*(x-0.5)=0", { xMin: 0, xMax: 2, yMin: -1, yMax: 1 }).flat();
+    expect(line.length).toBeGreaterThan(0);
+    line.forEach(({ x }) => expect(Math.abs(x - 0.5)).toBeLessThan(0.01));
+
+    // Nothing drawn between the two branches of (x - y)^2 = 0.01
+    const band = curve("x^2-2*x*y+y^2-0.01=0", { xMin: 0, xMax: 2, yMin: -1, yMax: 1 }).flat();
+    expect(band.length).toBeGreaterThan(0);
+    band.forEach(({ x, y }) => expect(Math.abs(Math.abs(x - y) - 0.1)).toBeLessThan(0.02));
+  });
+});
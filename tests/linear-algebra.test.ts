@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  determinant,
+  eigenDecomposition,
+  inverse,
+  luDecompose,
+  multiplyMatrices,
+  qrDecompose,
+  rank,
+  singularValueDecomposition,
+  solveLinearSystem,
+  transpose,
+} from "@/lib/computation/linearAlgebra";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { inferType, MathType } from "@/lib/types";
+import { validateExpression } from "@/lib/validation/expressionValidator";
+
+const expectMatrixClose = (actual: number[][], expected: number[][], digits = 10) => {
+  expect(actual.length).toBe(expected.length);
+  actual.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], digits)));
+};
+
+const A = [
+  [4, -2, 1],
+  [3, 6, -4],
+  [2, 1, 8],
+];
+
+describe("linear algebra", () => {
+  it("factors matrices with LU, QR and SVD", () => {
+    const { L, U, P } = luDecompose(A);
+    expectMatrixClose(multiplyMatrices(L, U), multiplyMatrices(P, A));
+    expect(determinant(A)).toBeCloseTo(263, 10);
+    expectMatrixClose(multiplyMatrices(A, inverse(A)), [[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+
+    const tall = [[1, 2], [3, 4], [5, 6]];
+    const { Q, R } = qrDecompose(tall);
+    expectMatrixClose(multiplyMatrices(Q, R), tall);
+    expectMatrixClose(multiplyMatrices(transpose(Q), Q), [[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+    expect(R[2][0]).toBe(0);
+
+    const { U: left, S, V } = singularValueDecomposition(tall);
+    const sigma = S.map((value, i) => S.map((_, j) => (i === j ? value : 0)));
+    expectMatrixClose(multiplyMatrices(multiplyMatrices(left, sigma), transpose(V)), tall);
+    expect(S[0]).toBeGreaterThan(S[1]);
+    expect(rank([[1, 2], [2, 4]])).toBe(1);
+    expect(rank(tall)).toBe(2);
+  });
+
+  it("solves square systems exactly and overdetermined ones by least squares", () => {
+    const x = solveLinearSystem(A, [3, -1, 11]);
+    expectMatrixClose(multiplyMatrices(A, x.map(value => [value])), [[3], [-1], [11]]);
+    // Best fit line through (0, 1), (1, 3), (2, 4): y = 1.5x + 7/6
+    const [slope, intercept] = solveLinearSystem([[0, 1], [1, 1], [2, 1]], [1, 3, 4]);
+    expect(slope).toBeCloseTo(1.5, 12);
+    expect(intercept).toBeCloseTo(7 / 6, 12);
+    expect(() => solveLinearSystem([[1, 2], [2, 4]], [1, 2])).toThrow(/singular/);
+    expect(() => inverse([[1, 2, 3]])).toThrow(/square/);
+  });
+
+  it("finds real and complex eigenvalues with unit eigenvectors", () => {
+    const symmetric = eigenDecomposition([[2, 1], [1, 2]]);
+    expect(symmetric.values).toEqual([expect.closeTo(1, 12), expect.closeTo(3, 12)]);
+    symmetric.vectors.forEach((vector, i) => {
+      const [x, y] = vector as number[];
+      expect(Math.hypot(x, y)).toBeCloseTo(1, 12);
+      expect(2 * x + y).toBeCloseTo((symmetric.values[i] as number) * x, 12);
+    });
+
+    const rotation = eigenDecomposition([[0, -1], [1, 0]]);
+    expect(rotation.values).toEqual(
+      expect.arrayContaining([{ re: expect.closeTo(0, 12), im: expect.closeTo(1, 12) }])
+    );
+  });
+
+  it("parses bmatrix LaTeX and overloads arithmetic on matrices", () => {
+    expect(normalizeExpression("\\begin{bmatrix}1&2\\\\3&4\\end{bmatrix}")).toBe("matrix([[1,2],[3,4]])");
+    expect(normalizeExpression("\\begin{vmatrix}a&b\\\\c&d\\end{vmatrix}")).toBe("det(matrix([[a,b],[c,d]]))");
+    expect(normalizeExpression("A^{\\top}")).toBe("transpose(A)");
+    expect(normalizeExpression("\\left(A B\\right)^{\\top}")).toBe("transpose((AB))");
+    expect(normalizeExpression("(A+A)^{\\intercal}B")).toBe("transpose((A+A))*B");
+    expect(normalizeExpression("A_{12}^{\\top}")).toBe("transpose(A_12)");
+
+    const context = buildDefinitionContext([
+      { normalized: "A = matrix([[2,1],[1,3]])" },
+      { normalized: "B = A^2 - identity(2)" },
+      { normalized: "d = det(A)" },
+      { normalized: "k = det(A)+1" },
+      { normalized: "C = transpose((A*B))" },
+    ]);
+    expect(context.types.B.type).toBe(MathType.Matrix);
+    expect(context.types.d.type).toBe(MathType.Number);
+    expect(context.types.k.type).toBe(MathType.Number);
+    expect(context.types.C.type).toBe(MathType.Matrix);
+
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+    expect(evaluate("B")).toEqual({ kind: "matrix", rows: [[4, 5], [5, 9]] });
+    expect(evaluate("d")).toEqual({ kind: "number", value: 5 });
+    expect(evaluate("k")).toEqual({ kind: "number", value: 6 });
+    expect(evaluate("\\left(A\\cdot B\\right)^{\\top}")).toEqual({ kind: "matrix", rows: [[13, 19], [19, 32]] });
+    expect(evaluate("A*(1,1)")).toEqual({ kind: "point", x: 3, y: 4 });
+    expect(evaluate("-A/2")).toEqual({ kind: "matrix", rows: [[-1, -0.5], [-0.5, -1.5]] });
+    expect(evaluate("linsolve(A, (3, 4))")).toMatchObject({
+      kind: "list",
+      elements: [{ value: expect.closeTo(1, 12) }, { value: expect.closeTo(1, 12) }],
+    });
+    expect(evaluate("lu(A)")).toMatchObject({ kind: "list", elementType: MathType.Matrix });
+    expect(() => evaluate("A*matrix([[1,2,3]])")).toThrow(/Cannot multiply/);
+
+    expect(inferType("\\begin{bmatrix}1&0\\\\0&1\\end{bmatrix}", "matrix([[1,0],[0,1]])").type).toBe(MathType.Matrix);
+    expect(inferType("eigenvalues(A)", "eigenvalues(A)").type).toBe(MathType.List);
+    expect(inferType("linsolve(A, (3, 4))", "linsolve(A,(3,4))").type).toBe(MathType.List);
+    // Arithmetic on matrices the context defines
+    expect(inferType("A*A", "A*A", context).type).toBe(MathType.Matrix);
+    expect(inferType("2A-B", "2*A-B", context).type).toBe(MathType.Matrix);
+    expect(inferType("\\det(A)", "det(A)", context).type).toBe(MathType.Number);
+  });
+
+  it("transposes matrix names written A^T and solves for a column right-hand side", () => {
+    const context = buildDefinitionContext(
+      ["A=\\begin{bmatrix}1&2\\\\3&4\\end{bmatrix}", "B=A^{T}", "b=\\begin{bmatrix}5\\\\11\\end{bmatrix}"].map(latex => ({
+        normalized: normalizeExpression(latex),
+      }))
+    );
+    const transposed = { kind: "matrix", rows: [[1, 3], [2, 4]] };
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+    expect(context.types.B.type).toBe(MathType.Matrix);
+    expect(evaluate("B")).toEqual(transposed);
+    expect(evaluate("A^T")).toEqual(transposed);
+    expect(evaluate("A^{T}A")).toEqual({ kind: "matrix", rows: [[10, 14], [14, 20]] });
+    expect(validateExpression(normalizeExpression("A^{T}"), context)).toEqual([]);
+    // Elsewhere T is still a name
+    expect(validateExpression("x^T", context).map(error => error.identifier)).toEqual(["T"]);
+
+    const solution = { kind: "list", elements: [{ value: expect.closeTo(1, 12) }, { value: expect.closeTo(2, 12) }] };
+    expect(evaluate("\\operatorname{linsolve}(A, b)")).toMatchObject(solution);
+    expect(evaluate("linsolve(A, \\begin{bmatrix}5\\\\11\\end{bmatrix})")).toMatchObject(solution);
+    expect(inferType("linsolve(A, b)", "linsolve(A,b)", context).type).toBe(MathType.List);
+    expect(() => evaluate("linsolve(A, A)")).toThrow(/column/);
+  });
+});
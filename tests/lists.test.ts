@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { parseExpression } from "@/lib/parser";
+import { evaluate } from "@/lib/runtime/evaluator";
+import { familyMembers, plotPoints } from "@/lib/runtime/families";
+import { inferType, MathType } from "@/lib/types";
+
+const numbers = (value: unknown) => (value as { elements: Array<{ value: number }> }).elements.map(({ value }) => value);
+
+describe("lists", () => {
+  it("builds ranges and comprehensions", () => {
+    const context = buildDefinitionContext([{ normalized: "n = 4" }, { normalized: "f(t) = t^2" }]);
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+
+    expect(numbers(evaluate("[1...5]"))).toEqual([1, 2, 3, 4, 5]);
+    expect(numbers(evaluate("[1, 3, ..., 9]"))).toEqual([1, 3, 5, 7, 9]);
+    expect(numbers(evaluate("[5...n]"))).toEqual([5, 4]);
+    expect(numbers(evaluate("[0, 0.1, ..., 0.3]")).map(value => Number(value.toFixed(12)))).toEqual([0, 0.1, 0.2, 0.3]);
+    expect(numbers(evaluate("[f(k) for k = [1...n]]"))).toEqual([1, 4, 9, 16]);
+    expect(numbers(evaluate("\\left[k+1\\operatorname{for}k=\\left[1,\\ldots,3\\right]\\right]"))).toEqual([2, 3, 4]);
+    expect(normalizeExpression("L = [k^2 for k = [1...n]]")).toBe("L=[k^2|k∈[1...n]]");
+    // A body ending in a letter does not run into the `for`
+    expect(numbers(evaluate("[k for k = [1...3]]"))).toEqual([1, 2, 3]);
+    expect(numbers(evaluate("[2k for k = [1...3]]"))).toEqual([2, 4, 6]);
+    expect(numbers(evaluate("\\left[2k\\operatorname{for}k\\in\\left[1,\\ldots,3\\right]\\right]"))).toEqual([2, 4, 6]);
+
+    expect(() => evaluate("[1, 0, ..., 5]")).toThrow(/never reaches 5/);
+    expect(() => evaluate("[1...100000]")).toThrow(/limited to 10000/);
+  });
+
+  it("indexes, slices and filters", () => {
+    const context = buildDefinitionContext([
+      { normalized: "L = [4, -1, 7, 0, -3, 9]" },
+      { normalized: "M = L[L > 0]" },
+      { normalized: "a = L[3]" },
+    ]);
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+
+    expect(evaluate("L[2]")).toEqual({ kind: "number", value: -1 });
+    expect(numbers(evaluate("L[2...4]"))).toEqual([-1, 7, 0]);
+    expect(numbers(evaluate("L[L > 0]"))).toEqual([4, 7, 9]);
+    expect(numbers(evaluate("M"))).toEqual([4, 7, 9]);
+    expect(context.types.M.type).toBe(MathType.List);
+    expect(evaluate("a")).toEqual({ kind: "number", value: 7 });
+    // 2[1, 2] is still a product
+    expect(numbers(evaluate("2[1, 2, 3]"))).toEqual([2, 4, 6]);
+
+    expect(() => evaluate("L[7]")).toThrow(/outside a list of 6/);
+    expect(() => evaluate("L[1.5]")).toThrow(/whole numbers/);
+  });
+
+  it("broadcasts arithmetic over lists", () => {
+    const context = buildDefinitionContext([{ normalized: "L = [1, 2, 3]" }]);
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+
+    expect(numbers(evaluate("L + [10, 20, 30]"))).toEqual([11, 22, 33]);
+    expect(numbers(evaluate("L^2 - 1"))).toEqual([0, 3, 8]);
+    expect(numbers(evaluate("12 / L"))).toEqual([12, 6, 4]);
+    expect(numbers(evaluate("-L"))).toEqual([-1, -2, -3]);
+    expect(evaluate("L >= 2")).toEqual({
+      kind: "list",
+      elements: [false, true, true].map(value => ({ kind: "boolean", value })),
+    });
+    expect(evaluate("[(1, 2), (3, 4), (5, 6)] + (1, 1)")).toMatchObject({
+      elements: [{ x: 2, y: 3 }, { x: 4, y: 5 }, { x: 6, y: 7 }],
+    });
+    expect(() => evaluate("L + [1, 2, 3, 4]")).toThrow(/lists of 3 and 4/);
+  });
+
+  it("types indexing and list arithmetic from the definition context", () => {
+    const context = buildDefinitionContext([{ normalized: "L = [4, -1, 7]" }]);
+    const typeOf = (latex: string) => inferType(latex, normalizeExpression(latex), context);
+
+    expect(typeOf("L[L > 0]")).toEqual({ type: MathType.List });
+    expect(typeOf("L[2...3]")).toEqual({ type: MathType.List });
+    expect(typeOf("L[2]").type).toBe(MathType.Number);
+    expect(typeOf("L * 2 + 1")).toEqual({ type: MathType.List });
+    expect(typeOf("L + L")).toEqual({ type: MathType.List });
+    expect(typeOf("2L")).toEqual({ type: MathType.List });
+    expect(typeOf("sum(L)").type).toBe(MathType.Number);
+    // A single element in a curve is still a function of x
+    expect(typeOf("L[2]x").type).toBe(MathType.Function);
+
+    // A parameter iterated over by a comprehension is a list
+    const comprehension = buildDefinitionContext([{ normalized: normalizeExpression("u(L)=[l^2 for l = L]") }]);
+    expect(comprehension.functions.u.paramTypes).toEqual([MathType.List]);
+    expect(comprehension.types.u).toMatchObject({ domain: MathType.List, codomain: MathType.List });
+    expect(numbers(expressionEngine.evaluateExpression("u([1,2])", {}, comprehension))).toEqual([1, 4]);
+  });
+
+  it("splits list-valued curves into families and finds point plots", () => {
+    const context = buildDefinitionContext([{ normalized: "L = [(1, 2), (3, 4)]" }]);
+    const family = familyMembers(parseExpression("[1...3]x", context), context)!;
+    expect(family).toHaveLength(3);
+    expect(family.map(member => (evaluate(member, { x: 2 }, context) as { value: number }).value)).toEqual([2, 4, 6]);
+    expect(familyMembers(parseExpression("[sin(x), cos(x)]", context), context)).toHaveLength(2);
+    expect(familyMembers(parseExpression("x^2", context), context)).toBeNull();
+
+    expect(plotPoints(parseExpression("L", context), context)).toEqual([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+    expect(plotPoints(parseExpression("(1, -1)", context), context)).toEqual([{ x: 1, y: -1 }]);
+    expect(plotPoints(parseExpression("(x, 1)", context), context)).toBeNull();
+  });
+});
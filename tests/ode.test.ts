@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { solveODE } from "@/lib/computation/ode";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { expressionEngine } from "@/lib/expression";
+import { normalizeExpression } from "@/lib/normalizeExpression";
+import { initialCondition, slopeFunction } from "@/lib/runtime/ode";
+import { inferType, isDifferentialEquation, isInitialCondition, MathType } from "@/lib/types";
+
+const last = <T,>(values: T[]) => values[values.length - 1];
+
+describe("ODE solvers", () => {
+  it("integrates y' = -y with RK4, RK45 and BDF, forwards and backwards", () => {
+    const decay = (_t: number, [y]: number[]) => [-y];
+    expect(last(solveODE(decay, 0, [1], 2, { method: "rk4", step: 0.01 }).y)[0]).toBeCloseTo(Math.exp(-2), 9);
+    expect(last(solveODE(decay, 0, [1], 2, { method: "rk45" }).y)[0]).toBeCloseTo(Math.exp(-2), 6);
+    expect(last(solveODE(decay, 0, [1], 2, { method: "bdf", rtol: 1e-8 }).y)[0]).toBeCloseTo(Math.exp(-2), 5);
+
+    const backwards = solveODE(decay, 2, [Math.exp(-2)], 0);
+    expect(last(backwards.t)).toBe(0);
+    expect(last(backwards.y)[0]).toBeCloseTo(1, 6);
+  });
+
+  it("switches to BDF on stiff problems and stops when a solution blows up", () => {
+    // y' = -1000(y - cos t) hugs cos t after a fast transient
+    const stiff = (t: number, [y]: number[]) => [-1000 * (y - Math.cos(t))];
+    const solution = solveODE(stiff, 0, [0], 10);
+    expect(solution.method).toBe("bdf");
+    expect(solution.success).toBe(true);
+    expect(last(solution.y)[0]).toBeCloseTo((1e6 * Math.cos(10) + 1000 * Math.sin(10)) / (1e6 + 1), 4);
+
+    // y' = y² from y(0) = 1 is 1/(1 - t), which escapes at t = 1
+    const blowUp = solveODE((_t, [y]) => [y * y], 0, [1], 2, { limit: 1e6 });
+    expect(blowUp.success).toBe(false);
+    expect(last(blowUp.t)).toBeLessThan(1);
+    expect(last(blowUp.t)).toBeGreaterThan(0.999);
+  });
+
+  it("solves systems from user functions with solveODE", () => {
+    const context = buildDefinitionContext([
+      { normalized: "f(x,y) = y" },
+      { normalized: "g(x,y) = -x" },
+      { normalized: "h(t,y) = t" },
+    ]);
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+
+    // The harmonic oscillator traces the unit circle
+    const orbit = evaluate("solveODE([f, g], [1, 0], 2\\pi)");
+    expect(orbit.kind).toBe("list");
+    const points = (orbit as { elements: Array<{ kind: string; x: number; y: number }> }).elements;
+    expect(points.every(point => point.kind === "point" && Math.abs(Math.hypot(point.x, point.y) - 1) < 1e-5)).toBe(true);
+    expect(last(points)).toMatchObject({ x: expect.closeTo(1, 5), y: expect.closeTo(0, 5) });
+
+    // A single equation returns (t, y(t)) pairs: y = 1 + t²/2
+    const scalar = evaluate("solveODE(h, 1, 2)") as { elements: Array<{ x: number; y: number }> };
+    expect(last(scalar.elements)).toMatchObject({ x: 2, y: expect.closeTo(3, 8) });
+    expect(() => evaluate("solveODE([f, g], [1, 0, 0], 1)")).toThrow(/one initial value per function/);
+  });
+
+  it("reads y' = f(x, y) entries and their initial conditions", () => {
+    expect(normalizeExpression("y^{\\prime}=x\\cdot y")).toBe("y'=x*y");
+    expect(normalizeExpression("\\frac{dy}{dx}=x-y")).toBe("y'=x-y");
+    expect(isDifferentialEquation("y'=x*y")).toBe(true);
+    expect(inferType("y'=x\\cdot y", "y'=x*y").type).toBe(MathType.Function);
+
+    const context = buildDefinitionContext([{ normalized: "k = 2" }, { normalized: "y(0) = 1" }, { normalized: "y'=k*y" }]);
+    expect(context.functions.y).toBeUndefined();
+    expect(slopeFunction("y'=k*y", context)(0, 3)).toBe(6);
+    expect(initialCondition("y(0) = 1", context)).toEqual({ x: 0, y: 1 });
+    expect(isInitialCondition("y(-pi/2)=0")).toBe(true);
+
+    // A parameter makes it a function definition, not an initial condition
+    expect(isInitialCondition("y(t)=t^2")).toBe(false);
+    const defined = buildDefinitionContext([{ normalized: "y(t)=t^2" }]);
+    expect(defined.functions.y).toBeDefined();
+    expect(expressionEngine.evaluateExpression("y(3)", {}, defined)).toEqual({ kind: "number", value: 9 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { buildDefinitionContext } from '@/lib/definitionContext';
+import { expressionEngine } from '@/lib/expression';
+import { normalizeExpression } from '@/lib/normalizeExpression';
+import {
+  advanceParameterSlider,
+  createParameterSlider,
+  findFreeParameters,
+  formatSliderValue,
+  parameterDefinitions,
+  parseParameterSliders,
+  serializeParameterSliders,
+  syncParameterSliders,
+  updateParameterSlider,
+} from '@/lib/parameters/sliders';
+
+describe('Parameter sliders', () => {
+  it('detects undefined constants but not definitions, reserved names, or builtins', () => {
+    const expressions = [
+      { normalized: 'a*sin(b*x)' },
+      { normalized: 'c = 2*b' },
+      { normalized: 'x^2 + y^2 = r' },
+      { normalized: 'f(u) = u + c' },
+    ];
+    const context = buildDefinitionContext(expressions);
+    expect(findFreeParameters(expressions, context)).toEqual(['a', 'b', 'r']);
+  });
+
+  it('splits implicit products into single-letter sliders', () => {
+    const cases: Array<[string, string[], (x: number) => number]> = [
+      ['y=mx+c', ['m', 'c'], x => 2 * x + 3],
+      ['y=ax^2', ['a'], x => 2 * x ** 2],
+      ['y=a\\cdot\\sin(bx)', ['a', 'b'], x => 2 * Math.sin(3 * x)],
+      ['y=a\\sin(bx)', ['a', 'b'], x => 2 * Math.sin(3 * x)],
+    ];
+    cases.forEach(([latex, names, curve]) => {
+      const expressions = [{ normalized: normalizeExpression(latex) }];
+      const found = findFreeParameters(expressions, buildDefinitionContext(expressions));
+      expect(found, latex).toEqual(names);
+
+      const sliders = found.map((name, i) => createParameterSlider(name, { value: [2, 3][i] }));
+      const context = buildDefinitionContext([...parameterDefinitions(sliders), ...expressions]);
+      expect(findFreeParameters(expressions, context), latex).toEqual([]);
+      const ast = expressionEngine.parseNormalized(expressions[0].normalized, context);
+      expect(expressionEngine.evaluate(ast, { x: 0.7 }, context).value, latex).toBeCloseTo(curve(0.7));
+    });
+    // A Greek letter stays one slider
+    expect(findFreeParameters([{ normalized: 'theta*x' }], buildDefinitionContext([]))).toEqual(['theta']);
+  });
+
+  it('binds slider values in the definition context', () => {
+    const sliders = [createParameterSlider('a', { value: 2.5 }), createParameterSlider('b', { value: -1 })];
+    const context = buildDefinitionContext([
+      ...parameterDefinitions(sliders),
+      { normalized: 'c = 2*b' },
+    ]);
+    expect(context.variables.a).toBe(2.5);
+    expect(context.variables.b).toBe(-1);
+    expect(context.variables.c).toBe(-2);
+
+    const ast = expressionEngine.parseNormalized('a*x + b', context);
+    const result = expressionEngine.evaluate(ast, { x: 2 }, context);
+    expect(result.kind).toBe('number');
+    expect(result.value).toBeCloseTo(4);
+  });
+
+  it('keeps existing slider settings while syncing names', () => {
+    const a = createParameterSlider('a', { value: 3, max: 5 });
+    const synced = syncParameterSliders([a], ['a', 'k']);
+    expect(synced.map(s => s.name)).toEqual(['a', 'k']);
+    expect(synced[0]).toBe(a);
+    expect(syncParameterSliders(synced, ['a', 'k'])).toBe(synced);
+    expect(syncParameterSliders(synced, ['k']).map(s => s.name)).toEqual(['k']);
+  });
+
+  it('saves sliders without their playback state', () => {
+    const playing = createParameterSlider('a', { value: 2.5, mode: 'bounce', direction: -1, playing: true });
+    const saved = serializeParameterSliders([playing]);
+    expect(JSON.parse(saved)[0]).not.toHaveProperty('playing');
+    expect(parseParameterSliders(saved)).toEqual([{ ...playing, playing: false }]);
+    // Older saves kept the flag; a reload still comes back stopped
+    expect(parseParameterSliders(JSON.stringify([playing]))[0].playing).toBe(false);
+    expect(parseParameterSliders('{ broken')).toEqual([]);
+  });
+
+  it('normalizes bounds and clamps the value', () => {
+    const slider = updateParameterSlider(createParameterSlider('a'), { min: 4, max: -4, value: 10, step: 0 });
+    expect(slider.min).toBe(-4);
+    expect(slider.max).toBe(4);
+    expect(slider.value).toBe(4);
+    expect(slider.step).toBeGreaterThan(0);
+  });
+
+  it('animates in loop, bounce, and once modes', () => {
+    const base = createParameterSlider('a', { min: 0, max: 10, value: 9, playing: true });
+    // A full sweep takes SLIDER_SWEEP_MS; a fifth of it moves 2 units
+    const looped = advanceParameterSlider({ ...base, mode: 'loop' }, 800);
+    expect(looped.value).toBeCloseTo(1);
+
+    const bounced = advanceParameterSlider({ ...base, mode: 'bounce' }, 800);
+    expect(bounced.value).toBeCloseTo(9);
+    expect(bounced.direction).toBe(-1);
+
+    const once = advanceParameterSlider({ ...base, mode: 'once' }, 800);
+    expect(once.value).toBe(10);
+    expect(once.playing).toBe(false);
+
+    const paused = advanceParameterSlider({ ...base, playing: false }, 800);
+    expect(paused.value).toBe(9);
+  });
+
+  it('formats values without exponent notation', () => {
+    expect(formatSliderValue(createParameterSlider('a', { value: 1.5 }))).toBe('1.5');
+    expect(formatSliderValue(createParameterSlider('a', { value: 10 }))).toBe('10');
+    expect(formatSliderValue(createParameterSlider('a', { value: -0.0000001, step: 0.1 }))).toBe('0');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { argmax, argmin, brentRoot, findExtrema, findRoots, intersections } from "@/lib/computation/roots";
+import { buildDefinitionContext } from "@/lib/definitionContext";
+import { ImplicitCurve2DEvaluator } from "@/lib/computation/evaluators/ImplicitCurve2DEvaluator";
+import { findPointsOfInterest, implicitFunction } from "@/lib/runtime/pointsOfInterest";
+import { parseExpression } from "@/lib/parser";
+import { expressionEngine } from "@/lib/expression";
+import { inferType, MathType } from "@/lib/types";
+
+describe("root finding", () => {
+  it("finds crossing and touching roots but not poles", () => {
+    expect(brentRoot(x => x * x - 2, 0, 2)).toBeCloseTo(Math.SQRT2, 14);
+    const crossing = findRoots(x => Math.sin(x), -1, 7);
+    expect(crossing).toHaveLength(3);
+    crossing.forEach((root, k) => expect(root).toBeCloseTo(k * Math.PI, 12));
+
+    const touching = findRoots(x => (x - 1.3) ** 2 * (x + 2), -5, 5);
+    expect(touching).toHaveLength(2);
+    expect(touching[0]).toBeCloseTo(-2, 12);
+    expect(touching[1]).toBeCloseTo(1.3, 7);
+
+    // tan changes sign across its poles at ±π/2 without a zero there
+    expect(findRoots(Math.tan, -3, 3).map(root => root.toFixed(10))).toEqual(["0.0000000000"]);
+    expect(findRoots(x => x * x + 1, -5, 5)).toEqual([]);
+  });
+
+  it("locates extrema, global minima and intersections", () => {
+    const extrema = findExtrema(x => x ** 3 - 3 * x, -3, 3);
+    expect(extrema.map(({ kind }) => kind)).toEqual(["max", "min"]);
+    expect(extrema[0].x).toBeCloseTo(-1, 10);
+    expect(extrema[1].y).toBeCloseTo(-2, 12);
+
+    // The largest value on [-3, 3] is at the endpoint, not the local maximum
+    expect(argmax(x => x ** 3 - 3 * x, -3, 3)).toBe(3);
+    expect(argmin(x => (x - 0.7) ** 2 + 1, -4, 4)).toBeCloseTo(0.7, 10);
+
+    const points = intersections(x => x * x, x => x + 2, -10, 10);
+    expect(points).toHaveLength(2);
+    expect(points[0].x).toBeCloseTo(-1, 12);
+    expect(points[1].y).toBeCloseTo(4, 12);
+  });
+
+  it("exposes roots, argmin, argmax and intersect in expressions", () => {
+    const context = buildDefinitionContext([
+      { normalized: "f(x) = x^2" },
+      { normalized: "g(x) = 2 - x" },
+      { normalized: "a = 3" },
+    ]);
+    const evaluate = (latex: string) => expressionEngine.evaluateExpression(latex, {}, context);
+    const values = (latex: string) =>
+      (evaluate(latex) as { elements: Array<{ value: number }> }).elements.map(({ value }) => value);
+
+    const roots = values("roots(x^2 - a, -a, a)");
+    expect(roots).toHaveLength(2);
+    expect(roots[1]).toBeCloseTo(Math.sqrt(3), 12);
+    expect(values("roots(f(t) - 1, 0, 5)")[0]).toBeCloseTo(1, 12);
+    expect((evaluate("argmin(cos(x), 0, 5)") as { value: number }).value).toBeCloseTo(Math.PI, 8);
+    expect((evaluate("argmax(f, -1, 2)") as { value: number }).value).toBe(2);
+
+    const points = evaluate("intersect(f, g)") as { elements: Array<{ x: number; y: number }> };
+    expect(points.elements.map(({ x }) => Math.round(x * 1e10) / 1e10)).toEqual([-2, 1]);
+    expect(() => evaluate("roots(x*y, 0, 1)")).toThrow(/one variable/);
+
+    expect(inferType("roots(x^2-2,0,2)", "roots(x^2-2,0,2)").type).toBe(MathType.List);
+    expect(inferType("argmin(x^2,-1,1)", "argmin(x^2,-1,1)").type).toBe(MathType.Number);
+    expect(expressionEngine.hasFreeVariables(expressionEngine.parseNormalized("roots(x^2-2,0,2)", context), context)).toBe(false);
+  });
+
+  it("marks zeros, turning points and intersections of explicit and implicit curves", () => {
+    const context = buildDefinitionContext([]);
+    const bounds = { xMin: -3, xMax: 3, yMin: -3, yMax: 3 };
+    const circle = "x^2+y^2=4";
+    const { segments } = new ImplicitCurve2DEvaluator(parseExpression(circle, context), context).evaluateCurve({
+      bounds,
+      resolution: 64,
+    });
+    const points = findPointsOfInterest(
+      [{ id: "line", f: x => x }],
+      [{ id: "circle", F: implicitFunction(circle, context), segments }],
+      bounds
+    );
+    const summary = points.map(({ x, y, kind, curves }) => [kind, curves.join("+"), x.toFixed(12), y.toFixed(12)]);
+    const r = Math.SQRT2.toFixed(12);
+    expect(summary).toEqual([
+      ["zero", "line", "0.000000000000", "0.000000000000"],
+      ["zero", "circle", "-2.000000000000", "0.000000000000"],
+      ["zero", "circle", "2.000000000000", "0.000000000000"],
+      ["maximum", "circle", "0.000000000000", "2.000000000000"],
+      ["minimum", "circle", "0.000000000000", "-2.000000000000"],
+      ["intersection", "circle+line", `-${r}`, `-${r}`],
+      ["intersection", "circle+line", r, r],
+    ]);
+  });
+});